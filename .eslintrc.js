@@ -52,6 +52,10 @@ module.exports = {
   overrides: [
     {
       files: ['**/*.test.ts', '**/*.spec.ts'],
+      // Tests are left out of tsconfig.json, lint them without type information
+      parserOptions: {
+        project: null
+      },
       env: {
         jest: true
       }
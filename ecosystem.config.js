@@ -7,15 +7,18 @@ module.exports = {
       exec_mode: 'cluster',
       env: {
         NODE_ENV: 'development',
-        PORT: 5000
+        PORT: 5000,
+        COLLABORATION_STORE: 'mongo'
       },
       env_staging: {
         NODE_ENV: 'staging',
-        PORT: 5000
+        PORT: 5000,
+        COLLABORATION_STORE: 'mongo'
       },
       env_production: {
         NODE_ENV: 'production',
-        PORT: 5000
+        PORT: 5000,
+        COLLABORATION_STORE: 'mongo'
       },
       // Logging
       log_file: './logs/combined.log',
@@ -65,16 +65,19 @@ module.exports = {
   projects: [
     {
       displayName: 'unit',
+      preset: 'ts-jest',
       testMatch: ['<rootDir>/src/**/__tests__/**/*.test.ts'],
       testEnvironment: 'node'
     },
     {
       displayName: 'integration',
+      preset: 'ts-jest',
       testMatch: ['<rootDir>/tests/integration/**/*.test.ts'],
       testEnvironment: 'node'
     },
     {
       displayName: 'e2e',
+      preset: 'ts-jest',
       testMatch: ['<rootDir>/tests/e2e/**/*.test.ts'],
       testEnvironment: 'node'
     }
@@ -10,6 +10,7 @@ import { createAppError } from './utils';
 import { validateGoogleConfig } from './config/google/google';
 import { notFound } from '@/middlewares/not-found';
 import { errorHandler } from '@/middlewares/error-handler';
+import { permissionContext } from '@/modules/permissions/middleware/permission-context.middleware';
 
 dotenv.config();
 
@@ -59,7 +60,14 @@ app.use(
     },
     credentials: true,
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'workspace-id'],
+    allowedHeaders: [
+      'Content-Type',
+      'Authorization',
+      'X-Requested-With',
+      'workspace-id',
+      'X-Device-Id',
+      'X-Share-Password'
+    ],
     exposedHeaders: ['X-Total-Count', 'X-Total-Pages']
   })
 );
@@ -90,6 +98,7 @@ app.use(
 
 app.use(encryptRequest);
 app.use(encryptResponse);
+app.use(permissionContext);
 
 app.get('/', (_req: Request, res: Response) => {
   res.status(200).json({
@@ -34,6 +34,24 @@ if (FIREBASE_PROJECT_ID && FIREBASE_PRIVATE_KEY && FIREBASE_CLIENT_EMAIL) {
   }
 }
 
+// Web push services answer 404/410 for expired subscriptions, FCM reports tokens of
+// uninstalled apps as not registered
+const REJECTED_FCM_CODES = [
+  'messaging/registration-token-not-registered',
+  'messaging/invalid-registration-token'
+];
+
+/**
+ * Whether the push service rejected the device itself, so sending to it again will
+ * never succeed. Send errors for rejected devices have status 410.
+ */
+export const isRejectedPushTarget = (error: unknown): boolean => {
+  const { statusCode, code } = (error || {}) as { statusCode?: number; code?: string };
+  return (
+    statusCode === 410 || statusCode === 404 || (!!code && REJECTED_FCM_CODES.includes(code))
+  );
+};
+
 // Push Notification Interfaces
 export interface IWebPushSubscription {
   endpoint: string;
@@ -156,6 +174,9 @@ export const sendWebPushNotification = async (
     await webpush.sendNotification(subscription, notificationPayload, options);
   } catch (error) {
     console.error('Web Push notification failed:', error);
+    if (isRejectedPushTarget(error)) {
+      throw createAppError('Web push subscription is no longer valid', 410);
+    }
     throw createAppError('Failed to send web push notification', 500);
   }
 };
@@ -183,6 +204,9 @@ export const sendFCMNotification = async (payload: IFCMPayload): Promise<void> =
     await messaging.send(message);
   } catch (error) {
     console.error('FCM notification failed:', error);
+    if (isRejectedPushTarget(error)) {
+      throw createAppError('FCM token is no longer valid', 410);
+    }
     throw createAppError('Failed to send FCM notification', 500);
   }
 };
@@ -3,7 +3,12 @@ import app from './app';
 import { appConfig, logger, SafeMongooseConnection } from './config';
 import { initializeRealtimeNotifications } from '@/modules/system/services/realtime-notifications.service';
 import { initializeReminderSystem } from '@/modules/system/services/reminder.service';
+import { initializeNotificationDigests } from '@/modules/system/services/notification-digest.service';
+import { initializeNotificationDelivery } from '@/modules/system/services/notification-delivery.service';
 import { initializeCalendarSync } from '@/modules/calendar/services/sync.service';
+import { initializeRecurringTasks } from '@/modules/second-brain/tasks/services/recurring-tasks.services';
+import { initializeRecurringTransactions } from '@/modules/second-brain/finance/services/recurring-transactions.service';
+import { initializeFileCleanup } from '@/modules/files/services/file-cleanup.service';
 import { initializeWebSocketService } from '@/modules/editor/services/websocket.service';
 
 const PORT = appConfig.port || 4000;
@@ -32,9 +37,14 @@ const startServer = async () => {
   const httpServer = createServer(app);
 
   initializeRealtimeNotifications(httpServer);
-  initializeWebSocketService(httpServer);
+  await initializeWebSocketService(httpServer);
   initializeReminderSystem();
+  initializeNotificationDigests();
+  initializeNotificationDelivery();
   initializeCalendarSync();
+  initializeRecurringTasks();
+  initializeRecurringTransactions();
+  initializeFileCleanup();
 
   httpServer.listen(PORT, () => {
     logger.info(`🚀 Server running at http://localhost:${PORT}`);
@@ -2,6 +2,7 @@ import { Request, Response, NextFunction } from 'express';
 import {IAuth0Error, IMongoCastError, IMongoDuplicateError, IMongoValidationError, TAppError} from '@/types';
 import { createAppError } from '@/utils';
 import { logger } from '@/config';
+import { getPermissionDenial } from '@/modules/permissions/utils/permission-context.utils';
 
 const handleCastErrorDB = (err: IMongoCastError): TAppError => {
   const message = `Invalid ${err.path}: ${err.value}`;
@@ -136,6 +137,12 @@ export const errorHandler = (
     }
   }
 
+  // Explain access denied by the conditions of a permission
+  const denial = error.statusCode === 403 ? getPermissionDenial() : undefined;
+  if (denial) {
+    error.message = `${error.message}: ${denial.reason}`;
+  }
+
   if (process.env.NODE_ENV === 'development') {
     sendErrorDev(error, res);
   } else {
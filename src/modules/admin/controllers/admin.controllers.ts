@@ -8,8 +8,27 @@ import {
   createInitialSuperAdmin,
   isInitialSetupNeeded
 } from '@/modules/admin/services/admin.services';
+import {
+  getDeliveryReport,
+  getDeliveryStats,
+  retryDelivery,
+  isDeliveryChannel
+} from '@/modules/system/services/notification-delivery.service';
+import {
+  ENotificationDeliveryStatus,
+  ENotificationMethod,
+  TNotificationDeliveryChannel
+} from '@/modules/system/types/notifications.types';
 import { getUserId } from '@/modules/auth';
 import { catchAsync, sendSuccessResponse } from '@/utils';
+import { createBadRequestError } from '@/utils/error.utils';
+
+const parseDate = (value: unknown, name: string): Date | undefined => {
+  if (value === undefined) return undefined;
+  const date = new Date(String(value));
+  if (isNaN(date.getTime())) throw createBadRequestError(`Invalid ${name} date`);
+  return date;
+};
 
 /**
  * Get admin dashboard statistics
@@ -135,3 +154,56 @@ export const getCurrentAdminProfileController = catchAsync(
     });
   }
 );
+
+/**
+ * Get notification deliveries, failed ones unless another status is requested
+ */
+export const getNotificationDeliveriesController = catchAsync(
+  async (req: Request, res: Response): Promise<void> => {
+    const { channel, status, userId, workspaceId, since, page = 1, limit = 20 } = req.query;
+
+    if (channel && !isDeliveryChannel(channel as ENotificationMethod)) {
+      throw createBadRequestError(`Invalid delivery channel: ${channel}`);
+    }
+    if (
+      status &&
+      !Object.values(ENotificationDeliveryStatus).includes(status as ENotificationDeliveryStatus)
+    ) {
+      throw createBadRequestError(`Invalid delivery status: ${status}`);
+    }
+
+    const report = await getDeliveryReport({
+      channel: channel as TNotificationDeliveryChannel,
+      status: status as ENotificationDeliveryStatus,
+      userId: userId as string,
+      workspaceId: workspaceId as string,
+      since: parseDate(since, 'since'),
+      page: parseInt(page as string, 10),
+      limit: parseInt(limit as string, 10)
+    });
+
+    sendSuccessResponse(res, 'Notification deliveries retrieved successfully', report);
+  }
+);
+
+/**
+ * Get notification delivery statistics
+ */
+export const getNotificationDeliveryStatsController = catchAsync(
+  async (req: Request, res: Response): Promise<void> => {
+    const stats = await getDeliveryStats(parseDate(req.query.since, 'since'));
+
+    sendSuccessResponse(res, 'Notification delivery statistics retrieved successfully', stats);
+  }
+);
+
+/**
+ * Queue a failed notification delivery again
+ */
+export const retryNotificationDeliveryController = catchAsync(
+  async (req: Request, res: Response): Promise<void> => {
+    const delivery = await retryDelivery(req.params.deliveryId);
+
+    sendSuccessResponse(res, 'Notification delivery queued for retry', delivery);
+  }
+);
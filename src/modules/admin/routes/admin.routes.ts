@@ -8,7 +8,10 @@ import {
   getAllUsersForAdminController,
   getCurrentAdminProfileController,
   checkInitialSetupController,
-  createInitialSuperAdminController
+  createInitialSuperAdminController,
+  getNotificationDeliveriesController,
+  getNotificationDeliveryStatsController,
+  retryNotificationDeliveryController
 } from '@/modules/admin/controllers/admin.controllers';
 import { authenticateToken, requireSuperAdmin } from '@/middlewares/auth';
 
@@ -46,5 +49,8 @@ router.get('/users/stats', getAdminUserStatsController);
 router.get('/users', getAllUsersForAdminController);
 router.post('/super-admin', createSuperAdminController);
 router.get('/profile', getCurrentAdminProfileController);
+router.get('/notifications/deliveries', getNotificationDeliveriesController);
+router.get('/notifications/deliveries/stats', getNotificationDeliveryStatsController);
+router.post('/notifications/deliveries/:deliveryId/retry', retryNotificationDeliveryController);
 
 export default router;
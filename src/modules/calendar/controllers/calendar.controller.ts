@@ -27,7 +27,7 @@ import {
   IUpdateEventRequest
 } from '../types/request.types';
 import { IUpdateCalendarPreferencesRequest } from '../types/preferences.types';
-import { EEventStatus, ECalendarType } from '../types/enums.types';
+import { EEventStatus, ECalendarType, ERecurrenceEditScope } from '../types/enums.types';
 import { getUserId } from '@/auth/index';
 import { getWorkspaceId } from '@/modules/workspace/middleware/workspace.middleware';
 
@@ -187,8 +187,9 @@ export const updateEventController = catchAsync(
     const userId = getUserId(req);
     const { eventId } = req.params;
     const request: IUpdateEventRequest = req.body;
+    const scope = req.query.scope as ERecurrenceEditScope | undefined;
 
-    const event = await updateEvent(eventId, userId, request);
+    const event = await updateEvent(eventId, userId, request, scope);
 
     sendSuccessResponse(res, 'Event updated successfully', event);
   }
@@ -201,8 +202,9 @@ export const deleteEventController = catchAsync(
   async (req: Request, res: Response): Promise<void> => {
     const userId = getUserId(req);
     const { eventId } = req.params;
+    const scope = req.query.scope as ERecurrenceEditScope | undefined;
 
-    await deleteEvent(eventId, userId);
+    await deleteEvent(eventId, userId, scope);
 
     sendSuccessResponse(res, 'Event deleted successfully');
   }
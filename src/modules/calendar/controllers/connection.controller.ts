@@ -181,7 +181,7 @@ export const getCalendarProvidersController = catchAsync(
         name: 'Apple Calendar (iCloud)',
         description: 'Connect your Apple iCloud calendar',
         authType: 'caldav',
-        features: ['import', 'export'],
+        features: ['import', 'export', 'bidirectional'],
         setupInstructions:
           'You will need to provide your iCloud credentials and enable app-specific passwords.'
       },
@@ -190,7 +190,7 @@ export const getCalendarProvidersController = catchAsync(
         name: 'CalDAV',
         description: 'Connect any CalDAV-compatible calendar',
         authType: 'basic',
-        features: ['import', 'export'],
+        features: ['import', 'export', 'bidirectional'],
         setupInstructions: 'You will need to provide your CalDAV server URL and credentials.'
       },
       {
@@ -0,0 +1,97 @@
+import { Request, Response } from 'express';
+import { catchAsync } from '@/utils/catch-async';
+import { sendSuccessResponse } from '@/utils/response.utils';
+import { getUserId } from '@/auth/index';
+import { getWorkspaceId } from '@/modules/workspace/middleware/workspace.middleware';
+import { ICalendarFeed, ICreateCalendarFeedRequest } from '../types/feed.types';
+import {
+  createCalendarFeed,
+  getCalendarFeeds,
+  regenerateCalendarFeedToken,
+  revokeCalendarFeed,
+  renderCalendarFeed
+} from '../services/feed.service';
+
+// Subscription URL of a feed, served by the public feed route of this router
+const withFeedUrl = (req: Request, feed: ICalendarFeed) => ({
+  ...feed,
+  url: `${req.protocol}://${req.get('host')}${req.baseUrl}/feeds/${feed.token}.ics`
+});
+
+/**
+ * Create a calendar feed
+ */
+export const createCalendarFeedController = catchAsync(
+  async (req: Request, res: Response): Promise<void> => {
+    const userId = getUserId(req);
+    const request: ICreateCalendarFeedRequest = req.body;
+
+    const feed = await createCalendarFeed(userId, request);
+
+    sendSuccessResponse(res, 'Calendar feed created successfully', withFeedUrl(req, feed), 201);
+  }
+);
+
+/**
+ * Get calendar feeds
+ */
+export const getCalendarFeedsController = catchAsync(
+  async (req: Request, res: Response): Promise<void> => {
+    const userId = getUserId(req);
+    const workspaceId = getWorkspaceId(req);
+
+    const feeds = await getCalendarFeeds(userId, workspaceId);
+
+    sendSuccessResponse(
+      res,
+      'Calendar feeds retrieved successfully',
+      feeds.map(feed => withFeedUrl(req, feed))
+    );
+  }
+);
+
+/**
+ * Regenerate the token of a calendar feed
+ */
+export const regenerateCalendarFeedTokenController = catchAsync(
+  async (req: Request, res: Response): Promise<void> => {
+    const userId = getUserId(req);
+    const { feedId } = req.params;
+
+    const feed = await regenerateCalendarFeedToken(feedId, userId);
+
+    sendSuccessResponse(res, 'Calendar feed URL regenerated successfully', withFeedUrl(req, feed));
+  }
+);
+
+/**
+ * Revoke a calendar feed
+ */
+export const revokeCalendarFeedController = catchAsync(
+  async (req: Request, res: Response): Promise<void> => {
+    const userId = getUserId(req);
+    const { feedId } = req.params;
+
+    await revokeCalendarFeed(feedId, userId);
+
+    sendSuccessResponse(res, 'Calendar feed revoked successfully');
+  }
+);
+
+/**
+ * Serve a calendar feed to subscribed calendar apps, authenticated by its token
+ */
+export const getCalendarFeedContentController = catchAsync(
+  async (req: Request, res: Response): Promise<void> => {
+    const { token } = req.params;
+
+    const feed = await renderCalendarFeed(token);
+
+    res.set({
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': `inline; filename="${encodeURIComponent(feed.name)}.ics"`,
+      'Cache-Control': 'private, max-age=300'
+    });
+    res.status(200).send(feed.content);
+  }
+);
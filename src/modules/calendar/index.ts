@@ -4,12 +4,16 @@ export { default as calendarRoutes } from './routes/calendar.routes';
 // Controllers
 export * from './controllers/calendar.controller';
 export * from './controllers/connection.controller';
+export * from './controllers/feed.controller';
 
 // Services
 export * from './services/calendar.service';
 export * from './services/connection.service';
 export * from './services/external-calendar.service';
 export * from './services/sync.service';
+export * from './services/caldav-client';
+export * from './services/icalendar';
+export * from './services/feed.service';
 
 // Types
 export * from './types/enums.types';
@@ -17,8 +21,11 @@ export * from './types/calendar.types';
 export * from './types/connection.types';
 export * from './types/preferences.types';
 export * from './types/request.types';
+export * from './types/caldav.types';
+export * from './types/feed.types';
 
 // Validators
 export * from './validators/calendar.validators';
 export * from './validators/connection.validators';
 export * from './validators/preferences.validators';
+export * from './validators/feed.validators';
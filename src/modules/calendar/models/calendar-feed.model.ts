@@ -0,0 +1,155 @@
+import { randomBytes } from 'crypto';
+import { Schema, model, Document, Model } from 'mongoose';
+import { ECalendarFeedSource } from '../types/enums.types';
+
+export interface ICalendarFeedDocument extends Document {
+  ownerId: string;
+  workspaceId: string;
+  name: string;
+  source: ECalendarFeedSource;
+
+  calendarId?: string;
+  databaseId?: string;
+  viewId?: string;
+
+  token: string;
+  isActive: boolean;
+  revokedAt?: Date;
+
+  lastAccessedAt?: Date;
+  accessCount: number;
+
+  createdAt: Date;
+  updatedAt: Date;
+  createdBy: string;
+  updatedBy?: string;
+
+  _id: string;
+
+  readonly id: string;
+
+  regenerateToken(): Promise<this>;
+  revoke(): Promise<this>;
+}
+
+export interface ICalendarFeedModel extends Model<ICalendarFeedDocument> {
+  findByOwner(ownerId: string, workspaceId?: string): Promise<ICalendarFeedDocument[]>;
+  findByToken(token: string): Promise<ICalendarFeedDocument | null>;
+}
+
+export const generateFeedToken = (): string => randomBytes(32).toString('hex');
+
+const CalendarFeedSchema = new Schema<ICalendarFeedDocument>(
+  {
+    ownerId: {
+      type: String,
+      required: true
+    },
+    workspaceId: {
+      type: String,
+      required: true,
+      index: true
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 100
+    },
+    source: {
+      type: String,
+      enum: Object.values(ECalendarFeedSource),
+      required: true
+    },
+    calendarId: {
+      type: String
+    },
+    databaseId: {
+      type: String
+    },
+    viewId: {
+      type: String
+    },
+    token: {
+      type: String,
+      required: true,
+      unique: true,
+      default: generateFeedToken
+    },
+    isActive: {
+      type: Boolean,
+      default: true
+    },
+    revokedAt: {
+      type: Date
+    },
+    lastAccessedAt: {
+      type: Date
+    },
+    accessCount: {
+      type: Number,
+      default: 0
+    },
+    createdBy: {
+      type: String,
+      required: true
+    },
+    updatedBy: {
+      type: String
+    }
+  },
+  {
+    timestamps: true,
+    collection: 'calendar_feeds'
+  }
+);
+
+CalendarFeedSchema.index({ ownerId: 1, isActive: 1 });
+CalendarFeedSchema.index({ calendarId: 1 }, { sparse: true });
+CalendarFeedSchema.index({ databaseId: 1, viewId: 1 }, { sparse: true });
+
+CalendarFeedSchema.virtual('id').get(function () {
+  return this._id.toString();
+});
+
+CalendarFeedSchema.set('toJSON', {
+  virtuals: true,
+  transform: function (_doc, ret) {
+    const result = { ...ret };
+    if ('_id' in result) {
+      delete (result as Record<string, unknown>)._id;
+    }
+    if ('__v' in result) {
+      delete (result as Record<string, unknown>).__v;
+    }
+    return result;
+  }
+});
+
+CalendarFeedSchema.statics.findByOwner = function (ownerId: string, workspaceId?: string) {
+  const query: any = { ownerId, isActive: true };
+  if (workspaceId) {
+    query.workspaceId = workspaceId;
+  }
+  return this.find(query).sort({ createdAt: -1 });
+};
+
+CalendarFeedSchema.statics.findByToken = function (token: string) {
+  return this.findOne({ token, isActive: true });
+};
+
+CalendarFeedSchema.methods.regenerateToken = function () {
+  this.token = generateFeedToken();
+  return this.save();
+};
+
+CalendarFeedSchema.methods.revoke = function () {
+  this.isActive = false;
+  this.revokedAt = new Date();
+  return this.save();
+};
+
+export const CalendarFeedModel = model<ICalendarFeedDocument, ICalendarFeedModel>(
+  'CalendarFeed',
+  CalendarFeedSchema
+);
@@ -34,6 +34,7 @@ export interface ICalendarEventDocument extends Document {
 
   recurrence?: IRecurrenceRule;
   recurrenceId?: string;
+  originalStartTime?: Date;
 
   organizer?: IEventOrganizer;
   attendees?: IEventAttendee[];
@@ -110,13 +111,13 @@ const RecurrenceRuleSchema = new Schema(
     byDay: [
       {
         type: String,
-        enum: ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU']
+        match: /^[+-]?\d{0,2}(MO|TU|WE|TH|FR|SA|SU)$/
       }
     ],
     byMonthDay: [
       {
         type: Number,
-        min: 1,
+        min: -31,
         max: 31
       }
     ],
@@ -288,6 +289,9 @@ const CalendarEventSchema = new Schema<ICalendarEventDocument>(
       type: String,
       ref: 'CalendarEvent'
     },
+    originalStartTime: {
+      type: Date
+    },
 
     organizer: EventOrganizerSchema,
     attendees: [EventAttendeeSchema],
@@ -327,6 +331,7 @@ CalendarEventSchema.index({ calendarId: 1, endTime: 1 });
 CalendarEventSchema.index({ startTime: 1, endTime: 1 });
 CalendarEventSchema.index({ type: 1, status: 1 });
 CalendarEventSchema.index({ relatedEntityType: 1, relatedEntityId: 1 });
+CalendarEventSchema.index({ recurrenceId: 1, originalStartTime: 1 });
 CalendarEventSchema.index({ 'organizer.email': 1 });
 CalendarEventSchema.index({ 'attendees.email': 1 });
 
@@ -36,8 +36,21 @@ import {
   testCalendarConnectionController,
   getCalendarConnectionStatsController
 } from '@/modules/calendar/controllers/connection.controller';
-import { CalendarSchema, EventSchema } from '../validators/calendar.validators';
+import {
+  createCalendarFeedController,
+  getCalendarFeedsController,
+  regenerateCalendarFeedTokenController,
+  revokeCalendarFeedController,
+  getCalendarFeedContentController
+} from '@/modules/calendar/controllers/feed.controller';
+import {
+  CalendarSchema,
+  EventSchema,
+  RecurrenceRuleSchema,
+  RecurrenceEditScopeSchema
+} from '../validators/calendar.validators';
 import { CalendarConnectionSchema } from '../validators/connection.validators';
+import { CalendarFeedSchema } from '../validators/feed.validators';
 import { EEventStatus, EEventVisibility } from '../types/enums.types';
 import {
   resolveWorkspaceContext,
@@ -49,6 +62,9 @@ import { validateRequest } from '@/middlewares/validation';
 
 const router = Router();
 
+// Calendar apps cannot sign in, feeds are authenticated by the token in their URL
+router.get('/feeds/:token.ics', getCalendarFeedContentController);
+
 router.use(authenticateToken);
 router.use(resolveWorkspaceContext({ allowFromBody: true }));
 router.use(ensureDefaultWorkspace);
@@ -78,6 +94,7 @@ const updateEventSchema = z.object({
   isAllDay: z.boolean().optional(),
   status: z.enum(EEventStatus).optional(),
   visibility: z.enum(EEventVisibility).optional(),
+  recurrence: RecurrenceRuleSchema.nullable().optional(),
   attendees: z
     .array(
       z.object({
@@ -118,6 +135,7 @@ const updateConnectionSchema = z.object({
 
 const validateBody = (schema: z.ZodSchema) => validateRequest({ body: schema });
 const validateParams = (schema: z.ZodSchema) => validateRequest({ params: schema });
+const validateQuery = (schema: z.ZodSchema) => validateRequest({ query: schema });
 
 // Parameter validation schemas
 const calendarIdSchema = z.object({
@@ -132,6 +150,10 @@ const connectionIdSchema = z.object({
   connectionId: z.string().min(1)
 });
 
+const feedIdSchema = z.object({
+  feedId: z.string().min(1)
+});
+
 const entityParamsSchema = z.object({
   entityType: z.string().min(1),
   entityId: z.string().min(1)
@@ -184,6 +206,14 @@ router.get(
   validateParams(connectionIdSchema),
   getCalendarSyncLogsController
 );
+router.post('/feeds', validateBody(CalendarFeedSchema), createCalendarFeedController);
+router.get('/feeds', getCalendarFeedsController);
+router.post(
+  '/feeds/:feedId/regenerate',
+  validateParams(feedIdSchema),
+  regenerateCalendarFeedTokenController
+);
+router.delete('/feeds/:feedId', validateParams(feedIdSchema), revokeCalendarFeedController);
 router.post(
   '/events',
   validateBody(createEventSchema),
@@ -203,10 +233,16 @@ router.get('/events/:eventId', validateParams(eventIdSchema), getEventByIdContro
 router.put(
   '/events/:eventId',
   validateParams(eventIdSchema),
+  validateQuery(RecurrenceEditScopeSchema),
   validateBody(updateEventSchema),
   updateEventController
 );
-router.delete('/events/:eventId', validateParams(eventIdSchema), deleteEventController);
+router.delete(
+  '/events/:eventId',
+  validateParams(eventIdSchema),
+  validateQuery(RecurrenceEditScopeSchema),
+  deleteEventController
+);
 router.post(
   '/',
   validateBody(createCalendarSchema),
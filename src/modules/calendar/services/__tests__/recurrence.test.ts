@@ -0,0 +1,251 @@
+import { recurrenceUtils, TRecurringEvent } from '../recurrence';
+import { IRecurrenceRule } from '../../types/calendar.types';
+import { ERecurrenceFrequency } from '../../types/enums.types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const event = (
+  start: string,
+  rule: Partial<IRecurrenceRule> & Pick<IRecurrenceRule, 'frequency'>,
+  options: { timeZone?: string; isAllDay?: boolean; duration?: number } = {}
+): TRecurringEvent => {
+  const startTime = new Date(start);
+  return {
+    startTime,
+    endTime: new Date(startTime.getTime() + (options.duration ?? HOUR_MS)),
+    isAllDay: options.isAllDay ?? false,
+    timeZone: options.timeZone,
+    recurrence: { interval: 1, ...rule }
+  };
+};
+
+const occurrences = (recurring: TRecurringEvent, from: string, to: string): string[] =>
+  recurrenceUtils
+    .getOccurrences(recurring, new Date(from), new Date(to))
+    .map(start => start.toISOString());
+
+describe('recurrence expansion', () => {
+  describe('BYSETPOS', () => {
+    it('picks the last weekday of each month', () => {
+      const lastWeekday = event('2024-01-31T09:00:00.000Z', {
+        frequency: ERecurrenceFrequency.MONTHLY,
+        byDay: ['MO', 'TU', 'WE', 'TH', 'FR'],
+        bySetPos: [-1]
+      });
+
+      expect(occurrences(lastWeekday, '2024-01-01T00:00:00Z', '2024-05-01T00:00:00Z')).toEqual([
+        '2024-01-31T09:00:00.000Z',
+        '2024-02-29T09:00:00.000Z',
+        '2024-03-29T09:00:00.000Z',
+        '2024-04-30T09:00:00.000Z'
+      ]);
+    });
+
+    it('keeps several positions of a period in order', () => {
+      const firstAndLast = event('2024-03-01T09:00:00.000Z', {
+        frequency: ERecurrenceFrequency.MONTHLY,
+        byDay: ['MO', 'TU', 'WE', 'TH', 'FR'],
+        bySetPos: [-1, 1]
+      });
+
+      expect(occurrences(firstAndLast, '2024-03-01T00:00:00Z', '2024-05-01T00:00:00Z')).toEqual([
+        '2024-03-01T09:00:00.000Z',
+        '2024-03-29T09:00:00.000Z',
+        '2024-04-01T09:00:00.000Z',
+        '2024-04-30T09:00:00.000Z'
+      ]);
+    });
+  });
+
+  describe('negative BYDAY ordinals', () => {
+    it('counts weekdays from the end of the month', () => {
+      const lastFriday = event('2024-01-26T17:00:00.000Z', {
+        frequency: ERecurrenceFrequency.MONTHLY,
+        byDay: ['-1FR']
+      });
+
+      expect(occurrences(lastFriday, '2024-01-01T00:00:00Z', '2024-05-01T00:00:00Z')).toEqual([
+        '2024-01-26T17:00:00.000Z',
+        '2024-02-23T17:00:00.000Z',
+        '2024-03-29T17:00:00.000Z',
+        '2024-04-26T17:00:00.000Z'
+      ]);
+    });
+
+    it('counts weekdays from the end of a month of a yearly rule', () => {
+      const lastSundayOfMarch = event('2024-03-31T01:00:00.000Z', {
+        frequency: ERecurrenceFrequency.YEARLY,
+        byMonth: [3],
+        byDay: ['-1SU']
+      });
+
+      expect(
+        occurrences(lastSundayOfMarch, '2024-01-01T00:00:00Z', '2027-01-01T00:00:00Z')
+      ).toEqual([
+        '2024-03-31T01:00:00.000Z',
+        '2025-03-30T01:00:00.000Z',
+        '2026-03-29T01:00:00.000Z'
+      ]);
+    });
+
+    it('counts the second to last weekday', () => {
+      const secondToLastMonday = event('2024-01-22T12:00:00.000Z', {
+        frequency: ERecurrenceFrequency.MONTHLY,
+        byDay: ['-2MO']
+      });
+
+      expect(
+        occurrences(secondToLastMonday, '2024-01-01T00:00:00Z', '2024-04-01T00:00:00Z')
+      ).toEqual([
+        '2024-01-22T12:00:00.000Z',
+        '2024-02-19T12:00:00.000Z',
+        '2024-03-18T12:00:00.000Z'
+      ]);
+    });
+  });
+
+  describe('COUNT and window skipping', () => {
+    it('counts occurrences from the start of the event, not the window', () => {
+      const fiveDays = event('2024-01-01T09:00:00.000Z', {
+        frequency: ERecurrenceFrequency.DAILY,
+        count: 5
+      });
+
+      expect(occurrences(fiveDays, '2024-01-04T00:00:00Z', '2024-01-31T00:00:00Z')).toEqual([
+        '2024-01-04T09:00:00.000Z',
+        '2024-01-05T09:00:00.000Z'
+      ]);
+      expect(recurrenceUtils.countOccurrencesBefore(fiveDays, new Date('2024-01-31'))).toBe(5);
+    });
+
+    it('skips to a distant window on the interval of the rule', () => {
+      const everyOtherDay = event('2024-01-01T09:00:00.000Z', {
+        frequency: ERecurrenceFrequency.DAILY,
+        interval: 2
+      });
+
+      expect(occurrences(everyOtherDay, '2025-01-01T00:00:00Z', '2025-01-08T00:00:00Z')).toEqual([
+        '2025-01-01T09:00:00.000Z',
+        '2025-01-03T09:00:00.000Z',
+        '2025-01-05T09:00:00.000Z',
+        '2025-01-07T09:00:00.000Z'
+      ]);
+    });
+
+    it('includes an occurrence that started before the window and overlaps it', () => {
+      const weekly = event(
+        '2024-01-01T22:00:00.000Z',
+        { frequency: ERecurrenceFrequency.WEEKLY },
+        { duration: 4 * HOUR_MS }
+      );
+
+      expect(occurrences(weekly, '2024-03-05T00:00:00Z', '2024-03-12T00:00:00Z')).toEqual([
+        '2024-03-04T22:00:00.000Z',
+        '2024-03-11T22:00:00.000Z'
+      ]);
+    });
+
+    it('stops at UNTIL', () => {
+      const daily = event('2024-01-01T09:00:00.000Z', {
+        frequency: ERecurrenceFrequency.DAILY,
+        until: new Date('2024-01-03T09:00:00.000Z')
+      });
+
+      expect(occurrences(daily, '2024-01-01T00:00:00Z', '2024-01-31T00:00:00Z')).toEqual([
+        '2024-01-01T09:00:00.000Z',
+        '2024-01-02T09:00:00.000Z',
+        '2024-01-03T09:00:00.000Z'
+      ]);
+    });
+  });
+
+  describe('daylight saving time', () => {
+    it('keeps the wall time across the spring change', () => {
+      const standup = event(
+        '2024-03-04T14:00:00.000Z',
+        { frequency: ERecurrenceFrequency.WEEKLY },
+        { timeZone: 'America/New_York' }
+      );
+
+      expect(occurrences(standup, '2024-03-01T00:00:00Z', '2024-03-20T00:00:00Z')).toEqual([
+        '2024-03-04T14:00:00.000Z',
+        '2024-03-11T13:00:00.000Z',
+        '2024-03-18T13:00:00.000Z'
+      ]);
+    });
+
+    it('keeps the wall time across the autumn change', () => {
+      const daily = event(
+        '2024-10-26T07:30:00.000Z',
+        { frequency: ERecurrenceFrequency.DAILY },
+        { timeZone: 'Europe/Berlin' }
+      );
+
+      expect(occurrences(daily, '2024-10-26T00:00:00Z', '2024-10-29T00:00:00Z')).toEqual([
+        '2024-10-26T07:30:00.000Z',
+        '2024-10-27T08:30:00.000Z',
+        '2024-10-28T08:30:00.000Z'
+      ]);
+      expect(recurrenceUtils.isOccurrence(daily, new Date('2024-10-27T08:30:00.000Z'))).toBe(true);
+      expect(recurrenceUtils.isOccurrence(daily, new Date('2024-10-27T07:30:00.000Z'))).toBe(false);
+    });
+  });
+
+  describe('EXDATE exceptions', () => {
+    it('leaves out excluded occurrences', () => {
+      const daily = event('2024-01-01T09:00:00.000Z', {
+        frequency: ERecurrenceFrequency.DAILY,
+        exceptions: [new Date('2024-01-03T09:00:00.000Z')]
+      });
+
+      expect(occurrences(daily, '2024-01-01T00:00:00Z', '2024-01-05T12:00:00Z')).toEqual([
+        '2024-01-01T09:00:00.000Z',
+        '2024-01-02T09:00:00.000Z',
+        '2024-01-04T09:00:00.000Z',
+        '2024-01-05T09:00:00.000Z'
+      ]);
+      expect(recurrenceUtils.isOccurrence(daily, new Date('2024-01-03T09:00:00.000Z'))).toBe(false);
+    });
+
+    it('counts excluded occurrences towards COUNT', () => {
+      const fourDays = event('2024-01-01T09:00:00.000Z', {
+        frequency: ERecurrenceFrequency.DAILY,
+        count: 4,
+        exceptions: [new Date('2024-01-02T09:00:00.000Z')]
+      });
+
+      expect(occurrences(fourDays, '2024-01-01T00:00:00Z', '2024-01-31T00:00:00Z')).toEqual([
+        '2024-01-01T09:00:00.000Z',
+        '2024-01-03T09:00:00.000Z',
+        '2024-01-04T09:00:00.000Z'
+      ]);
+      expect(recurrenceUtils.countOccurrencesBefore(fourDays, new Date('2024-01-04'))).toBe(3);
+    });
+
+    it('matches exceptions of all-day events by date', () => {
+      const allDay = event(
+        '2024-01-01T00:00:00.000Z',
+        {
+          frequency: ERecurrenceFrequency.DAILY,
+          exceptions: [new Date('2024-01-02T15:00:00.000Z')]
+        },
+        { isAllDay: true, duration: 24 * HOUR_MS }
+      );
+
+      expect(occurrences(allDay, '2024-01-01T00:00:00Z', '2024-01-03T12:00:00Z')).toEqual([
+        '2024-01-01T00:00:00.000Z',
+        '2024-01-03T00:00:00.000Z'
+      ]);
+    });
+  });
+
+  describe('occurrence ids', () => {
+    it('round-trips the event id and the start', () => {
+      const start = new Date('2024-03-11T13:00:00.000Z');
+      const id = recurrenceUtils.getOccurrenceId('abc123', start);
+
+      expect(id).toBe('abc123_20240311T130000Z');
+      expect(recurrenceUtils.parseOccurrenceId(id)).toEqual({ eventId: 'abc123', start });
+    });
+  });
+});
@@ -0,0 +1,490 @@
+import axios, { Method } from 'axios';
+import { createAppError } from '@/utils/error.utils';
+import { generateId } from '@/utils/id-generator';
+import { iCalendarUtils, IICalendarEventData } from './icalendar';
+import {
+  ICalDAVCalendar,
+  ICalDAVChanges,
+  ICalDAVCredentials,
+  ICalDAVEvent
+} from '../types/caldav.types';
+
+export const ICLOUD_CALDAV_URL = 'https://caldav.icloud.com/';
+
+const NAMESPACES =
+  'xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav" xmlns:cs="http://calendarserver.org/ns/" xmlns:ic="http://apple.com/ns/ical/"';
+const REQUEST_TIMEOUT = 30 * 1000;
+// Resources fetched per calendar-multiget report
+const MULTIGET_BATCH_SIZE = 100;
+
+// Response of a multistatus body, props holds the XML of properties found (200)
+interface IDAVResponse {
+  href: string;
+  status?: number;
+  props: string;
+}
+
+interface IDAVRequestOptions {
+  body?: string;
+  depth?: '0' | '1';
+  contentType?: string;
+  headers?: Record<string, string>;
+}
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const decodeXml = (text: string): string =>
+  text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code: string) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+// Servers pick their own namespace prefixes, elements are matched by local name
+const stripNamespaces = (xml: string): string =>
+  xml.replace(/<(\/?)[\w.-]+:/g, '<$1').replace(/\s+xmlns(?::[\w.-]+)?\s*=\s*"[^"]*"/g, '');
+
+const getElements = (xml: string, name: string): string[] => {
+  const pattern = new RegExp(`<${name}(?:\\s[^>]*)?(?:/>|>([\\s\\S]*?)</${name}>)`, 'g');
+  return Array.from(xml.matchAll(pattern), match => match[1] ?? '');
+};
+
+const getElement = (xml: string, name: string): string | undefined => getElements(xml, name)[0];
+
+const getElementText = (xml: string, name: string): string | undefined => {
+  const element = getElement(xml, name);
+  return element === undefined ? undefined : decodeXml(element).trim();
+};
+
+const parseStatus = (xml: string): number | undefined => {
+  const status = /HTTP\/[\d.]+\s+(\d{3})/.exec(getElement(xml, 'status') || '');
+  return status ? Number(status[1]) : undefined;
+};
+
+const parseMultistatus = (body: string): IDAVResponse[] => {
+  return getElements(stripNamespaces(body), 'response').map(response => {
+    const propstats = getElements(response, 'propstat');
+    return {
+      href: decodeXml(getElement(response, 'href') || '').trim(),
+      // Only set on responses without properties, like members removed since a sync token
+      status: propstats.length === 0 ? parseStatus(response) : undefined,
+      props: propstats
+        .filter(propstat => (parseStatus(propstat) ?? 200) < 300)
+        .map(propstat => getElement(propstat, 'prop') || '')
+        .join('')
+    };
+  });
+};
+
+const resolveUrl = (href: string, baseUrl: string): string => new URL(href, baseUrl).toString();
+
+// Unquoted ETags (some servers send weak or bare ones) are sent back as received
+const getETag = (headers: Record<string, unknown>): string | undefined =>
+  typeof headers.etag === 'string' ? headers.etag : undefined;
+
+const request = async (
+  credentials: ICalDAVCredentials,
+  method: string,
+  url: string,
+  options: IDAVRequestOptions = {}
+): Promise<{ status: number; body: string; headers: Record<string, unknown> }> => {
+  const response = await axios.request<string>({
+    method: method as Method,
+    url,
+    data: options.body,
+    auth: { username: credentials.username, password: credentials.password },
+    headers: {
+      ...(options.body && {
+        'Content-Type': options.contentType || 'application/xml; charset=utf-8'
+      }),
+      ...(options.depth && { Depth: options.depth }),
+      ...options.headers
+    },
+    timeout: REQUEST_TIMEOUT,
+    responseType: 'text',
+    transformResponse: data => data,
+    validateStatus: () => true
+  });
+
+  return {
+    status: response.status,
+    body: typeof response.data === 'string' ? response.data : '',
+    headers: response.headers as Record<string, unknown>
+  };
+};
+
+const assertSuccess = (response: { status: number }, action: string): void => {
+  if (response.status === 401 || response.status === 403) {
+    throw createAppError(`CalDAV server rejected the credentials while trying to ${action}`, 401);
+  }
+  if (response.status === 412) {
+    throw createAppError(`CalDAV event changed on the server, could not ${action}`, 409);
+  }
+  if (response.status >= 300) {
+    throw createAppError(`CalDAV server failed to ${action} (HTTP ${response.status})`, 502);
+  }
+};
+
+const propfind = async (
+  credentials: ICalDAVCredentials,
+  url: string,
+  props: string,
+  depth: '0' | '1'
+): Promise<IDAVResponse[]> => {
+  const response = await request(credentials, 'PROPFIND', url, {
+    depth,
+    body: `<?xml version="1.0" encoding="utf-8"?><d:propfind ${NAMESPACES}><d:prop>${props}</d:prop></d:propfind>`
+  });
+  assertSuccess(response, 'read calendar properties');
+
+  return parseMultistatus(response.body);
+};
+
+const toEvent = (href: string, etag: string | undefined, data: string): ICalDAVEvent | null => {
+  const calendar = iCalendarUtils.parse(data).find(component => component.type === 'VCALENDAR');
+  const events = calendar?.components.filter(component => component.type === 'VEVENT') || [];
+  // Overridden occurrences of recurring events carry a RECURRENCE-ID
+  const master =
+    events.find(event => !iCalendarUtils.getProperty(event, 'RECURRENCE-ID')) || events[0];
+  if (!master) return null;
+
+  const times = iCalendarUtils.getEventTimes(master);
+  if (!times) return null;
+
+  const getDate = (name: string) => {
+    const property = iCalendarUtils.getProperty(master, name);
+    return (property && iCalendarUtils.parseDate(property)?.date) || undefined;
+  };
+  const getEmail = (value: string) => value.replace(/^mailto:/i, '');
+  const organizer = iCalendarUtils.getProperty(master, 'ORGANIZER');
+
+  return {
+    id: href,
+    uid: iCalendarUtils.getText(master, 'UID') || href,
+    etag,
+    summary: iCalendarUtils.getText(master, 'SUMMARY'),
+    description: iCalendarUtils.getText(master, 'DESCRIPTION'),
+    location: iCalendarUtils.getText(master, 'LOCATION'),
+    start: times.start.date,
+    end: times.end.date,
+    isAllDay: times.start.dateOnly,
+    timeZone: times.start.timeZone,
+    status: iCalendarUtils.getText(master, 'STATUS')?.toUpperCase(),
+    organizer: organizer
+      ? { email: getEmail(organizer.value), name: organizer.params.CN }
+      : undefined,
+    attendees: master.properties
+      .filter(property => property.name === 'ATTENDEE')
+      .map(property => ({
+        email: getEmail(property.value),
+        name: property.params.CN,
+        partstat: property.params.PARTSTAT,
+        role: property.params.ROLE
+      })),
+    rrule: iCalendarUtils.getProperty(master, 'RRULE')?.value,
+    exdates: master.properties
+      .filter(property => property.name === 'EXDATE')
+      .flatMap(property =>
+        property.value
+          .split(',')
+          .map(value => iCalendarUtils.parseDate({ ...property, value })?.date)
+      )
+      .filter((date): date is Date => date !== undefined),
+    created: getDate('CREATED'),
+    lastModified: getDate('LAST-MODIFIED')
+  };
+};
+
+const toEvents = (responses: IDAVResponse[], baseUrl: string): ICalDAVEvent[] => {
+  return responses
+    .map(response => {
+      const data = getElementText(response.props, 'calendar-data');
+      return data
+        ? toEvent(
+            resolveUrl(response.href, baseUrl),
+            getElementText(response.props, 'getetag'),
+            data
+          )
+        : null;
+    })
+    .filter((event): event is ICalDAVEvent => event !== null);
+};
+
+const formatTimeRange = (date: Date): string => iCalendarUtils.formatDateTime(date);
+
+/**
+ * CalDAV client (RFC 4791) over basic auth. Calendars and events are addressed
+ * by their absolute URLs, writes are guarded by ETags so changes made by other
+ * clients are never overwritten unseen.
+ */
+export const calDAVClient = {
+  /**
+   * Calendar collections of the account: server URL, then principal, then home set
+   */
+  discoverCalendars: async (credentials: ICalDAVCredentials): Promise<ICalDAVCalendar[]> => {
+    const [root] = await propfind(
+      credentials,
+      credentials.serverUrl,
+      '<d:current-user-principal/><c:calendar-home-set/>',
+      '0'
+    );
+    let homeSetXml = getElement(root?.props || '', 'calendar-home-set');
+
+    if (!homeSetXml) {
+      const principalHref = getElementText(
+        getElement(root?.props || '', 'current-user-principal') || '',
+        'href'
+      );
+      if (!principalHref) {
+        throw createAppError('CalDAV server did not report a user principal', 502);
+      }
+
+      const [principal] = await propfind(
+        credentials,
+        resolveUrl(principalHref, credentials.serverUrl),
+        '<c:calendar-home-set/>',
+        '0'
+      );
+      homeSetXml = getElement(principal?.props || '', 'calendar-home-set');
+    }
+
+    const homeHref = getElementText(homeSetXml || '', 'href');
+    if (!homeHref) {
+      throw createAppError('CalDAV server did not report a calendar home', 502);
+    }
+    const homeUrl = resolveUrl(homeHref, credentials.serverUrl);
+
+    const collections = await propfind(
+      credentials,
+      homeUrl,
+      '<d:resourcetype/><d:displayname/><c:calendar-description/><c:calendar-timezone/><c:supported-calendar-component-set/><ic:calendar-color/><cs:getctag/><d:sync-token/>',
+      '1'
+    );
+
+    return collections
+      .filter(collection => {
+        const resourceType = getElement(collection.props, 'resourcetype') || '';
+        return getElement(resourceType, 'calendar') !== undefined;
+      })
+      .map(collection => {
+        const componentSet = getElement(collection.props, 'supported-calendar-component-set');
+        const components = componentSet
+          ? Array.from(componentSet.matchAll(/<comp\s+name="([^"]+)"/g), match =>
+              match[1].toUpperCase()
+            )
+          : ['VEVENT'];
+        const timeZoneData = getElementText(collection.props, 'calendar-timezone');
+        const timeZone = timeZoneData
+          ? /TZID[^:]*:([^\r\n]+)/.exec(timeZoneData)?.[1]?.trim()
+          : undefined;
+        const color = getElementText(collection.props, 'calendar-color');
+
+        return {
+          id: resolveUrl(collection.href, homeUrl),
+          name: getElementText(collection.props, 'displayname') || 'CalDAV Calendar',
+          description: getElementText(collection.props, 'calendar-description') || undefined,
+          // Apple appends an alpha channel, #RRGGBBAA
+          backgroundColor: color ? color.slice(0, 7) : undefined,
+          timeZone,
+          ctag: getElementText(collection.props, 'getctag') || undefined,
+          syncToken: getElementText(collection.props, 'sync-token') || undefined,
+          components
+        };
+      })
+      .filter(calendar => calendar.components.includes('VEVENT'));
+  },
+
+  /**
+   * Events overlapping a time range, using a calendar-query report
+   */
+  getEvents: async (
+    credentials: ICalDAVCredentials,
+    calendarUrl: string,
+    startDate?: Date,
+    endDate?: Date
+  ): Promise<ICalDAVEvent[]> => {
+    const timeRange =
+      startDate || endDate
+        ? `<c:time-range${startDate ? ` start="${formatTimeRange(startDate)}"` : ''}${
+            endDate ? ` end="${formatTimeRange(endDate)}"` : ''
+          }/>`
+        : '';
+
+    const response = await request(credentials, 'REPORT', calendarUrl, {
+      depth: '1',
+      body: `<?xml version="1.0" encoding="utf-8"?><c:calendar-query ${NAMESPACES}><d:prop><d:getetag/><c:calendar-data/></d:prop><c:filter><c:comp-filter name="VCALENDAR"><c:comp-filter name="VEVENT">${timeRange}</c:comp-filter></c:comp-filter></c:filter></c:calendar-query>`
+    });
+    assertSuccess(response, 'list events');
+
+    return toEvents(parseMultistatus(response.body), calendarUrl);
+  },
+
+  /**
+   * Events by resource URL, using a calendar-multiget report
+   */
+  getEventsByUrl: async (
+    credentials: ICalDAVCredentials,
+    calendarUrl: string,
+    eventUrls: string[]
+  ): Promise<ICalDAVEvent[]> => {
+    const events: ICalDAVEvent[] = [];
+
+    for (let i = 0; i < eventUrls.length; i += MULTIGET_BATCH_SIZE) {
+      const hrefs = eventUrls
+        .slice(i, i + MULTIGET_BATCH_SIZE)
+        .map(url => `<d:href>${escapeXml(new URL(url).pathname)}</d:href>`)
+        .join('');
+
+      const response = await request(credentials, 'REPORT', calendarUrl, {
+        depth: '1',
+        body: `<?xml version="1.0" encoding="utf-8"?><c:calendar-multiget ${NAMESPACES}><d:prop><d:getetag/><c:calendar-data/></d:prop>${hrefs}</c:calendar-multiget>`
+      });
+      assertSuccess(response, 'fetch events');
+
+      events.push(...toEvents(parseMultistatus(response.body), calendarUrl));
+    }
+
+    return events;
+  },
+
+  /**
+   * Changes since a sync token (RFC 6578). Returns null when the server no longer
+   * accepts the token, callers then fall back to a full sync.
+   */
+  getChanges: async (
+    credentials: ICalDAVCredentials,
+    calendarUrl: string,
+    syncToken: string
+  ): Promise<ICalDAVChanges | null> => {
+    const response = await request(credentials, 'REPORT', calendarUrl, {
+      depth: '0',
+      body: `<?xml version="1.0" encoding="utf-8"?><d:sync-collection ${NAMESPACES}><d:sync-token>${escapeXml(syncToken)}</d:sync-token><d:sync-level>1</d:sync-level><d:prop><d:getetag/></d:prop></d:sync-collection>`
+    });
+    if (
+      (response.status === 403 || response.status === 409) &&
+      /valid-sync-token/.test(response.body)
+    ) {
+      return null;
+    }
+    assertSuccess(response, 'list changes');
+
+    const responses = parseMultistatus(response.body).filter(
+      item => resolveUrl(item.href, calendarUrl) !== calendarUrl
+    );
+    const deleted = responses
+      .filter(item => item.status === 404)
+      .map(item => resolveUrl(item.href, calendarUrl));
+    const changed = responses
+      .filter(item => item.status !== 404)
+      .map(item => resolveUrl(item.href, calendarUrl));
+
+    return {
+      events: await calDAVClient.getEventsByUrl(credentials, calendarUrl, changed),
+      deleted,
+      syncToken:
+        getElementText(
+          stripNamespaces(response.body).replace(/<response[\s\S]*<\/response>/, ''),
+          'sync-token'
+        ) || syncToken
+    };
+  },
+
+  /**
+   * Create an event as a new resource, failing if the resource already exists
+   */
+  createEvent: async (
+    credentials: ICalDAVCredentials,
+    calendarUrl: string,
+    event: IICalendarEventData
+  ): Promise<ICalDAVEvent> => {
+    const uid = `${generateId()}@second-brain`;
+    const eventUrl = resolveUrl(
+      `${encodeURIComponent(uid)}.ics`,
+      calendarUrl.endsWith('/') ? calendarUrl : `${calendarUrl}/`
+    );
+    const data = iCalendarUtils.createCalendar([iCalendarUtils.createEvent(uid, event)]);
+
+    return calDAVClient.putEvent(credentials, eventUrl, data, { 'If-None-Match': '*' });
+  },
+
+  /**
+   * Update fields of an event. The stored resource is edited in place so that
+   * properties and occurrences this app does not know about are kept.
+   */
+  updateEvent: async (
+    credentials: ICalDAVCredentials,
+    eventUrl: string,
+    changes: IICalendarEventData,
+    etag?: string
+  ): Promise<ICalDAVEvent> => {
+    const current = await request(credentials, 'GET', eventUrl);
+    assertSuccess(current, 'read the event');
+
+    // The caller's ETag is the version its changes were made on
+    const expectedETag = etag || getETag(current.headers);
+
+    const [calendar] = iCalendarUtils.parse(current.body);
+    const master = calendar?.components.find(
+      component =>
+        component.type === 'VEVENT' && !iCalendarUtils.getProperty(component, 'RECURRENCE-ID')
+    );
+    if (!master) {
+      throw createAppError('CalDAV resource does not contain an event', 502);
+    }
+
+    iCalendarUtils.applyEventChanges(master, changes);
+
+    return calDAVClient.putEvent(
+      credentials,
+      eventUrl,
+      iCalendarUtils.serialize(calendar) + '\r\n',
+      expectedETag ? { 'If-Match': expectedETag } : {}
+    );
+  },
+
+  putEvent: async (
+    credentials: ICalDAVCredentials,
+    eventUrl: string,
+    data: string,
+    conditions: Record<string, string>
+  ): Promise<ICalDAVEvent> => {
+    const response = await request(credentials, 'PUT', eventUrl, {
+      body: data,
+      contentType: 'text/calendar; charset=utf-8',
+      headers: conditions
+    });
+    assertSuccess(response, 'save the event');
+
+    // Servers that change the data on write do not return an ETag
+    let etag = getETag(response.headers);
+    if (!etag) {
+      const [resource] = await propfind(credentials, eventUrl, '<d:getetag/>', '0');
+      etag = getElementText(resource?.props || '', 'getetag');
+    }
+
+    const event = toEvent(eventUrl, etag, data);
+    if (!event) {
+      throw createAppError('CalDAV event could not be read back', 502);
+    }
+    return event;
+  },
+
+  deleteEvent: async (
+    credentials: ICalDAVCredentials,
+    eventUrl: string,
+    etag?: string
+  ): Promise<void> => {
+    const response = await request(credentials, 'DELETE', eventUrl, {
+      headers: etag ? { 'If-Match': etag } : {}
+    });
+    // Already gone
+    if (response.status === 404 || response.status === 410) return;
+
+    assertSuccess(response, 'delete the event');
+  }
+};
@@ -3,7 +3,9 @@ import {
   ICalendarEvent,
   ICalendarEventQuery,
   ICalendarView,
-  ICalendarStats
+  ICalendarStats,
+  IEventReminder,
+  IRecurrenceRule
 } from '../types/calendar.types';
 import {
   ICreateCalendarRequest,
@@ -15,15 +17,23 @@ import {
   ICalendarPreferences,
   IUpdateCalendarPreferencesRequest
 } from '../types/preferences.types';
-import { ECalendarProvider, EEventType, EEventStatus } from '../types/enums.types';
+import {
+  ECalendarProvider,
+  EEventType,
+  EEventStatus,
+  ERecurrenceEditScope
+} from '../types/enums.types';
 import { CalendarModel, ICalendarDocument } from '../models/calendar.model';
-import { CalendarEventModel } from '../models/event.model';
+import { CalendarEventModel, ICalendarEventDocument } from '../models/event.model';
 import { CalendarPreferencesModel } from '../models/calendar-preferences.model';
+import { pushEventChange } from './sync.service';
+import { recurrenceUtils } from './recurrence';
 import { RecordModel } from '@/modules/database/models/record.model';
 import { DatabaseModel } from '@/modules/database/models/database.model';
 import { createAppError } from '@/utils/error.utils';
 import { generateId } from '@/utils/id-generator';
 import { createNotification } from '@/modules/system/services/notifications.service';
+import { NotificationModel } from '@/modules/system/models/notification.model';
 import {
   ENotificationType,
   ENotificationPriority,
@@ -32,6 +42,18 @@ import {
 import { EDatabaseType } from '@/modules/database';
 import { EStatus } from '@/modules/core/types/common.types';
 
+// Reminders of recurring events are scheduled this far past the furthest reminder ahead
+const REMINDER_LOOKAHEAD_MS = 24 * 60 * 60 * 1000;
+
+// Stored event of a user, with the series and occurrence when it is part of a recurring event
+interface IEventTarget {
+  calendar: ICalendarDocument;
+  // Missing for occurrences of a series that were never changed
+  event?: ICalendarEventDocument;
+  master?: ICalendarEventDocument;
+  occurrenceStart?: Date;
+}
+
 /**
  * Transform calendar document to ICalendar interface
  */
@@ -205,6 +227,318 @@ export const deleteCalendar = async (calendarId: string, userId: string): Promis
   }
 };
 
+/**
+ * Find an event of a user by its id, or by the id of an occurrence of a recurring event
+ */
+const findEventTarget = async (eventId: string, userId: string): Promise<IEventTarget> => {
+  const occurrence = recurrenceUtils.parseOccurrenceId(eventId);
+  const event = await CalendarEventModel.findById(occurrence ? occurrence.eventId : eventId);
+
+  if (!event) throw createAppError('Event not found', 404);
+
+  const calendar = await CalendarModel.findOne({
+    _id: event.calendarId,
+    ownerId: userId
+  });
+
+  if (!calendar) {
+    throw createAppError('Event not found', 404);
+  }
+
+  if (occurrence) {
+    if (!event.recurrence || !recurrenceUtils.isOccurrence(event, occurrence.start)) {
+      throw createAppError('Event not found', 404);
+    }
+
+    const override = await CalendarEventModel.findOne({
+      recurrenceId: event.id,
+      originalStartTime: occurrence.start
+    });
+    return {
+      calendar,
+      event: override || undefined,
+      master: event,
+      occurrenceStart: occurrence.start
+    };
+  }
+
+  if (event.recurrenceId && event.originalStartTime) {
+    const master = await CalendarEventModel.findById(event.recurrenceId);
+    if (master?.recurrence) {
+      return { calendar, event, master, occurrenceStart: event.originalStartTime };
+    }
+  }
+
+  if (event.recurrence) {
+    return { calendar, event, master: event, occurrenceStart: event.startTime };
+  }
+
+  return { calendar, event };
+};
+
+const getDuration = (event: { startTime: Date; endTime: Date }): number =>
+  event.endTime.getTime() - event.startTime.getTime();
+
+/**
+ * Occurrence of a recurring event, its id addresses the occurrence in updates and deletes
+ */
+const toOccurrence = (master: ICalendarEvent, start: Date): ICalendarEvent => ({
+  ...master,
+  id: recurrenceUtils.getOccurrenceId(master.id, start),
+  recurrenceId: master.id,
+  originalStartTime: start,
+  startTime: start,
+  endTime: new Date(start.getTime() + getDuration(master))
+});
+
+/**
+ * Starts of the occurrences of recurring events that were replaced by changed copies
+ */
+const getReplacedOccurrences = async (masterIds: string[]): Promise<Map<string, Set<number>>> => {
+  const overrides = await CalendarEventModel.find({
+    recurrenceId: { $in: masterIds },
+    originalStartTime: { $ne: null }
+  }).select('recurrenceId originalStartTime');
+
+  const replaced = new Map<string, Set<number>>();
+  for (const override of overrides) {
+    const starts = replaced.get(override.recurrenceId!) || new Set<number>();
+    starts.add(override.originalStartTime!.getTime());
+    replaced.set(override.recurrenceId!, starts);
+  }
+
+  return replaced;
+};
+
+/**
+ * Expand recurring events into their occurrences within a window
+ */
+const expandRecurringEvents = async (
+  masters: ICalendarEventDocument[],
+  startDate: Date,
+  endDate: Date
+): Promise<ICalendarEvent[]> => {
+  const replaced = await getReplacedOccurrences(masters.map(master => master.id));
+
+  return masters.flatMap(master => {
+    const json = master.toJSON() as ICalendarEvent;
+    return recurrenceUtils
+      .getOccurrences(master, startDate, endDate)
+      .filter(start => !replaced.get(master.id)?.has(start.getTime()))
+      .map(start => toOccurrence(json, start));
+  });
+};
+
+/**
+ * Fields a recurring event shares with the changed copies of its occurrences
+ */
+const getSeriesFields = (master: ICalendarEventDocument) => ({
+  calendarId: master.calendarId,
+  title: master.title,
+  description: master.description,
+  location: master.location,
+  isAllDay: master.isAllDay,
+  timeZone: master.timeZone,
+  type: master.type,
+  status: master.status,
+  visibility: master.visibility,
+  organizer: master.organizer,
+  attendees: master.attendees,
+  reminders: master.reminders,
+  relatedEntityType: master.relatedEntityType,
+  relatedEntityId: master.relatedEntityId,
+  metadata: master.metadata
+});
+
+/**
+ * Times of an edited occurrence, an occurrence moved without a new end keeps its length
+ */
+const getEditedTimes = (
+  master: ICalendarEventDocument,
+  occurrenceStart: Date,
+  request: IUpdateEventRequest
+): { startTime: Date; endTime: Date } => {
+  const startTime = request.startTime || occurrenceStart;
+  const endTime = request.endTime || new Date(startTime.getTime() + getDuration(master));
+  return { startTime, endTime };
+};
+
+/**
+ * Rule of a recurring event ending before one of its occurrences
+ */
+const endSeriesBefore = (
+  master: ICalendarEventDocument,
+  occurrenceStart: Date
+): IRecurrenceRule => {
+  const rule = master.toObject().recurrence as IRecurrenceRule;
+
+  return {
+    ...rule,
+    ...(rule.count
+      ? { count: recurrenceUtils.countOccurrencesBefore(master, occurrenceStart) }
+      : { until: new Date(occurrenceStart.getTime() - 1000) }),
+    exceptions: (rule.exceptions || []).filter(exception => exception < occurrenceStart)
+  };
+};
+
+/**
+ * Move the changed occurrences of a series to another series, by the shift of its times
+ */
+const moveOverrides = async (
+  fromId: string,
+  toId: string,
+  shift: number,
+  after?: Date
+): Promise<void> => {
+  const overrides = await CalendarEventModel.find({
+    recurrenceId: fromId,
+    originalStartTime: after ? { $gt: after } : { $ne: null }
+  });
+
+  await Promise.all(
+    overrides.map(override =>
+      CalendarEventModel.updateOne(
+        { _id: override._id },
+        {
+          recurrenceId: toId,
+          originalStartTime: new Date(override.originalStartTime!.getTime() + shift)
+        }
+      )
+    )
+  );
+};
+
+/**
+ * Change a single occurrence of a recurring event, stored as a copy replacing it
+ */
+const updateOccurrence = async (
+  master: ICalendarEventDocument,
+  occurrenceStart: Date,
+  override: ICalendarEventDocument | undefined,
+  request: IUpdateEventRequest,
+  userId: string
+): Promise<ICalendarEventDocument> => {
+  // An occurrence cannot repeat on its own
+  const changes = { ...request };
+  delete changes.recurrence;
+
+  if (override) {
+    Object.assign(override, changes);
+    override.updatedBy = userId;
+    await override.save();
+    return override;
+  }
+
+  const occurrence = new CalendarEventModel({
+    ...getSeriesFields(master),
+    ...changes,
+    ...getEditedTimes(master, occurrenceStart, changes),
+    recurrenceId: master.id,
+    originalStartTime: occurrenceStart,
+    createdBy: userId
+  });
+
+  await occurrence.save();
+  return occurrence;
+};
+
+/**
+ * Change all occurrences of a recurring event. Editing the times of one occurrence
+ * moves the whole series by the same amount.
+ */
+const updateSeries = async (
+  calendar: ICalendarDocument,
+  master: ICalendarEventDocument,
+  occurrenceStart: Date,
+  request: IUpdateEventRequest,
+  userId: string
+): Promise<ICalendarEventDocument> => {
+  const { startTime, endTime } = getEditedTimes(master, occurrenceStart, request);
+  const shift = startTime.getTime() - occurrenceStart.getTime();
+  const seriesStart = new Date(master.startTime.getTime() + shift);
+
+  Object.assign(master, request, {
+    startTime: seriesStart,
+    endTime: new Date(seriesStart.getTime() + endTime.getTime() - startTime.getTime())
+  });
+  master.updatedBy = userId;
+
+  if (request.recurrence === undefined && shift !== 0 && master.recurrence?.exceptions?.length) {
+    master.recurrence.exceptions = master.recurrence.exceptions.map(
+      exception => new Date(exception.getTime() + shift)
+    );
+  }
+
+  await master.save();
+
+  if (!master.recurrence) {
+    await CalendarEventModel.deleteMany({
+      recurrenceId: master.id,
+      originalStartTime: { $ne: null }
+    });
+  } else if (shift !== 0) {
+    await moveOverrides(master.id, master.id, shift);
+  }
+
+  await pushEventChange(calendar, master, 'update');
+
+  return master;
+};
+
+/**
+ * Change an occurrence of a recurring event and the ones after it, by ending the
+ * series before the occurrence and starting a new series from it
+ */
+const splitSeries = async (
+  calendar: ICalendarDocument,
+  master: ICalendarEventDocument,
+  occurrenceStart: Date,
+  request: IUpdateEventRequest,
+  userId: string
+): Promise<ICalendarEventDocument> => {
+  const rule = master.toObject().recurrence as IRecurrenceRule;
+  const { startTime, endTime } = getEditedTimes(master, occurrenceStart, request);
+  const shift = startTime.getTime() - occurrenceStart.getTime();
+  const previousRule = endSeriesBefore(master, occurrenceStart);
+
+  const following = new CalendarEventModel({
+    ...getSeriesFields(master),
+    ...request,
+    recurrence:
+      request.recurrence === undefined
+        ? {
+            ...rule,
+            ...(rule.count && { count: rule.count - previousRule.count! }),
+            exceptions: (rule.exceptions || [])
+              .filter(exception => exception >= occurrenceStart)
+              .map(exception => new Date(exception.getTime() + shift))
+          }
+        : request.recurrence,
+    startTime,
+    endTime,
+    createdBy: userId
+  });
+  await following.save();
+
+  master.recurrence = previousRule;
+  master.updatedBy = userId;
+  await master.save();
+
+  // The edit replaces the change made to the occurrence it starts from
+  await CalendarEventModel.deleteMany({
+    recurrenceId: master.id,
+    originalStartTime: occurrenceStart
+  });
+  if (following.recurrence) {
+    await moveOverrides(master.id, following.id, shift, occurrenceStart);
+  }
+
+  await pushEventChange(calendar, master, 'update');
+  await pushEventChange(calendar, following, 'create');
+
+  return following;
+};
+
 /**
  * Create a calendar event
  */
@@ -236,6 +570,7 @@ export const createEvent = async (
     });
 
     await event.save();
+    await pushEventChange(calendar, event, 'create');
 
     if (request.reminders && request.reminders.length > 0) {
       await createEventReminders(event.toJSON(), userId);
@@ -267,16 +602,6 @@ export const getEvents = async (
 
     if (workspaceId) mongoQuery['metadata.workspaceId'] = workspaceId;
 
-    if (query.startDate || query.endDate) {
-      mongoQuery.$and = [];
-      if (query.startDate) {
-        mongoQuery.$and.push({ endTime: { $gte: query.startDate } });
-      }
-      if (query.endDate) {
-        mongoQuery.$and.push({ startTime: { $lte: query.endDate } });
-      }
-    }
-
     if (query.eventTypes && query.eventTypes.length > 0) {
       mongoQuery.type = { $in: query.eventTypes };
     }
@@ -294,6 +619,45 @@ export const getEvents = async (
       mongoQuery.$text = { $search: query.searchQuery };
     }
 
+    // Recurring events are expanded into their occurrences within the window
+    if (query.startDate && query.endDate) {
+      const [singleEvents, recurringEvents] = await Promise.all([
+        CalendarEventModel.find({
+          ...mongoQuery,
+          recurrence: null,
+          endTime: { $gte: query.startDate },
+          startTime: { $lte: query.endDate }
+        }),
+        CalendarEventModel.find({
+          ...mongoQuery,
+          recurrence: { $ne: null },
+          startTime: { $lte: query.endDate }
+        })
+      ]);
+
+      const occurrences = await expandRecurringEvents(
+        recurringEvents,
+        query.startDate,
+        query.endDate
+      );
+      const events = [...singleEvents.map(event => event.toJSON()), ...occurrences].sort(
+        (a, b) => a.startTime.getTime() - b.startTime.getTime()
+      );
+
+      const offset = query.offset || 0;
+      return events.slice(offset, query.limit ? offset + query.limit : undefined);
+    }
+
+    if (query.startDate || query.endDate) {
+      mongoQuery.$and = [];
+      if (query.startDate) {
+        mongoQuery.$and.push({ endTime: { $gte: query.startDate } });
+      }
+      if (query.endDate) {
+        mongoQuery.$and.push({ startTime: { $lte: query.endDate } });
+      }
+    }
+
     let eventsQuery = CalendarEventModel.find(mongoQuery).sort({ startTime: 1 });
 
     if (query.offset) {
@@ -312,81 +676,123 @@ export const getEvents = async (
 };
 
 /**
- * Get event by ID
+ * Get event by ID, or an occurrence of a recurring event by its occurrence ID
  */
 export const getEventById = async (eventId: string, userId: string): Promise<ICalendarEvent> => {
   try {
-    const event = await CalendarEventModel.findById(eventId).populate('calendarId');
-
-    if (!event) throw createAppError('Event not found', 404);
+    const { event, master, occurrenceStart } = await findEventTarget(eventId, userId);
 
-    const calendar = await CalendarModel.findOne({
-      _id: event.calendarId,
-      ownerId: userId
-    });
+    if (event) return event.toJSON() as ICalendarEvent;
 
-    if (!calendar) {
-      throw createAppError('Event not found', 404);
-    }
-
-    return event.toJSON();
-  } catch (error) {
+    return toOccurrence(master!.toJSON() as ICalendarEvent, occurrenceStart!);
+  } catch (error: any) {
+    if (error.statusCode) throw error;
     throw createAppError('Failed to get event', 500);
   }
 };
 
 /**
- * Update event
+ * Update event. Occurrences of recurring events are changed alone by default, the
+ * scope also allows changing the occurrences after them or the whole series.
  */
 export const updateEvent = async (
   eventId: string,
   userId: string,
-  request: IUpdateEventRequest
+  request: IUpdateEventRequest,
+  scope?: ERecurrenceEditScope
 ): Promise<ICalendarEvent> => {
   try {
-    const event = await CalendarEventModel.findById(eventId);
+    const { calendar, event, master, occurrenceStart } = await findEventTarget(eventId, userId);
 
-    if (!event) throw createAppError('Event not found', 404);
+    if (!master || !occurrenceStart) {
+      Object.assign(event!, request);
+      event!.updatedBy = userId;
 
-    const calendar = await CalendarModel.findOne({
-      _id: event.calendarId,
-      ownerId: userId
-    });
+      await event!.save();
+      await pushEventChange(calendar, event!, 'update');
 
-    if (!calendar) {
-      throw createAppError('Event not found', 404);
+      return event!.toJSON() as ICalendarEvent;
     }
 
-    Object.assign(event, request);
-    event.updatedBy = userId;
+    const editScope =
+      scope || (event === master ? ERecurrenceEditScope.ALL : ERecurrenceEditScope.THIS);
+    let updated: ICalendarEventDocument;
+
+    if (editScope === ERecurrenceEditScope.THIS) {
+      updated = await updateOccurrence(
+        master,
+        occurrenceStart,
+        event === master ? undefined : event,
+        request,
+        userId
+      );
+    } else if (editScope === ERecurrenceEditScope.FOLLOWING && occurrenceStart > master.startTime) {
+      updated = await splitSeries(calendar, master, occurrenceStart, request, userId);
+    } else {
+      updated = await updateSeries(calendar, master, occurrenceStart, request, userId);
+    }
 
-    await event.save();
-    return event.toJSON();
-  } catch (error) {
+    return updated.toJSON() as ICalendarEvent;
+  } catch (error: any) {
+    if (error.statusCode) throw error;
     throw createAppError('Failed to update event', 500);
   }
 };
 
 /**
- * Delete event
+ * Delete event. Occurrences of recurring events are deleted alone by default, the
+ * scope also allows deleting the occurrences after them or the whole series.
  */
-export const deleteEvent = async (eventId: string, userId: string): Promise<void> => {
+export const deleteEvent = async (
+  eventId: string,
+  userId: string,
+  scope?: ERecurrenceEditScope
+): Promise<void> => {
   try {
-    const event = await CalendarEventModel.findById(eventId);
+    const { calendar, event, master, occurrenceStart } = await findEventTarget(eventId, userId);
+
+    const deleteScope =
+      scope || (master && event !== master ? ERecurrenceEditScope.THIS : ERecurrenceEditScope.ALL);
+    const keepsSeries =
+      deleteScope === ERecurrenceEditScope.THIS ||
+      (deleteScope === ERecurrenceEditScope.FOLLOWING &&
+        !!occurrenceStart &&
+        occurrenceStart > master!.startTime);
+
+    if (master && occurrenceStart && keepsSeries) {
+      if (deleteScope === ERecurrenceEditScope.THIS) {
+        const rule = master.toObject().recurrence as IRecurrenceRule;
+        master.recurrence = { ...rule, exceptions: [...(rule.exceptions || []), occurrenceStart] };
+        await CalendarEventModel.deleteMany({
+          recurrenceId: master.id,
+          originalStartTime: occurrenceStart
+        });
+      } else {
+        master.recurrence = endSeriesBefore(master, occurrenceStart);
+        await CalendarEventModel.deleteMany({
+          recurrenceId: master.id,
+          originalStartTime: { $gte: occurrenceStart }
+        });
+      }
 
-    if (!event) throw createAppError('Event not found', 404);
+      master.updatedBy = userId;
+      await master.save();
+      await pushEventChange(calendar, master, 'update');
+      return;
+    }
 
-    const calendar = await CalendarModel.findOne({
-      _id: event.calendarId,
-      ownerId: userId
-    });
+    const deleted = master || event!;
 
-    if (!calendar) {
-      throw createAppError('Event not found', 404);
+    await CalendarEventModel.deleteOne({ _id: deleted._id });
+    if (master) {
+      await CalendarEventModel.deleteMany({
+        recurrenceId: master.id,
+        originalStartTime: { $ne: null }
+      });
     }
-
-    await CalendarEventModel.deleteOne({ _id: eventId });
-  } catch (error) {
+    await pushEventChange(calendar, deleted, 'delete');
+  } catch (error: any) {
+    if (error.statusCode) throw error;
     throw createAppError('Failed to delete event', 500);
   }
 };
@@ -664,36 +1070,97 @@ const syncGoalsToCalendar = async (
 };
 
 /**
- * Create event reminders
+ * Create event reminders. Recurring events get reminders for their occurrences up to
+ * the furthest reminder ahead, later occurrences are scheduled as time passes.
  */
 const createEventReminders = async (event: ICalendarEvent, userId: string): Promise<void> => {
-  for (const reminder of event.reminders || []) {
-    const reminderTime = new Date(event.startTime.getTime() - reminder.minutes * 60 * 1000);
-
-    await createNotification({
-      type: ENotificationType.TASK_DUE,
-      priority: ENotificationPriority.MEDIUM,
-      title: `📅 Upcoming: ${event.title}`,
-      message: `Your event "${event.title}" starts in ${reminder.minutes} minutes`,
-      userId: userId,
-      workspaceId: 'default',
-      entityId: event.id,
-      entityType: 'calendar_event',
-      scheduledFor: reminderTime,
-      metadata: {
-        eventTitle: event.title,
-        eventLocation: event.location,
-        eventStartTime: event.startTime,
-        reminderMethod: reminder.method
-      },
-      methods: [
-        ENotificationMethod.IN_APP,
-        reminder.method === 'email' ? ENotificationMethod.EMAIL : ENotificationMethod.PUSH
-      ]
-    });
+  const reminders = event.reminders || [];
+
+  if (!event.recurrence) {
+    for (const reminder of reminders) {
+      await createReminder(event, event.startTime, event.id, reminder, userId);
+    }
+    return;
+  }
+
+  const now = new Date();
+  const furthestReminder = Math.max(0, ...reminders.map(reminder => reminder.minutes));
+  const horizon = new Date(now.getTime() + furthestReminder * 60 * 1000 + REMINDER_LOOKAHEAD_MS);
+  const replaced = (await getReplacedOccurrences([event.id])).get(event.id);
+
+  for (const start of recurrenceUtils.getOccurrences(event, now, horizon)) {
+    if (replaced?.has(start.getTime())) continue;
+
+    const occurrenceId = recurrenceUtils.getOccurrenceId(event.id, start);
+    for (const reminder of reminders) {
+      const reminderTime = new Date(start.getTime() - reminder.minutes * 60 * 1000);
+      if (reminderTime < now) continue;
+
+      // Occurrences stay within the horizon over several runs
+      const scheduled = await NotificationModel.exists({
+        entityId: occurrenceId,
+        entityType: 'calendar_event',
+        scheduledFor: reminderTime
+      });
+      if (!scheduled) {
+        await createReminder(event, start, occurrenceId, reminder, userId);
+      }
+    }
   }
 };
 
+/**
+ * Schedule reminders of upcoming occurrences of recurring events
+ */
+export const scheduleRecurringEventReminders = async (): Promise<void> => {
+  const now = new Date();
+  const events = await CalendarEventModel.find({
+    recurrence: { $ne: null },
+    'reminders.0': { $exists: true },
+    status: { $ne: EEventStatus.CANCELLED },
+    $or: [{ 'recurrence.until': null }, { 'recurrence.until': { $gte: now } }]
+  });
+
+  for (const event of events) {
+    await createEventReminders(event.toJSON() as ICalendarEvent, event.createdBy);
+  }
+};
+
+/**
+ * Create the notification of a reminder of an event or occurrence
+ */
+const createReminder = async (
+  event: ICalendarEvent,
+  startTime: Date,
+  entityId: string,
+  reminder: IEventReminder,
+  userId: string
+): Promise<void> => {
+  const reminderTime = new Date(startTime.getTime() - reminder.minutes * 60 * 1000);
+
+  await createNotification({
+    type: ENotificationType.TASK_DUE,
+    priority: ENotificationPriority.MEDIUM,
+    title: `📅 Upcoming: ${event.title}`,
+    message: `Your event "${event.title}" starts in ${reminder.minutes} minutes`,
+    userId: userId,
+    workspaceId: 'default',
+    entityId,
+    entityType: 'calendar_event',
+    scheduledFor: reminderTime,
+    metadata: {
+      eventTitle: event.title,
+      eventLocation: event.location,
+      eventStartTime: startTime,
+      reminderMethod: reminder.method
+    },
+    methods: [
+      ENotificationMethod.IN_APP,
+      reminder.method === 'email' ? ENotificationMethod.EMAIL : ENotificationMethod.PUSH
+    ]
+  });
+};
+
 /**
  * Get calendar statistics
  */
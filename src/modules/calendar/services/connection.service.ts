@@ -2,6 +2,7 @@ import { ICalendarConnection, ICalendarSyncLog } from '../types/connection.types
 import { IConnectCalendarRequest } from '../types/request.types';
 import { ECalendarProvider } from '../types/enums.types';
 import { CalendarConnectionModel, CalendarSyncLogModel } from '../models/connection.model';
+import { ICLOUD_CALDAV_URL } from './caldav-client';
 import { createAppError } from '@/utils/error.utils';
 import { generateId } from '@/utils/id-generator';
 
@@ -27,21 +28,39 @@ export const createCalendarConnection = async (
     throw createAppError('Invalid calendar provider', 400);
   }
 
+  // CalDAV accounts sign in with a password, kept as the access token
+  const isCalDAV =
+    request.provider === ECalendarProvider.CALDAV || request.provider === ECalendarProvider.APPLE;
+  if (isCalDAV) {
+    if (!request.password) {
+      throw createAppError('Password is required for CalDAV connections', 400);
+    }
+    if (request.provider === ECalendarProvider.CALDAV && !request.serverUrl) {
+      throw createAppError('Server URL is required for CalDAV connections', 400);
+    }
+  }
+
   const connection = new CalendarConnectionModel({
     id: generateId(),
     userId,
     provider: request.provider,
     accountEmail: request.accountEmail,
     accountName: request.accountEmail,
-    accessToken: request.accessToken || '',
+    accessToken: (isCalDAV ? request.password : request.accessToken) || '',
     refreshToken: request.refreshToken,
     isActive: true,
     syncEnabled: true,
     syncFrequency: 15,
+    metadata: isCalDAV
+      ? {
+          serverUrl: request.serverUrl || ICLOUD_CALDAV_URL,
+          username: request.username || request.accountEmail
+        }
+      : undefined,
     syncSettings: {
       importEvents: true,
-      exportEvents: false,
-      bidirectionalSync: false,
+      exportEvents: isCalDAV,
+      bidirectionalSync: isCalDAV,
       syncPastDays: 30,
       syncFutureDays: 365,
       conflictResolution: 'remote',
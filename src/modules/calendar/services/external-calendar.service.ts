@@ -5,6 +5,8 @@ import ical from 'ical';
 import { ECalendarProvider } from '../types/enums.types';
 import { ICalendarConnection } from '../types/connection.types';
 import { ICreateEventRequest, IUpdateEventRequest } from '../types/request.types';
+import { ICalDAVChanges, ICalDAVCredentials } from '../types/caldav.types';
+import { calDAVClient, ICLOUD_CALDAV_URL } from './caldav-client';
 import { createAppError } from '@/utils/error.utils';
 
 // External CalendarTypes Provider Interface
@@ -21,13 +23,26 @@ export interface IExternalCalendarProvider {
     calendarId: string,
     event: ICreateEventRequest
   ): Promise<any>;
+  // ETags guard writes against changes made on the server since the event was synced
   updateEvent(
     connection: ICalendarConnection,
     calendarId: string,
     eventId: string,
-    event: IUpdateEventRequest
+    event: IUpdateEventRequest,
+    etag?: string
   ): Promise<any>;
-  deleteEvent(connection: ICalendarConnection, calendarId: string, eventId: string): Promise<void>;
+  deleteEvent(
+    connection: ICalendarConnection,
+    calendarId: string,
+    eventId: string,
+    etag?: string
+  ): Promise<void>;
+  // Incremental sync, returns null when the token expired and a full sync is needed
+  getChanges?(
+    connection: ICalendarConnection,
+    calendarId: string,
+    syncToken: string
+  ): Promise<ICalDAVChanges | null>;
   refreshToken(
     connection: ICalendarConnection
   ): Promise<{ accessToken: string; refreshToken?: string; expiresIn?: number }>;
@@ -391,11 +406,27 @@ const outlookCalendarProvider = {
   }
 };
 
-// CalDAV Provider (for Apple Calendar, etc.)
+// CalDAV Provider (for Apple Calendar, Fastmail, Nextcloud, etc.)
 const calDAVProvider = {
+  // CalDAV accounts sign in with a password, stored as the connection's access token
+  getCredentials: function (connection: ICalendarConnection): ICalDAVCredentials {
+    const serverUrl =
+      (connection.metadata?.serverUrl as string | undefined) ||
+      (connection.provider === ECalendarProvider.APPLE ? ICLOUD_CALDAV_URL : undefined);
+
+    if (!serverUrl || !connection.accessToken) {
+      throw createAppError('CalDAV connection is missing its server URL or password', 400);
+    }
+
+    return {
+      serverUrl,
+      username: (connection.metadata?.username as string | undefined) || connection.accountEmail,
+      password: connection.accessToken
+    };
+  },
+
   getCalendars: async function (connection: ICalendarConnection): Promise<any[]> {
-    // CalDAV implementation would go here
-    throw createAppError('CalDAV provider not yet implemented', 501);
+    return calDAVClient.discoverCalendars(this.getCredentials(connection));
   },
 
   getEvents: async function (
@@ -404,8 +435,15 @@ const calDAVProvider = {
     startDate?: Date,
     endDate?: Date
   ): Promise<any[]> {
-    // CalDAV implementation would go here
-    throw createAppError('CalDAV provider not yet implemented', 501);
+    return calDAVClient.getEvents(this.getCredentials(connection), calendarId, startDate, endDate);
+  },
+
+  getChanges: async function (
+    connection: ICalendarConnection,
+    calendarId: string,
+    syncToken: string
+  ): Promise<ICalDAVChanges | null> {
+    return calDAVClient.getChanges(this.getCredentials(connection), calendarId, syncToken);
   },
 
   createEvent: async function (
@@ -413,30 +451,34 @@ const calDAVProvider = {
     calendarId: string,
     event: ICreateEventRequest
   ): Promise<any> {
-    throw createAppError('CalDAV provider not yet implemented', 501);
+    return calDAVClient.createEvent(this.getCredentials(connection), calendarId, event);
   },
 
   updateEvent: async function (
     connection: ICalendarConnection,
     calendarId: string,
     eventId: string,
-    event: IUpdateEventRequest
+    event: IUpdateEventRequest,
+    etag?: string
   ): Promise<any> {
-    throw createAppError('CalDAV provider not yet implemented', 501);
+    return calDAVClient.updateEvent(this.getCredentials(connection), eventId, event, etag);
   },
 
   deleteEvent: async function (
     connection: ICalendarConnection,
     calendarId: string,
-    eventId: string
+    eventId: string,
+    etag?: string
   ): Promise<void> {
-    throw createAppError('CalDAV provider not yet implemented', 501);
+    await calDAVClient.deleteEvent(this.getCredentials(connection), eventId, etag);
   },
 
-  refreshToken: async function (
-    connection: ICalendarConnection
-  ): Promise<{ accessToken: string; refreshToken?: string; expiresIn?: number }> {
-    throw createAppError('CalDAV provider not yet implemented', 501);
+  refreshToken: async function (): Promise<{
+    accessToken: string;
+    refreshToken?: string;
+    expiresIn?: number;
+  }> {
+    throw createAppError('CalDAV connections use passwords, not tokens', 400);
   }
 };
 
@@ -0,0 +1,358 @@
+import { ICalendarFeed, ICreateCalendarFeedRequest } from '../types/feed.types';
+import { IICalendarComponent, IICalendarProperty } from '../types/caldav.types';
+import { ECalendarFeedSource, EEventVisibility } from '../types/enums.types';
+import { CalendarFeedModel, ICalendarFeedDocument } from '../models/calendar-feed.model';
+import { CalendarModel, ICalendarDocument } from '../models/calendar.model';
+import { CalendarEventModel, ICalendarEventDocument } from '../models/event.model';
+import { iCalendarUtils } from './icalendar';
+import { RecordModel, TRecordDocument } from '@/modules/database/models/record.model';
+import { DatabaseModel } from '@/modules/database/models/database.model';
+import { ViewModel } from '@/modules/database/models/view.model';
+import { propertiesService } from '@/modules/database/services/properties.services';
+import { viewsService } from '@/modules/database/services/views.services';
+import { EViewType } from '@/modules/database/types/views.types';
+import { IProperty, EPropertyType } from '@/modules/core/types/property.types';
+import { createAppError } from '@/utils/error.utils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Past events older than this are left out of feeds, recurring events are always included
+const FEED_PAST_DAYS = 365;
+const MAX_FEED_EVENTS = 5000;
+const UID_DOMAIN = 'second-brain';
+// How often subscribed clients are asked to refresh
+const REFRESH_INTERVAL = 'PT1H';
+
+const CLASS_VALUES: Record<EEventVisibility, string> = {
+  [EEventVisibility.PUBLIC]: 'PUBLIC',
+  [EEventVisibility.PRIVATE]: 'PRIVATE',
+  [EEventVisibility.CONFIDENTIAL]: 'CONFIDENTIAL'
+};
+
+const TITLE_PROPERTIES = ['title', 'name'];
+
+const findFeed = async (feedId: string, userId: string): Promise<ICalendarFeedDocument> => {
+  const feed = await CalendarFeedModel.findOne({ _id: feedId, ownerId: userId, isActive: true });
+
+  if (!feed) {
+    throw createAppError('Calendar feed not found', 404);
+  }
+
+  return feed;
+};
+
+const setTimestamps = (component: IICalendarComponent, createdAt?: Date, updatedAt?: Date) => {
+  if (createdAt) {
+    iCalendarUtils.setProperty(component, 'CREATED', iCalendarUtils.formatDateTime(createdAt));
+  }
+  if (updatedAt) {
+    iCalendarUtils.setProperty(
+      component,
+      'LAST-MODIFIED',
+      iCalendarUtils.formatDateTime(updatedAt)
+    );
+  }
+};
+
+const eventToComponent = (event: ICalendarEventDocument): IICalendarComponent => {
+  // Changed occurrences share the UID of their series and name the occurrence they replace
+  const isOverride = !!(event.recurrenceId && event.originalStartTime);
+  const uid = `${isOverride ? event.recurrenceId : event.id}@${UID_DOMAIN}`;
+  const component = iCalendarUtils.createEvent(uid, {
+    title: event.title,
+    description: event.description,
+    location: event.location,
+    startTime: event.startTime,
+    endTime: event.endTime,
+    isAllDay: event.isAllDay,
+    status: event.status,
+    attendees: event.attendees,
+    reminders: event.reminders,
+    recurrence: event.recurrence,
+    // Repeating timed events keep their local time across daylight saving changes
+    tzid: (event.recurrence || isOverride) && !event.isAllDay ? event.timeZone : undefined
+  });
+
+  if (isOverride) {
+    const property = iCalendarUtils.formatDateProperty(
+      'RECURRENCE-ID',
+      event.originalStartTime!,
+      event.isAllDay,
+      event.isAllDay ? undefined : event.timeZone
+    );
+    iCalendarUtils.setProperty(component, property.name, property.value, property.params);
+  }
+
+  if (event.visibility) {
+    iCalendarUtils.setProperty(component, 'CLASS', CLASS_VALUES[event.visibility]);
+  }
+  if (event.organizer?.email) {
+    iCalendarUtils.setProperty(component, 'ORGANIZER', `mailto:${event.organizer.email}`, {
+      ...(event.organizer.name && { CN: event.organizer.name })
+    });
+  }
+  if (event.metadata?.url) {
+    iCalendarUtils.setProperty(component, 'URL', event.metadata.url);
+  }
+  if (event.metadata?.tags?.length) {
+    iCalendarUtils.setProperty(
+      component,
+      'CATEGORIES',
+      event.metadata.tags.map(tag => iCalendarUtils.escapeText(tag)).join(',')
+    );
+  }
+  setTimestamps(component, event.createdAt, event.updatedAt);
+
+  return component;
+};
+
+const renderCalendarEvents = async (
+  calendar: ICalendarDocument
+): Promise<IICalendarComponent[]> => {
+  const events = await CalendarEventModel.find({
+    calendarId: calendar._id.toString(),
+    $or: [
+      { endTime: { $gte: new Date(Date.now() - FEED_PAST_DAYS * DAY_MS) } },
+      { recurrence: { $exists: true, $ne: null } }
+    ]
+  })
+    .sort({ startTime: 1 })
+    .limit(MAX_FEED_EVENTS);
+
+  // Stored instances of a recurring event are already produced by its RRULE, unless they
+  // replace one of its occurrences
+  const eventIds = new Set(events.map(event => event.id));
+  return events
+    .filter(
+      event => !event.recurrenceId || !eventIds.has(event.recurrenceId) || event.originalStartTime
+    )
+    .map(eventToComponent);
+};
+
+const toDate = (value: unknown): Date | null => {
+  if (typeof value !== 'string' && typeof value !== 'number' && !(value instanceof Date)) {
+    return null;
+  }
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const recordToComponent = (
+  record: TRecordDocument,
+  dateProperty: IProperty,
+  endProperty: IProperty | undefined,
+  titleProperty: IProperty | undefined
+): IICalendarComponent | null => {
+  const value = record.properties?.[dateProperty.name];
+  const range =
+    typeof value === 'object' && value !== null && 'start' in value
+      ? (value as { start?: unknown; end?: unknown })
+      : { start: value, end: endProperty && record.properties?.[endProperty.name] };
+
+  const start = toDate(range.start);
+  if (!start) return null;
+
+  // Dates without a time are all-day events, their DTEND is the day after the last day
+  const isAllDay = !dateProperty.config?.includeTime;
+  const end = toDate(range.end) || start;
+  const title = titleProperty && record.properties?.[titleProperty.name];
+
+  const component = iCalendarUtils.createEvent(`${record.id}@${UID_DOMAIN}`, {
+    title: typeof title === 'string' && title.trim() ? title : 'Untitled',
+    startTime: start,
+    endTime: isAllDay ? new Date(end.getTime() + DAY_MS) : end,
+    isAllDay
+  });
+  setTimestamps(component, record.createdAt, record.updatedAt);
+
+  return component;
+};
+
+const renderViewEvents = async (feed: ICalendarFeedDocument): Promise<IICalendarComponent[]> => {
+  const databaseId = feed.databaseId!;
+
+  // Also checks the owner can still read the database
+  const view = await viewsService.getViewById(databaseId, feed.viewId!, feed.ownerId);
+  const viewDocument = await ViewModel.findById(view.id).select('config');
+  const properties = await propertiesService.getProperties(databaseId, feed.ownerId, true);
+
+  const calendarConfig = viewDocument?.config?.calendar;
+  const dateProperty =
+    properties.find(property => property.id === calendarConfig?.datePropertyId) ||
+    properties.find(
+      property => property.type === EPropertyType.DATE || property.type === EPropertyType.DATE_RANGE
+    );
+  if (!dateProperty) return [];
+
+  const endProperty = properties.find(
+    property => property.id === calendarConfig?.endDatePropertyId
+  );
+  const titleProperty =
+    properties.find(property => TITLE_PROPERTIES.includes(property.name.toLowerCase())) ||
+    properties.find(property => property.type === EPropertyType.TEXT);
+
+  const filterQuery = await viewsService.buildFilterQuery(
+    view.settings.filters,
+    databaseId,
+    feed.ownerId
+  );
+  const records = await RecordModel.find({
+    $and: [
+      filterQuery,
+      {
+        databaseId,
+        isDeleted: { $ne: true },
+        [`properties.${dateProperty.name}`]: { $nin: [null, ''] }
+      }
+    ]
+  }).limit(MAX_FEED_EVENTS);
+
+  return records
+    .map(record => recordToComponent(record, dateProperty, endProperty, titleProperty))
+    .filter((component): component is IICalendarComponent => component !== null);
+};
+
+/**
+ * Create a private feed of a calendar or of a database calendar view. Creating a
+ * feed for a source that already has one returns the existing feed.
+ */
+export const createCalendarFeed = async (
+  userId: string,
+  request: ICreateCalendarFeedRequest
+): Promise<ICalendarFeed> => {
+  let source: Pick<ICalendarFeed, 'source' | 'calendarId' | 'databaseId' | 'viewId'>;
+  let name: string;
+  let workspaceId: string;
+
+  if (request.calendarId) {
+    const calendar = await CalendarModel.findOne({ _id: request.calendarId, ownerId: userId });
+    if (!calendar) {
+      throw createAppError('Calendar not found', 404);
+    }
+
+    source = { source: ECalendarFeedSource.CALENDAR, calendarId: calendar._id.toString() };
+    name = calendar.name;
+    workspaceId = calendar.workspaceId;
+  } else if (request.databaseId && request.viewId) {
+    const view = await viewsService.getViewById(request.databaseId, request.viewId, userId);
+    if (view.type !== EViewType.CALENDAR) {
+      throw createAppError('Only calendar views can be subscribed to', 400);
+    }
+
+    const database = await DatabaseModel.findById(request.databaseId);
+    if (!database) {
+      throw createAppError('Database not found', 404);
+    }
+
+    source = {
+      source: ECalendarFeedSource.VIEW,
+      databaseId: request.databaseId,
+      viewId: view.id
+    };
+    name = `${database.name} - ${view.name}`;
+    workspaceId = database.workspaceId;
+  } else {
+    throw createAppError('A calendar or a database view is required', 400);
+  }
+
+  const existingFeed = await CalendarFeedModel.findOne({
+    ...source,
+    ownerId: userId,
+    isActive: true
+  });
+  if (existingFeed) {
+    return existingFeed.toJSON() as ICalendarFeed;
+  }
+
+  const feed = await CalendarFeedModel.create({
+    ...source,
+    ownerId: userId,
+    workspaceId,
+    name: request.name || name,
+    createdBy: userId
+  });
+
+  return feed.toJSON() as ICalendarFeed;
+};
+
+/**
+ * Get the active feeds of a user
+ */
+export const getCalendarFeeds = async (
+  userId: string,
+  workspaceId?: string
+): Promise<ICalendarFeed[]> => {
+  const feeds = await CalendarFeedModel.findByOwner(userId, workspaceId);
+  return feeds.map(feed => feed.toJSON() as ICalendarFeed);
+};
+
+/**
+ * Replace the token of a feed, subscriptions to the old URL stop working
+ */
+export const regenerateCalendarFeedToken = async (
+  feedId: string,
+  userId: string
+): Promise<ICalendarFeed> => {
+  const feed = await findFeed(feedId, userId);
+
+  feed.updatedBy = userId;
+  await feed.regenerateToken();
+
+  return feed.toJSON() as ICalendarFeed;
+};
+
+/**
+ * Revoke a feed
+ */
+export const revokeCalendarFeed = async (feedId: string, userId: string): Promise<void> => {
+  const feed = await findFeed(feedId, userId);
+
+  feed.updatedBy = userId;
+  await feed.revoke();
+};
+
+/**
+ * Render the iCalendar object of a feed token
+ */
+export const renderCalendarFeed = async (
+  token: string
+): Promise<{ name: string; content: string }> => {
+  const feed = await CalendarFeedModel.findByToken(token);
+  if (!feed) {
+    throw createAppError('Calendar feed not found', 404);
+  }
+
+  const properties: IICalendarProperty[] = [
+    { name: 'METHOD', params: {}, value: 'PUBLISH' },
+    { name: 'X-WR-CALNAME', params: {}, value: iCalendarUtils.escapeText(feed.name) },
+    { name: 'REFRESH-INTERVAL', params: { VALUE: 'DURATION' }, value: REFRESH_INTERVAL },
+    { name: 'X-PUBLISHED-TTL', params: {}, value: REFRESH_INTERVAL }
+  ];
+  let components: IICalendarComponent[];
+
+  if (feed.source === ECalendarFeedSource.CALENDAR) {
+    const calendar = await CalendarModel.findOne({ _id: feed.calendarId, ownerId: feed.ownerId });
+    if (!calendar) {
+      throw createAppError('Calendar feed not found', 404);
+    }
+
+    properties.push({ name: 'X-WR-TIMEZONE', params: {}, value: calendar.timeZone });
+    if (calendar.description) {
+      properties.push({
+        name: 'X-WR-CALDESC',
+        params: {},
+        value: iCalendarUtils.escapeText(calendar.description)
+      });
+    }
+    components = await renderCalendarEvents(calendar);
+  } else {
+    components = await renderViewEvents(feed);
+  }
+
+  await CalendarFeedModel.updateOne(
+    { _id: feed._id },
+    { $set: { lastAccessedAt: new Date() }, $inc: { accessCount: 1 } }
+  );
+
+  return { name: feed.name, content: iCalendarUtils.createCalendar(components, properties) };
+};
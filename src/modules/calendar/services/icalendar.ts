@@ -0,0 +1,546 @@
+import { IEventAttendee, IEventReminder, IRecurrenceRule } from '../types/calendar.types';
+import { EEventStatus, ERecurrenceFrequency } from '../types/enums.types';
+import { IICalendarComponent, IICalendarDate, IICalendarProperty } from '../types/caldav.types';
+
+const PRODUCT_ID = '-//Second Brain//Calendar//EN';
+// Content lines longer than this many octets are folded
+const MAX_LINE_OCTETS = 75;
+
+// Event fields written to VEVENT components
+export interface IICalendarEventData {
+  title?: string;
+  description?: string;
+  location?: string;
+  startTime?: Date;
+  endTime?: Date;
+  isAllDay?: boolean;
+  status?: EEventStatus;
+  attendees?: Omit<IEventAttendee, 'responseTime'>[];
+  reminders?: IEventReminder[];
+  // Null removes the recurrence of an event
+  recurrence?: IRecurrenceRule | null;
+  // Writes times as local times of this zone, for clients that resolve zone names
+  // without a VTIMEZONE. Recurring events then keep their wall clock time across DST.
+  tzid?: string;
+}
+
+const STATUS_VALUES: Partial<Record<EEventStatus, string>> = {
+  [EEventStatus.CONFIRMED]: 'CONFIRMED',
+  [EEventStatus.TENTATIVE]: 'TENTATIVE',
+  [EEventStatus.CANCELLED]: 'CANCELLED'
+};
+
+const PARTSTAT_VALUES: Record<IEventAttendee['status'], string> = {
+  accepted: 'ACCEPTED',
+  declined: 'DECLINED',
+  tentative: 'TENTATIVE',
+  needs_action: 'NEEDS-ACTION'
+};
+
+const ROLE_VALUES: Record<IEventAttendee['role'], string> = {
+  required: 'REQ-PARTICIPANT',
+  optional: 'OPT-PARTICIPANT',
+  resource: 'NON-PARTICIPANT'
+};
+
+const pad = (value: number, length: number = 2): string => String(value).padStart(length, '0');
+
+// Splits on a separator that is not inside a quoted parameter value
+const splitUnquoted = (text: string, separators: string): string[] => {
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (const char of text) {
+    if (char === '"') quoted = !quoted;
+    if (!quoted && separators.includes(char)) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  return [...parts, current];
+};
+
+const parseLine = (line: string): IICalendarProperty | null => {
+  let quoted = false;
+  let valueStart = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    if (!quoted && line[i] === ':') {
+      valueStart = i;
+      break;
+    }
+  }
+  if (valueStart === -1) return null;
+
+  const [name, ...params] = splitUnquoted(line.slice(0, valueStart), ';');
+  return {
+    name: name.toUpperCase(),
+    params: Object.fromEntries(
+      params.map(param => {
+        const [key, ...value] = param.split('=');
+        return [key.toUpperCase(), value.join('=').replace(/^"(.*)"$/, '$1')];
+      })
+    ),
+    value: line.slice(valueStart + 1)
+  };
+};
+
+const formatParam = (value: string): string => (/[:;,]/.test(value) ? `"${value}"` : value);
+
+const foldLine = (line: string): string => {
+  const folded: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    // Continuation lines start with a space, which counts towards their length
+    if (octets + size > MAX_LINE_OCTETS) {
+      folded.push(current);
+      current = ' ';
+      octets = 1;
+    }
+    current += char;
+    octets += size;
+  }
+
+  return [...folded, current].join('\r\n');
+};
+
+// Formatters are costly to create and recurrence expansion converts many times
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  return formatter;
+};
+
+// UTC offset of a time zone at an instant, in milliseconds
+const getTimeZoneOffset = (date: Date, timeZone: string): number => {
+  const parts = getFormatter(timeZone).formatToParts(date);
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+
+  const wallTime = Date.UTC(
+    get('year'),
+    get('month') - 1,
+    get('day'),
+    get('hour'),
+    get('minute'),
+    get('second')
+  );
+  return wallTime - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+// Instant of a wall clock time in a time zone, unknown zones are taken as UTC
+const zonedTimeToUtc = (wallTime: number, timeZone?: string): Date => {
+  if (!timeZone || timeZone.toUpperCase() === 'UTC') return new Date(wallTime);
+
+  try {
+    const guess = wallTime - getTimeZoneOffset(new Date(wallTime), timeZone);
+    // Second pass settles times close to a daylight saving transition
+    return new Date(wallTime - getTimeZoneOffset(new Date(guess), timeZone));
+  } catch {
+    return new Date(wallTime);
+  }
+};
+
+const formatDateTime = (date: Date): string =>
+  `${formatDate(date)}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+const formatDate = (date: Date): string =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`;
+
+const isUTC = (timeZone?: string): boolean => !timeZone || timeZone.toUpperCase() === 'UTC';
+
+// Wall clock time of an instant in a time zone, as a local DATE-TIME value
+const formatZonedDateTime = (date: Date, timeZone: string): string =>
+  formatDateTime(new Date(date.getTime() + getTimeZoneOffset(date, timeZone))).slice(0, -1);
+
+const formatRecurrenceRule = (rule: IRecurrenceRule, dateOnly: boolean): string => {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  // UNTIL has the value type of DTSTART, date-times are given in UTC
+  if (rule.until) {
+    parts.push(`UNTIL=${dateOnly ? formatDate(rule.until) : formatDateTime(rule.until)}`);
+  } else if (rule.count) {
+    parts.push(`COUNT=${rule.count}`);
+  }
+  if (rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.join(',')}`);
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  if (rule.bySetPos?.length) parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`);
+  if (rule.weekStart) parts.push(`WKST=${rule.weekStart}`);
+
+  return parts.join(';');
+};
+
+const createAlarm = (reminder: IEventReminder, title: string): IICalendarComponent => ({
+  type: 'VALARM',
+  properties: [
+    { name: 'ACTION', params: {}, value: 'DISPLAY' },
+    { name: 'DESCRIPTION', params: {}, value: iCalendarUtils.escapeText(title) },
+    { name: 'TRIGGER', params: {}, value: `-PT${Math.max(0, Math.round(reminder.minutes))}M` }
+  ],
+  components: []
+});
+
+const createAttendee = (attendee: Omit<IEventAttendee, 'responseTime'>): IICalendarProperty => ({
+  name: 'ATTENDEE',
+  params: {
+    ...(attendee.name && { CN: attendee.name }),
+    PARTSTAT: PARTSTAT_VALUES[attendee.status] || 'NEEDS-ACTION',
+    ROLE: ROLE_VALUES[attendee.role] || 'REQ-PARTICIPANT'
+  },
+  value: `mailto:${attendee.email}`
+});
+
+/**
+ * Reading and writing of iCalendar objects (RFC 5545). Components keep every
+ * property they were parsed with, so events edited here round-trip the data other
+ * clients stored on them.
+ */
+export const iCalendarUtils = {
+  parse: (text: string): IICalendarComponent[] => {
+    const root: IICalendarComponent = { type: 'ROOT', properties: [], components: [] };
+    const stack = [root];
+
+    const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+    for (const line of lines) {
+      if (!line.trim()) continue;
+
+      const property = parseLine(line);
+      if (!property) continue;
+
+      const current = stack[stack.length - 1];
+      if (property.name === 'BEGIN') {
+        const component = { type: property.value.toUpperCase(), properties: [], components: [] };
+        current.components.push(component);
+        stack.push(component);
+      } else if (property.name === 'END') {
+        if (stack.length > 1) stack.pop();
+      } else {
+        current.properties.push(property);
+      }
+    }
+
+    return root.components;
+  },
+
+  serialize: (component: IICalendarComponent): string => {
+    const lines = [
+      `BEGIN:${component.type}`,
+      ...component.properties.map(property =>
+        foldLine(
+          [
+            property.name,
+            ...Object.entries(property.params).map(([key, value]) => `${key}=${formatParam(value)}`)
+          ].join(';') + `:${property.value}`
+        )
+      ),
+      ...component.components.map(child => iCalendarUtils.serialize(child)),
+      `END:${component.type}`
+    ];
+
+    return lines.join('\r\n');
+  },
+
+  // VCALENDAR object of the given components, as stored in a .ics file
+  createCalendar: (
+    components: IICalendarComponent[],
+    properties: IICalendarProperty[] = []
+  ): string => {
+    return (
+      iCalendarUtils.serialize({
+        type: 'VCALENDAR',
+        properties: [
+          { name: 'VERSION', params: {}, value: '2.0' },
+          { name: 'PRODID', params: {}, value: PRODUCT_ID },
+          { name: 'CALSCALE', params: {}, value: 'GREGORIAN' },
+          ...properties
+        ],
+        components
+      }) + '\r\n'
+    );
+  },
+
+  escapeText: (text: string): string =>
+    text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n'),
+
+  unescapeText: (text: string): string =>
+    text.replace(/\\([\\;,nN])/g, (_, char: string) => (char.toLowerCase() === 'n' ? '\n' : char)),
+
+  getProperty: (component: IICalendarComponent, name: string): IICalendarProperty | undefined =>
+    component.properties.find(property => property.name === name),
+
+  getText: (component: IICalendarComponent, name: string): string | undefined => {
+    const property = iCalendarUtils.getProperty(component, name);
+    return property && iCalendarUtils.unescapeText(property.value);
+  },
+
+  setProperty: (
+    component: IICalendarComponent,
+    name: string,
+    value: string | undefined,
+    params: Record<string, string> = {}
+  ): void => {
+    const index = component.properties.findIndex(property => property.name === name);
+    component.properties = component.properties.filter(
+      (property, i) => property.name !== name || i === index
+    );
+
+    if (value === undefined) {
+      if (index !== -1) component.properties.splice(index, 1);
+    } else if (index === -1) {
+      component.properties.push({ name, params, value });
+    } else {
+      component.properties[index] = { name, params, value };
+    }
+  },
+
+  /**
+   * Parse a DATE or DATE-TIME value. Times with a TZID are converted from that
+   * zone, floating times are taken in the given default zone.
+   */
+  parseDate: (property: IICalendarProperty, defaultTimeZone?: string): IICalendarDate | null => {
+    const value = property.value.trim();
+
+    const date = /^(\d{4})(\d{2})(\d{2})$/.exec(value);
+    if (date) {
+      const [, year, month, day] = date.map(Number);
+      return { date: new Date(Date.UTC(year, month - 1, day)), dateOnly: true };
+    }
+
+    const dateTime = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z)?$/.exec(value);
+    if (!dateTime) return null;
+
+    const [year, month, day, hours, minutes, seconds] = dateTime.slice(1, 7).map(Number);
+    const wallTime = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+    const timeZone = dateTime[7] ? 'UTC' : property.params.TZID || defaultTimeZone;
+
+    return { date: zonedTimeToUtc(wallTime, timeZone), dateOnly: false, timeZone };
+  },
+
+  formatDateProperty: (
+    name: string,
+    date: Date,
+    dateOnly: boolean,
+    timeZone?: string
+  ): IICalendarProperty => {
+    if (dateOnly) return { name, params: { VALUE: 'DATE' }, value: formatDate(date) };
+    if (isUTC(timeZone)) return { name, params: {}, value: formatDateTime(date) };
+
+    try {
+      return { name, params: { TZID: timeZone! }, value: formatZonedDateTime(date, timeZone!) };
+    } catch {
+      return { name, params: {}, value: formatDateTime(date) };
+    }
+  },
+
+  formatDateTime,
+
+  /**
+   * Wall clock time of an instant in a time zone, as milliseconds whose UTC fields
+   * hold the local date and time. Unknown zones are taken as UTC.
+   */
+  toWallTime: (date: Date, timeZone?: string): number => {
+    if (isUTC(timeZone)) return date.getTime();
+
+    try {
+      return date.getTime() + getTimeZoneOffset(date, timeZone!);
+    } catch {
+      return date.getTime();
+    }
+  },
+
+  // Instant of a wall clock time in a time zone, the inverse of toWallTime
+  fromWallTime: (wallTime: number, timeZone?: string): Date => zonedTimeToUtc(wallTime, timeZone),
+
+  // RRULE value such as FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20261231T000000Z
+  parseRecurrenceRule: (value: string): IRecurrenceRule | null => {
+    const parts: Record<string, string> = Object.fromEntries(
+      value.split(';').map(part => {
+        const [key, ...rest] = part.split('=');
+        return [key.trim().toUpperCase(), rest.join('=').trim().toUpperCase()];
+      })
+    );
+
+    const frequency = Object.values(ERecurrenceFrequency).find(
+      value => value.toUpperCase() === parts.FREQ
+    );
+    if (!frequency) return null;
+
+    const list = (name: string) => parts[name]?.split(',').filter(Boolean);
+    const numbers = (name: string) =>
+      list(name)
+        ?.map(Number)
+        .filter(number => Number.isInteger(number));
+    const until =
+      parts.UNTIL && iCalendarUtils.parseDate({ name: 'UNTIL', params: {}, value: parts.UNTIL });
+
+    return {
+      frequency,
+      interval: Math.max(1, Number(parts.INTERVAL) || 1),
+      ...(Number(parts.COUNT) > 0 && { count: Number(parts.COUNT) }),
+      ...(until && { until: until.date }),
+      ...(list('BYDAY') && { byDay: list('BYDAY') }),
+      ...(numbers('BYMONTHDAY') && { byMonthDay: numbers('BYMONTHDAY') }),
+      ...(numbers('BYMONTH') && { byMonth: numbers('BYMONTH') }),
+      ...(numbers('BYSETPOS') && { bySetPos: numbers('BYSETPOS') }),
+      ...(parts.WKST && { weekStart: parts.WKST })
+    };
+  },
+
+  // Length of an RFC 5545 duration such as PT1H30M or P1D, in milliseconds
+  parseDuration: (value: string): number | null => {
+    const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(
+      value.trim()
+    );
+    if (!match) return null;
+
+    const [weeks, days, hours, minutes, seconds] = match.slice(2).map(part => Number(part || 0));
+    const length = (((weeks * 7 + days) * 24 + hours) * 60 + minutes) * 60 + seconds;
+    return (match[1] === '-' ? -length : length) * 1000;
+  },
+
+  // Start and end of an event, events without DTEND last their DURATION or a day
+  getEventTimes: (
+    event: IICalendarComponent,
+    defaultTimeZone?: string
+  ): { start: IICalendarDate; end: IICalendarDate } | null => {
+    const startProperty = iCalendarUtils.getProperty(event, 'DTSTART');
+    const start = startProperty && iCalendarUtils.parseDate(startProperty, defaultTimeZone);
+    if (!start) return null;
+
+    const endProperty = iCalendarUtils.getProperty(event, 'DTEND');
+    const end = endProperty && iCalendarUtils.parseDate(endProperty, defaultTimeZone);
+    if (end) return { start, end };
+
+    const duration = iCalendarUtils.parseDuration(
+      iCalendarUtils.getProperty(event, 'DURATION')?.value || ''
+    );
+    const length = duration ?? (start.dateOnly ? 24 * 60 * 60 * 1000 : 0);
+    return { start, end: { ...start, date: new Date(start.date.getTime() + length) } };
+  },
+
+  // New VEVENT component of an event
+  createEvent: (uid: string, event: IICalendarEventData): IICalendarComponent => {
+    const now = formatDateTime(new Date());
+    const component: IICalendarComponent = {
+      type: 'VEVENT',
+      properties: [
+        { name: 'UID', params: {}, value: uid },
+        { name: 'DTSTAMP', params: {}, value: now },
+        { name: 'CREATED', params: {}, value: now }
+      ],
+      components: []
+    };
+
+    iCalendarUtils.applyEventChanges(component, event);
+    return component;
+  },
+
+  /**
+   * Write event fields onto a VEVENT, fields left undefined are not changed
+   */
+  applyEventChanges: (component: IICalendarComponent, changes: IICalendarEventData): void => {
+    const setText = (name: string, value: string | undefined) => {
+      if (value !== undefined) {
+        iCalendarUtils.setProperty(
+          component,
+          name,
+          value === '' ? undefined : iCalendarUtils.escapeText(value)
+        );
+      }
+    };
+
+    setText('SUMMARY', changes.title);
+    setText('DESCRIPTION', changes.description);
+    setText('LOCATION', changes.location);
+
+    if (changes.startTime || changes.endTime || changes.isAllDay !== undefined) {
+      const current = iCalendarUtils.getEventTimes(component);
+      const isAllDay = changes.isAllDay ?? current?.start.dateOnly ?? false;
+      const start = changes.startTime || current?.start.date;
+      const end = changes.endTime || current?.end.date;
+      const timeZone = changes.tzid ?? current?.start.timeZone;
+
+      if (start) {
+        const property = iCalendarUtils.formatDateProperty('DTSTART', start, isAllDay, timeZone);
+        iCalendarUtils.setProperty(component, 'DTSTART', property.value, property.params);
+      }
+      if (end) {
+        const property = iCalendarUtils.formatDateProperty('DTEND', end, isAllDay, timeZone);
+        iCalendarUtils.setProperty(component, 'DTEND', property.value, property.params);
+        iCalendarUtils.setProperty(component, 'DURATION', undefined);
+      }
+    }
+
+    if (changes.status !== undefined) {
+      iCalendarUtils.setProperty(component, 'STATUS', STATUS_VALUES[changes.status]);
+    }
+
+    if (changes.recurrence) {
+      const dateOnly = iCalendarUtils.getEventTimes(component)?.start.dateOnly ?? false;
+      const timeZone = iCalendarUtils.getProperty(component, 'DTSTART')?.params.TZID;
+      iCalendarUtils.setProperty(
+        component,
+        'RRULE',
+        formatRecurrenceRule(changes.recurrence, dateOnly)
+      );
+      component.properties = [
+        ...component.properties.filter(property => property.name !== 'EXDATE'),
+        ...(changes.recurrence.exceptions || []).map(exception =>
+          iCalendarUtils.formatDateProperty('EXDATE', new Date(exception), dateOnly, timeZone)
+        )
+      ];
+    }
+    if (changes.recurrence === null) {
+      component.properties = component.properties.filter(
+        property => property.name !== 'RRULE' && property.name !== 'EXDATE'
+      );
+    }
+
+    if (changes.attendees) {
+      component.properties = [
+        ...component.properties.filter(property => property.name !== 'ATTENDEE'),
+        ...changes.attendees.map(createAttendee)
+      ];
+    }
+
+    if (changes.reminders) {
+      const title = changes.title ?? iCalendarUtils.getText(component, 'SUMMARY') ?? 'Reminder';
+      component.components = [
+        ...component.components.filter(child => child.type !== 'VALARM'),
+        ...changes.reminders.map(reminder => createAlarm(reminder, title))
+      ];
+    }
+
+    // Attendees' clients only apply updates with a higher sequence number
+    const sequence = iCalendarUtils.getProperty(component, 'SEQUENCE');
+    iCalendarUtils.setProperty(
+      component,
+      'SEQUENCE',
+      sequence ? String(Number(sequence.value) + 1) : '0'
+    );
+    iCalendarUtils.setProperty(component, 'DTSTAMP', formatDateTime(new Date()));
+    iCalendarUtils.setProperty(component, 'LAST-MODIFIED', formatDateTime(new Date()));
+  }
+};
@@ -0,0 +1,341 @@
+import { IRecurrenceRule } from '../types/calendar.types';
+import { ERecurrenceFrequency } from '../types/enums.types';
+import { iCalendarUtils } from './icalendar';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+// Guards against rules whose periods never produce an occurrence, e.g. February 30th
+const MAX_PERIODS = 100000;
+const MAX_OCCURRENCES = 1000;
+// Occurrence ids are the master event id and the UTC start of the occurrence
+const OCCURRENCE_ID_PATTERN = /^(.+)_(\d{8}T\d{6}Z)$/;
+
+// Fields of an event needed to expand its recurrence
+export type TRecurringEvent = {
+  startTime: Date;
+  endTime: Date;
+  isAllDay: boolean;
+  timeZone?: string;
+  recurrence?: IRecurrenceRule;
+};
+
+interface IWeekdayRule {
+  weekday: number;
+  // Nth weekday of the month or year, negative counts from the end, 0 is every
+  ordinal: number;
+}
+
+// Wall clock times are milliseconds whose UTC fields hold the local date and time
+const startOfDay = (wallTime: number): number => Math.floor(wallTime / DAY_MS) * DAY_MS;
+
+const getWeekday = (wallTime: number): number => new Date(wallTime).getUTCDay();
+
+const getMonthDays = (year: number, month: number): number[] => {
+  const first = Date.UTC(year, month, 1);
+  const length = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return Array.from({ length }, (_, day) => first + day * DAY_MS);
+};
+
+const parseByDay = (values: string[] = []): IWeekdayRule[] =>
+  values
+    .map(value => /^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/.exec(value.trim().toUpperCase()))
+    .filter((match): match is RegExpExecArray => match !== null)
+    .map(match => ({ weekday: WEEKDAYS.indexOf(match[2]), ordinal: Number(match[1] || 0) }));
+
+// Whether a day is one of the weekdays, ordinals count within the days of the scope
+const matchesWeekday = (day: number, byDay: IWeekdayRule[], scope: number[]): boolean => {
+  const weekday = getWeekday(day);
+  const index = (day - scope[0]) / DAY_MS;
+
+  return byDay.some(rule => {
+    if (rule.weekday !== weekday) return false;
+    if (rule.ordinal > 0) return Math.floor(index / 7) + 1 === rule.ordinal;
+    if (rule.ordinal < 0) return -(Math.floor((scope.length - 1 - index) / 7) + 1) === rule.ordinal;
+    return true;
+  });
+};
+
+const matchesMonthDay = (day: number, byMonthDay: number[]): boolean => {
+  const date = new Date(day);
+  const dayOfMonth = date.getUTCDate();
+  const length = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+  return byMonthDay.some(value => value === dayOfMonth || value === dayOfMonth - length - 1);
+};
+
+const matchesMonth = (day: number, rule: IRecurrenceRule): boolean =>
+  !rule.byMonth?.length || rule.byMonth.includes(new Date(day).getUTCMonth() + 1);
+
+// BYxxx parts that limit the days of DAILY, WEEKLY and HOURLY rules
+const matchesLimits = (day: number, rule: IRecurrenceRule, byDay: IWeekdayRule[]): boolean =>
+  matchesMonth(day, rule) &&
+  (!rule.byMonthDay?.length || matchesMonthDay(day, rule.byMonthDay)) &&
+  (!byDay.length || byDay.some(weekday => weekday.weekday === getWeekday(day)));
+
+const getMonthCandidates = (
+  year: number,
+  month: number,
+  rule: IRecurrenceRule,
+  byDay: IWeekdayRule[],
+  startWall: number
+): number[] => {
+  const days = getMonthDays(year, month);
+  if (!rule.byMonthDay?.length && !byDay.length) {
+    // Months without the start day of the month have no occurrence
+    return days.filter(day => new Date(day).getUTCDate() === new Date(startWall).getUTCDate());
+  }
+
+  return days.filter(
+    day =>
+      (!rule.byMonthDay?.length || matchesMonthDay(day, rule.byMonthDay)) &&
+      (!byDay.length || matchesWeekday(day, byDay, days))
+  );
+};
+
+const getYearCandidates = (
+  year: number,
+  rule: IRecurrenceRule,
+  byDay: IWeekdayRule[],
+  startWall: number
+): number[] => {
+  const months = rule.byMonth?.length
+    ? [...rule.byMonth].sort((a, b) => a - b).map(month => month - 1)
+    : rule.byMonthDay?.length
+      ? Array.from({ length: 12 }, (_, month) => month)
+      : null;
+  if (months) {
+    return months.flatMap(month => getMonthCandidates(year, month, rule, byDay, startWall));
+  }
+
+  if (byDay.length) {
+    const days = Array.from(
+      { length: (Date.UTC(year + 1, 0, 1) - Date.UTC(year, 0, 1)) / DAY_MS },
+      (_, day) => Date.UTC(year, 0, 1) + day * DAY_MS
+    );
+    return days.filter(day => matchesWeekday(day, byDay, days));
+  }
+
+  return getMonthCandidates(year, new Date(startWall).getUTCMonth(), rule, byDay, startWall);
+};
+
+const getWeekStart = (day: number, weekStart: string = 'MO'): number => {
+  const firstWeekday = Math.max(0, WEEKDAYS.indexOf(weekStart.toUpperCase()));
+  return day - ((getWeekday(day) - firstWeekday + 7) % 7) * DAY_MS;
+};
+
+// Start of the nth period of a rule, counted in units of its frequency
+const getPeriodStart = (rule: IRecurrenceRule, startWall: number, units: number): number => {
+  const start = new Date(startWall);
+  switch (rule.frequency) {
+    case ERecurrenceFrequency.HOURLY:
+      return startWall + units * HOUR_MS;
+    case ERecurrenceFrequency.DAILY:
+      return startOfDay(startWall) + units * DAY_MS;
+    case ERecurrenceFrequency.WEEKLY:
+      return getWeekStart(startOfDay(startWall), rule.weekStart) + units * 7 * DAY_MS;
+    case ERecurrenceFrequency.MONTHLY:
+      return Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + units, 1);
+    case ERecurrenceFrequency.YEARLY:
+      return Date.UTC(start.getUTCFullYear() + units, 0, 1);
+  }
+};
+
+// Index of the last period starting before a wall time, periods before it can be skipped
+const getPeriodIndex = (rule: IRecurrenceRule, startWall: number, wallTime: number): number => {
+  const interval = Math.max(1, rule.interval || 1);
+  const start = new Date(startWall);
+  const time = new Date(wallTime);
+
+  let units: number;
+  switch (rule.frequency) {
+    case ERecurrenceFrequency.HOURLY:
+      units = (wallTime - startWall) / HOUR_MS;
+      break;
+    case ERecurrenceFrequency.DAILY:
+      units = (wallTime - startOfDay(startWall)) / DAY_MS;
+      break;
+    case ERecurrenceFrequency.WEEKLY:
+      units = (wallTime - getPeriodStart(rule, startWall, 0)) / (7 * DAY_MS);
+      break;
+    case ERecurrenceFrequency.MONTHLY:
+      units =
+        (time.getUTCFullYear() - start.getUTCFullYear()) * 12 +
+        time.getUTCMonth() -
+        start.getUTCMonth();
+      break;
+    case ERecurrenceFrequency.YEARLY:
+      units = time.getUTCFullYear() - start.getUTCFullYear();
+      break;
+  }
+
+  return Math.max(0, Math.floor(units / interval) - 1);
+};
+
+// Occurrence wall times within one period, in order
+const getPeriodCandidates = (
+  rule: IRecurrenceRule,
+  byDay: IWeekdayRule[],
+  startWall: number,
+  periodStart: number
+): number[] => {
+  const timeOfDay = startWall - startOfDay(startWall);
+  const period = new Date(periodStart);
+  let days: number[];
+
+  switch (rule.frequency) {
+    case ERecurrenceFrequency.HOURLY:
+      return matchesLimits(startOfDay(periodStart), rule, byDay) ? [periodStart] : [];
+    case ERecurrenceFrequency.DAILY:
+      days = matchesLimits(periodStart, rule, byDay) ? [periodStart] : [];
+      break;
+    case ERecurrenceFrequency.WEEKLY:
+      days = Array.from({ length: 7 }, (_, day) => periodStart + day * DAY_MS).filter(
+        day =>
+          matchesMonth(day, rule) &&
+          (byDay.length
+            ? byDay.some(weekday => weekday.weekday === getWeekday(day))
+            : getWeekday(day) === getWeekday(startWall))
+      );
+      break;
+    case ERecurrenceFrequency.MONTHLY:
+      days = matchesMonth(periodStart, rule)
+        ? getMonthCandidates(period.getUTCFullYear(), period.getUTCMonth(), rule, byDay, startWall)
+        : [];
+      break;
+    case ERecurrenceFrequency.YEARLY:
+      days = getYearCandidates(period.getUTCFullYear(), rule, byDay, startWall);
+      break;
+  }
+
+  const candidates = days.map(day => day + timeOfDay);
+  if (!rule.bySetPos?.length) return candidates;
+
+  return rule.bySetPos
+    .map(position => candidates[position > 0 ? position - 1 : candidates.length + position])
+    .filter((candidate): candidate is number => candidate !== undefined)
+    .sort((a, b) => a - b);
+};
+
+/**
+ * Visit the starts of the occurrences of an event in order, until the visitor
+ * returns false or the occurrences pass the given wall time. Exceptions are
+ * included, they count towards COUNT.
+ */
+const iterate = (
+  event: TRecurringEvent,
+  visit: (start: Date) => boolean,
+  range: { fromWall?: number; toWall: number }
+): void => {
+  const rule = event.recurrence;
+  // All-day events are kept at UTC midnight and repeat on dates, not in a zone
+  const timeZone = event.isAllDay ? undefined : event.timeZone;
+  const startWall = iCalendarUtils.toWallTime(event.startTime, timeZone);
+  let emitted = 0;
+
+  const emit = (wallTime: number): boolean => {
+    const start = iCalendarUtils.fromWallTime(wallTime, timeZone);
+    if (rule?.until && start > rule.until) return false;
+
+    emitted++;
+    return visit(start) && !(rule?.count && emitted >= rule.count) && emitted < MAX_OCCURRENCES;
+  };
+
+  // The start of the event is always its first occurrence
+  if (!emit(startWall) || !rule) return;
+
+  const interval = Math.max(1, rule.interval || 1);
+  const byDay = parseByDay(rule.byDay);
+  // Occurrences have to be counted from the start when the rule has a COUNT
+  const firstPeriod =
+    range.fromWall !== undefined && !rule.count
+      ? getPeriodIndex(rule, startWall, range.fromWall)
+      : 0;
+
+  for (let period = firstPeriod; period < firstPeriod + MAX_PERIODS; period++) {
+    const periodStart = getPeriodStart(rule, startWall, period * interval);
+    if (periodStart > range.toWall) return;
+
+    for (const candidate of getPeriodCandidates(rule, byDay, startWall, periodStart)) {
+      if (candidate <= startWall) continue;
+      if (!emit(candidate)) return;
+    }
+  }
+};
+
+const isException = (event: TRecurringEvent, start: Date): boolean =>
+  (event.recurrence?.exceptions || []).some(exception => {
+    const time = new Date(exception);
+    return event.isAllDay
+      ? startOfDay(time.getTime()) === startOfDay(start.getTime())
+      : time.getTime() === start.getTime();
+  });
+
+/**
+ * Expansion of recurring events (RFC 5545 RRULE with EXDATE exceptions) into
+ * the starts of their occurrences
+ */
+export const recurrenceUtils = {
+  /**
+   * Starts of the occurrences overlapping a window, without exceptions
+   */
+  getOccurrences: (event: TRecurringEvent, rangeStart: Date, rangeEnd: Date): Date[] => {
+    const duration = event.endTime.getTime() - event.startTime.getTime();
+    const occurrences: Date[] = [];
+    // Zone offsets are below a day, the margins keep the wall time bounds inclusive
+    const timeZone = event.isAllDay ? undefined : event.timeZone;
+    const fromWall = iCalendarUtils.toWallTime(rangeStart, timeZone) - duration - DAY_MS;
+    const toWall = iCalendarUtils.toWallTime(rangeEnd, timeZone) + DAY_MS;
+
+    iterate(
+      event,
+      start => {
+        if (start > rangeEnd) return false;
+        if (start.getTime() + duration >= rangeStart.getTime() && !isException(event, start)) {
+          occurrences.push(start);
+        }
+        return true;
+      },
+      { fromWall, toWall }
+    );
+
+    return occurrences;
+  },
+
+  /**
+   * Whether an event has an occurrence starting at the given time
+   */
+  isOccurrence: (event: TRecurringEvent, start: Date): boolean =>
+    recurrenceUtils
+      .getOccurrences(event, start, start)
+      .some(occurrence => occurrence.getTime() === start.getTime()),
+
+  /**
+   * Number of occurrences starting before a time, exceptions included
+   */
+  countOccurrencesBefore: (event: TRecurringEvent, date: Date): number => {
+    let count = 0;
+    const timeZone = event.isAllDay ? undefined : event.timeZone;
+
+    iterate(
+      event,
+      start => {
+        if (start >= date) return false;
+        count++;
+        return true;
+      },
+      { toWall: iCalendarUtils.toWallTime(date, timeZone) + DAY_MS }
+    );
+
+    return count;
+  },
+
+  getOccurrenceId: (eventId: string, start: Date): string =>
+    `${eventId}_${iCalendarUtils.formatDateTime(start)}`,
+
+  parseOccurrenceId: (id: string): { eventId: string; start: Date } | null => {
+    const match = OCCURRENCE_ID_PATTERN.exec(id);
+    const start =
+      match && iCalendarUtils.parseDate({ name: 'RECURRENCE-ID', params: {}, value: match[2] });
+    return match && start ? { eventId: match[1], start: start.date } : null;
+  }
+};
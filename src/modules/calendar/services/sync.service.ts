@@ -1,6 +1,7 @@
 import cron from 'node-cron';
-import { ICalendarEvent } from '../types/calendar.types';
+import { ICalendarEvent, IRecurrenceRule } from '../types/calendar.types';
 import { ICalendarConnection } from '../types/connection.types';
+import { ICalDAVChanges } from '../types/caldav.types';
 import {
   ECalendarProvider,
   EEventType,
@@ -12,9 +13,13 @@ import {
   CalendarSyncLogModel,
   ICalendarConnectionDocument
 } from '../models/connection.model';
-import { CalendarModel } from '../models/calendar.model';
-import { CalendarEventModel } from '../models/event.model';
-import { externalCalendarProviderFactory } from './external-calendar.service';
+import { CalendarModel, ICalendarDocument } from '../models/calendar.model';
+import { CalendarEventModel, ICalendarEventDocument } from '../models/event.model';
+import {
+  externalCalendarProviderFactory,
+  IExternalCalendarProvider
+} from './external-calendar.service';
+import { iCalendarUtils } from './icalendar';
 import { createNotification } from '@/modules/system/services/notifications.service';
 import {
   ENotificationType,
@@ -30,6 +35,7 @@ export const initializeCalendarSync = (): void => {
   cron.schedule('*/15 * * * *', async () => await syncAllConnections());
   cron.schedule('0 * * * *', async () => await refreshExpiredTokens());
   cron.schedule('*/30 * * * *', async () => await syncTimeRelatedModulesForAllUsers());
+  cron.schedule('30 * * * *', async () => await scheduleUpcomingOccurrenceReminders());
 };
 
 /**
@@ -117,7 +123,7 @@ const syncCalendarMetadata = async (
       provider: connection.provider,
       type: 'personal',
       externalId: externalCalendar.id,
-      externalData: externalCalendar,
+      externalData: { ...externalCalendar, connectionId: connection.id },
       ownerId: connection.userId,
       createdBy: connection.userId,
       timeZone: externalCalendar.timeZone || 'UTC',
@@ -130,7 +136,7 @@ const syncCalendarMetadata = async (
       externalCalendar.summary || externalCalendar.name || internalCalendar.name;
     internalCalendar.description = externalCalendar.description;
     internalCalendar.color = externalCalendar.backgroundColor || internalCalendar.color;
-    internalCalendar.externalData = externalCalendar;
+    internalCalendar.externalData = { ...externalCalendar, connectionId: connection.id };
     internalCalendar.timeZone = externalCalendar.timeZone || internalCalendar.timeZone;
 
     await internalCalendar.save();
@@ -142,7 +148,7 @@ const syncCalendarMetadata = async (
  */
 const syncCalendarEvents = async (
   connection: ICalendarConnection,
-  provider: any,
+  provider: IExternalCalendarProvider,
   externalCalendar: any
 ): Promise<{ processed: number; created: number; updated: number; deleted: number }> => {
   try {
@@ -163,17 +169,23 @@ const syncCalendarEvents = async (
       now.getTime() + connection.syncSettings.syncFutureDays * 24 * 60 * 60 * 1000
     );
 
-    const externalEvents = await provider.getEvents(
-      connection,
-      externalCalendar.id,
-      startDate,
-      endDate
-    );
+    // Providers with sync tokens only return what changed since the last sync
+    let changes: ICalDAVChanges | null = null;
+    if (provider.getChanges && internalCalendar.syncToken) {
+      changes =
+        externalCalendar.syncToken === internalCalendar.syncToken
+          ? { events: [], deleted: [], syncToken: internalCalendar.syncToken }
+          : await provider.getChanges(connection, externalCalendar.id, internalCalendar.syncToken);
+    }
+
+    const externalEvents =
+      changes?.events ??
+      (await provider.getEvents(connection, externalCalendar.id, startDate, endDate));
 
     let processed = 0;
     let created = 0;
     let updated = 0;
-    const deleted = 0;
+    let deleted = 0;
 
     for (const externalEvent of externalEvents) {
       const result = await syncEvent(connection, internalCalendar, externalEvent);
@@ -183,7 +195,30 @@ const syncCalendarEvents = async (
       else if (result === 'updated') updated++;
     }
 
-    // TODO: Handle deleted events (would need to track which events were not seen in this sync)
+    if (changes?.deleted.length) {
+      const result = await CalendarEventModel.deleteMany({
+        calendarId: internalCalendar._id.toString(),
+        externalId: { $in: changes.deleted }
+      });
+      deleted = result.deletedCount;
+    }
+
+    // A full sync lists every event of the window, synced events of the window it did not
+    // return were deleted at the provider. Events outside the window were not fetched.
+    if (!changes) {
+      const result = await CalendarEventModel.deleteMany({
+        calendarId: internalCalendar._id.toString(),
+        externalId: { $nin: [...externalEvents.map(event => event.id), null] },
+        startTime: { $gte: startDate, $lte: endDate }
+      });
+      deleted = result.deletedCount;
+    }
+
+    // A full sync continues from the token read before its events were fetched
+    const syncToken = changes?.syncToken || externalCalendar.syncToken;
+    if (syncToken) {
+      await internalCalendar.updateSyncStatus(syncToken);
+    }
 
     return { processed, created, updated, deleted };
   } catch (error) {
@@ -219,6 +254,11 @@ const syncEvent = async (
     await internalEvent.save();
     return 'created';
   } else {
+    // Unchanged since the last sync
+    if (externalEvent.etag && internalEvent.externalData?.etag === externalEvent.etag) {
+      return 'skipped';
+    }
+
     const lastModified = getEventLastModified(connection.provider, externalEvent);
     const internalLastModified = internalEvent.updatedAt;
 
@@ -299,11 +339,79 @@ const convertExternalEventToInternal = (
         }))
       };
 
+    case ECalendarProvider.CALDAV:
+    case ECalendarProvider.APPLE:
+      return {
+        ...baseEvent,
+        title: externalEvent.summary || 'Untitled Event',
+        description: externalEvent.description,
+        location: externalEvent.location,
+        startTime: new Date(externalEvent.start),
+        endTime: new Date(externalEvent.end),
+        isAllDay: externalEvent.isAllDay,
+        timeZone: externalEvent.timeZone || 'UTC',
+        status: mapICalendarStatus(externalEvent.status),
+        recurrence: mapICalendarRecurrence(externalEvent.rrule, externalEvent.exdates),
+        organizer: externalEvent.organizer,
+        attendees: externalEvent.attendees?.map((attendee: any) => ({
+          email: attendee.email,
+          name: attendee.name,
+          status: mapICalendarAttendeeStatus(attendee.partstat),
+          role:
+            attendee.role === 'OPT-PARTICIPANT'
+              ? 'optional'
+              : attendee.role === 'NON-PARTICIPANT'
+                ? 'resource'
+                : 'required'
+        }))
+      };
+
     default:
       return baseEvent;
   }
 };
 
+/**
+ * Map iCalendar RRULE and EXDATE
+ */
+const mapICalendarRecurrence = (
+  rrule?: string,
+  exdates: Date[] = []
+): IRecurrenceRule | undefined => {
+  const recurrence = rrule ? iCalendarUtils.parseRecurrenceRule(rrule) : null;
+  return recurrence ? { ...recurrence, exceptions: exdates } : undefined;
+};
+
+/**
+ * Map iCalendar STATUS
+ */
+const mapICalendarStatus = (status?: string): EEventStatus => {
+  switch (status) {
+    case 'TENTATIVE':
+      return EEventStatus.TENTATIVE;
+    case 'CANCELLED':
+      return EEventStatus.CANCELLED;
+    default:
+      return EEventStatus.CONFIRMED;
+  }
+};
+
+/**
+ * Map iCalendar attendee PARTSTAT
+ */
+const mapICalendarAttendeeStatus = (partstat?: string): string => {
+  switch (partstat) {
+    case 'ACCEPTED':
+      return 'accepted';
+    case 'DECLINED':
+      return 'declined';
+    case 'TENTATIVE':
+      return 'tentative';
+    default:
+      return 'needs_action';
+  }
+};
+
 /**
  * Parse Google Calendar date/time
  */
@@ -392,11 +500,104 @@ const getEventLastModified = (provider: ECalendarProvider, externalEvent: any):
       return externalEvent.lastModifiedDateTime
         ? new Date(externalEvent.lastModifiedDateTime)
         : null;
+    case ECalendarProvider.CALDAV:
+    case ECalendarProvider.APPLE:
+      return externalEvent.lastModified ? new Date(externalEvent.lastModified) : null;
     default:
       return null;
   }
 };
 
+/**
+ * Push a local event change to the external calendar it belongs to. Failures are
+ * recorded on the connection and picked up again by the next sync.
+ */
+export const pushEventChange = async (
+  calendar: ICalendarDocument,
+  event: ICalendarEventDocument,
+  change: 'create' | 'update' | 'delete'
+): Promise<void> => {
+  // Changed occurrences of recurring events stay local, the series syncs through its master
+  if (
+    calendar.provider === ECalendarProvider.INTERNAL ||
+    !calendar.externalId ||
+    event.originalStartTime
+  ) {
+    return;
+  }
+
+  const connectionId = calendar.externalData?.connectionId;
+  if (!connectionId) return;
+
+  const connection = await CalendarConnectionModel.findOne({
+    _id: connectionId,
+    userId: calendar.ownerId
+  }).select('+accessToken +refreshToken');
+
+  if (
+    !connection ||
+    !(connection.syncSettings.exportEvents || connection.syncSettings.bidirectionalSync)
+  ) {
+    return;
+  }
+
+  const provider = externalCalendarProviderFactory.getProvider(connection.provider);
+  const eventData = {
+    calendarId: calendar.externalId,
+    title: event.title,
+    description: event.description,
+    location: event.location,
+    startTime: event.startTime,
+    endTime: event.endTime,
+    isAllDay: event.isAllDay,
+    timeZone: event.timeZone,
+    status: event.status,
+    recurrence: event.recurrence,
+    attendees: event.attendees,
+    reminders: event.reminders
+  };
+  const etag = event.externalData?.etag as string | undefined;
+
+  try {
+    if (change === 'create' || (change === 'update' && !event.externalId)) {
+      const externalEvent = await provider.createEvent(connection, calendar.externalId, eventData);
+      await CalendarEventModel.updateOne(
+        { _id: event._id },
+        { externalId: externalEvent.id, externalData: externalEvent }
+      );
+    } else if (change === 'update' && event.externalId) {
+      let externalEvent;
+      try {
+        externalEvent = await provider.updateEvent(
+          connection,
+          calendar.externalId,
+          event.externalId,
+          eventData,
+          etag
+        );
+      } catch (error) {
+        // The event changed remotely since the last sync, local changes win when configured
+        const conflict = (error as { statusCode?: number }).statusCode === 409;
+        if (!conflict || connection.syncSettings.conflictResolution !== 'local') {
+          throw error;
+        }
+        externalEvent = await provider.updateEvent(
+          connection,
+          calendar.externalId,
+          event.externalId,
+          eventData
+        );
+      }
+      await CalendarEventModel.updateOne({ _id: event._id }, { externalData: externalEvent });
+    } else if (change === 'delete' && event.externalId) {
+      await provider.deleteEvent(connection, calendar.externalId, event.externalId, etag);
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    await connection.recordSyncError(`Failed to ${change} event: ${errorMessage}`);
+  }
+};
+
 /**
  * Refresh expired tokens
  */
@@ -428,6 +629,14 @@ const syncTimeRelatedModulesForAllUsers = async (): Promise<void> => {
   }
 };
 
+/**
+ * Schedule reminders of upcoming occurrences of recurring events
+ */
+const scheduleUpcomingOccurrenceReminders = async (): Promise<void> => {
+  const { scheduleRecurringEventReminders } = await import('./calendar.service');
+  await scheduleRecurringEventReminders();
+};
+
 /**
  * Manual sync for a specific connection
  */
@@ -0,0 +1,67 @@
+// Content line of an iCalendar object (RFC 5545), values are kept escaped
+export interface IICalendarProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// iCalendar component, e.g. VCALENDAR, VEVENT, VTIMEZONE or VALARM
+export interface IICalendarComponent {
+  type: string;
+  properties: IICalendarProperty[];
+  components: IICalendarComponent[];
+}
+
+// Date or date-time value, dates without a time are all-day values
+export interface IICalendarDate {
+  date: Date;
+  dateOnly: boolean;
+  timeZone?: string;
+}
+
+// Basic auth credentials of a CalDAV account
+export interface ICalDAVCredentials {
+  serverUrl: string;
+  username: string;
+  password: string;
+}
+
+// Calendar collection found by discovery, ids are absolute collection URLs
+export interface ICalDAVCalendar {
+  id: string;
+  name: string;
+  description?: string;
+  backgroundColor?: string;
+  timeZone?: string;
+  ctag?: string;
+  syncToken?: string;
+  components: string[];
+}
+
+// Calendar object resource, ids are absolute resource URLs used for PUT and DELETE
+export interface ICalDAVEvent {
+  id: string;
+  uid: string;
+  etag?: string;
+  summary?: string;
+  description?: string;
+  location?: string;
+  start: Date;
+  end: Date;
+  isAllDay: boolean;
+  timeZone?: string;
+  status?: string;
+  organizer?: { email: string; name?: string };
+  attendees: Array<{ email: string; name?: string; partstat?: string; role?: string }>;
+  rrule?: string;
+  exdates?: Date[];
+  created?: Date;
+  lastModified?: Date;
+}
+
+// Changes of a calendar since a sync token (RFC 6578)
+export interface ICalDAVChanges {
+  events: ICalDAVEvent[];
+  deleted: string[];
+  syncToken: string;
+}
@@ -70,6 +70,7 @@ export interface ICalendarEvent extends IBaseEntity {
   // Recurrence
   recurrence?: IRecurrenceRule;
   recurrenceId?: TId; // Parent event for recurring instances
+  originalStartTime?: Date; // Start of the occurrence a recurring instance replaces
 
   // Attendees and organizer
   organizer?: IEventOrganizer;
@@ -99,8 +100,8 @@ export interface IRecurrenceRule {
   interval: number; // Every N frequency units
   count?: number; // Number of occurrences
   until?: Date; // End date
-  byDay?: string[]; // Days of week (MO, TU, WE, etc.)
-  byMonthDay?: number[]; // Days of month (1-31)
+  byDay?: string[]; // Days of week (MO, TU, WE, etc.), optionally numbered (1MO, -1FR)
+  byMonthDay?: number[]; // Days of month (1-31, -1 for last)
   byMonth?: number[]; // Months (1-12)
   bySetPos?: number[]; // Position in set (-1 for last)
   weekStart?: string; // Week start day (MO, SU, etc.)
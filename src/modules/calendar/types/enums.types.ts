@@ -62,6 +62,13 @@ export enum ERecurrenceFrequency {
   HOURLY = 'hourly'
 }
 
+// Occurrences of a recurring event changed by an edit or delete
+export enum ERecurrenceEditScope {
+  THIS = 'this',
+  FOLLOWING = 'following',
+  ALL = 'all'
+}
+
 // Calendar Access Level
 export enum ECalendarAccessLevel {
   OWNER = 'owner',
@@ -69,3 +76,9 @@ export enum ECalendarAccessLevel {
   VIEWER = 'viewer',
   FREE_BUSY = 'free_busy'
 }
+
+// Calendar Feed Source
+export enum ECalendarFeedSource {
+  CALENDAR = 'calendar',
+  VIEW = 'view'
+}
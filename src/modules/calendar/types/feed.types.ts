@@ -0,0 +1,29 @@
+import { IBaseEntity, TId, TUserId } from '@/modules/core/types/common.types';
+import { ECalendarFeedSource } from './enums.types';
+
+// Private .ics subscription of a calendar or a database calendar view
+export interface ICalendarFeed extends IBaseEntity {
+  ownerId: TUserId;
+  workspaceId: string;
+  name: string;
+  source: ECalendarFeedSource;
+
+  calendarId?: TId;
+  databaseId?: TId;
+  viewId?: TId;
+
+  // Secret part of the subscription URL, rotating it revokes the old URL
+  token: string;
+  isActive: boolean;
+  revokedAt?: Date;
+
+  lastAccessedAt?: Date;
+  accessCount: number;
+}
+
+export interface ICreateCalendarFeedRequest {
+  name?: string;
+  calendarId?: TId;
+  databaseId?: TId;
+  viewId?: TId;
+}
@@ -60,6 +60,7 @@ export interface IUpdateEventRequest {
   isAllDay?: boolean;
   status?: EEventStatus;
   visibility?: EEventVisibility;
+  recurrence?: IRecurrenceRule | null;
   attendees?: Omit<IEventAttendee, 'responseTime'>[];
   reminders?: IEventReminder[];
   metadata?: Record<string, unknown>;
@@ -71,5 +72,9 @@ export interface IConnectCalendarRequest {
   accessToken?: string;
   refreshToken?: string;
   accountEmail: string;
+  // CalDAV and iCloud (app-specific password) sign-in
+  serverUrl?: string;
+  username?: string;
+  password?: string;
   syncSettings?: Partial<ICalendarConnection['syncSettings']>;
 }
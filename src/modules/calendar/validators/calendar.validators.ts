@@ -1,5 +1,12 @@
 import { z } from 'zod';
-import { ECalendarType, EEventType, EEventStatus, EEventVisibility } from '../types/enums.types';
+import {
+  ECalendarType,
+  EEventType,
+  EEventStatus,
+  EEventVisibility,
+  ERecurrenceFrequency,
+  ERecurrenceEditScope
+} from '../types/enums.types';
 
 // Calendar Schema
 export const CalendarSchema = z.object({
@@ -12,6 +19,41 @@ export const CalendarSchema = z.object({
   metadata: z.record(z.string(), z.unknown()).optional()
 });
 
+// Recurrence Rule Schema (RFC 5545 RRULE)
+export const RecurrenceRuleSchema = z.object({
+  frequency: z.nativeEnum(ERecurrenceFrequency),
+  interval: z.number().int().min(1).default(1),
+  count: z.number().int().min(1).optional(),
+  until: z.coerce.date().optional(),
+  byDay: z
+    .array(z.string().regex(/^[+-]?([1-9]|[1-4]\d|5[0-3])?(MO|TU|WE|TH|FR|SA|SU)$/))
+    .optional(),
+  byMonthDay: z
+    .array(
+      z
+        .number()
+        .int()
+        .min(-31)
+        .max(31)
+        .refine(day => day !== 0)
+    )
+    .optional(),
+  byMonth: z.array(z.number().int().min(1).max(12)).optional(),
+  bySetPos: z.array(z.number().int().min(-366).max(366)).optional(),
+  weekStart: z.enum(['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU']).optional(),
+  exceptions: z.array(z.coerce.date()).optional()
+});
+
+const EventReminderSchema = z.object({
+  method: z.enum(['email', 'popup', 'sms', 'push']),
+  minutes: z.number().min(0).max(40320) // Max 28 days
+});
+
+// Edit scope of an occurrence of a recurring event
+export const RecurrenceEditScopeSchema = z.object({
+  scope: z.nativeEnum(ERecurrenceEditScope).optional()
+});
+
 // Event Schema
 export const EventSchema = z
   .object({
@@ -26,6 +68,8 @@ export const EventSchema = z
     type: z.nativeEnum(EEventType).optional(),
     status: z.nativeEnum(EEventStatus).optional(),
     visibility: z.nativeEnum(EEventVisibility).optional(),
+    recurrence: RecurrenceRuleSchema.optional(),
+    reminders: z.array(EventReminderSchema).optional(),
     relatedEntityType: z.string().optional(),
     relatedEntityId: z.string().optional(),
     metadata: z.record(z.string(), z.unknown()).optional()
@@ -59,6 +103,7 @@ export const EventUpdateSchema = z
     isAllDay: z.boolean().optional(),
     status: z.nativeEnum(EEventStatus).optional(),
     visibility: z.nativeEnum(EEventVisibility).optional(),
+    recurrence: RecurrenceRuleSchema.nullable().optional(),
     attendees: z
       .array(
         z.object({
@@ -68,14 +113,7 @@ export const EventUpdateSchema = z
         })
       )
       .optional(),
-    reminders: z
-      .array(
-        z.object({
-          method: z.enum(['email', 'popup', 'sms', 'push']),
-          minutes: z.number().min(0).max(40320) // Max 28 days
-        })
-      )
-      .optional(),
+    reminders: z.array(EventReminderSchema).optional(),
     metadata: z.record(z.string(), z.unknown()).optional()
   })
   .refine(
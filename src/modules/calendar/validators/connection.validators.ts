@@ -8,6 +8,9 @@ export const CalendarConnectionSchema = z.object({
   accessToken: z.string().optional(),
   refreshToken: z.string().optional(),
   accountEmail: z.string().email(),
+  serverUrl: z.string().url().optional(),
+  username: z.string().min(1).optional(),
+  password: z.string().min(1).optional(),
   syncSettings: z
     .object({
       importEvents: z.boolean().optional(),
@@ -0,0 +1,13 @@
+import { z } from 'zod';
+
+// Calendar Feed Schema, a feed is either of a calendar or of a database calendar view
+export const CalendarFeedSchema = z
+  .object({
+    name: z.string().min(1).max(100).optional(),
+    calendarId: z.string().min(1).optional(),
+    databaseId: z.string().min(1).optional(),
+    viewId: z.string().min(1).optional()
+  })
+  .refine(data => Boolean(data.calendarId) !== Boolean(data.databaseId && data.viewId), {
+    message: 'Provide either calendarId or both databaseId and viewId'
+  });
@@ -34,6 +34,30 @@ export interface IPermissionConditions {
   deviceRestrictions?: string[];
 }
 
+export enum EPermissionCondition {
+  IP = 'ip',
+  TIME = 'time',
+  DEVICE = 'device'
+}
+
+// Request the permission is evaluated for
+export interface IPermissionRequestContext {
+  ip?: string;
+  deviceId?: string;
+  now?: Date;
+}
+
+export interface IPermissionDenial {
+  condition: EPermissionCondition;
+  reason: string;
+  permissionId?: string;
+}
+
+export interface IPermissionCheckResult {
+  allowed: boolean;
+  denial?: IPermissionDenial;
+}
+
 export interface IPermission extends IBaseEntity {
   resourceType: EShareScope;
   resourceId: TId;
@@ -72,3 +96,78 @@ export interface IPermission extends IBaseEntity {
   linkViewCount?: number;
   linkMaxViews?: number;
 }
+
+// Content a share link can open
+export enum EShareLinkContent {
+  VIEW = 'view',
+  RECORD = 'record',
+  NOTE = 'note'
+}
+
+export interface ICreateShareLinkRequest {
+  level: EPermissionLevel.READ | EPermissionLevel.COMMENT;
+  password?: string;
+  expiresAt?: Date;
+  maxViews?: number;
+}
+
+export interface IShareLink {
+  id: string;
+  linkId: string;
+  resourceType: EShareScope;
+  resourceId: TId;
+  level: EPermissionLevel;
+  hasPassword: boolean;
+  expiresAt?: Date;
+  viewCount: number;
+  maxViews?: number;
+  isActive: boolean;
+  createdBy: TUserId;
+  createdAt?: Date;
+  lastUsedAt?: Date;
+}
+
+export interface IPublicProperty {
+  id: string;
+  name: string;
+  type: string;
+}
+
+export interface IPublicRecord {
+  id: string;
+  properties: Record<string, unknown>;
+  content?: unknown[];
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface IPublicShareContent {
+  linkId: string;
+  content: EShareLinkContent;
+  level: EPermissionLevel;
+  expiresAt?: Date;
+  view?: {
+    id: string;
+    name: string;
+    type: string;
+    properties: IPublicProperty[];
+    records: IPublicRecord[];
+    total: number;
+    page: number;
+    limit: number;
+    hasNext: boolean;
+  };
+  record?: IPublicRecord;
+  note?: {
+    id: string;
+    title: string;
+    summary: string;
+    tags: string[];
+    content: unknown[];
+    wordCount: number;
+    readingTime: number;
+    allowComments: boolean;
+    publishedAt?: Date;
+    updatedAt?: Date;
+  };
+}
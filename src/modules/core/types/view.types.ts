@@ -114,6 +114,44 @@ export interface ITimelineConfig {
   showDependencies?: boolean;
 }
 
+// Chart configuration
+export enum EChartType {
+  BAR = 'bar',
+  LINE = 'line',
+  PIE = 'pie',
+  STACKED = 'stacked',
+  NUMBER = 'number'
+}
+
+export enum EChartAggregate {
+  COUNT = 'count',
+  SUM = 'sum',
+  AVG = 'avg',
+  MIN = 'min',
+  MAX = 'max',
+  MEDIAN = 'median'
+}
+
+export enum EChartDateBucket {
+  DAY = 'day',
+  WEEK = 'week',
+  MONTH = 'month',
+  QUARTER = 'quarter'
+}
+
+export interface IChartConfig {
+  chartType: EChartType;
+  // Not used by number charts, which show a single value
+  xAxisPropertyId?: TPropertyId;
+  groupByPropertyId?: TPropertyId;
+  aggregate: EChartAggregate;
+  // Numeric, formula or rollup property, not needed to count records
+  valuePropertyId?: TPropertyId;
+  // Bucket size when the x-axis is a date, month by default
+  dateBucket?: EChartDateBucket;
+  timezone?: string;
+}
+
 // View configuration based on type
 export interface IViewConfig {
   // Common configurations
@@ -129,6 +167,7 @@ export interface IViewConfig {
   calendar?: ICalendarConfig;
   gallery?: IGalleryConfig;
   timeline?: ITimelineConfig;
+  chart?: IChartConfig;
 }
 
 // Main view interface
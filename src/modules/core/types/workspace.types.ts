@@ -33,6 +33,7 @@ export interface IWorkspaceConfig {
   maxDatabases?: number;
   maxMembers?: number;
   storageLimit?: number; // in bytes
+  memberStorageLimit?: number; // in bytes, per member
 
   // Integrations
   allowedIntegrations?: string[];
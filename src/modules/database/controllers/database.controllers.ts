@@ -1,10 +1,18 @@
 import { Request, Response } from 'express';
-import { catchAsync, sendSuccessResponse, sendPaginatedResponse } from '@/utils';
+import {
+  catchAsync,
+  sendSuccessResponse,
+  sendPaginatedResponse,
+  createBadRequestError
+} from '@/utils';
 import {
   databaseService,
   ICreateDatabaseRequest,
   IUpdateDatabaseRequest,
-  IDatabaseQueryParams
+  IDatabaseQueryParams,
+  IDatabaseExportOptions,
+  IDatabaseExportFile,
+  IImportFileRequest
 } from '@/modules/database';
 import { getUserId } from '@/auth/index';
 
@@ -87,11 +95,20 @@ export const duplicateDatabase = catchAsync(async (req: Request, res: Response):
 
 export const exportDatabase = catchAsync(async (req: Request, res: Response): Promise<void> => {
   const { id } = req.params;
-  const options = req.query as any;
+  const options: IDatabaseExportOptions = req.body;
   const userId = getUserId(req);
 
   const exportData = await databaseService.exportDatabase(id, options, userId);
 
+  if (options.format === 'csv' || options.format === 'xlsx') {
+    const file = exportData as IDatabaseExportFile;
+    res.setHeader('Content-Type', file.mimeType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.fileName}"`);
+    res.setHeader('Content-Length', file.content.length.toString());
+    res.status(200).send(file.content);
+    return;
+  }
+
   sendSuccessResponse(res, 'Database exported successfully', exportData);
 });
 
@@ -104,6 +121,27 @@ export const importDatabase = catchAsync(async (req: Request, res: Response): Pr
   sendSuccessResponse(res, 'Database imported successfully', database, 201);
 });
 
+export const previewImportFile = catchAsync(async (req: Request, res: Response): Promise<void> => {
+  if (!req.file) throw createBadRequestError('A CSV or XLSX file is required');
+  const userId = getUserId(req);
+
+  const preview = await databaseService.previewImportFile(req.file, req.body, userId);
+
+  sendSuccessResponse(res, 'Import preview generated successfully', preview);
+});
+
+export const importDatabaseFromFile = catchAsync(
+  async (req: Request, res: Response): Promise<void> => {
+    if (!req.file) throw createBadRequestError('A CSV or XLSX file is required');
+    const request: IImportFileRequest = req.body;
+    const userId = getUserId(req);
+
+    const result = await databaseService.importDatabaseFromFile(req.file, request, userId);
+
+    sendSuccessResponse(res, 'File imported successfully', result, 201);
+  }
+);
+
 export const restoreDatabase = catchAsync(async (req: Request, res: Response): Promise<void> => {
   const { id } = req.params;
   const userId = getUserId(req);
@@ -1,6 +1,11 @@
 import { Request, Response } from 'express';
 import { catchAsync, sendSuccessResponse } from '@/utils';
-import { recordsService, IRecordQueryOptions } from '@/modules/database';
+import {
+  recordsService,
+  recordVersionsService,
+  recordLinksService,
+  IRecordQueryOptions
+} from '@/modules/database';
 import { getUserId } from '@/auth/index';
 
 export const createDatabaseRecord = catchAsync(
@@ -107,3 +112,92 @@ export const duplicateDatabaseRecord = catchAsync(
     sendSuccessResponse(res, 'Record duplicated successfully', duplicatedRecord, 201);
   }
 );
+
+export const getDatabaseRecordVersions = catchAsync(
+  async (req: Request, res: Response): Promise<void> => {
+    const userId = getUserId(req);
+    const { databaseId, recordId } = req.params;
+    const versions = await recordVersionsService.getRecordVersions(databaseId, recordId, userId);
+    sendSuccessResponse(res, 'Record versions retrieved successfully', versions);
+  }
+);
+
+export const getDatabaseRecordAtVersion = catchAsync(
+  async (req: Request, res: Response): Promise<void> => {
+    const userId = getUserId(req);
+    const { databaseId, recordId, version } = req.params;
+    const record = await recordVersionsService.getRecordAtVersion(
+      databaseId,
+      recordId,
+      Number(version),
+      userId
+    );
+    sendSuccessResponse(res, 'Record version retrieved successfully', record);
+  }
+);
+
+export const diffDatabaseRecordVersions = catchAsync(
+  async (req: Request, res: Response): Promise<void> => {
+    const userId = getUserId(req);
+    const { databaseId, recordId } = req.params;
+    const diff = await recordVersionsService.diffRecordVersions(
+      databaseId,
+      recordId,
+      Number(req.query.from),
+      Number(req.query.to),
+      userId
+    );
+    sendSuccessResponse(res, 'Record versions compared successfully', diff);
+  }
+);
+
+export const restoreDatabaseRecordVersion = catchAsync(
+  async (req: Request, res: Response): Promise<void> => {
+    const userId = getUserId(req);
+    const { databaseId, recordId, version } = req.params;
+    const result = await recordVersionsService.restoreRecordVersion(
+      databaseId,
+      recordId,
+      Number(version),
+      req.body,
+      userId
+    );
+    sendSuccessResponse(res, 'Record version restored successfully', result);
+  }
+);
+
+export const getDatabaseRecordBacklinks = catchAsync(
+  async (req: Request, res: Response): Promise<void> => {
+    const userId = getUserId(req);
+    const { databaseId, recordId } = req.params;
+    const backlinks = await recordLinksService.getBacklinks(databaseId, recordId, userId);
+    sendSuccessResponse(res, 'Record backlinks retrieved successfully', backlinks);
+  }
+);
+
+export const getDatabaseRecordLinks = catchAsync(
+  async (req: Request, res: Response): Promise<void> => {
+    const userId = getUserId(req);
+    const { databaseId, recordId } = req.params;
+    const links = await recordLinksService.getOutgoingLinks(databaseId, recordId, userId);
+    sendSuccessResponse(res, 'Record links retrieved successfully', links);
+  }
+);
+
+export const getDatabaseRecordUnlinkedMentions = catchAsync(
+  async (req: Request, res: Response): Promise<void> => {
+    const userId = getUserId(req);
+    const { databaseId, recordId } = req.params;
+    const mentions = await recordLinksService.getUnlinkedMentions(databaseId, recordId, userId);
+    sendSuccessResponse(res, 'Unlinked mentions retrieved successfully', mentions);
+  }
+);
+
+export const rebuildDatabaseRecordLinks = catchAsync(
+  async (req: Request, res: Response): Promise<void> => {
+    const userId = getUserId(req);
+    const { databaseId } = req.params;
+    const result = await recordLinksService.rebuildDatabaseLinks(databaseId, userId);
+    sendSuccessResponse(res, 'Record links rebuilt successfully', result);
+  }
+);
@@ -28,9 +28,10 @@ export const createConnection = catchAsync(async (req: Request, res: Response):
 // Remove connection between records
 export const removeConnection = catchAsync(async (req: Request, res: Response): Promise<void> => {
   const { relationId } = req.params;
+  const userId = getUserId(req);
   const { sourceRecordId, targetRecordId } = req.body;
 
-  await relationService.removeConnection(relationId, sourceRecordId, targetRecordId);
+  await relationService.removeConnection(relationId, sourceRecordId, targetRecordId, userId);
 
   sendSuccessResponse(res, 'Connection removed successfully');
 });
@@ -178,3 +178,21 @@ export const updateViewScrollWidth = catchAsync(
     sendSuccessResponse(res, 'View scroll width updated successfully', view);
   }
 );
+
+export const updateViewChart = catchAsync(async (req: Request, res: Response): Promise<void> => {
+  const { databaseId, viewId } = req.params;
+  const userId = getUserId(req);
+
+  const view = await viewsService.updateViewChart(databaseId, viewId, req.body, userId);
+
+  sendSuccessResponse(res, 'View chart updated successfully', view);
+});
+
+export const getViewChartData = catchAsync(async (req: Request, res: Response): Promise<void> => {
+  const { databaseId, viewId } = req.params;
+  const userId = getUserId(req);
+
+  const data = await viewsService.getViewChartData(databaseId, viewId, userId);
+
+  sendSuccessResponse(res, 'Chart data retrieved successfully', data);
+});
@@ -24,6 +24,10 @@ export {
 
 export { recordsService } from './services/records.services';
 
+export { recordVersionsService } from './services/record-versions.services';
+
+export { recordLinksService } from './services/record-links.services';
+
 export { propertiesService } from './services/properties.services';
 
 export { viewsService } from './services/views.services';
@@ -38,6 +42,7 @@ export { DatabaseModel } from './models/database.model';
 export { PropertyModel } from './models/property.model';
 export { ViewModel } from './models/view.model';
 export { RecordModel } from './models/record.model';
+export { RecordLinkModel } from './models/record-link.model';
 
 export type {
   IDatabaseResponse,
@@ -49,10 +54,34 @@ export type {
   IDatabase,
   IDatabaseStats,
   IDatabaseIcon,
-  IDatabaseCover
+  IDatabaseCover,
+  IDatabaseExportOptions,
+  IDatabaseExportFile,
+  IImportPreview,
+  IImportFileRequest,
+  IImportFileResult
 } from './types/database.types';
 
-export type { IRecordQueryOptions } from './types/records.types';
+export type {
+  IRecordQueryOptions,
+  IRecordVersionEntry,
+  IRecordAtVersion,
+  IRecordVersionDiff,
+  IRestoreRecordVersionRequest,
+  IRestoreRecordVersionResult
+} from './types/records.types';
+
+export { ERecordLinkType, ERecordLinkTargetType } from './types/links.types';
+
+export type {
+  IRecordLink,
+  IBacklink,
+  IBacklinkReference,
+  IRecordBacklinks,
+  IRecordOutgoingLink,
+  IUnlinkedMention,
+  IRebuildLinksResult
+} from './types/links.types';
 
 export type { IReorderPropertiesRequest } from './types/properties.types';
 
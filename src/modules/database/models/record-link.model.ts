@@ -0,0 +1,61 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+import { ERecordLinkTargetType, ERecordLinkType, IRecordLink } from '../types/links.types';
+
+export type TRecordLinkDocument = Omit<IRecordLink, 'id'> & Document;
+
+export type TRecordLinkModel = Model<TRecordLinkDocument>;
+
+// Edges of the link graph between records. Links are derived from record content and
+// rewritten whenever it changes, one document per reference.
+const RecordLinkSchema = new Schema<TRecordLinkDocument, TRecordLinkModel>(
+  {
+    workspaceId: {
+      type: String,
+      required: true
+    },
+    sourceRecordId: {
+      type: String,
+      required: true,
+      index: true
+    },
+    sourceDatabaseId: {
+      type: String,
+      required: true,
+      index: true
+    },
+    linkType: {
+      type: String,
+      enum: Object.values(ERecordLinkType),
+      required: true
+    },
+    targetType: {
+      type: String,
+      enum: Object.values(ERecordLinkTargetType),
+      required: true
+    },
+    targetId: String,
+    targetTitle: String,
+    normalizedTitle: String,
+    blockId: {
+      type: String,
+      required: true
+    },
+    snippet: {
+      type: String,
+      default: ''
+    }
+  },
+  {
+    collection: 'record_links',
+    timestamps: true,
+    versionKey: false
+  }
+);
+
+RecordLinkSchema.index({ targetType: 1, targetId: 1, sourceRecordId: 1 });
+RecordLinkSchema.index({ workspaceId: 1, linkType: 1, normalizedTitle: 1 });
+
+export const RecordLinkModel = mongoose.model<TRecordLinkDocument, TRecordLinkModel>(
+  'RecordLink',
+  RecordLinkSchema
+);
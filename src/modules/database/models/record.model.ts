@@ -7,6 +7,7 @@ import {
   ISoftDeleteDocument,
   QueryHelpers
 } from '@/modules/core/models/base.model';
+import { trackRecordChanges } from '../utils/record-changes.utils';
 
 // Properly typed document interface
 export interface IRecordDocument extends IBaseDocument, ISoftDeleteDocument {
@@ -28,6 +29,7 @@ export interface IRecordDocument extends IBaseDocument, ISoftDeleteDocument {
   // Collaboration
   lastEditedBy?: string;
   lastEditedAt?: Date;
+  collaborationVersion?: number;
 
   // Comments and discussions
   commentCount: number;
@@ -203,6 +205,8 @@ const RecordSchema = createBaseSchema(
       type: Date,
       index: true
     },
+    // Last collaborative editing version written to the content
+    collaborationVersion: Number,
 
     // Comments and discussions
     commentCount: {
@@ -454,4 +458,6 @@ RecordSchema.methods.updateSearchText = function () {
   this.searchText = searchFields.join(' ').toLowerCase();
 };
 
+RecordSchema.plugin(trackRecordChanges);
+
 export const RecordModel = mongoose.model<TRecordDocument, TRecordModel>('Record', RecordSchema);
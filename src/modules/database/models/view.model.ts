@@ -1,5 +1,12 @@
 import mongoose, { Schema, Model } from 'mongoose';
-import { IView, ISortConfig, IFilterCondition } from '@/modules/core/types/view.types';
+import {
+  IView,
+  ISortConfig,
+  IFilterCondition,
+  EChartType,
+  EChartAggregate,
+  EChartDateBucket
+} from '@/modules/core/types/view.types';
 import { createBaseSchema, IBaseDocument } from '@/modules/core/models/base.model';
 
 export type TViewDocument = IView & IBaseDocument;
@@ -142,6 +149,38 @@ const TimelineConfigSchema = new Schema(
   { _id: false }
 );
 
+const ChartConfigSchema = new Schema(
+  {
+    chartType: {
+      type: String,
+      enum: Object.values(EChartType),
+      required: true
+    },
+    xAxisPropertyId: {
+      type: String
+    },
+    groupByPropertyId: {
+      type: String
+    },
+    aggregate: {
+      type: String,
+      enum: Object.values(EChartAggregate),
+      default: EChartAggregate.COUNT
+    },
+    valuePropertyId: {
+      type: String
+    },
+    dateBucket: {
+      type: String,
+      enum: Object.values(EChartDateBucket)
+    },
+    timezone: {
+      type: String
+    }
+  },
+  { _id: false }
+);
+
 const ViewConfigSchema = new Schema(
   {
     pageSize: {
@@ -155,6 +194,7 @@ const ViewConfigSchema = new Schema(
     calendar: CalendarConfigSchema,
     gallery: GalleryConfigSchema,
     timeline: TimelineConfigSchema,
+    chart: ChartConfigSchema,
     visibleProperties: {
       type: [String],
       default: []
@@ -1,4 +1,5 @@
 import { Router } from 'express';
+import multer from 'multer';
 import { z } from 'zod';
 import { authenticateToken } from '@/middlewares/auth';
 import { validateBody, validateQuery, validateParams } from '@/middlewares/validation';
@@ -17,6 +18,8 @@ import {
   duplicateDatabase,
   exportDatabase,
   importDatabase,
+  previewImportFile,
+  importDatabaseFromFile,
   restoreDatabase,
   archiveDatabase,
   unarchiveDatabase,
@@ -35,6 +38,8 @@ import {
   duplicateDatabaseSchema,
   exportDatabaseSchema,
   importDatabaseSchema,
+  importPreviewSchema,
+  importFileSchema,
   getDatabaseStatsQuerySchema,
   bulkUpdateDatabasesSchema,
   bulkDeleteDatabasesSchema,
@@ -44,6 +49,28 @@ import {
 
 const router = Router();
 
+const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 20 * 1024 * 1024 // 20MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    const allowedTypes = [
+      'text/csv',
+      'text/plain',
+      'text/tab-separated-values',
+      'application/vnd.ms-excel',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'application/octet-stream'
+    ];
+    if (allowedTypes.includes(file.mimetype) && /\.(csv|tsv|xlsx)$/i.test(file.originalname)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only CSV and XLSX files can be imported'));
+    }
+  }
+});
+
 router.use(authenticateToken);
 router.use(resolveWorkspaceContext({ allowFromBody: true }));
 router.use(ensureDefaultWorkspace);
@@ -77,6 +104,19 @@ router.post(
   exportDatabase
 );
 router.post('/import', validateBody(importDatabaseSchema), importDatabase);
+router.post(
+  '/import/preview',
+  importUpload.single('file'),
+  validateBody(importPreviewSchema),
+  previewImportFile
+);
+router.post(
+  '/import/file',
+  importUpload.single('file'),
+  validateBody(importFileSchema),
+  injectWorkspaceContext,
+  importDatabaseFromFile
+);
 router.post('/:id/restore', validateParams(databaseIdParamSchema), restoreDatabase);
 router.post('/:id/archive', validateParams(databaseIdParamSchema), archiveDatabase);
 router.post('/:id/unarchive', validateParams(databaseIdParamSchema), unarchiveDatabase);
@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { authenticateToken } from '@/middlewares/auth';
-import { validateParams, validateQuery } from '@/middlewares/validation';
+import { validateBody, validateParams, validateQuery } from '@/middlewares/validation';
 import {
   createDatabaseRecord,
   getDatabaseRecords,
@@ -10,10 +10,23 @@ import {
   deleteDatabaseRecord,
   bulkDeleteDatabaseRecords,
   reorderDatabaseRecords,
-  duplicateDatabaseRecord
+  duplicateDatabaseRecord,
+  getDatabaseRecordVersions,
+  getDatabaseRecordAtVersion,
+  diffDatabaseRecordVersions,
+  restoreDatabaseRecordVersion,
+  getDatabaseRecordBacklinks,
+  getDatabaseRecordLinks,
+  getDatabaseRecordUnlinkedMentions,
+  rebuildDatabaseRecordLinks
 } from '@/modules/database/controllers/records.controllers';
 import { databaseIdSchema } from '@/modules/database/validators/database.validators';
-import { recordQueryOptionsSchema } from '@/modules/database/validators/record.validators';
+import {
+  recordQueryOptionsSchema,
+  recordVersionParamsSchema,
+  recordVersionDiffQuerySchema,
+  restoreRecordVersionSchema
+} from '@/modules/database/validators/record.validators';
 
 const router = Router();
 
@@ -61,5 +74,47 @@ router.post(
   validateParams(databaseIdSchema),
   duplicateDatabaseRecord
 );
+router.get(
+  '/:databaseId/records/:recordId/versions',
+  validateParams(databaseIdSchema),
+  getDatabaseRecordVersions
+);
+router.get(
+  '/:databaseId/records/:recordId/versions/diff',
+  validateParams(databaseIdSchema),
+  validateQuery(recordVersionDiffQuerySchema),
+  diffDatabaseRecordVersions
+);
+router.get(
+  '/:databaseId/records/:recordId/versions/:version',
+  validateParams(recordVersionParamsSchema),
+  getDatabaseRecordAtVersion
+);
+router.post(
+  '/:databaseId/records/:recordId/versions/:version/restore',
+  validateParams(recordVersionParamsSchema),
+  validateBody(restoreRecordVersionSchema),
+  restoreDatabaseRecordVersion
+);
+router.get(
+  '/:databaseId/records/:recordId/backlinks',
+  validateParams(databaseIdSchema),
+  getDatabaseRecordBacklinks
+);
+router.get(
+  '/:databaseId/records/:recordId/links',
+  validateParams(databaseIdSchema),
+  getDatabaseRecordLinks
+);
+router.get(
+  '/:databaseId/records/:recordId/unlinked-mentions',
+  validateParams(databaseIdSchema),
+  getDatabaseRecordUnlinkedMentions
+);
+router.post(
+  '/:databaseId/links/rebuild',
+  validateParams(databaseIdSchema),
+  rebuildDatabaseRecordLinks
+);
 
 export default router;
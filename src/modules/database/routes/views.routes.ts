@@ -15,14 +15,17 @@ import {
   updateViewColumnFreeze,
   updateViewFilters,
   updateViewSorts,
-  updateViewScrollWidth
+  updateViewScrollWidth,
+  updateViewChart,
+  getViewChartData
 } from '../controllers/views.controllers';
 import { databaseIdSchema } from '@/modules/database/validators/database.validators';
 import {
   viewIdParamSchema,
   createViewSchema,
   updateViewSchema,
-  duplicateViewSchema
+  duplicateViewSchema,
+  chartConfigSchema
 } from '../validators/views.validators';
 
 const router = Router();
@@ -98,5 +101,16 @@ router.patch(
   validateParams(viewIdParamSchema),
   updateViewScrollWidth
 );
+router.patch(
+  '/:databaseId/views/:viewId/chart',
+  validateParams(viewIdParamSchema),
+  validateBody(chartConfigSchema),
+  updateViewChart
+);
+router.get(
+  '/:databaseId/views/:viewId/chart-data',
+  validateParams(viewIdParamSchema),
+  getViewChartData
+);
 
 export default router;
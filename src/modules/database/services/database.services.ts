@@ -1,30 +1,85 @@
+import { Types } from 'mongoose';
 import {
   IDatabase,
   ICreateDatabaseRequest,
   IUpdateDatabaseRequest,
   IDatabaseQueryParams,
   IDatabaseStats,
-  IDatabaseTemplate
+  IDatabaseTemplate,
+  IDatabaseExportOptions,
+  IDatabaseExportFile,
+  ITabularExportOptions,
+  IImportFileParseOptions,
+  IImportUploadFile,
+  IImportPreview,
+  IImportFileRequest,
+  IImportFileResult,
+  IImportRowError,
+  IParsedImportFile
 } from '@/modules/database/types/database.types';
 import { EDatabaseType } from '@/modules/core/types/database.types';
+import { searchIndexService } from '@/modules/search/services/search-index.service';
+import { filesService } from '@/modules/files/services/files.service';
 import {
   createAppError,
   createNotFoundError,
   createConflictError,
-  createForbiddenError
+  createForbiddenError,
+  createBadRequestError,
+  createValidationError
 } from '@/utils/error.utils';
 import {
   buildWorkspaceAwareDatabaseQuery,
   formatDatabaseResponse,
-  calculateDatabaseStats
+  calculateDatabaseStats,
+  validateDatabaseAccess
 } from '../utils/database.utils';
+import {
+  IExportValueContext,
+  buildTabularExport,
+  collectRelationRecordIds,
+  flattenPropertyValue,
+  getExportColumns,
+  getRawPropertyValue
+} from '../utils/export.utils';
+import {
+  buildColumnPreviews,
+  coerceCellValue,
+  findMissingOptions,
+  parseImportFile
+} from '../utils/import.utils';
+import { notifyRecordsCreated } from '../utils/record-changes.utils';
 import { moduleConfigService } from '@/modules/modules/services/module-config.service';
 import { moduleInitializationService } from '@/modules/modules/services/module-initialization.service';
 import { EViewType } from '@/modules/core/types/view.types';
-import { EPropertyType } from '@/modules/core/types/property.types';
+import {
+  EPropertyType,
+  IProperty,
+  IPropertyOption,
+  TPropertyValue
+} from '@/modules/core/types/property.types';
+import { validatePropertyValue } from '@/modules/core/utils/property.utils';
 import { generateId } from '@/utils/id-generator';
 import { workspaceService } from '@/modules/workspace/services/workspace.service';
 import { DatabaseModel, PropertyModel, RecordModel, ViewModel } from '@/modules/database';
+import { formulaIntegrationService } from '@/modules/formulas/services/formula-integration.service';
+import { viewsService } from './views.services';
+import { relationService } from './relation.service';
+import { propertiesService } from './properties.services';
+import {
+  recordsService,
+  createPropertyNameMap,
+  findMatchingPropertyName
+} from './records.services';
+
+const IMPORT_PREVIEW_ROWS = 10;
+const IMPORT_BATCH_SIZE = 500;
+const SELECT_PROPERTY_TYPES = [
+  EPropertyType.SELECT,
+  EPropertyType.MULTI_SELECT,
+  EPropertyType.STATUS,
+  EPropertyType.PRIORITY
+];
 
 const createDatabase = async (data: ICreateDatabaseRequest, userId: string): Promise<IDatabase> => {
   try {
@@ -118,6 +173,7 @@ const createDatabase = async (data: ICreateDatabaseRequest, userId: string): Pro
     }
 
     await database.save();
+    await searchIndexService.indexDatabase(database.id);
 
     return formatDatabaseResponse(database);
   } catch (error: any) {
@@ -210,6 +266,7 @@ const updateDatabase = async (
     Object.assign(database, data);
     database.updatedBy = userId;
     await database.save();
+    await searchIndexService.indexDatabase(database.id);
 
     return formatDatabaseResponse(database);
   } catch (error: any) {
@@ -239,9 +296,12 @@ const deleteDatabase = async (
         RecordModel.deleteMany({ databaseId: id }),
         DatabaseModel.findByIdAndDelete(id)
       ]);
+      await filesService.deleteAttachments({ databaseId: id });
     } else {
       await database.softDelete(userId);
     }
+
+    await searchIndexService.removeDatabase(id);
   } catch (error: any) {
     if (error.statusCode) throw error;
     throw createAppError(`Failed to delete database: ${error.message}`, 500);
@@ -393,6 +453,8 @@ const duplicateDatabase = async (
     }
 
     await newDatabase.save();
+    await searchIndexService.indexDatabase(newDatabase.id, true);
+
     return formatDatabaseResponse(newDatabase);
   } catch (error: any) {
     if (error.statusCode) throw error;
@@ -552,6 +614,7 @@ const bulkUpdateDatabases = async (
           database.lastActivityAt = new Date();
 
           await database.save();
+          await searchIndexService.indexDatabase(database.id);
           results.updated++;
         } catch (error: any) {
           results.failed.push(database.id);
@@ -606,11 +669,13 @@ const bulkDeleteDatabases = async (
               RecordModel.deleteMany({ databaseId: database.id }),
               DatabaseModel.findByIdAndDelete(database.id)
             ]);
+            await filesService.deleteAttachments({ databaseId: database.id });
           } else {
             // Soft delete
             await database.softDelete(userId);
           }
 
+          await searchIndexService.removeDatabase(database.id);
           results.deleted++;
         } catch (error: any) {
           results.failed.push(database.id);
@@ -629,16 +694,83 @@ const bulkDeleteDatabases = async (
   }
 };
 
+// Export database as one row per record and one column per property, in view column order
+const exportDatabaseTable = async (
+  database: InstanceType<typeof DatabaseModel>,
+  options: IDatabaseExportOptions & ITabularExportOptions,
+  userId: string
+): Promise<IDatabaseExportFile> => {
+  const databaseId = database.id.toString();
+  const properties = (database.properties as unknown as IProperty[]).filter(
+    property => property && typeof property === 'object'
+  );
+
+  const view = options.viewId
+    ? await ViewModel.findOne({
+        _id: options.viewId,
+        databaseId,
+        isDeleted: { $ne: true }
+      }).exec()
+    : await ViewModel.findDefaultView(databaseId);
+
+  if (options.viewId && !view) throw createNotFoundError('View', options.viewId);
+
+  let query: Record<string, unknown> = { databaseId, isDeleted: { $ne: true } };
+  let sort: Record<string, 1 | -1> = { order: 1, createdAt: 1 };
+
+  // Only an explicitly requested view narrows the rows, the default view just orders columns
+  if (options.viewId && view) {
+    const { settings } = await viewsService.getViewById(databaseId, options.viewId, userId);
+    const viewQuery = await viewsService.buildFilterQuery(settings.filters, databaseId, userId);
+    query = { ...query, ...viewQuery };
+    if (settings.sorts.length > 0) {
+      sort = await viewsService.buildSortQuery(settings.sorts, databaseId, userId);
+    }
+  }
+
+  const records = await RecordModel.find(query).sort(sort).select('-content').exec();
+  const columns = getExportColumns(properties, view);
+
+  const relationIds = collectRelationRecordIds(records, columns).filter(relationId =>
+    Types.ObjectId.isValid(relationId)
+  );
+  const relatedRecords = relationIds.length
+    ? await RecordModel.find({ _id: { $in: relationIds } })
+        .select('properties')
+        .exec()
+    : [];
+
+  const context: IExportValueContext = {
+    relationTitles: new Map(
+      relatedRecords.map(related => [
+        related.id.toString(),
+        relationService.getDisplayValue(related)
+      ])
+    ),
+    dateFormat: options.dateFormat || 'iso',
+    locale: options.locale || 'en-US',
+    timeZone: options.timeZone || 'UTC'
+  };
+
+  const rows = records.map(record =>
+    columns.map(property =>
+      flattenPropertyValue(getRawPropertyValue(record.properties, property), property, context, {
+        createdAt: record.createdAt,
+        updatedAt: record.updatedAt,
+        createdBy: record.createdBy,
+        lastEditedBy: record.lastEditedBy,
+        updatedBy: record.updatedBy
+      })
+    )
+  );
+
+  return buildTabularExport(database.name, columns, rows, { format: options.format });
+};
+
 // Export database
 const exportDatabase = async (
   id: string,
-  options: {
-    format?: 'json' | 'csv' | 'xlsx';
-    includeProperties?: boolean;
-    includeViews?: boolean;
-    includeRecords?: boolean;
-    includeTemplates?: boolean;
-  } = {},
+  options: IDatabaseExportOptions = {},
   userId: string
 ): Promise<any> => {
   try {
@@ -652,6 +784,10 @@ const exportDatabase = async (
 
     if (!database) throw createNotFoundError('Database', id);
 
+    if (options.format === 'csv' || options.format === 'xlsx') {
+      return await exportDatabaseTable(database, { ...options, format: options.format }, userId);
+    }
+
     const exportData: any = {
       database: {
         id: database.id,
@@ -818,6 +954,8 @@ const importDatabase = async (
     }
 
     await newDatabase.save();
+    await searchIndexService.indexDatabase(newDatabase.id, true);
+
     return formatDatabaseResponse(newDatabase);
   } catch (error: any) {
     if (error.statusCode) throw error;
@@ -825,6 +963,367 @@ const importDatabase = async (
   }
 };
 
+// Preview a CSV/XLSX upload before importing it: headers, inferred property types and,
+// when importing into an existing database, the property each column most likely maps to
+const previewImportFile = async (
+  file: IImportUploadFile,
+  options: IImportFileParseOptions & { databaseId?: string },
+  userId: string
+): Promise<IImportPreview> => {
+  try {
+    const parsed = await parseImportFile(file, options);
+    const columns = buildColumnPreviews(parsed);
+
+    if (options.databaseId) {
+      const properties = await propertiesService.getProperties(options.databaseId, userId, true);
+      const propertyNameMap = createPropertyNameMap(properties);
+
+      for (const column of columns) {
+        const matchedName = findMatchingPropertyName(column.header, propertyNameMap);
+        const property = properties.find(p => p.name === matchedName);
+        if (property) {
+          column.suggestedPropertyId = property.id;
+          column.suggestedPropertyName = property.name;
+        }
+      }
+    }
+
+    return {
+      fileName: file.originalname,
+      format: parsed.format,
+      rowCount: parsed.rows.length,
+      headers: parsed.headers,
+      sampleRows: parsed.rows.slice(0, IMPORT_PREVIEW_ROWS),
+      columns,
+      ...(options.databaseId ? { databaseId: options.databaseId } : {})
+    };
+  } catch (error: any) {
+    if (error.statusCode) throw error;
+    throw createAppError(`Failed to preview import: ${error.message}`, 500);
+  }
+};
+
+interface IResolvedImportColumn {
+  columnIndex: number;
+  property: IProperty;
+  options?: IPropertyOption[];
+  dayFirst?: boolean;
+}
+
+// Properties and select options an import added to the schema, undone when it aborts
+interface IImportSchemaChanges {
+  propertyIds: string[];
+  options: Array<{ propertyId: string; optionIds: string[] }>;
+}
+
+const resolveImportColumns = async (
+  databaseId: string,
+  parsed: IParsedImportFile,
+  request: IImportFileRequest,
+  userId: string,
+  changes: IImportSchemaChanges
+): Promise<{ columns: IResolvedImportColumn[]; createdProperties: string[] }> => {
+  const previews = buildColumnPreviews(parsed);
+  const existing = await PropertyModel.find({ databaseId, isDeleted: { $ne: true } }).exec();
+  const defaultView = await ViewModel.findDefaultView(databaseId);
+  const columns: IResolvedImportColumn[] = [];
+  const createdProperties: string[] = [];
+
+  for (const mapping of request.columns) {
+    if (mapping.skip) continue;
+    const preview = previews[mapping.columnIndex];
+    if (!preview)
+      throw createBadRequestError(`Column ${mapping.columnIndex} does not exist in file`);
+
+    let property: IProperty | undefined;
+    if (mapping.propertyId) {
+      const match = existing.find(p => p.id.toString() === mapping.propertyId);
+      if (!match) throw createNotFoundError('Property', mapping.propertyId);
+      property = match.toJSON() as IProperty;
+    } else {
+      const name = (mapping.propertyName || preview.header).trim();
+      const type = mapping.type || preview.inferredType;
+      const match = existing.find(p => p.name.toLowerCase() === name.toLowerCase());
+
+      if (match && match.type !== type) {
+        throw createConflictError(
+          `Property "${match.name}" already exists with type ${match.type}, map the column to it instead`
+        );
+      }
+
+      property = match
+        ? (match.toJSON() as IProperty)
+        : await propertiesService.createProperty(
+            databaseId,
+            {
+              name,
+              type,
+              config: {
+                ...(mapping.options || preview.options
+                  ? { options: mapping.options || preview.options }
+                  : {}),
+                ...(type === EPropertyType.DATE
+                  ? { includeTime: Boolean(preview.includeTime) }
+                  : {})
+              },
+              viewId: defaultView ? defaultView.id.toString() : ''
+            },
+            userId
+          );
+      if (!match) {
+        createdProperties.push(property.name);
+        changes.propertyIds.push(property.id.toString());
+      }
+    }
+
+    let options = property.config?.options;
+    if (
+      SELECT_PROPERTY_TYPES.includes(property.type) &&
+      options &&
+      request.createMissingOptions !== false
+    ) {
+      const values = parsed.rows.map(row => row[mapping.columnIndex]);
+      const missing = findMissingOptions(values, property.type, options);
+      if (missing.length > 0) {
+        await PropertyModel.updateOne(
+          { _id: property.id },
+          { $push: { 'config.options': { $each: missing } }, $set: { updatedBy: userId } }
+        );
+        changes.options.push({
+          propertyId: property.id.toString(),
+          optionIds: missing.map(option => option.id)
+        });
+        options = [...options, ...missing];
+      }
+    }
+
+    columns.push({
+      columnIndex: mapping.columnIndex,
+      property,
+      options,
+      dayFirst: mapping.dayFirst ?? preview.dayFirst
+    });
+  }
+
+  if (columns.length === 0) throw createBadRequestError('Map at least one column to a property');
+
+  return { columns, createdProperties };
+};
+
+const revertImportSchemaChanges = async (
+  databaseId: string,
+  changes: IImportSchemaChanges
+): Promise<void> => {
+  for (const { propertyId, optionIds } of changes.options) {
+    await PropertyModel.updateOne(
+      { _id: propertyId },
+      { $pull: { 'config.options': { id: { $in: optionIds } } } }
+    );
+  }
+
+  if (changes.propertyIds.length === 0) return;
+
+  const propertyIds = changes.propertyIds.map(id => new Types.ObjectId(id));
+  await PropertyModel.deleteMany({ _id: { $in: propertyIds } });
+  await DatabaseModel.updateOne(
+    { _id: databaseId },
+    { $pull: { properties: { $in: propertyIds } } }
+  );
+  await ViewModel.updateMany(
+    { databaseId },
+    { $pull: { 'config.visibleProperties': { $in: changes.propertyIds } } }
+  );
+  formulaIntegrationService.invalidateDependencyGraph();
+};
+
+// Import a CSV/XLSX file into a new or existing database using a confirmed column mapping.
+// Invalid rows are reported individually rather than failing the whole import.
+const importDatabaseFromFile = async (
+  file: IImportUploadFile,
+  request: IImportFileRequest,
+  userId: string
+): Promise<IImportFileResult> => {
+  let createdDatabaseId: string | undefined;
+  let databaseId: string | undefined;
+  // Schema changes stay pending until rows start being written
+  let pendingChanges: IImportSchemaChanges | undefined;
+
+  try {
+    const parsed = await parseImportFile(file, request);
+
+    if (request.databaseId) {
+      const database = await DatabaseModel.findOne({
+        _id: request.databaseId,
+        isDeleted: { $ne: true }
+      }).exec();
+      if (!database) throw createNotFoundError('Database', request.databaseId);
+      if (database.isFrozen) throw createForbiddenError('Cannot import into a frozen database');
+
+      const canWrite = await validateDatabaseAccess(request.databaseId, userId, 'write');
+      if (!canWrite) throw createForbiddenError('Access denied to this database');
+      databaseId = request.databaseId;
+    } else {
+      if (!request.name) {
+        throw createBadRequestError('A database name is required when importing a new database');
+      }
+      const database = await createDatabase(
+        {
+          workspaceId: request.workspaceId as string,
+          name: request.name,
+          type: request.type || EDatabaseType.CUSTOM,
+          description: request.description
+        },
+        userId
+      );
+      databaseId = database.id.toString();
+      createdDatabaseId = databaseId;
+    }
+
+    pendingChanges = { propertyIds: [], options: [] };
+    const { columns, createdProperties } = await resolveImportColumns(
+      databaseId,
+      parsed,
+      request,
+      userId,
+      pendingChanges
+    );
+
+    const errors: IImportRowError[] = [];
+    const validRows: Array<Record<string, unknown>> = [];
+    let failedCount = 0;
+
+    for (let index = 0; index < parsed.rows.length; index++) {
+      const row = parsed.rows[index];
+      const rowNumber = parsed.firstDataRowNumber + index;
+      const properties: Record<string, unknown> = {};
+      const rowErrors: IImportRowError[] = [];
+
+      for (const column of columns) {
+        const coerced = coerceCellValue(row[column.columnIndex], column.property.type, {
+          selectOptions: column.options,
+          dayFirst: column.dayFirst
+        });
+        if (coerced.error) {
+          rowErrors.push({ row: rowNumber, field: column.property.name, error: coerced.error });
+          continue;
+        }
+
+        const check = validatePropertyValue(coerced.value as TPropertyValue, {
+          ...column.property,
+          config: { ...column.property.config, options: column.options }
+        });
+        if (!check.isValid) {
+          rowErrors.push({ row: rowNumber, field: column.property.name, error: check.error! });
+          continue;
+        }
+
+        const isEmpty =
+          coerced.value === null || (Array.isArray(coerced.value) && coerced.value.length === 0);
+        if (!isEmpty) properties[column.property.name] = coerced.value;
+      }
+
+      if (rowErrors.length === 0) {
+        try {
+          const validation = await recordsService.validateRecordProperties(
+            databaseId,
+            properties,
+            userId
+          );
+          validation.errors.forEach(validationError =>
+            rowErrors.push({
+              row: rowNumber,
+              field: validationError.field,
+              error: validationError.message
+            })
+          );
+          if (validation.isValid) validRows.push(validation.validatedProperties);
+        } catch (error: any) {
+          rowErrors.push({ row: rowNumber, error: error.message });
+        }
+      }
+
+      if (rowErrors.length > 0) {
+        failedCount++;
+        errors.push(...rowErrors);
+      }
+    }
+
+    if (errors.length > 0 && request.skipInvalidRows === false) {
+      throw createValidationError(
+        `Import aborted: ${failedCount} row(s) failed validation`,
+        errors.slice(0, 50).map(rowError => ({
+          field: `row ${rowError.row}${rowError.field ? ` (${rowError.field})` : ''}`,
+          message: rowError.error
+        }))
+      );
+    }
+
+    pendingChanges = undefined;
+
+    const lastRecord = await RecordModel.findOne({ databaseId })
+      .sort({ order: -1 })
+      .select('order')
+      .exec();
+    let order = lastRecord ? (lastRecord.order || 0) + 1 : 0;
+
+    for (let i = 0; i < validRows.length; i += IMPORT_BATCH_SIZE) {
+      const now = new Date();
+      const documents = validRows.slice(i, i + IMPORT_BATCH_SIZE).map(properties => {
+        const record = new RecordModel({
+          databaseId,
+          properties,
+          content: [],
+          order: order++,
+          createdBy: userId,
+          updatedBy: userId,
+          lastEditedBy: userId,
+          lastEditedAt: now
+        });
+        record.updateSearchText();
+        return record;
+      });
+      // insertMany skips the document hooks, versions and links are written explicitly
+      await RecordModel.insertMany(documents);
+      await notifyRecordsCreated(
+        documents.map(record => ({
+          _id: record._id,
+          properties: record.properties,
+          content: [],
+          createdBy: userId
+        }))
+      );
+    }
+
+    const database = await DatabaseModel.findByIdAndUpdate(
+      databaseId,
+      {
+        $inc: { recordCount: validRows.length },
+        $set: { updatedBy: userId, lastActivityAt: new Date() }
+      },
+      { new: true }
+    ).exec();
+    await searchIndexService.indexDatabase(databaseId);
+
+    return {
+      database: formatDatabaseResponse(database),
+      totalProcessed: parsed.rows.length,
+      createdCount: validRows.length,
+      failedCount,
+      createdProperties,
+      errors
+    };
+  } catch (error: any) {
+    // A strict or failed import should not leave a half-built database or schema behind
+    if (createdDatabaseId) {
+      await deleteDatabase(createdDatabaseId, userId, true).catch(() => undefined);
+    } else if (databaseId && pendingChanges) {
+      await revertImportSchemaChanges(databaseId, pendingChanges).catch(() => undefined);
+    }
+    if (error.statusCode) throw error;
+    throw createAppError(`Failed to import file: ${error.message}`, 500);
+  }
+};
+
 // Restore database from soft delete
 const restoreDatabase = async (id: string, userId: string): Promise<IDatabase> => {
   try {
@@ -864,6 +1363,7 @@ const restoreDatabase = async (id: string, userId: string): Promise<IDatabase> =
         }
       )
     ]);
+    await searchIndexService.indexDatabase(id, true);
 
     return formatDatabaseResponse(database);
   } catch (error: any) {
@@ -1083,6 +1583,8 @@ export const databaseService = {
   bulkDeleteDatabases,
   exportDatabase,
   importDatabase,
+  previewImportFile,
+  importDatabaseFromFile,
   restoreDatabase,
   createDatabaseTemplate,
   updateDatabaseTemplate,
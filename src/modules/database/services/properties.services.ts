@@ -11,6 +11,7 @@ import { IReorderPropertiesRequest } from '../types/properties.types';
 import { RecordModel } from '@/modules/database/models/record.model';
 import { viewsService } from './views.services';
 import { createAppError, createNotFoundError, createConflictError } from '@/utils/error.utils';
+import { formulaIntegrationService } from '@/modules/formulas/services/formula-integration.service';
 
 interface ICreatePropertyRequest {
   name: string;
@@ -62,6 +63,7 @@ const createProperty = async (
   validatePropertyConfig(property.toObject() as IProperty);
 
   await property.save();
+  formulaIntegrationService.invalidateDependencyGraph();
 
   await DatabaseModel.findByIdAndUpdate(databaseId, {
     $push: { properties: property._id },
@@ -186,6 +188,7 @@ const updateProperty = async (
   }
 
   await PropertyModel.findByIdAndUpdate(propertyId, updateData);
+  formulaIntegrationService.invalidateDependencyGraph();
 
   const updatedProperty = await PropertyModel.findById(propertyId);
   return updatedProperty!.toJSON() as IProperty;
@@ -241,6 +244,7 @@ const deleteProperty = async (
   if (property.isSystem) throw createAppError('Cannot delete system properties', 400);
 
   await PropertyModel.findByIdAndDelete(propertyId);
+  formulaIntegrationService.invalidateDependencyGraph();
 
   await DatabaseModel.findByIdAndUpdate(databaseId, {
     $pull: { properties: new ObjectId(propertyId) },
@@ -301,6 +305,7 @@ const changePropertyType = async (
   validatePropertyConfig(property.toObject() as IProperty);
 
   await property.save();
+  formulaIntegrationService.invalidateDependencyGraph();
 
   return property.toJSON() as IProperty;
 };
@@ -354,6 +359,7 @@ const insertPropertyAt = async (
   const property = new PropertyModel(propertyData);
   validatePropertyConfig(property.toObject() as IProperty);
   await property.save();
+  formulaIntegrationService.invalidateDependencyGraph();
 
   await DatabaseModel.findByIdAndUpdate(databaseId, {
     $push: { properties: property._id },
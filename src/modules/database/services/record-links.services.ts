@@ -0,0 +1,482 @@
+import { ObjectId } from 'mongodb';
+import { RecordModel } from '@/modules/database/models/record.model';
+import { DatabaseModel } from '@/modules/database/models/database.model';
+import { RecordLinkModel } from '@/modules/database/models/record-link.model';
+import { permissionService } from '@/modules/permissions/services/permission.service';
+import { SearchIndexModel } from '@/modules/search/models/search-index.model';
+import { textAnalysisUtils } from '@/modules/search/services/text-analysis';
+import { ESearchResultType } from '@/modules/search/types/search.types';
+import {
+  ERecordLinkTargetType,
+  ERecordLinkType,
+  IBacklink,
+  IExtractedRecordLink,
+  IRebuildLinksResult,
+  IRecordBacklinks,
+  IRecordOutgoingLink,
+  IUnlinkedMention
+} from '../types/links.types';
+import {
+  buildSnippet,
+  extractRecordLinks,
+  getRecordTitle,
+  normalizeTitle,
+  TITLE_PROPERTIES
+} from '../utils/record-links.utils';
+import { EShareScope, EPermissionLevel } from '@/modules/core/types/permission.types';
+import { createAppError, createForbiddenError, createNotFoundError } from '@/utils/error.utils';
+
+const MAX_BACKLINK_SOURCES = 500;
+const MAX_UNLINKED_CANDIDATES = 100;
+const MAX_UNLINKED_SNIPPETS = 3;
+
+interface IStoredRecord {
+  _id: unknown;
+  databaseId: unknown;
+  properties?: Record<string, any>;
+  content?: any[];
+  isDeleted?: boolean;
+  updatedAt?: Date;
+}
+
+const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Case-insensitive exact match of a title, whitespace runs included
+const titlePattern = (title: string): RegExp =>
+  new RegExp(`^\\s*${normalizeTitle(title).split(' ').map(escapeRegex).join('\\s+')}\\s*$`, 'i');
+
+const getWorkspaceId = async (databaseId: string): Promise<string | undefined> => {
+  const database = await DatabaseModel.findById(databaseId).select('workspaceId').lean();
+  return database?.workspaceId?.toString();
+};
+
+const getAccessibleRecord = async (
+  databaseId: string,
+  recordId: string,
+  userId: string
+): Promise<IStoredRecord> => {
+  if (!ObjectId.isValid(recordId)) throw createNotFoundError('Record', recordId);
+
+  const record = await RecordModel.findOne({
+    _id: new ObjectId(recordId),
+    databaseId,
+    isDeleted: { $ne: true }
+  }).lean<IStoredRecord>();
+  if (!record) throw createNotFoundError('Record', recordId);
+
+  const allowed = await permissionService.hasPermission(
+    EShareScope.RECORD,
+    recordId,
+    userId,
+    EPermissionLevel.READ
+  );
+  if (!allowed) throw createForbiddenError('Insufficient permissions to view this record');
+
+  return record;
+};
+
+const filterReadable = async <T extends { recordId: string }>(
+  items: T[],
+  userId: string
+): Promise<T[]> => {
+  const allowed = await Promise.all(
+    items.map(item =>
+      permissionService.hasPermission(
+        EShareScope.RECORD,
+        item.recordId,
+        userId,
+        EPermissionLevel.READ
+      )
+    )
+  );
+  return items.filter((_, index) => allowed[index]);
+};
+
+/**
+ * Ids of the records and databases among the extracted targets that exist, so links to
+ * deleted or foreign ids are stored unresolved instead of pointing nowhere
+ */
+const findExistingTargets = async (links: IExtractedRecordLink[]) => {
+  const idsOf = (type: ERecordLinkTargetType) =>
+    [
+      ...new Set(
+        links.filter(link => link.targetType === type && link.targetId).map(link => link.targetId!)
+      )
+    ].filter(id => ObjectId.isValid(id));
+
+  const [records, databases] = await Promise.all([
+    RecordModel.find({
+      _id: { $in: idsOf(ERecordLinkTargetType.RECORD) },
+      isDeleted: { $ne: true }
+    })
+      .select('_id')
+      .lean(),
+    DatabaseModel.find({ _id: { $in: idsOf(ERecordLinkTargetType.DATABASE) } })
+      .select('_id')
+      .lean()
+  ]);
+
+  return new Set([...records, ...databases].map(doc => String(doc._id)));
+};
+
+/**
+ * Record ids of wiki reference titles within a workspace. When several records share a
+ * title, the most recently edited one wins.
+ */
+const resolveTitles = async (
+  workspaceId: string,
+  titles: string[]
+): Promise<Map<string, string>> => {
+  const resolved = new Map<string, string>();
+  const normalized = [...new Set(titles.map(normalizeTitle))].filter(Boolean);
+  if (normalized.length === 0) return resolved;
+
+  const databaseIds = (await DatabaseModel.find({ workspaceId }).select('_id').lean()).map(
+    database => String(database._id)
+  );
+  const patterns = normalized.map(titlePattern);
+  const records = await RecordModel.find({
+    databaseId: { $in: databaseIds },
+    isDeleted: { $ne: true },
+    $or: TITLE_PROPERTIES.map(name => ({ [`properties.${name}`]: { $in: patterns } }))
+  })
+    .sort({ updatedAt: -1 })
+    .select(TITLE_PROPERTIES.map(name => `properties.${name}`).join(' '))
+    .lean<IStoredRecord[]>();
+
+  for (const record of records) {
+    const title = normalizeTitle(getRecordTitle(record.properties));
+    if (title && !resolved.has(title)) resolved.set(title, String(record._id));
+  }
+
+  return resolved;
+};
+
+/**
+ * Point wiki references at a record after it is created or renamed. References to the
+ * old title are released and dangling references to the new title are claimed.
+ */
+const relinkWikiReferences = async (
+  workspaceId: string,
+  recordId: string,
+  previousTitle: string | null,
+  title: string
+): Promise<void> => {
+  const normalized = normalizeTitle(title);
+
+  if (previousTitle && normalizeTitle(previousTitle) !== normalized) {
+    await RecordLinkModel.updateMany(
+      {
+        linkType: ERecordLinkType.WIKI,
+        targetType: ERecordLinkTargetType.RECORD,
+        targetId: recordId,
+        normalizedTitle: { $ne: normalized }
+      },
+      { $unset: { targetId: 1 } }
+    );
+  }
+
+  if (normalized) {
+    await RecordLinkModel.updateMany(
+      {
+        workspaceId,
+        linkType: ERecordLinkType.WIKI,
+        normalizedTitle: normalized,
+        targetId: { $exists: false },
+        sourceRecordId: { $ne: recordId }
+      },
+      { $set: { targetId: recordId } }
+    );
+  }
+};
+
+/**
+ * Rebuild the outgoing links of a record from its content. A previous title (`null` for
+ * a new record) also moves wiki references of other records to follow the rename.
+ */
+const syncRecordLinks = async (
+  recordId: string,
+  previousTitle?: string | null
+): Promise<number> => {
+  const record = await RecordModel.findById(recordId)
+    .select(
+      `databaseId content isDeleted ${TITLE_PROPERTIES.map(name => `properties.${name}`).join(' ')}`
+    )
+    .lean<IStoredRecord>();
+
+  if (!record || record.isDeleted) {
+    await RecordLinkModel.deleteMany({ sourceRecordId: recordId });
+    return 0;
+  }
+
+  const databaseId = String(record.databaseId);
+  const workspaceId = await getWorkspaceId(databaseId);
+  if (!workspaceId) return 0;
+
+  const extracted = extractRecordLinks(record.content).filter(link => link.targetId !== recordId);
+  const existing = await findExistingTargets(extracted);
+  const titles = await resolveTitles(
+    workspaceId,
+    extracted.filter(link => link.linkType === ERecordLinkType.WIKI).map(link => link.targetTitle!)
+  );
+
+  const links = extracted.map(link => {
+    const normalizedTitle = link.targetTitle ? normalizeTitle(link.targetTitle) : undefined;
+    const targetId = normalizedTitle
+      ? titles.get(normalizedTitle)
+      : existing.has(link.targetId!)
+        ? link.targetId
+        : undefined;
+
+    return {
+      workspaceId,
+      sourceRecordId: recordId,
+      sourceDatabaseId: databaseId,
+      linkType: link.linkType,
+      targetType: link.targetType,
+      targetId: targetId === recordId ? undefined : targetId,
+      targetTitle: link.targetTitle,
+      normalizedTitle,
+      blockId: link.blockId,
+      snippet: link.snippet
+    };
+  });
+
+  await RecordLinkModel.deleteMany({ sourceRecordId: recordId });
+  if (links.length > 0) await RecordLinkModel.insertMany(links);
+
+  const title = getRecordTitle(record.properties);
+  if (previousTitle !== undefined && (previousTitle === null || previousTitle !== title)) {
+    await relinkWikiReferences(workspaceId, recordId, previousTitle, title);
+  }
+
+  return links.length;
+};
+
+/**
+ * Records linking to a record, grouped by source with the snippet around each reference.
+ * Sources the user cannot read are left out.
+ */
+const getBacklinks = async (
+  databaseId: string,
+  recordId: string,
+  userId: string
+): Promise<IRecordBacklinks> => {
+  try {
+    await getAccessibleRecord(databaseId, recordId, userId);
+
+    const links = await RecordLinkModel.find({
+      targetType: ERecordLinkTargetType.RECORD,
+      targetId: recordId
+    })
+      .sort({ updatedAt: -1 })
+      .limit(MAX_BACKLINK_SOURCES)
+      .lean();
+
+    const sourceIds = [...new Set(links.map(link => link.sourceRecordId))];
+    const sources = await RecordModel.find({ _id: { $in: sourceIds }, isDeleted: { $ne: true } })
+      .select(
+        `databaseId updatedAt ${TITLE_PROPERTIES.map(name => `properties.${name}`).join(' ')}`
+      )
+      .lean<IStoredRecord[]>();
+    const sourcesById = new Map(sources.map(source => [String(source._id), source]));
+
+    const grouped = new Map<string, IBacklink>();
+    for (const link of links) {
+      const source = sourcesById.get(link.sourceRecordId);
+      if (!source) continue;
+
+      const backlink = grouped.get(link.sourceRecordId) || {
+        recordId: link.sourceRecordId,
+        databaseId: String(source.databaseId),
+        title: getRecordTitle(source.properties),
+        references: [],
+        updatedAt: source.updatedAt || link.updatedAt
+      };
+      backlink.references.push({
+        linkType: link.linkType,
+        blockId: link.blockId,
+        snippet: link.snippet
+      });
+      grouped.set(link.sourceRecordId, backlink);
+    }
+
+    const backlinks = await filterReadable([...grouped.values()], userId);
+    return { recordId, total: backlinks.length, backlinks };
+  } catch (error: any) {
+    if (error.statusCode) throw error;
+    throw createAppError(`Failed to get backlinks: ${error.message}`, 500);
+  }
+};
+
+/**
+ * Links from the content of a record, unresolved wiki references included
+ */
+const getOutgoingLinks = async (
+  databaseId: string,
+  recordId: string,
+  userId: string
+): Promise<IRecordOutgoingLink[]> => {
+  try {
+    await getAccessibleRecord(databaseId, recordId, userId);
+
+    const links = await RecordLinkModel.find({ sourceRecordId: recordId }).lean();
+    return links.map(link => ({
+      linkType: link.linkType,
+      targetType: link.targetType,
+      targetId: link.targetId,
+      targetTitle: link.targetTitle,
+      isResolved: !!link.targetId,
+      blockId: link.blockId,
+      snippet: link.snippet
+    }));
+  } catch (error: any) {
+    if (error.statusCode) throw error;
+    throw createAppError(`Failed to get record links: ${error.message}`, 500);
+  }
+};
+
+/**
+ * Records of the workspace naming a record in their text without linking to it. Candidates
+ * come from the search index and are confirmed by a whole-phrase match of the title.
+ */
+const getUnlinkedMentions = async (
+  databaseId: string,
+  recordId: string,
+  userId: string
+): Promise<IUnlinkedMention[]> => {
+  try {
+    const record = await getAccessibleRecord(databaseId, recordId, userId);
+    const title = getRecordTitle(record.properties);
+    const terms = textAnalysisUtils.getTerms(title);
+    const workspaceId = await getWorkspaceId(databaseId);
+    if (!title || terms.length === 0 || !workspaceId) return [];
+
+    const [candidates, linked] = await Promise.all([
+      SearchIndexModel.find({
+        entityType: ESearchResultType.RECORD,
+        workspaceId,
+        terms: { $all: terms },
+        entityId: { $ne: recordId }
+      })
+        .select('entityId databaseId recordTitle fields.content')
+        .limit(MAX_UNLINKED_CANDIDATES)
+        .lean(),
+      RecordLinkModel.distinct('sourceRecordId', {
+        targetType: ERecordLinkTargetType.RECORD,
+        targetId: recordId
+      })
+    ]);
+
+    const linkedIds = new Set(linked.map(String));
+    const phrase = normalizeTitle(title).split(' ').map(escapeRegex).join('\\s+');
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${phrase}(?![\\p{L}\\p{N}])`, 'giu');
+
+    const mentions: IUnlinkedMention[] = [];
+    for (const candidate of candidates) {
+      if (linkedIds.has(candidate.entityId)) continue;
+
+      const content = candidate.fields?.content || '';
+      const snippets = [...content.matchAll(pattern)]
+        .slice(0, MAX_UNLINKED_SNIPPETS)
+        .map(match => buildSnippet(content, match.index!, match.index! + match[0].length));
+      if (snippets.length === 0) continue;
+
+      mentions.push({
+        recordId: candidate.entityId,
+        databaseId: candidate.databaseId || '',
+        title: candidate.recordTitle || '',
+        snippets
+      });
+    }
+
+    return filterReadable(mentions, userId);
+  } catch (error: any) {
+    if (error.statusCode) throw error;
+    throw createAppError(`Failed to get unlinked mentions: ${error.message}`, 500);
+  }
+};
+
+/**
+ * Rebuild the links of every record in a database, for content written before links
+ * were tracked
+ */
+const rebuildDatabaseLinks = async (
+  databaseId: string,
+  userId: string
+): Promise<IRebuildLinksResult> => {
+  try {
+    const database = await DatabaseModel.findById(databaseId).select('_id').lean();
+    if (!database) throw createNotFoundError('Database', databaseId);
+
+    const allowed = await permissionService.hasPermission(
+      EShareScope.DATABASE,
+      databaseId,
+      userId,
+      EPermissionLevel.FULL_ACCESS
+    );
+    if (!allowed) {
+      throw createForbiddenError('Insufficient permissions to rebuild links of this database');
+    }
+
+    const records = await RecordModel.find({ databaseId, isDeleted: { $ne: true } })
+      .select('_id')
+      .lean();
+
+    let linksFound = 0;
+    for (const record of records) {
+      linksFound += await syncRecordLinks(String(record._id), null);
+    }
+
+    return { databaseId, recordsProcessed: records.length, linksFound };
+  } catch (error: any) {
+    if (error.statusCode) throw error;
+    throw createAppError(`Failed to rebuild record links: ${error.message}`, 500);
+  }
+};
+
+/**
+ * Ids of the records linking to each of the given records, only those the user can read
+ */
+const getBacklinkSourceIds = async (
+  recordIds: string[],
+  userId: string
+): Promise<Map<string, string[]>> => {
+  const sources = new Map<string, string[]>(recordIds.map(id => [id, []]));
+  if (recordIds.length === 0) return sources;
+
+  const links = await RecordLinkModel.find({
+    targetType: ERecordLinkTargetType.RECORD,
+    targetId: { $in: recordIds }
+  })
+    .select('targetId sourceRecordId')
+    .lean();
+
+  const sourceIds = [...new Set(links.map(link => link.sourceRecordId))];
+  const existing = await RecordModel.find({ _id: { $in: sourceIds }, isDeleted: { $ne: true } })
+    .select('_id')
+    .lean();
+  const readable = await filterReadable(
+    existing.map(source => ({ recordId: String(source._id) })),
+    userId
+  );
+  const visible = new Set(readable.map(source => source.recordId));
+
+  for (const link of links) {
+    const ids = sources.get(link.targetId!);
+    if (ids && visible.has(link.sourceRecordId) && !ids.includes(link.sourceRecordId)) {
+      ids.push(link.sourceRecordId);
+    }
+  }
+
+  return sources;
+};
+
+export const recordLinksService = {
+  syncRecordLinks,
+  getBacklinks,
+  getOutgoingLinks,
+  getUnlinkedMentions,
+  rebuildDatabaseLinks,
+  getBacklinkSourceIds
+};
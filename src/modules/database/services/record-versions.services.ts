@@ -0,0 +1,386 @@
+import { ObjectId } from 'mongodb';
+import { RecordModel } from '@/modules/database/models/record.model';
+import { PropertyModel } from '@/modules/database/models/property.model';
+import { formatRecordResponse } from '@/modules/database/services/records.services';
+import { permissionService } from '@/modules/permissions/services/permission.service';
+import { formulaIntegrationService } from '@/modules/formulas/services/formula-integration.service';
+import { VersionHistoryModel } from '@/modules/system/models/version-history.model';
+import {
+  IRecordAtVersion,
+  IRecordState,
+  IRecordVersionEntry,
+  IRecordVersionDiff,
+  IRestoreRecordVersionRequest,
+  IRestoreRecordVersionResult
+} from '../types/records.types';
+import {
+  applyRecordChanges,
+  CONTENT_FIELD,
+  getRecordState,
+  IRecordChange,
+  isSameValue,
+  RECORD_ENTITY_TYPE,
+  toPropertyField
+} from '../utils/record-history.utils';
+import { IRecordContent } from '@/modules/core/types/record.types';
+import { EPropertyType } from '@/modules/core/types/property.types';
+import { EShareScope, EPermissionLevel } from '@/modules/core/types/permission.types';
+import {
+  createAppError,
+  createBadRequestError,
+  createForbiddenError,
+  createNotFoundError
+} from '@/utils/error.utils';
+
+// Values of these properties are computed, restoring them would be overwritten anyway
+const COMPUTED_PROPERTY_TYPES = [
+  EPropertyType.FORMULA,
+  EPropertyType.ROLLUP,
+  EPropertyType.LOOKUP,
+  EPropertyType.CREATED_TIME,
+  EPropertyType.CREATED_BY,
+  EPropertyType.LAST_EDITED_TIME,
+  EPropertyType.LAST_EDITED_BY
+];
+
+interface IVersionEntry {
+  version: number;
+  changes: IRecordChange[];
+  userId: string;
+  userName: string;
+  timestamp: Date;
+  snapshot?: IRecordState;
+  comment?: string;
+}
+
+const getAccessibleRecord = async (
+  databaseId: string,
+  recordId: string,
+  userId: string,
+  level: EPermissionLevel
+) => {
+  if (!ObjectId.isValid(recordId)) throw createNotFoundError('Record', recordId);
+
+  const record = await RecordModel.findOne({ _id: new ObjectId(recordId), databaseId });
+  if (!record) throw createNotFoundError('Record', recordId);
+
+  const allowed = await permissionService.hasPermission(
+    EShareScope.RECORD,
+    recordId,
+    userId,
+    level
+  );
+  if (!allowed) {
+    throw createForbiddenError(
+      level === EPermissionLevel.READ
+        ? 'Insufficient permissions to view the history of this record'
+        : 'Insufficient permissions to restore this record'
+    );
+  }
+
+  return record;
+};
+
+const findVersion = async (recordId: string, version: number): Promise<IVersionEntry> => {
+  const entry = await VersionHistoryModel.findOne({
+    entityId: recordId,
+    entityType: RECORD_ENTITY_TYPE,
+    version
+  }).lean<IVersionEntry>();
+
+  if (!entry) throw createNotFoundError('Record version', String(version));
+  return entry;
+};
+
+/**
+ * State of a record after a version. Versions are replayed forward from the closest
+ * snapshot at or before the version; without one, later versions are undone from the
+ * current state of the record.
+ */
+const buildStateAtVersion = async (
+  recordId: string,
+  version: number,
+  currentState: IRecordState
+): Promise<IRecordState> => {
+  const base = await VersionHistoryModel.findOne({
+    entityId: recordId,
+    entityType: RECORD_ENTITY_TYPE,
+    version: { $lte: version },
+    snapshot: { $exists: true }
+  })
+    .sort({ version: -1 })
+    .lean<IVersionEntry>();
+
+  if (base?.snapshot) {
+    const later = await VersionHistoryModel.find({
+      entityId: recordId,
+      entityType: RECORD_ENTITY_TYPE,
+      version: { $gt: base.version, $lte: version }
+    })
+      .sort({ version: 1 })
+      .lean<IVersionEntry[]>();
+
+    return later.reduce(
+      (state, entry) => applyRecordChanges(state, entry.changes, 'forward'),
+      getRecordState(base.snapshot)
+    );
+  }
+
+  const later = await VersionHistoryModel.find({
+    entityId: recordId,
+    entityType: RECORD_ENTITY_TYPE,
+    version: { $gt: version }
+  })
+    .sort({ version: -1 })
+    .lean<IVersionEntry[]>();
+
+  return later.reduce(
+    (state, entry) => applyRecordChanges(state, entry.changes, 'backward'),
+    currentState
+  );
+};
+
+export const getRecordVersions = async (
+  databaseId: string,
+  recordId: string,
+  userId: string
+): Promise<IRecordVersionEntry[]> => {
+  try {
+    await getAccessibleRecord(databaseId, recordId, userId, EPermissionLevel.READ);
+
+    const entries = await VersionHistoryModel.find({
+      entityId: recordId,
+      entityType: RECORD_ENTITY_TYPE
+    })
+      .select('-snapshot')
+      .sort({ version: -1 })
+      .lean<IVersionEntry[]>();
+
+    return entries.map(entry => ({
+      version: entry.version,
+      changedFields: entry.changes.map(change => change.field),
+      userId: entry.userId,
+      userName: entry.userName,
+      timestamp: entry.timestamp,
+      comment: entry.comment
+    }));
+  } catch (error: any) {
+    if (error.statusCode) throw error;
+    throw createAppError(`Failed to get record versions: ${error.message}`, 500);
+  }
+};
+
+export const getRecordAtVersion = async (
+  databaseId: string,
+  recordId: string,
+  version: number,
+  userId: string
+): Promise<IRecordAtVersion> => {
+  try {
+    const record = await getAccessibleRecord(databaseId, recordId, userId, EPermissionLevel.READ);
+    const entry = await findVersion(recordId, version);
+    const state = await buildStateAtVersion(recordId, version, getRecordState(record.toObject()));
+
+    return {
+      recordId,
+      databaseId,
+      version,
+      userId: entry.userId,
+      userName: entry.userName,
+      timestamp: entry.timestamp,
+      ...state
+    };
+  } catch (error: any) {
+    if (error.statusCode) throw error;
+    throw createAppError(`Failed to get record version: ${error.message}`, 500);
+  }
+};
+
+// Content blocks are matched by block id, so edits, additions, removals and moves are
+// reported per block
+const diffContent = (
+  from: IRecordContent[],
+  to: IRecordContent[]
+): IRecordVersionDiff['content'] => {
+  const fromIndex = new Map(from.map((block, index) => [block.id, index]));
+  const toIds = new Set(to.map(block => block.id));
+  const diff: IRecordVersionDiff['content'] = { added: [], removed: [], changed: [], moved: [] };
+
+  from.forEach(block => {
+    if (!toIds.has(block.id)) diff.removed.push(block);
+  });
+
+  // Blocks that stayed keep their relative order unless they moved
+  const keptFrom = from.filter(block => toIds.has(block.id)).map(block => block.id);
+  const keptTo = to.filter(block => fromIndex.has(block.id)).map(block => block.id);
+
+  to.forEach((block, index) => {
+    const previousIndex = fromIndex.get(block.id);
+    if (previousIndex === undefined) {
+      diff.added.push(block);
+      return;
+    }
+
+    const previous = from[previousIndex];
+    if (!isSameValue({ ...previous, order: undefined }, { ...block, order: undefined })) {
+      diff.changed.push({ id: block.id, from: previous, to: block });
+    }
+    if (keptFrom.indexOf(block.id) !== keptTo.indexOf(block.id)) {
+      diff.moved.push({ id: block.id, fromIndex: previousIndex, toIndex: index });
+    }
+  });
+
+  return diff;
+};
+
+export const diffRecordVersions = async (
+  databaseId: string,
+  recordId: string,
+  fromVersion: number,
+  toVersion: number,
+  userId: string
+): Promise<IRecordVersionDiff> => {
+  try {
+    const record = await getAccessibleRecord(databaseId, recordId, userId, EPermissionLevel.READ);
+    await Promise.all([findVersion(recordId, fromVersion), findVersion(recordId, toVersion)]);
+
+    const currentState = getRecordState(record.toObject());
+    const [from, to] = await Promise.all([
+      buildStateAtVersion(recordId, fromVersion, currentState),
+      buildStateAtVersion(recordId, toVersion, currentState)
+    ]);
+
+    const properties: IRecordVersionDiff['properties'] = { added: [], removed: [], changed: [] };
+    const names = new Set([...Object.keys(from.properties), ...Object.keys(to.properties)]);
+
+    for (const name of names) {
+      const before = from.properties[name];
+      const after = to.properties[name];
+      if (isSameValue(before, after)) continue;
+
+      if (before === undefined) {
+        properties.added.push({ name, value: after });
+      } else if (after === undefined) {
+        properties.removed.push({ name, value: before });
+      } else {
+        properties.changed.push({ name, from: before, to: after });
+      }
+    }
+
+    const content = diffContent(from.content, to.content);
+
+    return {
+      recordId,
+      fromVersion,
+      toVersion,
+      hasChanges:
+        Object.values(properties).some(list => list.length > 0) ||
+        Object.values(content).some(list => list.length > 0),
+      properties,
+      content
+    };
+  } catch (error: any) {
+    if (error.statusCode) throw error;
+    throw createAppError(`Failed to compare record versions: ${error.message}`, 500);
+  }
+};
+
+/**
+ * Restore the whole record or selected fields to their state after a version. The
+ * restore is written as a new version, so it can be undone like any other edit.
+ */
+export const restoreRecordVersion = async (
+  databaseId: string,
+  recordId: string,
+  version: number,
+  data: IRestoreRecordVersionRequest,
+  userId: string
+): Promise<IRestoreRecordVersionResult> => {
+  try {
+    const record = await getAccessibleRecord(databaseId, recordId, userId, EPermissionLevel.EDIT);
+    await findVersion(recordId, version);
+
+    const currentState = getRecordState(record.toObject());
+    const target = await buildStateAtVersion(recordId, version, currentState);
+
+    const databaseProperties = await PropertyModel.find({ databaseId }).select('name type').lean();
+    const restorable = new Set(
+      databaseProperties
+        .filter(property => !COMPUTED_PROPERTY_TYPES.includes(property.type as EPropertyType))
+        .map(property => property.name)
+    );
+
+    const fields = data.fields?.length ? [...new Set(data.fields)] : [...restorable, CONTENT_FIELD];
+    const invalid = fields.filter(field => field !== CONTENT_FIELD && !restorable.has(field));
+    if (invalid.length > 0) {
+      throw createBadRequestError(`Fields cannot be restored: ${invalid.join(', ')}`);
+    }
+
+    const $set: Record<string, unknown> = {};
+    const $unset: Record<string, 1> = {};
+    const restoredFields: string[] = [];
+
+    for (const field of fields) {
+      if (field === CONTENT_FIELD) {
+        if (isSameValue(currentState.content, target.content)) continue;
+        $set.content = target.content;
+      } else {
+        const value = target.properties[field];
+        if (isSameValue(currentState.properties[field], value)) continue;
+
+        if (value === undefined) {
+          $unset[toPropertyField(field)] = 1;
+        } else {
+          $set[toPropertyField(field)] = value;
+        }
+      }
+      restoredFields.push(field);
+    }
+
+    if (restoredFields.length === 0) {
+      return { record: formatRecordResponse(record), restoredFrom: version, restoredFields };
+    }
+
+    const updated = await RecordModel.findOneAndUpdate(
+      { _id: record._id },
+      {
+        $set: { ...$set, lastEditedBy: userId, lastEditedAt: new Date(), updatedBy: userId },
+        ...(Object.keys($unset).length > 0 ? { $unset } : {})
+      },
+      { new: true, versionComment: `Restored from version ${version}` }
+    );
+    if (!updated) throw createNotFoundError('Record', recordId);
+
+    const changedProperties = restoredFields.filter(field => field !== CONTENT_FIELD);
+    if (changedProperties.length > 0) {
+      await formulaIntegrationService.propagateChanges(
+        [
+          {
+            databaseId,
+            recordId,
+            properties: changedProperties,
+            previousValues: currentState.properties
+          }
+        ],
+        userId
+      );
+    }
+
+    const refreshed = await RecordModel.findById(recordId);
+    return {
+      record: formatRecordResponse(refreshed || updated),
+      restoredFrom: version,
+      restoredFields
+    };
+  } catch (error: any) {
+    if (error.statusCode) throw error;
+    throw createAppError(`Failed to restore record version: ${error.message}`, 500);
+  }
+};
+
+export const recordVersionsService = {
+  getRecordVersions,
+  getRecordAtVersion,
+  diffRecordVersions,
+  restoreRecordVersion
+};
@@ -10,6 +10,9 @@ import {
   IRollupConfig,
   ERollupFunction
 } from '@/modules/database/services/rollup.service';
+import { formulaIntegrationService } from '@/modules/formulas/services/formula-integration.service';
+import { searchIndexService } from '@/modules/search/services/search-index.service';
+import { filesService } from '@/modules/files/services/files.service';
 import {
   IDatabaseRecord,
   ICreateRecordRequest,
@@ -71,9 +74,8 @@ export const createRecord = async (
     userId
   );
 
-  await updateRollupProperties(record.id.toString());
-
-  await rollupService.updateDependentRollups(record.id.toString());
+  // Every computed property of a new record, and whatever depends on its relations, is due
+  await formulaIntegrationService.recalculateRecordFormulas(record.id.toString(), [], userId);
 
   return formatRecordResponse(record);
 };
@@ -225,6 +227,21 @@ export const updateRecord = async (
 
   await RecordModel.updateOne({ _id: new ObjectId(recordId) }, { $set: updateData });
 
+  const previousProperties = record.properties || {};
+  const changedProperties = Object.keys(updateData.properties || {}).filter(
+    name =>
+      JSON.stringify(updateData.properties![name] ?? null) !==
+      JSON.stringify(previousProperties[name] ?? null)
+  );
+
+  // Only the cells downstream of the changed properties are recalculated
+  if (changedProperties.length > 0) {
+    await formulaIntegrationService.propagateChanges(
+      [{ databaseId, recordId, properties: changedProperties, previousValues: previousProperties }],
+      userId
+    );
+  }
+
   return getRecordById(databaseId, recordId, userId);
 };
 
@@ -279,9 +296,12 @@ export const deleteRecord = async (
 
   if (permanent) {
     await RecordModel.deleteOne({ _id: new ObjectId(recordId) });
+    await filesService.deleteAttachments({ recordIds: [recordId] });
   } else {
     await record.softDelete(userId);
   }
+
+  await searchIndexService.removeRecord(recordId);
 };
 
 export const bulkDeleteRecords = async (
@@ -11,6 +11,7 @@ import { RecordModel } from '../models/record.model';
 import { DatabaseModel } from '../models/database.model';
 import { EPropertyType, IRelationValue } from '@/modules/core/types/property.types';
 import { createAppError, createNotFoundError } from '@/utils';
+import { formulaIntegrationService } from '@/modules/formulas/services/formula-integration.service';
 
 export interface ICreateRelationRequest {
   sourcePropertyId: string;
@@ -324,6 +325,7 @@ export const relationService = {
       relation.id.toString()
     );
     await relationService.updatePropertyRelationConfig(targetPropertyId, relation.id.toString());
+    formulaIntegrationService.invalidateDependencyGraph();
 
     return relation.toObject() as IRelation;
   },
@@ -379,6 +381,12 @@ export const relationService = {
 
     // Update record properties with relation values
     await relationService.updateRecordRelationProperties(relation, connection);
+    await relationService.propagateConnectionChange(
+      relation,
+      data.sourceRecordId,
+      data.targetRecordId,
+      userId
+    );
 
     return connection.toObject() as IRelationConnection;
   },
@@ -387,7 +395,8 @@ export const relationService = {
   removeConnection: async (
     relationId: string,
     sourceRecordId: string,
-    targetRecordId: string
+    targetRecordId: string,
+    userId: string
   ): Promise<void> => {
     const connection = await RelationConnectionModel.findConnection(
       relationId,
@@ -419,9 +428,41 @@ export const relationService = {
           sourceRecordId
         );
       }
+
+      await relationService.propagateConnectionChange(
+        relation,
+        sourceRecordId,
+        targetRecordId,
+        userId
+      );
     }
   },
 
+  // Recalculate what depends on the relation on both connected records, a removed
+  // connection no longer leads from one record to the other
+  propagateConnectionChange: async (
+    relation: IRelation,
+    sourceRecordId: string,
+    targetRecordId: string,
+    userId: string
+  ) => {
+    const [sourceProperty, targetProperty] = await Promise.all([
+      PropertyModel.findById(relation.sourcePropertyId),
+      PropertyModel.findById(relation.targetPropertyId)
+    ]);
+
+    const changes = [
+      { property: sourceProperty, recordId: sourceRecordId },
+      { property: targetProperty, recordId: targetRecordId }
+    ].flatMap(({ property, recordId }) =>
+      property
+        ? [{ databaseId: property.databaseId.toString(), recordId, properties: [property.name] }]
+        : []
+    );
+
+    await formulaIntegrationService.propagateChanges(changes, userId);
+  },
+
   // Get related records for a record
   getRelatedRecords: async (
     recordId: string,
@@ -508,5 +549,6 @@ export const relationService = {
 
     // Clean up record properties
     await relationService.cleanupRelationProperties(relation);
+    formulaIntegrationService.invalidateDependencyGraph();
   }
 };
@@ -347,44 +347,15 @@ const getEmptyRollupValue = (func: ERollupFunction): any => {
   }
 };
 
-const updateDependentRollups = async (recordId: string): Promise<void> => {
-  // Find all rollup properties that might depend on this record
-  const rollupProperties = await PropertyModel.find({
-    type: EPropertyType.ROLLUP,
-    isDeleted: { $ne: true }
-  });
-
-  for (const rollupProperty of rollupProperties) {
-    if (rollupProperty.config.rollupPropertyId && rollupProperty.config.relationPropertyId) {
-      // Find records that have this rollup property and might be affected
-      const affectedRecords = await findRecordsAffectedByChange(
-        recordId,
-        rollupProperty.config.relationPropertyId
-      );
-
-      // Update rollup values for affected records
-      for (const affectedRecord of affectedRecords) {
-        const rollupValue = await calculateRollupValue(
-          affectedRecord._id.toString(),
-          rollupProperty.config as IRollupConfig
-        );
-
-        // Update the record with new rollup value
-        await RecordModel.findByIdAndUpdate(affectedRecord._id, {
-          $set: {
-            [`properties.${rollupProperty.name}`]: rollupValue,
-            lastEditedAt: new Date()
-          }
-        });
-      }
-    }
+// Records on the side of the relation property that are connected to any of the given records
+const findRecordsRelatedTo = async (
+  relationPropertyId: string,
+  relatedRecordIds: string[]
+): Promise<string[]> => {
+  if (relatedRecordIds.length === 0) {
+    return [];
   }
-};
 
-const findRecordsAffectedByChange = async (
-  changedRecordId: string,
-  relationPropertyId: string
-): Promise<any[]> => {
   // Get relations for this property
   const relations = await RelationModel.findByProperty(relationPropertyId);
   if (relations.length === 0) {
@@ -392,25 +363,17 @@ const findRecordsAffectedByChange = async (
   }
 
   const relation = relations[0];
+  const isSource = relation.sourcePropertyId === relationPropertyId;
 
-  // Find connections where the changed record is the target
   const connections = await RelationConnectionModel.find({
     relationId: relation.id.toString(),
-    targetRecordId: changedRecordId,
+    [isSource ? 'targetRecordId' : 'sourceRecordId']: { $in: relatedRecordIds },
     isActive: true
   });
 
-  // Get source records (these are the ones with rollup properties that need updating)
-  const sourceRecordIds = connections.map(conn => conn.sourceRecordId);
-
-  if (sourceRecordIds.length === 0) {
-    return [];
-  }
-
-  return RecordModel.find({
-    _id: { $in: sourceRecordIds },
-    isDeleted: { $ne: true }
-  }).exec();
+  return Array.from(
+    new Set(connections.map(conn => (isSource ? conn.sourceRecordId : conn.targetRecordId)))
+  );
 };
 
 const recalculateAllRollups = async (databaseId: string): Promise<void> => {
@@ -450,6 +413,6 @@ const recalculateAllRollups = async (databaseId: string): Promise<void> => {
 
 export const rollupService = {
   calculateRollupValue,
-  updateDependentRollups,
+  findRecordsRelatedTo,
   recalculateAllRollups
 };
@@ -11,14 +11,34 @@ import {
   EFilterOperator,
   ESortDirection,
   IViewFilter,
-  IViewSort
+  IViewSort,
+  IViewChartAxis,
+  IViewChartData,
+  IViewChartPoint,
+  IViewChartSeries
 } from '../types/views.types';
 import {
   ISortConfig,
   IFilterCondition,
-  EFilterOperator as CoreEFilterOperator
+  EFilterOperator as CoreEFilterOperator,
+  EChartAggregate,
+  EChartDateBucket,
+  EChartType,
+  IChartConfig
 } from '@/modules/core/types/view.types';
-import { EPropertyType } from '@/modules/core/types/property.types';
+import { EPropertyType, IProperty } from '@/modules/core/types/property.types';
+import { RecordModel } from '../models/record.model';
+import {
+  buildChartPipeline,
+  DATE_PROPERTY_TYPES,
+  formatDateBucket,
+  IChartField,
+  IChartPipelineResult,
+  NUMERIC_PROPERTY_TYPES
+} from '../utils/chart.utils';
+import { getOptionLabel } from '../utils/export.utils';
+import { relationService } from './relation.service';
+import { isValidTimeZone } from '@/modules/permissions/utils/permission-conditions.utils';
 import { createAppError } from '@/utils/error.utils';
 import { generateId } from '@/utils/id-generator';
 import { createNotFoundError } from '@/utils';
@@ -167,7 +187,8 @@ const formatViewResponse = (view: TViewDocument): IDatabaseView => {
             property: view.config.group.propertyId,
             direction: ESortDirection.ASCENDING
           }
-        : undefined
+        : undefined,
+      chart: view.config?.chart
     },
     createdAt: view.createdAt,
     updatedAt: view.updatedAt,
@@ -189,6 +210,8 @@ const createView = async (
 
   if (!database) throw createAppError('Database not found or access denied', 404);
 
+  if (data.settings?.chart) await resolveChartConfig(data.settings.chart, databaseId, userId);
+
   const viewCount = await ViewModel.countDocuments({ databaseId });
   const order = viewCount;
 
@@ -210,7 +233,8 @@ const createView = async (
       visibleProperties: data.settings?.visibleProperties || [],
       hiddenProperties: data.settings?.hiddenProperties || [],
       frozenColumns: data.settings?.frozenColumns || [],
-      columns: []
+      columns: [],
+      chart: data.settings?.chart
     },
     sorts:
       data.settings?.sorts?.map(sort => ({
@@ -379,6 +403,11 @@ const updateView = async (
       view.config.frozenColumns = data.settings.frozenColumns;
     }
 
+    if (data.settings.chart !== undefined) {
+      await resolveChartConfig(data.settings.chart, databaseId, userId);
+      view.config.chart = data.settings.chart;
+    }
+
     if (data.settings.sorts !== undefined) {
       view.sorts = data.settings.sorts.map(sort => ({
         propertyId: sort.property,
@@ -841,6 +870,254 @@ const updateViewScrollWidth = async (
   return formatViewResponse(view);
 };
 
+// Resolve a chart property, `created_at` and `updated_at` chart the record timestamps
+const resolveChartAxis = (
+  propertyId: string,
+  propertyMap: Map<string, IProperty>,
+  dateBucket?: EChartDateBucket
+): { axis: IViewChartAxis; field: IChartField; property?: IProperty } => {
+  const timestamps: Record<string, { path: string; name: string; type: EPropertyType }> = {
+    created_at: { path: 'createdAt', name: 'Created time', type: EPropertyType.CREATED_TIME },
+    updated_at: {
+      path: 'updatedAt',
+      name: 'Last edited time',
+      type: EPropertyType.LAST_EDITED_TIME
+    }
+  };
+
+  const property = propertyMap.get(propertyId);
+  const resolved =
+    timestamps[propertyId] ||
+    (property && { path: `properties.${property.name}`, name: property.name, type: property.type });
+
+  if (!resolved) throw createAppError(`Chart property ${propertyId} not found`, 400);
+
+  const isDate = DATE_PROPERTY_TYPES.includes(resolved.type);
+  return {
+    axis: {
+      propertyId,
+      name: resolved.name,
+      type: resolved.type,
+      ...(isDate ? { dateBucket: dateBucket || EChartDateBucket.MONTH } : {})
+    },
+    field: { path: resolved.path, isDate },
+    property
+  };
+};
+
+const resolveChartConfig = async (chart: IChartConfig, databaseId: string, userId: string) => {
+  const { propertiesService } = await import('./properties.services');
+  const properties = await propertiesService.getProperties(databaseId, userId, true);
+  const propertyMap = new Map(properties.map(p => [p.id, p]));
+
+  if (chart.chartType !== EChartType.NUMBER && !chart.xAxisPropertyId) {
+    throw createAppError('Chart needs an x-axis property', 400);
+  }
+  if (chart.aggregate !== EChartAggregate.COUNT && !chart.valuePropertyId) {
+    throw createAppError(`Chart needs a property to ${chart.aggregate}`, 400);
+  }
+
+  const timezone = chart.timezone || 'UTC';
+  if (!isValidTimeZone(timezone)) throw createAppError(`Unknown timezone ${timezone}`, 400);
+
+  const charted = chart.chartType !== EChartType.NUMBER;
+  const xAxis =
+    charted && chart.xAxisPropertyId
+      ? resolveChartAxis(chart.xAxisPropertyId, propertyMap, chart.dateBucket)
+      : undefined;
+  const groupBy =
+    charted && chart.groupByPropertyId
+      ? resolveChartAxis(chart.groupByPropertyId, propertyMap, chart.dateBucket)
+      : undefined;
+
+  let value: ReturnType<typeof resolveChartAxis> | undefined;
+  if (chart.aggregate !== EChartAggregate.COUNT && chart.valuePropertyId) {
+    value = resolveChartAxis(chart.valuePropertyId, propertyMap);
+    if (!NUMERIC_PROPERTY_TYPES.includes(value.axis.type)) {
+      throw createAppError(
+        `Cannot ${chart.aggregate} property ${value.axis.name}, it is not a number, formula or rollup`,
+        400
+      );
+    }
+  }
+
+  return { xAxis, groupBy, value, timezone };
+};
+
+// Update the chart configuration of a chart view
+const updateViewChart = async (
+  databaseId: string,
+  viewId: string,
+  chart: IChartConfig,
+  userId: string
+): Promise<IDatabaseView> => {
+  const view = await ViewModel.findOne({
+    _id: viewId,
+    databaseId
+  });
+
+  if (!view) {
+    throw createNotFoundError('View not found');
+  }
+
+  if (convertToEViewType(view.type) !== EViewType.CHART) {
+    throw createAppError('Only chart views have a chart configuration', 400);
+  }
+
+  await resolveChartConfig(chart, databaseId, userId);
+
+  view.config.chart = chart;
+  view.updatedBy = userId;
+
+  await view.save();
+  return formatViewResponse(view);
+};
+
+const OPTION_PROPERTY_TYPES = [
+  EPropertyType.SELECT,
+  EPropertyType.STATUS,
+  EPropertyType.PRIORITY,
+  EPropertyType.MULTI_SELECT
+];
+
+// Buckets of select properties are keyed by option id or value and those of relations by
+// record id, they are shown by the option label and the title of the related record
+const getBucketLabels = async (
+  property: IProperty | undefined,
+  keys: unknown[]
+): Promise<Map<string, string>> => {
+  const values = Array.from(
+    new Set(keys.filter(key => key !== null && key !== undefined).map(String))
+  );
+
+  if (property && OPTION_PROPERTY_TYPES.includes(property.type)) {
+    return new Map(values.map(key => [key, getOptionLabel(key, property.config?.options)]));
+  }
+
+  if (property?.type === EPropertyType.RELATION) {
+    const recordIds = values.filter(key => Types.ObjectId.isValid(key));
+    const related = recordIds.length
+      ? await RecordModel.find({ _id: { $in: recordIds } })
+          .select('properties')
+          .lean()
+      : [];
+    return new Map(
+      related.map(record => [String(record._id), relationService.getDisplayValue(record)])
+    );
+  }
+
+  return new Map();
+};
+
+const bucketKey = (
+  key: unknown,
+  axis: IViewChartAxis | undefined,
+  timezone: string,
+  labels: Map<string, string>
+): Pick<IViewChartPoint, 'key' | 'label'> => {
+  if (key === null || key === undefined) return { key: null, label: 'Empty' };
+
+  if (key instanceof Date) {
+    return {
+      key: key.toISOString(),
+      label: formatDateBucket(key, axis?.dateBucket || EChartDateBucket.MONTH, timezone)
+    };
+  }
+
+  if (typeof key === 'number' || typeof key === 'boolean') return { key, label: String(key) };
+  return { key: String(key), label: labels.get(String(key)) ?? String(key) };
+};
+
+// Aggregate the records matching the filters of a chart view into chart series
+const getViewChartData = async (
+  databaseId: string,
+  viewId: string,
+  userId: string
+): Promise<IViewChartData> => {
+  const view = await getViewById(databaseId, viewId, userId);
+
+  if (view.type !== EViewType.CHART) {
+    throw createAppError('View is not a chart view', 400);
+  }
+
+  const chart = view.settings.chart;
+  if (!chart) {
+    throw createAppError('Chart view is not configured', 400);
+  }
+
+  const { xAxis, groupBy, value, timezone } = await resolveChartConfig(chart, databaseId, userId);
+  const filterQuery = await buildFilterQuery(view.settings.filters, databaseId, userId);
+
+  const [result] = await RecordModel.aggregate<IChartPipelineResult>(
+    buildChartPipeline({
+      match: { ...filterQuery, databaseId, isDeleted: { $ne: true } },
+      aggregate: chart.aggregate,
+      xAxis: xAxis?.field,
+      groupBy: groupBy?.field,
+      valuePath: value?.field.path,
+      dateBucket: chart.dateBucket || EChartDateBucket.MONTH,
+      timezone
+    })
+  );
+
+  const summary = result?.summary[0];
+  const points = result?.points || [];
+
+  const categories = new Map<string, Pick<IViewChartPoint, 'key' | 'label'>>();
+  const seriesKeys = new Map<string, Pick<IViewChartPoint, 'key' | 'label'>>();
+  const cells = new Map<string, { value: number | null; count: number }>();
+
+  const xLabels = await getBucketLabels(
+    xAxis?.property,
+    points.map(point => point._id.x)
+  );
+  const groupLabels = await getBucketLabels(
+    groupBy?.property,
+    points.map(point => point._id.g)
+  );
+
+  for (const point of points) {
+    const x = bucketKey(point._id.x, xAxis?.axis, timezone, xLabels);
+    const g = bucketKey(point._id.g, groupBy?.axis, timezone, groupLabels);
+    categories.set(String(x.key), x);
+    seriesKeys.set(String(g.key), g);
+    cells.set(`${String(x.key)}|${String(g.key)}`, { value: point.value, count: point.count });
+  }
+
+  // Buckets without records are 0 for additive aggregates and have no value otherwise
+  const additive = [EChartAggregate.COUNT, EChartAggregate.SUM].includes(chart.aggregate);
+  const aggregateLabel =
+    chart.aggregate === EChartAggregate.COUNT
+      ? 'Count'
+      : `${chart.aggregate.charAt(0).toUpperCase()}${chart.aggregate.slice(1)} of ${value?.axis.name}`;
+
+  const series: IViewChartSeries[] = [...seriesKeys.values()].map(group => ({
+    key: group.key,
+    label: groupBy ? group.label : aggregateLabel,
+    data: [...categories.values()].map(category => {
+      const cell = cells.get(`${String(category.key)}|${String(group.key)}`);
+      return {
+        ...category,
+        value: cell ? cell.value : additive ? 0 : null,
+        count: cell?.count || 0
+      };
+    })
+  }));
+
+  return {
+    viewId: view.id,
+    chartType: chart.chartType,
+    aggregate: chart.aggregate,
+    xAxis: xAxis?.axis,
+    groupBy: groupBy?.axis,
+    value: value?.axis,
+    categories: [...categories.values()],
+    series,
+    total: summary ? summary.value : additive ? 0 : null,
+    recordCount: summary?.count || 0
+  };
+};
+
 export const viewsService = {
   updateView,
   updateViewGrouping,
@@ -857,5 +1134,7 @@ export const viewsService = {
   updateViewColumnFreeze,
   buildFilterQuery,
   buildSortQuery,
-  buildGroupQuery
+  buildGroupQuery,
+  updateViewChart,
+  getViewChartData
 };
@@ -1,5 +1,6 @@
 import { IBaseEntity, TId, TUserId, TWorkspaceId } from '@/modules/core/types/common.types';
 import { EDatabaseType } from '@/modules/core/types/database.types';
+import { EPropertyType, IPropertyOption } from '@/modules/core/types/property.types';
 import { IDatabaseProperty as IProperty } from './properties.types';
 import { IDatabaseView as IView } from './views.types';
 
@@ -139,3 +140,115 @@ export interface IDatabaseQueryParams {
   page?: number;
   limit?: number;
 }
+
+export type TDatabaseExportFormat = 'json' | 'csv' | 'xlsx';
+
+export interface IDatabaseExportOptions {
+  format?: TDatabaseExportFormat;
+  includeProperties?: boolean;
+  includeViews?: boolean;
+  includeRecords?: boolean;
+  includeTemplates?: boolean;
+  viewId?: string;
+  dateFormat?: 'iso' | 'locale';
+  locale?: string;
+  timeZone?: string;
+}
+
+export interface ITabularExportOptions {
+  format: 'csv' | 'xlsx';
+}
+
+export type TExportCellValue = string | number | boolean | null;
+
+export interface IDatabaseExportFile {
+  fileName: string;
+  mimeType: string;
+  content: Buffer;
+  rowCount: number;
+}
+
+export type TImportFileFormat = 'csv' | 'xlsx';
+
+export type TImportCellValue = string | number | boolean | Date | null;
+
+export interface IParsedImportFile {
+  format: TImportFileFormat;
+  headers: string[];
+  rows: TImportCellValue[][];
+  firstDataRowNumber: number;
+}
+
+export interface IImportColumnPreview {
+  columnIndex: number;
+  header: string;
+  inferredType: EPropertyType;
+  options?: IPropertyOption[];
+  includeTime?: boolean;
+  dayFirst?: boolean;
+  sampleValues: TImportCellValue[];
+  emptyCount: number;
+  suggestedPropertyId?: string;
+  suggestedPropertyName?: string;
+}
+
+export interface IImportPreview {
+  fileName: string;
+  format: TImportFileFormat;
+  rowCount: number;
+  headers: string[];
+  sampleRows: TImportCellValue[][];
+  columns: IImportColumnPreview[];
+  databaseId?: string;
+}
+
+// The subset of an uploaded multer file the importer reads
+export interface IImportUploadFile {
+  buffer: Buffer;
+  originalname: string;
+  mimetype?: string;
+}
+
+export interface IImportFileParseOptions {
+  sheetName?: string;
+  delimiter?: string;
+  hasHeader?: boolean;
+}
+
+export interface IImportColumnMapping {
+  columnIndex: number;
+  skip?: boolean;
+  // Map onto an existing property of the target database
+  propertyId?: string;
+  // Or create a new property
+  propertyName?: string;
+  type?: EPropertyType;
+  options?: IPropertyOption[];
+  dayFirst?: boolean;
+}
+
+export interface IImportFileRequest extends IImportFileParseOptions {
+  databaseId?: string;
+  workspaceId?: string;
+  name?: string;
+  type?: EDatabaseType;
+  description?: string;
+  columns: IImportColumnMapping[];
+  createMissingOptions?: boolean;
+  skipInvalidRows?: boolean;
+}
+
+export interface IImportRowError {
+  row: number;
+  field?: string;
+  error: string;
+}
+
+export interface IImportFileResult {
+  database: IDatabase;
+  totalProcessed: number;
+  createdCount: number;
+  failedCount: number;
+  createdProperties: string[];
+  errors: IImportRowError[];
+}
@@ -0,0 +1,84 @@
+// How a record refers to another record or database
+export enum ERecordLinkType {
+  MENTION = 'mention',
+  URL = 'url',
+  WIKI = 'wiki'
+}
+
+export enum ERecordLinkTargetType {
+  RECORD = 'record',
+  DATABASE = 'database'
+}
+
+// A reference found in the content of a record, before it is resolved
+export interface IExtractedRecordLink {
+  linkType: ERecordLinkType;
+  targetType: ERecordLinkTargetType;
+  // Id of the target, unset for wiki references which are resolved by title
+  targetId?: string;
+  // Title of a wiki reference as written, e.g. `Roadmap` for `[[Roadmap]]`
+  targetTitle?: string;
+  blockId: string;
+  snippet: string;
+}
+
+export interface IRecordLink {
+  id: string;
+  workspaceId: string;
+  sourceRecordId: string;
+  sourceDatabaseId: string;
+  linkType: ERecordLinkType;
+  targetType: ERecordLinkTargetType;
+  // Unset while a wiki reference does not match any record title
+  targetId?: string;
+  targetTitle?: string;
+  normalizedTitle?: string;
+  blockId: string;
+  snippet: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IBacklinkReference {
+  linkType: ERecordLinkType;
+  blockId: string;
+  snippet: string;
+}
+
+export interface IBacklink {
+  recordId: string;
+  databaseId: string;
+  title: string;
+  references: IBacklinkReference[];
+  updatedAt: Date;
+}
+
+export interface IRecordBacklinks {
+  recordId: string;
+  total: number;
+  backlinks: IBacklink[];
+}
+
+export interface IRecordOutgoingLink {
+  linkType: ERecordLinkType;
+  targetType: ERecordLinkTargetType;
+  targetId?: string;
+  targetTitle?: string;
+  isResolved: boolean;
+  blockId: string;
+  snippet: string;
+}
+
+// A record that names another record in its text without linking to it
+export interface IUnlinkedMention {
+  recordId: string;
+  databaseId: string;
+  title: string;
+  snippets: string[];
+}
+
+export interface IRebuildLinksResult {
+  databaseId: string;
+  recordsProcessed: number;
+  linksFound: number;
+}
@@ -1,4 +1,4 @@
-import { IRecord, IRichText } from '@/modules/core/types/record.types';
+import { IRecord, IRecordContent, IRichText } from '@/modules/core/types/record.types';
 
 export interface IDatabaseRecord extends IRecord {
   databaseId: string;
@@ -272,3 +272,56 @@ export interface IRecordComment {
     userName: string;
   }>;
 }
+
+// Record version history
+export interface IRecordState {
+  properties: Record<string, any>;
+  content: IRecordContent[];
+}
+
+export interface IRecordVersionEntry {
+  version: number;
+  changedFields: string[];
+  userId: string;
+  userName: string;
+  timestamp: Date;
+  comment?: string;
+}
+
+export interface IRecordAtVersion extends IRecordState {
+  recordId: string;
+  databaseId: string;
+  version: number;
+  userId: string;
+  userName: string;
+  timestamp: Date;
+}
+
+export interface IRecordVersionDiff {
+  recordId: string;
+  fromVersion: number;
+  toVersion: number;
+  hasChanges: boolean;
+  properties: {
+    added: Array<{ name: string; value: any }>;
+    removed: Array<{ name: string; value: any }>;
+    changed: Array<{ name: string; from: any; to: any }>;
+  };
+  content: {
+    added: IRecordContent[];
+    removed: IRecordContent[];
+    changed: Array<{ id: string; from: IRecordContent; to: IRecordContent }>;
+    moved: Array<{ id: string; fromIndex: number; toIndex: number }>;
+  };
+}
+
+// Fields are property names, `content` restores the content blocks
+export interface IRestoreRecordVersionRequest {
+  fields?: string[];
+}
+
+export interface IRestoreRecordVersionResult {
+  record: IDatabaseRecord;
+  restoredFrom: number;
+  restoredFields: string[];
+}
@@ -1,3 +1,11 @@
+import {
+  EChartAggregate,
+  EChartDateBucket,
+  EChartType,
+  IChartConfig
+} from '@/modules/core/types/view.types';
+import { EPropertyType } from '@/modules/core/types/property.types';
+
 export enum EViewType {
   TABLE = 'TABLE',
   BOARD = 'BOARD',
@@ -91,6 +99,9 @@ export interface IViewSettings {
   ganttStartProperty?: string;
   ganttEndProperty?: string;
   ganttDependencyProperty?: string;
+
+  // Chart view specific
+  chart?: IChartConfig;
 }
 
 export interface IDatabaseView {
@@ -195,3 +206,38 @@ export interface IViewImportOptions {
   skipInvalidRecords: boolean;
   mapping?: Record<string, string>; // source field -> target property
 }
+
+// Chart view data
+export interface IViewChartAxis {
+  propertyId: string;
+  name: string;
+  type: EPropertyType;
+  dateBucket?: EChartDateBucket;
+}
+
+export interface IViewChartPoint {
+  key: string | number | boolean | null;
+  label: string;
+  value: number | null;
+  count: number;
+}
+
+export interface IViewChartSeries {
+  key: string | number | boolean | null;
+  label: string;
+  data: IViewChartPoint[];
+}
+
+export interface IViewChartData {
+  viewId: string;
+  chartType: EChartType;
+  aggregate: EChartAggregate;
+  xAxis?: IViewChartAxis;
+  groupBy?: IViewChartAxis;
+  value?: IViewChartAxis;
+  categories: Array<Pick<IViewChartPoint, 'key' | 'label'>>;
+  series: IViewChartSeries[];
+  // Aggregate over all matching records, the value of a number chart
+  total: number | null;
+  recordCount: number;
+}
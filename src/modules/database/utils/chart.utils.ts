@@ -0,0 +1,188 @@
+import { PipelineStage } from 'mongoose';
+import { EChartAggregate, EChartDateBucket } from '@/modules/core/types/view.types';
+import { EPropertyType } from '@/modules/core/types/property.types';
+
+/**
+ * Aggregation pipelines of chart views. Records are bucketed by the x-axis and group-by
+ * values and the aggregate runs in MongoDB, so a chart never loads the records.
+ */
+
+export const MAX_CHART_POINTS = 1000;
+
+export const DATE_PROPERTY_TYPES = [
+  EPropertyType.DATE,
+  EPropertyType.DATE_RANGE,
+  EPropertyType.CREATED_TIME,
+  EPropertyType.LAST_EDITED_TIME
+];
+
+export const NUMERIC_PROPERTY_TYPES = [
+  EPropertyType.NUMBER,
+  EPropertyType.CURRENCY,
+  EPropertyType.PERCENT,
+  EPropertyType.FORMULA,
+  EPropertyType.ROLLUP
+];
+
+export interface IChartField {
+  // Path of the value in a record, e.g. `properties.Status` or `createdAt`
+  path: string;
+  isDate: boolean;
+}
+
+export interface IChartPipelineOptions {
+  match: Record<string, unknown>;
+  aggregate: EChartAggregate;
+  xAxis?: IChartField;
+  groupBy?: IChartField;
+  valuePath?: string;
+  dateBucket: EChartDateBucket;
+  timezone: string;
+}
+
+export interface IChartPipelineResult {
+  points: Array<{ _id: { x: unknown; g: unknown }; value: number | null; count: number }>;
+  summary: Array<{ value: number | null; count: number }>;
+}
+
+// Date ranges are bucketed by their start
+const dateExpression = (path: string, bucket: EChartDateBucket, timezone: string) => ({
+  $dateTrunc: {
+    date: {
+      $convert: {
+        input: { $ifNull: [`$${path}.start`, `$${path}`] },
+        to: 'date',
+        onError: null,
+        onNull: null
+      }
+    },
+    unit: bucket,
+    timezone,
+    startOfWeek: 'monday'
+  }
+});
+
+// Rollups are stored with their computed value, formulas and numbers as the number
+const numericExpression = (path: string) => ({
+  $convert: {
+    input: { $ifNull: [`$${path}.value`, `$${path}`] },
+    to: 'double',
+    onError: null,
+    onNull: null
+  }
+});
+
+const fieldExpression = (field: IChartField, bucket: EChartDateBucket, timezone: string) =>
+  field.isDate ? dateExpression(field.path, bucket, timezone) : `$${field.path}`;
+
+// Relations are bucketed by the related record, select options and people by their label.
+// Plain option ids and record ids are labelled once the buckets are read.
+const labelExpression = (field: string) => ({
+  $ifNull: [
+    {
+      $cond: [
+        { $eq: [{ $type: field }, 'object'] },
+        {
+          $ifNull: [
+            `${field}.recordId`,
+            `${field}.label`,
+            `${field}.name`,
+            `${field}.displayValue`,
+            `${field}.value`,
+            null
+          ]
+        },
+        field
+      ]
+    },
+    null
+  ]
+});
+
+const accumulatorFor = (aggregate: EChartAggregate): Record<string, unknown> => {
+  switch (aggregate) {
+    case EChartAggregate.SUM:
+      return { $sum: '$v' };
+    case EChartAggregate.AVG:
+      return { $avg: '$v' };
+    case EChartAggregate.MIN:
+      return { $min: '$v' };
+    case EChartAggregate.MAX:
+      return { $max: '$v' };
+    case EChartAggregate.MEDIAN:
+      return { $median: { input: '$v', method: 'approximate' } };
+    default:
+      return { $sum: 1 };
+  }
+};
+
+/**
+ * Pipeline returning one point per x-axis and group-by bucket, and a summary over all
+ * matching records. A record with several values (multi-select, relations) counts in
+ * the bucket of each value, the summary counts it once.
+ */
+export const buildChartPipeline = (options: IChartPipelineOptions): PipelineStage[] => {
+  const { xAxis, groupBy, dateBucket, timezone } = options;
+  const value = options.valuePath ? numericExpression(options.valuePath) : { $literal: null };
+  const accumulator = accumulatorFor(options.aggregate);
+
+  const facet: Record<string, unknown[]> = {
+    summary: [
+      { $project: { _id: 0, v: value } },
+      { $group: { _id: null, value: accumulator, count: { $sum: 1 } } }
+    ]
+  };
+
+  if (xAxis || groupBy) {
+    facet.points = [
+      {
+        $project: {
+          _id: 0,
+          x: xAxis ? fieldExpression(xAxis, dateBucket, timezone) : { $literal: null },
+          g: groupBy ? fieldExpression(groupBy, dateBucket, timezone) : { $literal: null },
+          v: value
+        }
+      },
+      { $unwind: { path: '$x', preserveNullAndEmptyArrays: true } },
+      { $unwind: { path: '$g', preserveNullAndEmptyArrays: true } },
+      {
+        $group: {
+          _id: { x: labelExpression('$x'), g: labelExpression('$g') },
+          value: accumulator,
+          count: { $sum: 1 }
+        }
+      },
+      { $sort: { '_id.x': 1, '_id.g': 1 } },
+      { $limit: MAX_CHART_POINTS }
+    ];
+  }
+
+  return [{ $match: options.match }, { $facet: facet }] as PipelineStage[];
+};
+
+/**
+ * Label of a date bucket in the timezone of the chart, e.g. `2024-03-18` for a day or
+ * the first day of a week, `2024-03` for a month and `2024-Q1` for a quarter
+ */
+export const formatDateBucket = (
+  date: Date,
+  bucket: EChartDateBucket,
+  timeZone: string
+): string => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).formatToParts(date);
+  const part = (type: string) => parts.find(p => p.type === type)?.value || '';
+
+  switch (bucket) {
+    case EChartDateBucket.MONTH:
+      return `${part('year')}-${part('month')}`;
+    case EChartDateBucket.QUARTER:
+      return `${part('year')}-Q${Math.ceil(Number(part('month')) / 3)}`;
+    default:
+      return `${part('year')}-${part('month')}-${part('day')}`;
+  }
+};
@@ -0,0 +1,340 @@
+import ExcelJS from 'exceljs';
+import { EPropertyType, IProperty, IPropertyOption } from '@/modules/core/types/property.types';
+import { IView } from '@/modules/core/types/view.types';
+import {
+  IDatabaseExportFile,
+  ITabularExportOptions,
+  TExportCellValue
+} from '../types/database.types';
+
+export interface IExportValueContext {
+  relationTitles: Map<string, string>;
+  dateFormat: 'iso' | 'locale';
+  locale: string;
+  timeZone: string;
+}
+
+export interface IExportRecordMeta {
+  createdAt?: Date;
+  updatedAt?: Date;
+  createdBy?: string;
+  lastEditedBy?: string;
+  updatedBy?: string;
+}
+
+const MIME_TYPES = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+} as const;
+
+const getPropertyId = (property: IProperty): string => String(property.id);
+
+// Order columns the way the view shows them: explicit column config first, then the
+// visible-properties list, then any remaining non-hidden property by its schema order
+export const getExportColumns = (properties: IProperty[], view?: IView | null): IProperty[] => {
+  const byOrder = [...properties].sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+  if (!view?.config) return byOrder;
+
+  const propertyById = new Map(byOrder.map(p => [getPropertyId(p), p]));
+  const hidden = new Set((view.config.hiddenProperties || []).map(String));
+
+  const columns = [...(view.config.columns || [])].sort((a, b) => a.order - b.order);
+  if (columns.length > 0) {
+    return columns
+      .filter(column => column.isVisible !== false && !hidden.has(String(column.propertyId)))
+      .map(column => propertyById.get(String(column.propertyId)))
+      .filter((property): property is IProperty => Boolean(property));
+  }
+
+  const ordered: IProperty[] = [];
+  const seen = new Set<string>();
+  for (const propertyId of view.config.visibleProperties || []) {
+    const property = propertyById.get(String(propertyId));
+    if (property && !hidden.has(getPropertyId(property)) && !seen.has(getPropertyId(property))) {
+      ordered.push(property);
+      seen.add(getPropertyId(property));
+    }
+  }
+
+  for (const property of byOrder) {
+    const id = getPropertyId(property);
+    if (!seen.has(id) && !hidden.has(id)) ordered.push(property);
+  }
+
+  return ordered;
+};
+
+// Records are keyed by property name, older records may still be keyed by property id
+export const getRawPropertyValue = (
+  recordProperties: Record<string, unknown> | undefined,
+  property: IProperty
+): unknown => {
+  if (!recordProperties) return undefined;
+  if (recordProperties[property.name] !== undefined) return recordProperties[property.name];
+  return recordProperties[getPropertyId(property)];
+};
+
+export const getRelationRecordId = (value: unknown): string | null => {
+  if (!value) return null;
+  if (typeof value === 'string') return value;
+  if (typeof value === 'object' && 'recordId' in value) {
+    return String((value as { recordId: unknown }).recordId);
+  }
+  return null;
+};
+
+export const collectRelationRecordIds = (
+  records: Array<{ properties?: Record<string, unknown> }>,
+  properties: IProperty[]
+): string[] => {
+  const ids = new Set<string>();
+  const relationProperties = properties.filter(p => p.type === EPropertyType.RELATION);
+
+  for (const record of records) {
+    for (const property of relationProperties) {
+      const value = getRawPropertyValue(record.properties, property);
+      const values = Array.isArray(value) ? value : [value];
+      for (const item of values) {
+        const id = getRelationRecordId(item);
+        if (id) ids.add(id);
+      }
+    }
+  }
+
+  return Array.from(ids);
+};
+
+export const formatExportDate = (
+  value: unknown,
+  includeTime: boolean,
+  context: IExportValueContext
+): string => {
+  const date = value instanceof Date ? value : new Date(String(value));
+  if (isNaN(date.getTime())) return String(value);
+
+  if (context.dateFormat === 'iso') {
+    return includeTime ? date.toISOString() : date.toISOString().slice(0, 10);
+  }
+
+  return new Intl.DateTimeFormat(context.locale, {
+    dateStyle: 'medium',
+    ...(includeTime ? { timeStyle: 'short' } : {}),
+    timeZone: context.timeZone
+  }).format(date);
+};
+
+export const getOptionLabel = (value: unknown, options: IPropertyOption[] | undefined): string => {
+  if (value && typeof value === 'object') {
+    const option = value as Partial<IPropertyOption>;
+    return String(option.label ?? option.value ?? option.id ?? '');
+  }
+
+  const match = options?.find(opt => opt.id === value || opt.value === value);
+  return match ? match.label : String(value);
+};
+
+const flattenScalar = (value: unknown, context: IExportValueContext): TExportCellValue => {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return formatExportDate(value, true, context);
+  if (typeof value === 'number' || typeof value === 'boolean') return value;
+  if (Array.isArray(value)) {
+    return value
+      .map(item => flattenScalar(item, context))
+      .filter(item => item !== null && item !== '')
+      .join(', ');
+  }
+  if (typeof value === 'object') {
+    const objectValue = value as Record<string, unknown>;
+    if ('label' in objectValue) return String(objectValue.label);
+    if ('displayValue' in objectValue) return String(objectValue.displayValue);
+    if ('name' in objectValue) return String(objectValue.name);
+    if ('earliest' in objectValue && 'latest' in objectValue) {
+      return `${formatExportDate(objectValue.earliest, false, context)} → ${formatExportDate(
+        objectValue.latest,
+        false,
+        context
+      )}`;
+    }
+    return JSON.stringify(value);
+  }
+  return String(value);
+};
+
+// Flatten a stored property value into a single spreadsheet cell
+export const flattenPropertyValue = (
+  value: unknown,
+  property: IProperty,
+  context: IExportValueContext,
+  meta: IExportRecordMeta = {}
+): TExportCellValue => {
+  switch (property.type) {
+    case EPropertyType.CREATED_TIME:
+      return meta.createdAt ? formatExportDate(meta.createdAt, true, context) : null;
+    case EPropertyType.LAST_EDITED_TIME:
+      return meta.updatedAt ? formatExportDate(meta.updatedAt, true, context) : null;
+    case EPropertyType.CREATED_BY:
+      return meta.createdBy ? String(meta.createdBy) : null;
+    case EPropertyType.LAST_EDITED_BY: {
+      const editor = meta.lastEditedBy || meta.updatedBy;
+      return editor ? String(editor) : null;
+    }
+  }
+
+  if (value === null || value === undefined || value === '') return null;
+
+  switch (property.type) {
+    case EPropertyType.NUMBER:
+    case EPropertyType.CURRENCY:
+    case EPropertyType.PERCENT: {
+      const numeric = typeof value === 'number' ? value : Number(value);
+      return isNaN(numeric) ? String(value) : numeric;
+    }
+
+    case EPropertyType.CHECKBOX:
+      return value === true || value === 'true';
+
+    case EPropertyType.DATE:
+      return formatExportDate(value, Boolean(property.config?.includeTime), context);
+
+    case EPropertyType.DATE_RANGE: {
+      if (typeof value === 'object' && value !== null && 'start' in value) {
+        const range = value as { start?: unknown; end?: unknown };
+        const includeTime = Boolean(property.config?.includeTime);
+        const start = range.start ? formatExportDate(range.start, includeTime, context) : '';
+        const end = range.end ? formatExportDate(range.end, includeTime, context) : '';
+        return end ? `${start} → ${end}` : start;
+      }
+      return formatExportDate(value, Boolean(property.config?.includeTime), context);
+    }
+
+    case EPropertyType.SELECT:
+    case EPropertyType.STATUS:
+    case EPropertyType.PRIORITY:
+      return getOptionLabel(value, property.config?.options);
+
+    case EPropertyType.MULTI_SELECT: {
+      const items = Array.isArray(value) ? value : [value];
+      return items.map(item => getOptionLabel(item, property.config?.options)).join(', ');
+    }
+
+    case EPropertyType.RELATION: {
+      const items = Array.isArray(value) ? value : [value];
+      return items
+        .map(item => {
+          const recordId = getRelationRecordId(item);
+          if (recordId && context.relationTitles.has(recordId)) {
+            return context.relationTitles.get(recordId);
+          }
+          if (item && typeof item === 'object' && 'displayValue' in item) {
+            return String((item as { displayValue: unknown }).displayValue);
+          }
+          return recordId;
+        })
+        .filter(Boolean)
+        .join(', ');
+    }
+
+    case EPropertyType.FILE:
+    case EPropertyType.FILES: {
+      const items = Array.isArray(value) ? value : [value];
+      return items
+        .map(item => {
+          if (!item || typeof item !== 'object') return String(item ?? '');
+          const file = item as { url?: unknown; name?: unknown };
+          return String(file.url ?? file.name ?? '');
+        })
+        .filter(Boolean)
+        .join(', ');
+    }
+
+    case EPropertyType.ROLLUP:
+    case EPropertyType.FORMULA:
+    case EPropertyType.LOOKUP: {
+      const computed =
+        value && typeof value === 'object' && !Array.isArray(value) && 'computedAt' in value
+          ? (value as { value?: unknown }).value
+          : value;
+      return flattenScalar(computed, context);
+    }
+
+    default:
+      return flattenScalar(value, context);
+  }
+};
+
+// Spreadsheet apps evaluate text starting with these as a formula
+const FORMULA_TRIGGER = /^[=+\-@\t\r]/;
+
+// Text cells that look like a formula are quoted so they are shown, not evaluated. Numbers
+// and booleans are typed values and stay as they are.
+const neutralizeCell = (value: TExportCellValue): TExportCellValue =>
+  typeof value === 'string' && FORMULA_TRIGGER.test(value) ? `'${value}` : value;
+
+const escapeCsvCell = (value: TExportCellValue): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(neutralizeCell(value));
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// RFC 4180 CSV with a BOM so spreadsheet apps detect UTF-8
+export const toCsv = (header: string[], rows: TExportCellValue[][]): Buffer => {
+  const lines = [header, ...rows].map(row => row.map(escapeCsvCell).join(','));
+  return Buffer.from(`\uFEFF${lines.join('\r\n')}\r\n`, 'utf8');
+};
+
+export const toXlsx = async (
+  sheetName: string,
+  header: string[],
+  rows: TExportCellValue[][]
+): Promise<Buffer> => {
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date();
+
+  // Sheet names are limited to 31 characters and cannot contain []:*?/\
+  const safeName = sheetName.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Sheet1';
+  const worksheet = workbook.addWorksheet(safeName, {
+    views: [{ state: 'frozen', ySplit: 1 }]
+  });
+
+  worksheet.addRow(header.map(neutralizeCell));
+  worksheet.getRow(1).font = { bold: true };
+  rows.forEach(row => worksheet.addRow(row.map(neutralizeCell)));
+
+  worksheet.columns.forEach((column, index) => {
+    const longest = [header[index], ...rows.map(row => row[index])].reduce<number>(
+      (max, cell) => Math.max(max, cell === null || cell === undefined ? 0 : String(cell).length),
+      0
+    );
+    column.width = Math.min(Math.max(longest + 2, 10), 60);
+  });
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+};
+
+export const buildExportFileName = (name: string, format: 'csv' | 'xlsx'): string => {
+  const base = name
+    .trim()
+    .replace(/[^\w\s.-]/g, '')
+    .replace(/\s+/g, '-')
+    .toLowerCase();
+  const date = new Date().toISOString().slice(0, 10);
+  return `${base || 'database'}-${date}.${format}`;
+};
+
+export const buildTabularExport = async (
+  name: string,
+  columns: IProperty[],
+  rows: TExportCellValue[][],
+  options: ITabularExportOptions
+): Promise<IDatabaseExportFile> => {
+  const header = columns.map(column => column.name);
+  const content =
+    options.format === 'xlsx' ? await toXlsx(name, header, rows) : toCsv(header, rows);
+
+  return {
+    fileName: buildExportFileName(name, options.format),
+    mimeType: MIME_TYPES[options.format],
+    content,
+    rowCount: rows.length
+  };
+};
@@ -0,0 +1,435 @@
+import ExcelJS from 'exceljs';
+import { EPropertyType, IPropertyOption } from '@/modules/core/types/property.types';
+import { createPropertyOption } from '@/modules/core/utils/property.utils';
+import { createBadRequestError } from '@/utils/error.utils';
+import {
+  IImportColumnPreview,
+  IImportUploadFile,
+  IParsedImportFile,
+  TImportCellValue,
+  TImportFileFormat
+} from '../types/database.types';
+
+const BOOLEAN_TRUE = ['true', 'yes', 'y', '1', 'x', '✓', '✔', 'checked', 'done'];
+const BOOLEAN_FALSE = ['false', 'no', 'n', '0', '', '✗', '✘', 'unchecked'];
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const URL_PATTERN = /^(https?:\/\/|www\.)[^\s]+$/i;
+const NUMBER_PATTERN = /^[-+]?[$€£¥]?\s?[-+]?(\d{1,3}(,\d{3})+|\d+)(\.\d+)?\s?%?$/;
+const ISO_DATE_PATTERN =
+  /^\d{4}-\d{2}-\d{2}([T\s]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+const NUMERIC_DATE_PATTERN =
+  /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})(\s+\d{1,2}:\d{2}(:\d{2})?\s*([ap]m)?)?$/i;
+const TIME_PATTERN = /\d{1,2}:\d{2}/;
+const MULTI_VALUE_SEPARATOR = /\s*[,;]\s*/;
+
+const MAX_SELECT_OPTIONS = 25;
+const PREVIEW_SAMPLE_SIZE = 5;
+
+export const detectImportFormat = (fileName: string, mimeType?: string): TImportFileFormat => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'xlsx' || mimeType?.includes('spreadsheetml')) return 'xlsx';
+  if (extension === 'csv' || extension === 'tsv' || mimeType?.startsWith('text/')) return 'csv';
+  throw createBadRequestError('Only CSV and XLSX files can be imported');
+};
+
+const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const candidates = [',', ';', '\t'];
+  return candidates.reduce(
+    (best, candidate) =>
+      firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best,
+    ','
+  );
+};
+
+// RFC 4180 parser with quoted fields, escaped quotes and embedded newlines
+export const parseCsv = (text: string, delimiter?: string): string[][] => {
+  const source = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const separator = delimiter || detectDelimiter(source);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (source[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === separator) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) throw createBadRequestError('CSV file has an unterminated quoted field');
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+};
+
+const normalizeXlsxCell = (value: ExcelJS.CellValue): TImportCellValue => {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return value;
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return value;
+  }
+  if (typeof value === 'object') {
+    if ('richText' in value) return value.richText.map(part => part.text).join('');
+    if ('hyperlink' in value) return String(value.text || value.hyperlink);
+    if ('result' in value) return normalizeXlsxCell(value.result as ExcelJS.CellValue);
+    if ('error' in value) return null;
+  }
+  return String(value);
+};
+
+export const parseXlsx = async (
+  buffer: Buffer,
+  sheetName?: string
+): Promise<TImportCellValue[][]> => {
+  const workbook = new ExcelJS.Workbook();
+  try {
+    await workbook.xlsx.load(buffer as unknown as ExcelJS.Buffer);
+  } catch {
+    throw createBadRequestError('The uploaded file is not a valid XLSX workbook');
+  }
+
+  const worksheet = sheetName ? workbook.getWorksheet(sheetName) : workbook.worksheets[0];
+  if (!worksheet) {
+    throw createBadRequestError(
+      sheetName ? `Sheet "${sheetName}" not found in workbook` : 'Workbook has no sheets'
+    );
+  }
+
+  const rows: TImportCellValue[][] = [];
+  worksheet.eachRow({ includeEmpty: false }, row => {
+    const cells: TImportCellValue[] = [];
+    for (let column = 1; column <= worksheet.columnCount; column++) {
+      cells.push(normalizeXlsxCell(row.getCell(column).value));
+    }
+    rows.push(cells);
+  });
+
+  return rows;
+};
+
+export const parseImportFile = async (
+  file: IImportUploadFile,
+  options: { sheetName?: string; delimiter?: string; hasHeader?: boolean } = {}
+): Promise<IParsedImportFile> => {
+  const format = detectImportFormat(file.originalname, file.mimetype);
+  const rows: TImportCellValue[][] =
+    format === 'xlsx'
+      ? await parseXlsx(file.buffer, options.sheetName)
+      : parseCsv(file.buffer.toString('utf8'), options.delimiter);
+
+  if (rows.length === 0) throw createBadRequestError('The uploaded file contains no rows');
+
+  const width = Math.max(...rows.map(row => row.length));
+  const hasHeader = options.hasHeader !== false;
+  const headerRow = hasHeader ? rows[0] : [];
+  const used = new Map<string, number>();
+
+  // Blank and duplicate headers get a stable, unique fallback name
+  const headers = Array.from({ length: width }, (_, index) => {
+    const raw = headerRow[index];
+    const base =
+      raw === null || raw === undefined || String(raw).trim() === ''
+        ? `Column ${index + 1}`
+        : String(raw).trim();
+    const count = used.get(base.toLowerCase()) || 0;
+    used.set(base.toLowerCase(), count + 1);
+    return count === 0 ? base : `${base} (${count + 1})`;
+  });
+
+  const dataRows = (hasHeader ? rows.slice(1) : rows).map(row =>
+    Array.from({ length: width }, (_, index) => row[index] ?? null)
+  );
+
+  return {
+    format,
+    headers,
+    rows: dataRows,
+    firstDataRowNumber: hasHeader ? 2 : 1
+  };
+};
+
+const isEmptyCell = (value: TImportCellValue): boolean =>
+  value === null || (typeof value === 'string' && value.trim() === '');
+
+export const parseBooleanCell = (value: TImportCellValue): boolean | null => {
+  if (typeof value === 'boolean') return value;
+  const text = String(value ?? '')
+    .trim()
+    .toLowerCase();
+  if (BOOLEAN_TRUE.includes(text)) return true;
+  if (BOOLEAN_FALSE.includes(text)) return false;
+  return null;
+};
+
+export const parseNumberCell = (value: TImportCellValue): number | null => {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string' || !NUMBER_PATTERN.test(value.trim())) return null;
+  const numeric = Number(value.replace(/[$€£¥,%\s]/g, ''));
+  return isNaN(numeric) ? null : numeric;
+};
+
+export const parseDateCell = (value: TImportCellValue, dayFirst = false): Date | null => {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  if (typeof value !== 'string') return null;
+  const text = value.trim();
+
+  if (ISO_DATE_PATTERN.test(text)) {
+    const date = new Date(text.length === 10 ? `${text}T00:00:00Z` : text);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  const numeric = NUMERIC_DATE_PATTERN.exec(text);
+  if (numeric) {
+    const [, first, second, rawYear] = numeric;
+    const year = rawYear.length === 2 ? 2000 + Number(rawYear) : Number(rawYear);
+    const month = Number(dayFirst ? second : first);
+    const day = Number(dayFirst ? first : second);
+    if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+    const time = TIME_PATTERN.exec(
+      text.slice(numeric[1].length + numeric[2].length + rawYear.length)
+    );
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (time) {
+      const [hours, minutes] = time[0].split(':').map(Number);
+      const isPm = /pm$/i.test(text) && hours < 12;
+      date.setUTCHours(isPm ? hours + 12 : hours, minutes);
+    }
+    return date.getUTCDate() === day ? date : null;
+  }
+
+  // Month names ("Jan 5, 2024", "5 March 2024") fall back to the native parser
+  if (/[a-z]{3,}/i.test(text) && /\d{4}/.test(text)) {
+    const date = new Date(text);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  return null;
+};
+
+const hasTimeComponent = (value: TImportCellValue): boolean => {
+  if (value instanceof Date) {
+    return value.getUTCHours() !== 0 || value.getUTCMinutes() !== 0;
+  }
+  return typeof value === 'string' && TIME_PATTERN.test(value);
+};
+
+// Numeric dates are month-first unless a value can only be read day-first
+export const detectDayFirst = (values: TImportCellValue[]): boolean =>
+  values.some(value => {
+    if (typeof value !== 'string') return false;
+    const match = NUMERIC_DATE_PATTERN.exec(value.trim());
+    return Boolean(match && Number(match[1]) > 12 && Number(match[2]) <= 12);
+  });
+
+const collectOptions = (values: string[]): IPropertyOption[] => {
+  const seen = new Map<string, string>();
+  for (const value of values) {
+    const key = value.toLowerCase();
+    if (!seen.has(key)) seen.set(key, value);
+  }
+  return Array.from(seen.values()).map(value => createPropertyOption(value));
+};
+
+export const inferColumnType = (
+  values: TImportCellValue[]
+): {
+  type: EPropertyType;
+  options?: IPropertyOption[];
+  includeTime?: boolean;
+  dayFirst?: boolean;
+} => {
+  const filled = values.filter(value => !isEmptyCell(value));
+  if (filled.length === 0) return { type: EPropertyType.TEXT };
+
+  const texts = filled.map(value =>
+    value instanceof Date ? value.toISOString() : String(value).trim()
+  );
+
+  if (filled.every(value => typeof value === 'boolean')) return { type: EPropertyType.CHECKBOX };
+
+  // 0/1 columns are more often counts than flags, so require at least one word token
+  const booleanTokens = texts.map(text => text.toLowerCase());
+  if (
+    booleanTokens.every(token => BOOLEAN_TRUE.includes(token) || BOOLEAN_FALSE.includes(token)) &&
+    booleanTokens.some(token => token !== '0' && token !== '1')
+  ) {
+    return { type: EPropertyType.CHECKBOX };
+  }
+
+  if (filled.every(value => parseNumberCell(value) !== null)) return { type: EPropertyType.NUMBER };
+
+  const dayFirst = detectDayFirst(filled);
+  if (filled.every(value => parseDateCell(value, dayFirst) !== null)) {
+    return { type: EPropertyType.DATE, includeTime: filled.some(hasTimeComponent), dayFirst };
+  }
+
+  if (texts.every(text => EMAIL_PATTERN.test(text))) return { type: EPropertyType.EMAIL };
+  if (texts.every(text => URL_PATTERN.test(text))) return { type: EPropertyType.URL };
+
+  const distinct = new Set(texts.map(text => text.toLowerCase()));
+  const isRepetitive = distinct.size <= MAX_SELECT_OPTIONS && distinct.size <= filled.length / 2;
+
+  const parts = texts.flatMap(text => text.split(MULTI_VALUE_SEPARATOR).filter(Boolean));
+  const distinctParts = new Set(parts.map(part => part.toLowerCase()));
+  const hasLists = texts.some(text => MULTI_VALUE_SEPARATOR.test(text));
+  if (
+    hasLists &&
+    distinctParts.size <= MAX_SELECT_OPTIONS &&
+    distinctParts.size < parts.length &&
+    parts.every(part => part.length <= 50)
+  ) {
+    return { type: EPropertyType.MULTI_SELECT, options: collectOptions(parts) };
+  }
+
+  if (isRepetitive && texts.every(text => text.length <= 100)) {
+    return { type: EPropertyType.SELECT, options: collectOptions(texts) };
+  }
+
+  return { type: EPropertyType.TEXT };
+};
+
+export const buildColumnPreviews = (parsed: IParsedImportFile): IImportColumnPreview[] =>
+  parsed.headers.map((header, index) => {
+    const values = parsed.rows.map(row => row[index]);
+    const inferred = inferColumnType(values);
+    const samples = values.filter(value => !isEmptyCell(value)).slice(0, PREVIEW_SAMPLE_SIZE);
+
+    return {
+      columnIndex: index,
+      header,
+      inferredType: inferred.type,
+      ...(inferred.options ? { options: inferred.options } : {}),
+      ...(inferred.includeTime !== undefined ? { includeTime: inferred.includeTime } : {}),
+      ...(inferred.dayFirst !== undefined ? { dayFirst: inferred.dayFirst } : {}),
+      sampleValues: samples,
+      emptyCount: values.filter(isEmptyCell).length
+    };
+  });
+
+const findOption = (value: string, options: IPropertyOption[]): IPropertyOption | undefined => {
+  const key = value.trim().toLowerCase();
+  return options.find(
+    option =>
+      option.label.toLowerCase() === key ||
+      option.value.toLowerCase() === key ||
+      option.id.toLowerCase() === key
+  );
+};
+
+// Convert a raw cell to the stored value of the target property type
+export const coerceCellValue = (
+  value: TImportCellValue,
+  type: EPropertyType,
+  options: { selectOptions?: IPropertyOption[]; dayFirst?: boolean } = {}
+): { value?: unknown; error?: string } => {
+  if (isEmptyCell(value)) return { value: type === EPropertyType.MULTI_SELECT ? [] : null };
+
+  switch (type) {
+    case EPropertyType.TEXT:
+    case EPropertyType.RICH_TEXT:
+    case EPropertyType.PHONE:
+      return { value: value instanceof Date ? value.toISOString() : String(value).trim() };
+
+    case EPropertyType.EMAIL: {
+      const text = String(value).trim();
+      return EMAIL_PATTERN.test(text)
+        ? { value: text }
+        : { error: `"${text}" is not a valid email` };
+    }
+
+    case EPropertyType.URL: {
+      const text = String(value).trim();
+      if (!URL_PATTERN.test(text)) return { error: `"${text}" is not a valid URL` };
+      return { value: text.toLowerCase().startsWith('www.') ? `https://${text}` : text };
+    }
+
+    case EPropertyType.NUMBER:
+    case EPropertyType.CURRENCY:
+    case EPropertyType.PERCENT: {
+      const numeric = parseNumberCell(value);
+      return numeric === null ? { error: `"${value}" is not a number` } : { value: numeric };
+    }
+
+    case EPropertyType.CHECKBOX: {
+      const bool = parseBooleanCell(value);
+      return bool === null ? { error: `"${value}" is not a checkbox value` } : { value: bool };
+    }
+
+    case EPropertyType.DATE: {
+      const date = parseDateCell(value, options.dayFirst);
+      return date ? { value: date.toISOString() } : { error: `"${value}" is not a valid date` };
+    }
+
+    case EPropertyType.SELECT:
+    case EPropertyType.STATUS:
+    case EPropertyType.PRIORITY: {
+      const text = String(value).trim();
+      if (!options.selectOptions) return { value: text };
+      const option = findOption(text, options.selectOptions);
+      return option ? { value: option.value } : { error: `"${text}" is not one of the options` };
+    }
+
+    case EPropertyType.MULTI_SELECT: {
+      const parts = String(value).split(MULTI_VALUE_SEPARATOR).filter(Boolean);
+      if (!options.selectOptions) return { value: parts };
+      const values: string[] = [];
+      for (const part of parts) {
+        const option = findOption(part, options.selectOptions);
+        if (!option) return { error: `"${part}" is not one of the options` };
+        values.push(option.value);
+      }
+      return { value: values };
+    }
+
+    default:
+      return { error: `Importing into ${type} properties is not supported` };
+  }
+};
+
+// Options found in the file but missing from the property, so they can be appended before import
+export const findMissingOptions = (
+  values: TImportCellValue[],
+  type: EPropertyType,
+  existing: IPropertyOption[]
+): IPropertyOption[] => {
+  const tokens = values
+    .filter(value => !isEmptyCell(value))
+    .flatMap(value =>
+      type === EPropertyType.MULTI_SELECT
+        ? String(value).split(MULTI_VALUE_SEPARATOR).filter(Boolean)
+        : [String(value).trim()]
+    );
+
+  return collectOptions(tokens.filter(token => !findOption(token, existing)));
+};
@@ -0,0 +1,204 @@
+import { Document, Model, Schema } from 'mongoose';
+import {
+  CONTENT_FIELD,
+  IStoredRecord,
+  getRecordState,
+  isSameValue,
+  writeRecordVersion
+} from './record-history.utils';
+import { getRecordTitle } from './record-links.utils';
+
+/**
+ * Change hook of records. The state of a record before a change to its properties or
+ * content is read once and handed, with the state after, to its consumers: the version
+ * history is written and the search index refreshed before the write returns, the link
+ * graph is rebuilt in the background.
+ */
+
+const STATE_FIELDS = 'properties content lastEditedBy updatedBy createdBy';
+
+// Flags stored in the search index next to the text of a record
+const INDEX_FIELDS = ['isDeleted', 'isArchived', 'isTemplate', 'autoTags'];
+
+// A failing consumer is logged and never fails the edit itself
+const safely = async (label: string, action: () => Promise<void>): Promise<void> => {
+  try {
+    await action();
+  } catch (error) {
+    console.error(`Failed to update ${label}:`, error);
+  }
+};
+
+const syncLinks = async (recordId: string, previousTitle: string | null): Promise<void> => {
+  const { recordLinksService } = await import('../services/record-links.services');
+  await recordLinksService.syncRecordLinks(recordId, previousTitle);
+};
+
+// A record that is gone or deleted is removed from the index instead
+const indexRecord = (recordId: string): Promise<void> =>
+  safely('search index', async () => {
+    const { searchIndexService } = await import('@/modules/search/services/search-index.service');
+    await searchIndexService.indexRecord(recordId);
+  });
+
+/**
+ * Hand a change of a record to its consumers. `previous` is null for a new record.
+ */
+export const notifyRecordChange = async (
+  previous: IStoredRecord | null,
+  current: IStoredRecord,
+  comment?: string
+): Promise<void> => {
+  const recordId = String(current._id);
+
+  await safely('record version history', () =>
+    writeRecordVersion(current, getRecordState(previous), comment)
+  );
+  await indexRecord(recordId);
+
+  const previousTitle = previous ? getRecordTitle(previous.properties) : null;
+  const linksChanged =
+    !previous ||
+    previousTitle !== getRecordTitle(current.properties) ||
+    !isSameValue(previous.content || [], current.content || []);
+
+  // A rename moves wiki references of other records, so links never hold up the write
+  if (linksChanged) {
+    setImmediate(() => safely('record links', () => syncLinks(recordId, previousTitle)));
+  }
+};
+
+/**
+ * Hand records created in bulk to the consumers, for writes like `insertMany` that skip
+ * the document hooks. Their links are rebuilt one after another in a single background pass.
+ */
+export const notifyRecordsCreated = async (records: IStoredRecord[]): Promise<void> => {
+  for (const record of records) {
+    await safely('record version history', () => writeRecordVersion(record, getRecordState(null)));
+    await indexRecord(String(record._id));
+  }
+
+  setImmediate(async () => {
+    for (const record of records) {
+      await safely('record links', () => syncLinks(String(record._id), null));
+    }
+  });
+};
+
+const isStatePath = (path: string): boolean =>
+  path === 'properties' ||
+  path === CONTENT_FIELD ||
+  path.startsWith('properties.') ||
+  path.startsWith(`${CONTENT_FIELD}.`);
+
+const isIndexPath = (path: string): boolean =>
+  INDEX_FIELDS.some(field => path === field || path.startsWith(`${field}.`));
+
+const touchesPaths = (update: unknown, matches: typeof isStatePath): boolean => {
+  if (!update || typeof update !== 'object') return false;
+  if (Array.isArray(update)) return true;
+
+  return Object.entries(update).some(([key, value]) =>
+    key.startsWith('$')
+      ? !!value && typeof value === 'object' && Object.keys(value).some(matches)
+      : matches(key)
+  );
+};
+
+const pendingUpdates = new WeakMap<object, IStoredRecord>();
+const pendingIndexes = new WeakMap<object, string>();
+
+/**
+ * Schema plugin notifying every save, `updateOne` and `findOneAndUpdate` that changes the
+ * properties or content of a record. Bulk `updateMany` calls only refresh computed rollup
+ * values and are not tracked. The `versionComment` query option (or
+ * `$locals.versionComment` of a document) is stored as the comment of the version.
+ * Changes to the flags of a record only in `INDEX_FIELDS`, like a soft delete or restore,
+ * refresh its search index entry without a version.
+ */
+export const trackRecordChanges = (schema: Schema): void => {
+  schema.pre('save', async function () {
+    this.$locals.changePrevious = undefined;
+    this.$locals.changeIndex = false;
+    if (!this.isNew && !this.isModified('properties') && !this.isModified(CONTENT_FIELD)) {
+      this.$locals.changeIndex = INDEX_FIELDS.some(field => this.isModified(field));
+      return;
+    }
+
+    await safely('record change tracking', async () => {
+      this.$locals.changePrevious = this.isNew
+        ? null
+        : await (this.constructor as Model<IStoredRecord>)
+            .findById(this._id)
+            .select(STATE_FIELDS)
+            .lean();
+    });
+  });
+
+  schema.post('save', async (doc: Document) => {
+    if (doc.$locals.changeIndex) {
+      doc.$locals.changeIndex = false;
+      await indexRecord(String(doc._id));
+      return;
+    }
+
+    const previous = doc.$locals.changePrevious as IStoredRecord | null | undefined;
+    if (previous === undefined) return;
+    doc.$locals.changePrevious = undefined;
+
+    await notifyRecordChange(
+      previous,
+      doc.toObject() as IStoredRecord,
+      doc.$locals.versionComment as string | undefined
+    );
+  });
+
+  schema.pre(['updateOne', 'findOneAndUpdate'], async function () {
+    const update = this.getUpdate();
+
+    if (!touchesPaths(update, isStatePath)) {
+      if (!touchesPaths(update, isIndexPath)) return;
+
+      await safely('record change tracking', async () => {
+        const target = await this.model
+          .findOne(this.getFilter())
+          .select('_id')
+          .lean<IStoredRecord>();
+        if (target) pendingIndexes.set(this, String(target._id));
+      });
+      return;
+    }
+
+    await safely('record change tracking', async () => {
+      const previous = await this.model
+        .findOne(this.getFilter())
+        .select(STATE_FIELDS)
+        .lean<IStoredRecord>();
+      if (previous) pendingUpdates.set(this, previous);
+    });
+  });
+
+  schema.post(['updateOne', 'findOneAndUpdate'], async function () {
+    const recordId = pendingIndexes.get(this);
+    if (recordId) {
+      pendingIndexes.delete(this);
+      await indexRecord(recordId);
+      return;
+    }
+
+    const previous = pendingUpdates.get(this);
+    if (!previous) return;
+    pendingUpdates.delete(this);
+
+    await safely('record change tracking', async () => {
+      const current = await this.model
+        .findById(previous._id)
+        .select(STATE_FIELDS)
+        .lean<IStoredRecord>();
+      if (!current) return;
+
+      const { versionComment } = this.getOptions() as { versionComment?: string };
+      await notifyRecordChange(previous, current, versionComment);
+    });
+  });
+};
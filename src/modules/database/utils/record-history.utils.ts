@@ -0,0 +1,138 @@
+import { createNextVersion } from '@/modules/system/models/version-history.model';
+import { IRecordState } from '../types/records.types';
+
+/**
+ * Version history of records. Every change to the properties or content of a record is
+ * written as a version holding the value of each changed field before and after, so a
+ * past state is rebuilt by replaying versions forward or undoing them backward. A full
+ * snapshot is kept every few versions to bound how many versions are replayed.
+ */
+
+// Kept apart from the 'record' entries the activity log writes, which hold no snapshots
+export const RECORD_ENTITY_TYPE = 'record_history';
+export const CONTENT_FIELD = 'content';
+
+const PROPERTY_FIELD_PREFIX = 'properties.';
+const SNAPSHOT_INTERVAL = 20;
+
+export interface IRecordChange {
+  field: string;
+  oldValue: unknown;
+  newValue: unknown;
+  fieldType: string;
+}
+
+export interface IStoredRecord {
+  _id?: unknown;
+  properties?: Record<string, any>;
+  content?: any[];
+  lastEditedBy?: string;
+  updatedBy?: string;
+  createdBy?: string;
+}
+
+export const toPropertyField = (name: string): string => `${PROPERTY_FIELD_PREFIX}${name}`;
+
+export const isSameValue = (a: unknown, b: unknown): boolean =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+export const getRecordState = (record: IStoredRecord | null | undefined): IRecordState => ({
+  properties: { ...(record?.properties || {}) },
+  content: record?.content ? [...record.content] : []
+});
+
+/**
+ * Field level changes between two states of a record
+ */
+export const diffRecordStates = (
+  previous: IRecordState,
+  current: IRecordState
+): IRecordChange[] => {
+  const changes: IRecordChange[] = [];
+  const names = new Set([...Object.keys(previous.properties), ...Object.keys(current.properties)]);
+
+  for (const name of names) {
+    if (!isSameValue(previous.properties[name], current.properties[name])) {
+      changes.push({
+        field: toPropertyField(name),
+        oldValue: previous.properties[name],
+        newValue: current.properties[name],
+        fieldType: 'property'
+      });
+    }
+  }
+
+  if (!isSameValue(previous.content, current.content)) {
+    changes.push({
+      field: CONTENT_FIELD,
+      oldValue: previous.content,
+      newValue: current.content,
+      fieldType: 'content'
+    });
+  }
+
+  return changes;
+};
+
+/**
+ * Apply the changes of a version to a state, forward to the state after the version or
+ * backward to the state before it. Fields outside properties and content are ignored.
+ */
+export const applyRecordChanges = (
+  state: IRecordState,
+  changes: IRecordChange[],
+  direction: 'forward' | 'backward'
+): IRecordState => {
+  const next: IRecordState = { properties: { ...state.properties }, content: state.content };
+
+  for (const change of changes) {
+    const value = direction === 'forward' ? change.newValue : change.oldValue;
+
+    if (change.field === CONTENT_FIELD) {
+      next.content = Array.isArray(value) ? value : [];
+    } else if (change.field.startsWith(PROPERTY_FIELD_PREFIX)) {
+      const name = change.field.slice(PROPERTY_FIELD_PREFIX.length);
+      if (value === undefined) {
+        delete next.properties[name];
+      } else {
+        next.properties[name] = value;
+      }
+    }
+  }
+
+  return next;
+};
+
+const getUserName = async (userId: string): Promise<string> => {
+  const { UserModel } = await import('@/modules/users/models/users.model');
+  const user = await UserModel.findById(userId).select('firstName lastName email').lean();
+  if (!user) return 'Unknown User';
+
+  return `${user.firstName || ''} ${user.lastName || ''}`.trim() || user.email || 'Unknown User';
+};
+
+/**
+ * Write the changes between a previous state and the stored record as its next version
+ */
+export const writeRecordVersion = async (
+  record: IStoredRecord,
+  previous: IRecordState,
+  comment?: string
+): Promise<void> => {
+  const current = getRecordState(record);
+  const changes = diffRecordStates(previous, current);
+  if (changes.length === 0) return;
+
+  const userId = record.lastEditedBy || record.updatedBy || record.createdBy || 'system';
+  const userName = await getUserName(userId);
+  const timestamp = new Date();
+
+  await createNextVersion(String(record._id), RECORD_ENTITY_TYPE, version => ({
+    changes,
+    userId,
+    userName,
+    timestamp,
+    snapshot: version % SNAPSHOT_INTERVAL === 1 ? current : undefined,
+    comment
+  }));
+};
@@ -0,0 +1,170 @@
+import { IRecordContent, IRichText } from '@/modules/core/types/record.types';
+import { ERecordLinkTargetType, ERecordLinkType, IExtractedRecordLink } from '../types/links.types';
+
+/**
+ * Extraction of the links between records from their content: page and database
+ * mentions, inline links to record URLs and `[[Title]]` wiki references
+ */
+
+export const TITLE_PROPERTIES = ['Title', 'Name'];
+
+const SNIPPET_RADIUS = 60;
+const MAX_LINKS_PER_RECORD = 500;
+
+// `[[Title]]` or `[[Title|shown text]]`
+const WIKI_LINK_PATTERN = /\[\[([^[\]|\n]{1,200})(?:\|[^[\]\n]*)?\]\]/g;
+// Record pages are addressed as `.../records/<id>`, `.../pages/<id>` or `.../notes/<id>`,
+// optionally with a title slug before the id
+const RECORD_URL_PATTERN = /\/(?:records|pages|notes)\/(?:[^/?#\s]*-)?([a-f0-9]{24})(?=[/?#]|$)/i;
+const DATABASE_URL_PATTERN = /\/databases\/([a-f0-9]{24})\/?(?=[?#]|$)/i;
+
+export const normalizeTitle = (title: string): string =>
+  title.trim().replace(/\s+/g, ' ').toLowerCase();
+
+export const getRecordTitle = (properties: Record<string, any> | undefined): string => {
+  const title = TITLE_PROPERTIES.map(name => properties?.[name]).find(
+    value => typeof value === 'string' && value.trim()
+  );
+  return title ? title.trim() : '';
+};
+
+/**
+ * Text around a range of a block, cut at word boundaries where possible
+ */
+export const buildSnippet = (text: string, start: number, end: number): string => {
+  let from = Math.max(start - SNIPPET_RADIUS, 0);
+  let to = Math.min(end + SNIPPET_RADIUS, text.length);
+
+  if (from > 0) {
+    const space = text.indexOf(' ', from);
+    if (space !== -1 && space < start) from = space + 1;
+  }
+  if (to < text.length) {
+    const space = text.lastIndexOf(' ', to);
+    if (space > end) to = space;
+  }
+
+  const snippet = text.slice(from, to).replace(/\s+/g, ' ').trim();
+  return `${from > 0 ? '…' : ''}${snippet}${to < text.length ? '…' : ''}`;
+};
+
+const getItemText = (item: IRichText): string => item.text?.content ?? item.plain_text ?? '';
+
+const parseLinkUrl = (
+  url: string | undefined
+): Pick<IExtractedRecordLink, 'targetType' | 'targetId'> | null => {
+  if (!url) return null;
+
+  const record = url.match(RECORD_URL_PATTERN);
+  if (record) return { targetType: ERecordLinkTargetType.RECORD, targetId: record[1] };
+
+  const database = url.match(DATABASE_URL_PATTERN);
+  if (database) return { targetType: ERecordLinkTargetType.DATABASE, targetId: database[1] };
+
+  return null;
+};
+
+const extractBlockLinks = (block: IRecordContent): IExtractedRecordLink[] => {
+  const items = [...(block.content || []), ...(block.caption || [])];
+  const text = items.map(getItemText).join('');
+  const links: IExtractedRecordLink[] = [];
+
+  let offset = 0;
+  for (const item of items) {
+    const itemText = getItemText(item);
+    const start = offset;
+    const end = offset + itemText.length;
+    offset = end;
+
+    const snippet = () => buildSnippet(text, start, end);
+
+    if (item.type === 'mention' && item.mention) {
+      const { page, database } = item.mention;
+      if (item.mention.type === 'page' && page?.id) {
+        links.push({
+          linkType: ERecordLinkType.MENTION,
+          targetType: ERecordLinkTargetType.RECORD,
+          targetId: String(page.id),
+          blockId: block.id,
+          snippet: snippet()
+        });
+      } else if (item.mention.type === 'database' && database?.id) {
+        links.push({
+          linkType: ERecordLinkType.MENTION,
+          targetType: ERecordLinkTargetType.DATABASE,
+          targetId: String(database.id),
+          blockId: block.id,
+          snippet: snippet()
+        });
+      }
+      continue;
+    }
+
+    const target = parseLinkUrl(item.text?.link?.url || item.href);
+    if (target) {
+      links.push({
+        linkType: ERecordLinkType.URL,
+        ...target,
+        blockId: block.id,
+        snippet: snippet()
+      });
+    }
+  }
+
+  // Bookmarks and embeds carry their URL on the block
+  const blockTarget = parseLinkUrl(block.url);
+  if (blockTarget) {
+    links.push({
+      linkType: ERecordLinkType.URL,
+      ...blockTarget,
+      blockId: block.id,
+      snippet: buildSnippet(text, 0, 0)
+    });
+  }
+
+  for (const match of text.matchAll(WIKI_LINK_PATTERN)) {
+    const title = match[1].trim();
+    if (!title) continue;
+
+    links.push({
+      linkType: ERecordLinkType.WIKI,
+      targetType: ERecordLinkTargetType.RECORD,
+      targetTitle: title,
+      blockId: block.id,
+      snippet: buildSnippet(text, match.index!, match.index! + match[0].length)
+    });
+  }
+
+  return links;
+};
+
+/**
+ * Links found in the content of a record, nested blocks included. A target referenced
+ * several times in the same block is kept once.
+ */
+export const extractRecordLinks = (
+  content: IRecordContent[] | undefined
+): IExtractedRecordLink[] => {
+  const links: IExtractedRecordLink[] = [];
+  const seen = new Set<string>();
+
+  const visit = (blocks: IRecordContent[]) => {
+    for (const block of blocks) {
+      if (!block || links.length >= MAX_LINKS_PER_RECORD) return;
+
+      for (const link of extractBlockLinks(block)) {
+        const target = link.targetId || normalizeTitle(link.targetTitle || '');
+        const key = `${block.id}:${link.linkType}:${link.targetType}:${target}`;
+        if (seen.has(key)) continue;
+
+        seen.add(key);
+        links.push(link);
+      }
+
+      if (Array.isArray(block.children)) visit(block.children);
+    }
+  };
+
+  visit(Array.isArray(content) ? content : []);
+  return links.slice(0, MAX_LINKS_PER_RECORD);
+};
@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { EDatabaseType } from '@/modules/core/types/database.types';
+import { EPropertyType } from '@/modules/core/types/property.types';
 
 const databaseIconSchema = z.object({
   type: z.enum(['emoji', 'icon', 'image']),
@@ -115,7 +116,10 @@ export const exportDatabaseSchema = z.object({
   includeViews: z.boolean().default(false),
   includeTemplates: z.boolean().default(false),
   viewId: z.string().optional(), // Export specific view
-  filters: z.record(z.string(), z.any()).optional() // Additional filters
+  filters: z.record(z.string(), z.any()).optional(), // Additional filters
+  dateFormat: z.enum(['iso', 'locale']).default('iso'), // Date cells in csv/xlsx exports
+  locale: z.string().min(2).max(35).optional(),
+  timeZone: z.string().min(1).max(64).optional()
 });
 
 // Import database schema
@@ -151,6 +155,76 @@ export const importDatabaseSchema = z.object({
     })
 });
 
+// Multipart form fields arrive as strings, so booleans and the column mapping are parsed here
+export const formBoolean = z.preprocess(
+  value => (value === 'true' ? true : value === 'false' ? false : value),
+  z.boolean()
+);
+
+export const formJson = <T extends z.ZodType>(schema: T) =>
+  z.preprocess(value => {
+    if (typeof value !== 'string') return value;
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }, schema);
+
+const importFileParseSchema = {
+  sheetName: z.string().max(31).optional(),
+  delimiter: z.enum([',', ';', '\t']).optional(),
+  hasHeader: formBoolean.default(true)
+};
+
+export const importPreviewSchema = z.object({
+  ...importFileParseSchema,
+  databaseId: z.string().optional()
+});
+
+export const importColumnMappingSchema = z.object({
+  columnIndex: z.number().int().min(0),
+  skip: z.boolean().optional(),
+  propertyId: z.string().optional(),
+  propertyName: z.string().min(1).max(100).trim().optional(),
+  type: z.enum(EPropertyType).optional(),
+  options: z
+    .array(
+      z.object({
+        id: z.string().min(1),
+        value: z.string().min(1),
+        label: z.string().min(1),
+        color: z.string().optional()
+      })
+    )
+    .optional(),
+  dayFirst: z.boolean().optional()
+});
+
+export const importFileSchema = z
+  .object({
+    ...importFileParseSchema,
+    databaseId: z.string().optional(),
+    workspaceId: z.string().optional(),
+    name: z
+      .string()
+      .min(1, 'Database name is required')
+      .max(100, 'Database name cannot exceed 100 characters')
+      .trim()
+      .optional(),
+    type: z.enum(EDatabaseType).optional(),
+    description: z.string().max(1000).optional(),
+    columns: formJson(
+      z.array(importColumnMappingSchema).min(1, 'At least one column mapping is required')
+    ),
+    createMissingOptions: formBoolean.default(true),
+    skipInvalidRows: formBoolean.default(true)
+  })
+  .refine(data => Boolean(data.databaseId || data.name), {
+    message: 'Either databaseId or name is required',
+    path: ['name']
+  });
+
 // Database template schema
 export const createDatabaseTemplateSchema = z.object({
   name: z
@@ -76,3 +76,18 @@ export const RecordQuerySchema = z.object({
   sortOrder: z.enum(['asc', 'desc']).default('desc'),
   search: z.string().optional()
 });
+
+export const recordVersionParamsSchema = z.object({
+  databaseId: z.string().min(1, 'Database ID is required'),
+  recordId: z.string().min(1, 'Record ID is required'),
+  version: z.coerce.number().int().positive('Version must be a positive number')
+});
+
+export const recordVersionDiffQuerySchema = z.object({
+  from: z.coerce.number().int().positive('From version must be a positive number'),
+  to: z.coerce.number().int().positive('To version must be a positive number')
+});
+
+export const restoreRecordVersionSchema = z.object({
+  fields: z.array(z.string().min(1)).min(1, 'At least one field is required').optional()
+});
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { EChartAggregate, EChartDateBucket, EChartType } from '@/modules/core/types/view.types';
 
 // View ID parameter schema
 export const viewIdParamSchema = z.object({
@@ -68,6 +69,26 @@ export const groupConfigSchema = z.object({
   showEmpty: z.boolean().default(true)
 });
 
+// Chart configuration schema
+export const chartConfigSchema = z
+  .object({
+    chartType: z.enum(EChartType),
+    xAxisPropertyId: z.string().min(1).optional(),
+    groupByPropertyId: z.string().min(1).optional(),
+    aggregate: z.enum(EChartAggregate).default(EChartAggregate.COUNT),
+    valuePropertyId: z.string().min(1).optional(),
+    dateBucket: z.enum(EChartDateBucket).optional(),
+    timezone: z.string().min(1).optional()
+  })
+  .refine(chart => chart.chartType === EChartType.NUMBER || !!chart.xAxisPropertyId, {
+    message: 'An x-axis property is required',
+    path: ['xAxisPropertyId']
+  })
+  .refine(chart => chart.aggregate === EChartAggregate.COUNT || !!chart.valuePropertyId, {
+    message: 'A value property is required for this aggregate',
+    path: ['valuePropertyId']
+  });
+
 export const viewSettingsSchema = z
   .object({
     filters: z.array(filterConditionSchema),
@@ -85,7 +106,8 @@ export const viewSettingsSchema = z
     startDateProperty: z.string().optional(),
     endDateProperty: z.string().optional(),
     statusProperty: z.string().optional(),
-    assigneeProperty: z.string().optional()
+    assigneeProperty: z.string().optional(),
+    chart: chartConfigSchema.optional()
   })
   .default({
     filters: [],
@@ -239,7 +261,8 @@ export const ViewSettingsSchema = z.object({
   timelineEndProperty: z.string().optional(),
   ganttStartProperty: z.string().optional(),
   ganttEndProperty: z.string().optional(),
-  ganttDependencyProperty: z.string().optional()
+  ganttDependencyProperty: z.string().optional(),
+  chart: chartConfigSchema.optional()
 });
 
 export const CreateViewSchema = z.object({
@@ -0,0 +1,235 @@
+import {
+  rebaseOperation,
+  transformOperation,
+  transformOperationLists
+} from '../utils/operational-transform.utils';
+import { IEditorOperation, ITextAnnotations } from '../types/editor.types';
+
+interface ICell {
+  char: string;
+  formatting: Partial<ITextAnnotations>;
+}
+
+const fromText = (text: string): ICell[] => [...text].map(char => ({ char, formatting: {} }));
+
+const apply = (document: ICell[], operations: IEditorOperation[]): ICell[] =>
+  operations.reduce((cells, operation) => {
+    const next = cells.map(cell => ({ ...cell, formatting: { ...cell.formatting } }));
+    const { position, length = 0 } = operation;
+
+    if (operation.type === 'insert') {
+      next.splice(position, 0, ...fromText(operation.content || ''));
+    } else if (operation.type === 'delete') {
+      next.splice(position, length);
+    } else if (operation.type === 'format') {
+      for (const cell of next.slice(position, position + length)) {
+        Object.assign(cell.formatting, operation.formatting);
+      }
+    }
+
+    return next;
+  }, document);
+
+const render = (document: ICell[]): string =>
+  document
+    .map(cell => {
+      const keys = Object.entries(cell.formatting)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => `${key}=${String(value)}`)
+        .sort();
+      return keys.length > 0 ? `${cell.char}{${keys.join(',')}}` : cell.char;
+    })
+    .join('');
+
+const insert = (position: number, content: string, userId = 'a'): IEditorOperation => ({
+  type: 'insert',
+  position,
+  content,
+  timestamp: 0,
+  userId
+});
+
+const remove = (position: number, length: number, userId = 'a'): IEditorOperation => ({
+  type: 'delete',
+  position,
+  length,
+  timestamp: 0,
+  userId
+});
+
+const format = (
+  position: number,
+  length: number,
+  formatting: Partial<ITextAnnotations>,
+  userId = 'a'
+): IEditorOperation => ({ type: 'format', position, length, formatting, timestamp: 0, userId });
+
+// Both sides start from `base`, apply their own operations, then the other side's rebased ones
+const converge = (
+  base: string,
+  local: IEditorOperation[],
+  remote: IEditorOperation[]
+): { localFirst: string; remoteFirst: string } => {
+  const [localPrime, remotePrime] = transformOperationLists(local, remote);
+  const document = fromText(base);
+
+  return {
+    localFirst: render(apply(apply(document, local), remotePrime)),
+    remoteFirst: render(apply(apply(document, remote), localPrime))
+  };
+};
+
+describe('operational transform', () => {
+  describe('insert against insert', () => {
+    it('orders inserts at the same offset by tie-break', () => {
+      const incoming = insert(2, 'X', 'b');
+      const applied = insert(2, 'Y', 'a');
+
+      expect(transformOperation(incoming, applied, false).operations[0].position).toBe(3);
+      expect(transformOperation(incoming, applied, true).operations[0].position).toBe(2);
+
+      const { localFirst, remoteFirst } = converge('abcd', [incoming], [applied]);
+      expect(localFirst).toBe(remoteFirst);
+      expect(remoteFirst).toBe('abYXcd');
+    });
+
+    it('shifts inserts after an earlier insert', () => {
+      const result = transformOperation(insert(3, 'X'), insert(1, 'YY'), false);
+      expect(result.operations).toEqual([expect.objectContaining({ position: 5 })]);
+      expect(result.hasConflict).toBe(false);
+    });
+  });
+
+  describe('insert against delete', () => {
+    it('moves an insert inside a deleted range to the start of the deletion', () => {
+      const result = transformOperation(insert(4, 'X'), remove(2, 4), false);
+
+      expect(result.operations).toEqual([expect.objectContaining({ position: 2 })]);
+      expect(result.hasConflict).toBe(true);
+
+      const { localFirst, remoteFirst } = converge('abcdefgh', [insert(4, 'X')], [remove(2, 4)]);
+      expect(localFirst).toBe(remoteFirst);
+      expect(remoteFirst).toBe('abXgh');
+    });
+
+    it('splits a delete around an insert inside it', () => {
+      const result = transformOperation(remove(1, 4), insert(3, 'XY'), false);
+
+      expect(result.operations).toEqual([
+        expect.objectContaining({ type: 'delete', position: 5, length: 2 }),
+        expect.objectContaining({ type: 'delete', position: 1, length: 2 })
+      ]);
+
+      const { localFirst, remoteFirst } = converge('abcdefg', [remove(1, 4)], [insert(3, 'XY')]);
+      expect(localFirst).toBe(remoteFirst);
+      expect(remoteFirst).toBe('aXYfg');
+    });
+  });
+
+  describe('delete against delete', () => {
+    it('removes overlapping text only once', () => {
+      const result = transformOperation(remove(2, 4), remove(4, 4), false);
+
+      expect(result.operations).toEqual([expect.objectContaining({ position: 2, length: 2 })]);
+      expect(result.hasConflict).toBe(true);
+
+      const { localFirst, remoteFirst } = converge('abcdefghij', [remove(2, 4)], [remove(4, 4)]);
+      expect(localFirst).toBe(remoteFirst);
+      expect(remoteFirst).toBe('abij');
+    });
+
+    it('drops a delete covered by a concurrent delete', () => {
+      const result = transformOperation(remove(3, 2), remove(1, 6), false);
+      expect(result.operations).toEqual([]);
+    });
+
+    it('removes text once when a delete overlaps a split delete', () => {
+      const { localFirst, remoteFirst } = converge(
+        'abcdefghij',
+        [remove(1, 6)],
+        [insert(4, 'XY'), remove(5, 4)]
+      );
+      expect(localFirst).toBe(remoteFirst);
+      expect(remoteFirst).toBe('aXhij');
+    });
+  });
+
+  describe('format', () => {
+    it('lets the later format win overlapping attributes', () => {
+      const local = [format(0, 4, { bold: true, italic: true }, 'b')];
+      const remote = [format(2, 4, { bold: false }, 'a')];
+
+      const { localFirst, remoteFirst } = converge('abcdef', local, remote);
+      expect(localFirst).toBe(remoteFirst);
+      expect(remoteFirst).toBe(
+        'a{bold=true,italic=true}b{bold=true,italic=true}c{bold=true,italic=true}' +
+          'd{bold=true,italic=true}e{bold=false}f{bold=false}'
+      );
+    });
+
+    it('keeps formats on different attributes', () => {
+      const result = transformOperation(
+        format(0, 4, { bold: true }),
+        format(2, 4, { italic: true }),
+        true
+      );
+      expect(result.hasConflict).toBe(false);
+      expect(result.operations).toHaveLength(1);
+    });
+
+    it('shrinks a format to the text left by a concurrent delete', () => {
+      const result = transformOperation(format(1, 5, { bold: true }), remove(3, 5), false);
+
+      expect(result.operations).toEqual([expect.objectContaining({ position: 1, length: 2 })]);
+      expect(result.hasConflict).toBe(true);
+
+      const { localFirst, remoteFirst } = converge(
+        'abcdefghij',
+        [format(1, 5, { bold: true })],
+        [remove(3, 5)]
+      );
+      expect(localFirst).toBe(remoteFirst);
+      expect(remoteFirst).toBe('ab{bold=true}c{bold=true}ij');
+    });
+  });
+
+  describe('history rebase', () => {
+    const histories: Array<[string, IEditorOperation[], IEditorOperation[]]> = [
+      [
+        'inserts and deletes',
+        [insert(0, '>> '), remove(5, 3), insert(8, '!')],
+        [remove(1, 2), insert(3, 'XYZ'), remove(6, 2)]
+      ],
+      [
+        'formats across edits',
+        [format(0, 6, { bold: true }), insert(3, '--'), remove(9, 2)],
+        [insert(2, 'ab'), format(1, 5, { bold: false, italic: true }), remove(0, 1)]
+      ],
+      [
+        'same offsets',
+        [insert(4, 'L'), insert(4, 'M'), remove(2, 3)],
+        [insert(4, 'R'), remove(3, 2), insert(3, 'S')]
+      ]
+    ];
+
+    it.each(histories)('converges for %s in every apply order', (_, local, remote) => {
+      const { localFirst, remoteFirst } = converge('0123456789abcdef', local, remote);
+      expect(localFirst).toBe(remoteFirst);
+    });
+
+    it('rebases one operation through a history one step at a time', () => {
+      const history = [insert(0, 'AB'), remove(4, 3), format(0, 3, { bold: true })];
+      const base = fromText('0123456789');
+      const serverDocument = apply(base, history);
+
+      // Inserted between '3' and '4', both removed by the concurrent delete
+      const { operations, conflicts } = rebaseOperation(insert(4, 'X', 'b'), history);
+
+      expect(operations).toEqual([expect.objectContaining({ position: 4 })]);
+      expect(conflicts).toEqual([history[1]]);
+      expect(render(apply(serverDocument, operations))).toBe(
+        'A{bold=true}B{bold=true}0{bold=true}1X56789'
+      );
+    });
+  });
+});
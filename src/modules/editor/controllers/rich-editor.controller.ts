@@ -202,7 +202,7 @@ export const getCollaborationParticipants = catchAsync(
   async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     const { recordId } = req.params;
 
-    const participants = collaborationService.getSessionParticipants(recordId);
+    const participants = await collaborationService.getSessionParticipants(recordId);
 
     sendSuccessResponse(res, 'Collaboration participants retrieved successfully', participants);
   }
@@ -332,7 +332,7 @@ export const getCollaborationStats = catchAsync(
   async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     const { recordId } = req.params;
 
-    const stats = collaborationService.getSessionStats(recordId);
+    const stats = await collaborationService.getSessionStats(recordId);
 
     sendSuccessResponse(res, 'Collaboration stats retrieved successfully', stats);
   }
@@ -341,12 +341,18 @@ export const getCollaborationStats = catchAsync(
 // Resolve collaboration conflicts
 export const resolveConflicts = catchAsync(
   async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const userId = getUserId(req);
     const { recordId } = req.params;
     const { conflicts, resolution } = req.body;
 
-    await collaborationService.resolveConflicts(recordId, conflicts, resolution);
+    const result = await collaborationService.resolveConflicts(
+      recordId,
+      conflicts,
+      resolution,
+      userId
+    );
 
-    sendSuccessResponse(res, 'Conflicts resolved successfully');
+    sendSuccessResponse(res, 'Conflicts resolved successfully', result);
   }
 );
 
@@ -2,6 +2,13 @@
 export { richEditorController } from './controllers/rich-editor.controller';
 export { richEditorService } from './services/rich-editor.service';
 export { collaborationService } from './services/collaboration.service';
+export {
+  memorySessionStore,
+  mongoSessionStore,
+  getCollaborationSessionStore
+} from './services/collaboration-store.service';
+export { createMongoSocketAdapter } from './services/socket-adapter.service';
+export { operationLogService } from './services/operation-log.service';
 export { textProcessingService } from './services/text-processing.service';
 export { initializeWebSocketService } from './services/websocket.service';
 
@@ -23,7 +30,13 @@ export type {
   IParticipant,
   ICursorUpdate,
   ISelectionUpdate,
-  IOperationalTransform
+  IOperationalTransform,
+  ITransformResult,
+  IEditorOperationLogEntry,
+  IOperationSyncResult,
+  ICollaborationSessionStore,
+  IDeleteSessionConditions,
+  TCollaborationStoreType
 } from './types/collaboration.types';
 
 export type {
@@ -0,0 +1,81 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+import { ICollaborationSession } from '../types/collaboration.types';
+
+export type TCollaborationSessionDocument = Omit<ICollaborationSession, 'id'> &
+  Document & {
+    sessionId: string;
+  };
+
+export type TCollaborationSessionModel = Model<TCollaborationSessionDocument>;
+
+const ParticipantSchema = new Schema(
+  {
+    userId: { type: String, required: true },
+    userName: { type: String, required: true },
+    cursor: {
+      blockId: String,
+      position: Number
+    },
+    selection: {
+      blockId: String,
+      start: Number,
+      end: Number
+    },
+    color: { type: String, required: true },
+    joinedAt: { type: Date, required: true },
+    lastSeen: { type: Date, required: true },
+    isActive: { type: Boolean, default: true }
+  },
+  { _id: false }
+);
+
+// Shared collaboration state, so every server instance sees the same participants,
+// cursors and operation log for a record
+const CollaborationSessionSchema = new Schema<
+  TCollaborationSessionDocument,
+  TCollaborationSessionModel
+>(
+  {
+    sessionId: {
+      type: String,
+      required: true
+    },
+    recordId: {
+      type: String,
+      required: true,
+      unique: true
+    },
+    participants: {
+      type: [ParticipantSchema],
+      default: []
+    },
+    operations: {
+      type: Schema.Types.Mixed,
+      default: []
+    },
+    version: {
+      type: Number,
+      default: 0
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now
+    },
+    lastActivity: {
+      type: Date,
+      default: Date.now,
+      index: true
+    }
+  },
+  {
+    collection: 'collaboration_sessions',
+    versionKey: false
+  }
+);
+
+export const CollaborationSessionModel = mongoose.model<
+  TCollaborationSessionDocument,
+  TCollaborationSessionModel
+>('CollaborationSession', CollaborationSessionSchema);
+
+export default CollaborationSessionModel;
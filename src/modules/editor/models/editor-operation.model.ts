@@ -0,0 +1,65 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+import { IEditorOperationLogEntry } from '../types/collaboration.types';
+
+export type TEditorOperationDocument = IEditorOperationLogEntry & Document;
+
+export type TEditorOperationModel = Model<TEditorOperationDocument>;
+
+// Every applied editor operation, in version order per record. Operations that were
+// split while being rebased share a version and are ordered by their sequence.
+const EditorOperationSchema = new Schema<TEditorOperationDocument, TEditorOperationModel>(
+  {
+    recordId: {
+      type: String,
+      required: true
+    },
+    version: {
+      type: Number,
+      required: true
+    },
+    sequence: {
+      type: Number,
+      default: 0
+    },
+    operationId: String,
+    type: {
+      type: String,
+      enum: ['insert', 'delete', 'format', 'replace'],
+      required: true
+    },
+    blockId: String,
+    position: {
+      type: Number,
+      required: true
+    },
+    length: Number,
+    content: String,
+    formatting: Schema.Types.Mixed,
+    userId: {
+      type: String,
+      required: true,
+      index: true
+    },
+    timestamp: {
+      type: Number,
+      required: true
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now
+    }
+  },
+  {
+    collection: 'editor_operations',
+    versionKey: false
+  }
+);
+
+EditorOperationSchema.index({ recordId: 1, version: 1, sequence: 1 }, { unique: true });
+
+export const EditorOperationModel = mongoose.model<TEditorOperationDocument, TEditorOperationModel>(
+  'EditorOperation',
+  EditorOperationSchema
+);
+
+export default EditorOperationModel;
@@ -0,0 +1,170 @@
+import {
+  ICollaborationSession,
+  ICollaborationSessionStore,
+  IDeleteSessionConditions,
+  IParticipant,
+  TCollaborationStoreType
+} from '@/modules/editor/types/collaboration.types';
+import { IEditorOperation } from '@/modules/editor/types/editor.types';
+import {
+  CollaborationSessionModel,
+  TCollaborationSessionDocument
+} from '@/modules/editor/models/collaboration-session.model';
+
+const sessions: Map<string, ICollaborationSession> = new Map();
+
+const matchesDeleteConditions = (
+  session: ICollaborationSession,
+  conditions: IDeleteSessionConditions
+): boolean => {
+  if (conditions.idle && session.participants.some(p => p.isActive)) return false;
+  if (conditions.inactiveSince && session.lastActivity >= conditions.inactiveSince) return false;
+  return true;
+};
+
+// Single-process store, the default for development and one-instance deployments
+export const memorySessionStore: ICollaborationSessionStore = {
+  getSession: async recordId => sessions.get(recordId) || null,
+
+  createSession: async session => {
+    const existing = sessions.get(session.recordId);
+    if (existing) return existing;
+
+    sessions.set(session.recordId, session);
+    return session;
+  },
+
+  saveParticipant: async (recordId, participant) => {
+    const session = sessions.get(recordId);
+    if (!session) return null;
+
+    const index = session.participants.findIndex(p => p.userId === participant.userId);
+    if (index === -1) {
+      session.participants.push(participant);
+    } else {
+      session.participants[index] = participant;
+    }
+    session.lastActivity = new Date();
+
+    return session;
+  },
+
+  appendOperations: async (recordId, expectedVersion, operations, maxHistory) => {
+    const session = sessions.get(recordId);
+    if (!session || session.version !== expectedVersion) return null;
+
+    session.operations.push(...operations);
+    if (session.operations.length > maxHistory) {
+      session.operations.splice(0, session.operations.length - maxHistory);
+    }
+    session.version++;
+    session.lastActivity = new Date();
+
+    return session;
+  },
+
+  deleteSession: async (recordId, conditions = {}) => {
+    const session = sessions.get(recordId);
+    if (!session || !matchesDeleteConditions(session, conditions)) return false;
+
+    sessions.delete(recordId);
+    return true;
+  },
+
+  findInactiveSessions: async inactiveSince =>
+    Array.from(sessions.values()).filter(session => session.lastActivity < inactiveSince)
+};
+
+const toSession = (
+  document: TCollaborationSessionDocument | null
+): ICollaborationSession | null => {
+  if (!document) return null;
+
+  const data = document.toObject();
+  return {
+    id: data.sessionId,
+    recordId: data.recordId,
+    participants: data.participants,
+    operations: data.operations as IEditorOperation[],
+    version: data.version,
+    createdAt: data.createdAt,
+    lastActivity: data.lastActivity
+  };
+};
+
+// Shared store for multi-instance deployments. Version checks make operation appends a
+// compare-and-set, so two instances never apply operations on top of the same version.
+export const mongoSessionStore: ICollaborationSessionStore = {
+  getSession: async recordId => toSession(await CollaborationSessionModel.findOne({ recordId })),
+
+  createSession: async session => {
+    const document = await CollaborationSessionModel.findOneAndUpdate(
+      { recordId: session.recordId },
+      {
+        $setOnInsert: {
+          sessionId: session.id,
+          recordId: session.recordId,
+          participants: session.participants,
+          operations: session.operations,
+          version: session.version,
+          createdAt: session.createdAt,
+          lastActivity: session.lastActivity
+        }
+      },
+      { upsert: true, new: true }
+    );
+
+    return toSession(document)!;
+  },
+
+  saveParticipant: async (recordId, participant: IParticipant) => {
+    const now = new Date();
+    const updated = await CollaborationSessionModel.findOneAndUpdate(
+      { recordId, 'participants.userId': participant.userId },
+      { $set: { 'participants.$': participant, lastActivity: now } },
+      { new: true }
+    );
+    if (updated) return toSession(updated);
+
+    return toSession(
+      await CollaborationSessionModel.findOneAndUpdate(
+        { recordId, 'participants.userId': { $ne: participant.userId } },
+        { $push: { participants: participant }, $set: { lastActivity: now } },
+        { new: true }
+      )
+    );
+  },
+
+  appendOperations: async (recordId, expectedVersion, operations, maxHistory) =>
+    toSession(
+      await CollaborationSessionModel.findOneAndUpdate(
+        { recordId, version: expectedVersion },
+        {
+          $push: { operations: { $each: operations, $slice: -maxHistory } },
+          $inc: { version: 1 },
+          $set: { lastActivity: new Date() }
+        },
+        { new: true }
+      )
+    ),
+
+  deleteSession: async (recordId, conditions = {}) => {
+    const filter: Record<string, unknown> = { recordId };
+    if (conditions.idle) filter['participants.isActive'] = { $ne: true };
+    if (conditions.inactiveSince) filter.lastActivity = { $lt: conditions.inactiveSince };
+
+    const result = await CollaborationSessionModel.deleteOne(filter);
+    return result.deletedCount > 0;
+  },
+
+  findInactiveSessions: async inactiveSince => {
+    const documents = await CollaborationSessionModel.find({
+      lastActivity: { $lt: inactiveSince }
+    });
+    return documents.map(document => toSession(document)!);
+  }
+};
+
+export const getCollaborationSessionStore = (
+  type: TCollaborationStoreType = 'memory'
+): ICollaborationSessionStore => (type === 'mongo' ? mongoSessionStore : memorySessionStore);
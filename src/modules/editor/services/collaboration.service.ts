@@ -1,14 +1,23 @@
 import { EventEmitter } from 'events';
 import { generateId } from '@/utils/id-generator';
-import { createNotFoundError } from '@/utils';
+import { createConflictError, createForbiddenError, createNotFoundError } from '@/utils';
 import {
   ICollaborationSession,
+  ICollaborationSessionStore,
   IParticipant,
   ICursorUpdate,
   ISelectionUpdate,
-  IOperationalTransform
+  IOperationalTransform,
+  IConflictResolution,
+  IOperationSyncResult,
+  ITransformResult
 } from '@/modules/editor/types/collaboration.types';
 import { IEditorOperation } from '@/modules/editor/types/editor.types';
+import { rebaseOperation } from '@/modules/editor/utils/operational-transform.utils';
+import { permissionService } from '@/modules/permissions/services/permission.service';
+import { EShareScope, EPermissionLevel } from '@/modules/core/types/permission.types';
+import { memorySessionStore } from './collaboration-store.service';
+import { operationLogService } from './operation-log.service';
 
 export const eventEmitter = new EventEmitter();
 
@@ -25,52 +34,59 @@ const userColors = [
   '#85C1E9'
 ];
 
-const sessions: Map<string, ICollaborationSession> = new Map();
+let store: ICollaborationSessionStore = memorySessionStore;
+
+// Operations older than this can no longer be rebased; clients must reload the record
+const MAX_OPERATION_HISTORY = 1000;
+
+// Another instance may append between our read and write, in which case we rebase again
+const MAX_APPLY_ATTEMPTS = 5;
+
+const INACTIVE_SESSION_THRESHOLD = 30 * 60 * 1000; // 30 minutes
 
 export const collaborationService = {
+  // Swap the session store, e.g. for a shared store when running several instances
+  useStore: (sessionStore: ICollaborationSessionStore): void => {
+    store = sessionStore;
+  },
+
   // Create or join collaboration session
   joinSession: async (
     recordId: string,
     userId: string,
     userName: string
   ): Promise<ICollaborationSession> => {
-    let session = sessions.get(recordId);
+    let session = await store.getSession(recordId);
 
     if (!session) {
-      // Create new session
-      session = {
+      // Create new session, continuing from the record's persisted version
+      session = await store.createSession({
         id: generateId(),
         recordId,
         participants: [],
         operations: [],
-        version: 0,
+        version: await operationLogService.getLatestVersion(recordId),
         createdAt: new Date(),
         lastActivity: new Date()
-      };
-      sessions.set(recordId, session);
+      });
     }
 
     // Check if user is already in session
-    let participant = session.participants.find(p => p.userId === userId);
-
-    if (!participant) {
-      // Add new participant
-      participant = {
-        userId,
-        userName,
-        color: collaborationService.assignUserColor(session.participants),
-        joinedAt: new Date(),
-        lastSeen: new Date(),
-        isActive: true
-      };
-      session.participants.push(participant);
-    } else {
-      // Reactivate existing participant
-      participant.isActive = true;
-      participant.lastSeen = new Date();
-    }
-
-    session.lastActivity = new Date();
+    const existing = session.participants.find(p => p.userId === userId);
+
+    // Add new participant or reactivate existing one
+    const participant: IParticipant = existing
+      ? { ...existing, isActive: true, lastSeen: new Date() }
+      : {
+          userId,
+          userName,
+          color: collaborationService.assignUserColor(session.participants),
+          joinedAt: new Date(),
+          lastSeen: new Date(),
+          isActive: true
+        };
+
+    session = (await store.saveParticipant(recordId, participant)) || session;
 
     // Emit join event
     eventEmitter.emit('user-joined', {
@@ -84,20 +100,20 @@ export const collaborationService = {
 
   // Leave collaboration session
   leaveSession: async (recordId: string, userId: string): Promise<void> => {
-    const session = sessions.get(recordId);
+    const session = await store.getSession(recordId);
     if (!session) return;
 
     const participant = session.participants.find(p => p.userId === userId);
     if (participant) {
-      participant.isActive = false;
-      participant.lastSeen = new Date();
+      await store.saveParticipant(recordId, {
+        ...participant,
+        isActive: false,
+        lastSeen: new Date()
+      });
     }
 
     // Remove session if no active participants
-    const activeParticipants = session.participants.filter(p => p.isActive);
-    if (activeParticipants.length === 0) {
-      sessions.delete(recordId);
-    }
+    await store.deleteSession(recordId, { idle: true });
 
     // Emit leave event
     eventEmitter.emit('user-left', {
@@ -107,52 +123,109 @@ export const collaborationService = {
     });
   },
 
-  // Apply operation with operational transformation
+  // Apply operation with operational transformation. The operation is rebased on
+  // everything applied since its base version and acknowledged with the new version.
   applyOperation: async (
     recordId: string,
     operation: IEditorOperation
   ): Promise<IOperationalTransform> => {
-    const session = sessions.get(recordId);
-    if (!session) {
-      throw createNotFoundError('Collaboration session not found');
-    }
+    for (let attempt = 0; attempt < MAX_APPLY_ATTEMPTS; attempt++) {
+      const session = await store.getSession(recordId);
+      if (!session) {
+        throw createNotFoundError('Collaboration session not found');
+      }
 
-    // Get operations that happened after this operation's base version
-    const concurrentOps = session.operations.filter(
-      op => op.timestamp > operation.timestamp && op.userId !== operation.userId
-    );
+      const baseVersion = operation.baseVersion ?? session.version;
+      const oldestVersion = session.operations[0]?.version ?? session.version + 1;
+      const versionConflict = createConflictError(
+        `Operation is based on version ${baseVersion} but the session is at version ${session.version}, reload the record`
+      );
 
-    // Apply operational transformation
-    const transformed = collaborationService.transformOperation(operation, concurrentOps);
+      if (baseVersion > session.version || baseVersion < 0) throw versionConflict;
 
-    // Add to session operations
-    session.operations.push(transformed.operation);
-    session.version++;
-    session.lastActivity = new Date();
+      // Get operations that happened after this operation's base version
+      let concurrentOps = session.operations.filter(op => (op.version ?? 0) > baseVersion);
 
-    // Emit operation to other participants
-    eventEmitter.emit('operation-applied', {
-      sessionId: session.id,
-      recordId,
-      operation: transformed.operation,
-      userId: operation.userId
-    });
+      // Older operations are no longer in the session, read them back from the log
+      if (baseVersion < oldestVersion - 1) {
+        const missing = await operationLogService.getOperationsSince(
+          recordId,
+          baseVersion,
+          MAX_OPERATION_HISTORY
+        );
+        const older = missing.operations.filter(op => (op.version ?? 0) < oldestVersion);
+
+        if (missing.hasMore || older[older.length - 1]?.version !== oldestVersion - 1) {
+          throw versionConflict;
+        }
+        concurrentOps = [...older, ...concurrentOps];
+      }
+
+      const transformed = collaborationService.transformOperation(operation, concurrentOps);
+
+      if (transformed.operations.length === 0) {
+        return {
+          operation,
+          transformedOperations: [],
+          conflicts: transformed.conflicts,
+          version: session.version
+        };
+      }
+
+      const version = session.version + 1;
+      const appliedOperations = transformed.operations.map(op => ({
+        ...op,
+        ...(operation.id && { id: operation.id }),
+        baseVersion: version - 1,
+        version
+      }));
+
+      const updated = await store.appendOperations(
+        recordId,
+        session.version,
+        appliedOperations,
+        MAX_OPERATION_HISTORY
+      );
+      if (!updated) continue;
+
+      // The version is reserved, persist it before anyone is told about it
+      await operationLogService.appendOperations(recordId, appliedOperations);
+
+      // Emit operation to other participants
+      eventEmitter.emit('operation-applied', {
+        sessionId: session.id,
+        recordId,
+        operations: appliedOperations,
+        version,
+        userId: operation.userId
+      });
 
-    return transformed;
+      return {
+        operation,
+        transformedOperations: appliedOperations,
+        conflicts: transformed.conflicts,
+        version
+      };
+    }
+
+    throw createConflictError('Too many concurrent operations on this record, please retry');
   },
 
   // Update cursor position
   updateCursor: async (recordId: string, cursorUpdate: ICursorUpdate): Promise<void> => {
-    const session = sessions.get(recordId);
+    const session = await store.getSession(recordId);
     if (!session) return;
 
     const participant = session.participants.find(p => p.userId === cursorUpdate.userId);
     if (participant) {
-      participant.cursor = {
-        blockId: cursorUpdate.blockId,
-        position: cursorUpdate.position
-      };
-      participant.lastSeen = new Date();
+      await store.saveParticipant(recordId, {
+        ...participant,
+        cursor: {
+          blockId: cursorUpdate.blockId,
+          position: cursorUpdate.position
+        },
+        lastSeen: new Date()
+      });
     }
 
     // Emit cursor update to other participants
@@ -165,17 +238,20 @@ export const collaborationService = {
 
   // Update text selection
   updateSelection: async (recordId: string, selectionUpdate: ISelectionUpdate): Promise<void> => {
-    const session = sessions.get(recordId);
+    const session = await store.getSession(recordId);
     if (!session) return;
 
     const participant = session.participants.find(p => p.userId === selectionUpdate.userId);
     if (participant) {
-      participant.selection = {
-        blockId: selectionUpdate.blockId,
-        start: selectionUpdate.start,
-        end: selectionUpdate.end
-      };
-      participant.lastSeen = new Date();
+      await store.saveParticipant(recordId, {
+        ...participant,
+        selection: {
+          blockId: selectionUpdate.blockId,
+          start: selectionUpdate.start,
+          end: selectionUpdate.end
+        },
+        lastSeen: new Date()
+      });
     }
 
     // Emit selection update to other participants
@@ -187,97 +263,39 @@ export const collaborationService = {
   },
 
   // Get session participants
-  getSessionParticipants: (recordId: string): IParticipant[] => {
-    const session = sessions.get(recordId);
+  getSessionParticipants: async (recordId: string): Promise<IParticipant[]> => {
+    const session = await store.getSession(recordId);
     return session ? session.participants.filter(p => p.isActive) : [];
   },
 
-  // Get session operations
-  getSessionOperations: (recordId: string, fromVersion?: number): IEditorOperation[] => {
-    const session = sessions.get(recordId);
+  // Get session operations applied after the given version
+  getSessionOperations: async (
+    recordId: string,
+    fromVersion?: number
+  ): Promise<IEditorOperation[]> => {
+    const session = await store.getSession(recordId);
     if (!session) return [];
 
     if (fromVersion !== undefined) {
-      return session.operations.slice(fromVersion);
+      return session.operations.filter(op => (op.version ?? 0) > fromVersion);
     }
 
     return session.operations;
   },
 
+  // Persisted operations applied after the given version, for clients catching up
+  getOperationsSince: async (
+    recordId: string,
+    sinceVersion: number,
+    limit?: number
+  ): Promise<IOperationSyncResult> =>
+    operationLogService.getOperationsSince(recordId, sinceVersion, limit),
+
   // Operational transformation for concurrent operations
   transformOperation: (
     operation: IEditorOperation,
     concurrentOps: IEditorOperation[]
-  ): IOperationalTransform => {
-    let transformedOp = { ...operation };
-    const conflicts: IEditorOperation[] = [];
-
-    for (const concurrentOp of concurrentOps) {
-      const result = collaborationService.transformTwoOperations(transformedOp, concurrentOp);
-      transformedOp = result.transformed;
-
-      if (result.hasConflict) {
-        conflicts.push(concurrentOp);
-      }
-    }
-
-    return {
-      operation: transformedOp,
-      transformedOperation: transformedOp,
-      conflicts
-    };
-  },
-
-  // Transform two operations
-  transformTwoOperations: (
-    op1: IEditorOperation,
-    op2: IEditorOperation
-  ): { transformed: IEditorOperation; hasConflict: boolean } => {
-    // Different block IDs - no transformation needed
-    if (op1.blockId !== op2.blockId) {
-      return { transformed: op1, hasConflict: false };
-    }
-
-    const transformed = { ...op1 };
-    let hasConflict = false;
-
-    // Transform based on operation types
-    if (op1.type === 'insert' && op2.type === 'insert') {
-      // Both insertions
-      if (op2.position <= op1.position) {
-        transformed.position += op2.content?.length || 0;
-      }
-    } else if (op1.type === 'insert' && op2.type === 'delete') {
-      // Insert vs Delete
-      if (op2.position <= op1.position) {
-        transformed.position -= Math.min(op2.length || 0, op1.position - op2.position);
-      }
-    } else if (op1.type === 'delete' && op2.type === 'insert') {
-      // Delete vs Insert
-      if (op2.position <= op1.position) {
-        transformed.position += op2.content?.length || 0;
-      }
-    } else if (op1.type === 'delete' && op2.type === 'delete') {
-      // Both deletions
-      if (op2.position < op1.position) {
-        const overlap = Math.min(op2.length || 0, op1.position - op2.position);
-        transformed.position -= overlap;
-        if (overlap > 0) {
-          hasConflict = true;
-        }
-      }
-    } else if (op1.type === 'format' && op2.type === 'format') {
-      // Both formatting - check for overlap
-      const op1End = op1.position + (op1.length || 0);
-      const op2End = op2.position + (op2.length || 0);
-
-      if (!(op1End <= op2.position || op2End <= op1.position)) {
-        hasConflict = true;
-      }
-    }
-
-    return { transformed, hasConflict };
-  },
+  ): ITransformResult => rebaseOperation(operation, concurrentOps),
 
   // Assign color to user
   assignUserColor: (participants: IParticipant[]): string => {
@@ -293,37 +311,33 @@ export const collaborationService = {
   },
 
   // Clean up inactive sessions
-  cleanupInactiveSessions: (): void => {
-    const now = new Date();
-    const inactiveThreshold = 30 * 60 * 1000; // 30 minutes
-
-    for (const [recordId, session] of sessions.entries()) {
-      const timeSinceLastActivity = now.getTime() - session.lastActivity.getTime();
-
-      if (timeSinceLastActivity > inactiveThreshold) {
-        // Mark all participants as inactive
-        session.participants.forEach(p => (p.isActive = false));
-        sessions.delete(recordId);
-
-        eventEmitter.emit('session-closed', {
-          sessionId: session.id,
-          recordId,
-          reason: 'inactivity'
-        });
-      }
+  cleanupInactiveSessions: async (): Promise<void> => {
+    const inactiveSince = new Date(Date.now() - INACTIVE_SESSION_THRESHOLD);
+    const inactiveSessions = await store.findInactiveSessions(inactiveSince);
+
+    for (const session of inactiveSessions) {
+      // Another instance may have closed it already, or it became active again
+      const deleted = await store.deleteSession(session.recordId, { inactiveSince });
+      if (!deleted) continue;
+
+      eventEmitter.emit('session-closed', {
+        sessionId: session.id,
+        recordId: session.recordId,
+        reason: 'inactivity'
+      });
     }
   },
 
   // Get session statistics
-  getSessionStats: (
+  getSessionStats: async (
     recordId: string
-  ): {
+  ): Promise<{
     participantCount: number;
     operationCount: number;
     version: number;
     lastActivity: Date;
-  } | null => {
-    const session = sessions.get(recordId);
+  } | null> => {
+    const session = await store.getSession(recordId);
     if (!session) return null;
 
     return {
@@ -334,85 +348,61 @@ export const collaborationService = {
     };
   },
 
-  // Resolve conflicts
+  // Conflicts returned by applyOperation are server operations that are already part of
+  // the document. 'accept' and 'reject' only acknowledge the server state; 'merge'
+  // resubmits the client's own operations, rebased like any other operation. Operations
+  // the session already holds are never applied twice.
   resolveConflicts: async (
     recordId: string,
-    conflicts: IEditorOperation[],
-    resolution: 'accept' | 'reject' | 'merge'
-  ): Promise<void> => {
-    const session = sessions.get(recordId);
-    if (!session) return;
+    operations: Array<Omit<IEditorOperation, 'userId'>>,
+    resolution: 'accept' | 'reject' | 'merge',
+    userId: string
+  ): Promise<IConflictResolution> => {
+    const canEdit = await permissionService.hasPermission(
+      EShareScope.RECORD,
+      recordId,
+      userId,
+      EPermissionLevel.EDIT
+    );
+    if (!canEdit) {
+      throw createForbiddenError('Insufficient permissions to edit this record');
+    }
 
-    switch (resolution) {
-      case 'accept':
-        // Accept all conflicting operations
-        session.operations.push(...conflicts);
-        break;
-      case 'reject':
-        // Reject conflicting operations (do nothing)
-        break;
-      case 'merge':
-        // Attempt to merge operations
-        const mergedOps = collaborationService.mergeConflictingOperations(conflicts);
-        session.operations.push(...mergedOps);
-        break;
+    const session = await store.getSession(recordId);
+    if (!session) {
+      throw createNotFoundError('Collaboration session not found');
+    }
+
+    const results: IOperationalTransform[] = [];
+    if (resolution === 'merge') {
+      const appliedIds = new Set(session.operations.map(op => op.id).filter(Boolean));
+
+      for (const operation of operations) {
+        if (operation.id && appliedIds.has(operation.id)) continue;
+        // Operations are always written as the requesting user
+        results.push(await collaborationService.applyOperation(recordId, { ...operation, userId }));
+      }
     }
 
-    session.version++;
-    session.lastActivity = new Date();
+    const version = results.length > 0 ? results[results.length - 1].version : session.version;
 
     eventEmitter.emit('conflicts-resolved', {
       sessionId: session.id,
       recordId,
-      conflicts,
-      resolution
+      resolution,
+      version
     });
-  },
-
-  // Merge conflicting operations
-  mergeConflictingOperations: (conflicts: IEditorOperation[]): IEditorOperation[] => {
-    // Simple merge strategy - combine text insertions, prioritize latest formatting
-    const merged: IEditorOperation[] = [];
-
-    // Group by operation type and position
-    const insertions = conflicts.filter(op => op.type === 'insert');
-    const deletions = conflicts.filter(op => op.type === 'delete');
-    const formatting = conflicts.filter(op => op.type === 'format');
-
-    // Merge insertions by combining content
-    if (insertions.length > 0) {
-      const combinedContent = insertions.map(op => op.content || '').join('');
-      merged.push({
-        ...insertions[0],
-        content: combinedContent,
-        timestamp: Math.max(...insertions.map(op => op.timestamp))
-      });
-    }
 
-    // Keep latest deletion
-    if (deletions.length > 0) {
-      const latestDeletion = deletions.reduce((latest, current) =>
-        current.timestamp > latest.timestamp ? current : latest
-      );
-      merged.push(latestDeletion);
-    }
-
-    // Keep latest formatting
-    if (formatting.length > 0) {
-      const latestFormatting = formatting.reduce((latest, current) =>
-        current.timestamp > latest.timestamp ? current : latest
-      );
-      merged.push(latestFormatting);
-    }
-
-    return merged;
+    return { resolution, version, results };
   }
 };
 
 // Clean up inactive sessions every 5 minutes
 setInterval(
   () => {
-    collaborationService.cleanupInactiveSessions();
+    collaborationService.cleanupInactiveSessions().catch(error => {
+      console.error('Failed to clean up collaboration sessions:', error);
+    });
   },
   5 * 60 * 1000
 );
@@ -0,0 +1,100 @@
+import { IOperationSyncResult } from '@/modules/editor/types/collaboration.types';
+import { IEditorOperation } from '@/modules/editor/types/editor.types';
+import {
+  EditorOperationModel,
+  TEditorOperationDocument
+} from '@/modules/editor/models/editor-operation.model';
+
+const DEFAULT_SYNC_LIMIT = 500;
+const MAX_SYNC_LIMIT = 2000;
+
+const toOperation = (entry: TEditorOperationDocument): IEditorOperation => ({
+  type: entry.type,
+  position: entry.position,
+  ...(entry.length !== undefined && { length: entry.length }),
+  ...(entry.content !== undefined && { content: entry.content }),
+  ...(entry.formatting && { formatting: entry.formatting }),
+  ...(entry.blockId && { blockId: entry.blockId }),
+  ...(entry.operationId && { id: entry.operationId }),
+  timestamp: entry.timestamp,
+  userId: entry.userId,
+  baseVersion: entry.version - 1,
+  version: entry.version
+});
+
+export const operationLogService = {
+  // Persist the operations applied as one version of the record
+  appendOperations: async (recordId: string, operations: IEditorOperation[]): Promise<void> => {
+    if (operations.length === 0) return;
+
+    await EditorOperationModel.insertMany(
+      operations.map((operation, sequence) => ({
+        recordId,
+        version: operation.version,
+        sequence,
+        operationId: operation.id,
+        type: operation.type,
+        blockId: operation.blockId,
+        position: operation.position,
+        length: operation.length,
+        content: operation.content,
+        formatting: operation.formatting,
+        userId: operation.userId,
+        timestamp: operation.timestamp
+      }))
+    );
+  },
+
+  // Latest persisted version of the record, 0 if it was never edited collaboratively
+  getLatestVersion: async (recordId: string): Promise<number> => {
+    const latest = await EditorOperationModel.findOne({ recordId })
+      .sort({ version: -1 })
+      .select('version')
+      .lean();
+
+    return latest?.version ?? 0;
+  },
+
+  // Operations applied after the given version, oldest first. Pages end on a version
+  // boundary so a split operation is never returned half-applied.
+  getOperationsSince: async (
+    recordId: string,
+    sinceVersion: number,
+    limit: number = DEFAULT_SYNC_LIMIT
+  ): Promise<IOperationSyncResult> => {
+    const pageSize = Math.min(Math.max(limit, 1), MAX_SYNC_LIMIT);
+
+    const [entries, latestVersion] = await Promise.all([
+      EditorOperationModel.find({ recordId, version: { $gt: sinceVersion } })
+        .sort({ version: 1, sequence: 1 })
+        .limit(pageSize + 1),
+      operationLogService.getLatestVersion(recordId)
+    ]);
+
+    let page = entries.slice(0, pageSize);
+    const hasMore = entries.length > pageSize;
+
+    if (hasMore) {
+      const lastVersion = page[page.length - 1].version;
+      if (entries[pageSize].version === lastVersion) {
+        const trimmed = page.filter(entry => entry.version !== lastVersion);
+        // A single version larger than the page is returned whole
+        page =
+          trimmed.length > 0
+            ? trimmed
+            : await EditorOperationModel.find({ recordId, version: lastVersion }).sort({
+                sequence: 1
+              });
+      }
+    }
+
+    const operations = page.map(toOperation);
+
+    return {
+      recordId,
+      operations,
+      version: hasMore ? operations[operations.length - 1].version! : latestVersion,
+      hasMore
+    };
+  }
+};
@@ -5,9 +5,13 @@ import {
   RichTextType,
   MentionType
 } from '@/modules/database/types/blocks.types';
-import { IRichText } from '@/modules/core/types/record.types';
+import { IRecordContent, IRichText } from '@/modules/core/types/record.types';
 import { createAppError, createNotFoundError } from '@/utils';
 import { generateId } from '@/utils/id-generator';
+import { operationLogService } from './operation-log.service';
+
+// Conflicting writes of a collaborative version before leaving it to a later operation
+const MAX_VERSION_WRITE_ATTEMPTS = 5;
 
 // Conversion functions between IRichText and IRichTextContent
 function convertIRichTextToIRichTextContent(richText: IRichText): IRichTextContent {
@@ -122,6 +126,9 @@ export interface IEditorOperation {
   blockId?: string;
   timestamp: number;
   userId: string;
+  id?: string;
+  baseVersion?: number;
+  version?: number;
 }
 
 export interface IEditorState {
@@ -706,6 +713,96 @@ export const richEditorService = {
     );
   },
 
+  // Apply one operation of the collaborative log to the blocks of a record, in place
+  applyOperationToBlocks: function (
+    blocks: IRecordContent[],
+    operation: IEditorOperation
+  ): boolean {
+    const block = blocks.find(b => b.id === operation.blockId);
+    if (!block) return false;
+
+    const content = convertIRichTextArrayToIRichTextContentArray(block.content || []);
+    const end = operation.position + (operation.length || 0);
+    let updated: IRichTextContent[];
+
+    if (operation.type === 'insert' && operation.content) {
+      updated = this.insertTextAtPosition(
+        content,
+        operation.position,
+        operation.content,
+        operation.formatting
+      );
+    } else if (operation.type === 'delete' && operation.length) {
+      updated = this.deleteTextRange(content, operation.position, end);
+    } else if (operation.type === 'format' && operation.length && operation.formatting) {
+      updated = this.applyFormattingToRange(content, operation.position, end, operation.formatting);
+    } else {
+      return false;
+    }
+
+    block.content = convertIRichTextContentArrayToIRichTextArray(updated);
+    block.lastEditedAt = new Date();
+    block.lastEditedBy = operation.userId;
+    return true;
+  },
+
+  /**
+   * Write the collaborative log of a record to its content up to a version. Versions are
+   * replayed in order from the last one written, and the write only lands when no other
+   * instance wrote in between, so versions are never applied twice or out of order.
+   * Content edited before versions were tracked is taken to hold every earlier version.
+   */
+  applyCollaborativeVersion: async function (recordId: string, version: number): Promise<void> {
+    let attempts = 0;
+    while (attempts < MAX_VERSION_WRITE_ATTEMPTS) {
+      const record = await RecordModel.findById(recordId)
+        .select('content collaborationVersion')
+        .lean<{ content?: IRecordContent[]; collaborationVersion?: number }>();
+      if (!record) return;
+
+      const written = record.collaborationVersion ?? version - 1;
+      if (written >= version) return;
+
+      const { operations } = await operationLogService.getOperationsSince(recordId, written);
+      const pending = operations.filter(operation => (operation.version ?? 0) <= version);
+      if (pending.length === 0) return;
+
+      const blocks = record.content || [];
+      const touched = new Set<string>();
+      for (const operation of pending) {
+        if (this.applyOperationToBlocks(blocks, operation)) touched.add(operation.blockId!);
+      }
+
+      const reached = pending[pending.length - 1].version!;
+      const lastEditedBy = pending[pending.length - 1].userId;
+      const changes: Record<string, unknown> = {
+        collaborationVersion: reached,
+        lastEditedAt: new Date(),
+        lastEditedBy
+      };
+      const arrayFilters = Array.from(touched).map((blockId, i) => {
+        const block = blocks.find(b => b.id === blockId)!;
+        changes[`content.$[block${i}].content`] = block.content;
+        changes[`content.$[block${i}].lastEditedAt`] = block.lastEditedAt;
+        changes[`content.$[block${i}].lastEditedBy`] = block.lastEditedBy;
+        return { [`block${i}.id`]: blockId };
+      });
+
+      const result = await RecordModel.updateOne(
+        { _id: recordId, collaborationVersion: record.collaborationVersion ?? null },
+        { $set: changes },
+        { arrayFilters }
+      );
+      // Another instance wrote first, start again from what it wrote
+      if (result.matchedCount === 0) {
+        attempts++;
+        continue;
+      }
+
+      if (reached >= version) return;
+    }
+  },
+
   // Convert to markdown
   convertToMarkdown: function (content: any[]): string {
     // Implementation for markdown conversion
@@ -0,0 +1,125 @@
+import mongoose, { mongo } from 'mongoose';
+import {
+  ClusterAdapterOptions,
+  ClusterAdapterWithHeartbeat,
+  ClusterMessage,
+  ClusterResponse,
+  Offset,
+  ServerId
+} from 'socket.io-adapter';
+
+// Capped collection, so old events are overwritten instead of piling up
+const EVENTS_COLLECTION = 'socket_io_events';
+const EVENTS_COLLECTION_SIZE = 10 * 1024 * 1024; // 10MB
+const TAIL_RETRY_DELAY = 1000;
+
+type TAdapterDocument = (ClusterMessage | ClusterResponse) & {
+  _id: mongo.ObjectId;
+  requesterUid?: ServerId;
+};
+
+class MongoSocketAdapter extends ClusterAdapterWithHeartbeat {
+  private readonly collection: mongo.Collection;
+  private readonly onClose: () => void;
+
+  constructor(
+    nsp: any,
+    collection: mongo.Collection,
+    options: ClusterAdapterOptions,
+    onClose: () => void
+  ) {
+    super(nsp, options);
+    this.collection = collection;
+    this.onClose = onClose;
+  }
+
+  protected async doPublish(message: ClusterMessage): Promise<Offset> {
+    const result = await this.collection.insertOne({ ...message, createdAt: new Date() });
+    return result.insertedId.toString();
+  }
+
+  protected async doPublishResponse(
+    requesterUid: ServerId,
+    response: ClusterResponse
+  ): Promise<void> {
+    await this.collection.insertOne({ ...response, requesterUid, createdAt: new Date() });
+  }
+
+  handleDocument(document: TAdapterDocument): void {
+    if (document.requesterUid) {
+      if (document.requesterUid === this.uid) this.onResponse(document as ClusterResponse);
+      return;
+    }
+
+    this.onMessage(document as ClusterMessage, document._id.toString());
+  }
+
+  override close(): void {
+    super.close();
+    this.onClose();
+  }
+}
+
+const ensureEventsCollection = async (db: mongo.Db): Promise<mongo.Collection> => {
+  const existing = await db.listCollections({ name: EVENTS_COLLECTION }).toArray();
+  if (existing.length === 0) {
+    await db.createCollection(EVENTS_COLLECTION, {
+      capped: true,
+      size: EVENTS_COLLECTION_SIZE
+    });
+  }
+
+  return db.collection(EVENTS_COLLECTION);
+};
+
+/**
+ * Socket.IO adapter that relays broadcasts between server instances through a capped
+ * MongoDB collection. Every instance tails the collection, so a room broadcast reaches
+ * clients connected to any instance without needing a replica set or Redis.
+ */
+export const createMongoSocketAdapter = async (options: ClusterAdapterOptions = {}) => {
+  const db = mongoose.connection.db;
+  if (!db) {
+    throw new Error('MongoDB connection must be established before creating the socket adapter');
+  }
+
+  const collection = await ensureEventsCollection(db);
+  const adapters: Map<string, MongoSocketAdapter> = new Map();
+
+  const latest = await collection.find({}).sort({ $natural: -1 }).limit(1).next();
+  let lastId: mongo.ObjectId | undefined = latest?._id;
+
+  const tail = async (): Promise<void> => {
+    while (adapters.size > 0) {
+      try {
+        const cursor = collection.find<TAdapterDocument>(lastId ? { _id: { $gt: lastId } } : {}, {
+          tailable: true,
+          awaitData: true,
+          promoteBuffers: true
+        });
+
+        for await (const document of cursor) {
+          lastId = document._id;
+          adapters.get(document.nsp)?.handleDocument(document);
+        }
+      } catch (error) {
+        console.error('Socket adapter lost its MongoDB cursor, retrying:', error);
+      }
+
+      // A tailable cursor dies when it reaches an empty collection or on network errors
+      await new Promise(resolve => setTimeout(resolve, TAIL_RETRY_DELAY));
+    }
+  };
+
+  return function (nsp: any): MongoSocketAdapter {
+    const adapter = new MongoSocketAdapter(nsp, collection, options, () => {
+      adapters.delete(nsp.name);
+    });
+
+    const isFirstAdapter = adapters.size === 0;
+    adapters.set(nsp.name, adapter);
+    if (isFirstAdapter) void tail();
+
+    return adapter;
+  };
+};
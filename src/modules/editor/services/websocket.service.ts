@@ -3,6 +3,9 @@ import { Server as HttpServer } from 'http';
 import jwt from 'jsonwebtoken';
 import { collaborationService, eventEmitter } from './collaboration.service';
 import { richEditorService, IEditorOperation } from './rich-editor.service';
+import { getCollaborationSessionStore } from './collaboration-store.service';
+import { createMongoSocketAdapter } from './socket-adapter.service';
+import { TCollaborationStoreType } from '@/modules/editor/types/collaboration.types';
 
 export interface ISocketUser {
   userId: string;
@@ -22,6 +25,7 @@ export class WebSocketService {
   private io: SocketIOServer;
   private connectedUsers: Map<string, ISocketUser> = new Map();
   private recordSessions: Map<string, Set<string>> = new Map(); // recordId -> socketIds
+  private contentQueues: Map<string, Promise<void>> = new Map(); // recordId -> pending writes
 
   constructor(server: HttpServer) {
     this.io = new SocketIOServer(server, {
@@ -145,31 +149,61 @@ export class WebSocketService {
           try {
             const { recordId, operation } = data;
 
-            // Apply operation with operational transformation
+            // Rebase the operation on everything applied since its base version
             const result = await collaborationService.applyOperation(recordId, {
               ...operation,
               userId: socket.data.userId,
               timestamp: Date.now()
             });
 
-            // Apply the operation to the actual content
-            await this.applyOperationToContent(recordId, result.operation);
-
-            // Broadcast transformed operation to other participants
-            socket.to(`record:${recordId}`).emit('operation-applied', {
-              operation: result.transformedOperation,
-              userId: socket.data.userId,
-              timestamp: Date.now()
-            });
+            // Broadcast transformed operations to other participants
+            if (result.transformedOperations.length > 0) {
+              socket.to(`record:${recordId}`).emit('operation-applied', {
+                operations: result.transformedOperations,
+                version: result.version,
+                userId: socket.data.userId,
+                timestamp: Date.now()
+              });
+            }
 
             // Send acknowledgment to sender
             socket.emit('operation-acknowledged', {
-              operationId: operation.timestamp,
-              transformedOperation: result.transformedOperation,
+              operationId: operation.id ?? operation.timestamp,
+              version: result.version,
+              transformedOperations: result.transformedOperations,
               conflicts: result.conflicts
             });
           } catch (error) {
-            socket.emit('error', { message: 'Failed to apply operation' });
+            socket.emit('error', {
+              message: 'Failed to apply operation',
+              operationId: data.operation?.id ?? data.operation?.timestamp,
+              reason: error instanceof Error ? error.message : undefined
+            });
+          }
+        }
+      );
+
+      // Catch up on operations missed while offline, without reloading the content
+      socket.on(
+        'sync-operations',
+        async (data: { recordId: string; sinceVersion: number; limit?: number }) => {
+          try {
+            const { recordId, sinceVersion, limit } = data;
+
+            if (!socket.rooms.has(`record:${recordId}`)) {
+              socket.emit('error', { message: 'Join the record session before syncing' });
+              return;
+            }
+
+            const result = await collaborationService.getOperationsSince(
+              recordId,
+              Number(sinceVersion) || 0,
+              limit
+            );
+
+            socket.emit('operations-synced', result);
+          } catch (error) {
+            socket.emit('error', { message: 'Failed to sync operations' });
           }
         }
       );
@@ -293,6 +327,7 @@ export class WebSocketService {
 
     eventEmitter.on('operation-applied', event => {
       this.io.to(`record:${event.recordId}`).emit('collaboration-operation', event);
+      this.enqueueContentUpdate(event.recordId, event.version);
     });
 
     eventEmitter.on('cursor-updated', event => {
@@ -308,54 +343,28 @@ export class WebSocketService {
     });
   }
 
-  // Apply operation to actual content
-  private async applyOperationToContent(
-    recordId: string,
-    operation: IEditorOperation
-  ): Promise<void> {
-    try {
-      switch (operation.type) {
-        case 'insert':
-          if (operation.content && operation.blockId) {
-            await richEditorService.insertText(
-              recordId,
-              operation.blockId,
-              operation.position,
-              operation.content,
-              operation.formatting,
-              operation.userId
-            );
-          }
-          break;
-
-        case 'delete':
-          if (operation.blockId && operation.length) {
-            await richEditorService.deleteText(
-              recordId,
-              operation.blockId,
-              operation.position,
-              operation.position + operation.length,
-              operation.userId
-            );
-          }
-          break;
+  // Write versions to the content one at a time per record. Instances sharing the session
+  // store replay the shared operation log, the record keeps the last version written.
+  private enqueueContentUpdate(recordId: string, version: number): void {
+    const previous = this.contentQueues.get(recordId) || Promise.resolve();
+    const next = previous.then(async () => {
+      try {
+        await richEditorService.applyCollaborativeVersion(recordId, version);
+      } catch (error) {
+        console.error('Failed to apply operations to content:', error);
+      }
+    });
 
-        case 'format':
-          if (operation.blockId && operation.length && operation.formatting) {
-            await richEditorService.applyFormatting(
-              recordId,
-              operation.blockId,
-              operation.position,
-              operation.position + operation.length,
-              operation.formatting,
-              operation.userId
-            );
-          }
-          break;
+    this.contentQueues.set(recordId, next);
+    void next.then(() => {
+      if (this.contentQueues.get(recordId) === next) {
+        this.contentQueues.delete(recordId);
       }
-    } catch (error) {
-      console.error('Failed to apply operation to content:', error);
-    }
+    });
+  }
+
+  getServer(): SocketIOServer {
+    return this.io;
   }
 
   // Broadcast message to all users in a record session
@@ -423,8 +432,21 @@ export class WebSocketService {
 
 export let webSocketService: WebSocketService;
 
-export const initializeWebSocketService = (server: HttpServer): WebSocketService => {
+// Several instances (PM2 cluster mode) must share sessions and broadcasts through MongoDB
+const configureCollaborationStore = async (io: SocketIOServer): Promise<void> => {
+  const storeType: TCollaborationStoreType =
+    process.env.COLLABORATION_STORE === 'mongo' ? 'mongo' : 'memory';
+
+  collaborationService.useStore(getCollaborationSessionStore(storeType));
+
+  if (storeType === 'mongo') {
+    io.adapter(await createMongoSocketAdapter());
+  }
+};
+
+export const initializeWebSocketService = async (server: HttpServer): Promise<WebSocketService> => {
   webSocketService = new WebSocketService(server);
+  await configureCollaborationStore(webSocketService.getServer());
 
   // Cleanup inactive sessions every 5 minutes
   setInterval(
@@ -43,7 +43,73 @@ export interface ISelectionUpdate {
 
 export interface IOperationalTransform {
   operation: IEditorOperation;
-  transformedOperation: IEditorOperation;
+  transformedOperations: IEditorOperation[];
+  conflicts: IEditorOperation[];
+  version: number;
+}
+
+export interface IConflictResolution {
+  resolution: 'accept' | 'reject' | 'merge';
+  // Session version the client is in step with after the resolution
+  version: number;
+  results: IOperationalTransform[];
+}
+
+export interface IEditorOperationLogEntry {
+  recordId: string;
+  version: number;
+  sequence: number;
+  operationId?: string;
+  type: IEditorOperation['type'];
+  blockId?: string;
+  position: number;
+  length?: number;
+  content?: string;
+  formatting?: IEditorOperation['formatting'];
+  userId: string;
+  timestamp: number;
+  createdAt: Date;
+}
+
+export interface IOperationSyncResult {
+  recordId: string;
+  operations: IEditorOperation[];
+  version: number;
+  hasMore: boolean;
+}
+
+export type TCollaborationStoreType = 'memory' | 'mongo';
+
+export interface IDeleteSessionConditions {
+  // Only delete when no participant is active any more
+  idle?: boolean;
+  // Only delete when the session saw no activity since this date
+  inactiveSince?: Date;
+}
+
+// Backing store for collaboration sessions. The in-memory store only works for a single
+// process; shared stores let every server instance work on the same session.
+export interface ICollaborationSessionStore {
+  getSession(recordId: string): Promise<ICollaborationSession | null>;
+  // Returns the already stored session if another instance created it first
+  createSession(session: ICollaborationSession): Promise<ICollaborationSession>;
+  saveParticipant(
+    recordId: string,
+    participant: IParticipant
+  ): Promise<ICollaborationSession | null>;
+  // Appends operations as the next version; returns null if the session moved past expectedVersion
+  appendOperations(
+    recordId: string,
+    expectedVersion: number,
+    operations: IEditorOperation[],
+    maxHistory: number
+  ): Promise<ICollaborationSession | null>;
+  deleteSession(recordId: string, conditions?: IDeleteSessionConditions): Promise<boolean>;
+  findInactiveSessions(inactiveSince: Date): Promise<ICollaborationSession[]>;
+}
+
+export interface ITransformResult {
+  operations: IEditorOperation[];
   conflicts: IEditorOperation[];
 }
 
@@ -7,6 +7,9 @@ export interface IEditorOperation {
   blockId?: string;
   timestamp: number;
   userId: string;
+  id?: string;
+  baseVersion?: number;
+  version?: number;
 }
 
 export interface IEditorState {
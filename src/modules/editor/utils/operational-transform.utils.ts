@@ -0,0 +1,223 @@
+import { IEditorOperation, ITextAnnotations } from '../types/editor.types';
+import { ITransformResult } from '../types/collaboration.types';
+
+interface ISingleTransform {
+  operations: IEditorOperation[];
+  hasConflict: boolean;
+}
+
+const unchanged = (operation: IEditorOperation): ISingleTransform => ({
+  operations: [operation],
+  hasConflict: false
+});
+
+export const getOperationLength = (operation: IEditorOperation): number =>
+  operation.type === 'insert' ? operation.content?.length || 0 : operation.length || 0;
+
+// Replace is rebased as a delete followed by an insert; empty operations are dropped
+export const normalizeOperation = (operation: IEditorOperation): IEditorOperation[] => {
+  if (operation.type === 'replace') {
+    const operations: IEditorOperation[] = [];
+    if (operation.length) {
+      operations.push({ ...operation, type: 'delete', content: undefined });
+    }
+    if (operation.content) {
+      operations.push({ ...operation, type: 'insert', length: undefined });
+    }
+    return operations;
+  }
+
+  return getOperationLength(operation) > 0 ? [operation] : [];
+};
+
+// Map the range [start, start + length) through a deletion of [deleteStart, deleteStart + deleteLength)
+const shrinkRange = (
+  start: number,
+  length: number,
+  deleteStart: number,
+  deleteLength: number
+): { position: number; length: number; overlap: number } => {
+  const deleteEnd = deleteStart + deleteLength;
+  const overlap = Math.max(0, Math.min(start + length, deleteEnd) - Math.max(start, deleteStart));
+  const removedBefore = Math.max(0, Math.min(deleteEnd, start) - deleteStart);
+
+  return { position: start - removedBefore, length: length - overlap, overlap };
+};
+
+const getClashingKeys = (
+  formatting: Partial<ITextAnnotations> = {},
+  other: Partial<ITextAnnotations> = {}
+): string[] =>
+  Object.keys(formatting).filter(
+    key =>
+      key in other &&
+      JSON.stringify(formatting[key as keyof ITextAnnotations]) !==
+        JSON.stringify(other[key as keyof ITextAnnotations])
+  );
+
+// A format that was applied first loses the overlapping attributes to the later one
+const transformFormatAgainstFormat = (
+  operation: IEditorOperation,
+  applied: IEditorOperation,
+  operationFirst: boolean
+): ISingleTransform => {
+  const start = operation.position;
+  const end = start + (operation.length || 0);
+  const overlapStart = Math.max(start, applied.position);
+  const overlapEnd = Math.min(end, applied.position + (applied.length || 0));
+  const clashingKeys = getClashingKeys(operation.formatting, applied.formatting);
+
+  if (overlapStart >= overlapEnd || clashingKeys.length === 0) return unchanged(operation);
+  if (!operationFirst) return { operations: [operation], hasConflict: true };
+
+  const remaining = Object.fromEntries(
+    Object.entries(operation.formatting || {}).filter(([key]) => !clashingKeys.includes(key))
+  ) as Partial<ITextAnnotations>;
+
+  const operations: IEditorOperation[] = [];
+  if (overlapStart > start) {
+    operations.push({ ...operation, length: overlapStart - start });
+  }
+  if (Object.keys(remaining).length > 0) {
+    operations.push({
+      ...operation,
+      position: overlapStart,
+      length: overlapEnd - overlapStart,
+      formatting: remaining
+    });
+  }
+  if (end > overlapEnd) {
+    operations.push({ ...operation, position: overlapEnd, length: end - overlapEnd });
+  }
+
+  return { operations, hasConflict: true };
+};
+
+/**
+ * Transform `operation` so it applies after `applied`, both having been created against
+ * the same document state. `operationFirst` breaks ties between inserts at the same
+ * position and decides which overlapping format wins; the server always passes `false`
+ * for the incoming operation, so the operation it applied earlier keeps its place.
+ *
+ * Deletes and formats that straddle a concurrent insert are split around it, so the
+ * result may contain zero, one or two operations. Split deletes are ordered back to
+ * front so every piece can be applied in sequence.
+ */
+export const transformOperation = (
+  operation: IEditorOperation,
+  applied: IEditorOperation,
+  operationFirst: boolean
+): ISingleTransform => {
+  if (operation.blockId !== applied.blockId) return unchanged(operation);
+
+  const appliedLength = getOperationLength(applied);
+
+  if (operation.type === 'insert') {
+    if (applied.type === 'insert') {
+      const shift =
+        applied.position < operation.position ||
+        (applied.position === operation.position && !operationFirst);
+      return unchanged(
+        shift ? { ...operation, position: operation.position + appliedLength } : operation
+      );
+    }
+
+    if (applied.type === 'delete') {
+      const { position } = shrinkRange(operation.position, 0, applied.position, appliedLength);
+      const insideDeletion =
+        operation.position > applied.position &&
+        operation.position < applied.position + appliedLength;
+      return { operations: [{ ...operation, position }], hasConflict: insideDeletion };
+    }
+
+    return unchanged(operation);
+  }
+
+  // Remaining operations (delete, format) cover a range of the block
+  const start = operation.position;
+  const end = start + (operation.length || 0);
+
+  if (applied.type === 'insert') {
+    if (applied.position <= start) {
+      return unchanged({ ...operation, position: start + appliedLength });
+    }
+    if (applied.position >= end) return unchanged(operation);
+
+    const head: IEditorOperation = { ...operation, length: applied.position - start };
+    const tail: IEditorOperation = {
+      ...operation,
+      position: applied.position + appliedLength,
+      length: end - applied.position
+    };
+    return { operations: [tail, head], hasConflict: false };
+  }
+
+  if (applied.type === 'delete') {
+    const range = shrinkRange(start, end - start, applied.position, appliedLength);
+    return {
+      operations:
+        range.length > 0 ? [{ ...operation, position: range.position, length: range.length }] : [],
+      hasConflict: range.overlap > 0
+    };
+  }
+
+  if (operation.type === 'format' && applied.type === 'format') {
+    return transformFormatAgainstFormat(operation, applied, operationFirst);
+  }
+
+  return unchanged(operation);
+};
+
+/**
+ * Transform two concurrent operation sequences against each other. Returns the
+ * `operations` rebased to apply after `applied`, and `applied` rebased to apply after
+ * `operations`. Operations in `applied` win ties. Conflicting applied operations are
+ * collected into `conflicts`.
+ */
+export const transformOperationLists = (
+  operations: IEditorOperation[],
+  applied: IEditorOperation[],
+  conflicts: IEditorOperation[] = []
+): [IEditorOperation[], IEditorOperation[]] => {
+  if (operations.length === 0 || applied.length === 0) return [operations, applied];
+
+  if (operations.length > 1) {
+    const [head, ...rest] = operations;
+    const [headPrime, appliedPrime] = transformOperationLists([head], applied, conflicts);
+    const [restPrime, appliedFinal] = transformOperationLists(rest, appliedPrime, conflicts);
+    return [[...headPrime, ...restPrime], appliedFinal];
+  }
+
+  if (applied.length > 1) {
+    const [first, ...rest] = applied;
+    const [operationPrime, firstPrime] = transformOperationLists(operations, [first], conflicts);
+    const [operationFinal, restPrime] = transformOperationLists(operationPrime, rest, conflicts);
+    return [operationFinal, [...firstPrime, ...restPrime]];
+  }
+
+  const forward = transformOperation(operations[0], applied[0], false);
+  const backward = transformOperation(applied[0], operations[0], true);
+
+  if (forward.hasConflict) conflicts.push(applied[0]);
+
+  return [forward.operations, backward.operations];
+};
+
+// Rebase an operation on top of every operation applied since its base version
+export const rebaseOperation = (
+  operation: IEditorOperation,
+  history: IEditorOperation[]
+): ITransformResult => {
+  let operations = normalizeOperation(operation);
+  const conflicts: IEditorOperation[] = [];
+
+  for (const applied of history) {
+    if (operations.length === 0) break;
+
+    const found: IEditorOperation[] = [];
+    [operations] = transformOperationLists(operations, [applied], found);
+    if (found.length > 0) conflicts.push(applied);
+  }
+
+  return { operations, conflicts };
+};
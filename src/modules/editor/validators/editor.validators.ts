@@ -122,16 +122,18 @@ export const convertFormatSchema = z.object({
 
 // Resolve conflicts schema
 export const resolveConflictsSchema = z.object({
+  // With 'merge', the client's own operations to rebase and apply
   conflicts: z.array(
     z.object({
       type: z.enum(['insert', 'delete', 'format', 'replace']),
       position: z.number(),
       length: z.number().optional(),
       content: z.string().optional(),
-      formatting: z.object({}).optional(),
+      formatting: z.record(z.string(), z.any()).optional(),
       blockId: z.string().optional(),
       timestamp: z.number(),
-      userId: z.string()
+      id: z.string().optional(),
+      baseVersion: z.number().int().min(0).optional()
     })
   ),
   resolution: z.enum(['accept', 'reject', 'merge'])
@@ -14,7 +14,9 @@ export {
   sendEmail,
   sendPasswordResetEmail,
   sendWelcomeEmail,
-  sendPasswordResetConfirmation
+  sendPasswordResetConfirmation,
+  sendWorkspaceInvitationEmail,
+  sendNotificationDigestEmail
 } from './services/email.services';
 
 // Types
@@ -22,7 +24,10 @@ export type {
   IEmailOptions,
   IPasswordResetEmailOptions,
   IWelcomeEmailOptions,
+  IWorkspaceInvitationEmailOptions,
   INotificationEmailOptions,
+  INotificationDigestEmailGroup,
+  INotificationDigestEmailOptions,
   IEmailTemplate,
   IEmailSendResult,
   IEmailConfig
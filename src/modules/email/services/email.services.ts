@@ -1,4 +1,13 @@
-import type { IEmailOptions } from '../types';
+import type {
+  IEmailOptions,
+  INotificationDigestEmailGroup,
+  INotificationDigestEmailOptions,
+  IWorkspaceInvitationEmailOptions
+} from '../types';
+
+// Invitation messages and notification titles are written by users
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
 
 // ===================================
 // EMAIL SERVICE
@@ -119,6 +128,118 @@ export const emailService = {
       `
     };
 
+    return await emailService.sendEmail(emailOptions);
+  },
+
+  sendWorkspaceInvitationEmail: async (
+    options: IWorkspaceInvitationEmailOptions
+  ): Promise<boolean> => {
+    const acceptUrl = `${process.env.FRONTEND_URL || 'http://localhost:5000'}/invitations/accept?token=${options.token}`;
+    const expiresOn = options.expiresAt.toDateString();
+
+    const emailOptions: IEmailOptions = {
+      to: options.email,
+      subject: `${options.inviterName} invited you to ${options.workspaceName}`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2>Join ${options.workspaceName} on Second Brain</h2>
+          <p>${options.inviterName} invited you to join the workspace <strong>${options.workspaceName}</strong> as ${options.role}.</p>
+          ${options.message ? `<blockquote style="border-left: 3px solid #ddd; margin: 0; padding-left: 12px;">${escapeHtml(options.message)}</blockquote>` : ''}
+          <a href="${acceptUrl}" style="background-color: #007bff; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px; display: inline-block;">
+            Accept Invitation
+          </a>
+          <p>This invitation expires on ${expiresOn}.</p>
+          <p>If you don't want to join this workspace, you can ignore this email.</p>
+        </div>
+      `,
+      text: `
+        Join ${options.workspaceName} on Second Brain
+
+        ${options.inviterName} invited you to join the workspace ${options.workspaceName} as ${options.role}.
+        ${options.message ? `"${options.message}"` : ''}
+
+        Use the following link to accept the invitation:
+        ${acceptUrl}
+
+        This invitation expires on ${expiresOn}.
+
+        If you don't want to join this workspace, you can ignore this email.
+      `
+    };
+
+    return await emailService.sendEmail(emailOptions);
+  },
+
+  sendNotificationDigestEmail: async (
+    options: INotificationDigestEmailOptions
+  ): Promise<boolean> => {
+    const notificationsUrl = `${process.env.FRONTEND_URL || 'http://localhost:5000'}/notifications`;
+    const period = options.frequency === 'weekly' ? 'week' : 'day';
+    const summary = `${options.total} unread notification${options.total === 1 ? '' : 's'}`;
+
+    const groupTitle = (group: INotificationDigestEmailGroup) =>
+      `${group.label}${group.entityName ? `: ${group.entityName}` : ''} (${group.count})`;
+
+    const htmlWorkspaces = options.workspaces
+      .map(
+        workspace => `
+          <h3 style="margin-bottom: 4px;">${escapeHtml(workspace.workspaceName)}</h3>
+          <ul style="padding-left: 20px;">
+            ${workspace.groups
+              .map(
+                group => `
+              <li style="margin-bottom: 8px;">
+                ${group.actionUrl ? `<a href="${escapeHtml(group.actionUrl)}">${escapeHtml(groupTitle(group))}</a>` : `<strong>${escapeHtml(groupTitle(group))}</strong>`}
+                <div style="color: #555;">${group.titles.map(escapeHtml).join('<br>')}</div>
+              </li>`
+              )
+              .join('')}
+          </ul>`
+      )
+      .join('');
+
+    const textWorkspaces = options.workspaces
+      .map(
+        workspace =>
+          `${workspace.workspaceName}\n` +
+          workspace.groups
+            .map(
+              group =>
+                `  - ${groupTitle(group)}\n` +
+                group.titles.map(title => `      ${title}`).join('\n') +
+                (group.actionUrl ? `\n      ${group.actionUrl}` : '')
+            )
+            .join('\n')
+      )
+      .join('\n\n');
+
+    const emailOptions: IEmailOptions = {
+      to: options.email,
+      subject: `Your ${options.frequency} digest: ${summary}`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2>Hello ${escapeHtml(options.userName)},</h2>
+          <p>You have ${summary} from the past ${period}.</p>
+          ${htmlWorkspaces}
+          <a href="${notificationsUrl}" style="background-color: #007bff; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px; display: inline-block;">
+            View All Notifications
+          </a>
+          <p>You receive this digest because email digests are enabled in your notification settings.</p>
+        </div>
+      `,
+      text: `
+        Hello ${options.userName},
+
+        You have ${summary} from the past ${period}.
+
+${textWorkspaces}
+
+        View all notifications: ${notificationsUrl}
+
+        You receive this digest because email digests are enabled in your notification settings.
+      `
+    };
+
     return await emailService.sendEmail(emailOptions);
   }
 };
@@ -132,3 +253,9 @@ export const sendWelcomeEmail = (email: string, name: string) =>
 
 export const sendPasswordResetConfirmation = (email: string) =>
   emailService.sendPasswordResetConfirmation(email);
+
+export const sendWorkspaceInvitationEmail = (options: IWorkspaceInvitationEmailOptions) =>
+  emailService.sendWorkspaceInvitationEmail(options);
+
+export const sendNotificationDigestEmail = (options: INotificationDigestEmailOptions) =>
+  emailService.sendNotificationDigestEmail(options);
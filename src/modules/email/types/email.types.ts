@@ -15,6 +15,16 @@ export interface IWelcomeEmailOptions {
   name: string;
 }
 
+export interface IWorkspaceInvitationEmailOptions {
+  email: string;
+  token: string;
+  workspaceName: string;
+  inviterName: string;
+  role: string;
+  message?: string;
+  expiresAt: Date;
+}
+
 export interface INotificationEmailOptions {
   email: string;
   title: string;
@@ -23,6 +33,25 @@ export interface INotificationEmailOptions {
   actionText?: string;
 }
 
+export interface INotificationDigestEmailGroup {
+  label: string;
+  entityName?: string;
+  count: number;
+  titles: string[];
+  actionUrl?: string;
+}
+
+export interface INotificationDigestEmailOptions {
+  email: string;
+  userName: string;
+  frequency: 'daily' | 'weekly';
+  total: number;
+  workspaces: Array<{
+    workspaceName: string;
+    groups: INotificationDigestEmailGroup[];
+  }>;
+}
+
 export interface IEmailTemplate {
   subject: string;
   html: string;
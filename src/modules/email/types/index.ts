@@ -3,7 +3,10 @@ export type {
   IEmailOptions,
   IPasswordResetEmailOptions,
   IWelcomeEmailOptions,
+  IWorkspaceInvitationEmailOptions,
   INotificationEmailOptions,
+  INotificationDigestEmailGroup,
+  INotificationDigestEmailOptions,
   IEmailTemplate,
   IEmailSendResult,
   IEmailConfig
@@ -1,7 +1,13 @@
 import { Request, Response, NextFunction } from 'express';
-import { catchAsync, sendSuccessResponse, createNotFoundError } from '../../../utils';
+import {
+  catchAsync,
+  sendSuccessResponse,
+  createNotFoundError,
+  createBadRequestError
+} from '../../../utils';
 import { AuthenticatedRequest } from '../../../middlewares/auth';
 import * as filesService from '../services/files.service';
+import { getWorkspaceId } from '@/modules/workspace/middleware/workspace.middleware';
 
 /**
  * Upload a single file
@@ -11,11 +17,14 @@ export const uploadFile = catchAsync(
     const userId = req?.user?.userId;
     if (!userId) return next(createNotFoundError('User authentication required'));
 
+    const workspaceId = getWorkspaceId(req);
+    if (!workspaceId) return next(createBadRequestError('Workspace ID is required'));
+
     if (!req.file) {
       return next(createNotFoundError('No file provided'));
     }
 
-    const { description, category, isPublic } = req.body;
+    const { description, category, isPublic, databaseId, recordId } = req.body;
 
     const fileData = {
       buffer: req.file.buffer,
@@ -24,10 +33,12 @@ export const uploadFile = catchAsync(
       size: req.file.size,
       description,
       category,
-      isPublic: isPublic === 'true'
+      isPublic: isPublic === 'true',
+      databaseId,
+      recordId
     };
 
-    const file = await filesService.uploadFile(userId, fileData);
+    const file = await filesService.uploadFile(userId, workspaceId, fileData);
     sendSuccessResponse(res, 'File uploaded successfully', file, 201);
   }
 );
@@ -40,12 +51,15 @@ export const bulkUploadFiles = catchAsync(
     const userId = (req as AuthenticatedRequest).user.userId;
     if (!userId) return next(createNotFoundError('User authentication required'));
 
+    const workspaceId = getWorkspaceId(req);
+    if (!workspaceId) return next(createBadRequestError('Workspace ID is required'));
+
     const files = req.files;
     if (!files || !Array.isArray(files) || files.length === 0) {
       return next(createNotFoundError('No files provided'));
     }
 
-    const { category, isPublic } = req.body;
+    const { category, isPublic, databaseId, recordId } = req.body;
 
     const filesData = files.map(file => ({
       buffer: file.buffer,
@@ -53,10 +67,12 @@ export const bulkUploadFiles = catchAsync(
       mimeType: file.mimetype,
       size: file.size,
       category,
-      isPublic: isPublic === 'true'
+      isPublic: isPublic === 'true',
+      databaseId,
+      recordId
     }));
 
-    const uploadedFiles = await filesService.bulkUploadFiles(userId, filesData);
+    const uploadedFiles = await filesService.bulkUploadFiles(userId, workspaceId, filesData);
     sendSuccessResponse(res, 'Files uploaded successfully', uploadedFiles, 201);
   }
 );
@@ -116,17 +132,38 @@ export const getUserFiles = catchAsync(
     const userId = (req as AuthenticatedRequest).user.userId;
     if (!userId) return next(createNotFoundError('User authentication required'));
 
+    const workspaceId = getWorkspaceId(req);
+    if (!workspaceId) return next(createBadRequestError('Workspace ID is required'));
+
     const queryParams = {
       category: req.query.category as string,
       search: req.query.search as string,
       mimeType: req.query.mimeType as string,
+      databaseId: req.query.databaseId as string,
+      recordId: req.query.recordId as string,
       sortBy: req.query.sortBy as 'name' | 'size' | 'createdAt' | 'updatedAt',
       sortOrder: req.query.sortOrder as 'asc' | 'desc',
       page: req.query.page ? parseInt(req.query.page as string) : undefined,
       limit: req.query.limit ? parseInt(req.query.limit as string) : undefined
     };
 
-    const result = await filesService.getUserFiles(userId, queryParams);
+    const result = await filesService.getUserFiles(userId, workspaceId, queryParams);
     sendSuccessResponse(res, 'Files retrieved successfully', result);
   }
 );
+
+/**
+ * Get storage usage of the workspace and the user against their quotas
+ */
+export const getStorageUsage = catchAsync(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const userId = (req as AuthenticatedRequest).user.userId;
+    if (!userId) return next(createNotFoundError('User authentication required'));
+
+    const workspaceId = getWorkspaceId(req);
+    if (!workspaceId) return next(createBadRequestError('Workspace ID is required'));
+
+    const usage = await filesService.getStorageUsage(workspaceId, userId);
+    sendSuccessResponse(res, 'Storage usage retrieved successfully', usage);
+  }
+);
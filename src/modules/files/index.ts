@@ -8,7 +8,8 @@ export {
   getFileById,
   downloadFile,
   deleteFile,
-  getUserFiles
+  getUserFiles,
+  getStorageUsage
 } from './controllers/files.controller';
 
 // Services
@@ -19,16 +20,32 @@ export {
   getFileById as getFileByIdService,
   downloadFile as downloadFileService,
   deleteFile as deleteFileService,
-  getUserFiles as getUserFilesService
+  getUserFiles as getUserFilesService,
+  getStorageUsage as getStorageUsageService
 } from './services/files.service';
+export { initializeFileCleanup } from './services/file-cleanup.service';
+
+// Storage
+export {
+  getStorage,
+  setStorage,
+  createStorageFromEnv,
+  createLocalStorage,
+  createMemoryStorage,
+  createS3Storage
+} from './storage';
 
 // Types
 export type {
   TFileUploadData,
   TFileResponse,
   TFileQueryParams,
-  TFilesListResponse
+  TFilesListResponse,
+  TStorageAdapter,
+  TStorageQuota,
+  TStorageUsage
 } from './types/files.types';
+export { EStorageDriver } from './types/files.types';
 
 // Validators
 export * from './validators/files.validators';
@@ -1,7 +1,11 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { EStorageDriver } from '../types/files.types';
 
 export interface IFile extends Document {
   userId: string;
+  workspaceId: string;
+  databaseId?: string;
+  recordId?: string;
   originalName: string;
   fileName: string;
   mimeType: string;
@@ -10,6 +14,9 @@ export interface IFile extends Document {
   description?: string;
   category?: string;
   isPublic: boolean;
+  hash: string;
+  storageKey: string;
+  storageDriver: EStorageDriver;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -20,6 +27,17 @@ const FileSchema = new Schema<IFile>(
       type: String,
       required: true
     },
+    workspaceId: {
+      type: String,
+      required: true
+    },
+    // Record or database the file is attached to, removed with it
+    databaseId: {
+      type: String
+    },
+    recordId: {
+      type: String
+    },
     originalName: {
       type: String,
       required: true
@@ -51,6 +69,21 @@ const FileSchema = new Schema<IFile>(
     isPublic: {
       type: Boolean,
       default: false
+    },
+
+    // Content, shared by files of a workspace with the same SHA-256 hash
+    hash: {
+      type: String,
+      required: true
+    },
+    storageKey: {
+      type: String,
+      required: true
+    },
+    storageDriver: {
+      type: String,
+      enum: Object.values(EStorageDriver),
+      required: true
     }
   },
   {
@@ -59,9 +92,11 @@ const FileSchema = new Schema<IFile>(
     toJSON: {
       virtuals: true,
       versionKey: false,
-      transform: (doc, ret) => {
+      transform: (doc, ret: Record<string, any>) => {
         ret.id = ret._id;
         delete ret._id;
+        delete ret.storageKey;
+        delete ret.storageDriver;
         return ret;
       }
     }
@@ -73,5 +108,9 @@ FileSchema.index({ userId: 1, createdAt: -1 });
 FileSchema.index({ userId: 1, category: 1 });
 FileSchema.index({ userId: 1, mimeType: 1 });
 FileSchema.index({ isPublic: 1 });
+FileSchema.index({ workspaceId: 1, hash: 1 });
+FileSchema.index({ workspaceId: 1, userId: 1 });
+FileSchema.index({ databaseId: 1 });
+FileSchema.index({ recordId: 1 });
 
 export const FileModel = mongoose.model<IFile>('File', FileSchema);
@@ -4,6 +4,10 @@ import { authenticateToken } from '../../../middlewares/auth';
 import { validateBody, validateParams, validateQuery } from '../../../middlewares/validation';
 import * as filesController from '../controllers/files.controller';
 import * as validators from '../validators/files.validators';
+import {
+  ensureDefaultWorkspace,
+  resolveWorkspaceContext
+} from '@/modules/workspace/middleware/workspace.middleware';
 
 const router = Router();
 
@@ -42,10 +46,16 @@ const upload = multer({
   }
 });
 
+router.use(authenticateToken);
+router.use(resolveWorkspaceContext({ allowFromBody: true }));
+router.use(ensureDefaultWorkspace);
+
+// Storage usage and quotas of the current workspace
+router.get('/usage', filesController.getStorageUsage);
+
 // Single file upload
 router.post(
   '/upload',
-  authenticateToken,
   upload.single('file'),
   validateBody(validators.uploadFileSchema),
   filesController.uploadFile
@@ -54,42 +64,21 @@ router.post(
 // Bulk file upload
 router.post(
   '/bulk-upload',
-  authenticateToken,
   upload.array('files', 10), // Max 10 files
   validateBody(validators.bulkUploadSchema),
   filesController.bulkUploadFiles
 );
 
 // Get file details
-router.get(
-  '/:id',
-  authenticateToken,
-  validateParams(validators.fileIdSchema),
-  filesController.getFileById
-);
+router.get('/:id', validateParams(validators.fileIdSchema), filesController.getFileById);
 
 // Download file
-router.get(
-  '/:id/download',
-  authenticateToken,
-  validateParams(validators.fileIdSchema),
-  filesController.downloadFile
-);
+router.get('/:id/download', validateParams(validators.fileIdSchema), filesController.downloadFile);
 
 // Delete file
-router.delete(
-  '/:id',
-  authenticateToken,
-  validateParams(validators.fileIdSchema),
-  filesController.deleteFile
-);
+router.delete('/:id', validateParams(validators.fileIdSchema), filesController.deleteFile);
 
 // List user's files
-router.get(
-  '/',
-  authenticateToken,
-  validateQuery(validators.getFilesQuerySchema),
-  filesController.getUserFiles
-);
+router.get('/', validateQuery(validators.getFilesQuerySchema), filesController.getUserFiles);
 
 export default router;
@@ -0,0 +1,15 @@
+import cron from 'node-cron';
+import { filesService } from './files.service';
+
+/**
+ * Initialize the daily removal of files left behind by deleted databases and records
+ */
+export const initializeFileCleanup = (): void => {
+  cron.schedule('30 3 * * *', async () => {
+    try {
+      await filesService.cleanupOrphanedFiles();
+    } catch (error) {
+      console.error('Error cleaning up orphaned files:', error);
+    }
+  });
+};
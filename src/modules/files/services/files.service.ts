@@ -1,7 +1,216 @@
-import { createNotFoundError, createBadRequestError } from '../../../utils';
-import { FileModel } from '../models/file.model';
-import { uploadBufferToS3, deleteFromS3 } from '../../../config';
-import { TFileUploadData, TFileQueryParams, TFileResponse } from '../types/files.types';
+import { createHash } from 'crypto';
+import {
+  createAppError,
+  createNotFoundError,
+  createBadRequestError,
+  createForbiddenError
+} from '../../../utils';
+import { FileModel, IFile } from '../models/file.model';
+import { getStorage } from '../storage';
+import {
+  TFileUploadData,
+  TFileQueryParams,
+  TFileResponse,
+  TStorageQuota,
+  TStorageUsage
+} from '../types/files.types';
+import { WorkspaceModel } from '@/modules/workspace/models/workspace.model';
+import { WorkspaceMemberModel } from '@/modules/workspace/models/workspace-member.model';
+import { DatabaseModel } from '@/modules/database/models/database.model';
+import { RecordModel } from '@/modules/database/models/record.model';
+import { permissionService } from '@/modules/permissions/services/permission.service';
+import { EPermissionLevel, EShareScope } from '@/modules/core/types/permission.types';
+
+// Files whose attachment is checked at once by the orphan cleanup
+const ORPHAN_CLEANUP_BATCH_SIZE = 500;
+
+const formatBytes = (bytes: number): string => {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${Math.round(value * 10) / 10} ${units[unit]}`;
+};
+
+const getContentKey = (workspaceId: string, hash: string): string =>
+  `workspaces/${workspaceId}/${hash}`;
+
+/**
+ * Storage used by the files matching a query. Files with the same content share their
+ * storage, so each content hash is counted once.
+ */
+const getUsage = async (
+  match: Record<string, unknown>
+): Promise<{ used: number; fileCount: number }> => {
+  const [usage] = await FileModel.aggregate([
+    { $match: match },
+    { $group: { _id: '$hash', size: { $first: '$size' }, count: { $sum: 1 } } },
+    { $group: { _id: null, used: { $sum: '$size' }, fileCount: { $sum: '$count' } } }
+  ]);
+
+  return { used: usage?.used || 0, fileCount: usage?.fileCount || 0 };
+};
+
+const toQuota = (usage: { used: number; fileCount: number }, limit?: number): TStorageQuota => ({
+  used: usage.used,
+  limit: limit ?? null,
+  available: limit === undefined ? null : Math.max(0, limit - usage.used),
+  fileCount: usage.fileCount
+});
+
+const refreshWorkspaceStorage = async (workspaceId: string): Promise<void> => {
+  const { used } = await getUsage({ workspaceId });
+  await WorkspaceModel.updateOne({ _id: workspaceId }, { storageUsed: used });
+};
+
+/**
+ * Reject an upload that would take the workspace or the member over their storage
+ * quota. Content already stored for the workspace, or already uploaded by the member,
+ * takes no extra space.
+ */
+const checkQuota = async (
+  workspaceId: string,
+  userId: string,
+  hash: string,
+  size: number
+): Promise<void> => {
+  const workspace = await WorkspaceModel.findById(workspaceId);
+  if (!workspace) {
+    throw createNotFoundError('Workspace', workspaceId);
+  }
+
+  const [storedInWorkspace, storedByUser] = await Promise.all([
+    FileModel.exists({ workspaceId, hash }),
+    FileModel.exists({ workspaceId, userId, hash })
+  ]);
+
+  const storageLimit = workspace.config?.storageLimit;
+  if (!storedInWorkspace && storageLimit !== undefined) {
+    const { used } = await getUsage({ workspaceId });
+    if (used + size > storageLimit) {
+      throw createAppError(
+        `Workspace storage quota exceeded: ${formatBytes(used)} of ${formatBytes(storageLimit)} used`,
+        413
+      );
+    }
+  }
+
+  const memberStorageLimit = workspace.config?.memberStorageLimit;
+  if (!storedByUser && memberStorageLimit !== undefined) {
+    const { used } = await getUsage({ workspaceId, userId });
+    if (used + size > memberStorageLimit) {
+      throw createAppError(
+        `Your storage quota in this workspace is exceeded: ${formatBytes(used)} of ${formatBytes(memberStorageLimit)} used`,
+        413
+      );
+    }
+  }
+};
+
+/**
+ * The database and record a file is attached to, checked to be in the workspace and
+ * editable by the uploader
+ */
+const resolveAttachment = async (
+  workspaceId: string,
+  userId: string,
+  fileData: TFileUploadData
+): Promise<{ databaseId?: string; recordId?: string }> => {
+  if (!fileData.recordId && !fileData.databaseId) return {};
+
+  let databaseId = fileData.databaseId;
+  if (fileData.recordId) {
+    const record = await RecordModel.findOne({
+      _id: fileData.recordId,
+      isDeleted: { $ne: true }
+    });
+    if (!record) throw createNotFoundError('Record', fileData.recordId);
+    if (databaseId && record.databaseId !== databaseId) {
+      throw createBadRequestError('Record does not belong to the database');
+    }
+    databaseId = record.databaseId;
+  }
+
+  const database = await DatabaseModel.findById(databaseId);
+  if (!database || database.workspaceId !== workspaceId) {
+    throw createNotFoundError('Database', databaseId);
+  }
+
+  const canEdit = fileData.recordId
+    ? await permissionService.hasPermission(
+        EShareScope.RECORD,
+        fileData.recordId,
+        userId,
+        EPermissionLevel.EDIT
+      )
+    : await permissionService.hasPermission(
+        EShareScope.DATABASE,
+        database.id,
+        userId,
+        EPermissionLevel.EDIT
+      );
+  if (!canEdit) {
+    throw createForbiddenError('Insufficient permissions to attach files here');
+  }
+
+  return { databaseId: database.id, recordId: fileData.recordId };
+};
+
+// Whether a user can read what a file is attached to: the record when there is one,
+// else the database
+const canReadAttachment = (
+  userId: string,
+  attachment: { databaseId?: string; recordId?: string }
+): Promise<boolean> =>
+  attachment.recordId
+    ? permissionService.hasPermission(
+        EShareScope.RECORD,
+        attachment.recordId,
+        userId,
+        EPermissionLevel.READ
+      )
+    : permissionService.hasPermission(
+        EShareScope.DATABASE,
+        attachment.databaseId!,
+        userId,
+        EPermissionLevel.READ
+      );
+
+// Whether a user can see a file: its uploader, anyone when it is public, readers of the
+// record or database it is attached to, and members of its workspace for other files
+const canAccessFile = async (file: IFile, userId: string): Promise<boolean> => {
+  if (file.userId === userId || file.isPublic) return true;
+  if (file.recordId || file.databaseId) {
+    return canReadAttachment(userId, { databaseId: file.databaseId, recordId: file.recordId });
+  }
+  return Boolean(await WorkspaceMemberModel.findMember(file.workspaceId, userId));
+};
+
+/**
+ * Remove file documents, and the stored content that no other file shares
+ */
+const removeFiles = async (files: IFile[]): Promise<void> => {
+  if (files.length === 0) return;
+
+  await FileModel.deleteMany({ _id: { $in: files.map(file => file._id) } });
+
+  const storage = getStorage();
+  const keys = [...new Set(files.map(file => file.storageKey))];
+  for (const key of keys) {
+    if (await FileModel.exists({ storageKey: key })) continue;
+    try {
+      await storage.delete(key);
+    } catch (error) {
+      console.error('Failed to delete file from storage:', error);
+    }
+  }
+
+  const workspaceIds = [...new Set(files.map(file => file.workspaceId))];
+  await Promise.all(workspaceIds.map(refreshWorkspaceStorage));
+};
 
 // ===================================
 // FILES SERVICE
@@ -17,57 +226,75 @@ export const filesService = {
   },
 
   /**
-   * Upload a single file
+   * Upload a single file to a workspace. Content already stored for the workspace is
+   * reused instead of stored again.
    */
-  uploadFile: async (userId: string, fileData: TFileUploadData): Promise<TFileResponse> => {
+  uploadFile: async (
+    userId: string,
+    workspaceId: string,
+    fileData: TFileUploadData
+  ): Promise<TFileResponse> => {
     try {
-      // Upload to S3 directly from memory buffer
-      const fileUrl = await uploadBufferToS3(
-        fileData.buffer,
-        fileData.originalName,
-        fileData.mimeType
-      );
+      const hash = createHash('sha256').update(fileData.buffer).digest('hex');
+      const attachment = await resolveAttachment(workspaceId, userId, fileData);
+      await checkQuota(workspaceId, userId, hash, fileData.size);
+
+      const storage = getStorage();
+      const storageKey = getContentKey(workspaceId, hash);
+      if (!(await storage.exists(storageKey))) {
+        await storage.put(storageKey, fileData.buffer, fileData.mimeType);
+      }
 
       const file = new FileModel({
         userId,
+        workspaceId,
+        ...attachment,
         originalName: fileData.originalName,
         fileName: fileData.originalName,
         mimeType: fileData.mimeType,
         size: fileData.size,
-        url: fileUrl,
         description: fileData.description,
         category: fileData.category,
-        isPublic: fileData.isPublic || false
+        isPublic: fileData.isPublic || false,
+        hash,
+        storageKey,
+        storageDriver: storage.driver
       });
+      file.url = `/api/v1/files/${file.id}/download`;
 
       await file.save();
+      await refreshWorkspaceStorage(workspaceId);
+
       return filesService.toFileResponse(file);
-    } catch (error) {
-      throw createBadRequestError('Failed to upload file');
+    } catch (error: any) {
+      if (error.statusCode) throw error;
+      throw createBadRequestError(`Failed to upload file: ${error.message}`);
     }
   },
 
   /**
-   * Upload multiple files
+   * Upload multiple files. Files are stored one after the other, so each upload is
+   * checked against the quota left by the previous ones.
    */
   bulkUploadFiles: async (
     userId: string,
+    workspaceId: string,
     filesData: TFileUploadData[]
   ): Promise<TFileResponse[]> => {
-    const uploadPromises = filesData.map(fileData => filesService.uploadFile(userId, fileData));
-    return Promise.all(uploadPromises);
+    const uploaded: TFileResponse[] = [];
+    for (const fileData of filesData) {
+      uploaded.push(await filesService.uploadFile(userId, workspaceId, fileData));
+    }
+    return uploaded;
   },
 
   /**
    * Get file by ID
    */
   getFileById: async (fileId: string, userId: string): Promise<TFileResponse> => {
-    const file = await FileModel.findOne({
-      _id: fileId,
-      $or: [{ userId }, { isPublic: true }]
-    });
+    const file = await FileModel.findById(fileId);
 
-    if (!file) {
+    if (!file || !(await canAccessFile(file, userId))) {
       throw createNotFoundError('File not found');
     }
 
@@ -78,19 +305,19 @@ export const filesService = {
    * Download file
    */
   downloadFile: async (fileId: string, userId: string) => {
-    const file = await FileModel.findOne({
-      _id: fileId,
-      $or: [{ userId }, { isPublic: true }]
-    });
+    const file = await FileModel.findById(fileId);
 
-    if (!file) {
+    if (!file || !(await canAccessFile(file, userId))) {
       throw createNotFoundError('File not found');
     }
 
-    // For S3, we would fetch the file from S3
-    // For now, we'll simulate with a placeholder
+    const storage = getStorage();
+    if (file.storageDriver !== storage.driver || !(await storage.exists(file.storageKey))) {
+      throw createNotFoundError('File content not found');
+    }
+
     return {
-      buffer: Buffer.from('File content placeholder'),
+      buffer: await storage.get(file.storageKey),
       mimeType: file.mimeType,
       originalName: file.originalName,
       size: file.size
@@ -98,36 +325,33 @@ export const filesService = {
   },
 
   /**
-   * Delete file
+   * Delete file. Files can be deleted by their uploader and by workspace admins.
    */
   deleteFile: async (fileId: string, userId: string): Promise<void> => {
-    const file = await FileModel.findOne({
-      _id: fileId,
-      userId
-    });
+    const file = await FileModel.findById(fileId);
 
-    if (!file) {
+    if (!file || !(await canAccessFile(file, userId))) {
       throw createNotFoundError('File not found');
     }
 
-    // Delete from S3 or local storage
-    try {
-      await deleteFromS3(file.url);
-    } catch (error) {
-      console.error('Failed to delete file from storage:', error);
+    if (file.userId !== userId && !(await WorkspaceMemberModel.isAdmin(file.workspaceId, userId))) {
+      throw createForbiddenError('Only the uploader or a workspace admin can delete this file');
     }
 
-    await FileModel.findByIdAndDelete(fileId);
+    await removeFiles([file]);
   },
 
   /**
-   * Get user's files with pagination and filtering
+   * Get files of a workspace with pagination and filtering. Files of a database or record
+   * are listed to its readers, without one only the user's own uploads are listed.
    */
-  getUserFiles: async (userId: string, params: TFileQueryParams) => {
+  getUserFiles: async (userId: string, workspaceId: string, params: TFileQueryParams) => {
     const {
       category,
       search,
       mimeType,
+      databaseId,
+      recordId,
       sortBy = 'createdAt',
       sortOrder = 'desc',
       page = 1,
@@ -135,7 +359,17 @@ export const filesService = {
     } = params;
 
     // Build query
-    const query: any = { userId };
+    const query: any = { workspaceId };
+
+    if (databaseId || recordId) {
+      if (!(await canReadAttachment(userId, { databaseId, recordId }))) {
+        throw createForbiddenError('Insufficient permissions to view these files');
+      }
+      if (databaseId) query.databaseId = databaseId;
+      if (recordId) query.recordId = recordId;
+    } else {
+      query.userId = userId;
+    }
 
     if (category) {
       query.category = category;
@@ -154,7 +388,7 @@ export const filesService = {
 
     // Build sort
     const sort: any = {};
-    sort[sortBy] = sortOrder === 'asc' ? 1 : -1;
+    sort[sortBy === 'name' ? 'originalName' : sortBy] = sortOrder === 'asc' ? 1 : -1;
 
     // Execute query with pagination
     const skip = (page - 1) * limit;
@@ -177,19 +411,124 @@ export const filesService = {
         limit
       }
     };
+  },
+
+  /**
+   * Storage used by a workspace and by the user in it, against their quotas
+   */
+  getStorageUsage: async (workspaceId: string, userId: string): Promise<TStorageUsage> => {
+    const workspace = await WorkspaceModel.findById(workspaceId);
+    if (!workspace) {
+      throw createNotFoundError('Workspace', workspaceId);
+    }
+
+    const [workspaceUsage, userUsage, byType] = await Promise.all([
+      getUsage({ workspaceId }),
+      getUsage({ workspaceId, userId }),
+      FileModel.aggregate([
+        { $match: { workspaceId } },
+        {
+          $group: {
+            _id: '$hash',
+            size: { $first: '$size' },
+            mimeType: { $first: '$mimeType' },
+            count: { $sum: 1 }
+          }
+        },
+        {
+          $group: {
+            _id: { $arrayElemAt: [{ $split: ['$mimeType', '/'] }, 0] },
+            size: { $sum: '$size' },
+            count: { $sum: '$count' }
+          }
+        },
+        { $sort: { size: -1 } }
+      ])
+    ]);
+
+    return {
+      workspaceId,
+      workspace: toQuota(workspaceUsage, workspace.config?.storageLimit),
+      user: toQuota(userUsage, workspace.config?.memberStorageLimit),
+      byType: byType.map(entry => ({ type: entry._id, size: entry.size, count: entry.count }))
+    };
+  },
+
+  /**
+   * Delete the files attached to a database or to records, once they are permanently
+   * deleted
+   */
+  deleteAttachments: async (target: {
+    databaseId?: string;
+    recordIds?: string[];
+  }): Promise<number> => {
+    const conditions: Record<string, unknown>[] = [];
+    if (target.databaseId) conditions.push({ databaseId: target.databaseId });
+    if (target.recordIds?.length) conditions.push({ recordId: { $in: target.recordIds } });
+    if (conditions.length === 0) return 0;
+
+    const files = await FileModel.find({ $or: conditions });
+    await removeFiles(files);
+    return files.length;
+  },
+
+  /**
+   * Delete attached files whose database or record no longer exists
+   */
+  cleanupOrphanedFiles: async (): Promise<number> => {
+    let removed = 0;
+    let lastId: unknown = undefined;
+
+    // Attached files are checked in batches, in the order they were created
+    for (;;) {
+      const files: IFile[] = await FileModel.find({
+        $or: [{ recordId: { $exists: true } }, { databaseId: { $exists: true } }],
+        ...(lastId ? { _id: { $gt: lastId } } : {})
+      })
+        .sort({ _id: 1 })
+        .limit(ORPHAN_CLEANUP_BATCH_SIZE);
+      if (files.length === 0) break;
+      lastId = files[files.length - 1]._id;
+
+      const recordIds = [...new Set(files.map(file => file.recordId).filter(Boolean))];
+      const databaseIds = [...new Set(files.map(file => file.databaseId).filter(Boolean))];
+
+      const [records, databases] = await Promise.all([
+        RecordModel.find({ _id: { $in: recordIds } }, { _id: 1 }).lean(),
+        DatabaseModel.find({ _id: { $in: databaseIds } }, { _id: 1 }).lean()
+      ]);
+      const existingRecords = new Set(records.map(record => String(record._id)));
+      const existingDatabases = new Set(databases.map(database => String(database._id)));
+
+      const orphans = files.filter(
+        file =>
+          (file.recordId && !existingRecords.has(file.recordId)) ||
+          (file.databaseId && !existingDatabases.has(file.databaseId))
+      );
+
+      await removeFiles(orphans);
+      removed += orphans.length;
+    }
+
+    return removed;
   }
 };
 
 // Export individual functions for backward compatibility
-export const uploadFile = (userId: string, fileData: TFileUploadData) =>
-  filesService.uploadFile(userId, fileData);
-export const bulkUploadFiles = (userId: string, filesData: TFileUploadData[]) =>
-  filesService.bulkUploadFiles(userId, filesData);
+export const uploadFile = (userId: string, workspaceId: string, fileData: TFileUploadData) =>
+  filesService.uploadFile(userId, workspaceId, fileData);
+export const bulkUploadFiles = (
+  userId: string,
+  workspaceId: string,
+  filesData: TFileUploadData[]
+) => filesService.bulkUploadFiles(userId, workspaceId, filesData);
 export const getFileById = (fileId: string, userId: string) =>
   filesService.getFileById(fileId, userId);
 export const downloadFile = (fileId: string, userId: string) =>
   filesService.downloadFile(fileId, userId);
 export const deleteFile = (fileId: string, userId: string) =>
   filesService.deleteFile(fileId, userId);
-export const getUserFiles = (userId: string, params: TFileQueryParams) =>
-  filesService.getUserFiles(userId, params);
+export const getUserFiles = (userId: string, workspaceId: string, params: TFileQueryParams) =>
+  filesService.getUserFiles(userId, workspaceId, params);
+export const getStorageUsage = (workspaceId: string, userId: string) =>
+  filesService.getStorageUsage(workspaceId, userId);
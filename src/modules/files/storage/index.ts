@@ -0,0 +1,60 @@
+import path from 'path';
+import { EStorageDriver, TStorageAdapter } from '../types/files.types';
+import { createLocalStorage } from './local.storage';
+import { createMemoryStorage } from './memory.storage';
+import { createS3Storage } from './s3.storage';
+
+const DEFAULT_LOCAL_STORAGE_PATH = path.join(__dirname, '../../../../uploads');
+
+let storage: TStorageAdapter | null = null;
+
+/**
+ * Adapter picked from the environment. STORAGE_DRIVER selects it explicitly, otherwise
+ * S3 is used when a bucket and credentials are configured and local disk when not.
+ */
+export const createStorageFromEnv = (): TStorageAdapter => {
+  const hasS3Credentials = Boolean(
+    process.env.AWS_ACCESS_KEY_ID &&
+      process.env.AWS_SECRET_ACCESS_KEY &&
+      process.env.AWS_BUCKET_NAME
+  );
+  const driver =
+    (process.env.STORAGE_DRIVER as EStorageDriver | undefined) ||
+    (hasS3Credentials ? EStorageDriver.S3 : EStorageDriver.LOCAL);
+
+  switch (driver) {
+    case EStorageDriver.S3:
+      if (!process.env.AWS_BUCKET_NAME) {
+        throw new Error('AWS_BUCKET_NAME is required for the s3 storage driver');
+      }
+      return createS3Storage({
+        bucket: process.env.AWS_BUCKET_NAME,
+        region: process.env.AWS_REGION,
+        accessKeyId: process.env.AWS_ACCESS_KEY_ID,
+        secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY,
+        endpoint: process.env.S3_ENDPOINT,
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE
+          ? process.env.S3_FORCE_PATH_STYLE === 'true'
+          : undefined,
+        prefix: process.env.S3_KEY_PREFIX
+      });
+    case EStorageDriver.MEMORY:
+      return createMemoryStorage();
+    case EStorageDriver.LOCAL:
+      return createLocalStorage(process.env.STORAGE_LOCAL_PATH || DEFAULT_LOCAL_STORAGE_PATH);
+    default:
+      throw new Error(`Unknown storage driver: ${driver}`);
+  }
+};
+
+export const getStorage = (): TStorageAdapter => {
+  if (!storage) storage = createStorageFromEnv();
+  return storage;
+};
+
+// Replace the storage adapter, e.g. with an in-memory one in tests
+export const setStorage = (adapter: TStorageAdapter): void => {
+  storage = adapter;
+};
+
+export { createLocalStorage, createMemoryStorage, createS3Storage };
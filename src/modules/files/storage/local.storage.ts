@@ -0,0 +1,41 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { EStorageDriver, TStorageAdapter } from '../types/files.types';
+
+/**
+ * Files kept on the local disk, under one root directory
+ */
+export const createLocalStorage = (rootPath: string): TStorageAdapter => {
+  const resolve = (key: string): string => {
+    const filePath = path.resolve(rootPath, key);
+    if (!filePath.startsWith(path.resolve(rootPath) + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  };
+
+  return {
+    driver: EStorageDriver.LOCAL,
+
+    put: async (key: string, data: Buffer): Promise<void> => {
+      const filePath = resolve(key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, data);
+    },
+
+    get: async (key: string): Promise<Buffer> => fs.readFile(resolve(key)),
+
+    delete: async (key: string): Promise<void> => {
+      await fs.rm(resolve(key), { force: true });
+    },
+
+    exists: async (key: string): Promise<boolean> => {
+      try {
+        await fs.access(resolve(key));
+        return true;
+      } catch {
+        return false;
+      }
+    }
+  };
+};
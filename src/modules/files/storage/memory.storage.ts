@@ -0,0 +1,28 @@
+import { EStorageDriver, TStorageAdapter } from '../types/files.types';
+
+/**
+ * Files kept in process memory, for tests and local experiments
+ */
+export const createMemoryStorage = (): TStorageAdapter => {
+  const objects = new Map<string, Buffer>();
+
+  return {
+    driver: EStorageDriver.MEMORY,
+
+    put: async (key: string, data: Buffer): Promise<void> => {
+      objects.set(key, Buffer.from(data));
+    },
+
+    get: async (key: string): Promise<Buffer> => {
+      const data = objects.get(key);
+      if (!data) throw new Error(`Object not found: ${key}`);
+      return Buffer.from(data);
+    },
+
+    delete: async (key: string): Promise<void> => {
+      objects.delete(key);
+    },
+
+    exists: async (key: string): Promise<boolean> => objects.has(key)
+  };
+};
@@ -0,0 +1,57 @@
+import S3 from 'aws-sdk/clients/s3';
+import { EStorageDriver, TStorageAdapter } from '../types/files.types';
+
+export interface TS3StorageOptions {
+  bucket: string;
+  region?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  // Endpoint of an S3 compatible service such as MinIO
+  endpoint?: string;
+  forcePathStyle?: boolean;
+  prefix?: string;
+}
+
+/**
+ * Files kept in an S3 bucket, or in any service speaking the S3 API
+ */
+export const createS3Storage = (options: TS3StorageOptions): TStorageAdapter => {
+  const s3 = new S3({
+    region: options.region || 'us-east-1',
+    accessKeyId: options.accessKeyId,
+    secretAccessKey: options.secretAccessKey,
+    endpoint: options.endpoint,
+    s3ForcePathStyle: options.forcePathStyle ?? Boolean(options.endpoint),
+    signatureVersion: 'v4'
+  });
+  const toKey = (key: string): string => (options.prefix ? `${options.prefix}/${key}` : key);
+
+  return {
+    driver: EStorageDriver.S3,
+
+    put: async (key: string, data: Buffer, mimeType: string): Promise<void> => {
+      await s3
+        .putObject({ Bucket: options.bucket, Key: toKey(key), Body: data, ContentType: mimeType })
+        .promise();
+    },
+
+    get: async (key: string): Promise<Buffer> => {
+      const object = await s3.getObject({ Bucket: options.bucket, Key: toKey(key) }).promise();
+      return object.Body as Buffer;
+    },
+
+    delete: async (key: string): Promise<void> => {
+      await s3.deleteObject({ Bucket: options.bucket, Key: toKey(key) }).promise();
+    },
+
+    exists: async (key: string): Promise<boolean> => {
+      try {
+        await s3.headObject({ Bucket: options.bucket, Key: toKey(key) }).promise();
+        return true;
+      } catch (error: any) {
+        if (error.code === 'NotFound' || error.statusCode === 404) return false;
+        throw error;
+      }
+    }
+  };
+};
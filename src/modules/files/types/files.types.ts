@@ -6,6 +6,8 @@ export interface TFileUploadData {
   description?: string;
   category?: string;
   isPublic?: boolean;
+  databaseId?: string;
+  recordId?: string;
 }
 
 export interface TFileResponse {
@@ -19,6 +21,10 @@ export interface TFileResponse {
   category?: string;
   isPublic: boolean;
   userId: string;
+  workspaceId: string;
+  databaseId?: string;
+  recordId?: string;
+  hash: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -27,6 +33,8 @@ export interface TFileQueryParams {
   category?: string;
   search?: string;
   mimeType?: string;
+  databaseId?: string;
+  recordId?: string;
   sortBy?: 'name' | 'size' | 'createdAt' | 'updatedAt';
   sortOrder?: 'asc' | 'desc';
   page?: number;
@@ -44,3 +52,39 @@ export interface TFilesListResponse {
     limit: number;
   };
 }
+
+export enum EStorageDriver {
+  LOCAL = 'local',
+  S3 = 's3',
+  MEMORY = 'memory'
+}
+
+/**
+ * Backend the content of files is kept in. Keys are opaque paths chosen by the files
+ * service, an adapter only stores and returns bytes.
+ */
+export interface TStorageAdapter {
+  readonly driver: EStorageDriver;
+  put(key: string, data: Buffer, mimeType: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+  exists(key: string): Promise<boolean>;
+}
+
+export interface TStorageQuota {
+  used: number;
+  limit: number | null;
+  available: number | null;
+  fileCount: number;
+}
+
+export interface TStorageUsage {
+  workspaceId: string;
+  workspace: TStorageQuota;
+  user: TStorageQuota;
+  byType: Array<{
+    type: string;
+    size: number;
+    count: number;
+  }>;
+}
@@ -9,13 +9,17 @@ const fileIdSchema = z.object({
 const uploadFileSchema = z.object({
   description: z.string().optional(),
   category: z.string().optional(),
-  isPublic: z.string().optional()
+  isPublic: z.string().optional(),
+  databaseId: z.string().min(1).optional(),
+  recordId: z.string().min(1).optional()
 });
 
 // Bulk upload schema
 const bulkUploadSchema = z.object({
   category: z.string().optional(),
-  isPublic: z.string().optional()
+  isPublic: z.string().optional(),
+  databaseId: z.string().min(1).optional(),
+  recordId: z.string().min(1).optional()
 });
 
 // Get files query schema
@@ -23,6 +27,8 @@ const getFilesQuerySchema = z.object({
   category: z.string().optional(),
   search: z.string().optional(),
   mimeType: z.string().optional(),
+  databaseId: z.string().optional(),
+  recordId: z.string().optional(),
   sortBy: z.enum(['name', 'size', 'createdAt', 'updatedAt']).optional(),
   sortOrder: z.enum(['asc', 'desc']).optional(),
   page: z
@@ -5,8 +5,28 @@ import {
   FormulaCacheModel,
   FormulaPerformanceModel
 } from '../models/formula.model';
-import { catchAsync, sendSuccessResponse } from '@/utils';
+import { workspaceFunctionsService } from '../services/workspace-functions.service';
+import { formulaIntegrationService } from '../services/formula-integration.service';
+import { IWorkspaceFormulaFunction } from '../types/formula.types';
+import { catchAsync, sendSuccessResponse, createBadRequestError } from '@/utils';
 import { getUserId } from '@/auth/index';
+import { getWorkspaceId } from '@/modules/workspace/middleware/workspace.middleware';
+
+// Workspace functions callable from formulas of the current request
+const getRequestFunctionScope = async (
+  req: Request
+): Promise<Record<string, IWorkspaceFormulaFunction> | undefined> => {
+  const workspaceId = getWorkspaceId(req);
+  return workspaceId ? workspaceFunctionsService.getFunctionScope(workspaceId) : undefined;
+};
+
+const requireWorkspaceId = (req: Request): string => {
+  const workspaceId = getWorkspaceId(req);
+  if (!workspaceId) {
+    throw createBadRequestError('Workspace ID is required');
+  }
+  return workspaceId;
+};
 
 // Validate formula expression
 export const validateFormula = catchAsync(
@@ -17,7 +37,8 @@ export const validateFormula = catchAsync(
       expression,
       availableProperties || [],
       expectedReturnType,
-      maxComplexity
+      maxComplexity,
+      await getRequestFunctionScope(req)
     );
 
     sendSuccessResponse(res, 'Formula validation completed', validation);
@@ -32,7 +53,8 @@ export const testFormula = catchAsync(
     const result = await formulaEngine.testFormula(
       expression,
       sampleData || {},
-      availableProperties || []
+      availableProperties || [],
+      await getRequestFunctionScope(req)
     );
 
     sendSuccessResponse(res, 'Formula test completed', result);
@@ -53,7 +75,8 @@ export const executeFormula = catchAsync(
         name: req.user?.username || '',
         email: req.user?.email || ''
       },
-      currentDate: new Date()
+      currentDate: new Date(),
+      customFunctions: await getRequestFunctionScope(req)
     };
 
     const result = await formulaEngine.executeFormula(expression, enrichedContext, config);
@@ -111,7 +134,9 @@ export const createFormulaProperty = catchAsync(
     const validation = formulaEngine.validateFormula(
       formulaData.expression,
       formulaData.availableProperties || [],
-      formulaData.returnType
+      formulaData.returnType,
+      undefined,
+      await workspaceFunctionsService.getFunctionScopeForDatabase(formulaData.databaseId)
     );
 
     if (!validation.isValid) {
@@ -146,7 +171,9 @@ export const updateFormulaProperty = catchAsync(
       const validation = formulaEngine.validateFormula(
         updates.expression,
         updates.availableProperties || [],
-        updates.returnType || formula.returnType
+        updates.returnType || formula.returnType,
+        undefined,
+        await workspaceFunctionsService.getFunctionScopeForDatabase(formula.databaseId.toString())
       );
 
       if (!validation.isValid) {
@@ -327,8 +354,13 @@ export const recalculateFormulas = catchAsync(
   async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     const { recordId } = req.params;
     const { changedProperties } = req.body;
+    const userId = getUserId(req);
 
-    const results = await formulaEngine.recalculateFormulas(recordId, changedProperties || []);
+    const results = await formulaIntegrationService.recalculateRecordFormulas(
+      recordId,
+      changedProperties || [],
+      userId
+    );
 
     sendSuccessResponse(res, 'Formulas recalculated successfully', { results });
   }
@@ -376,3 +408,75 @@ export const formatFormulaResult = catchAsync(
     sendSuccessResponse(res, 'Formula result formatted', { formattedValue });
   }
 );
+
+// List workspace formula functions
+export const getWorkspaceFunctions = catchAsync(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const functions = await workspaceFunctionsService.listFunctions(requireWorkspaceId(req));
+
+    sendSuccessResponse(res, 'Workspace functions retrieved successfully', functions);
+  }
+);
+
+// Get workspace formula function
+export const getWorkspaceFunction = catchAsync(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const func = await workspaceFunctionsService.getFunction(
+      requireWorkspaceId(req),
+      req.params.functionId
+    );
+
+    sendSuccessResponse(res, 'Workspace function retrieved successfully', func);
+  }
+);
+
+// Create workspace formula function
+export const createWorkspaceFunction = catchAsync(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const func = await workspaceFunctionsService.createFunction(
+      requireWorkspaceId(req),
+      req.body,
+      getUserId(req)
+    );
+
+    sendSuccessResponse(res, 'Workspace function created successfully', func, 201);
+  }
+);
+
+// Update workspace formula function and recalculate the formulas using it
+export const updateWorkspaceFunction = catchAsync(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const workspaceId = requireWorkspaceId(req);
+    const userId = getUserId(req);
+
+    const func = await workspaceFunctionsService.updateFunction(
+      workspaceId,
+      req.params.functionId,
+      req.body,
+      userId
+    );
+    const recalculation = await formulaIntegrationService.recalculateFunctionDependents(
+      workspaceId,
+      func.name,
+      userId
+    );
+
+    sendSuccessResponse(res, 'Workspace function updated successfully', {
+      function: func,
+      recalculation
+    });
+  }
+);
+
+// Delete workspace formula function
+export const deleteWorkspaceFunction = catchAsync(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    await workspaceFunctionsService.deleteFunction(
+      requireWorkspaceId(req),
+      req.params.functionId,
+      getUserId(req)
+    );
+
+    sendSuccessResponse(res, 'Workspace function deleted successfully');
+  }
+);
@@ -12,6 +12,7 @@ export { formulaFunctionsService } from './services/formula-functions.service';
 export { formulaValidatorService } from './services/formula-validator.service';
 export { formulaLexerService } from './services/formula-lexer.service';
 export { formulaIntegrationService } from './services/formula-integration.service';
+export { workspaceFunctionsService } from './services/workspace-functions.service';
 
 // Utility modules
 export { cacheUtils } from './services/cache';
@@ -27,7 +28,12 @@ export type {
   IFormulaToken,
   IFormulaASTNode,
   IFormulaError,
-  IFormulaFunction
+  IFormulaFunction,
+  IWorkspaceFormulaFunction,
+  IWorkspaceFunctionParameter,
+  IPropertyDependencyGraph,
+  IPropertyChange,
+  IRecalculationResult
 } from './types/formula.types';
 
 // Models (to be implemented)
@@ -40,5 +46,7 @@ export {
   executeFormulaSchema,
   validateFormulaSchema,
   testFormulaSchema,
-  formulaQuerySchema
+  formulaQuerySchema,
+  createWorkspaceFunctionSchema,
+  updateWorkspaceFunctionSchema
 } from './validators/formula.validators';
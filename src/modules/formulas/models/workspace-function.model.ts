@@ -0,0 +1,133 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import { IWorkspaceFunctionDocument, EFormulaDataType } from '../types/formula.types';
+import { createBaseSchema, IBaseDocument } from '@/modules/core/models/base.model';
+
+// Workspace formula function document
+export type TWorkspaceFunctionDocument = IWorkspaceFunctionDocument &
+  IBaseDocument & {
+    isDeleted: boolean;
+  };
+
+// Workspace formula function model interface
+export type TWorkspaceFunctionModel = Model<TWorkspaceFunctionDocument> & {
+  findByWorkspace(workspaceId: string): Promise<TWorkspaceFunctionDocument[]>;
+  findByName(workspaceId: string, name: string): Promise<TWorkspaceFunctionDocument | null>;
+};
+
+const WorkspaceFunctionParameterSchema = new Schema(
+  {
+    name: {
+      type: String,
+      required: true,
+      maxlength: 50
+    },
+    type: {
+      type: String,
+      enum: Object.values(EFormulaDataType),
+      required: true
+    },
+    description: {
+      type: String,
+      default: '',
+      maxlength: 500
+    },
+    isOptional: {
+      type: Boolean,
+      default: false
+    },
+    defaultValue: {
+      type: Schema.Types.Mixed
+    }
+  },
+  { _id: false }
+);
+
+// Workspace formula function schema
+const WorkspaceFunctionSchema = createBaseSchema({
+  workspaceId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  name: {
+    type: String,
+    required: true,
+    maxlength: 64
+  },
+  // Upper-case name, function calls are resolved case-insensitively
+  normalizedName: {
+    type: String,
+    required: true
+  },
+  description: {
+    type: String,
+    default: '',
+    maxlength: 1000
+  },
+  parameters: {
+    type: [WorkspaceFunctionParameterSchema],
+    default: []
+  },
+  returnType: {
+    type: String,
+    enum: Object.values(EFormulaDataType),
+    default: EFormulaDataType.ANY
+  },
+  body: {
+    type: String,
+    required: true,
+    maxlength: 5000
+  },
+  functionDependencies: {
+    type: [String],
+    default: []
+  },
+  complexity: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  examples: {
+    type: Schema.Types.Mixed,
+    default: []
+  }
+});
+
+WorkspaceFunctionSchema.index(
+  { workspaceId: 1, normalizedName: 1 },
+  { unique: true, partialFilterExpression: { isDeleted: false } }
+);
+
+WorkspaceFunctionSchema.pre('validate', function (next) {
+  if (this.isModified('name')) {
+    this.set('normalizedName', String(this.get('name')).toUpperCase());
+  }
+  next();
+});
+
+// Static methods for workspace functions
+WorkspaceFunctionSchema.statics.findByWorkspace = function (
+  workspaceId: string
+): Promise<TWorkspaceFunctionDocument[]> {
+  return (this as TWorkspaceFunctionModel)
+    .find({ workspaceId, isDeleted: { $ne: true } })
+    .sort({ name: 1 });
+};
+
+WorkspaceFunctionSchema.statics.findByName = function (
+  workspaceId: string,
+  name: string
+): Promise<TWorkspaceFunctionDocument | null> {
+  return (this as TWorkspaceFunctionModel).findOne({
+    workspaceId,
+    normalizedName: name.toUpperCase(),
+    isDeleted: { $ne: true }
+  });
+};
+
+export const WorkspaceFunctionModel = mongoose.model<
+  TWorkspaceFunctionDocument,
+  TWorkspaceFunctionModel
+>('WorkspaceFunction', WorkspaceFunctionSchema);
+
+export default WorkspaceFunctionModel;
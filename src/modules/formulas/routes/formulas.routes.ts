@@ -22,8 +22,19 @@ import {
   cleanupExpiredCache,
   recalculateFormulas,
   getFormulaSuggestions,
-  formatFormulaResult
+  formatFormulaResult,
+  getWorkspaceFunctions,
+  getWorkspaceFunction,
+  createWorkspaceFunction,
+  updateWorkspaceFunction,
+  deleteWorkspaceFunction
 } from '../controllers/formulas.controller';
+import {
+  createWorkspaceFunctionSchema,
+  updateWorkspaceFunctionSchema,
+  workspaceFunctionIdSchema
+} from '../validators/formula.validators';
+import { resolveWorkspaceContext } from '@/modules/workspace/middleware/workspace.middleware';
 
 const router = Router();
 
@@ -130,6 +141,7 @@ const formatResultSchema = z.object({
 router.get('/formulas/functions', getAvailableFunctions);
 
 router.use(authenticateToken);
+router.use(resolveWorkspaceContext());
 
 router.post('/formulas/validate', validateBody(formulaExpressionSchema), validateFormula);
 router.post('/formulas/test', validateBody(testFormulaSchema), testFormula);
@@ -222,4 +234,28 @@ router.get(
   getAvailableFunctions
 );
 
+// Workspace formula functions
+router.get('/formulas/workspace-functions', getWorkspaceFunctions);
+router.post(
+  '/formulas/workspace-functions',
+  validateBody(createWorkspaceFunctionSchema),
+  createWorkspaceFunction
+);
+router.get(
+  '/formulas/workspace-functions/:functionId',
+  validateParams(workspaceFunctionIdSchema),
+  getWorkspaceFunction
+);
+router.put(
+  '/formulas/workspace-functions/:functionId',
+  validateParams(workspaceFunctionIdSchema),
+  validateBody(updateWorkspaceFunctionSchema),
+  updateWorkspaceFunction
+);
+router.delete(
+  '/formulas/workspace-functions/:functionId',
+  validateParams(workspaceFunctionIdSchema),
+  deleteWorkspaceFunction
+);
+
 export default router;
@@ -11,6 +11,13 @@ export const cacheUtils = {
     return `${recordId}:${Buffer.from(expression).toString('base64')}`;
   },
 
+  /**
+   * Serialize the values of the dependencies, undefined and null are the same
+   */
+  snapshotDependencies: (dependencies: string[], properties: Record<string, any>): string => {
+    return JSON.stringify(dependencies.map(dep => properties[dep] ?? null));
+  },
+
   /**
    * Check if cached result is valid
    */
@@ -20,14 +27,10 @@ export const cacheUtils = {
       return false;
     }
 
-    // Check if dependencies have changed
-    const hasChangedDependencies = cached.dependencies.some(dep => {
-      const currentValue = properties[dep];
-      const cachedContext = JSON.parse(JSON.stringify(properties)); // This is a simplified check
-      return currentValue !== cachedContext[dep];
-    });
-
-    return !hasChangedDependencies;
+    // Check if dependencies have changed since the result was calculated
+    return (
+      cached.dependencySnapshot === cacheUtils.snapshotDependencies(cached.dependencies, properties)
+    );
   },
 
   /**
@@ -38,6 +41,7 @@ export const cacheUtils = {
     recordId: string,
     result: IFormulaExecutionResult,
     dependencies: string[],
+    properties: Record<string, any>,
     ttl?: number
   ): IFormulaCacheEntry => {
     const expiresAt = ttl ? new Date(Date.now() + ttl * 1000) : undefined;
@@ -49,6 +53,7 @@ export const cacheUtils = {
       value: result.value,
       dataType: result.dataType,
       dependencies,
+      dependencySnapshot: cacheUtils.snapshotDependencies(dependencies, properties),
       calculatedAt: new Date(),
       expiresAt,
       version: 1
@@ -93,10 +98,18 @@ export const cacheUtils = {
     recordId: string,
     result: IFormulaExecutionResult,
     dependencies: string[],
+    properties: Record<string, any>,
     ttl?: number
   ): void => {
     const cacheKey = cacheUtils.generateCacheKey(expression, recordId);
-    const cacheEntry = cacheUtils.createCacheEntry(expression, recordId, result, dependencies, ttl);
+    const cacheEntry = cacheUtils.createCacheEntry(
+      expression,
+      recordId,
+      result,
+      dependencies,
+      properties,
+      ttl
+    );
     cache.set(cacheKey, cacheEntry);
   },
 
@@ -114,6 +127,31 @@ export const cacheUtils = {
     cache.delete(cacheKey);
   },
 
+  /**
+   * Remove cached results of a record that depend on any of the changed properties,
+   * all of the record's results when no properties are given
+   */
+  invalidateRecord: (
+    cache: Map<string, IFormulaCacheEntry>,
+    recordId: string,
+    changedProperties: string[] = []
+  ): number => {
+    let removed = 0;
+
+    for (const [cacheKey, entry] of cache.entries()) {
+      const isAffected =
+        changedProperties.length === 0 ||
+        entry.dependencies.some(dep => changedProperties.includes(dep));
+
+      if (entry.recordId === recordId && isAffected) {
+        cache.delete(cacheKey);
+        removed++;
+      }
+    }
+
+    return removed;
+  },
+
   /**
    * Get cache statistics
    */
@@ -1,66 +1,155 @@
+import {
+  EDependencyEdgeType,
+  EDependencyNodeKind,
+  IDependencyEdge,
+  IDependencyNode,
+  IPropertyDependencyGraph
+} from '../types/formula.types';
+
 /**
- * Dependency graph management utilities for formula relationships
+ * Dependency graph utilities for formula, rollup and relation properties
  */
 export const dependencyGraphUtils = {
   /**
-   * Update dependency graph with new formula dependencies
+   * Create an empty dependency graph
    */
-  updateDependencyGraph: (
-    dependencyGraph: Map<string, Set<string>>,
-    recordId: string,
-    dependencies: string[]
-  ): void => {
-    if (!dependencyGraph.has(recordId)) {
-      dependencyGraph.set(recordId, new Set());
+  createGraph: (): IPropertyDependencyGraph => ({
+    nodes: new Map(),
+    dependents: new Map(),
+    dependencies: new Map()
+  }),
+
+  /**
+   * Get node key of a database property
+   */
+  getNodeKey: (databaseId: string, propertyName: string): string => {
+    return `${databaseId}:${propertyName}`;
+  },
+
+  /**
+   * Add a property node, a plain property node is upgraded when its kind becomes known
+   */
+  addNode: (
+    graph: IPropertyDependencyGraph,
+    databaseId: string,
+    propertyName: string,
+    kind: EDependencyNodeKind = EDependencyNodeKind.PROPERTY
+  ): IDependencyNode => {
+    const key = dependencyGraphUtils.getNodeKey(databaseId, propertyName);
+    const existing = graph.nodes.get(key);
+
+    if (existing) {
+      if (kind !== EDependencyNodeKind.PROPERTY) existing.kind = kind;
+      return existing;
     }
 
-    const recordDeps = dependencyGraph.get(recordId)!;
-    dependencies.forEach(dep => recordDeps.add(dep));
+    const node: IDependencyNode = { key, databaseId, propertyName, kind };
+    graph.nodes.set(key, node);
+    return node;
+  },
+
+  /**
+   * Add a dependency of one property on another
+   */
+  addEdge: (
+    graph: IPropertyDependencyGraph,
+    from: IDependencyNode,
+    to: IDependencyNode,
+    type: EDependencyEdgeType = EDependencyEdgeType.SAME_RECORD,
+    relationPropertyId?: string
+  ): void => {
+    const edge: IDependencyEdge = {
+      from: from.key,
+      to: to.key,
+      type,
+      ...(relationPropertyId && { relationPropertyId })
+    };
+
+    const isDuplicate = (graph.dependents.get(from.key) || []).some(
+      existing =>
+        existing.to === edge.to &&
+        existing.type === edge.type &&
+        existing.relationPropertyId === edge.relationPropertyId
+    );
+    if (isDuplicate) return;
+
+    graph.dependents.set(from.key, [...(graph.dependents.get(from.key) || []), edge]);
+    graph.dependencies.set(to.key, [...(graph.dependencies.get(to.key) || []), edge]);
   },
 
   /**
-   * Get all formulas that depend on changed properties
+   * Get all properties that depend on the given properties, directly or transitively
    */
-  getDependentFormulas: (
-    dependencyGraph: Map<string, Set<string>>,
-    changedProperties: string[]
-  ): Set<string> => {
-    const dependents = new Set<string>();
-
-    // Find all formulas that depend on the changed properties
-    for (const [formulaRecordId, deps] of dependencyGraph.entries()) {
-      if (changedProperties.some(prop => deps.has(prop))) {
-        dependents.add(formulaRecordId);
-      }
+  getDownstream: (graph: IPropertyDependencyGraph, keys: string[]): Set<string> => {
+    const downstream = new Set<string>();
+    const pending = [...keys];
+
+    while (pending.length > 0) {
+      const key = pending.pop()!;
+      (graph.dependents.get(key) || []).forEach(edge => {
+        if (!downstream.has(edge.to)) {
+          downstream.add(edge.to);
+          pending.push(edge.to);
+        }
+      });
     }
 
-    return dependents;
+    return downstream;
   },
 
   /**
-   * Clear dependency graph
+   * Order the given properties and everything downstream of them so that every
+   * property comes after the properties it depends on. Properties on a cycle, or
+   * downstream of one, cannot be ordered and are returned separately.
    */
-  clearDependencyGraph: (dependencyGraph: Map<string, Set<string>>): void => {
-    dependencyGraph.clear();
+  getTopologicalOrder: (
+    graph: IPropertyDependencyGraph,
+    keys: string[]
+  ): { order: string[]; cycles: string[] } => {
+    const affected = new Set([...keys, ...dependencyGraphUtils.getDownstream(graph, keys)]);
+
+    const inDegree = new Map<string, number>();
+    affected.forEach(key => {
+      const upstream = new Set(
+        (graph.dependencies.get(key) || [])
+          .map(edge => edge.from)
+          .filter(from => affected.has(from))
+      );
+      inDegree.set(key, upstream.size);
+    });
+
+    const ready = Array.from(affected).filter(key => inDegree.get(key) === 0);
+    const order: string[] = [];
+
+    while (ready.length > 0) {
+      const key = ready.shift()!;
+      order.push(key);
+
+      const next = new Set((graph.dependents.get(key) || []).map(edge => edge.to));
+      next.forEach(dependent => {
+        const remaining = inDegree.get(dependent)! - 1;
+        inDegree.set(dependent, remaining);
+        if (remaining === 0) ready.push(dependent);
+      });
+    }
+
+    const ordered = new Set(order);
+    const cycles = Array.from(affected).filter(key => !ordered.has(key));
+
+    return { order, cycles };
   },
 
   /**
-   * Remove formula from dependency graph
+   * Get the properties a property depends on
    */
-  removeFromDependencyGraph: (
-    dependencyGraph: Map<string, Set<string>>,
-    recordId: string
-  ): void => {
-    dependencyGraph.delete(recordId);
+  getDependencies: (graph: IPropertyDependencyGraph, key: string): IDependencyEdge[] => {
+    return graph.dependencies.get(key) || [];
   },
 
   /**
-   * Get dependencies for a specific formula
+   * Check whether a change of the given properties reaches any other property
    */
-  getFormulaDependencies: (
-    dependencyGraph: Map<string, Set<string>>,
-    recordId: string
-  ): string[] => {
-    return Array.from(dependencyGraph.get(recordId) || []);
+  hasDependents: (graph: IPropertyDependencyGraph, keys: string[]): boolean => {
+    return keys.some(key => (graph.dependents.get(key) || []).length > 0);
   }
 };
@@ -4,13 +4,18 @@ import {
   IFormulaPropertyConfig,
   IFormulaCacheEntry,
   EFormulaDataType,
-  IFormulaError
+  EFormulaCategory,
+  IFormulaError,
+  IFormulaFunction,
+  IFormulaWarning,
+  IWorkspaceFormulaFunction
 } from '../types/formula.types';
 import { formulaParserService } from './formula-parser.service';
 import { formulaEvaluatorService } from './formula-evaluator.service';
+import { formulaFunctionsService } from './formula-functions.service';
+import { formulaValidatorService } from './formula-validator.service';
 import { createAppError } from '@/utils';
 import { cacheUtils } from './cache';
-import { dependencyGraphUtils } from './dependency-graph';
 
 /**
  * Main formula execution engine
@@ -18,7 +23,6 @@ import { dependencyGraphUtils } from './dependency-graph';
 export const formulaEngine = {
   // Shared state
   cache: new Map<string, IFormulaCacheEntry>(),
-  dependencyGraph: new Map<string, Set<string>>(),
 
   /**
    * Execute formula with full pipeline
@@ -71,17 +75,11 @@ export const formulaEngine = {
           context.recordId,
           result,
           dependencies,
+          context.properties,
           config?.cacheTTL
         );
       }
 
-      // Update dependency graph
-      dependencyGraphUtils.updateDependencyGraph(
-        formulaEngine.dependencyGraph,
-        context.recordId,
-        dependencies
-      );
-
       return {
         ...result,
         dependencies,
@@ -117,17 +115,29 @@ export const formulaEngine = {
     expression: string,
     availableProperties: Array<{ name: string; type: any }> = [],
     expectedReturnType?: any,
-    maxComplexity?: number
+    maxComplexity?: number,
+    customFunctions?: Record<string, IWorkspaceFormulaFunction>
   ): { isValid: boolean; errors: IFormulaError[]; complexity: number; dependencies: string[] } => {
     // Basic validation - check if expression can be parsed
     try {
       const parseResult = formulaParserService.parse(expression);
       const complexity = parseResult.ast
-        ? formulaParserService.calculateComplexity(parseResult.ast)
+        ? formulaValidatorService.calculateExpandedComplexity(parseResult.ast, customFunctions)
         : 0;
 
       const errors: IFormulaError[] = [...parseResult.errors];
 
+      // Unknown functions and wrong argument counts
+      if (parseResult.ast) {
+        const warnings: IFormulaWarning[] = [];
+        formulaValidatorService.validateFunctionCalls(
+          parseResult.ast,
+          errors,
+          warnings,
+          customFunctions
+        );
+      }
+
       if (maxComplexity && complexity > maxComplexity) {
         errors.push({
           type: 'semantic' as const,
@@ -209,30 +219,10 @@ export const formulaEngine = {
   },
 
   /**
-   * Recalculate formulas when dependencies change
+   * Drop cached results of a record that depend on changed properties
    */
-  recalculateFormulas: async (
-    recordId: string,
-    changedProperties: string[]
-  ): Promise<Map<string, any>> => {
-    const results = new Map<string, any>();
-    const dependents = dependencyGraphUtils.getDependentFormulas(
-      formulaEngine.dependencyGraph,
-      changedProperties
-    );
-
-    for (const formulaKey of dependents) {
-      try {
-        // This would require access to the formula configuration
-        // For now, we'll invalidate the cache
-        const cacheKey = formulaKey; // Simplified
-        cacheUtils.invalidateCache(formulaEngine.cache, cacheKey);
-      } catch (error) {
-        console.error(`Error recalculating formula ${formulaKey}:`, error);
-      }
-    }
-
-    return results;
+  invalidateRecordCache: (recordId: string, changedProperties: string[] = []): number => {
+    return cacheUtils.invalidateRecord(formulaEngine.cache, recordId, changedProperties);
   },
 
   /**
@@ -279,12 +269,19 @@ export const formulaEngine = {
   testFormula: async (
     expression: string,
     sampleData: Record<string, any>,
-    availableProperties: Array<{ name: string; type: any }> = []
+    availableProperties: Array<{ name: string; type: any }> = [],
+    customFunctions?: Record<string, IWorkspaceFormulaFunction>
   ): Promise<{ result: any; validation: any; executionTime: number }> => {
     const startTime = Date.now();
 
     // Validate first
-    const validation = formulaEngine.validateFormula(expression, availableProperties);
+    const validation = formulaEngine.validateFormula(
+      expression,
+      availableProperties,
+      undefined,
+      undefined,
+      customFunctions
+    );
 
     if (!validation.isValid) {
       return {
@@ -304,7 +301,8 @@ export const formulaEngine = {
         name: 'Test User',
         email: 'test@example.com'
       },
-      currentDate: new Date()
+      currentDate: new Date(),
+      customFunctions
     };
 
     try {
@@ -346,30 +344,24 @@ export const formulaEngine = {
   },
 
   /**
-   * Get available functions (placeholder - would integrate with formula functions service)
+   * Get available functions
    */
-  getAvailableFunctions: (): any[] => {
-    // This would return available formula functions
-    // For now, return empty array
-    return [];
+  getAvailableFunctions: (): IFormulaFunction[] => {
+    return formulaFunctionsService.getAllFunctions();
   },
 
   /**
    * Search functions by query
    */
-  searchFunctions: (query: string): any[] => {
-    // This would search available functions
-    // For now, return empty array
-    return [];
+  searchFunctions: (query: string): IFormulaFunction[] => {
+    return formulaFunctionsService.searchFunctions(query);
   },
 
   /**
    * Get functions by category
    */
-  getFunctionsByCategory: (category: string): any[] => {
-    // This would filter functions by category
-    // For now, return empty array
-    return [];
+  getFunctionsByCategory: (category: string): IFormulaFunction[] => {
+    return formulaFunctionsService.getFunctionsByCategory(category as EFormulaCategory);
   },
 
   /**
@@ -3,9 +3,37 @@ import {
   IFormulaContext,
   IFormulaExecutionResult,
   EFormulaDataType,
-  EFormulaOperator
+  EFormulaOperator,
+  IWorkspaceFormulaFunction
 } from '../types/formula.types';
 import { formulaFunctionsService } from './formula-functions.service';
+import { formulaParserService } from './formula-parser.service';
+
+// Bound per item while a lambda argument (FILTER, MAP) is evaluated
+const LAMBDA_VARIABLES = ['current', 'index'];
+
+// Validation rejects recursive workspace functions, this catches anything that slips through
+const MAX_FUNCTION_DEPTH = 32;
+
+// Parsed workspace function bodies, keyed by body so edits never reuse a stale AST
+const functionBodyCache = new Map<string, IFormulaASTNode>();
+const MAX_CACHED_BODIES = 500;
+
+const parseFunctionBody = (func: IWorkspaceFormulaFunction): IFormulaASTNode => {
+  const cached = functionBodyCache.get(func.body);
+  if (cached) return cached;
+
+  const parseResult = formulaParserService.parse(func.body);
+  if (!parseResult.ast || parseResult.errors.length > 0) {
+    throw new Error(
+      `Function ${func.name} has an invalid body: ${parseResult.errors.map(e => e.message).join(', ')}`
+    );
+  }
+
+  if (functionBodyCache.size >= MAX_CACHED_BODIES) functionBodyCache.clear();
+  functionBodyCache.set(func.body, parseResult.ast);
+  return parseResult.ast;
+};
 
 export const formulaEvaluatorService = {
   // Evaluate formula AST with context
@@ -69,6 +97,15 @@ export const formulaEvaluatorService = {
 
   // Evaluate property reference
   evaluateProperty: (propertyName: string, context: IFormulaContext): any => {
+    // Lambda variables shadow record properties of the same name
+    if (
+      LAMBDA_VARIABLES.includes(propertyName) &&
+      context.variables &&
+      propertyName in context.variables
+    ) {
+      return context.variables[propertyName];
+    }
+
     // Check if property exists in current record
     if (propertyName in context.properties) {
       return context.properties[propertyName];
@@ -117,15 +154,79 @@ export const formulaEvaluatorService = {
     argNodes: IFormulaASTNode[],
     context: IFormulaContext
   ): Promise<any> => {
-    // Evaluate all arguments
+    const builtInFunction = formulaFunctionsService.getFunction(functionName);
+    const customFunction = builtInFunction
+      ? undefined
+      : context.customFunctions?.[functionName.toUpperCase()];
+    // Workspace function arguments are always evaluated up front
+    const parameters = builtInFunction?.parameters || [];
+
+    // Evaluate all arguments, lambda arguments become callbacks evaluated per list item
     const args = await Promise.all(
-      argNodes.map(arg => formulaEvaluatorService.evaluateNode(arg, context))
+      argNodes.map((arg, index) =>
+        parameters[index]?.isLambda
+          ? (item: any, itemIndex: number) =>
+              formulaEvaluatorService.evaluateNode(arg, {
+                ...context,
+                variables: { ...context.variables, current: item, index: itemIndex }
+              })
+          : formulaEvaluatorService.evaluateNode(arg, context)
+      )
     );
 
+    if (customFunction) {
+      return formulaEvaluatorService.evaluateCustomFunction(customFunction, args, context);
+    }
+
     // Execute function
     return formulaFunctionsService.executeFunction(functionName, args, context);
   },
 
+  // Evaluate a workspace function body with its parameters bound to the arguments
+  evaluateCustomFunction: async (
+    func: IWorkspaceFormulaFunction,
+    args: any[],
+    context: IFormulaContext
+  ): Promise<any> => {
+    const depth = (context.functionDepth || 0) + 1;
+    if (depth > MAX_FUNCTION_DEPTH) {
+      throw new Error(
+        `Function ${func.name} exceeded the maximum call depth of ${MAX_FUNCTION_DEPTH}`
+      );
+    }
+
+    const requiredCount = func.parameters.filter(p => !p.isOptional).length;
+    if (args.length < requiredCount || args.length > func.parameters.length) {
+      throw new Error(
+        `Function ${func.name} expects ${requiredCount === func.parameters.length ? requiredCount : `${requiredCount}-${func.parameters.length}`} arguments, got ${args.length}`
+      );
+    }
+
+    // The body only sees its parameters, not the properties of the calling record
+    const parameters: Record<string, any> = {};
+    func.parameters.forEach((parameter, index) => {
+      parameters[parameter.name] =
+        index < args.length ? args[index] : (parameter.defaultValue ?? null);
+    });
+
+    try {
+      return await formulaEvaluatorService.evaluateNode(parseFunctionBody(func), {
+        ...context,
+        properties: parameters,
+        variables: {},
+        functionDepth: depth
+      });
+    } catch (error) {
+      // Errors from nested workspace functions already name the failing function
+      if (error instanceof Error && error.message.startsWith('Error executing function')) {
+        throw error;
+      }
+      throw new Error(
+        `Error executing function ${func.name}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
+
   // Evaluate operator
   evaluateOperator: async (
     operator: EFormulaOperator,
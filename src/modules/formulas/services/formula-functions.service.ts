@@ -2,13 +2,253 @@ import {
   IFormulaFunction,
   EFormulaCategory,
   EFormulaDataType,
-  IFormulaContext
+  IFormulaContext,
+  IWorkspaceFormulaFunction
 } from '../types/formula.types';
 
 // Initialize built-in functions
 const functions = new Map<string, IFormulaFunction>();
 const executors = new Map<string, Function>();
 
+// Lambda arguments are passed to executors as callbacks evaluated once per list item
+type TFormulaLambda = (item: any, index: number) => Promise<any>;
+
+const DATE_UNITS = ['years', 'quarters', 'months', 'weeks', 'days', 'hours', 'minutes', 'seconds'];
+const UNIT_MILLISECONDS: Record<string, number> = {
+  weeks: 7 * 24 * 60 * 60 * 1000,
+  days: 24 * 60 * 60 * 1000,
+  hours: 60 * 60 * 1000,
+  minutes: 60 * 1000,
+  seconds: 1000
+};
+const MONTH_NAMES = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December'
+];
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const MAX_REGEX_LENGTH = 500;
+
+const toDateValue = (value: any): Date => {
+  const date = value instanceof Date ? value : new Date(value);
+  if (value === null || value === undefined || value === '' || isNaN(date.getTime())) {
+    throw new Error(`Invalid date: ${value}`);
+  }
+  return date;
+};
+
+const toNumberValue = (value: any): number => {
+  const number = typeof value === 'number' ? value : Number(value);
+  if (value === null || value === undefined || value === '' || isNaN(number)) {
+    throw new Error(`Invalid number: ${value}`);
+  }
+  return number;
+};
+
+const toText = (value: any): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+};
+
+const isBlank = (value: any): boolean =>
+  value === null ||
+  value === undefined ||
+  (typeof value === 'string' && value.trim() === '') ||
+  (Array.isArray(value) && value.length === 0);
+
+const isTruthy = (value: any): boolean => {
+  if (typeof value === 'string') return value.trim() !== '';
+  if (typeof value === 'number') return value !== 0 && !isNaN(value);
+  return Boolean(value);
+};
+
+// Select options and relation references are reduced to their display text
+const toListItem = (item: any): any => {
+  if (item && typeof item === 'object' && !(item instanceof Date) && !Array.isArray(item)) {
+    return item.label ?? item.displayValue ?? item.name ?? item.value ?? item.recordId ?? item;
+  }
+  return item;
+};
+
+// Relation, multi-select and array values as a flat list
+const toList = (value: any): any[] => {
+  if (value === null || value === undefined || value === '') return [];
+  return (Array.isArray(value) ? value : [value]).map(toListItem);
+};
+
+const compareItems = (left: any, right: any): number => {
+  if (left === right) return 0;
+  if (left === null || left === undefined) return -1;
+  if (right === null || right === undefined) return 1;
+  if (left instanceof Date && right instanceof Date) return left.getTime() - right.getTime();
+  if (typeof left === 'number' && typeof right === 'number') return left - right;
+  return toText(left).localeCompare(toText(right), undefined, { numeric: true });
+};
+
+const itemKey = (item: any): string =>
+  item instanceof Date ? `date:${item.getTime()}` : `${typeof item}:${toText(item)}`;
+
+const normalizeDateUnit = (unit: any): string => {
+  const normalized = toText(unit).toLowerCase().trim();
+  const plural = normalized.endsWith('s') ? normalized : `${normalized}s`;
+  if (!DATE_UNITS.includes(plural)) {
+    throw new Error(`Unknown date unit "${unit}", expected one of ${DATE_UNITS.join(', ')}`);
+  }
+  return plural;
+};
+
+const addMonths = (date: Date, months: number): Date => {
+  const result = new Date(date);
+  const day = result.getDate();
+  result.setDate(1);
+  result.setMonth(result.getMonth() + months);
+  // Clamp to the last day of the target month (Jan 31 + 1 month = Feb 28/29)
+  const lastDay = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+  result.setDate(Math.min(day, lastDay));
+  return result;
+};
+
+const monthsBetween = (start: Date, end: Date): number => {
+  let months = (end.getFullYear() - start.getFullYear()) * 12 + end.getMonth() - start.getMonth();
+  // Only count a month once its day and time have been reached
+  if (months > 0 && addMonths(start, months) > end) months--;
+  if (months < 0 && addMonths(start, months) < end) months++;
+  return months;
+};
+
+const pad = (value: number, length = 2): string => String(value).padStart(length, '0');
+
+const formatDateWithPattern = (date: Date, pattern: string): string => {
+  const hours = date.getHours();
+  const tokens: Record<string, string> = {
+    YYYY: String(date.getFullYear()),
+    YY: pad(date.getFullYear() % 100),
+    MMMM: MONTH_NAMES[date.getMonth()],
+    MMM: MONTH_NAMES[date.getMonth()].slice(0, 3),
+    MM: pad(date.getMonth() + 1),
+    M: String(date.getMonth() + 1),
+    DD: pad(date.getDate()),
+    D: String(date.getDate()),
+    dddd: DAY_NAMES[date.getDay()],
+    ddd: DAY_NAMES[date.getDay()].slice(0, 3),
+    HH: pad(hours),
+    H: String(hours),
+    hh: pad(hours % 12 || 12),
+    h: String(hours % 12 || 12),
+    mm: pad(date.getMinutes()),
+    ss: pad(date.getSeconds()),
+    A: hours < 12 ? 'AM' : 'PM'
+  };
+
+  // Text inside square brackets is kept literally, e.g. "[Week of] MMM D"
+  return pattern.replace(
+    /\[([^\]]*)\]|YYYY|YY|MMMM|MMM|MM|M|DD|D|dddd|ddd|HH|H|hh|h|mm|ss|A/g,
+    (match, literal) => (literal !== undefined ? literal : tokens[match])
+  );
+};
+
+const getWeekNumber = (date: Date, type: number): number => {
+  if (type === 21) {
+    // ISO 8601: weeks start on Monday, week 1 contains the first Thursday
+    const target = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    const dayNumber = (target.getDay() + 6) % 7;
+    target.setDate(target.getDate() - dayNumber + 3);
+    const firstThursday = new Date(target.getFullYear(), 0, 4);
+    const firstDayNumber = (firstThursday.getDay() + 6) % 7;
+    firstThursday.setDate(firstThursday.getDate() - firstDayNumber + 3);
+    return 1 + Math.round((target.getTime() - firstThursday.getTime()) / UNIT_MILLISECONDS.weeks);
+  }
+
+  // Week containing January 1st is week 1; type 1 starts weeks on Sunday, type 2 on Monday
+  const weekStart = type === 2 ? 1 : 0;
+  const startOfYear = new Date(date.getFullYear(), 0, 1);
+  const offset = (startOfYear.getDay() - weekStart + 7) % 7;
+  const dayOfYear = Math.round(
+    (new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime() -
+      startOfYear.getTime()) /
+      UNIT_MILLISECONDS.days
+  );
+  return Math.floor((dayOfYear + offset) / 7) + 1;
+};
+
+// Length of the repeat quantifier (`*`, `+`, `{n,}`, `{n,m}` with m > 1) at a position, a
+// trailing lazy marker included, or 0 when there is none
+const repeatQuantifierLength = (source: string, index: number): number => {
+  const lazy = (length: number) => (source[index + length] === '?' ? length + 1 : length);
+  if (source[index] === '*' || source[index] === '+') return lazy(1);
+
+  const bounds = /^\{(\d+)(,(\d*))?\}/.exec(source.slice(index));
+  if (!bounds) return 0;
+  const isRepeat = bounds[2] !== undefined && (bounds[3] === '' || Number(bounds[3]) > 1);
+  return isRepeat ? lazy(bounds[0].length) : 0;
+};
+
+// Whether a repeated group contains a repeat itself, like `(a+)+` or `(\w*\d)*`. Such
+// patterns backtrack exponentially on input that almost matches.
+const hasNestedQuantifier = (source: string): boolean => {
+  const groups: boolean[] = [false];
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (char === '\\') {
+      i++;
+    } else if (char === '[') {
+      // Quantifier characters inside a class are literal
+      for (i++; i < source.length && source[i] !== ']'; i++) {
+        if (source[i] === '\\') i++;
+      }
+    } else if (char === '(') {
+      groups.push(false);
+      // Non-capturing, lookaround and named groups start with a marker
+      const marker = /^\(\?(<[^=!>]*>|<[=!]|[:=!])/.exec(source.slice(i));
+      if (marker) i += marker[0].length - 1;
+    } else if (char === ')' && groups.length > 1) {
+      const containsRepeat = groups.pop()!;
+      const quantifier = repeatQuantifierLength(source, i + 1);
+      if (quantifier > 0 && containsRepeat) return true;
+
+      groups[groups.length - 1] ||= containsRepeat || quantifier > 0;
+      i += quantifier;
+    } else {
+      const quantifier = repeatQuantifierLength(source, i);
+      if (quantifier > 0) {
+        groups[groups.length - 1] = true;
+        i += quantifier - 1;
+      }
+    }
+  }
+
+  return false;
+};
+
+const createRegex = (pattern: any, flags = ''): RegExp => {
+  const source = toText(pattern);
+  if (source.length > MAX_REGEX_LENGTH) {
+    throw new Error(`Regular expression is longer than ${MAX_REGEX_LENGTH} characters`);
+  }
+  if (hasNestedQuantifier(source)) {
+    throw new Error(
+      `Regular expression ${source} repeats a quantified group, which can take too long`
+    );
+  }
+  try {
+    return new RegExp(source, flags);
+  } catch {
+    throw new Error(`Invalid regular expression: ${source}`);
+  }
+};
+
 const registerBuiltInFunctions = (): void => {
   // Math functions
   formulaFunctionsService.registerFunction(
@@ -467,6 +707,859 @@ const registerBuiltInFunctions = (): void => {
     },
     (args: any[]) => typeof args[0] === 'number' && !isNaN(args[0])
   );
+
+  // Additional math functions
+  formulaFunctionsService.registerFunction(
+    {
+      name: 'MOD',
+      category: EFormulaCategory.MATH,
+      description: 'Returns the remainder of a division, with the sign of the divisor',
+      syntax: 'MOD(number, divisor)',
+      parameters: [
+        { name: 'number', type: EFormulaDataType.NUMBER, description: 'Number to divide' },
+        { name: 'divisor', type: EFormulaDataType.NUMBER, description: 'Number to divide by' }
+      ],
+      returnType: EFormulaDataType.NUMBER,
+      examples: [
+        { expression: 'MOD(10, 3)', description: 'Remainder of 10 / 3', result: 1 },
+        { expression: 'MOD(-10, 3)', description: 'Remainder takes the divisor sign', result: 2 }
+      ]
+    },
+    (args: any[]) => {
+      const number = toNumberValue(args[0]);
+      const divisor = toNumberValue(args[1]);
+      if (divisor === 0) throw new Error('Division by zero');
+      return number - divisor * Math.floor(number / divisor);
+    }
+  );
+
+  formulaFunctionsService.registerFunction(
+    {
+      name: 'POW',
+      category: EFormulaCategory.MATH,
+      description: 'Returns a number raised to a power',
+      syntax: 'POW(number, power)',
+      parameters: [
+        { name: 'number', type: EFormulaDataType.NUMBER, description: 'Base number' },
+        { name: 'power', type: EFormulaDataType.NUMBER, description: 'Exponent' }
+      ],
+      returnType: EFormulaDataType.NUMBER,
+      examples: [{ expression: 'POW(2, 10)', description: '2 to the power of 10', result: 1024 }],
+      aliases: ['POWER']
+    },
+    (args: any[]) => Math.pow(toNumberValue(args[0]), toNumberValue(args[1]))
+  );
+
+  formulaFunctionsService.registerFunction(
+    {
+      name: 'SQRT',
+      category: EFormulaCategory.MATH,
+      description: 'Returns the square root of a number',
+      syntax: 'SQRT(number)',
+      parameters: [
+        { name: 'number', type: EFormulaDataType.NUMBER, description: 'Non-negative number' }
+      ],
+      returnType: EFormulaDataType.NUMBER,
+      examples: [{ expression: 'SQRT(16)', description: 'Square root of 16', result: 4 }]
+    },
+    (args: any[]) => {
+      const number = toNumberValue(args[0]);
+      if (number < 0) throw new Error('Cannot take the square root of a negative number');
+      return Math.sqrt(number);
+    }
+  );
+
+  formulaFunctionsService.registerFunction(
+    {
+      name: 'FLOOR',
+      category: EFormulaCategory.MATH,
+      description: 'Rounds a number down to the nearest multiple of significance',
+      syntax: 'FLOOR(number, [significance])',
+      parameters: [
+        { name: 'number', type: EFormulaDataType.NUMBER, description: 'Number to round down' },
+        {
+          name: 'significance',
+          type: EFormulaDataType.NUMBER,
+          description: 'Multiple to round to',
+          isOptional: true,
+          defaultValue: 1
+        }
+      ],
+      returnType: EFormulaDataType.NUMBER,
+      examples: [
+        { expression: 'FLOOR(4.7)', description: 'Round down to an integer', result: 4 },
+        { expression: 'FLOOR(17, 5)', description: 'Round down to a multiple of 5', result: 15 }
+      ]
+    },
+    (args: any[]) => {
+      const significance = args[1] === undefined ? 1 : toNumberValue(args[1]);
+      if (significance === 0) return 0;
+      return Math.floor(toNumberValue(args[0]) / significance) * significance;
+    }
+  );
+
+  formulaFunctionsService.registerFunction(
+    {
+      name: 'CEIL',
+      category: EFormulaCategory.MATH,
+      description: 'Rounds a number up to the nearest multiple of significance',
+      syntax: 'CEIL(number, [significance])',
+      parameters: [
+        { name: 'number', type: EFormulaDataType.NUMBER, description: 'Number to round up' },
+        {
+          name: 'significance',
+          type: EFormulaDataType.NUMBER,
+          description: 'Multiple to round to',
+          isOptional: true,
+          defaultValue: 1
+        }
+      ],
+      returnType: EFormulaDataType.NUMBER,
+      examples: [
+        { expression: 'CEIL(4.2)', description: 'Round up to an integer', result: 5 },
+        { expression: 'CEIL(17, 5)', description: 'Round up to a multiple of 5', result: 20 }
+      ],
+      aliases: ['CEILING']
+    },
+    (args: any[]) => {
+      const significance = args[1] === undefined ? 1 : toNumberValue(args[1]);
+      if (significance === 0) return 0;
+      return Math.ceil(toNumberValue(args[0]) / significance) * significance;
+    }
+  );
+
+  formulaFunctionsService.registerFunction(
+    {
+      name: 'LOG',
+      category: EFormulaCategory.MATH,
+      description: 'Returns the logarithm of a number to the given base',
+      syntax: 'LOG(number, [base])',
+      parameters: [
+        { name: 'number', type: EFormulaDataType.NUMBER, description: 'Positive number' },
+        {
+          name: 'base',
+          type: EFormulaDataType.NUMBER,
+          description: 'Logarithm base',
+          isOptional: true,
+          defaultValue: 10
+        }
+      ],
+      returnType: EFormulaDataType.NUMBER,
+      examples: [
+        { expression: 'LOG(1000)', description: 'Base 10 logarithm', result: 3 },
+        { expression: 'LOG(8, 2)', description: 'Base 2 logarithm', result: 3 }
+      ]
+    },
+    (args: any[]) => {
+      const number = toNumberValue(args[0]);
+      const base = args[1] === undefined ? 10 : toNumberValue(args[1]);
+      if (number <= 0) throw new Error('Logarithm is only defined for positive numbers');
+      if (base <= 0 || base === 1) throw new Error('Logarithm base must be positive and not 1');
+      return Math.log(number) / Math.log(base);
+    }
+  );
+
+  // Additional text functions
+  formulaFunctionsService.registerFunction(
+    {
+      name: 'TRIM',
+      category: EFormulaCategory.TEXT,
+      description: 'Removes leading and trailing spaces and collapses repeated whitespace',
+      syntax: 'TRIM(text)',
+      parameters: [{ name: 'text', type: EFormulaDataType.TEXT, description: 'Text to clean' }],
+      returnType: EFormulaDataType.TEXT,
+      examples: [{ expression: 'TRIM("  a   b ")', description: 'Clean up spacing', result: 'a b' }]
+    },
+    (args: any[]) => toText(args[0]).trim().replace(/\s+/g, ' ')
+  );
+
+  formulaFunctionsService.registerFunction(
+    {
+      name: 'CONTAINS',
+      category: EFormulaCategory.TEXT,
+      description: 'Returns true if text contains a substring, or a list contains a value',
+      syntax: 'CONTAINS(text_or_list, search)',
+      parameters: [
+        {
+          name: 'text_or_list',
+          type: EFormulaDataType.ANY,
+          description: 'Text, multi-select or relation to search in'
+        },
+        { name: 'search', type: EFormulaDataType.ANY, description: 'Value to look for' }
+      ],
+      returnType: EFormulaDataType.BOOLEAN,
+      examples: [
+        { expression: 'CONTAINS("Hello world", "world")', description: 'Substring', result: true },
+        { expression: 'CONTAINS([Tags], "urgent")', description: 'Option selected', result: true }
+      ]
+    },
+    (args: any[]) => {
+      if (Array.isArray(args[0])) {
+        const key = itemKey(toListItem(args[1]));
+        return toList(args[0]).some(item => itemKey(item) === key);
+      }
+      return toText(args[0]).includes(toText(args[1]));
+    }
+  );
+
+  formulaFunctionsService.registerFunction(
+    {
+      name: 'REPLACE',
+      category: EFormulaCategory.TEXT,
+      description: 'Replaces part of a text, starting at a position, with new text',
+      syntax: 'REPLACE(text, start, length, new_text)',
+      parameters: [
+        { name: 'text', type: EFormulaDataType.TEXT, description: 'Source text' },
+        {
+          name: 'start',
+          type: EFormulaDataType.NUMBER,
+          description: 'Position of the first character to replace, starting at 1'
+        },
+        { name: 'length', type: EFormulaDataType.NUMBER, description: 'Characters to replace' },
+        { name: 'new_text', type: EFormulaDataType.TEXT, description: 'Replacement text' }
+      ],
+      returnType: EFormulaDataType.TEXT,
+      examples: [
+        {
+          expression: 'REPLACE("2024-01", 1, 4, "2025")',
+          description: 'Swap the year',
+          result: '2025-01'
+        }
+      ]
+    },
+    (args: any[]) => {
+      const text = toText(args[0]);
+      const start = Math.max(Math.floor(toNumberValue(args[1])), 1) - 1;
+      const length = Math.max(Math.floor(toNumberValue(args[2])), 0);
+      return text.slice(0, start) + toText(args[3]) + text.slice(start + length);
+    }
+  );
+
+  formulaFunctionsService.registerFunction(
+    {
+      name: 'SUBSTITUTE',
+      category: EFormulaCategory.TEXT,
+      description: 'Replaces occurrences of a search text with new text',
+      syntax: 'SUBSTITUTE(text, search, replacement, [occurrence])',
+      parameters: [
+        { name: 'text', type: EFormulaDataType.TEXT, description: 'Source text' },
+        { name: 'search', type: EFormulaDataType.TEXT, description: 'Text to find' },
+        { name: 'replacement', type: EFormulaDataType.TEXT, description: 'Replacement text' },
+        {
+          name: 'occurrence',
+          type: EFormulaDataType.NUMBER,
+          description: 'Only replace the nth occurrence',
+          isOptional: true
+        }
+      ],
+      returnType: EFormulaDataType.TEXT,
+      examples: [
+        {
+          expression: 'SUBSTITUTE("a-b-c", "-", "/")',
+          description: 'Replace every dash',
+          result: 'a/b/c'
+        }
+      ]
+    },
+    (args: any[]) => {
+      const text = toText(args[0]);
+      const search = toText(args[1]);
+      const replacement = toText(args[2]);
+      if (!search) return text;
+      if (args[3] === undefined) return text.split(search).join(replacement);
+
+      const occurrence = Math.floor(toNumberValue(args[3]));
+      let index = -1;
+      for (let count = 0; count < occurrence; count++) {
+        index = text.indexOf(search, index + 1);
+        if (index === -1) return text;
+      }
+      return text.slice(0, index) + replacement + text.slice(index + search.length);
+    }
+  );
+
+  formulaFunctionsService.registerFunction(
+    {
+      name: 'REGEXMATCH',
+      category: EFormulaCategory.TEXT,
+      description: 'Returns true if text matches a regular expression',
+      syntax: 'REGEXMATCH(text, pattern)',
+      parameters: [
+        { name: 'text', type: EFormulaDataType.TEXT, description: 'Text to test' },
+        { name: 'pattern', type: EFormulaDataType.TEXT, description: 'Regular expression' }
+      ],
+      returnType: EFormulaDataType.BOOLEAN,
+      examples: [
+        {
+          expression: 'REGEXMATCH([Email], "@example\\.com$")',
+          description: 'Company email address',
+          result: true
+        }
+      ]
+    },
+    (args: any[]) => createRegex(args[1]).test(toText(args[0]))
+  );
+
+  formulaFunctionsService.registerFunction(
+    {
+      name: 'REGEXEXTRACT',
+      category: EFormulaCategory.TEXT,
+      description: 'Returns the first match of a regular expression, or its first capture group',
+      syntax: 'REGEXEXTRACT(text, pattern)',
+      parameters: [
+        { name: 'text', type: EFormulaDataType.TEXT, description: 'Text to search' },
+        { name: 'pattern', type: EFormulaDataType.TEXT, description: 'Regular expression' }
+      ],
+      returnType: EFormulaDataType.TEXT,
+      examples: [
+        {
+          expression: 'REGEXEXTRACT("Order #4521", "#(\\d+)")',
+          description: 'Extract the order number',
+          result: '4521'
+        }
+      ]
+    },
+    (args: any[]) => {
+      const match = createRegex(args[1]).exec(toText(args[0]));
+      if (!match) return null;
+      return match.length > 1 ? (match[1] ?? null) : match[0];
+    }
+  );
+
+  formulaFunctionsService.registerFunction(
+    {
+      name: 'REGEXREPLACE',
+      category: EFormulaCategory.TEXT,
+      description: 'Replaces every match of a regular expression',
+      syntax: 'REGEXREPLACE(text, pattern, replacement)',
+      parameters: [
+        { name: 'text', type: EFormulaDataType.TEXT, description: 'Source text' },
+        { name: 'pattern', type: EFormulaDataType.TEXT, description: 'Regular expression' },
+        {
+          name: 'replacement',
+          type: EFormulaDataType.TEXT,
+          description: 'Replacement text, $1 refers to the first capture group'
+        }
+      ],
+      returnType: EFormulaDataType.TEXT,
+      examples: [
+        {
+          expression: 'REGEXREPLACE("a1b22", "\\d+", "#")',
+          description: 'Mask digits',
+          result: 'a#b#'
+        }
+      ]
+    },
+    (args: any[]) => toText(args[0]).replace(createRegex(args[1], 'g'), toText(args[2]))
+  );
+
+  formulaFunctionsService.registerFunction(
+    {
+      name: 'SPLIT',
+      category: EFormulaCategory.TEXT,
+      description: 'Splits text into a list around a delimiter',
+      syntax: 'SPLIT(text, [delimiter])',
+      parameters: [
+        { name: 'text', type: EFormulaDataType.TEXT, description: 'Text to split' },
+        {
+          name: 'delimiter',
+          type: EFormulaDataType.TEXT,
+          description: 'Separator between values',
+          isOptional: true,
+          defaultValue: ','
+        }
+      ],
+      returnType: EFormulaDataType.ARRAY,
+      examples: [
+        { expression: 'SPLIT("a, b, c", ",")', description: 'Comma list', result: ['a', 'b', 'c'] }
+      ]
+    },
+    (args: any[]) => {
+      const text = toText(args[0]);
+      if (!text) return [];
+      const delimiter = args[1] === undefined ? ',' : toText(args[1]);
+      return text.split(delimiter).map(part => part.trim());
+    }
+  );
+
+  formulaFunctionsService.registerFunction(
+    {
+      name: 'JOIN',
+      category: EFormulaCategory.TEXT,
+      description: 'Joins values and lists into one text with a delimiter',
+      syntax: 'JOIN(delimiter, value1, value2, ...)',
+      parameters: [
+        { name: 'delimiter', type: EFormulaDataType.TEXT, description: 'Separator between values' },
+        {
+          name: 'values',
+          type: [EFormulaDataType.ANY, EFormulaDataType.ARRAY],
+          description: 'Values or lists to join'
+        }
+      ],
+      returnType: EFormulaDataType.TEXT,
+      examples: [
+        { expression: 'JOIN(", ", [Tags])', description: 'Selected options', result: 'a, b' }
+      ]
+    },
+    (args: any[]) =>
+      args
+        .slice(1)
+        .flatMap(value => toList(value))
+        .filter(value => !isBlank(value))
+        .map(toText)
+        .join(toText(args[0]))
+  );
+
+  // Additional date functions
+  formulaFunctionsService.registerFunction(
+    {
+      name: 'DATEADD',
+      category: EFormulaCategory.DATE,
+      description: 'Adds an amount of time to a date',
+      syntax: 'DATEADD(date, amount, unit)',
+      parameters: [
+        { name: 'date', type: EFormulaDataType.DATE, description: 'Starting date' },
+        { name: 'amount', type: EFormulaDataType.NUMBER, description: 'Amount, may be negative' },
+        {
+          name: 'unit',
+          type: EFormulaDataType.TEXT,
+          description: 'years, quarters, months, weeks, days, hours, minutes or seconds',
+          validation: { allowedValues: DATE_UNITS }
+        }
+      ],
+      returnType: EFormulaDataType.DATE,
+      examples: [
+        {
+          expression: 'DATEADD([Due Date], 2, "weeks")',
+          description: 'Two weeks after the due date',
+          result: 'varies'
+        }
+      ]
+    },
+    (args: any[]) => {
+      const date = toDateValue(args[0]);
+      const amount = toNumberValue(args[1]);
+      const unit = normalizeDateUnit(args[2]);
+
+      if (unit === 'years') return addMonths(date, Math.trunc(amount) * 12);
+      if (unit === 'quarters') return addMonths(date, Math.trunc(amount) * 3);
+      if (unit === 'months') return addMonths(date, Math.trunc(amount));
+      if (unit === 'weeks' || unit === 'days') {
+        // Calendar arithmetic keeps the time of day across daylight saving changes
+        const result = new Date(date);
+        result.setDate(result.getDate() + Math.trunc(amount) * (unit === 'weeks' ? 7 : 1));
+        return result;
+      }
+      return new Date(date.getTime() + amount * UNIT_MILLISECONDS[unit]);
+    }
+  );
+
+  formulaFunctionsService.registerFunction(
+    {
+      name: 'DATEDIFF',
+      category: EFormulaCategory.DATE,
+      description: 'Returns the whole number of units between two dates',
+      syntax: 'DATEDIFF(start_date, end_date, unit)',
+      parameters: [
+        { name: 'start_date', type: EFormulaDataType.DATE, description: 'Start date' },
+        { name: 'end_date', type: EFormulaDataType.DATE, description: 'End date' },
+        {
+          name: 'unit',
+          type: EFormulaDataType.TEXT,
+          description: 'years, quarters, months, weeks, days, hours, minutes or seconds',
+          validation: { allowedValues: DATE_UNITS }
+        }
+      ],
+      returnType: EFormulaDataType.NUMBER,
+      examples: [
+        {
+          expression: 'DATEDIFF(TODAY(), [Due Date], "days")',
+          description: 'Days until the due date',
+          result: 'varies'
+        }
+      ]
+    },
+    (args: any[]) => {
+      const start = toDateValue(args[0]);
+      const end = toDateValue(args[1]);
+      const unit = normalizeDateUnit(args[2]);
+
+      if (unit === 'years') return Math.trunc(monthsBetween(start, end) / 12);
+      if (unit === 'quarters') return Math.trunc(monthsBetween(start, end) / 3);
+      if (unit === 'months') return monthsBetween(start, end);
+      if (unit === 'weeks' || unit === 'days') {
+        // Compare calendar days so a daylight saving change doesn't lose a day
+        const startDay = Date.UTC(start.getFullYear(), start.getMonth(), start.getDate());
+        const endDay = Date.UTC(end.getFullYear(), end.getMonth(), end.getDate());
+        const days = Math.round((endDay - startDay) / UNIT_MILLISECONDS.days);
+        return unit === 'weeks' ? Math.trunc(days / 7) : days;
+      }
+      return Math.trunc((end.getTime() - start.getTime()) / UNIT_MILLISECONDS[unit]);
+    }
+  );
+
+  formulaFunctionsService.registerFunction(
+    {
+      name: 'FORMATDATE',
+      category: EFormulaCategory.DATE,
+      description: 'Formats a date as text using a pattern',
+      syntax: 'FORMATDATE(date, [pattern])',
+      parameters: [
+        { name: 'date', type: EFormulaDataType.DATE, description: 'Date to format' },
+        {
+          name: 'pattern',
+          type: EFormulaDataType.TEXT,
+          description:
+            'Tokens YYYY, YY, MMMM, MMM, MM, M, DD, D, dddd, ddd, HH, H, hh, h, mm, ss, A; [text] is literal',
+          isOptional: true,
+          defaultValue: 'YYYY-MM-DD'
+        }
+      ],
+      returnType: EFormulaDataType.TEXT,
+      examples: [
+        {
+          expression: 'FORMATDATE([Due Date], "ddd, MMM D YYYY")',
+          description: 'Readable due date',
+          result: 'Mon, Mar 4 2024'
+        }
+      ]
+    },
+    (args: any[]) =>
+      formatDateWithPattern(
+        toDateValue(args[0]),
+        args[1] === undefined ? 'YYYY-MM-DD' : toText(args[1])
+      )
+  );
+
+  formulaFunctionsService.registerFunction(
+    {
+      name: 'WEEKDAY',
+      category: EFormulaCategory.DATE,
+      description: 'Returns the day of the week as a number',
+      syntax: 'WEEKDAY(date, [type])',
+      parameters: [
+        { name: 'date', type: EFormulaDataType.DATE, description: 'Date to inspect' },
+        {
+          name: 'type',
+          type: EFormulaDataType.NUMBER,
+          description: '1: Sunday=1..Saturday=7, 2: Monday=1..Sunday=7, 3: Monday=0..Sunday=6',
+          isOptional: true,
+          defaultValue: 1,
+          validation: { allowedValues: [1, 2, 3] }
+        }
+      ],
+      returnType: EFormulaDataType.NUMBER,
+      examples: [
+        {
+          expression: 'WEEKDAY([Date], 2) > 5',
+          description: 'Falls on a weekend',
+          result: 'varies'
+        }
+      ]
+    },
+    (args: any[]) => {
+      const day = toDateValue(args[0]).getDay();
+      const type = args[1] === undefined ? 1 : toNumberValue(args[1]);
+      if (type === 1) return day + 1;
+      if (type === 2) return ((day + 6) % 7) + 1;
+      if (type === 3) return (day + 6) % 7;
+      throw new Error(`Unsupported WEEKDAY type: ${type}`);
+    }
+  );
+
+  formulaFunctionsService.registerFunction(
+    {
+      name: 'WEEKNUM',
+      category: EFormulaCategory.DATE,
+      description: 'Returns the week number of the year',
+      syntax: 'WEEKNUM(date, [type])',
+      parameters: [
+        { name: 'date', type: EFormulaDataType.DATE, description: 'Date to inspect' },
+        {
+          name: 'type',
+          type: EFormulaDataType.NUMBER,
+          description: '1: weeks start Sunday, 2: weeks start Monday, 21: ISO 8601 weeks',
+          isOptional: true,
+          defaultValue: 1,
+          validation: { allowedValues: [1, 2, 21] }
+        }
+      ],
+      returnType: EFormulaDataType.NUMBER,
+      examples: [
+        {
+          expression: 'WEEKNUM([Date], 21)',
+          description: 'ISO week of the date',
+          result: 'varies'
+        }
+      ]
+    },
+    (args: any[]) => {
+      const type = args[1] === undefined ? 1 : toNumberValue(args[1]);
+      if (![1, 2, 21].includes(type)) throw new Error(`Unsupported WEEKNUM type: ${type}`);
+      return getWeekNumber(toDateValue(args[0]), type);
+    }
+  );
+
+  // Conditional functions
+  formulaFunctionsService.registerFunction(
+    {
+      name: 'SWITCH',
+      category: EFormulaCategory.CONDITIONAL,
+      description: 'Compares a value against cases and returns the matching result',
+      syntax: 'SWITCH(value, case1, result1, [case2, result2, ...], [default])',
+      parameters: [
+        { name: 'value', type: EFormulaDataType.ANY, description: 'Value to compare' },
+        {
+          name: 'cases',
+          type: [EFormulaDataType.ANY],
+          description: 'Pairs of case and result, optionally followed by a default'
+        }
+      ],
+      returnType: EFormulaDataType.ANY,
+      examples: [
+        {
+          expression: 'SWITCH([Priority], "High", 3, "Medium", 2, 1)',
+          description: 'Priority weight',
+          result: 'varies'
+        }
+      ]
+    },
+    (args: any[]) => {
+      const key = itemKey(toListItem(args[0]));
+      const cases = args.slice(1);
+      for (let i = 0; i + 1 < cases.length; i += 2) {
+        if (itemKey(toListItem(cases[i])) === key) return cases[i + 1];
+      }
+      return cases.length % 2 === 1 ? cases[cases.length - 1] : null;
+    }
+  );
+
+  formulaFunctionsService.registerFunction(
+    {
+      name: 'IFS',
+      category: EFormulaCategory.CONDITIONAL,
+      description: 'Returns the value of the first condition that is true',
+      syntax: 'IFS(condition1, value1, [condition2, value2, ...])',
+      parameters: [
+        {
+          name: 'conditions',
+          type: [EFormulaDataType.BOOLEAN, EFormulaDataType.ANY],
+          description: 'Pairs of condition and value'
+        }
+      ],
+      returnType: EFormulaDataType.ANY,
+      examples: [
+        {
+          expression: 'IFS([Score] >= 90, "A", [Score] >= 80, "B", true, "C")',
+          description: 'Grade based on score',
+          result: 'varies'
+        }
+      ]
+    },
+    (args: any[]) => {
+      if (args.length % 2 !== 0) {
+        throw new Error('IFS expects pairs of condition and value');
+      }
+      for (let i = 0; i < args.length; i += 2) {
+        if (isTruthy(args[i])) return args[i + 1];
+      }
+      return null;
+    }
+  );
+
+  formulaFunctionsService.registerFunction(
+    {
+      name: 'COALESCE',
+      category: EFormulaCategory.CONDITIONAL,
+      description: 'Returns the first value that is not blank',
+      syntax: 'COALESCE(value1, value2, ...)',
+      parameters: [
+        { name: 'values', type: [EFormulaDataType.ANY], description: 'Values to check in order' }
+      ],
+      returnType: EFormulaDataType.ANY,
+      examples: [
+        {
+          expression: 'COALESCE([Nickname], [Name], "Unknown")',
+          description: 'First filled in name',
+          result: 'varies'
+        }
+      ]
+    },
+    (args: any[]) => args.find(value => !isBlank(value)) ?? null
+  );
+
+  // List functions, for relation, multi-select and array values
+  formulaFunctionsService.registerFunction(
+    {
+      name: 'FILTER',
+      category: EFormulaCategory.ARRAY,
+      description: 'Keeps the list items for which a condition is true',
+      syntax: 'FILTER(list, condition)',
+      parameters: [
+        { name: 'list', type: EFormulaDataType.ARRAY, description: 'List to filter' },
+        {
+          name: 'condition',
+          type: EFormulaDataType.BOOLEAN,
+          description: 'Condition evaluated per item, use current and index to refer to it',
+          isLambda: true
+        }
+      ],
+      returnType: EFormulaDataType.ARRAY,
+      examples: [
+        {
+          expression: 'FILTER([Scores], current >= 50)',
+          description: 'Passing scores',
+          result: 'varies'
+        }
+      ]
+    },
+    async (args: any[]) => {
+      const condition = args[1] as TFormulaLambda;
+      const list = toList(args[0]);
+      const results: any[] = [];
+      for (let index = 0; index < list.length; index++) {
+        if (isTruthy(await condition(list[index], index))) results.push(list[index]);
+      }
+      return results;
+    }
+  );
+
+  formulaFunctionsService.registerFunction(
+    {
+      name: 'MAP',
+      category: EFormulaCategory.ARRAY,
+      description: 'Transforms every list item with an expression',
+      syntax: 'MAP(list, expression)',
+      parameters: [
+        { name: 'list', type: EFormulaDataType.ARRAY, description: 'List to transform' },
+        {
+          name: 'expression',
+          type: EFormulaDataType.ANY,
+          description: 'Expression evaluated per item, use current and index to refer to it',
+          isLambda: true
+        }
+      ],
+      returnType: EFormulaDataType.ARRAY,
+      examples: [
+        {
+          expression: 'MAP([Tags], UPPER(current))',
+          description: 'Upper-case every tag',
+          result: 'varies'
+        }
+      ]
+    },
+    async (args: any[]) => {
+      const expression = args[1] as TFormulaLambda;
+      const list = toList(args[0]);
+      const results: any[] = [];
+      for (let index = 0; index < list.length; index++) {
+        results.push(await expression(list[index], index));
+      }
+      return results;
+    }
+  );
+
+  formulaFunctionsService.registerFunction(
+    {
+      name: 'SORT',
+      category: EFormulaCategory.ARRAY,
+      description: 'Sorts a list of values',
+      syntax: 'SORT(list, [descending])',
+      parameters: [
+        { name: 'list', type: EFormulaDataType.ARRAY, description: 'List to sort' },
+        {
+          name: 'descending',
+          type: EFormulaDataType.BOOLEAN,
+          description: 'Sort from largest to smallest',
+          isOptional: true,
+          defaultValue: false
+        }
+      ],
+      returnType: EFormulaDataType.ARRAY,
+      examples: [{ expression: 'SORT([Tags])', description: 'Tags in order', result: 'varies' }]
+    },
+    (args: any[]) => {
+      const direction = isTruthy(args[1]) ? -1 : 1;
+      return [...toList(args[0])].sort((left, right) => compareItems(left, right) * direction);
+    }
+  );
+
+  formulaFunctionsService.registerFunction(
+    {
+      name: 'UNIQUE',
+      category: EFormulaCategory.ARRAY,
+      description: 'Removes duplicate values from a list, keeping the first occurrence',
+      syntax: 'UNIQUE(list)',
+      parameters: [{ name: 'list', type: EFormulaDataType.ARRAY, description: 'List to dedupe' }],
+      returnType: EFormulaDataType.ARRAY,
+      examples: [
+        {
+          expression: 'UNIQUE(SPLIT("a,b,a"))',
+          description: 'Distinct values',
+          result: ['a', 'b']
+        }
+      ]
+    },
+    (args: any[]) => {
+      const seen = new Set<string>();
+      return toList(args[0]).filter(item => {
+        const key = itemKey(item);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+    }
+  );
+
+  formulaFunctionsService.registerFunction(
+    {
+      name: 'FIRST',
+      category: EFormulaCategory.ARRAY,
+      description: 'Returns the first item of a list',
+      syntax: 'FIRST(list)',
+      parameters: [{ name: 'list', type: EFormulaDataType.ARRAY, description: 'Source list' }],
+      returnType: EFormulaDataType.ANY,
+      examples: [{ expression: 'FIRST([Assignees])', description: 'Lead', result: 'varies' }]
+    },
+    (args: any[]) => toList(args[0])[0] ?? null
+  );
+
+  formulaFunctionsService.registerFunction(
+    {
+      name: 'LAST',
+      category: EFormulaCategory.ARRAY,
+      description: 'Returns the last item of a list',
+      syntax: 'LAST(list)',
+      parameters: [{ name: 'list', type: EFormulaDataType.ARRAY, description: 'Source list' }],
+      returnType: EFormulaDataType.ANY,
+      examples: [{ expression: 'LAST(SPLIT("a,b,c"))', description: 'Last value', result: 'c' }]
+    },
+    (args: any[]) => {
+      const list = toList(args[0]);
+      return list.length > 0 ? list[list.length - 1] : null;
+    }
+  );
+
+  formulaFunctionsService.registerFunction(
+    {
+      name: 'LENGTH',
+      category: EFormulaCategory.ARRAY,
+      description: 'Returns the number of items in a list, or characters in a text',
+      syntax: 'LENGTH(list_or_text)',
+      parameters: [
+        {
+          name: 'list_or_text',
+          type: EFormulaDataType.ANY,
+          description: 'Relation, multi-select, list or text'
+        }
+      ],
+      returnType: EFormulaDataType.NUMBER,
+      examples: [
+        { expression: 'LENGTH([Subtasks])', description: 'Number of linked subtasks', result: 3 }
+      ]
+    },
+    (args: any[]) => (Array.isArray(args[0]) ? args[0].length : toText(args[0]).length)
+  );
 };
 
 export const formulaFunctionsService = {
@@ -489,6 +1582,19 @@ export const formulaFunctionsService = {
     return functions.get(name.toUpperCase());
   },
 
+  // Get a built-in function, falling back to the workspace functions in scope
+  resolveFunction: (
+    name: string,
+    customFunctions?: Record<string, IWorkspaceFormulaFunction>
+  ): IFormulaFunction | undefined => {
+    return functions.get(name.toUpperCase()) || customFunctions?.[name.toUpperCase()];
+  },
+
+  // Check if a name is taken by a built-in function or alias
+  isBuiltInFunction: (name: string): boolean => {
+    return functions.has(name.toUpperCase());
+  },
+
   // Execute function
   executeFunction: (name: string, args: any[], context?: IFormulaContext): any => {
     const executor = executors.get(name.toUpperCase());
@@ -496,34 +1602,46 @@ export const formulaFunctionsService = {
       throw new Error(`Unknown function: ${name}`);
     }
 
-    try {
-      return executor(args, context);
-    } catch (error) {
-      throw new Error(
+    const toExecutionError = (error: unknown) =>
+      new Error(
         `Error executing function ${name}: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
+
+    try {
+      const result = executor(args, context);
+      // List functions that evaluate lambdas resolve asynchronously
+      return result instanceof Promise
+        ? result.catch(error => {
+            throw toExecutionError(error);
+          })
+        : result;
+    } catch (error) {
+      throw toExecutionError(error);
     }
   },
 
   // Get all functions
+  // Aliases share their definition, so each function is listed once
   getAllFunctions: (): IFormulaFunction[] => {
-    return Array.from(functions.values());
+    return Array.from(new Set(functions.values()));
   },
 
   // Get functions by category
   getFunctionsByCategory: (category: EFormulaCategory): IFormulaFunction[] => {
-    return Array.from(functions.values()).filter(func => func.category === category);
+    return formulaFunctionsService.getAllFunctions().filter(func => func.category === category);
   },
 
   // Search functions
   searchFunctions: (query: string): IFormulaFunction[] => {
     const lowerQuery = query.toLowerCase();
-    return Array.from(functions.values()).filter(
-      func =>
-        func.name.toLowerCase().includes(lowerQuery) ||
-        func.description.toLowerCase().includes(lowerQuery) ||
-        func.aliases?.some(alias => alias.toLowerCase().includes(lowerQuery))
-    );
+    return formulaFunctionsService
+      .getAllFunctions()
+      .filter(
+        func =>
+          func.name.toLowerCase().includes(lowerQuery) ||
+          func.description.toLowerCase().includes(lowerQuery) ||
+          func.aliases?.some(alias => alias.toLowerCase().includes(lowerQuery))
+      );
   },
 
   // Validate function call
@@ -8,9 +8,33 @@ import {
 import { RecordModel } from '@/modules/database/models/record.model';
 import { PropertyModel } from '@/modules/database/models/property.model';
 import { DatabaseModel } from '@/modules/database/models/database.model';
-import { IFormulaContext, IFormulaPropertyConfig } from '../types/formula.types';
+import { RelationModel } from '@/modules/database/models/relation.model';
+import { rollupService, IRollupConfig } from '@/modules/database/services/rollup.service';
+import {
+  EDependencyEdgeType,
+  EDependencyNodeKind,
+  IDependencyNode,
+  IFormulaContext,
+  IFormulaPropertyConfig,
+  IPropertyChange,
+  IPropertyDependencyGraph,
+  IRecalculationResult
+} from '../types/formula.types';
 import { EPropertyType } from '@/modules/core/types/property.types';
 import { createAppError } from '@/utils';
+import { workspaceFunctionsService } from './workspace-functions.service';
+import { dependencyGraphUtils } from './dependency-graph';
+
+// The dependency graph is read on every record change, schema changes on this instance
+// invalidate it immediately, other instances pick them up within the TTL
+const GRAPH_CACHE_TTL = 60 * 1000;
+let graphCache: { graph: IPropertyDependencyGraph; loadedAt: number } | null = null;
+
+const COMPUTED_NODE_KINDS = [EDependencyNodeKind.FORMULA, EDependencyNodeKind.ROLLUP];
+
+const isSameValue = (a: any, b: any): boolean => {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+};
 
 export class FormulaIntegrationService {
   // Calculate formula property value for a record
@@ -46,7 +70,8 @@ export class FormulaIntegrationService {
         name: '', // Would be populated from user service
         email: ''
       },
-      currentDate: new Date()
+      currentDate: new Date(),
+      customFunctions: await workspaceFunctionsService.getFunctionScopeForDatabase(databaseId)
     };
 
     // Add related records if needed
@@ -85,7 +110,8 @@ export class FormulaIntegrationService {
     }
   }
 
-  // Recalculate all formula properties for a record
+  // Recalculate the formula and rollup properties of a record that depend on the changed
+  // properties, every computed property of the record when none are given
   async recalculateRecordFormulas(
     recordId: string,
     changedProperties: string[] = [],
@@ -96,42 +122,94 @@ export class FormulaIntegrationService {
       throw createAppError('Record not found', 404);
     }
 
-    // Get all formula properties for this database
-    const formulas = await FormulaPropertyModel.findByDatabase(record.databaseId.toString());
+    const databaseId = record.databaseId.toString();
+    const properties =
+      changedProperties.length > 0
+        ? changedProperties
+        : await this.getGraphPropertyNames(databaseId);
+
+    const result = await this.propagateChanges([{ databaseId, recordId, properties }], userId);
+
+    return result.values[recordId] || {};
+  }
+
+  // Recalculate the cells downstream of changed properties in dependency order, across
+  // databases. A cell whose value did not change stops the propagation.
+  async propagateChanges(
+    changes: IPropertyChange[],
+    userId: string
+  ): Promise<IRecalculationResult> {
+    const graph = await this.getDependencyGraph();
+    const seeds = new Map<string, Set<string>>();
+    const detached = new Map<string, Set<string>>();
+
+    for (const change of changes) {
+      formulaEngine.invalidateRecordCache(change.recordId, change.properties);
+
+      change.properties.forEach(propertyName => {
+        const key = dependencyGraphUtils.getNodeKey(change.databaseId, propertyName);
+        this.addRecordIds(seeds, key, [change.recordId]);
+
+        // Records a relation no longer points to are not reachable through connections
+        if (change.previousValues && graph.nodes.get(key)?.kind === EDependencyNodeKind.RELATION) {
+          this.addRecordIds(
+            detached,
+            key,
+            this.getRelationRecordIds(change.previousValues[propertyName])
+          );
+        }
+      });
+    }
 
-    // Filter formulas that depend on changed properties
-    const affectedFormulas = formulas.filter(
-      formula =>
-        changedProperties.length === 0 ||
-        formula.dependencies.some(dep => changedProperties.includes(dep))
+    const { order, cycles } = dependencyGraphUtils.getTopologicalOrder(
+      graph,
+      Array.from(seeds.keys())
     );
+    if (cycles.length > 0) {
+      console.warn(`Skipping recalculation of circular dependencies: ${cycles.join(', ')}`);
+    }
 
-    const results: Record<string, any> = {};
+    const result: IRecalculationResult = { order: [], cycles, updatedCells: 0, values: {} };
+    const changed = new Map<string, Set<string>>();
 
-    for (const formula of affectedFormulas) {
-      try {
-        const value = await this.calculateFormulaProperty(
-          recordId,
-          formula.propertyName,
-          record.databaseId.toString(),
-          userId
-        );
+    for (const key of order) {
+      const node = graph.nodes.get(key);
+      if (!node) continue;
 
-        results[formula.propertyName] = value;
+      const recordIds = await this.getAffectedRecordIds(graph, key, changed, detached);
+      seeds.get(key)?.forEach(recordId => recordIds.add(recordId));
+      if (recordIds.size === 0) continue;
 
-        // Update record with calculated value
-        await RecordModel.findByIdAndUpdate(recordId, {
-          [`properties.${formula.propertyName}`]: value,
-          lastEditedAt: new Date(),
-          lastEditedBy: new ObjectId(userId)
-        });
-      } catch (error) {
-        console.error(`Error calculating formula ${formula.propertyName}:`, error);
-        results[formula.propertyName] = formula.defaultValue || null;
+      // Plain and relation properties are not recalculated, their change passes through
+      if (!COMPUTED_NODE_KINDS.includes(node.kind)) {
+        changed.set(key, recordIds);
+        continue;
+      }
+
+      result.order.push(key);
+      const updated = await this.recalculateCells(node, Array.from(recordIds), userId, result);
+      if (updated.length > 0) {
+        changed.set(key, new Set(updated));
       }
     }
 
-    return results;
+    return result;
+  }
+
+  // Dependency graph of formula, rollup and relation properties of all databases
+  async getDependencyGraph(): Promise<IPropertyDependencyGraph> {
+    if (graphCache && Date.now() - graphCache.loadedAt < GRAPH_CACHE_TTL) {
+      return graphCache.graph;
+    }
+
+    const graph = await this.buildDependencyGraph();
+    graphCache = { graph, loadedAt: Date.now() };
+    return graph;
+  }
+
+  // Drop the dependency graph after formula, rollup or relation properties changed
+  invalidateDependencyGraph(): void {
+    graphCache = null;
   }
 
   // Setup formula property in database
@@ -157,7 +235,14 @@ export class FormulaIntegrationService {
     }));
 
     // Validate formula expression
-    const validation = formulaEngine.validateFormula(expression, availableProperties, returnType);
+    const customFunctions = await workspaceFunctionsService.getFunctionScopeForDatabase(databaseId);
+    const validation = formulaEngine.validateFormula(
+      expression,
+      availableProperties,
+      returnType,
+      undefined,
+      customFunctions
+    );
 
     if (!validation.isValid) {
       throw createAppError(
@@ -180,6 +265,7 @@ export class FormulaIntegrationService {
     });
 
     await formulaConfig.save();
+    this.invalidateDependencyGraph();
 
     // Create or update the property in the database
     const existingProperty = await PropertyModel.findOne({ databaseId, name: propertyName });
@@ -249,6 +335,8 @@ export class FormulaIntegrationService {
       }
     );
 
+    this.invalidateDependencyGraph();
+
     // Clear cache entries
     await FormulaCacheModel.deleteMany({ propertyName });
 
@@ -289,6 +377,38 @@ export class FormulaIntegrationService {
     return updatedCount;
   }
 
+  // Recalculate every formula property that calls a workspace function, directly or
+  // through other workspace functions, after the function was edited
+  async recalculateFunctionDependents(
+    workspaceId: string,
+    functionName: string,
+    userId: string
+  ): Promise<{ formulas: number; records: number }> {
+    const { formulas } = await workspaceFunctionsService.findDependents(workspaceId, functionName);
+
+    // Cached results were computed with the previous function body
+    formulaEngine.clearCache();
+
+    let records = 0;
+    for (const formula of formulas) {
+      // Other databases may have a formula property of the same name
+      const databaseRecords = await RecordModel.find({ databaseId: formula.databaseId.toString() })
+        .select('_id')
+        .lean();
+      await FormulaCacheModel.deleteMany({
+        propertyName: formula.propertyName,
+        recordId: { $in: databaseRecords.map(record => record._id) }
+      });
+      records += await this.recalculateFormulaForAllRecords(
+        formula.databaseId.toString(),
+        formula.propertyName,
+        userId
+      );
+    }
+
+    return { formulas: formulas.length, records };
+  }
+
   // Get formula property suggestions for database
   async getFormulaSuggestions(databaseId: string, context?: string): Promise<any[]> {
     const properties = await PropertyModel.find({ databaseId });
@@ -414,6 +534,206 @@ export class FormulaIntegrationService {
     return relatedRecords;
   }
 
+  private async buildDependencyGraph(): Promise<IPropertyDependencyGraph> {
+    const [formulas, rollups, relations] = await Promise.all([
+      FormulaPropertyModel.find({ isActive: true, isDeleted: { $ne: true } }),
+      PropertyModel.find({ type: EPropertyType.ROLLUP, isDeleted: { $ne: true } }),
+      RelationModel.find({ isActive: true, isDeleted: { $ne: true } })
+    ]);
+
+    const referencedIds = [
+      ...rollups.flatMap(rollup => [
+        rollup.config?.relationPropertyId,
+        rollup.config?.rollupPropertyId
+      ]),
+      ...relations.flatMap(relation => [relation.sourcePropertyId, relation.targetPropertyId])
+    ].filter(Boolean);
+    const referenced = await PropertyModel.find({
+      _id: { $in: referencedIds },
+      isDeleted: { $ne: true }
+    });
+    const propertiesById = new Map(referenced.map(p => [p.id.toString(), p]));
+
+    const graph = dependencyGraphUtils.createGraph();
+    const addPropertyNode = (property: any, kind?: EDependencyNodeKind): IDependencyNode =>
+      dependencyGraphUtils.addNode(graph, property.databaseId.toString(), property.name, kind);
+
+    // Formulas depend on properties of the same record
+    formulas.forEach(formula => {
+      const databaseId = formula.databaseId.toString();
+      const node = dependencyGraphUtils.addNode(
+        graph,
+        databaseId,
+        formula.propertyName,
+        EDependencyNodeKind.FORMULA
+      );
+
+      formula.dependencies.forEach(dependency => {
+        dependencyGraphUtils.addEdge(
+          graph,
+          dependencyGraphUtils.addNode(graph, databaseId, dependency),
+          node
+        );
+      });
+    });
+
+    // Connections are written from the source side, the target side changes with them
+    relations.forEach(relation => {
+      const source = propertiesById.get(relation.sourcePropertyId);
+      const target = propertiesById.get(relation.targetPropertyId);
+      if (!source || !target) return;
+
+      dependencyGraphUtils.addEdge(
+        graph,
+        addPropertyNode(source, EDependencyNodeKind.RELATION),
+        addPropertyNode(target, EDependencyNodeKind.RELATION),
+        EDependencyEdgeType.RELATED_RECORDS,
+        target.id.toString()
+      );
+    });
+
+    // Rollups depend on their relation and on the rolled up property of related records
+    rollups.forEach(rollup => {
+      const relationProperty = propertiesById.get(String(rollup.config?.relationPropertyId));
+      const rolledUpProperty = propertiesById.get(String(rollup.config?.rollupPropertyId));
+      if (!relationProperty || !rolledUpProperty) return;
+
+      const node = addPropertyNode(rollup, EDependencyNodeKind.ROLLUP);
+      dependencyGraphUtils.addEdge(
+        graph,
+        addPropertyNode(relationProperty, EDependencyNodeKind.RELATION),
+        node
+      );
+      dependencyGraphUtils.addEdge(
+        graph,
+        addPropertyNode(rolledUpProperty),
+        node,
+        EDependencyEdgeType.RELATED_RECORDS,
+        relationProperty.id.toString()
+      );
+    });
+
+    return graph;
+  }
+
+  private async getGraphPropertyNames(databaseId: string): Promise<string[]> {
+    const graph = await this.getDependencyGraph();
+
+    return Array.from(graph.nodes.values())
+      .filter(node => node.databaseId === databaseId)
+      .map(node => node.propertyName);
+  }
+
+  // Records whose cell of the property is reached by the changes of its dependencies
+  private async getAffectedRecordIds(
+    graph: IPropertyDependencyGraph,
+    key: string,
+    changed: Map<string, Set<string>>,
+    detached: Map<string, Set<string>>
+  ): Promise<Set<string>> {
+    const recordIds = new Set<string>();
+
+    for (const edge of dependencyGraphUtils.getDependencies(graph, key)) {
+      const changedRecordIds = changed.get(edge.from);
+      if (!changedRecordIds) continue;
+
+      if (edge.type === EDependencyEdgeType.SAME_RECORD) {
+        changedRecordIds.forEach(recordId => recordIds.add(recordId));
+        continue;
+      }
+
+      const related = await rollupService.findRecordsRelatedTo(
+        edge.relationPropertyId!,
+        Array.from(changedRecordIds)
+      );
+      related.forEach(recordId => recordIds.add(recordId));
+      detached.get(edge.from)?.forEach(recordId => recordIds.add(recordId));
+    }
+
+    return recordIds;
+  }
+
+  // Recalculate a formula or rollup cell on each record, returns the records whose value changed
+  private async recalculateCells(
+    node: IDependencyNode,
+    recordIds: string[],
+    userId: string,
+    result: IRecalculationResult
+  ): Promise<string[]> {
+    const records = await RecordModel.find({
+      _id: { $in: recordIds },
+      databaseId: node.databaseId,
+      isDeleted: { $ne: true }
+    });
+
+    const rollupProperty =
+      node.kind === EDependencyNodeKind.ROLLUP
+        ? await PropertyModel.findOne({
+            databaseId: node.databaseId,
+            name: node.propertyName,
+            isDeleted: { $ne: true }
+          })
+        : null;
+
+    const updated: string[] = [];
+
+    for (const record of records) {
+      const recordId = record.id.toString();
+
+      try {
+        const value = rollupProperty
+          ? await rollupService.calculateRollupValue(
+              recordId,
+              rollupProperty.config as IRollupConfig
+            )
+          : await this.calculateFormulaProperty(
+              recordId,
+              node.propertyName,
+              node.databaseId,
+              userId
+            );
+
+        result.values[recordId] = { ...result.values[recordId], [node.propertyName]: value };
+        if (isSameValue(record.properties?.[node.propertyName], value)) continue;
+
+        await RecordModel.updateOne(
+          { _id: record._id },
+          { $set: { [`properties.${node.propertyName}`]: value, lastEditedAt: new Date() } }
+        );
+
+        // Cached formulas reading this cell are stale now
+        formulaEngine.invalidateRecordCache(recordId, [node.propertyName]);
+        updated.push(recordId);
+      } catch (error) {
+        console.error(`Error recalculating ${node.propertyName} for record ${recordId}:`, error);
+      }
+    }
+
+    if (updated.length > 0) {
+      await FormulaCacheModel.deleteMany({
+        recordId: { $in: updated },
+        dependencies: node.propertyName
+      });
+    }
+
+    result.updatedCells += updated.length;
+    return updated;
+  }
+
+  private addRecordIds(map: Map<string, Set<string>>, key: string, recordIds: string[]): void {
+    const existing = map.get(key) || new Set<string>();
+    recordIds.forEach(recordId => existing.add(recordId));
+    map.set(key, existing);
+  }
+
+  private getRelationRecordIds(value: any): string[] {
+    const values = Array.isArray(value) ? value : value ? [value] : [];
+
+    return values
+      .map(item => (typeof item === 'string' ? item : item?.recordId))
+      .filter((recordId): recordId is string => typeof recordId === 'string');
+  }
+
   // Bulk operations
   async bulkRecalculateFormulas(
     databaseId: string,
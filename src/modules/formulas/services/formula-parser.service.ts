@@ -67,7 +67,7 @@ export const formulaParserService = {
   parseLogicalOr: (state: IParserState): IFormulaASTNode => {
     let left = formulaParserService.parseLogicalAnd(state);
 
-    while (state.currentToken && state.currentToken.value === '||') {
+    while (state.currentToken && formulaParserService.isOperatorToken(state, ['||'])) {
       const operator = state.currentToken.value as EFormulaOperator;
       formulaParserService.advance(state);
       const right = formulaParserService.parseLogicalAnd(state);
@@ -88,7 +88,7 @@ export const formulaParserService = {
   parseLogicalAnd: (state: IParserState): IFormulaASTNode => {
     let left = formulaParserService.parseEquality(state);
 
-    while (state.currentToken && state.currentToken.value === '&&') {
+    while (state.currentToken && formulaParserService.isOperatorToken(state, ['&&'])) {
       const operator = state.currentToken.value as EFormulaOperator;
       formulaParserService.advance(state);
       const right = formulaParserService.parseEquality(state);
@@ -109,7 +109,7 @@ export const formulaParserService = {
   parseEquality: (state: IParserState): IFormulaASTNode => {
     let left = formulaParserService.parseComparison(state);
 
-    while (state.currentToken && ['==', '!='].includes(state.currentToken.value)) {
+    while (state.currentToken && formulaParserService.isOperatorToken(state, ['==', '!='])) {
       const operator = state.currentToken.value as EFormulaOperator;
       formulaParserService.advance(state);
       const right = formulaParserService.parseComparison(state);
@@ -130,7 +130,10 @@ export const formulaParserService = {
   parseComparison: (state: IParserState): IFormulaASTNode => {
     let left = formulaParserService.parseStringConcatenation(state);
 
-    while (state.currentToken && ['<', '<=', '>', '>='].includes(state.currentToken.value)) {
+    while (
+      state.currentToken &&
+      formulaParserService.isOperatorToken(state, ['<', '<=', '>', '>='])
+    ) {
       const operator = state.currentToken.value as EFormulaOperator;
       formulaParserService.advance(state);
       const right = formulaParserService.parseStringConcatenation(state);
@@ -151,7 +154,7 @@ export const formulaParserService = {
   parseStringConcatenation: (state: IParserState): IFormulaASTNode => {
     let left = formulaParserService.parseAddition(state);
 
-    while (state.currentToken && state.currentToken.value === '&') {
+    while (state.currentToken && formulaParserService.isOperatorToken(state, ['&'])) {
       const operator = state.currentToken.value as EFormulaOperator;
       formulaParserService.advance(state);
       const right = formulaParserService.parseAddition(state);
@@ -172,7 +175,7 @@ export const formulaParserService = {
   parseAddition: (state: IParserState): IFormulaASTNode => {
     let left = formulaParserService.parseMultiplication(state);
 
-    while (state.currentToken && ['+', '-'].includes(state.currentToken.value)) {
+    while (state.currentToken && formulaParserService.isOperatorToken(state, ['+', '-'])) {
       const operator = state.currentToken.value as EFormulaOperator;
       formulaParserService.advance(state);
       const right = formulaParserService.parseMultiplication(state);
@@ -193,7 +196,7 @@ export const formulaParserService = {
   parseMultiplication: (state: IParserState): IFormulaASTNode => {
     let left = formulaParserService.parseExponentiation(state);
 
-    while (state.currentToken && ['*', '/', '%'].includes(state.currentToken.value)) {
+    while (state.currentToken && formulaParserService.isOperatorToken(state, ['*', '/', '%'])) {
       const operator = state.currentToken.value as EFormulaOperator;
       formulaParserService.advance(state);
       const right = formulaParserService.parseExponentiation(state);
@@ -215,7 +218,7 @@ export const formulaParserService = {
     let left = formulaParserService.parseUnary(state);
 
     // Right associative
-    if (state.currentToken && ['^', '**'].includes(state.currentToken.value)) {
+    if (state.currentToken && formulaParserService.isOperatorToken(state, ['^', '**'])) {
       const operator =
         state.currentToken.value === '**'
           ? EFormulaOperator.POWER
@@ -237,7 +240,7 @@ export const formulaParserService = {
 
   // Parse unary operators (-, !)
   parseUnary: (state: IParserState): IFormulaASTNode => {
-    if (state.currentToken && ['-', '!'].includes(state.currentToken.value)) {
+    if (state.currentToken && formulaParserService.isOperatorToken(state, ['-', '!'])) {
       const operator = state.currentToken.value as EFormulaOperator;
       const position = state.currentToken.position;
       formulaParserService.advance(state);
@@ -395,6 +398,15 @@ export const formulaParserService = {
     return state.currentToken !== null && state.currentToken.type === type;
   },
 
+  // Check if current token is one of the operators, string literals like "-" don't count
+  isOperatorToken: (state: IParserState, operators: string[]): boolean => {
+    return (
+      state.currentToken !== null &&
+      state.currentToken.type === ETokenType.OPERATOR &&
+      operators.includes(state.currentToken.value)
+    );
+  },
+
   // Add error to errors array
   addError: (
     state: IParserState,
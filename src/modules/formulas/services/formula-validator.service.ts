@@ -3,18 +3,37 @@ import {
   IFormulaValidationResult,
   IFormulaError,
   IFormulaWarning,
-  EFormulaDataType
+  EFormulaDataType,
+  EFormulaCategory,
+  IWorkspaceFormulaFunction,
+  ICreateWorkspaceFunctionRequest
 } from '../types/formula.types';
 import { formulaParserService } from './formula-parser.service';
 import { formulaFunctionsService } from './formula-functions.service';
 import { EPropertyType } from '@/modules/core/types/property.types';
 
+const FUNCTION_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const SPECIAL_PROPERTIES = [
+  'id',
+  'recordid',
+  'databaseid',
+  'currentuser',
+  'currentuserid',
+  'currentuseremail',
+  'now',
+  'today',
+  // Lambda variables inside FILTER and MAP
+  'current',
+  'index'
+];
+
 export const formulaValidatorService = {
   // Validate formula expression
   validate: (
     expression: string,
     availableProperties: Array<{ name: string; type: EPropertyType }> = [],
-    maxComplexity: number = 100
+    maxComplexity: number = 100,
+    customFunctions?: Record<string, IWorkspaceFormulaFunction>
   ): IFormulaValidationResult => {
     const errors: IFormulaError[] = [];
     const warnings: IFormulaWarning[] = [];
@@ -48,18 +67,27 @@ export const formulaValidatorService = {
       formulaValidatorService.validatePropertyReferences(dependencies, availableProperties, errors);
 
       // Validate function calls
-      formulaValidatorService.validateFunctionCalls(parseResult.ast, errors, warnings);
+      formulaValidatorService.validateFunctionCalls(
+        parseResult.ast,
+        errors,
+        warnings,
+        customFunctions
+      );
 
       // Validate data types
       returnType = formulaValidatorService.validateDataTypes(
         parseResult.ast,
         availableProperties,
         errors,
-        warnings
+        warnings,
+        customFunctions
       );
 
-      // Calculate complexity
-      estimatedComplexity = formulaParserService.calculateComplexity(parseResult.ast);
+      // Calculate complexity, including the bodies of workspace functions it calls
+      estimatedComplexity = formulaValidatorService.calculateExpandedComplexity(
+        parseResult.ast,
+        customFunctions
+      );
 
       // Check complexity limit
       if (estimatedComplexity > maxComplexity) {
@@ -106,17 +134,7 @@ export const formulaValidatorService = {
 
     dependencies.forEach(propName => {
       // Skip special properties
-      const specialProps = [
-        'id',
-        'recordid',
-        'databaseid',
-        'currentuser',
-        'currentuserid',
-        'currentuseremail',
-        'now',
-        'today'
-      ];
-      if (specialProps.includes(propName.toLowerCase())) {
+      if (SPECIAL_PROPERTIES.includes(propName.toLowerCase())) {
         return;
       }
 
@@ -138,18 +156,22 @@ export const formulaValidatorService = {
   validateFunctionCalls: (
     ast: IFormulaASTNode,
     errors: IFormulaError[],
-    warnings: IFormulaWarning[]
+    warnings: IFormulaWarning[],
+    customFunctions?: Record<string, IWorkspaceFormulaFunction>
   ): void => {
     formulaValidatorService.traverseAST(ast, (node: IFormulaASTNode) => {
       if (node.type === 'function' && node.functionName) {
-        const func = formulaFunctionsService.getFunction(node.functionName);
+        const func = formulaFunctionsService.resolveFunction(node.functionName, customFunctions);
 
         if (!func) {
           errors.push({
             type: 'semantic',
             message: `Unknown function: ${node.functionName}`,
             position: node.position,
-            suggestions: formulaValidatorService.suggestSimilarFunctions(node.functionName)
+            suggestions: formulaValidatorService.suggestSimilarFunctions(
+              node.functionName,
+              customFunctions
+            )
           });
           return;
         }
@@ -197,11 +219,18 @@ export const formulaValidatorService = {
     ast: IFormulaASTNode,
     availableProperties: Array<{ name: string; type: EPropertyType }>,
     errors: IFormulaError[],
-    warnings: IFormulaWarning[]
+    warnings: IFormulaWarning[],
+    customFunctions?: Record<string, IWorkspaceFormulaFunction>
   ): EFormulaDataType => {
     const propertyTypeMap = new Map(availableProperties.map(p => [p.name.toLowerCase(), p.type]));
 
-    return formulaValidatorService.inferNodeType(ast, propertyTypeMap, errors, warnings);
+    return formulaValidatorService.inferNodeType(
+      ast,
+      propertyTypeMap,
+      errors,
+      warnings,
+      customFunctions
+    );
   },
 
   // Infer data type of AST node
@@ -209,7 +238,8 @@ export const formulaValidatorService = {
     node: IFormulaASTNode,
     propertyTypeMap: Map<string, EPropertyType>,
     errors: IFormulaError[],
-    warnings: IFormulaWarning[]
+    warnings: IFormulaWarning[],
+    customFunctions?: Record<string, IWorkspaceFormulaFunction>
   ): EFormulaDataType => {
     switch (node.type) {
       case 'literal':
@@ -228,7 +258,7 @@ export const formulaValidatorService = {
 
       case 'function':
         if (node.functionName) {
-          const func = formulaFunctionsService.getFunction(node.functionName);
+          const func = formulaFunctionsService.resolveFunction(node.functionName, customFunctions);
           return func?.returnType || EFormulaDataType.ANY;
         }
         return EFormulaDataType.ANY;
@@ -313,6 +343,7 @@ export const formulaValidatorService = {
 
       case EPropertyType.MULTI_SELECT:
       case EPropertyType.FILES:
+      case EPropertyType.RELATION:
         return EFormulaDataType.ARRAY;
 
       default:
@@ -343,6 +374,214 @@ export const formulaValidatorService = {
     }
   },
 
+  // Workspace functions called by an expression, upper-cased
+  getCustomFunctionCalls: (
+    ast: IFormulaASTNode,
+    customFunctions?: Record<string, IWorkspaceFormulaFunction>
+  ): string[] => {
+    return formulaParserService
+      .getFunctionCalls(ast)
+      .map(name => name.toUpperCase())
+      .filter(name => !formulaFunctionsService.isBuiltInFunction(name) && customFunctions?.[name])
+      .filter((name, index, names) => names.indexOf(name) === index);
+  },
+
+  // Complexity of an expression with every workspace function call counted at the
+  // complexity of its body, so wrapping work in functions can't dodge the limit
+  calculateExpandedComplexity: (
+    ast: IFormulaASTNode,
+    customFunctions?: Record<string, IWorkspaceFormulaFunction>,
+    visiting: Set<string> = new Set()
+  ): number => {
+    let complexity = formulaParserService.calculateComplexity(ast);
+    if (!customFunctions) return complexity;
+
+    formulaValidatorService.traverseAST(ast, node => {
+      if (node.type !== 'function' || !node.functionName) return;
+
+      const name = node.functionName.toUpperCase();
+      const func = customFunctions[name];
+      // Recursive calls are reported by checkFunctionRecursion
+      if (!func || formulaFunctionsService.isBuiltInFunction(name) || visiting.has(name)) return;
+
+      const body = formulaParserService.parse(func.body).ast;
+      if (!body) return;
+
+      visiting.add(name);
+      complexity += formulaValidatorService.calculateExpandedComplexity(
+        body,
+        customFunctions,
+        visiting
+      );
+      visiting.delete(name);
+    });
+
+    return complexity;
+  },
+
+  // Reject workspace functions that can call themselves, directly or through other
+  // functions, including cycles further down the call chain that they would enter
+  checkFunctionRecursion: (
+    functionName: string,
+    customFunctions: Record<string, IWorkspaceFormulaFunction>,
+    errors: IFormulaError[]
+  ): void => {
+    const finished = new Set<string>();
+
+    const findCycle = (name: string, path: string[]): string[] | null => {
+      if (path.includes(name)) return [...path, name];
+      if (finished.has(name)) return null;
+
+      const func = customFunctions[name];
+      const body = func ? formulaParserService.parse(func.body).ast : undefined;
+      const calls = body
+        ? formulaValidatorService.getCustomFunctionCalls(body, customFunctions)
+        : [];
+
+      for (const call of calls) {
+        const cycle = findCycle(call, [...path, name]);
+        if (cycle) return cycle;
+      }
+
+      finished.add(name);
+      return null;
+    };
+
+    const cycle = findCycle(functionName.toUpperCase(), []);
+    if (cycle) {
+      const names = cycle.map(name => customFunctions[name]?.name || name);
+      errors.push({
+        type: 'circular_dependency',
+        message: `Recursive function call: ${names.join(' -> ')}`,
+        suggestions: ['Remove the recursive call', 'Move shared logic into a separate function']
+      });
+    }
+  },
+
+  // Validate a workspace function definition against the other functions of the workspace
+  validateCustomFunction: (
+    definition: ICreateWorkspaceFunctionRequest,
+    customFunctions: Record<string, IWorkspaceFormulaFunction> = {},
+    maxComplexity: number = 100
+  ): IFormulaValidationResult => {
+    const errors: IFormulaError[] = [];
+    const warnings: IFormulaWarning[] = [];
+    const name = definition.name.toUpperCase();
+    let dependencies: string[] = [];
+    let estimatedComplexity = 0;
+
+    if (!FUNCTION_NAME_PATTERN.test(definition.name) || ['TRUE', 'FALSE'].includes(name)) {
+      errors.push({
+        type: 'syntax',
+        message: `Invalid function name: ${definition.name}`,
+        suggestions: ['Use letters, digits and underscores, starting with a letter']
+      });
+    }
+
+    if (formulaFunctionsService.isBuiltInFunction(name)) {
+      errors.push({
+        type: 'semantic',
+        message: `Function ${definition.name} conflicts with a built-in function`,
+        suggestions: ['Choose a different name']
+      });
+    }
+
+    const parameterNames = new Set<string>();
+    let hasOptional = false;
+    definition.parameters.forEach(parameter => {
+      const parameterName = parameter.name.toLowerCase();
+
+      if (parameterNames.has(parameterName)) {
+        errors.push({
+          type: 'semantic',
+          message: `Duplicate parameter: ${parameter.name}`
+        });
+      }
+      if (SPECIAL_PROPERTIES.includes(parameterName)) {
+        errors.push({
+          type: 'semantic',
+          message: `Parameter name ${parameter.name} is reserved`
+        });
+      }
+      if (hasOptional && !parameter.isOptional) {
+        errors.push({
+          type: 'semantic',
+          message: `Required parameter ${parameter.name} cannot follow an optional parameter`
+        });
+      }
+
+      parameterNames.add(parameterName);
+      hasOptional = hasOptional || Boolean(parameter.isOptional);
+    });
+
+    const parseResult = formulaParserService.parse(definition.body);
+    errors.push(...parseResult.errors);
+
+    if (parseResult.ast) {
+      // Validate against the workspace as it would be after saving this definition
+      const scope: Record<string, IWorkspaceFormulaFunction> = {
+        ...customFunctions,
+        [name]: {
+          ...(customFunctions[name] || { id: '', workspaceId: '', examples: [] }),
+          name: definition.name,
+          category: EFormulaCategory.CUSTOM,
+          description: definition.description || '',
+          syntax: `${definition.name}(${definition.parameters.map(p => p.name).join(', ')})`,
+          parameters: definition.parameters,
+          returnType: definition.returnType,
+          body: definition.body,
+          functionDependencies: [],
+          complexity: 0
+        }
+      };
+
+      // Bodies are pure: they can only see their parameters
+      formulaParserService.getPropertyReferences(parseResult.ast).forEach(propName => {
+        if (parameterNames.has(propName.toLowerCase())) return;
+        if (SPECIAL_PROPERTIES.includes(propName.toLowerCase())) return;
+
+        errors.push({
+          type: 'semantic',
+          message: `'${propName}' is not a parameter of ${definition.name}`,
+          suggestions: ['Add it as a parameter and pass the property when calling the function']
+        });
+      });
+
+      formulaValidatorService.validateFunctionCalls(parseResult.ast, errors, warnings, scope);
+      formulaValidatorService.checkFunctionRecursion(name, scope, errors);
+
+      dependencies = formulaValidatorService
+        .getCustomFunctionCalls(parseResult.ast, scope)
+        .map(call => scope[call].name);
+
+      estimatedComplexity = formulaValidatorService.calculateExpandedComplexity(
+        parseResult.ast,
+        scope,
+        new Set([name])
+      );
+
+      // Functions are shared across databases, so the complexity limit is enforced
+      if (estimatedComplexity > maxComplexity) {
+        errors.push({
+          type: 'semantic',
+          message: `Function complexity (${estimatedComplexity}) exceeds maximum allowed (${maxComplexity})`,
+          suggestions: ['Simplify the function body', 'Avoid nesting many function calls']
+        });
+      }
+
+      formulaValidatorService.checkPerformanceIssues(parseResult.ast, warnings);
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+      warnings,
+      dependencies,
+      returnType: definition.returnType,
+      estimatedComplexity
+    };
+  },
+
   // Check for performance issues
   checkPerformanceIssues: (ast: IFormulaASTNode, warnings: IFormulaWarning[]): void => {
     let functionCallCount = 0;
@@ -416,10 +655,16 @@ export const formulaValidatorService = {
   },
 
   // Suggest similar functions
-  suggestSimilarFunctions: (functionName: string): string[] => {
+  suggestSimilarFunctions: (
+    functionName: string,
+    customFunctions?: Record<string, IWorkspaceFormulaFunction>
+  ): string[] => {
     const suggestions: string[] = [];
     const lowerFuncName = functionName.toLowerCase();
-    const allFunctions = formulaFunctionsService.getAllFunctions();
+    const allFunctions = [
+      ...formulaFunctionsService.getAllFunctions(),
+      ...Object.values(customFunctions || {})
+    ];
 
     allFunctions.forEach(func => {
       const lowerAvailableName = func.name.toLowerCase();
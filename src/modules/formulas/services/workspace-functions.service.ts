@@ -0,0 +1,324 @@
+import {
+  EFormulaCategory,
+  ICreateWorkspaceFunctionRequest,
+  IWorkspaceFormulaFunction,
+  TUpdateWorkspaceFunctionRequest
+} from '../types/formula.types';
+import {
+  WorkspaceFunctionModel,
+  TWorkspaceFunctionDocument
+} from '../models/workspace-function.model';
+import { FormulaPropertyModel, TFormulaPropertyDocument } from '../models/formula.model';
+import { DatabaseModel } from '@/modules/database/models/database.model';
+import { WorkspaceMemberModel } from '@/modules/workspace/models/workspace-member.model';
+import { EWorkspaceMemberRole } from '@/modules/workspace/types/workspace.types';
+import { formulaValidatorService } from './formula-validator.service';
+import { formulaParserService } from './formula-parser.service';
+import {
+  createConflictError,
+  createForbiddenError,
+  createNotFoundError,
+  createValidationError
+} from '@/utils';
+
+// Function scopes are read on every formula calculation, writes on this instance
+// invalidate immediately, other instances pick changes up within the TTL
+const SCOPE_CACHE_TTL = 60 * 1000;
+const scopeCache = new Map<
+  string,
+  { functions: Record<string, IWorkspaceFormulaFunction>; loadedAt: number }
+>();
+
+const toWorkspaceFunction = (document: TWorkspaceFunctionDocument): IWorkspaceFormulaFunction => {
+  const parameters = document.parameters.map(parameter => ({
+    name: parameter.name,
+    type: parameter.type,
+    description: parameter.description || '',
+    ...(parameter.isOptional && { isOptional: true }),
+    ...(parameter.defaultValue !== undefined && { defaultValue: parameter.defaultValue })
+  }));
+
+  return {
+    id: document.id,
+    workspaceId: document.workspaceId,
+    name: document.name,
+    category: EFormulaCategory.CUSTOM,
+    description: document.description || '',
+    syntax: `${document.name}(${parameters
+      .map(parameter => (parameter.isOptional ? `[${parameter.name}]` : parameter.name))
+      .join(', ')})`,
+    parameters,
+    returnType: document.returnType,
+    examples: document.examples || [],
+    body: document.body,
+    functionDependencies: document.functionDependencies,
+    complexity: document.complexity
+  };
+};
+
+const loadScope = async (
+  workspaceId: string
+): Promise<Record<string, IWorkspaceFormulaFunction>> => {
+  const documents = await WorkspaceFunctionModel.findByWorkspace(workspaceId);
+  const functions: Record<string, IWorkspaceFormulaFunction> = {};
+  documents.forEach(document => {
+    functions[document.name.toUpperCase()] = toWorkspaceFunction(document);
+  });
+
+  scopeCache.set(workspaceId, { functions, loadedAt: Date.now() });
+  return functions;
+};
+
+// Functions run in the formulas of every database of the workspace, so only editors and
+// admins may change them
+const requireEditor = async (workspaceId: string, userId: string): Promise<void> => {
+  const isEditor = await WorkspaceMemberModel.hasRole(
+    workspaceId,
+    userId,
+    EWorkspaceMemberRole.EDITOR
+  );
+  if (!isEditor) {
+    throw createForbiddenError('Only workspace editors and admins can manage formula functions');
+  }
+};
+
+const validateDefinition = (
+  definition: ICreateWorkspaceFunctionRequest,
+  scope: Record<string, IWorkspaceFormulaFunction>
+) => {
+  const validation = formulaValidatorService.validateCustomFunction(definition, scope);
+
+  if (!validation.isValid) {
+    throw createValidationError(
+      `Function ${definition.name} is invalid: ${validation.errors.map(e => e.message).join(', ')}`,
+      validation.errors.map(error => ({ field: 'body', message: error.message }))
+    );
+  }
+
+  return validation;
+};
+
+export const workspaceFunctionsService = {
+  // Functions of a workspace keyed by upper-case name, as used in formula contexts
+  getFunctionScope: async (
+    workspaceId: string
+  ): Promise<Record<string, IWorkspaceFormulaFunction>> => {
+    const cached = scopeCache.get(workspaceId);
+    if (cached && Date.now() - cached.loadedAt < SCOPE_CACHE_TTL) {
+      return cached.functions;
+    }
+
+    return loadScope(workspaceId);
+  },
+
+  // Functions available to formulas of a database
+  getFunctionScopeForDatabase: async (
+    databaseId: string
+  ): Promise<Record<string, IWorkspaceFormulaFunction>> => {
+    const database = await DatabaseModel.findById(databaseId).select('workspaceId');
+    if (!database?.workspaceId) return {};
+
+    return workspaceFunctionsService.getFunctionScope(database.workspaceId.toString());
+  },
+
+  listFunctions: async (workspaceId: string): Promise<IWorkspaceFormulaFunction[]> => {
+    return Object.values(await loadScope(workspaceId));
+  },
+
+  getFunction: async (
+    workspaceId: string,
+    functionId: string
+  ): Promise<IWorkspaceFormulaFunction> => {
+    const document = await WorkspaceFunctionModel.findOne({
+      _id: functionId,
+      workspaceId,
+      isDeleted: { $ne: true }
+    });
+    if (!document) {
+      throw createNotFoundError('Formula function', functionId);
+    }
+
+    return toWorkspaceFunction(document);
+  },
+
+  createFunction: async (
+    workspaceId: string,
+    data: ICreateWorkspaceFunctionRequest,
+    userId: string
+  ): Promise<IWorkspaceFormulaFunction> => {
+    await requireEditor(workspaceId, userId);
+
+    const scope = await loadScope(workspaceId);
+    if (scope[data.name.toUpperCase()]) {
+      throw createConflictError(`Function ${data.name} already exists in this workspace`);
+    }
+
+    const validation = validateDefinition(data, scope);
+
+    const document = await WorkspaceFunctionModel.create({
+      workspaceId,
+      name: data.name,
+      normalizedName: data.name.toUpperCase(),
+      description: data.description || '',
+      parameters: data.parameters,
+      returnType: data.returnType,
+      body: data.body,
+      examples: data.examples || [],
+      functionDependencies: validation.dependencies,
+      complexity: validation.estimatedComplexity,
+      createdBy: userId,
+      updatedBy: userId
+    });
+
+    scopeCache.delete(workspaceId);
+    return toWorkspaceFunction(document);
+  },
+
+  updateFunction: async (
+    workspaceId: string,
+    functionId: string,
+    updates: TUpdateWorkspaceFunctionRequest,
+    userId: string
+  ): Promise<IWorkspaceFormulaFunction> => {
+    await requireEditor(workspaceId, userId);
+
+    const existing = await workspaceFunctionsService.getFunction(workspaceId, functionId);
+    const scope = await loadScope(workspaceId);
+
+    const definition: ICreateWorkspaceFunctionRequest = {
+      name: updates.name ?? existing.name,
+      description: updates.description ?? existing.description,
+      parameters: updates.parameters ?? existing.parameters,
+      returnType: updates.returnType ?? existing.returnType,
+      body: updates.body ?? existing.body,
+      examples: updates.examples ?? existing.examples
+    };
+
+    const isRenamed = definition.name.toUpperCase() !== existing.name.toUpperCase();
+    if (isRenamed) {
+      if (scope[definition.name.toUpperCase()]) {
+        throw createConflictError(`Function ${definition.name} already exists in this workspace`);
+      }
+
+      // Callers reference functions by name, renaming would break them
+      const dependents = await workspaceFunctionsService.findDependents(workspaceId, existing.name);
+      if (dependents.functions.length > 0 || dependents.formulas.length > 0) {
+        throw createConflictError(
+          `Function ${existing.name} is used by ${workspaceFunctionsService.describeDependents(dependents)} and cannot be renamed`
+        );
+      }
+    }
+
+    // Validate with the function under its new name only
+    const otherFunctions = Object.fromEntries(
+      Object.entries(scope).filter(([name]) => name !== existing.name.toUpperCase())
+    );
+    const validation = validateDefinition(definition, otherFunctions);
+
+    const document = await WorkspaceFunctionModel.findByIdAndUpdate(
+      functionId,
+      {
+        ...definition,
+        normalizedName: definition.name.toUpperCase(),
+        functionDependencies: validation.dependencies,
+        complexity: validation.estimatedComplexity,
+        updatedBy: userId
+      },
+      { new: true, runValidators: true }
+    );
+    if (!document) {
+      throw createNotFoundError('Formula function', functionId);
+    }
+
+    scopeCache.delete(workspaceId);
+    return toWorkspaceFunction(document);
+  },
+
+  deleteFunction: async (workspaceId: string, functionId: string, userId: string) => {
+    await requireEditor(workspaceId, userId);
+
+    const existing = await workspaceFunctionsService.getFunction(workspaceId, functionId);
+
+    const dependents = await workspaceFunctionsService.findDependents(workspaceId, existing.name);
+    if (dependents.functions.length > 0 || dependents.formulas.length > 0) {
+      throw createConflictError(
+        `Function ${existing.name} is used by ${workspaceFunctionsService.describeDependents(dependents)} and cannot be deleted`
+      );
+    }
+
+    await WorkspaceFunctionModel.findByIdAndUpdate(functionId, {
+      isDeleted: true,
+      deletedAt: new Date(),
+      deletedBy: userId
+    });
+
+    scopeCache.delete(workspaceId);
+  },
+
+  // Functions calling the given function, directly or through other functions
+  getDependentFunctionNames: (
+    functionName: string,
+    scope: Record<string, IWorkspaceFormulaFunction>
+  ): string[] => {
+    const dependents = new Set<string>();
+    const pending = [functionName.toUpperCase()];
+
+    while (pending.length > 0) {
+      const name = pending.pop()!;
+      Object.values(scope).forEach(func => {
+        const key = func.name.toUpperCase();
+        const callsName = func.functionDependencies.some(dep => dep.toUpperCase() === name);
+        if (callsName && !dependents.has(key) && key !== functionName.toUpperCase()) {
+          dependents.add(key);
+          pending.push(key);
+        }
+      });
+    }
+
+    return Array.from(dependents).map(name => scope[name].name);
+  },
+
+  // Functions and formula properties that would be affected by changing a function
+  findDependents: async (
+    workspaceId: string,
+    functionName: string
+  ): Promise<{ functions: string[]; formulas: TFormulaPropertyDocument[] }> => {
+    const scope = await workspaceFunctionsService.getFunctionScope(workspaceId);
+    const functions = workspaceFunctionsService.getDependentFunctionNames(functionName, scope);
+    const calledNames = new Set([functionName, ...functions].map(name => name.toUpperCase()));
+
+    const databases = await DatabaseModel.find({ workspaceId, isDeleted: { $ne: true } }).select(
+      '_id'
+    );
+    const candidates = await FormulaPropertyModel.find({
+      databaseId: { $in: databases.map(database => database._id) },
+      isActive: true,
+      isDeleted: { $ne: true }
+    });
+
+    const formulas = candidates.filter(formula => {
+      const ast = formulaParserService.parse(formula.expression).ast;
+      if (!ast) return false;
+
+      return formulaParserService
+        .getFunctionCalls(ast)
+        .some(name => calledNames.has(name.toUpperCase()));
+    });
+
+    return { functions, formulas };
+  },
+
+  describeDependents: (dependents: {
+    functions: string[];
+    formulas: TFormulaPropertyDocument[];
+  }): string => {
+    const parts = [
+      ...dependents.functions.map(name => `function ${name}`),
+      ...dependents.formulas.map(formula => `formula property ${formula.propertyName}`)
+    ];
+
+    return parts.length > 3
+      ? `${parts.slice(0, 3).join(', ')} and ${parts.length - 3} more`
+      : parts.join(', ');
+  }
+};
@@ -12,7 +12,8 @@ export enum EFormulaCategory {
   AGGREGATION = 'aggregation',
   CONVERSION = 'conversion',
   VALIDATION = 'validation',
-  UTILITY = 'utility'
+  UTILITY = 'utility',
+  CUSTOM = 'custom'
 }
 
 // Formula data types
@@ -84,6 +85,10 @@ export interface IFormulaContext {
   };
   currentDate?: Date;
   variables?: Record<string, any>;
+  // Workspace functions callable from the formula, keyed by upper-case name
+  customFunctions?: Record<string, IWorkspaceFormulaFunction>;
+  // Nesting of workspace function calls, guards against runaway recursion
+  functionDepth?: number;
 }
 
 // Formula function definition
@@ -108,6 +113,8 @@ export interface IFunctionParameter {
   isOptional?: boolean;
   defaultValue?: any;
   validation?: IParameterValidation;
+  // Evaluated per list item with `current` and `index` bound, instead of once up front
+  isLambda?: boolean;
 }
 
 // Parameter validation rules
@@ -218,11 +225,67 @@ export interface IFormulaCacheEntry {
   value: any;
   dataType: EFormulaDataType;
   dependencies: string[];
+  // Serialized dependency values the result was calculated from
+  dependencySnapshot?: string;
   calculatedAt: Date;
   expiresAt?: Date;
   version: number;
 }
 
+// Kind of property a dependency graph node stands for
+export enum EDependencyNodeKind {
+  PROPERTY = 'property',
+  RELATION = 'relation',
+  FORMULA = 'formula',
+  ROLLUP = 'rollup'
+}
+
+// How a change reaches the dependent property
+export enum EDependencyEdgeType {
+  SAME_RECORD = 'same_record',
+  RELATED_RECORDS = 'related_records'
+}
+
+// Property of a database in the dependency graph
+export interface IDependencyNode {
+  key: string;
+  databaseId: string;
+  propertyName: string;
+  kind: EDependencyNodeKind;
+}
+
+// Dependency of one property on another, related edges reach the dependent records
+// through the relation property of the dependent's database
+export interface IDependencyEdge {
+  from: string;
+  to: string;
+  type: EDependencyEdgeType;
+  relationPropertyId?: string;
+}
+
+// Dependency graph over the properties of all databases
+export interface IPropertyDependencyGraph {
+  nodes: Map<string, IDependencyNode>;
+  dependents: Map<string, IDependencyEdge[]>;
+  dependencies: Map<string, IDependencyEdge[]>;
+}
+
+// Properties changed on a record, previous values let relations reach detached records
+export interface IPropertyChange {
+  databaseId: string;
+  recordId: string;
+  properties: string[];
+  previousValues?: Record<string, any>;
+}
+
+// Outcome of propagating property changes through the dependency graph
+export interface IRecalculationResult {
+  order: string[];
+  cycles: string[];
+  updatedCells: number;
+  values: Record<string, Record<string, any>>;
+}
+
 // Formula performance metrics
 export interface IFormulaPerformanceMetrics {
   formulaId: string;
@@ -239,6 +302,50 @@ export interface IFormulaPerformanceMetrics {
   totalCacheHits: number;
 }
 
+// Workspace formula function parameter
+export interface IWorkspaceFunctionParameter {
+  name: string;
+  type: EFormulaDataType;
+  description: string;
+  isOptional?: boolean;
+  defaultValue?: any;
+}
+
+// Reusable function defined by a workspace, its body is a formula over its parameters
+export interface IWorkspaceFormulaFunction extends IFormulaFunction {
+  id: string;
+  workspaceId: string;
+  body: string;
+  parameters: IWorkspaceFunctionParameter[];
+  // Other workspace functions called from the body
+  functionDependencies: string[];
+  complexity: number;
+}
+
+// Workspace formula function document
+export interface IWorkspaceFunctionDocument {
+  workspaceId: string;
+  name: string;
+  description?: string;
+  parameters: IWorkspaceFunctionParameter[];
+  returnType: EFormulaDataType;
+  body: string;
+  functionDependencies: string[];
+  complexity: number;
+  examples: IFunctionExample[];
+}
+
+export interface ICreateWorkspaceFunctionRequest {
+  name: string;
+  description?: string;
+  parameters: IWorkspaceFunctionParameter[];
+  returnType: EFormulaDataType;
+  body: string;
+  examples?: IFunctionExample[];
+}
+
+export type TUpdateWorkspaceFunctionRequest = Partial<ICreateWorkspaceFunctionRequest>;
+
 // Formula suggestion
 export interface IFormulaSuggestion {
   expression: string;
@@ -310,7 +417,8 @@ export const FunctionParameterSchema = z.object({
       allowedValues: z.array(z.any()).optional(),
       customValidator: z.string().optional()
     })
-    .optional()
+    .optional(),
+  isLambda: z.boolean().optional()
 });
 
 export const FormulaFunctionSchema = z.object({
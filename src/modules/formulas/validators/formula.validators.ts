@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { EFormulaDataType } from '../types/formula.types';
 
 // Formula creation/update schema
 export const createFormulaSchema = z.object({
@@ -94,3 +95,58 @@ export const formulaQuerySchema = z.object({
   sortBy: z.enum(['name', 'createdAt', 'updatedAt']).optional(),
   sortOrder: z.enum(['asc', 'desc']).optional()
 });
+
+// Workspace formula function schemas
+const workspaceFunctionParameterSchema = z.object({
+  name: z
+    .string()
+    .min(1, 'Parameter name is required')
+    .max(50, 'Parameter name must not exceed 50 characters')
+    .regex(/^[A-Za-z_][A-Za-z0-9_ ]*$/, 'Parameter name must start with a letter'),
+  type: z.enum(EFormulaDataType),
+  description: z.string().max(500).default(''),
+  isOptional: z.boolean().optional(),
+  defaultValue: z.any().optional()
+});
+
+const workspaceFunctionFields = {
+  name: z
+    .string()
+    .min(1, 'Function name is required')
+    .max(64, 'Function name must not exceed 64 characters')
+    .regex(
+      /^[A-Za-z_][A-Za-z0-9_]*$/,
+      'Function name must start with a letter and contain only letters, digits and underscores'
+    ),
+  description: z.string().max(1000),
+  parameters: z.array(workspaceFunctionParameterSchema).max(20),
+  returnType: z.enum(EFormulaDataType),
+  body: z
+    .string()
+    .min(1, 'Function body is required')
+    .max(5000, 'Function body must not exceed 5000 characters'),
+  examples: z
+    .array(
+      z.object({
+        expression: z.string(),
+        description: z.string(),
+        result: z.any()
+      })
+    )
+    .max(10)
+};
+
+export const createWorkspaceFunctionSchema = z.object({
+  ...workspaceFunctionFields,
+  description: workspaceFunctionFields.description.optional(),
+  parameters: workspaceFunctionFields.parameters.default([]),
+  returnType: workspaceFunctionFields.returnType.default(EFormulaDataType.ANY),
+  examples: workspaceFunctionFields.examples.optional()
+});
+
+// Omitted fields keep their current value
+export const updateWorkspaceFunctionSchema = z.object(workspaceFunctionFields).partial();
+
+export const workspaceFunctionIdSchema = z.object({
+  functionId: z.string().min(1, 'Function ID is required')
+});
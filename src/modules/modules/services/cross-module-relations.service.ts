@@ -241,7 +241,7 @@ const disconnectRecords = async (
     throw createNotFoundError('Relation not found between these modules');
   }
 
-  await relationService.removeConnection(relation.id, sourceRecordId, targetRecordId);
+  await relationService.removeConnection(relation.id, sourceRecordId, targetRecordId, userId);
 };
 
 const getRelatedRecords = async (
@@ -81,7 +81,7 @@ export const checkPermission = catchAsync(
     const { level } = req.query;
     const userId = getUserId(req);
 
-    const hasPermission = await permissionService.hasPermission(
+    const result = await permissionService.checkPermission(
       resourceType as EShareScope,
       resourceId,
       userId,
@@ -89,10 +89,11 @@ export const checkPermission = catchAsync(
     );
 
     sendSuccessResponse(res, 'Permission check completed', {
-      hasPermission,
+      hasPermission: result.allowed,
       resourceType,
       resourceId,
-      level: level || EPermissionLevel.READ
+      level: level || EPermissionLevel.READ,
+      denial: result.denial
     });
   }
 );
@@ -0,0 +1,58 @@
+import { Request, Response } from 'express';
+import { EShareScope } from '@/modules/core/types/permission.types';
+import { shareLinkService } from '../services/share-link.service';
+import { getClientIp } from '../utils/permission-conditions.utils';
+import { sendSuccessResponse } from '@/utils/response.utils';
+import { getUserId } from '@/modules/auth';
+import { catchAsync } from '@/utils';
+
+export const SHARE_LINK_PASSWORD_HEADER = 'X-Share-Password';
+
+// Create a share link for a view or record
+export const createShareLink = catchAsync(async (req: Request, res: Response): Promise<void> => {
+  const { resourceType, resourceId } = req.params;
+  const userId = getUserId(req);
+
+  const link = await shareLinkService.createShareLink(
+    resourceType as EShareScope,
+    resourceId,
+    req.body,
+    userId
+  );
+
+  sendSuccessResponse(res, 'Share link created successfully', link, 201);
+});
+
+// Get the active share links of a view or record
+export const getShareLinks = catchAsync(async (req: Request, res: Response): Promise<void> => {
+  const { resourceType, resourceId } = req.params;
+  const userId = getUserId(req);
+
+  const links = await shareLinkService.getShareLinks(
+    resourceType as EShareScope,
+    resourceId,
+    userId
+  );
+
+  sendSuccessResponse(res, 'Share links retrieved successfully', links);
+});
+
+// Revoke a share link
+export const revokeShareLink = catchAsync(async (req: Request, res: Response): Promise<void> => {
+  const userId = getUserId(req);
+  await shareLinkService.revokeShareLink(req.params.linkId, userId);
+
+  sendSuccessResponse(res, 'Share link revoked successfully');
+});
+
+// Open a share link, no account needed
+export const getPublicContent = catchAsync(async (req: Request, res: Response): Promise<void> => {
+  const content = await shareLinkService.getPublicContent(req.params.linkId, {
+    password: req.get(SHARE_LINK_PASSWORD_HEADER) || undefined,
+    page: req.query.page ? Number(req.query.page) || 1 : undefined,
+    ipAddress: getClientIp(req),
+    userAgent: req.get('User-Agent')
+  });
+
+  sendSuccessResponse(res, 'Shared content retrieved successfully', content);
+});
@@ -10,9 +10,17 @@ export {
   bulkGrantPermissions,
   bulkRevokePermissions
 } from './controllers/permission.controller';
+export {
+  createShareLink,
+  getShareLinks,
+  revokeShareLink,
+  getPublicContent,
+  SHARE_LINK_PASSWORD_HEADER
+} from './controllers/share-link.controller';
 
 // Services
 export { permissionService } from './services/permission.service';
+export { shareLinkService } from './services/share-link.service';
 
 // Utils
 export {
@@ -27,13 +35,29 @@ export {
   calculateEffectivePermissions
 } from './utils/permission-validator.utils';
 
+export {
+  getClientIp,
+  getDeviceId,
+  isIpAllowed,
+  isWithinTimeRestrictions,
+  evaluatePermissionConditions
+} from './utils/permission-conditions.utils';
+export { getPermissionContext, getPermissionDenial } from './utils/permission-context.utils';
+
+// Middleware
+export { permissionContext } from './middleware/permission-context.middleware';
+
 // Validations
 export {
+  permissionConditionsSchema,
   resourceParamsSchema,
   grantPermissionSchema,
   revokePermissionSchema,
   bulkGrantPermissionsSchema,
-  bulkRevokePermissionsSchema
+  bulkRevokePermissionsSchema,
+  shareLinkParamsSchema,
+  linkIdParamSchema,
+  createShareLinkSchema
 } from './validations/permissions.validations';
 
 // Models
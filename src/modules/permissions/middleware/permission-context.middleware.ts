@@ -0,0 +1,8 @@
+import { Request, Response, NextFunction } from 'express';
+import { buildPermissionContext } from '../utils/permission-conditions.utils';
+import { runWithPermissionContext } from '../utils/permission-context.utils';
+
+// Make the client IP and device of the request available to permission checks
+export const permissionContext = (req: Request, res: Response, next: NextFunction): void => {
+  runWithPermissionContext(buildPermissionContext(req), next);
+};
@@ -12,6 +12,7 @@ export type TPermissionModel = Model<TPermissionDocument> & {
   findByResource(resourceType: EShareScope, resourceId: string): Promise<TPermissionDocument[]>;
   findByUser(userId: string): Promise<TPermissionDocument[]>;
   findByWorkspace(workspaceId: string): Promise<TPermissionDocument[]>;
+  findByLinkId(linkId: string): Promise<TPermissionDocument | null>;
   hasPermission(
     resourceType: EShareScope,
     resourceId: string,
@@ -134,6 +135,23 @@ const PermissionSchema = new Schema<TPermissionDocument, TPermissionModel>(
       type: Boolean,
       default: true,
       index: true
+    },
+
+    // Share links
+    linkPassword: {
+      type: String,
+      select: false
+    },
+    linkExpiresAt: {
+      type: Date
+    },
+    linkViewCount: {
+      type: Number,
+      default: 0
+    },
+    linkMaxViews: {
+      type: Number,
+      min: 1
     }
   },
   {
@@ -180,6 +198,15 @@ PermissionSchema.statics.findByWorkspace = function (workspaceId: string) {
   }).exec();
 };
 
+PermissionSchema.statics.findByLinkId = function (linkId: string) {
+  return this.findOne({
+    linkId,
+    type: EPermissionType.LINK
+  })
+    .select('+linkPassword')
+    .exec();
+};
+
 PermissionSchema.statics.hasPermission = async function (
   resourceType: EShareScope,
   resourceId: string,
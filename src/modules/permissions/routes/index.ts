@@ -1,9 +1,13 @@
 import { Router } from 'express';
 import permissionRoutes from './permission.routes';
+import publicRoutes from './public.routes';
 
 const router = Router();
 
 // Mount permission routes
 router.use('/permissions', permissionRoutes);
 
+// Share links opened without an account
+router.use('/public', publicRoutes);
+
 export default router;
@@ -11,12 +11,20 @@ import {
   bulkGrantPermissions,
   bulkRevokePermissions
 } from '@/modules/permissions/controllers/permission.controller';
+import {
+  createShareLink,
+  getShareLinks,
+  revokeShareLink
+} from '@/modules/permissions/controllers/share-link.controller';
 import {
   bulkGrantPermissionsSchema,
   bulkRevokePermissionsSchema,
+  createShareLinkSchema,
   grantPermissionSchema,
+  linkIdParamSchema,
   resourceParamsSchema,
-  revokePermissionSchema
+  revokePermissionSchema,
+  shareLinkParamsSchema
 } from '@/modules/permissions/validations/permissions.validations';
 import { authenticateToken } from '@/middlewares/auth';
 
@@ -24,6 +32,22 @@ const router = Router();
 
 router.use(authenticateToken);
 
+// Share links
+router.delete('/links/:linkId', validateParams(linkIdParamSchema), revokeShareLink);
+
+router.get(
+  '/:resourceType/:resourceId/links',
+  validateParams(shareLinkParamsSchema),
+  getShareLinks
+);
+
+router.post(
+  '/:resourceType/:resourceId/links',
+  validateParams(shareLinkParamsSchema),
+  validateBody(createShareLinkSchema),
+  createShareLink
+);
+
 router.post(
   '/:resourceType/:resourceId/grant',
   validateParams(resourceParamsSchema),
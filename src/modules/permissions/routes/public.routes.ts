@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import { validateParams } from '@/middlewares//validation';
+import { getPublicContent } from '@/modules/permissions/controllers/share-link.controller';
+import { linkIdParamSchema } from '@/modules/permissions/validations/permissions.validations';
+import { createRateLimiter } from '@/config/rate-limiter';
+
+const router = Router();
+
+// Anonymous access, limited to slow down guessing of link passwords
+const publicLinkLimiter = createRateLimiter(
+  15 * 60 * 1000,
+  60,
+  'Too many requests for shared content, please try again later.'
+);
+
+router.get('/:linkId', publicLinkLimiter, validateParams(linkIdParamSchema), getPublicContent);
+
+export default router;
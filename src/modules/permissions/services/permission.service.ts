@@ -1,5 +1,8 @@
 import {
   IPermission,
+  IPermissionCheckResult,
+  IPermissionConditions,
+  IPermissionRequestContext,
   EPermissionLevel,
   EPermissionType,
   EShareScope
@@ -8,19 +11,39 @@ import { EWorkspaceMemberRole } from '@/modules/workspace/types/workspace.types'
 import { PermissionModel } from '../models/permission.model';
 import { WorkspaceMemberModel } from '@/modules/workspace/models/workspace-member.model';
 import { createForbiddenError } from '@/utils/error.utils';
+import { evaluatePermissionConditions } from '../utils/permission-conditions.utils';
+import { getPermissionContext, recordPermissionDenial } from '../utils/permission-context.utils';
 
 const hasPermission = async (
   resourceType: EShareScope,
   resourceId: string,
   userId: string,
-  requiredLevel: EPermissionLevel
+  requiredLevel: EPermissionLevel,
+  context?: IPermissionRequestContext
 ): Promise<boolean> => {
+  const result = await checkPermission(resourceType, resourceId, userId, requiredLevel, context);
+  if (result.denial) recordPermissionDenial(result.denial);
+  return result.allowed;
+};
+
+/**
+ * Check a permission and explain a denial caused by the conditions of a grant (IP
+ * allowlist, time window or device rules). Conditions are evaluated against the current
+ * request unless a context is given.
+ */
+const checkPermission = async (
+  resourceType: EShareScope,
+  resourceId: string,
+  userId: string,
+  requiredLevel: EPermissionLevel,
+  context: IPermissionRequestContext = getPermissionContext()
+): Promise<IPermissionCheckResult> => {
   try {
     if (resourceType === EShareScope.DATABASE) {
       const { DatabaseModel } = await import('@/modules/database/models/database.model');
       const database = await DatabaseModel.findById(resourceId);
       if (database && database.createdBy === userId) {
-        return true;
+        return { allowed: true };
       }
     }
 
@@ -28,7 +51,7 @@ const hasPermission = async (
       const { RecordModel } = await import('@/modules/database/models/record.model');
       const record = await RecordModel.findById(resourceId);
       if (record && record.createdBy === userId) {
-        return true;
+        return { allowed: true };
       }
     }
 
@@ -36,7 +59,7 @@ const hasPermission = async (
       const { TemplateModel } = await import('@/modules/templates/models/template.model');
       const template = await TemplateModel.findById(resourceId);
       if (template && template.createdBy === userId) {
-        return true; // Template creator has full access
+        return { allowed: true }; // Template creator has full access
       }
     }
 
@@ -45,7 +68,7 @@ const hasPermission = async (
       const { WorkspaceModel } = await import('@/modules/workspace/models/workspace.model');
       const workspace = await WorkspaceModel.findById(resourceId);
       if (workspace && workspace.ownerId === userId) {
-        return true; // Workspace owner has full access
+        return { allowed: true }; // Workspace owner has full access
       }
     }
 
@@ -59,17 +82,36 @@ const hasPermission = async (
       $or: [{ expiresAt: { $exists: false } }, { expiresAt: { $gt: new Date() } }]
     });
 
+    // A conditional grant restricts the user on this resource, so a failed condition
+    // is not bypassed through workspace membership or public access
+    const denial = evaluatePermissionConditions(directPermission?.conditions, context);
+    if (directPermission && denial) {
+      return { allowed: false, denial: { ...denial, permissionId: directPermission.id } };
+    }
+
     if (directPermission && hasRequiredLevel(directPermission.level, requiredLevel)) {
-      return true;
+      return { allowed: true };
     }
 
     // 2. Check template-specific permissions
     if (resourceType === EShareScope.TEMPLATE) {
       const templatePermission = await checkTemplatePermission(resourceId, userId, requiredLevel);
-      if (templatePermission) return true;
+      if (templatePermission) return { allowed: true };
     }
 
-    // 3. Check workspace-level permissions (for workspace-scoped resources)
+    // 3. Check inherited permissions (record inherits from database), before workspace
+    // membership so the conditions of a database grant also apply to its records
+    if (resourceType === EShareScope.RECORD) {
+      const inheritedPermission = await checkInheritedPermission(
+        resourceId,
+        userId,
+        requiredLevel,
+        context
+      );
+      if (inheritedPermission.allowed || inheritedPermission.denial) return inheritedPermission;
+    }
+
+    // 4. Check workspace-level permissions (for workspace-scoped resources)
     if (resourceType === EShareScope.DATABASE || resourceType === EShareScope.RECORD) {
       const workspacePermission = await checkWorkspacePermission(
         resourceType,
@@ -77,13 +119,7 @@ const hasPermission = async (
         userId,
         requiredLevel
       );
-      if (workspacePermission) return true;
-    }
-
-    // 4. Check inherited permissions (record inherits from database)
-    if (resourceType === EShareScope.RECORD) {
-      const inheritedPermission = await checkInheritedPermission(resourceId, userId, requiredLevel);
-      if (inheritedPermission) return true;
+      if (workspacePermission) return { allowed: true };
     }
 
     // 5. Check public access
@@ -95,13 +131,13 @@ const hasPermission = async (
     });
 
     if (publicPermission && hasRequiredLevel(publicPermission.level, requiredLevel)) {
-      return true;
+      return { allowed: true };
     }
 
-    return false;
+    return { allowed: false };
   } catch (error) {
     console.error('Permission check error:', error);
-    return false;
+    return { allowed: false };
   }
 };
 
@@ -210,20 +246,21 @@ const checkTemplatePermission = async (
 const checkInheritedPermission = async (
   recordId: string,
   userId: string,
-  requiredLevel: EPermissionLevel
-): Promise<boolean> => {
+  requiredLevel: EPermissionLevel,
+  context: IPermissionRequestContext
+): Promise<IPermissionCheckResult> => {
   try {
     // Import here to avoid circular dependency
     const { RecordModel } = await import('@/modules/database/models/record.model');
     const record = await RecordModel.findById(recordId);
 
-    if (!record) return false;
+    if (!record) return { allowed: false };
 
     // Check database permission
-    return hasPermission(EShareScope.DATABASE, record.databaseId, userId, requiredLevel);
+    return checkPermission(EShareScope.DATABASE, record.databaseId, userId, requiredLevel, context);
   } catch (error) {
     console.error('Inherited permission check error:', error);
-    return false;
+    return { allowed: false };
   }
 };
 
@@ -250,7 +287,7 @@ const grantPermission = async (
   grantedBy: string,
   options?: {
     expiresAt?: Date;
-    conditions?: any;
+    conditions?: IPermissionConditions;
   }
 ): Promise<IPermission> => {
   // Check if granter has permission to manage permissions
@@ -387,6 +424,12 @@ const hasCapability = async (
     $or: [{ expiresAt: { $exists: false } }, { expiresAt: { $gt: new Date() } }]
   });
 
+  const denial = evaluatePermissionConditions(permission?.conditions, getPermissionContext());
+  if (permission && denial) {
+    recordPermissionDenial({ ...denial, permissionId: permission.id });
+    return false;
+  }
+
   if (!permission) {
     // Check template-specific capability
     if (resourceType === EShareScope.TEMPLATE) {
@@ -492,6 +535,7 @@ const checkTemplateCapability = async (
 
 export const permissionService = {
   hasPermission,
+  checkPermission,
   grantPermission,
   revokePermission,
   getResourcePermissions,
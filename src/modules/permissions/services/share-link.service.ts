@@ -0,0 +1,499 @@
+import { randomBytes } from 'crypto';
+import {
+  ICreateShareLinkRequest,
+  IPublicProperty,
+  IPublicRecord,
+  IPublicShareContent,
+  IShareLink,
+  EPermissionLevel,
+  EPermissionType,
+  EShareLinkContent,
+  EShareScope
+} from '@/modules/core/types/permission.types';
+import { EDatabaseType } from '@/modules/core/types/database.types';
+import { PermissionModel, TPermissionDocument } from '../models/permission.model';
+import { permissionService } from './permission.service';
+import { DatabaseModel } from '@/modules/database/models/database.model';
+import { RecordModel } from '@/modules/database/models/record.model';
+import { ViewModel } from '@/modules/database/models/view.model';
+import { comparePassword, hashPassword } from '@/modules/auth/utils/auth.utils';
+import {
+  createAppError,
+  createBadRequestError,
+  createForbiddenError,
+  createNotFoundError,
+  createUnauthorizedError
+} from '@/utils/error.utils';
+
+/**
+ * Share links open a database view, a record or a published note to anyone holding the
+ * link, without an account. A link is a permission of type LINK on the view or record.
+ */
+
+const MAX_PAGE_SIZE = 100;
+
+export const generateLinkId = (): string => randomBytes(24).toString('base64url');
+
+interface ISharedResource {
+  databaseId: string;
+  workspaceId: string;
+  name: string;
+  content: EShareLinkContent;
+}
+
+interface IResolveShareLinkOptions {
+  password?: string;
+  page?: number;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+const formatShareLink = (permission: TPermissionDocument): IShareLink => ({
+  id: permission.id,
+  linkId: permission.linkId as string,
+  resourceType: permission.resourceType,
+  resourceId: permission.resourceId,
+  level: permission.level,
+  hasPassword: Boolean(permission.linkPassword),
+  expiresAt: permission.linkExpiresAt,
+  viewCount: permission.linkViewCount || 0,
+  maxViews: permission.linkMaxViews,
+  isActive: permission.isActive,
+  createdBy: permission.grantedBy,
+  createdAt: permission.grantedAt,
+  lastUsedAt: permission.lastUsedAt
+});
+
+/**
+ * The database a shared view or record lives in. Records of a notes database are shared
+ * as notes, and only while they are published.
+ */
+const getSharedResource = async (
+  resourceType: EShareScope,
+  resourceId: string
+): Promise<ISharedResource> => {
+  if (resourceType === EShareScope.VIEW) {
+    const view = await ViewModel.findOne({ _id: resourceId, isDeleted: { $ne: true } });
+    if (!view) throw createNotFoundError('View', resourceId);
+
+    const database = await DatabaseModel.findById(view.databaseId);
+    if (!database) throw createNotFoundError('Database', view.databaseId);
+
+    return {
+      databaseId: view.databaseId,
+      workspaceId: database.workspaceId,
+      name: `${database.name} / ${view.name}`,
+      content: EShareLinkContent.VIEW
+    };
+  }
+
+  if (resourceType === EShareScope.RECORD) {
+    const record = await RecordModel.findOne({ _id: resourceId, isDeleted: { $ne: true } });
+    if (!record) throw createNotFoundError('Record', resourceId);
+
+    const database = await DatabaseModel.findById(record.databaseId);
+    if (!database) throw createNotFoundError('Database', record.databaseId);
+
+    const properties = (record.properties || {}) as Record<string, any>;
+    const isNote = database.type === EDatabaseType.NOTES;
+    if (isNote && properties['Is Published'] !== true) {
+      throw createBadRequestError('Only published notes can be shared by link');
+    }
+
+    return {
+      databaseId: record.databaseId,
+      workspaceId: database.workspaceId,
+      name: properties.Title || properties.Name || 'Untitled',
+      content: isNote ? EShareLinkContent.NOTE : EShareLinkContent.RECORD
+    };
+  }
+
+  throw createBadRequestError('Only views, records and notes can be shared by link');
+};
+
+// Creating and managing links needs full access, the level needed to share the resource
+const checkCanShare = async (
+  resourceType: EShareScope,
+  resourceId: string,
+  databaseId: string,
+  userId: string
+): Promise<void> => {
+  const canShare =
+    resourceType === EShareScope.VIEW
+      ? await permissionService.hasPermission(
+          EShareScope.DATABASE,
+          databaseId,
+          userId,
+          EPermissionLevel.FULL_ACCESS
+        )
+      : await permissionService.hasPermission(
+          resourceType,
+          resourceId,
+          userId,
+          EPermissionLevel.FULL_ACCESS
+        );
+
+  if (!canShare) {
+    throw createForbiddenError('Insufficient permissions to share this resource');
+  }
+};
+
+const logShareLinkActivity = async (
+  type: 'created' | 'accessed' | 'revoked',
+  permission: TPermissionDocument,
+  resource: ISharedResource,
+  actor: { userId: string; ipAddress?: string; userAgent?: string }
+): Promise<void> => {
+  try {
+    const { createActivity } = await import('@/modules/system/services/activity.service');
+    const { EActivityType, EActivityContext } = await import(
+      '@/modules/system/types/activity.types'
+    );
+
+    const activity = {
+      created: {
+        type: EActivityType.SHARE_LINK_CREATED,
+        title: 'Share Link Created',
+        description: `Created a share link for ${resource.name}`
+      },
+      accessed: {
+        type: EActivityType.SHARE_LINK_ACCESSED,
+        title: 'Share Link Opened',
+        description: `${resource.name} was opened through a share link (${permission.linkViewCount} views)`
+      },
+      revoked: {
+        type: EActivityType.SHARE_LINK_REVOKED,
+        title: 'Share Link Revoked',
+        description: `Revoked a share link for ${resource.name}`
+      }
+    }[type];
+
+    // Anonymous visits are logged on the link owner
+    let userName = 'Anonymous visitor';
+    if (type !== 'accessed') {
+      const { UserModel } = await import('@/modules/users/models/users.model');
+      const user = await UserModel.findById(actor.userId).exec();
+      userName = user
+        ? `${user.firstName || ''} ${user.lastName || ''}`.trim() || user.email || 'Unknown User'
+        : 'Unknown User';
+    }
+
+    await createActivity({
+      ...activity,
+      context: EActivityContext.WORKSPACE,
+      userId: actor.userId,
+      userName,
+      workspaceId: resource.workspaceId,
+      entityId: permission.resourceId,
+      entityType: resource.content,
+      entityName: resource.name,
+      metadata: {
+        linkId: permission.linkId,
+        level: permission.level,
+        viewCount: permission.linkViewCount || 0,
+        maxViews: permission.linkMaxViews
+      },
+      ipAddress: actor.ipAddress,
+      userAgent: actor.userAgent
+    });
+  } catch (error) {
+    console.error('Failed to log share link activity:', error);
+  }
+};
+
+const createShareLink = async (
+  resourceType: EShareScope,
+  resourceId: string,
+  data: ICreateShareLinkRequest,
+  userId: string
+): Promise<IShareLink> => {
+  try {
+    const resource = await getSharedResource(resourceType, resourceId);
+    await checkCanShare(resourceType, resourceId, resource.databaseId, userId);
+
+    if (data.expiresAt && new Date(data.expiresAt) <= new Date()) {
+      throw createBadRequestError('Expiry date must be in the future');
+    }
+
+    const permission = await PermissionModel.create({
+      resourceType,
+      resourceId,
+      type: EPermissionType.LINK,
+      linkId: generateLinkId(),
+      level: data.level,
+      linkPassword: data.password ? await hashPassword(data.password) : undefined,
+      linkExpiresAt: data.expiresAt,
+      linkMaxViews: data.maxViews,
+      linkViewCount: 0,
+      grantedBy: userId,
+      grantedAt: new Date(),
+      isActive: true
+    });
+
+    await logShareLinkActivity('created', permission, resource, { userId });
+
+    return formatShareLink(permission);
+  } catch (error: any) {
+    if (error.statusCode) throw error;
+    throw createAppError(`Failed to create share link: ${error.message}`, 500);
+  }
+};
+
+const getShareLinks = async (
+  resourceType: EShareScope,
+  resourceId: string,
+  userId: string
+): Promise<IShareLink[]> => {
+  try {
+    const resource = await getSharedResource(resourceType, resourceId);
+    await checkCanShare(resourceType, resourceId, resource.databaseId, userId);
+
+    const links = await PermissionModel.find({
+      resourceType,
+      resourceId,
+      type: EPermissionType.LINK,
+      isActive: true
+    })
+      .select('+linkPassword')
+      .sort({ grantedAt: -1 })
+      .exec();
+
+    return links.map(formatShareLink);
+  } catch (error: any) {
+    if (error.statusCode) throw error;
+    throw createAppError(`Failed to get share links: ${error.message}`, 500);
+  }
+};
+
+const revokeShareLink = async (linkId: string, userId: string): Promise<void> => {
+  try {
+    const permission = await PermissionModel.findByLinkId(linkId);
+    if (!permission || !permission.isActive) {
+      throw createNotFoundError('Share link', linkId);
+    }
+
+    // The resource may be gone already, its links can still be revoked by their owner
+    const resource = await getSharedResource(permission.resourceType, permission.resourceId).catch(
+      () => null
+    );
+    if (resource) {
+      await checkCanShare(
+        permission.resourceType,
+        permission.resourceId,
+        resource.databaseId,
+        userId
+      );
+    } else if (permission.grantedBy !== userId) {
+      throw createForbiddenError('Insufficient permissions to revoke this share link');
+    }
+
+    permission.isActive = false;
+    await permission.save();
+
+    if (resource) {
+      await logShareLinkActivity('revoked', permission, resource, { userId });
+    }
+  } catch (error: any) {
+    if (error.statusCode) throw error;
+    throw createAppError(`Failed to revoke share link: ${error.message}`, 500);
+  }
+};
+
+const getPublicProperties = async (
+  databaseId: string,
+  ownerId: string,
+  viewId?: string
+): Promise<IPublicProperty[]> => {
+  const { propertiesService } = await import('@/modules/database/services/properties.services');
+  const properties = await propertiesService.getProperties(databaseId, ownerId, false, viewId);
+
+  return properties.map(property => ({
+    id: property.id,
+    name: property.name,
+    type: property.type
+  }));
+};
+
+const toPublicRecord = (
+  record: InstanceType<typeof RecordModel>,
+  properties: IPublicProperty[],
+  includeContent: boolean
+): IPublicRecord => {
+  const values = (record.properties || {}) as Record<string, unknown>;
+
+  return {
+    id: String(record._id),
+    properties: Object.fromEntries(
+      properties.filter(property => property.name in values).map(p => [p.name, values[p.name]])
+    ),
+    content: includeContent ? record.content || [] : undefined,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt
+  };
+};
+
+const renderView = async (
+  permission: TPermissionDocument,
+  page: number
+): Promise<IPublicShareContent['view']> => {
+  const { viewsService } = await import('@/modules/database/services/views.services');
+  const stored = await ViewModel.findById(permission.resourceId);
+  if (!stored) throw createNotFoundError('View', permission.resourceId);
+
+  const databaseId = stored.databaseId;
+  const view = await viewsService.getViewById(
+    databaseId,
+    permission.resourceId,
+    permission.grantedBy
+  );
+  const properties = await getPublicProperties(databaseId, permission.grantedBy, view.id);
+
+  const filter = await viewsService.buildFilterQuery(
+    view.settings.filters,
+    databaseId,
+    permission.grantedBy
+  );
+  const sort = await viewsService.buildSortQuery(
+    view.settings.sorts,
+    databaseId,
+    permission.grantedBy
+  );
+
+  const query = {
+    ...filter,
+    databaseId,
+    isDeleted: { $ne: true },
+    isTemplate: { $ne: true }
+  };
+  const limit = Math.min(view.settings.pageSize || 25, MAX_PAGE_SIZE);
+  const skip = (page - 1) * limit;
+
+  const [records, total] = await Promise.all([
+    RecordModel.find(query).sort(sort).skip(skip).limit(limit).select('-content').exec(),
+    RecordModel.countDocuments(query)
+  ]);
+
+  return {
+    id: view.id,
+    name: view.name,
+    type: view.type,
+    properties,
+    records: records.map(record => toPublicRecord(record, properties, false)),
+    total,
+    page,
+    limit,
+    hasNext: skip + limit < total
+  };
+};
+
+const renderRecord = async (
+  permission: TPermissionDocument,
+  content: EShareLinkContent
+): Promise<Pick<IPublicShareContent, 'record' | 'note'>> => {
+  const record = await RecordModel.findOne({
+    _id: permission.resourceId,
+    isDeleted: { $ne: true }
+  });
+  if (!record) throw createNotFoundError('Record', permission.resourceId);
+
+  if (content === EShareLinkContent.NOTE) {
+    const { formatNoteResponse } = await import(
+      '@/modules/second-brain/notes/services/notes.service'
+    );
+    const note = formatNoteResponse(record);
+
+    return {
+      note: {
+        id: note.id,
+        title: note.title,
+        summary: note.summary || '',
+        tags: note.tags,
+        content: note.content,
+        wordCount: note.wordCount,
+        readingTime: note.readingTime,
+        allowComments: note.allowComments,
+        publishedAt: note.publishedAt,
+        updatedAt: note.updatedAt
+      }
+    };
+  }
+
+  const properties = await getPublicProperties(record.databaseId, permission.grantedBy);
+  return { record: toPublicRecord(record, properties, true) };
+};
+
+/**
+ * Open a share link without an account. Each successful open counts as one view of the
+ * link, a link stops working once it expires or reaches its maximum number of views.
+ */
+const getPublicContent = async (
+  linkId: string,
+  options: IResolveShareLinkOptions = {}
+): Promise<IPublicShareContent> => {
+  try {
+    const link = await PermissionModel.findByLinkId(linkId);
+    if (!link || !link.isActive) {
+      throw createNotFoundError('Share link', linkId);
+    }
+
+    if (link.linkExpiresAt && link.linkExpiresAt <= new Date()) {
+      throw createAppError('This share link has expired', 410);
+    }
+
+    if (link.linkPassword) {
+      if (!options.password) {
+        throw createUnauthorizedError('This share link is protected by a password');
+      }
+      if (!(await comparePassword(options.password, link.linkPassword))) {
+        throw createUnauthorizedError('Invalid share link password');
+      }
+    }
+
+    const resource = await getSharedResource(link.resourceType, link.resourceId);
+    const page = Math.max(1, Math.floor(options.page || 1));
+
+    // Render before counting, so a failed open does not use up a view
+    const rendered =
+      resource.content === EShareLinkContent.VIEW
+        ? { view: await renderView(link, page) }
+        : await renderRecord(link, resource.content);
+
+    // Claim a view atomically, concurrent opens cannot go past the maximum
+    const counted = await PermissionModel.findOneAndUpdate(
+      {
+        _id: link._id,
+        isActive: true,
+        ...(link.linkMaxViews ? { linkViewCount: { $lt: link.linkMaxViews } } : {})
+      },
+      { $inc: { linkViewCount: 1 }, $set: { lastUsedAt: new Date() } },
+      { new: true }
+    );
+    if (!counted) {
+      throw createAppError('This share link has reached its maximum number of views', 410);
+    }
+
+    await logShareLinkActivity('accessed', counted, resource, {
+      userId: counted.grantedBy,
+      ipAddress: options.ipAddress,
+      userAgent: options.userAgent
+    });
+
+    return {
+      linkId,
+      content: resource.content,
+      level: link.level,
+      expiresAt: link.linkExpiresAt,
+      ...rendered
+    };
+  } catch (error: any) {
+    if (error.statusCode) throw error;
+    throw createAppError(`Failed to open share link: ${error.message}`, 500);
+  }
+};
+
+export const shareLinkService = {
+  createShareLink,
+  getShareLinks,
+  revokeShareLink,
+  getPublicContent
+};
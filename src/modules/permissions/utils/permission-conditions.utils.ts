@@ -0,0 +1,187 @@
+import { BlockList, isIP } from 'net';
+import { Request } from 'express';
+import {
+  EPermissionCondition,
+  IPermissionConditions,
+  IPermissionDenial,
+  IPermissionRequestContext
+} from '@/modules/core/types/permission.types';
+
+/**
+ * Evaluation of the conditions attached to a permission (IP allowlist, time windows and
+ * device rules) against the request the permission is used for
+ */
+
+export const DEVICE_ID_HEADER = 'X-Device-Id';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// IPv4 clients of a dual stack server show up as IPv4-mapped IPv6 addresses
+const normalizeIp = (ip: string): string => {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(ip);
+  return mapped ? mapped[1] : ip;
+};
+
+/**
+ * Client IP of a request. `req.ip` follows the `trust proxy` setting of the app, so the
+ * forwarded address is only used when it was added by a trusted proxy.
+ */
+export const getClientIp = (req: Request): string | undefined => {
+  const ip = req.ip || req.socket?.remoteAddress;
+  return ip ? normalizeIp(ip) : undefined;
+};
+
+export const getDeviceId = (req: Request): string | undefined =>
+  req.get(DEVICE_ID_HEADER)?.trim() || undefined;
+
+export const buildPermissionContext = (req: Request): IPermissionRequestContext => ({
+  ip: getClientIp(req),
+  deviceId: getDeviceId(req)
+});
+
+/**
+ * Whether an allowlist entry is an IP address or a CIDR range
+ */
+export const isValidIpRule = (rule: string): boolean => {
+  const [address, prefix, ...rest] = rule.trim().split('/');
+  const version = isIP(address);
+  if (!version || rest.length > 0) return false;
+  if (prefix === undefined) return true;
+
+  const bits = Number(prefix);
+  return /^\d+$/.test(prefix) && bits <= (version === 4 ? 32 : 128);
+};
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const isIpAllowed = (ip: string, whitelist: string[]): boolean => {
+  const address = normalizeIp(ip);
+  const version = isIP(address);
+  if (!version) return false;
+
+  const allowed = new BlockList();
+  for (const rule of whitelist) {
+    if (!isValidIpRule(rule)) continue;
+
+    const [network, prefix] = rule.trim().split('/');
+    const type = isIP(network) === 4 ? 'ipv4' : 'ipv6';
+    if (prefix === undefined) {
+      allowed.addAddress(normalizeIp(network), type);
+    } else {
+      allowed.addSubnet(network, Number(prefix), type);
+    }
+  }
+
+  return allowed.check(address, version === 4 ? 'ipv4' : 'ipv6');
+};
+
+const parseTime = (time: string): number | null => {
+  const match = /^([01]?\d|2[0-3]):([0-5]\d)$/.exec(time);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+};
+
+// Day of week (0 is Sunday) and minutes since midnight in a timezone
+const getZonedTime = (date: Date, timeZone: string): { day: number; minutes: number } => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(date);
+
+  const part = (type: string) => parts.find(p => p.type === type)?.value || '';
+  return {
+    day: WEEKDAYS.indexOf(part('weekday')),
+    minutes: Number(part('hour')) * 60 + Number(part('minute'))
+  };
+};
+
+/**
+ * Whether a date falls in a time window. A window that ends before it starts runs past
+ * midnight, its early hours belong to the day the window started.
+ */
+export const isWithinTimeRestrictions = (
+  date: Date,
+  restrictions: NonNullable<IPermissionConditions['timeRestrictions']>
+): boolean => {
+  const start = parseTime(restrictions.startTime);
+  const end = parseTime(restrictions.endTime);
+  const timeZone = restrictions.timezone || 'UTC';
+  if (start === null || end === null || !isValidTimeZone(timeZone)) return false;
+
+  const { day, minutes } = getZonedTime(date, timeZone);
+  const days = restrictions.daysOfWeek?.length ? restrictions.daysOfWeek : [0, 1, 2, 3, 4, 5, 6];
+
+  if (start <= end) {
+    return days.includes(day) && minutes >= start && minutes < end;
+  }
+
+  return (
+    (days.includes(day) && minutes >= start) || (days.includes((day + 6) % 7) && minutes < end)
+  );
+};
+
+const describeTimeRestrictions = (
+  restrictions: NonNullable<IPermissionConditions['timeRestrictions']>
+): string => {
+  const days = restrictions.daysOfWeek?.length
+    ? ` on ${[...restrictions.daysOfWeek]
+        .sort((a, b) => a - b)
+        .map(day => WEEKDAYS[day])
+        .join(', ')}`
+    : '';
+  return `${restrictions.startTime}-${restrictions.endTime} ${restrictions.timezone || 'UTC'}${days}`;
+};
+
+/**
+ * First condition of a permission that the request does not meet. Conditions fail
+ * closed: a request without a known IP or device does not meet an IP or device rule.
+ */
+export const evaluatePermissionConditions = (
+  conditions: IPermissionConditions | undefined,
+  context: IPermissionRequestContext = {}
+): IPermissionDenial | null => {
+  if (!conditions) return null;
+
+  if (conditions.ipWhitelist?.length) {
+    if (!context.ip || !isIpAllowed(context.ip, conditions.ipWhitelist)) {
+      return {
+        condition: EPermissionCondition.IP,
+        reason: context.ip
+          ? `Access is not allowed from IP address ${context.ip}`
+          : 'Access is only allowed from approved IP addresses'
+      };
+    }
+  }
+
+  const timeRestrictions = conditions.timeRestrictions;
+  if (timeRestrictions?.startTime && timeRestrictions.endTime) {
+    if (!isWithinTimeRestrictions(context.now || new Date(), timeRestrictions)) {
+      return {
+        condition: EPermissionCondition.TIME,
+        reason: `Access is only allowed ${describeTimeRestrictions(timeRestrictions)}`
+      };
+    }
+  }
+
+  if (conditions.deviceRestrictions?.length) {
+    if (!context.deviceId || !conditions.deviceRestrictions.includes(context.deviceId)) {
+      return {
+        condition: EPermissionCondition.DEVICE,
+        reason: context.deviceId
+          ? 'Access is not allowed from this device'
+          : `Access is only allowed from approved devices, send the ${DEVICE_ID_HEADER} header`
+      };
+    }
+  }
+
+  return null;
+};
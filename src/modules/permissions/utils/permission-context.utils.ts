@@ -0,0 +1,33 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import {
+  IPermissionDenial,
+  IPermissionRequestContext
+} from '@/modules/core/types/permission.types';
+
+/**
+ * Request context of permission checks. Permission checks run deep inside services that
+ * don't see the request, so the context travels with the async flow of the request.
+ */
+
+interface IPermissionContextStore {
+  context: IPermissionRequestContext;
+  denial?: IPermissionDenial;
+}
+
+const permissionContextStorage = new AsyncLocalStorage<IPermissionContextStore>();
+
+export const runWithPermissionContext = <T>(context: IPermissionRequestContext, fn: () => T): T =>
+  permissionContextStorage.run({ context }, fn);
+
+// Context of the current request, empty outside of a request
+export const getPermissionContext = (): IPermissionRequestContext =>
+  permissionContextStorage.getStore()?.context || {};
+
+// Remember why a permission was denied, so the error response can explain it
+export const recordPermissionDenial = (denial: IPermissionDenial): void => {
+  const store = permissionContextStorage.getStore();
+  if (store) store.denial = denial;
+};
+
+export const getPermissionDenial = (): IPermissionDenial | undefined =>
+  permissionContextStorage.getStore()?.denial;
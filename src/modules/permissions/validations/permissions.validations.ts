@@ -1,5 +1,25 @@
 import { z } from 'zod';
 import { EPermissionLevel, EShareScope } from '@/modules/core/types';
+import { isValidIpRule, isValidTimeZone } from '../utils/permission-conditions.utils';
+
+const timeOfDaySchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be in HH:mm format');
+
+export const permissionConditionsSchema = z.object({
+  ipWhitelist: z
+    .array(z.string().trim().refine(isValidIpRule, 'Must be an IP address or CIDR range'))
+    .optional(),
+  timeRestrictions: z
+    .object({
+      startTime: timeOfDaySchema,
+      endTime: timeOfDaySchema,
+      timezone: z.string().refine(isValidTimeZone, 'Invalid timezone').default('UTC'),
+      daysOfWeek: z.array(z.number().int().min(0).max(6)).default([])
+    })
+    .optional(),
+  deviceRestrictions: z.array(z.string().trim().min(1)).optional()
+});
 
 export const resourceParamsSchema = z.object({
   resourceType: z.enum(EShareScope),
@@ -10,20 +30,7 @@ export const grantPermissionSchema = z.object({
   userId: z.string().min(1, 'User ID is required'),
   level: z.enum(EPermissionLevel),
   expiresAt: z.string().datetime().optional(),
-  conditions: z
-    .object({
-      ipWhitelist: z.array(z.string()).optional(),
-      timeRestrictions: z
-        .object({
-          startTime: z.string().optional(),
-          endTime: z.string().optional(),
-          timezone: z.string().optional(),
-          daysOfWeek: z.array(z.number().min(0).max(6)).optional()
-        })
-        .optional(),
-      deviceRestrictions: z.array(z.string()).optional()
-    })
-    .optional()
+  conditions: permissionConditionsSchema.optional()
 });
 
 export const revokePermissionSchema = z.object({
@@ -37,20 +44,7 @@ export const bulkGrantPermissionsSchema = z.object({
         userId: z.string().min(1, 'User ID is required'),
         level: z.enum(EPermissionLevel),
         expiresAt: z.string().datetime().optional(),
-        conditions: z
-          .object({
-            ipWhitelist: z.array(z.string()).optional(),
-            timeRestrictions: z
-              .object({
-                startTime: z.string().optional(),
-                endTime: z.string().optional(),
-                timezone: z.string().optional(),
-                daysOfWeek: z.array(z.number().min(0).max(6)).optional()
-              })
-              .optional(),
-            deviceRestrictions: z.array(z.string()).optional()
-          })
-          .optional()
+        conditions: permissionConditionsSchema.optional()
       })
     )
     .min(1, 'At least one permission is required')
@@ -61,3 +55,19 @@ export const bulkRevokePermissionsSchema = z.object({
     .array(z.string().min(1, 'User ID is required'))
     .min(1, 'At least one user ID is required')
 });
+
+export const shareLinkParamsSchema = z.object({
+  resourceType: z.enum([EShareScope.VIEW, EShareScope.RECORD]),
+  resourceId: z.string().min(1, 'Resource ID is required')
+});
+
+export const linkIdParamSchema = z.object({
+  linkId: z.string().min(1, 'Link ID is required')
+});
+
+export const createShareLinkSchema = z.object({
+  level: z.enum([EPermissionLevel.READ, EPermissionLevel.COMMENT]).default(EPermissionLevel.READ),
+  password: z.string().min(4, 'Password must be at least 4 characters').max(128).optional(),
+  expiresAt: z.coerce.date().optional(),
+  maxViews: z.number().int().min(1).optional()
+});
@@ -0,0 +1,110 @@
+import { Request, Response, NextFunction } from 'express';
+import { catchAsync, sendSuccessResponse, createBadRequestError } from '@/utils';
+import { getUserId } from '@/auth/index';
+import { getWorkspaceId } from '@/modules/workspace/middleware/workspace.middleware';
+import { savedSearchService } from '../services/saved-search.service';
+import { SavedSearchResultsQuerySchema } from '../types/search.types';
+
+const requireWorkspaceId = (req: Request): string => {
+  const workspaceId = getWorkspaceId(req);
+  if (!workspaceId) {
+    throw createBadRequestError('Workspace ID is required');
+  }
+  return workspaceId;
+};
+
+export const savedSearchesController = {
+  /**
+   * List saved searches, only the sidebar smart folders with ?sidebar=true
+   * GET /api/v1/search/saved
+   */
+  getSavedSearches: catchAsync(
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      const savedSearches = await savedSearchService.listSavedSearches(
+        requireWorkspaceId(req),
+        getUserId(req),
+        req.query.sidebar === 'true'
+      );
+
+      sendSuccessResponse(res, 'Saved searches retrieved successfully', savedSearches);
+    }
+  ),
+
+  /**
+   * GET /api/v1/search/saved/:id
+   */
+  getSavedSearch: catchAsync(
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      const savedSearch = await savedSearchService.getSavedSearch(
+        requireWorkspaceId(req),
+        req.params.id,
+        getUserId(req)
+      );
+
+      sendSuccessResponse(res, 'Saved search retrieved successfully', savedSearch);
+    }
+  ),
+
+  /**
+   * POST /api/v1/search/saved
+   */
+  createSavedSearch: catchAsync(
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      const savedSearch = await savedSearchService.createSavedSearch(
+        requireWorkspaceId(req),
+        req.body,
+        getUserId(req)
+      );
+
+      sendSuccessResponse(res, 'Saved search created successfully', savedSearch, 201);
+    }
+  ),
+
+  /**
+   * PATCH /api/v1/search/saved/:id
+   */
+  updateSavedSearch: catchAsync(
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      const savedSearch = await savedSearchService.updateSavedSearch(
+        requireWorkspaceId(req),
+        req.params.id,
+        req.body,
+        getUserId(req)
+      );
+
+      sendSuccessResponse(res, 'Saved search updated successfully', savedSearch);
+    }
+  ),
+
+  /**
+   * DELETE /api/v1/search/saved/:id
+   */
+  deleteSavedSearch: catchAsync(
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      await savedSearchService.deleteSavedSearch(
+        requireWorkspaceId(req),
+        req.params.id,
+        getUserId(req)
+      );
+
+      sendSuccessResponse(res, 'Saved search deleted successfully');
+    }
+  ),
+
+  /**
+   * Run a saved search, as when its smart folder is opened
+   * GET /api/v1/search/saved/:id/results
+   */
+  getSavedSearchResults: catchAsync(
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      const result = await savedSearchService.runSavedSearch(
+        requireWorkspaceId(req),
+        req.params.id,
+        SavedSearchResultsQuerySchema.parse(req.query),
+        getUserId(req)
+      );
+
+      sendSuccessResponse(res, 'Saved search results retrieved successfully', result);
+    }
+  )
+};
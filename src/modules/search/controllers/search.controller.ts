@@ -9,10 +9,13 @@ import {
   IGlobalSearchResponse,
   ISearchSuggestionsResponse,
   IRecentSearchesResponse,
-  searchService
+  searchService,
+  searchIndexService
 } from '@/modules/search';
 import { EDatabaseType } from '@/modules/database';
 import { getUserId } from '@/auth/index';
+import { getWorkspaceId } from '@/modules/workspace/middleware/workspace.middleware';
+import { WorkspaceMemberModel } from '@/modules/workspace/models/workspace-member.model';
 
 export const searchController = {
   /**
@@ -314,6 +317,46 @@ export const searchController = {
     }
   },
 
+  /**
+   * Start rebuilding the search index of the current workspace, for workspace admins
+   * POST /api/v1/search/index/rebuild
+   */
+  rebuildIndex: async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = getUserId(req);
+
+      if (!userId) {
+        sendErrorResponse(res, 'Authentication required', 401);
+        return;
+      }
+
+      const workspaceId = getWorkspaceId(req);
+      if (!workspaceId) {
+        sendErrorResponse(res, 'Workspace context required', 400);
+        return;
+      }
+
+      if (!(await WorkspaceMemberModel.isAdmin(workspaceId, userId))) {
+        sendErrorResponse(res, 'Only workspace admins can rebuild the search index', 403);
+        return;
+      }
+
+      if (!searchIndexService.startRebuild(workspaceId)) {
+        sendErrorResponse(res, 'The search index of this workspace is already being rebuilt', 409);
+        return;
+      }
+
+      sendSuccessResponse(res, 'Search index rebuild started', { workspaceId }, 202);
+    } catch (error) {
+      sendErrorResponse(
+        res,
+        'Failed to rebuild search index',
+        500,
+        error instanceof Error ? error.message : 'Unknown error'
+      );
+    }
+  },
+
   /**
    * Get URL glimpse data
    * GET /api/v1/search/glimpse
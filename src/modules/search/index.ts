@@ -1,6 +1,12 @@
 // Search module exports
 export { searchService } from './services/search.service';
+export { searchIndexService } from './services/search-index.service';
+export { textAnalysisUtils } from './services/text-analysis';
+export { rankingUtils } from './services/ranking';
+export { searchQueryUtils } from './services/query-parser';
+export { savedSearchService } from './services/saved-search.service';
 export { searchController } from './controllers/search.controller';
+export { savedSearchesController } from './controllers/saved-searches.controller';
 export { default as searchRoutes } from './routes/search.routes';
 
 // Types
@@ -8,3 +14,5 @@ export * from './types/search.types';
 
 // Models
 export { SearchHistoryModel } from './models/search-history.model';
+export { SearchIndexModel } from './models/search-index.model';
+export { SavedSearchModel } from './models/saved-search.model';
@@ -0,0 +1,69 @@
+import mongoose, { Model } from 'mongoose';
+import { createBaseSchema, IBaseDocument } from '@/modules/core/models/base.model';
+import { ESearchScope, ISavedSearch } from '../types/search.types';
+
+export type TSavedSearchDocument = Omit<ISavedSearch, 'id'> &
+  IBaseDocument & {
+    isDeleted: boolean;
+  };
+
+export type TSavedSearchModel = Model<TSavedSearchDocument> & {
+  findByUser(workspaceId: string, userId: string): Promise<TSavedSearchDocument[]>;
+};
+
+// Saved searches belong to the user who saved them, those shown in the sidebar
+// are listed there as smart folders
+const SavedSearchSchema = createBaseSchema({
+  workspaceId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 100
+  },
+  query: {
+    type: String,
+    required: true,
+    maxlength: 500
+  },
+  scope: {
+    type: String,
+    enum: Object.values(ESearchScope),
+    default: ESearchScope.ALL
+  },
+  icon: String,
+  color: String,
+  showInSidebar: {
+    type: Boolean,
+    default: true
+  },
+  order: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  resultCount: Number,
+  lastRunAt: Date
+});
+
+SavedSearchSchema.index({ workspaceId: 1, createdBy: 1, order: 1 });
+
+SavedSearchSchema.statics.findByUser = function (
+  workspaceId: string,
+  userId: string
+): Promise<TSavedSearchDocument[]> {
+  return (this as TSavedSearchModel)
+    .find({ workspaceId, createdBy: userId, isDeleted: { $ne: true } })
+    .sort({ order: 1, createdAt: 1 });
+};
+
+export const SavedSearchModel = mongoose.model<TSavedSearchDocument, TSavedSearchModel>(
+  'SavedSearch',
+  SavedSearchSchema
+);
+
+export default SavedSearchModel;
@@ -0,0 +1,112 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+import { ESearchField, ESearchResultType, ISearchIndexEntry } from '../types/search.types';
+
+export type TSearchIndexDocument = ISearchIndexEntry & Document;
+
+export type TSearchIndexModel = Model<TSearchIndexDocument>;
+
+const SearchPostingSchema = new Schema(
+  {
+    term: {
+      type: String,
+      required: true
+    },
+    field: {
+      type: String,
+      enum: Object.values(ESearchField),
+      required: true
+    },
+    positions: {
+      type: [Number],
+      default: []
+    },
+    offsets: {
+      type: [Number],
+      default: []
+    }
+  },
+  { _id: false }
+);
+
+// One entry per searchable resource. Terms are the inverted index lookup key, postings
+// hold their frequencies and positions per field so matches are scored without reading
+// the field texts, which are only kept for previews.
+const SearchIndexSchema = new Schema<TSearchIndexDocument, TSearchIndexModel>(
+  {
+    entityType: {
+      type: String,
+      enum: Object.values(ESearchResultType),
+      required: true
+    },
+    entityId: {
+      type: String,
+      required: true
+    },
+    recordId: String,
+    recordTitle: String,
+    blockType: String,
+    workspaceId: String,
+    databaseId: {
+      type: String,
+      index: true
+    },
+    databaseType: String,
+    displayTitle: {
+      type: String,
+      default: ''
+    },
+    description: String,
+    fields: Object.fromEntries(
+      Object.values(ESearchField).map(field => [field, { type: String, default: '' }])
+    ),
+    terms: {
+      type: [String],
+      default: []
+    },
+    postings: {
+      type: [SearchPostingSchema],
+      default: undefined
+    },
+    fieldLengths: Object.fromEntries(
+      Object.values(ESearchField).map(field => [field, { type: Number, default: 0 }])
+    ),
+    createdBy: String,
+    tags: {
+      type: [String],
+      default: []
+    },
+    isPublic: {
+      type: Boolean,
+      default: false
+    },
+    isArchived: {
+      type: Boolean,
+      default: false
+    },
+    isTemplate: {
+      type: Boolean,
+      default: false
+    },
+    sourceCreatedAt: Date,
+    sourceUpdatedAt: Date,
+    indexedAt: {
+      type: Date,
+      default: Date.now
+    }
+  },
+  {
+    collection: 'search_index',
+    versionKey: false
+  }
+);
+
+SearchIndexSchema.index({ entityType: 1, entityId: 1 }, { unique: true });
+SearchIndexSchema.index({ terms: 1, workspaceId: 1 });
+SearchIndexSchema.index({ recordId: 1 });
+
+export const SearchIndexModel = mongoose.model<TSearchIndexDocument, TSearchIndexModel>(
+  'SearchIndex',
+  SearchIndexSchema
+);
+
+export default SearchIndexModel;
@@ -3,8 +3,16 @@ import {
   resolveWorkspaceContext,
   ensureDefaultWorkspace
 } from '@/modules/workspace/middleware/workspace.middleware';
-import { searchController } from '@/modules/search';
+import {
+  searchController,
+  savedSearchesController,
+  CreateSavedSearchSchema,
+  UpdateSavedSearchSchema,
+  SavedSearchesQuerySchema,
+  SavedSearchResultsQuerySchema
+} from '@/modules/search';
 import { authenticateToken } from '@/middlewares/auth';
+import { validateBody, validateQuery } from '@/middlewares/validation';
 
 const router = express.Router();
 
@@ -18,5 +26,30 @@ router.get('/records', searchController.searchRecords);
 router.get('/suggestions', searchController.getSearchSuggestions);
 router.get('/recent', searchController.getRecentSearches);
 router.get('/glimpse', searchController.getGlimpse);
+router.post('/index/rebuild', searchController.rebuildIndex);
+
+// Saved searches, shown as smart folders in the sidebar
+router.get(
+  '/saved',
+  validateQuery(SavedSearchesQuerySchema),
+  savedSearchesController.getSavedSearches
+);
+router.post(
+  '/saved',
+  validateBody(CreateSavedSearchSchema),
+  savedSearchesController.createSavedSearch
+);
+router.get('/saved/:id', savedSearchesController.getSavedSearch);
+router.patch(
+  '/saved/:id',
+  validateBody(UpdateSavedSearchSchema),
+  savedSearchesController.updateSavedSearch
+);
+router.delete('/saved/:id', savedSearchesController.deleteSavedSearch);
+router.get(
+  '/saved/:id/results',
+  validateQuery(SavedSearchResultsQuerySchema),
+  savedSearchesController.getSavedSearchResults
+);
 
 export default router;
@@ -0,0 +1,379 @@
+import { EDatabaseType } from '@/modules/core/types/database.types';
+import { EPropertyType, IProperty } from '@/modules/core/types/property.types';
+import {
+  EFilterCondition,
+  EFilterOperator,
+  IViewFilter
+} from '@/modules/database/types/views.types';
+import { generateId } from '@/utils/id-generator';
+import {
+  ESearchComparator,
+  ESearchScope,
+  ISearchPropertyQualifier,
+  IStructuredSearchQuery
+} from '../types/search.types';
+
+// key:value, key:>=value, -key:value, "key name":"value with spaces", or any other token
+const TOKEN_PATTERN =
+  /(-?)(?:"([^"]+)"|(\p{L}[\p{L}\p{N}_-]*)):(>=|<=|>|<|=)?(?:"([^"]*)"|([^\s"]+))|"[^"]*"|\S+/gu;
+
+const TYPE_SCOPES: Record<string, ESearchScope> = {
+  database: ESearchScope.DATABASES,
+  databases: ESearchScope.DATABASES,
+  record: ESearchScope.RECORDS,
+  records: ESearchScope.RECORDS,
+  block: ESearchScope.BLOCKS,
+  blocks: ESearchScope.BLOCKS,
+  template: ESearchScope.TEMPLATES,
+  templates: ESearchScope.TEMPLATES
+};
+
+const IS_FLAGS = ['archived', 'public', 'template'] as const;
+
+const NUMERIC_TYPES = [
+  EPropertyType.NUMBER,
+  EPropertyType.CURRENCY,
+  EPropertyType.PERCENT,
+  EPropertyType.ROLLUP,
+  EPropertyType.MOOD_SCALE
+];
+const OPTION_TYPES = [
+  EPropertyType.SELECT,
+  EPropertyType.MULTI_SELECT,
+  EPropertyType.STATUS,
+  EPropertyType.PRIORITY
+];
+const UNFILTERABLE_TYPES = [
+  EPropertyType.RELATION,
+  EPropertyType.FILE,
+  EPropertyType.FILES,
+  EPropertyType.LOOKUP
+];
+
+const ORDERING_CONDITIONS: Partial<Record<ESearchComparator, EFilterCondition>> = {
+  [ESearchComparator.GREATER_THAN]: EFilterCondition.GREATER_THAN,
+  [ESearchComparator.GREATER_THAN_OR_EQUAL]: EFilterCondition.GREATER_THAN_OR_EQUAL,
+  [ESearchComparator.LESS_THAN]: EFilterCondition.LESS_THAN,
+  [ESearchComparator.LESS_THAN_OR_EQUAL]: EFilterCondition.LESS_THAN_OR_EQUAL
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const escapeRegex = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const createFilter = (property: string, condition: EFilterCondition, value?: unknown) =>
+  ({ id: generateId(), property, condition, value, operator: EFilterOperator.AND }) as IViewFilter;
+
+// Half open [start, end) range of a day, month or year, in UTC
+const parseDateRange = (value: string): { start: Date; end: Date } | null => {
+  const today = new Date();
+  today.setUTCHours(0, 0, 0, 0);
+
+  const relativeDays: Record<string, number> = { yesterday: -1, today: 0, tomorrow: 1 };
+  if (value.toLowerCase() in relativeDays) {
+    const start = new Date(today.getTime() + relativeDays[value.toLowerCase()] * DAY);
+    return { start, end: new Date(start.getTime() + DAY) };
+  }
+
+  const match = /^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/.exec(value);
+  if (!match) return null;
+
+  const [, year, month, day] = match.map(Number);
+  const start = new Date(Date.UTC(year, month ? month - 1 : 0, day || 1));
+  const end = day
+    ? new Date(Date.UTC(year, month - 1, day + 1))
+    : month
+      ? new Date(Date.UTC(year, month, 1))
+      : new Date(Date.UTC(year + 1, 0, 1));
+
+  return isNaN(start.getTime()) ? null : { start, end };
+};
+
+// Bounds a comparison puts on a date, as a half open range
+const getDateBounds = (
+  comparator: ESearchComparator,
+  range: { start: Date; end: Date }
+): { start?: Date; end?: Date } => {
+  switch (comparator) {
+    case ESearchComparator.GREATER_THAN:
+      return { start: range.end };
+    case ESearchComparator.GREATER_THAN_OR_EQUAL:
+      return { start: range.start };
+    case ESearchComparator.LESS_THAN:
+      return { end: range.start };
+    case ESearchComparator.LESS_THAN_OR_EQUAL:
+      return { end: range.end };
+    default:
+      return range;
+  }
+};
+
+const toDateFilters = (
+  qualifier: ISearchPropertyQualifier,
+  property: string,
+  toValue: (date: Date) => unknown
+): IViewFilter[] | null => {
+  const range = parseDateRange(qualifier.value);
+  if (!range || qualifier.negated) return null;
+
+  const bounds = getDateBounds(qualifier.comparator, range);
+  return [
+    ...(bounds.start
+      ? [createFilter(property, EFilterCondition.GREATER_THAN_OR_EQUAL, toValue(bounds.start))]
+      : []),
+    ...(bounds.end ? [createFilter(property, EFilterCondition.LESS_THAN, toValue(bounds.end))] : [])
+  ];
+};
+
+// Options a qualifier selects, ordered comparisons follow the order options are listed in
+const getMatchingOptions = (qualifier: ISearchPropertyQualifier, property: IProperty) => {
+  const options = property.config?.options || [];
+  const value = qualifier.value.toLowerCase();
+  const index = options.findIndex(option =>
+    [option.id, option.value, option.label].some(field => field?.toLowerCase() === value)
+  );
+  if (index === -1) return [];
+
+  switch (qualifier.comparator) {
+    case ESearchComparator.GREATER_THAN:
+      return options.slice(index + 1);
+    case ESearchComparator.GREATER_THAN_OR_EQUAL:
+      return options.slice(index);
+    case ESearchComparator.LESS_THAN:
+      return options.slice(0, index);
+    case ESearchComparator.LESS_THAN_OR_EQUAL:
+      return options.slice(0, index + 1);
+    default:
+      return [options[index]];
+  }
+};
+
+/**
+ * Structured search query syntax: `status:done priority:>=high created:>2026-01-01
+ * tag:work in:tasks "exact phrase" -draft`. Reserved keys filter any resource, other
+ * keys are record property qualifiers resolved per database.
+ */
+export const searchQueryUtils = {
+  parse: (query: string): IStructuredSearchQuery => {
+    const parsed: IStructuredSearchQuery = {
+      text: '',
+      filters: {},
+      databaseNames: [],
+      properties: [],
+      errors: []
+    };
+    const text: string[] = [];
+
+    for (const match of query.matchAll(TOKEN_PATTERN)) {
+      const [token, minus, quotedKey, plainKey, comparatorToken, quotedValue, plainValue] = match;
+      const key = quotedKey ?? plainKey;
+      const value = quotedValue ?? plainValue;
+
+      // Not a qualifier, or a URL
+      if (key === undefined || value === undefined || value.startsWith('/')) {
+        text.push(token);
+        continue;
+      }
+
+      const negated = minus === '-';
+      const comparator = (comparatorToken as ESearchComparator) || ESearchComparator.EQUALS;
+      const isEquality = comparator === ESearchComparator.EQUALS;
+      const reserved = key.toLowerCase();
+      const filters = parsed.filters;
+
+      if (['in', 'tag', 'type'].includes(reserved) && (negated || !isEquality)) {
+        parsed.errors.push(`${token}: ${reserved}: only supports plain values`);
+        continue;
+      }
+
+      switch (reserved) {
+        case 'in': {
+          const databaseType = Object.values(EDatabaseType).find(
+            type => type === value.toLowerCase().replace(/-/g, '_')
+          );
+          if (databaseType) {
+            filters.databaseTypes = [...(filters.databaseTypes || []), databaseType];
+          } else {
+            parsed.databaseNames.push(value);
+          }
+          break;
+        }
+
+        case 'tag':
+          filters.tags = [...(filters.tags || []), value];
+          break;
+
+        case 'type':
+          if (TYPE_SCOPES[value.toLowerCase()]) {
+            parsed.scope = TYPE_SCOPES[value.toLowerCase()];
+          } else {
+            parsed.errors.push(`${token}: unknown type ${value}`);
+          }
+          break;
+
+        case 'is': {
+          const flag = IS_FLAGS.find(name => name === value.toLowerCase());
+          if (!flag || !isEquality) {
+            parsed.errors.push(`${token}: expected is:archived, is:public or is:template`);
+            break;
+          }
+          const field = { archived: 'isArchived', public: 'isPublic', template: 'isTemplate' }[
+            flag
+          ];
+          filters[field as 'isArchived' | 'isPublic' | 'isTemplate'] = !negated;
+          break;
+        }
+
+        case 'created':
+        case 'updated': {
+          const range = parseDateRange(value);
+          if (!range || negated) {
+            parsed.errors.push(`${token}: expected a date like 2026-01-31, 2026-01 or today`);
+            break;
+          }
+          const bounds = getDateBounds(comparator, range);
+          // Ranges on resources are inclusive
+          filters[reserved === 'created' ? 'dateRange' : 'updatedRange'] = {
+            start: bounds.start,
+            end: bounds.end && new Date(bounds.end.getTime() - 1)
+          };
+          break;
+        }
+
+        case 'has':
+        case 'no':
+          parsed.properties.push({
+            property: value,
+            comparator: ESearchComparator.EXISTS,
+            value: '',
+            negated: (reserved === 'no') !== negated
+          });
+          break;
+
+        default:
+          parsed.properties.push({ property: key, comparator, value, negated });
+      }
+    }
+
+    parsed.text = text.join(' ');
+    return parsed;
+  },
+
+  parseDateRange,
+
+  /**
+   * Property names match case insensitively, ignoring spaces, dashes and underscores
+   */
+  getPropertyNamePattern: (name: string): RegExp => {
+    const parts = name
+      .split(/[\s_-]+/)
+      .filter(Boolean)
+      .map(escapeRegex);
+    return new RegExp(`^\\s*${parts.join('[\\s_-]*')}\\s*$`, 'i');
+  },
+
+  /**
+   * View filters applying a qualifier to a property of a database, combined with AND.
+   * Returns null when the qualifier cannot match any record of the database.
+   */
+  toViewFilters: (
+    qualifier: ISearchPropertyQualifier,
+    property: IProperty
+  ): IViewFilter[] | null => {
+    const { comparator, negated } = qualifier;
+    const value = qualifier.value.trim();
+    const propertyId = property.id;
+
+    if (comparator === ESearchComparator.EXISTS) {
+      return [
+        createFilter(
+          propertyId,
+          negated ? EFilterCondition.IS_EMPTY : EFilterCondition.IS_NOT_EMPTY
+        )
+      ];
+    }
+
+    if (UNFILTERABLE_TYPES.includes(property.type)) return null;
+
+    // Record timestamps, filtered on the record itself
+    if (
+      property.type === EPropertyType.CREATED_TIME ||
+      property.type === EPropertyType.LAST_EDITED_TIME
+    ) {
+      const field = property.type === EPropertyType.CREATED_TIME ? 'created_at' : 'updated_at';
+      return toDateFilters(qualifier, field, date => date);
+    }
+
+    // Date properties hold ISO strings, which compare in date order
+    if (property.type === EPropertyType.DATE || property.type === EPropertyType.DATE_RANGE) {
+      return toDateFilters(qualifier, propertyId, date => date.toISOString().slice(0, 10));
+    }
+
+    if (property.type === EPropertyType.CHECKBOX) {
+      const checked = ['true', 'yes', 'checked', '1'].includes(value.toLowerCase());
+      const unchecked = ['false', 'no', 'unchecked', '0'].includes(value.toLowerCase());
+      if ((!checked && !unchecked) || comparator !== ESearchComparator.EQUALS) return null;
+
+      return [
+        createFilter(
+          propertyId,
+          checked !== negated ? EFilterCondition.EQUALS : EFilterCondition.NOT_EQUALS,
+          true
+        )
+      ];
+    }
+
+    if (OPTION_TYPES.includes(property.type) && property.config?.options?.length) {
+      const options = getMatchingOptions(qualifier, property);
+      if (options.length === 0) {
+        return negated ? [] : null;
+      }
+
+      // Records hold either the id or the value of an option
+      const accepted = Array.from(new Set(options.flatMap(option => [option.id, option.value])));
+      const pattern = `^(?:${accepted.map(escapeRegex).join('|')})$`;
+      return [
+        createFilter(
+          propertyId,
+          negated ? EFilterCondition.NOT_CONTAINS : EFilterCondition.CONTAINS,
+          pattern
+        )
+      ];
+    }
+
+    const number = Number(value);
+    const isNumeric =
+      NUMERIC_TYPES.includes(property.type) ||
+      (property.type === EPropertyType.FORMULA && value !== '' && !isNaN(number));
+
+    if (isNumeric) {
+      if (value === '' || isNaN(number)) return null;
+
+      const ordering = ORDERING_CONDITIONS[comparator];
+      if (ordering) {
+        return negated ? null : [createFilter(propertyId, ordering, number)];
+      }
+      return [
+        createFilter(
+          propertyId,
+          negated ? EFilterCondition.NOT_EQUALS : EFilterCondition.EQUALS,
+          number
+        )
+      ];
+    }
+
+    const ordering = ORDERING_CONDITIONS[comparator];
+    if (ordering) {
+      return negated ? null : [createFilter(propertyId, ordering, value)];
+    }
+
+    // Text matches anywhere in the value
+    return [
+      createFilter(
+        propertyId,
+        negated ? EFilterCondition.NOT_CONTAINS : EFilterCondition.CONTAINS,
+        escapeRegex(value)
+      )
+    ];
+  }
+};
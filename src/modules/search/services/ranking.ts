@@ -0,0 +1,207 @@
+import {
+  ESearchField,
+  IParsedSearchQuery,
+  ISearchIndexStats,
+  ISearchMatch,
+  ISearchMatchSpan,
+  ISearchPosting
+} from '../types/search.types';
+
+// BM25 saturation and length normalization
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+export const FIELD_BOOSTS: Record<ESearchField, number> = {
+  [ESearchField.TITLE]: 3,
+  [ESearchField.PROPERTIES]: 1.5,
+  [ESearchField.CONTENT]: 1
+};
+
+const FRAGMENT_LENGTH = 240;
+const FRAGMENT_LEAD = 60;
+
+/**
+ * BM25F ranking and highlighting of indexed entries
+ */
+export const rankingUtils = {
+  /**
+   * Inverse document frequency, never negative for very common terms
+   */
+  idf: (documentCount: number, documentFrequency: number): number => {
+    return Math.log(1 + (documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+  },
+
+  /**
+   * Score an entry against a query from its postings. Field term frequencies are boosted
+   * and length normalized before saturation, so a term repeated across fields is not
+   * counted twice. Returns null when a phrase of the query does not occur.
+   *
+   * @param fields fields to match, postings of other fields are ignored
+   * @param variants index terms standing in for a query term, for prefix matching
+   */
+  scoreEntry: (
+    postings: ISearchPosting[],
+    fieldLengths: Partial<Record<ESearchField, number>>,
+    fields: ESearchField[],
+    query: IParsedSearchQuery,
+    stats: ISearchIndexStats,
+    variants: Map<string, string[]> = new Map()
+  ): ISearchMatch | null => {
+    const match: ISearchMatch = { score: 0, matchedTerms: 0, spans: {} };
+    const byFieldTerm = new Map(
+      postings
+        .filter(posting => fields.includes(posting.field))
+        .map(posting => [`${posting.field}:${posting.term}`, posting])
+    );
+
+    const termIdf = (term: string): number => {
+      const forms = variants.get(term) || [term];
+      const documentFrequency = Math.max(
+        ...forms.map(form => stats.documentFrequencies[form] || 0)
+      );
+      return rankingUtils.idf(stats.documentCount, documentFrequency);
+    };
+
+    const addSpan = (field: ESearchField, span: ISearchMatchSpan) => {
+      match.spans[field] = [...(match.spans[field] || []), span];
+    };
+
+    const queryTerms = Array.from(
+      new Set([...query.terms, ...query.phrases.flatMap(phrase => phrase.map(p => p.term))])
+    );
+
+    for (const term of queryTerms) {
+      const forms = variants.get(term) || [term];
+      let weightedFrequency = 0;
+
+      fields.forEach(field => {
+        const matching = forms
+          .map(form => byFieldTerm.get(`${field}:${form}`))
+          .filter((posting): posting is ISearchPosting => !!posting);
+        const frequency = matching.reduce((sum, posting) => sum + posting.positions.length, 0);
+        if (frequency === 0) return;
+
+        const averageLength = stats.averageFieldLengths[field] || 1;
+        const lengthNorm = 1 - BM25_B + BM25_B * ((fieldLengths[field] || 0) / averageLength);
+        weightedFrequency += (FIELD_BOOSTS[field] * frequency) / lengthNorm;
+
+        matching.forEach(posting =>
+          posting.positions.forEach((_, i) =>
+            addSpan(field, { start: posting.offsets[2 * i], end: posting.offsets[2 * i + 1] })
+          )
+        );
+      });
+
+      if (weightedFrequency > 0) {
+        match.matchedTerms++;
+        match.score +=
+          (termIdf(term) * (weightedFrequency * (BM25_K1 + 1))) / (weightedFrequency + BM25_K1);
+      }
+    }
+
+    // Phrases must occur, each occurrence adds the idf of its words
+    for (const phrase of query.phrases) {
+      let occurrences = 0;
+
+      fields.forEach(field => {
+        const phrasePostings = phrase.map(p => byFieldTerm.get(`${field}:${p.term}`));
+        if (phrasePostings.some(posting => !posting)) return;
+
+        const indexes = phrasePostings.map(
+          posting => new Map(posting!.positions.map((position, i) => [position, i]))
+        );
+        const [first] = phrasePostings;
+        const last = phrasePostings[phrasePostings.length - 1]!;
+
+        first!.positions.forEach((position, i) => {
+          const found = phrase.map((p, k) => indexes[k].get(position + p.offset));
+          if (found.some(index => index === undefined)) return;
+
+          occurrences += FIELD_BOOSTS[field];
+          addSpan(field, {
+            start: first!.offsets[2 * i],
+            end: last.offsets[2 * found[found.length - 1]! + 1]
+          });
+        });
+      });
+
+      if (occurrences === 0) return null;
+
+      const phraseIdf = phrase.reduce((sum, p) => sum + termIdf(p.term), 0);
+      match.score += phraseIdf * Math.log1p(occurrences);
+    }
+
+    return match;
+  },
+
+  /**
+   * Merge overlapping spans, in text order
+   */
+  mergeSpans: (spans: ISearchMatchSpan[]): ISearchMatchSpan[] => {
+    const sorted = [...spans].sort((a, b) => a.start - b.start);
+    const merged: ISearchMatchSpan[] = [];
+
+    sorted.forEach(span => {
+      const last = merged[merged.length - 1];
+      if (last && span.start <= last.end) {
+        last.end = Math.max(last.end, span.end);
+      } else {
+        merged.push({ ...span });
+      }
+    });
+
+    return merged;
+  },
+
+  /**
+   * Wrap the matched spans of a text in mark tags
+   */
+  highlight: (text: string, spans: ISearchMatchSpan[], offset: number = 0): string => {
+    let highlighted = '';
+    let cursor = offset;
+
+    rankingUtils.mergeSpans(spans).forEach(span => {
+      highlighted += text.slice(cursor, span.start);
+      highlighted += `<mark>${text.slice(span.start, span.end)}</mark>`;
+      cursor = span.end;
+    });
+
+    return highlighted + text.slice(cursor);
+  },
+
+  /**
+   * Excerpt of a long text around its first match, plain and highlighted
+   */
+  createFragment: (
+    text: string,
+    spans: ISearchMatchSpan[],
+    maxLength: number = FRAGMENT_LENGTH
+  ): { value: string; highlighted: string } => {
+    const merged = rankingUtils.mergeSpans(spans);
+    const first = merged[0];
+
+    let start = first && text.length > maxLength ? Math.max(0, first.start - FRAGMENT_LEAD) : 0;
+    let end = Math.min(text.length, start + maxLength);
+
+    // Do not cut words at the edges
+    if (start > 0) {
+      const space = text.indexOf(' ', start);
+      if (space !== -1 && space < (first?.start ?? end)) start = space + 1;
+    }
+    if (end < text.length) {
+      const space = text.lastIndexOf(' ', end);
+      if (space > start) end = space;
+    }
+
+    const inside = merged
+      .filter(span => span.start >= start && span.end <= end)
+      .map(span => ({ ...span }));
+    const prefix = start > 0 ? '...' : '';
+    const suffix = end < text.length ? '...' : '';
+
+    return {
+      value: `${prefix}${text.slice(start, end)}${suffix}`,
+      highlighted: `${prefix}${rankingUtils.highlight(text.slice(0, end), inside, start)}${suffix}`
+    };
+  }
+};
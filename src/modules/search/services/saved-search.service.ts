@@ -0,0 +1,164 @@
+import { SavedSearchModel, TSavedSearchDocument } from '../models/saved-search.model';
+import {
+  ESearchScope,
+  ICreateSavedSearchRequest,
+  ISavedSearch,
+  ISearchOptions,
+  ISearchResults,
+  TUpdateSavedSearchRequest
+} from '../types/search.types';
+import { searchService } from './search.service';
+import { searchQueryUtils } from './query-parser';
+import { createNotFoundError, createValidationError } from '@/utils';
+
+const toSavedSearch = (document: TSavedSearchDocument): ISavedSearch => ({
+  id: document.id,
+  workspaceId: document.workspaceId,
+  name: document.name,
+  query: document.query,
+  scope: document.scope,
+  icon: document.icon,
+  color: document.color,
+  showInSidebar: document.showInSidebar,
+  order: document.order,
+  resultCount: document.resultCount,
+  lastRunAt: document.lastRunAt,
+  createdBy: document.createdBy,
+  createdAt: document.createdAt,
+  updatedAt: document.updatedAt
+});
+
+// Queries with syntax errors would silently match something else than intended
+const validateQuery = (query: string) => {
+  const { errors } = searchQueryUtils.parse(query);
+  if (errors.length > 0) {
+    throw createValidationError(
+      `Search query is invalid: ${errors.join(', ')}`,
+      errors.map(message => ({ field: 'query', message }))
+    );
+  }
+};
+
+const findSavedSearch = async (
+  workspaceId: string,
+  savedSearchId: string,
+  userId: string
+): Promise<TSavedSearchDocument> => {
+  const document = await SavedSearchModel.findOne({
+    _id: savedSearchId,
+    workspaceId,
+    createdBy: userId,
+    isDeleted: { $ne: true }
+  });
+  if (!document) {
+    throw createNotFoundError('Saved search', savedSearchId);
+  }
+
+  return document;
+};
+
+export const savedSearchService = {
+  listSavedSearches: async (
+    workspaceId: string,
+    userId: string,
+    sidebarOnly: boolean = false
+  ): Promise<ISavedSearch[]> => {
+    const documents = await SavedSearchModel.findByUser(workspaceId, userId);
+
+    return documents.filter(document => !sidebarOnly || document.showInSidebar).map(toSavedSearch);
+  },
+
+  getSavedSearch: async (
+    workspaceId: string,
+    savedSearchId: string,
+    userId: string
+  ): Promise<ISavedSearch> => {
+    return toSavedSearch(await findSavedSearch(workspaceId, savedSearchId, userId));
+  },
+
+  createSavedSearch: async (
+    workspaceId: string,
+    data: ICreateSavedSearchRequest,
+    userId: string
+  ): Promise<ISavedSearch> => {
+    validateQuery(data.query);
+
+    const order =
+      data.order ??
+      (await SavedSearchModel.countDocuments({
+        workspaceId,
+        createdBy: userId,
+        isDeleted: { $ne: true }
+      }));
+
+    const document = await SavedSearchModel.create({
+      workspaceId,
+      name: data.name,
+      query: data.query,
+      scope: data.scope || ESearchScope.ALL,
+      icon: data.icon,
+      color: data.color,
+      showInSidebar: data.showInSidebar ?? true,
+      order,
+      createdBy: userId,
+      updatedBy: userId
+    });
+
+    return toSavedSearch(document);
+  },
+
+  updateSavedSearch: async (
+    workspaceId: string,
+    savedSearchId: string,
+    updates: TUpdateSavedSearchRequest,
+    userId: string
+  ): Promise<ISavedSearch> => {
+    const document = await findSavedSearch(workspaceId, savedSearchId, userId);
+    if (updates.query !== undefined) {
+      validateQuery(updates.query);
+    }
+
+    document.set({ ...updates, updatedBy: userId });
+    await document.save();
+
+    return toSavedSearch(document);
+  },
+
+  deleteSavedSearch: async (
+    workspaceId: string,
+    savedSearchId: string,
+    userId: string
+  ): Promise<void> => {
+    await findSavedSearch(workspaceId, savedSearchId, userId);
+
+    await SavedSearchModel.findByIdAndUpdate(savedSearchId, {
+      isDeleted: true,
+      deletedAt: new Date(),
+      deletedBy: userId
+    });
+  },
+
+  /**
+   * Run a saved search in its workspace, the result count is kept for the sidebar
+   */
+  runSavedSearch: async (
+    workspaceId: string,
+    savedSearchId: string,
+    options: Pick<ISearchOptions, 'sortBy' | 'sortOrder' | 'limit' | 'offset'>,
+    userId: string
+  ): Promise<{ savedSearch: ISavedSearch; results: ISearchResults }> => {
+    const document = await findSavedSearch(workspaceId, savedSearchId, userId);
+
+    const results = await searchService.globalSearch(
+      document.query,
+      { ...options, scope: document.scope, filters: { workspaceId } },
+      userId
+    );
+
+    document.resultCount = results.total;
+    document.lastRunAt = new Date();
+    await document.save();
+
+    return { savedSearch: toSavedSearch(document), results };
+  }
+};
@@ -0,0 +1,810 @@
+import { FilterQuery, PipelineStage } from 'mongoose';
+import { DatabaseModel } from '@/modules/database/models/database.model';
+import { RecordModel } from '@/modules/database/models/record.model';
+import { WorkspaceMemberModel } from '@/modules/workspace/models/workspace-member.model';
+import { permissionService } from '../../permissions/services/permission.service';
+import { EShareScope, EPermissionLevel } from '@/modules/core/types/permission.types';
+import { SearchIndexModel, TSearchIndexDocument } from '../models/search-index.model';
+import { textAnalysisUtils } from './text-analysis';
+import { rankingUtils } from './ranking';
+import {
+  ESearchField,
+  ESearchResultType,
+  ESearchScope,
+  IRebuildSearchIndexResponse,
+  ISearchFilters,
+  ISearchIndexEntry,
+  ISearchIndexStats,
+  ISearchMatch,
+  ISearchOptions,
+  ISearchPosting,
+  ISearchResultItem
+} from '../types/search.types';
+
+// Longer texts are indexed up to this length
+const MAX_FIELD_LENGTH = 20000;
+// Results built per query. Every entry matching the query is scored, only the best
+// visible ones have their texts loaded for previews and highlights.
+const MAX_RESULTS = 1000;
+// Index terms a prefix expands to in fuzzy searches
+const MAX_PREFIX_VARIANTS = 50;
+const MIN_PREFIX_LENGTH = 2;
+// Corpus size and field lengths change slowly, they are shared between queries
+const STATS_CACHE_TTL = 60 * 1000;
+const CONTENT_PREVIEW_LENGTH = 500;
+
+const TITLE_PROPERTIES = ['Title', 'Name'];
+const DESCRIPTION_PROPERTIES = ['Description', 'Summary'];
+
+const SCOPE_TYPES: Record<ESearchScope, ESearchResultType[]> = {
+  [ESearchScope.ALL]: [
+    ESearchResultType.DATABASE,
+    ESearchResultType.RECORD,
+    ESearchResultType.BLOCK,
+    ESearchResultType.TEMPLATE
+  ],
+  [ESearchScope.DATABASES]: [ESearchResultType.DATABASE],
+  [ESearchScope.RECORDS]: [ESearchResultType.RECORD],
+  [ESearchScope.BLOCKS]: [ESearchResultType.BLOCK],
+  [ESearchScope.TEMPLATES]: [ESearchResultType.TEMPLATE],
+  [ESearchScope.USERS]: []
+};
+
+// Corpus statistics per workspace, the empty key holds those of the whole index
+const corpusStatsCache = new Map<
+  string,
+  { stats: Omit<ISearchIndexStats, 'documentFrequencies'>; loadedAt: number }
+>();
+
+// Workspaces whose index is being rebuilt on this instance
+const runningRebuilds = new Set<string>();
+
+type TIndexedFields = Partial<Record<ESearchField, string>>;
+type TEntrySource = Omit<
+  ISearchIndexEntry,
+  'fields' | 'terms' | 'postings' | 'fieldLengths' | 'indexedAt'
+>;
+
+// What scoring needs of an entry, postings are narrowed down to the query terms
+type TScoredEntry = Pick<
+  ISearchIndexEntry,
+  'entityType' | 'databaseId' | 'createdBy' | 'isPublic' | 'sourceUpdatedAt' | 'fieldLengths'
+> & { _id: unknown; postings: ISearchPosting[] | null };
+
+const escapeRegex = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const extractContentText = (blocks: any[]): string => {
+  if (!Array.isArray(blocks)) return '';
+
+  return blocks
+    .map(block => {
+      const richText = [...(block.content || []), ...(block.caption || [])];
+      const text = richText.map((item: any) => item.text?.content || item.plain_text || '');
+      return [...text, extractContentText(block.children || [])].filter(Boolean).join(' ');
+    })
+    .filter(Boolean)
+    .join('\n');
+};
+
+const extractPropertyText = (properties: Record<string, any>): string => {
+  const values: string[] = [];
+
+  const addValue = (value: any) => {
+    if (typeof value === 'string') {
+      values.push(value);
+    } else if (value && typeof value === 'object' && typeof value.label === 'string') {
+      values.push(value.label);
+    }
+  };
+
+  Object.entries(properties || {}).forEach(([name, value]) => {
+    if (TITLE_PROPERTIES.includes(name)) return;
+    if (Array.isArray(value)) {
+      value.forEach(addValue);
+    } else {
+      addValue(value);
+    }
+  });
+
+  return values.join('\n');
+};
+
+const getRecordTitle = (properties: Record<string, any>): string => {
+  const title = TITLE_PROPERTIES.map(name => properties?.[name]).find(
+    value => typeof value === 'string' && value.trim()
+  );
+  return title || 'Untitled';
+};
+
+const analyzeFields = (
+  fields: TIndexedFields
+): { postings: ISearchPosting[]; fieldLengths: Record<ESearchField, number> } => {
+  const postings: ISearchPosting[] = [];
+  const fieldLengths = {} as Record<ESearchField, number>;
+
+  Object.values(ESearchField).forEach(field => {
+    const tokens = textAnalysisUtils.analyze(fields[field] || '');
+    const byTerm = new Map<string, ISearchPosting>();
+
+    tokens.forEach(token => {
+      let posting = byTerm.get(token.term);
+      if (!posting) {
+        posting = { term: token.term, field, positions: [], offsets: [] };
+        byTerm.set(token.term, posting);
+        postings.push(posting);
+      }
+      posting.positions.push(token.position);
+      posting.offsets.push(token.start, token.end);
+    });
+
+    fieldLengths[field] = tokens.length;
+  });
+
+  return { postings, fieldLengths };
+};
+
+const createEntry = (source: TEntrySource, indexedFields: TIndexedFields): ISearchIndexEntry => {
+  const fields = Object.fromEntries(
+    Object.values(ESearchField).map(field => [
+      field,
+      (indexedFields[field] || '').slice(0, MAX_FIELD_LENGTH)
+    ])
+  ) as Record<ESearchField, string>;
+  const { postings, fieldLengths } = analyzeFields(fields);
+  const terms = Array.from(new Set(postings.map(posting => posting.term)));
+
+  return { ...source, fields, fieldLengths, terms, postings, indexedAt: new Date() };
+};
+
+const upsertEntries = async (entries: ISearchIndexEntry[]): Promise<void> => {
+  if (entries.length === 0) return;
+
+  await SearchIndexModel.bulkWrite(
+    entries.map(entry => ({
+      updateOne: {
+        filter: { entityType: entry.entityType, entityId: entry.entityId },
+        update: { $set: entry },
+        upsert: true
+      }
+    }))
+  );
+};
+
+const applyFilters = (query: FilterQuery<TSearchIndexDocument>, filters: ISearchFilters) => {
+  if (filters.workspaceId) {
+    query.workspaceId = filters.workspaceId;
+  }
+  if (filters.databaseTypes?.length) {
+    query.databaseType = { $in: filters.databaseTypes };
+  }
+  if (filters.databaseIds?.length) {
+    query.databaseId = { $in: filters.databaseIds };
+  }
+  if (filters.createdBy) {
+    query.createdBy = filters.createdBy;
+  }
+  if (filters.dateRange?.start || filters.dateRange?.end) {
+    query.sourceCreatedAt = {
+      ...(filters.dateRange.start && { $gte: filters.dateRange.start }),
+      ...(filters.dateRange.end && { $lte: filters.dateRange.end })
+    };
+  }
+  if (filters.updatedRange?.start || filters.updatedRange?.end) {
+    query.sourceUpdatedAt = {
+      ...(filters.updatedRange.start && { $gte: filters.updatedRange.start }),
+      ...(filters.updatedRange.end && { $lte: filters.updatedRange.end })
+    };
+  }
+  if (filters.tags?.length) {
+    query.tags = { $in: filters.tags };
+  }
+  if (filters.isPublic !== undefined) {
+    query.isPublic = filters.isPublic;
+  }
+  if (filters.isArchived !== undefined) {
+    query.isArchived = filters.isArchived;
+  }
+  if (filters.isTemplate !== undefined) {
+    query.isTemplate = filters.isTemplate;
+  }
+  if (filters.recordIds) {
+    query.recordId = { $in: filters.recordIds };
+  }
+};
+
+// Whether filters narrow a search down beyond the workspace it runs in
+const hasFilters = (filters: ISearchFilters): boolean =>
+  Object.entries(filters).some(([key, value]) => key !== 'workspaceId' && value !== undefined);
+
+// Projection of what scoring needs, postings narrowed down to the given terms. Entries
+// indexed before postings were stored get `postings: null`.
+const scoringProjection = (terms: string[]): PipelineStage.Project => {
+  const projection: Record<string, unknown> = {
+    entityType: 1,
+    databaseId: 1,
+    createdBy: 1,
+    isPublic: 1,
+    sourceUpdatedAt: 1,
+    fieldLengths: 1,
+    postings: {
+      $cond: [
+        { $isArray: '$postings' },
+        {
+          $filter: { input: '$postings', as: 'posting', cond: { $in: ['$$posting.term', terms] } }
+        },
+        null
+      ]
+    }
+  };
+  return { $project: projection } as PipelineStage.Project;
+};
+
+// Index terms of the workspace starting with each query term, so partially typed words
+// still match
+const expandPrefixes = async (
+  terms: string[],
+  workspaceId?: string
+): Promise<Map<string, string[]>> => {
+  const variants = new Map<string, string[]>();
+
+  for (const term of terms) {
+    if (term.length < MIN_PREFIX_LENGTH) continue;
+
+    const prefix = new RegExp(`^${escapeRegex(term)}`);
+    const indexed: string[] = await SearchIndexModel.distinct('terms', {
+      terms: prefix,
+      ...(workspaceId && { workspaceId })
+    });
+    const matching = indexed.filter(candidate => prefix.test(candidate));
+
+    variants.set(
+      term,
+      Array.from(new Set([term, ...matching.sort((a, b) => a.length - b.length)])).slice(
+        0,
+        MAX_PREFIX_VARIANTS
+      )
+    );
+  }
+
+  return variants;
+};
+
+// Corpus statistics of the workspace a search runs in, or of the whole index
+const getIndexStats = async (terms: string[], workspaceId?: string): Promise<ISearchIndexStats> => {
+  const scope = workspaceId ? { workspaceId } : {};
+  let cached = corpusStatsCache.get(workspaceId || '');
+
+  if (!cached || Date.now() - cached.loadedAt > STATS_CACHE_TTL) {
+    const [corpus] = await SearchIndexModel.aggregate([
+      { $match: scope },
+      {
+        $group: {
+          _id: null,
+          documentCount: { $sum: 1 },
+          ...Object.fromEntries(
+            Object.values(ESearchField).map(field => [field, { $avg: `$fieldLengths.${field}` }])
+          )
+        }
+      }
+    ]);
+
+    cached = {
+      stats: {
+        documentCount: corpus?.documentCount || 0,
+        averageFieldLengths: Object.fromEntries(
+          Object.values(ESearchField).map(field => [field, corpus?.[field] || 0])
+        ) as Record<ESearchField, number>
+      },
+      loadedAt: Date.now()
+    };
+    corpusStatsCache.set(workspaceId || '', cached);
+  }
+
+  const frequencies = await Promise.all(
+    terms.map(term => SearchIndexModel.countDocuments({ ...scope, terms: term }))
+  );
+
+  return {
+    ...cached.stats,
+    documentFrequencies: Object.fromEntries(terms.map((term, i) => [term, frequencies[i]]))
+  };
+};
+
+/**
+ * Inverted index of databases, records, record blocks and templates. Entries are
+ * rebuilt from their source whenever it is written, failures are logged and never
+ * fail the write itself.
+ */
+export const searchIndexService = {
+  /**
+   * Index a record and its top level blocks, or remove them when the record is gone
+   */
+  indexRecord: async (recordId: string): Promise<void> => {
+    try {
+      const record = await RecordModel.findById(recordId);
+      const database =
+        record &&
+        (await DatabaseModel.findById(record.databaseId).select('type workspaceId isPublic'));
+
+      if (!record || record.isDeleted || !database || (database as any).isDeleted) {
+        await searchIndexService.removeRecord(recordId);
+        return;
+      }
+
+      const properties = record.properties || {};
+      const title = getRecordTitle(properties);
+      const description = DESCRIPTION_PROPERTIES.map(name => properties[name]).find(
+        value => typeof value === 'string'
+      );
+      const blocks = record.content || [];
+
+      const shared = {
+        workspaceId: database.workspaceId?.toString(),
+        databaseId: record.databaseId.toString(),
+        databaseType: database.type,
+        recordId: record.id,
+        recordTitle: title,
+        createdBy: record.createdBy,
+        tags: record.autoTags || [],
+        isPublic: database.isPublic,
+        isArchived: record.isArchived,
+        isTemplate: record.isTemplate,
+        sourceCreatedAt: record.createdAt,
+        sourceUpdatedAt: record.updatedAt
+      };
+
+      const recordEntry = createEntry(
+        {
+          ...shared,
+          entityType: ESearchResultType.RECORD,
+          entityId: record.id,
+          displayTitle: title,
+          description
+        },
+        {
+          [ESearchField.TITLE]: title,
+          [ESearchField.PROPERTIES]: extractPropertyText(properties),
+          [ESearchField.CONTENT]: extractContentText(blocks)
+        }
+      );
+
+      const blockEntries = blocks
+        .map(block => ({ block, text: extractContentText([block]) }))
+        .filter(({ text }) => text.trim())
+        .map(({ block, text }) =>
+          createEntry(
+            {
+              ...shared,
+              entityType: ESearchResultType.BLOCK,
+              entityId: `${record.id}-${block.id}`,
+              blockType: block.type,
+              displayTitle: `${title} - ${block.type}`,
+              description: text.substring(0, 200)
+            },
+            { [ESearchField.CONTENT]: text }
+          )
+        );
+
+      await upsertEntries([recordEntry, ...blockEntries]);
+      await SearchIndexModel.deleteMany({
+        entityType: ESearchResultType.BLOCK,
+        recordId: record.id,
+        entityId: { $nin: blockEntries.map(entry => entry.entityId) }
+      });
+    } catch (error) {
+      console.error('Failed to index record:', error);
+    }
+  },
+
+  removeRecord: async (recordId: string): Promise<void> => {
+    try {
+      await SearchIndexModel.deleteMany({
+        $or: [{ entityType: ESearchResultType.RECORD, entityId: recordId }, { recordId }]
+      });
+    } catch (error) {
+      console.error('Failed to remove record from search index:', error);
+    }
+  },
+
+  /**
+   * Index a database. Visibility is copied onto the entries of its records, the
+   * records themselves are re-indexed when they were written in bulk.
+   */
+  indexDatabase: async (databaseId: string, includeRecords: boolean = false): Promise<void> => {
+    try {
+      const database = await DatabaseModel.findById(databaseId);
+      if (!database || (database as any).isDeleted) {
+        await searchIndexService.removeDatabase(databaseId);
+        return;
+      }
+
+      const workspaceId = database.workspaceId?.toString();
+      const entry = createEntry(
+        {
+          entityType: ESearchResultType.DATABASE,
+          entityId: database.id,
+          workspaceId,
+          databaseId: database.id,
+          databaseType: database.type,
+          displayTitle: database.name,
+          description: database.description,
+          createdBy: database.createdBy,
+          tags: (database as any).tags || [],
+          isPublic: database.isPublic,
+          isArchived: database.isArchived,
+          isTemplate: database.isTemplate,
+          sourceCreatedAt: database.createdAt,
+          sourceUpdatedAt: database.updatedAt
+        },
+        {
+          [ESearchField.TITLE]: database.name,
+          [ESearchField.PROPERTIES]: database.description
+        }
+      );
+
+      await upsertEntries([entry]);
+      await SearchIndexModel.updateMany(
+        { databaseId: database.id, entityType: { $ne: ESearchResultType.DATABASE } },
+        { $set: { workspaceId, databaseType: database.type, isPublic: database.isPublic } }
+      );
+
+      if (includeRecords) {
+        const records = await RecordModel.find({ databaseId, isDeleted: { $ne: true } }).select(
+          '_id'
+        );
+        for (const record of records) {
+          await searchIndexService.indexRecord(record.id);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to index database:', error);
+    }
+  },
+
+  removeDatabase: async (databaseId: string): Promise<void> => {
+    try {
+      await SearchIndexModel.deleteMany({ databaseId });
+    } catch (error) {
+      console.error('Failed to remove database from search index:', error);
+    }
+  },
+
+  indexTemplate: async (templateId: string): Promise<void> => {
+    try {
+      const { TemplateModel } = await import('@/modules/templates/models/template.model');
+      const { ETemplateAccess } = await import('@/modules/templates/types/template.types');
+
+      const template = await TemplateModel.findById(templateId);
+      if (!template || template.isDeleted) {
+        await searchIndexService.removeTemplate(templateId);
+        return;
+      }
+
+      const entry = createEntry(
+        {
+          entityType: ESearchResultType.TEMPLATE,
+          entityId: template.id,
+          workspaceId: (template as any).workspaceId?.toString(),
+          displayTitle: template.name,
+          description: template.description,
+          createdBy: template.createdBy,
+          tags: template.tags || [],
+          isPublic: template.access === ETemplateAccess.PUBLIC || template.isOfficial,
+          isArchived: false,
+          isTemplate: true,
+          sourceCreatedAt: template.createdAt,
+          sourceUpdatedAt: template.updatedAt
+        },
+        {
+          [ESearchField.TITLE]: template.name,
+          [ESearchField.PROPERTIES]: [
+            template.description,
+            template.category,
+            ...(template.tags || [])
+          ]
+            .filter(Boolean)
+            .join('\n')
+        }
+      );
+
+      await upsertEntries([entry]);
+    } catch (error) {
+      console.error('Failed to index template:', error);
+    }
+  },
+
+  removeTemplate: async (templateId: string): Promise<void> => {
+    try {
+      await SearchIndexModel.deleteMany({
+        entityType: ESearchResultType.TEMPLATE,
+        entityId: templateId
+      });
+    } catch (error) {
+      console.error('Failed to remove template from search index:', error);
+    }
+  },
+
+  /**
+   * Re-index every database and record of a workspace, and the templates created by its
+   * members, or everything when no workspace is given. Entries whose source no longer
+   * exists are dropped.
+   */
+  rebuildIndex: async (workspaceId?: string): Promise<IRebuildSearchIndexResponse> => {
+    const startedAt = new Date();
+    const { TemplateModel } = await import('@/modules/templates/models/template.model');
+
+    const databases = await DatabaseModel.find({
+      isDeleted: { $ne: true },
+      ...(workspaceId && { workspaceId })
+    }).select('_id');
+    const databaseIds = databases.map(database => database.id);
+
+    // Templates belong to the users who created them, not to a workspace
+    const memberIds = workspaceId
+      ? (await WorkspaceMemberModel.findByWorkspace(workspaceId)).map(member => member.userId)
+      : [];
+
+    const records = await RecordModel.find({
+      databaseId: { $in: databaseIds },
+      isDeleted: { $ne: true }
+    }).select('_id');
+    const templates = await TemplateModel.find({
+      isDeleted: { $ne: true },
+      ...(workspaceId && { createdBy: { $in: memberIds } })
+    }).select('_id');
+
+    for (const databaseId of databaseIds) {
+      await searchIndexService.indexDatabase(databaseId);
+    }
+    for (const record of records) {
+      await searchIndexService.indexRecord(record.id);
+    }
+    for (const template of templates) {
+      await searchIndexService.indexTemplate(template.id);
+    }
+
+    await SearchIndexModel.deleteMany({
+      indexedAt: { $lt: startedAt },
+      ...(workspaceId && {
+        $or: [
+          { workspaceId, entityType: { $ne: ESearchResultType.TEMPLATE } },
+          { entityType: ESearchResultType.TEMPLATE, createdBy: { $in: memberIds } }
+        ]
+      })
+    });
+    corpusStatsCache.clear();
+
+    return { databases: databaseIds.length, records: records.length, templates: templates.length };
+  },
+
+  /**
+   * Rebuild the index of a workspace in the background. Returns false when a rebuild of
+   * the workspace is already running on this instance.
+   */
+  startRebuild: (workspaceId: string): boolean => {
+    if (runningRebuilds.has(workspaceId)) return false;
+    runningRebuilds.add(workspaceId);
+
+    setImmediate(async () => {
+      try {
+        await searchIndexService.rebuildIndex(workspaceId);
+      } catch (error) {
+        console.error(`Failed to rebuild search index of workspace ${workspaceId}:`, error);
+      } finally {
+        runningRebuilds.delete(workspaceId);
+      }
+    });
+
+    return true;
+  },
+
+  /**
+   * Find entries matching a free text query, ranked by BM25F. Every word and phrase
+   * has to occur, words prefixed with a minus must not. Terms are case folded and
+   * stemmed, so matching is always case insensitive. Every match is scored, the best
+   * visible ones are returned. Queries made of filters only list the entries matching
+   * the filters, most recently updated first.
+   */
+  search: async (
+    query: string,
+    options: Required<ISearchOptions>,
+    userId: string
+  ): Promise<ISearchResultItem[]> => {
+    const parsed = textAnalysisUtils.parseQuery(query);
+    const required = Array.from(
+      new Set([...parsed.terms, ...parsed.phrases.flatMap(phrase => phrase.map(p => p.term))])
+    );
+    const filtersOnly = required.length === 0;
+    // Blocks are only listed when their text matches
+    const types = SCOPE_TYPES[options.scope].filter(
+      type => !filtersOnly || type !== ESearchResultType.BLOCK
+    );
+    if (types.length === 0) return [];
+    if (filtersOnly && !hasFilters(options.filters)) return [];
+
+    const variants = options.fuzzy
+      ? await expandPrefixes(parsed.terms, options.filters.workspaceId)
+      : new Map<string, string[]>();
+    const forms = Array.from(new Set(required.flatMap(term => variants.get(term) || [term])));
+
+    const termConditions = [
+      ...required.map(term => ({ terms: { $in: variants.get(term) || [term] } })),
+      ...(parsed.excluded.length > 0 ? [{ terms: { $nin: parsed.excluded } }] : [])
+    ];
+    const filter: FilterQuery<TSearchIndexDocument> = {
+      entityType: { $in: types },
+      ...(termConditions.length > 0 && { $and: termConditions })
+    };
+    applyFilters(filter, options.filters);
+
+    const fields = Object.values(ESearchField).filter(
+      field => options.includeContent || field !== ESearchField.CONTENT
+    );
+
+    // Databases of the matches, with whether the user may read them
+    const databaseNames = new Map<string, string>();
+    const readable = new Map<string, boolean>();
+    const loadDatabases = async (entries: Pick<ISearchIndexEntry, 'databaseId'>[]) => {
+      const databaseIds = Array.from(
+        new Set(entries.map(entry => entry.databaseId).filter(Boolean))
+      ) as string[];
+      const databases = await DatabaseModel.find({ _id: { $in: databaseIds } }).select('name');
+      databases.forEach(database => databaseNames.set(database.id, database.name));
+    };
+    const isVisible = async (
+      entry: Pick<ISearchIndexEntry, 'databaseId' | 'createdBy' | 'isPublic'>
+    ): Promise<boolean> => {
+      const isOwner = entry.createdBy === userId;
+      if (!entry.databaseId) return isOwner || entry.isPublic;
+      if (!databaseNames.has(entry.databaseId)) return false;
+
+      if (!readable.has(entry.databaseId)) {
+        readable.set(
+          entry.databaseId,
+          await permissionService.hasPermission(
+            EShareScope.DATABASE,
+            entry.databaseId,
+            userId,
+            EPermissionLevel.READ
+          )
+        );
+      }
+      return readable.get(entry.databaseId) || isOwner || entry.isPublic;
+    };
+
+    let ranked: Array<{ entry: ISearchIndexEntry; match: ISearchMatch }>;
+
+    if (filtersOnly) {
+      const entries = await SearchIndexModel.find(filter)
+        .select('-postings')
+        .sort({ sourceUpdatedAt: -1 })
+        .limit(MAX_RESULTS)
+        .lean<ISearchIndexEntry[]>();
+      await loadDatabases(entries);
+
+      ranked = [];
+      for (const entry of entries) {
+        if (await isVisible(entry)) {
+          ranked.push({ entry, match: { score: 0, matchedTerms: 0, spans: {} } });
+        }
+      }
+    } else {
+      // Every match is scored from the postings of the query terms, so older entries
+      // rank as well as recent ones whatever the size of the workspace
+      const candidates = await SearchIndexModel.aggregate<TScoredEntry>([
+        { $match: filter },
+        scoringProjection(forms)
+      ]);
+      if (candidates.length === 0) return [];
+
+      // Entries indexed before postings were stored are analyzed from their texts
+      const legacyIds = candidates.filter(entry => !entry.postings).map(entry => entry._id);
+      if (legacyIds.length > 0) {
+        const legacy = await SearchIndexModel.find({ _id: { $in: legacyIds } })
+          .select('fields')
+          .lean<Array<Pick<ISearchIndexEntry, 'fields'> & { _id: unknown }>>();
+        const analyzed = new Map(
+          legacy.map(entry => [String(entry._id), analyzeFields(entry.fields || {})])
+        );
+
+        candidates.forEach(entry => {
+          if (entry.postings) return;
+          const { postings, fieldLengths } = analyzed.get(String(entry._id)) || analyzeFields({});
+          entry.postings = postings.filter(posting => forms.includes(posting.term));
+          entry.fieldLengths = fieldLengths;
+        });
+      }
+
+      const stats = await getIndexStats(forms, options.filters.workspaceId);
+      const matches = candidates
+        .map(entry => ({
+          entry,
+          match: rankingUtils.scoreEntry(
+            entry.postings || [],
+            entry.fieldLengths || {},
+            fields,
+            parsed,
+            stats,
+            variants
+          )
+        }))
+        .filter(
+          (scored): scored is { entry: TScoredEntry; match: ISearchMatch } =>
+            !!scored.match && scored.match.matchedTerms === required.length
+        );
+      await loadDatabases(matches.map(({ entry }) => entry));
+
+      const visible: typeof matches = [];
+      for (const scored of matches) {
+        if (await isVisible(scored.entry)) visible.push(scored);
+      }
+      const best = visible.sort((a, b) => b.match.score - a.match.score).slice(0, MAX_RESULTS);
+
+      const entries = await SearchIndexModel.find({
+        _id: { $in: best.map(({ entry }) => entry._id) }
+      })
+        .select('-postings -terms')
+        .lean<Array<ISearchIndexEntry & { _id: unknown }>>();
+      const entriesById = new Map(entries.map(entry => [String(entry._id), entry]));
+
+      ranked = best
+        .map(({ entry, match }) => ({ entry: entriesById.get(String(entry._id))!, match }))
+        .filter(({ entry }) => !!entry);
+    }
+
+    const results: ISearchResultItem[] = [];
+
+    for (const { entry, match } of ranked) {
+      const matchedFields = fields.filter(field => match.spans[field]?.length);
+      const previewField = [ESearchField.CONTENT, ESearchField.PROPERTIES].find(field =>
+        matchedFields.includes(field)
+      );
+      const databaseName = entry.databaseId ? databaseNames.get(entry.databaseId) : undefined;
+      const workspaceId = entry.workspaceId || 'global';
+
+      const path = {
+        [ESearchResultType.DATABASE]: `${workspaceId}/${entry.displayTitle}`,
+        [ESearchResultType.RECORD]: `${workspaceId}/${databaseName}/${entry.recordTitle}`,
+        [ESearchResultType.BLOCK]: `${workspaceId}/${databaseName}/${entry.recordTitle}/${entry.blockType}`,
+        [ESearchResultType.TEMPLATE]: `Templates/${entry.displayTitle}`,
+        [ESearchResultType.USER]: entry.displayTitle
+      }[entry.entityType];
+
+      results.push({
+        id: entry.entityId,
+        type: entry.entityType,
+        title: entry.displayTitle,
+        description: entry.description,
+        content: options.includeContent
+          ? entry.fields?.content?.substring(0, CONTENT_PREVIEW_LENGTH)
+          : undefined,
+        preview: previewField
+          ? rankingUtils.createFragment(entry.fields[previewField], match.spans[previewField]!)
+              .value
+          : entry.description,
+        score: Math.round(match.score * 1000) / 1000,
+        highlights: options.includeHighlights
+          ? matchedFields.map(field => ({
+              field,
+              ...rankingUtils.createFragment(entry.fields[field], match.spans[field]!)
+            }))
+          : undefined,
+        metadata: {
+          databaseId: entry.databaseId,
+          databaseName,
+          databaseType: entry.databaseType,
+          workspaceId,
+          createdBy: entry.createdBy || '',
+          createdAt: entry.sourceCreatedAt || entry.indexedAt,
+          updatedAt: entry.sourceUpdatedAt || entry.indexedAt,
+          tags: entry.tags,
+          isPublic: entry.isPublic,
+          isArchived: entry.isArchived,
+          path
+        }
+      });
+    }
+
+    return filtersOnly ? results : results.sort((a, b) => b.score - a.score);
+  }
+};
@@ -1,25 +1,33 @@
 import { DatabaseModel } from '@/modules/database/models/database.model';
+import { PropertyModel } from '@/modules/database/models/property.model';
 import { RecordModel } from '@/modules/database/models/record.model';
-import { TemplateModel } from '@/modules/templates/models/template.model';
-import { permissionService } from '../../permissions/services/permission.service';
-import { EShareScope, EPermissionLevel } from '@/modules/core/types/permission.types';
+import { viewsService } from '@/modules/database/services/views.services';
+import { IViewFilter } from '@/modules/database/types/views.types';
 import {
+  ISearchFilters,
   ISearchOptions,
+  ISearchPropertyQualifier,
   ISearchResults,
   ISearchResultItem,
   ISearchSuggestion,
   IRecentSearch,
-  ISearchAnalytics,
   ESearchScope,
   ESearchResultType,
-  ISearchFilters,
   SearchHistoryModel
 } from '@/modules/search';
-import { EDatabaseType } from '@/modules/database';
+import { searchIndexService } from './search-index.service';
+import { searchQueryUtils } from './query-parser';
+
+// Records a structured query may narrow the index down to
+const MAX_QUALIFIED_RECORDS = 5000;
+
+const escapeRegex = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 
 export const searchService = {
   /**
-   * Global search across all resources
+   * Global search across all resources. Qualifiers in the query (`status:done`,
+   * `created:>2026-01-01`, `in:tasks`) are applied as filters, the rest is matched
+   * against the search index.
    */
   globalSearch: async function (
     query: string,
@@ -27,11 +35,13 @@ export const searchService = {
     userId: string
   ): Promise<ISearchResults> {
     const startTime = Date.now();
+    const parsedQuery = searchQueryUtils.parse(query);
+    const filters: ISearchFilters = { ...options.filters, ...parsedQuery.filters };
 
     // Set defaults
     const searchOptions: Required<ISearchOptions> = {
-      scope: options.scope || ESearchScope.ALL,
-      filters: options.filters || {},
+      scope: parsedQuery.scope || options.scope || ESearchScope.ALL,
+      filters,
       fuzzy: options.fuzzy || false,
       caseSensitive: options.caseSensitive || false,
       includeContent: options.includeContent !== false,
@@ -42,43 +52,39 @@ export const searchService = {
       offset: options.offset || 0
     };
 
-    // Build search regex
-    const searchRegex = new RegExp(
-      searchOptions.fuzzy ? this.buildFuzzyPattern(query) : this.escapeRegex(query),
-      searchOptions.caseSensitive ? 'g' : 'gi'
-    );
+    let hasMatches = true;
+
+    if (parsedQuery.databaseNames.length > 0) {
+      const databases = await DatabaseModel.find({
+        name: {
+          $in: parsedQuery.databaseNames.map(name => new RegExp(`^${escapeRegex(name)}$`, 'i'))
+        },
+        isDeleted: { $ne: true },
+        ...(filters.workspaceId && { workspaceId: filters.workspaceId })
+      }).select('_id');
+      const databaseIds = databases.map(database => database.id as string);
+
+      filters.databaseIds = filters.databaseIds?.length
+        ? filters.databaseIds.filter(id => databaseIds.includes(id))
+        : databaseIds;
+      hasMatches = filters.databaseIds.length > 0;
+    }
 
-    let allResults: ISearchResultItem[] = [];
-
-    // Search based on scope
-    switch (searchOptions.scope) {
-      case ESearchScope.ALL:
-        const [databases, records, blocks, templates] = await Promise.all([
-          this.searchDatabases(searchRegex, searchOptions, userId),
-          this.searchRecords(searchRegex, searchOptions, userId),
-          this.searchBlocks(searchRegex, searchOptions, userId),
-          this.searchTemplates(searchRegex, searchOptions, userId)
-        ]);
-        allResults = [...databases, ...records, ...blocks, ...templates];
-        break;
-
-      case ESearchScope.DATABASES:
-        allResults = await this.searchDatabases(searchRegex, searchOptions, userId);
-        break;
-
-      case ESearchScope.RECORDS:
-        allResults = await this.searchRecords(searchRegex, searchOptions, userId);
-        break;
-
-      case ESearchScope.BLOCKS:
-        allResults = await this.searchBlocks(searchRegex, searchOptions, userId);
-        break;
-
-      case ESearchScope.TEMPLATES:
-        allResults = await this.searchTemplates(searchRegex, searchOptions, userId);
-        break;
+    if (hasMatches && parsedQuery.properties.length > 0) {
+      const { recordIds, errors } = await this.resolveQualifiedRecords(
+        parsedQuery.properties,
+        filters,
+        userId
+      );
+      filters.recordIds = recordIds;
+      parsedQuery.errors.push(...errors);
+      hasMatches = recordIds.length > 0;
     }
 
+    let allResults = hasMatches
+      ? await searchIndexService.search(parsedQuery.text, searchOptions, userId)
+      : [];
+
     // Sort results
     allResults = this.sortResults(allResults, searchOptions.sortBy, searchOptions.sortOrder);
 
@@ -110,322 +116,11 @@ export const searchService = {
       filters: searchOptions.filters,
       facets,
       suggestions: suggestions.slice(0, 5), // Limit suggestions
+      parsedQuery,
       executionTime
     };
   },
 
-  /**
-   * Search databases
-   */
-  searchDatabases: async function (
-    searchRegex: RegExp,
-    options: Required<ISearchOptions>,
-    userId: string
-  ): Promise<ISearchResultItem[]> {
-    const query: any = {
-      isDeleted: { $ne: true },
-      $or: [{ name: searchRegex }, { description: searchRegex }]
-    };
-
-    // Apply filters
-    this.applyFilters(query, options.filters);
-
-    const databases = await DatabaseModel.find(query)
-      .sort({ updatedAt: -1 })
-      .limit(1000) // Reasonable limit for performance
-      .exec();
-
-    const results: ISearchResultItem[] = [];
-
-    for (const db of databases) {
-      // Check permissions
-      const hasAccess = await permissionService.hasPermission(
-        EShareScope.DATABASE,
-        db.id,
-        userId,
-        EPermissionLevel.READ
-      );
-
-      if (!hasAccess && db.createdBy !== userId && !db.isPublic) {
-        continue;
-      }
-
-      const score = this.calculateRelevanceScore(
-        [db.name, db.description || ''].join(' '),
-        searchRegex
-      );
-
-      results.push({
-        id: db.id,
-        type: ESearchResultType.DATABASE,
-        title: db.name,
-        description: db.description,
-        score,
-        highlights: options.includeHighlights
-          ? this.generateHighlights({ name: db.name, description: db.description }, searchRegex)
-          : undefined,
-        metadata: {
-          databaseId: db.id,
-          databaseName: db.name,
-          databaseType: db.type,
-          workspaceId: db.workspaceId,
-          createdBy: db.createdBy,
-          createdAt: db.createdAt,
-          updatedAt: db.updatedAt,
-          tags: (db as any).tags,
-          isPublic: db.isPublic,
-          isArchived: db.isArchived,
-          path: `${db.workspaceId}/${db.name}`
-        }
-      });
-    }
-
-    return results;
-  },
-
-  /**
-   * Search records
-   */
-  searchRecords: async function (
-    searchRegex: RegExp,
-    options: Required<ISearchOptions>,
-    userId: string
-  ): Promise<ISearchResultItem[]> {
-    const query: any = {
-      isDeleted: { $ne: true }
-    };
-
-    // Build search conditions for properties
-    const searchConditions: any[] = [];
-
-    // Search in common property fields
-    const commonFields = ['Title', 'Name', 'Description', 'Content', 'Note', 'Summary'];
-    commonFields.forEach(field => {
-      searchConditions.push({ [`properties.${field}`]: searchRegex });
-    });
-
-    // Search in content if enabled
-    if (options.includeContent) {
-      searchConditions.push({ 'content.content.text.content': searchRegex });
-    }
-
-    query.$or = searchConditions;
-
-    // Apply filters
-    this.applyFilters(query, options.filters);
-
-    const records = await RecordModel.find(query)
-      .populate('databaseId', 'name type workspaceId isPublic')
-      .sort({ updatedAt: -1 })
-      .limit(1000)
-      .exec();
-
-    const results: ISearchResultItem[] = [];
-
-    for (const record of records) {
-      // Check database permissions
-      const database = record.databaseId as any;
-      if (!database) continue;
-
-      const hasAccess = await permissionService.hasPermission(
-        EShareScope.DATABASE,
-        database.id,
-        userId,
-        EPermissionLevel.READ
-      );
-
-      if (!hasAccess && record.createdBy !== userId && !database.isPublic) {
-        continue;
-      }
-
-      const title = record.properties.Title || record.properties.Name || 'Untitled';
-      const description = record.properties.Description || record.properties.Summary || '';
-      const content = options.includeContent ? this.extractContentText(record.content || []) : '';
-
-      const score = this.calculateRelevanceScore(
-        [title, description, content].join(' '),
-        searchRegex
-      );
-
-      results.push({
-        id: record.id,
-        type: ESearchResultType.RECORD,
-        title: title as string,
-        description: description as string,
-        content: content.substring(0, 500), // Limit content preview
-        preview: this.generatePreview([title, description, content].join(' '), searchRegex),
-        score,
-        highlights: options.includeHighlights
-          ? this.generateHighlights({ title, description, content }, searchRegex)
-          : undefined,
-        metadata: {
-          databaseId: database.id,
-          databaseName: database.name,
-          databaseType: database.type,
-          workspaceId: database.workspaceId,
-          createdBy: record.createdBy,
-          createdAt: record.createdAt,
-          updatedAt: record.updatedAt,
-          tags: record.autoTags,
-          isPublic: database.isPublic,
-          isArchived: record.isArchived,
-          path: `${database.workspaceId}/${database.name}/${title}`
-        }
-      });
-    }
-
-    return results;
-  },
-
-  /**
-   * Search blocks (content within records)
-   */
-  searchBlocks: async function (
-    searchRegex: RegExp,
-    options: Required<ISearchOptions>,
-    userId: string
-  ): Promise<ISearchResultItem[]> {
-    // Search within record content blocks
-    const query: any = {
-      isDeleted: { $ne: true },
-      $or: [
-        { 'content.content.text.content': searchRegex },
-        { 'content.content.plain_text': searchRegex }
-      ]
-    };
-
-    // Apply filters
-    this.applyFilters(query, options.filters);
-
-    const records = await RecordModel.find(query)
-      .populate('databaseId', 'name type workspaceId isPublic')
-      .limit(500)
-      .exec();
-
-    const results: ISearchResultItem[] = [];
-
-    for (const record of records) {
-      const database = record.databaseId as any;
-      if (!database) continue;
-
-      // Check permissions
-      const hasAccess = await permissionService.hasPermission(
-        EShareScope.DATABASE,
-        database.id,
-        userId,
-        EPermissionLevel.READ
-      );
-
-      if (!hasAccess && record.createdBy !== userId && !database.isPublic) {
-        continue;
-      }
-
-      // Search through content blocks
-      const matchingBlocks = (record.content || []).filter(block => {
-        const blockContent = this.extractContentText([block]);
-        return searchRegex.test(blockContent);
-      });
-
-      for (const block of matchingBlocks) {
-        const content = this.extractContentText([block]);
-        const title = record.properties.Title || record.properties.Name || 'Untitled';
-
-        const score = this.calculateRelevanceScore(content, searchRegex);
-
-        results.push({
-          id: `${record.id}-${block.id}`,
-          type: ESearchResultType.BLOCK,
-          title: `${title} - ${block.type}`,
-          description: content.substring(0, 200),
-          content: content.substring(0, 500),
-          preview: this.generatePreview(content, searchRegex),
-          score,
-          highlights: options.includeHighlights
-            ? this.generateHighlights({ content }, searchRegex)
-            : undefined,
-          metadata: {
-            databaseId: database.id,
-            databaseName: database.name,
-            databaseType: database.type,
-            workspaceId: database.workspaceId,
-            createdBy: record.createdBy,
-            createdAt: record.createdAt,
-            updatedAt: record.updatedAt,
-            isPublic: database.isPublic,
-            path: `${database.workspaceId}/${database.name}/${title}/${block.type}`
-          }
-        });
-      }
-    }
-
-    return results;
-  },
-
-  /**
-   * Search templates
-   */
-  searchTemplates: async function (
-    searchRegex: RegExp,
-    options: Required<ISearchOptions>,
-    userId: string
-  ): Promise<ISearchResultItem[]> {
-    const query: any = {
-      isDeleted: { $ne: true },
-      $or: [
-        { name: searchRegex },
-        { description: searchRegex },
-        { 'content.name': searchRegex },
-        { 'content.description': searchRegex }
-      ]
-    };
-
-    // Apply filters
-    this.applyFilters(query, options.filters);
-
-    const templates = await TemplateModel.find(query).sort({ updatedAt: -1 }).limit(200).exec();
-
-    const results: ISearchResultItem[] = [];
-
-    for (const template of templates) {
-      const templateAny = template as any;
-
-      // Check if template is public or user has access
-      if (!templateAny.isPublic && template.createdBy !== userId) {
-        continue;
-      }
-
-      const score = this.calculateRelevanceScore(
-        [template.name, template.description || ''].join(' '),
-        searchRegex
-      );
-
-      results.push({
-        id: template.id,
-        type: ESearchResultType.TEMPLATE,
-        title: template.name,
-        description: template.description,
-        score,
-        highlights: options.includeHighlights
-          ? this.generateHighlights(
-              { name: template.name, description: template.description },
-              searchRegex
-            )
-          : undefined,
-        metadata: {
-          workspaceId: templateAny.workspaceId || 'global',
-          createdBy: template.createdBy,
-          createdAt: template.createdAt,
-          updatedAt: template.updatedAt,
-          tags: template.tags,
-          isPublic: templateAny.isPublic,
-          path: `Templates/${template.name}`
-        }
-      });
-    }
-
-    return results;
-  },
-
   /**
    * Get search suggestions
    */
@@ -483,60 +178,69 @@ export const searchService = {
   },
 
   // Helper methods
-  buildFuzzyPattern: function (query: string): string {
-    return query.split('').join('.*?');
-  },
+  /**
+   * Records matching every property qualifier. A qualifier applies to each database
+   * having a property of that name, databases missing one of them are left out.
+   */
+  resolveQualifiedRecords: async function (
+    qualifiers: ISearchPropertyQualifier[],
+    filters: ISearchFilters,
+    userId: string
+  ): Promise<{ recordIds: string[]; errors: string[] }> {
+    const databases = await DatabaseModel.find({
+      isDeleted: { $ne: true },
+      ...(filters.workspaceId && { workspaceId: filters.workspaceId }),
+      ...(filters.databaseTypes?.length && { type: { $in: filters.databaseTypes } }),
+      ...(filters.databaseIds?.length && { _id: { $in: filters.databaseIds } })
+    }).select('_id');
 
-  escapeRegex: function (text: string): string {
-    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-  },
+    const patterns = qualifiers.map(qualifier =>
+      searchQueryUtils.getPropertyNamePattern(qualifier.property)
+    );
+    const properties = await PropertyModel.find({
+      databaseId: { $in: databases.map(database => database.id) },
+      name: { $in: patterns }
+    });
 
-  applyFilters: function (query: any, filters: ISearchFilters): void {
-    if (filters.workspaceId) {
-      query.workspaceId = filters.workspaceId;
-    }
-    if (filters.databaseTypes?.length) {
-      query.type = { $in: filters.databaseTypes };
-    }
-    if (filters.databaseIds?.length) {
-      query.databaseId = { $in: filters.databaseIds };
-    }
-    if (filters.createdBy) {
-      query.createdBy = filters.createdBy;
-    }
-    if (filters.dateRange) {
-      query.createdAt = {
-        $gte: filters.dateRange.start,
-        $lte: filters.dateRange.end
-      };
-    }
-    if (filters.tags?.length) {
-      query.tags = { $in: filters.tags };
-    }
-    if (filters.isPublic !== undefined) {
-      query.isPublic = filters.isPublic;
-    }
-    if (filters.isArchived !== undefined) {
-      query.isArchived = filters.isArchived;
-    }
-    if (filters.isTemplate !== undefined) {
-      query.isTemplate = filters.isTemplate;
-    }
-  },
+    const errors = qualifiers
+      .filter((_, i) => !properties.some(property => patterns[i].test(property.name)))
+      .map(qualifier => `No database has a property named ${qualifier.property}`);
+    if (errors.length > 0) return { recordIds: [], errors };
 
-  calculateRelevanceScore: function (text: string, searchRegex: RegExp): number {
-    const matches = text.match(searchRegex);
-    if (!matches) return 0;
+    const recordIds: string[] = [];
 
-    // Simple scoring based on match count and position
-    let score = matches.length * 10;
+    for (const database of databases) {
+      const databaseProperties = properties.filter(
+        property => property.databaseId.toString() === database.id
+      );
+      const viewFilters: IViewFilter[] = [];
+      let applicable = true;
+
+      for (const [i, qualifier] of qualifiers.entries()) {
+        const property = databaseProperties.find(candidate => patterns[i].test(candidate.name));
+        const propertyFilters = property && searchQueryUtils.toViewFilters(qualifier, property);
+        if (!propertyFilters) {
+          applicable = false;
+          break;
+        }
+        viewFilters.push(...propertyFilters);
+      }
+      if (!applicable) continue;
 
-    // Boost score if match is at the beginning
-    if (text.toLowerCase().startsWith(matches[0].toLowerCase())) {
-      score += 50;
+      const filterQuery = await viewsService.buildFilterQuery(viewFilters, database.id, userId);
+      const records = await RecordModel.find({
+        databaseId: database.id,
+        isDeleted: { $ne: true },
+        ...filterQuery
+      })
+        .select('_id')
+        .limit(MAX_QUALIFIED_RECORDS - recordIds.length);
+
+      recordIds.push(...records.map(record => record.id as string));
+      if (recordIds.length >= MAX_QUALIFIED_RECORDS) break;
     }
 
-    return Math.min(score, 100);
+    return { recordIds, errors };
   },
 
   sortResults: function (
@@ -549,11 +253,11 @@ export const searchService = {
 
       switch (sortBy) {
         case 'relevance':
-          comparison = b.score - a.score;
+          comparison = a.score - b.score;
           break;
         case 'date':
           comparison =
-            new Date(b.metadata.updatedAt).getTime() - new Date(a.metadata.updatedAt).getTime();
+            new Date(a.metadata.updatedAt).getTime() - new Date(b.metadata.updatedAt).getTime();
           break;
         case 'name':
           comparison = a.title.localeCompare(b.title);
@@ -624,53 +328,6 @@ export const searchService = {
     return facets;
   },
 
-  generateHighlights: function (
-    fields: Record<string, any>,
-    searchRegex: RegExp
-  ): Array<{ field: string; value: string; highlighted: string }> {
-    const highlights: Array<{ field: string; value: string; highlighted: string }> = [];
-
-    Object.entries(fields).forEach(([field, value]) => {
-      if (typeof value === 'string' && value.match(searchRegex)) {
-        highlights.push({
-          field,
-          value,
-          highlighted: value.replace(searchRegex, '<mark>$&</mark>')
-        });
-      }
-    });
-
-    return highlights;
-  },
-
-  generatePreview: function (text: string, searchRegex: RegExp, maxLength: number = 200): string {
-    const match = text.match(searchRegex);
-    if (!match) return text.substring(0, maxLength);
-
-    const matchIndex = text.indexOf(match[0]);
-    const start = Math.max(0, matchIndex - 100);
-    const end = Math.min(text.length, matchIndex + match[0].length + 100);
-
-    let preview = text.substring(start, end);
-    if (start > 0) preview = '...' + preview;
-    if (end < text.length) preview = preview + '...';
-
-    return preview;
-  },
-
-  extractContentText: function (content: any[]): string {
-    if (!content || !Array.isArray(content)) return '';
-
-    return content
-      .map(block => {
-        if (block.content && Array.isArray(block.content)) {
-          return block.content.map((item: any) => item.text?.content || '').join(' ');
-        }
-        return '';
-      })
-      .join(' ');
-  },
-
   saveSearchHistory: async function (
     userId: string,
     query: string,
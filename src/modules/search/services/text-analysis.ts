@@ -0,0 +1,250 @@
+import { IAnalyzedToken, IParsedSearchQuery } from '../types/search.types';
+
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:['’][\p{L}]+)?/gu;
+const PHRASE_PATTERN = /"([^"]*)"/g;
+const MIN_STEM_LENGTH = 3;
+
+const STOP_WORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'are',
+  'as',
+  'at',
+  'be',
+  'but',
+  'by',
+  'for',
+  'if',
+  'in',
+  'into',
+  'is',
+  'it',
+  'no',
+  'not',
+  'of',
+  'on',
+  'or',
+  'such',
+  'that',
+  'the',
+  'their',
+  'then',
+  'there',
+  'these',
+  'they',
+  'this',
+  'to',
+  'was',
+  'will',
+  'with'
+]);
+
+// Porter stemmer (M.F. Porter, 1980)
+const STEP2_SUFFIXES: Record<string, string> = {
+  ational: 'ate',
+  tional: 'tion',
+  enci: 'ence',
+  anci: 'ance',
+  izer: 'ize',
+  bli: 'ble',
+  alli: 'al',
+  entli: 'ent',
+  eli: 'e',
+  ousli: 'ous',
+  ization: 'ize',
+  ation: 'ate',
+  ator: 'ate',
+  alism: 'al',
+  iveness: 'ive',
+  fulness: 'ful',
+  ousness: 'ous',
+  aliti: 'al',
+  iviti: 'ive',
+  biliti: 'ble',
+  logi: 'log'
+};
+
+const STEP3_SUFFIXES: Record<string, string> = {
+  icate: 'ic',
+  ative: '',
+  alize: 'al',
+  iciti: 'ic',
+  ical: 'ic',
+  ful: '',
+  ness: ''
+};
+
+const CONSONANT = '[^aeiou]';
+const VOWEL = '[aeiouy]';
+const CONSONANTS = `${CONSONANT}[^aeiouy]*`;
+const VOWELS = `${VOWEL}[aeiou]*`;
+
+const MEASURE_GT_0 = new RegExp(`^(${CONSONANTS})?${VOWELS}${CONSONANTS}`);
+const MEASURE_EQ_1 = new RegExp(`^(${CONSONANTS})?${VOWELS}${CONSONANTS}(${VOWELS})?$`);
+const MEASURE_GT_1 = new RegExp(`^(${CONSONANTS})?${VOWELS}${CONSONANTS}${VOWELS}${CONSONANTS}`);
+const HAS_VOWEL = new RegExp(`^(${CONSONANTS})?${VOWEL}`);
+const ENDS_CVC = new RegExp(`^${CONSONANTS}${VOWEL}[^aeiouwxy]$`);
+
+const stem = (word: string): string => {
+  if (word.length < MIN_STEM_LENGTH || !/^[a-z]+$/.test(word)) return word;
+
+  // An initial y is a consonant
+  const startsWithY = word[0] === 'y';
+  let w = startsWithY ? `Y${word.slice(1)}` : word;
+  let match: RegExpExecArray | null;
+
+  // Step 1a: plurals
+  if ((match = /^(.+?)(ss|i)es$/.exec(w))) {
+    w = match[1] + match[2];
+  } else if ((match = /^(.+?)([^s])s$/.exec(w))) {
+    w = match[1] + match[2];
+  }
+
+  // Step 1b: past tense and gerunds
+  if ((match = /^(.+?)eed$/.exec(w))) {
+    if (MEASURE_GT_0.test(match[1])) w = w.slice(0, -1);
+  } else if ((match = /^(.+?)(ed|ing)$/.exec(w)) && HAS_VOWEL.test(match[1])) {
+    w = match[1];
+    if (/(at|bl|iz)$/.test(w)) {
+      w += 'e';
+    } else if (/([^aeiouylsz])\1$/.test(w)) {
+      w = w.slice(0, -1);
+    } else if (ENDS_CVC.test(w)) {
+      w += 'e';
+    }
+  }
+
+  // Step 1c: terminal y
+  if ((match = /^(.+?)y$/.exec(w)) && HAS_VOWEL.test(match[1])) {
+    w = `${match[1]}i`;
+  }
+
+  // Step 2: double suffixes
+  match =
+    /^(.+?)(ational|tional|enci|anci|izer|bli|alli|entli|eli|ousli|ization|ation|ator|alism|iveness|fulness|ousness|aliti|iviti|biliti|logi)$/.exec(
+      w
+    );
+  if (match && MEASURE_GT_0.test(match[1])) {
+    w = match[1] + STEP2_SUFFIXES[match[2]];
+  }
+
+  // Step 3
+  match = /^(.+?)(icate|ative|alize|iciti|ical|ful|ness)$/.exec(w);
+  if (match && MEASURE_GT_0.test(match[1])) {
+    w = match[1] + STEP3_SUFFIXES[match[2]];
+  }
+
+  // Step 4: remaining suffixes
+  if (
+    (match =
+      /^(.+?)(al|ance|ence|er|ic|able|ible|ant|ement|ment|ent|ou|ism|ate|iti|ous|ive|ize)$/.exec(w))
+  ) {
+    if (MEASURE_GT_1.test(match[1])) w = match[1];
+  } else if ((match = /^(.+?)(s|t)(ion)$/.exec(w))) {
+    if (MEASURE_GT_1.test(match[1] + match[2])) w = match[1] + match[2];
+  }
+
+  // Step 5: final e and double l
+  if ((match = /^(.+?)e$/.exec(w))) {
+    const base = match[1];
+    if (MEASURE_GT_1.test(base) || (MEASURE_EQ_1.test(base) && !ENDS_CVC.test(base))) {
+      w = base;
+    }
+  }
+  if (/ll$/.test(w) && MEASURE_GT_1.test(w)) {
+    w = w.slice(0, -1);
+  }
+
+  return startsWithY ? `y${w.slice(1)}` : w;
+};
+
+/**
+ * Text analysis shared by indexing and querying, so both sides produce the same terms
+ */
+export const textAnalysisUtils = {
+  /**
+   * Case fold and strip diacritics
+   */
+  normalize: (word: string): string => {
+    return word
+      .normalize('NFD')
+      .replace(/\p{M}/gu, '')
+      .toLowerCase()
+      .replace(/['’]s$/, '')
+      .replace(/['’]/g, '');
+  },
+
+  stem,
+
+  isStopWord: (word: string): boolean => STOP_WORDS.has(word),
+
+  /**
+   * Split text into stemmed terms. Stop words are dropped but keep their position,
+   * so phrases match with the same gaps they were written with.
+   */
+  analyze: (text: string): IAnalyzedToken[] => {
+    const tokens: IAnalyzedToken[] = [];
+    let position = 0;
+
+    for (const match of text.matchAll(WORD_PATTERN)) {
+      const word = textAnalysisUtils.normalize(match[0]);
+      if (!textAnalysisUtils.isStopWord(word)) {
+        tokens.push({
+          term: stem(word),
+          position,
+          start: match.index!,
+          end: match.index! + match[0].length
+        });
+      }
+      position++;
+    }
+
+    return tokens;
+  },
+
+  /**
+   * Unique terms of a text
+   */
+  getTerms: (text: string): string[] => {
+    return Array.from(new Set(textAnalysisUtils.analyze(text).map(token => token.term)));
+  },
+
+  /**
+   * Parse a free text query. Quoted text is a phrase, a leading minus excludes a word.
+   */
+  parseQuery: (query: string): IParsedSearchQuery => {
+    const phrases: IParsedSearchQuery['phrases'] = [];
+
+    const remainder = query.replace(PHRASE_PATTERN, (_match, phrase: string) => {
+      const tokens = textAnalysisUtils.analyze(phrase);
+      if (tokens.length === 1) return ` ${phrase} `;
+
+      if (tokens.length > 1) {
+        phrases.push(
+          tokens.map(token => ({
+            term: token.term,
+            offset: token.position - tokens[0].position
+          }))
+        );
+      }
+      return ' ';
+    });
+
+    const terms: string[] = [];
+    const excluded: string[] = [];
+
+    remainder
+      .split(/\s+/)
+      .filter(Boolean)
+      .forEach(word => {
+        const isExcluded = word.startsWith('-') && word.length > 1;
+        const target = isExcluded ? excluded : terms;
+        textAnalysisUtils.getTerms(isExcluded ? word.slice(1) : word).forEach(term => {
+          if (!target.includes(term)) target.push(term);
+        });
+      });
+
+    return { terms, phrases, excluded };
+  }
+};
@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { EDatabaseType } from '@/modules/database';
+import { EDatabaseType } from '@/modules/core/types/database.types';
 
 // Search scopes
 export enum ESearchScope {
@@ -27,13 +27,19 @@ export interface ISearchFilters {
   databaseIds?: string[];
   createdBy?: string;
   dateRange?: {
-    start: Date;
-    end: Date;
+    start?: Date;
+    end?: Date;
+  };
+  updatedRange?: {
+    start?: Date;
+    end?: Date;
   };
   tags?: string[];
   isPublic?: boolean;
   isArchived?: boolean;
   isTemplate?: boolean;
+  // Records matching the property qualifiers of a structured query
+  recordIds?: string[];
 }
 
 // Search options
@@ -94,6 +100,7 @@ export interface ISearchResults {
     dateRanges: Array<{ range: string; count: number }>;
   };
   suggestions?: string[];
+  parsedQuery?: IStructuredSearchQuery;
   executionTime: number;
 }
 
@@ -130,6 +137,129 @@ export interface ISearchAnalytics {
   }>;
 }
 
+// Indexed fields, boosted in this order
+export enum ESearchField {
+  TITLE = 'title',
+  PROPERTIES = 'properties',
+  CONTENT = 'content'
+}
+
+// Token of analyzed text, offsets point into the original text
+export interface IAnalyzedToken {
+  term: string;
+  position: number;
+  start: number;
+  end: number;
+}
+
+// Free text query split into terms, quoted phrases and excluded terms
+export interface IParsedSearchQuery {
+  terms: string[];
+  phrases: Array<Array<{ term: string; offset: number }>>;
+  excluded: string[];
+}
+
+// Occurrences of a term in a field. Offsets hold the start and end of each occurrence
+// in the field text, in pairs, so matches are highlighted without analyzing the text again.
+export interface ISearchPosting {
+  term: string;
+  field: ESearchField;
+  positions: number[];
+  offsets: number[];
+}
+
+// Indexed entry of a searchable resource
+export interface ISearchIndexEntry {
+  entityType: ESearchResultType;
+  entityId: string;
+  recordId?: string;
+  recordTitle?: string;
+  blockType?: string;
+  workspaceId?: string;
+  databaseId?: string;
+  databaseType?: EDatabaseType;
+  displayTitle: string;
+  description?: string;
+  fields: Record<ESearchField, string>;
+  terms: string[];
+  postings: ISearchPosting[];
+  fieldLengths: Record<ESearchField, number>;
+  createdBy?: string;
+  tags: string[];
+  isPublic: boolean;
+  isArchived: boolean;
+  isTemplate: boolean;
+  sourceCreatedAt?: Date;
+  sourceUpdatedAt?: Date;
+  indexedAt: Date;
+}
+
+// Corpus statistics for BM25 scoring
+export interface ISearchIndexStats {
+  documentCount: number;
+  averageFieldLengths: Record<ESearchField, number>;
+  documentFrequencies: Record<string, number>;
+}
+
+// Text span of a match, offsets into the field text
+export interface ISearchMatchSpan {
+  start: number;
+  end: number;
+}
+
+// Score of an indexed entry with the spans that matched per field
+export interface ISearchMatch {
+  score: number;
+  matchedTerms: number;
+  spans: Partial<Record<ESearchField, ISearchMatchSpan[]>>;
+}
+
+// Comparison of a qualifier value, a plain `status:done` compares for equality
+export enum ESearchComparator {
+  EQUALS = '=',
+  GREATER_THAN = '>',
+  GREATER_THAN_OR_EQUAL = '>=',
+  LESS_THAN = '<',
+  LESS_THAN_OR_EQUAL = '<=',
+  EXISTS = 'exists'
+}
+
+// Qualifier on a record property, applied to every database with a property of that name
+export interface ISearchPropertyQualifier {
+  property: string;
+  comparator: ESearchComparator;
+  value: string;
+  negated: boolean;
+}
+
+// Query split into free text, resource filters and record property qualifiers
+export interface IStructuredSearchQuery {
+  text: string;
+  scope?: ESearchScope;
+  filters: ISearchFilters;
+  databaseNames: string[];
+  properties: ISearchPropertyQualifier[];
+  errors: string[];
+}
+
+// Saved search, shown as a smart folder in the sidebar
+export interface ISavedSearch {
+  id: string;
+  workspaceId: string;
+  name: string;
+  query: string;
+  scope: ESearchScope;
+  icon?: string;
+  color?: string;
+  showInSidebar: boolean;
+  order: number;
+  resultCount?: number;
+  lastRunAt?: Date;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 // Validation schemas
 export const SearchScopeSchema = z.enum(ESearchScope);
 
@@ -207,6 +337,29 @@ export const RecentSearchesQuerySchema = z.object({
   scope: SearchScopeSchema.optional()
 });
 
+export const CreateSavedSearchSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100),
+  query: z.string().min(1, 'Search query is required').max(500, 'Query too long'),
+  scope: SearchScopeSchema.optional(),
+  icon: z.string().max(50).optional(),
+  color: z.string().max(20).optional(),
+  showInSidebar: z.boolean().optional(),
+  order: z.number().int().min(0).optional()
+});
+
+export const UpdateSavedSearchSchema = CreateSavedSearchSchema.partial();
+
+export const SavedSearchesQuerySchema = z.object({
+  sidebar: z.enum(['true', 'false']).optional()
+});
+
+export const SavedSearchResultsQuerySchema = z.object({
+  sortBy: z.enum(['relevance', 'date', 'name', 'type']).optional(),
+  sortOrder: z.enum(['asc', 'desc']).optional(),
+  limit: z.coerce.number().min(1).max(100).optional(),
+  offset: z.coerce.number().min(0).optional()
+});
+
 // Request/Response types
 export interface IGlobalSearchRequest {
   query: string;
@@ -220,6 +373,18 @@ export interface ISearchSuggestionsRequest {
   limit?: number;
 }
 
+export interface ICreateSavedSearchRequest {
+  name: string;
+  query: string;
+  scope?: ESearchScope;
+  icon?: string;
+  color?: string;
+  showInSidebar?: boolean;
+  order?: number;
+}
+
+export type TUpdateSavedSearchRequest = Partial<ICreateSavedSearchRequest>;
+
 export interface IRecentSearchesRequest {
   limit?: number;
   scope?: ESearchScope;
@@ -238,3 +403,9 @@ export interface IRecentSearchesResponse {
 }
 
 export interface ISearchAnalyticsResponse extends ISearchAnalytics {}
+
+export interface IRebuildSearchIndexResponse {
+  databases: number;
+  records: number;
+  templates: number;
+}
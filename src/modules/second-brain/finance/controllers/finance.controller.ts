@@ -6,6 +6,10 @@ import {
   updateTransaction,
   deleteTransaction
 } from '@/modules/second-brain/finance/services/finance.service';
+import {
+  confirmDraftTransaction,
+  getCashFlowForecast
+} from '@/modules/second-brain/finance/services/recurring-transactions.service';
 import { getUserId } from '@/modules/auth';
 import { catchAsync, sendSuccessResponse, sendPaginatedResponse } from '@/utils';
 import {
@@ -257,6 +261,17 @@ export const verifyTransactionController = catchAsync(
   }
 );
 
+export const confirmTransactionController = catchAsync(
+  async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const userId = getUserId(req);
+
+    const transaction = await confirmDraftTransaction(id, userId);
+
+    sendSuccessResponse(res, 'Transaction confirmed successfully', transaction);
+  }
+);
+
 export const duplicateTransactionController = catchAsync(
   async (req: Request, res: Response): Promise<void> => {
     const { id } = req.params;
@@ -375,3 +390,21 @@ export const getFinanceStatsController = catchAsync(
     sendSuccessResponse(res, 'Finance statistics retrieved successfully', stats);
   }
 );
+
+export const getCashFlowForecastController = catchAsync(
+  async (req: Request, res: Response): Promise<void> => {
+    const { databaseId, months, accountId } = req.query;
+    const userId = getUserId(req);
+
+    const forecast = await getCashFlowForecast(
+      {
+        databaseId: databaseId as string,
+        months: months ? parseInt(months as string, 10) : 3,
+        accountId: accountId as string | undefined
+      },
+      userId
+    );
+
+    sendSuccessResponse(res, 'Cash flow forecast retrieved successfully', forecast);
+  }
+);
@@ -0,0 +1,92 @@
+import { Request, Response } from 'express';
+import {
+  previewStatementImport,
+  commitStatementImport
+} from '@/modules/second-brain/finance/services/statement-import.service';
+import {
+  createMerchantRule,
+  getMerchantRules,
+  updateMerchantRule,
+  deleteMerchantRule
+} from '@/modules/second-brain/finance/services/merchant-rules.service';
+import { getUserId } from '@/modules/auth';
+import { catchAsync, sendSuccessResponse } from '@/utils';
+import { createBadRequestError } from '@/utils/error.utils';
+import {
+  ICommitStatementImportRequest,
+  ICreateMerchantRuleRequest,
+  IStatementImportOptions,
+  IUpdateMerchantRuleRequest
+} from '@/modules/second-brain/finance/types/finance.types';
+
+// ===== STATEMENT IMPORT =====
+
+export const previewStatementImportController = catchAsync(
+  async (req: Request, res: Response): Promise<void> => {
+    if (!req.file) throw createBadRequestError('An OFX, QFX or CSV statement is required');
+    const options: IStatementImportOptions = req.body;
+    const userId = getUserId(req);
+
+    const preview = await previewStatementImport(req.file, options, userId);
+
+    sendSuccessResponse(res, 'Statement preview generated successfully', preview);
+  }
+);
+
+export const commitStatementImportController = catchAsync(
+  async (req: Request, res: Response): Promise<void> => {
+    const request: ICommitStatementImportRequest = req.body;
+    const userId = getUserId(req);
+
+    const result = await commitStatementImport(request, userId);
+
+    sendSuccessResponse(res, 'Statement imported successfully', result, 201);
+  }
+);
+
+// ===== MERCHANT RULES =====
+
+export const getMerchantRulesController = catchAsync(
+  async (req: Request, res: Response): Promise<void> => {
+    const { databaseId } = req.query;
+    const userId = getUserId(req);
+
+    const rules = await getMerchantRules(databaseId as string, userId);
+
+    sendSuccessResponse(res, 'Merchant rules retrieved successfully', rules);
+  }
+);
+
+export const createMerchantRuleController = catchAsync(
+  async (req: Request, res: Response): Promise<void> => {
+    const data: ICreateMerchantRuleRequest = req.body;
+    const userId = getUserId(req);
+
+    const rule = await createMerchantRule(data, userId);
+
+    sendSuccessResponse(res, 'Merchant rule created successfully', rule, 201);
+  }
+);
+
+export const updateMerchantRuleController = catchAsync(
+  async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const data: IUpdateMerchantRuleRequest = req.body;
+    const userId = getUserId(req);
+
+    const rule = await updateMerchantRule(id, data, userId);
+
+    sendSuccessResponse(res, 'Merchant rule updated successfully', rule);
+  }
+);
+
+export const deleteMerchantRuleController = catchAsync(
+  async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const userId = getUserId(req);
+
+    await deleteMerchantRule(id, userId);
+
+    sendSuccessResponse(res, 'Merchant rule deleted successfully', null, 204);
+  }
+);
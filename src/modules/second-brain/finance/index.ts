@@ -22,14 +22,28 @@ export {
   getUnverifiedTransactionsController as getUnverifiedTransactions,
   searchTransactionsController as searchTransactions,
   verifyTransactionController as verifyTransaction,
+  confirmTransactionController as confirmTransaction,
   duplicateTransactionController as duplicateTransaction,
   bulkUpdateTransactionsController as bulkUpdateTransactions,
   bulkDeleteTransactionsController as bulkDeleteTransactions,
 
   // Statistics
-  getFinanceStatsController as getFinanceStats
+  getFinanceStatsController as getFinanceStats,
+  getCashFlowForecastController as getCashFlowForecast
 } from '@/modules/second-brain/finance/controllers/finance.controller';
 
+export {
+  // Statement import
+  previewStatementImportController as previewStatementImport,
+  commitStatementImportController as commitStatementImport,
+
+  // Merchant rules
+  getMerchantRulesController as getMerchantRules,
+  createMerchantRuleController as createMerchantRule,
+  updateMerchantRuleController as updateMerchantRule,
+  deleteMerchantRuleController as deleteMerchantRule
+} from '@/modules/second-brain/finance/controllers/statement-import.controller';
+
 // Services - Finance-specific services
 export {
   createTransaction as createTransactionService,
@@ -39,6 +53,43 @@ export {
   deleteTransaction as deleteTransactionService
 } from '@/modules/second-brain/finance/services/finance.service';
 
+export {
+  postDueRecurringTransactions,
+  confirmDraftTransaction as confirmDraftTransactionService,
+  getCashFlowForecast as getCashFlowForecastService,
+  initializeRecurringTransactions
+} from '@/modules/second-brain/finance/services/recurring-transactions.service';
+
+export {
+  previewStatementImport as previewStatementImportService,
+  commitStatementImport as commitStatementImportService
+} from '@/modules/second-brain/finance/services/statement-import.service';
+
+export {
+  createMerchantRule as createMerchantRuleService,
+  getMerchantRules as getMerchantRulesService,
+  updateMerchantRule as updateMerchantRuleService,
+  deleteMerchantRule as deleteMerchantRuleService,
+  matchMerchantRule
+} from '@/modules/second-brain/finance/services/merchant-rules.service';
+
+// Models
+export { MerchantRuleModel } from '@/modules/second-brain/finance/models/merchant-rule.model';
+
+// Utils
+export {
+  getRecurrenceDate,
+  getNextDueDate,
+  getCashFlowAmount
+} from '@/modules/second-brain/finance/utils/finance.utils';
+
+export {
+  parseStatementFile,
+  parseOfxStatement,
+  parseCsvStatement,
+  normalizeMerchant
+} from '@/modules/second-brain/finance/utils/statement-import.utils';
+
 // Types
 export type * from '@/modules/second-brain/finance/types/finance.types';
 
@@ -58,8 +109,20 @@ export type {
   IUpdateBudgetRequest,
   ICreateFinancialGoalRequest,
   IUpdateFinancialGoalRequest,
+  ICashFlowForecast,
+  ICashFlowForecastParams,
+  IScheduledTransaction,
+  IStatementImportItem,
+  IStatementImportPreview,
+  IStatementImportResult,
+  ICommitStatementImportRequest,
+  IMerchantRule,
+  ICreateMerchantRuleRequest,
+  IUpdateMerchantRuleRequest,
   ETransactionType,
   ETransactionCategory,
+  ETransactionRecurrence,
+  EMerchantRuleMatchType,
   EAccountType,
   EBudgetPeriod,
   EFinancialGoalType
@@ -83,6 +146,13 @@ export {
   updateFinancialGoalSchema,
   searchTransactionsSchema,
   financeStatsQuerySchema,
+  cashFlowForecastQuerySchema,
   categoryParamSchema,
-  accountIdSchema
+  accountIdSchema,
+  statementImportPreviewSchema,
+  commitStatementImportSchema,
+  merchantRuleIdSchema,
+  getMerchantRulesQuerySchema,
+  createMerchantRuleSchema,
+  updateMerchantRuleSchema
 } from '@/modules/second-brain/finance/validators/finance.validators';
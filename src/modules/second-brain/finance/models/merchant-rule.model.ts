@@ -0,0 +1,109 @@
+import { Schema, model, Document, Model } from 'mongoose';
+import {
+  ETransactionCategory,
+  ETransactionType,
+  EMerchantRuleMatchType
+} from '@/modules/second-brain/finance/types/finance.types';
+
+export interface IMerchantRuleDocument extends Document {
+  databaseId: string;
+  pattern: string;
+  matchType: EMerchantRuleMatchType;
+  category: ETransactionCategory;
+  type?: ETransactionType;
+  priority: number;
+  isActive: boolean;
+
+  createdAt: Date;
+  updatedAt: Date;
+  createdBy: string;
+  updatedBy?: string;
+
+  _id: string;
+
+  readonly id: string;
+}
+
+export interface IMerchantRuleModel extends Model<IMerchantRuleDocument> {
+  findActiveByDatabase(databaseId: string): Promise<IMerchantRuleDocument[]>;
+}
+
+const MerchantRuleSchema = new Schema<IMerchantRuleDocument>(
+  {
+    databaseId: {
+      type: String,
+      required: true,
+      index: true
+    },
+    pattern: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 200
+    },
+    matchType: {
+      type: String,
+      enum: Object.values(EMerchantRuleMatchType),
+      default: EMerchantRuleMatchType.CONTAINS
+    },
+    category: {
+      type: String,
+      enum: Object.values(ETransactionCategory),
+      required: true
+    },
+    type: {
+      type: String,
+      enum: Object.values(ETransactionType)
+    },
+    priority: {
+      type: Number,
+      default: 0
+    },
+    isActive: {
+      type: Boolean,
+      default: true
+    },
+    createdBy: {
+      type: String,
+      required: true
+    },
+    updatedBy: {
+      type: String
+    }
+  },
+  {
+    timestamps: true,
+    collection: 'finance_merchant_rules'
+  }
+);
+
+MerchantRuleSchema.index({ databaseId: 1, isActive: 1, priority: -1 });
+
+MerchantRuleSchema.virtual('id').get(function () {
+  return this._id.toString();
+});
+
+MerchantRuleSchema.set('toJSON', {
+  virtuals: true,
+  transform: function (_doc, ret) {
+    const result = { ...ret };
+    if ('_id' in result) {
+      delete (result as Record<string, unknown>)._id;
+    }
+    if ('__v' in result) {
+      delete (result as Record<string, unknown>).__v;
+    }
+    return result;
+  }
+});
+
+// Higher priority first, longer patterns are more specific
+MerchantRuleSchema.statics.findActiveByDatabase = async function (databaseId: string) {
+  const rules: IMerchantRuleDocument[] = await this.find({ databaseId, isActive: true });
+  return rules.sort((a, b) => b.priority - a.priority || b.pattern.length - a.pattern.length);
+};
+
+export const MerchantRuleModel = model<IMerchantRuleDocument, IMerchantRuleModel>(
+  'MerchantRule',
+  MerchantRuleSchema
+);
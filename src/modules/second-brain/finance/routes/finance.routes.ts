@@ -1,4 +1,5 @@
 import { Router } from 'express';
+import multer from 'multer';
 import { authenticateToken } from '@/middlewares/auth';
 import { validateBody, validateQuery, validateParams } from '@/middlewares/validation';
 
@@ -20,13 +21,23 @@ import {
   getUnverifiedTransactionsController as getUnverifiedTransactions,
   searchTransactionsController as searchTransactions,
   verifyTransactionController as verifyTransaction,
+  confirmTransactionController as confirmTransaction,
   duplicateTransactionController as duplicateTransaction,
   bulkUpdateTransactionsController as bulkUpdateTransactions,
   bulkDeleteTransactionsController as bulkDeleteTransactions,
 
   // Statistics
-  getFinanceStatsController as getFinanceStats
+  getFinanceStatsController as getFinanceStats,
+  getCashFlowForecastController as getCashFlowForecast
 } from '@/modules/second-brain/finance/controllers/finance.controller';
+import {
+  previewStatementImportController as previewStatementImport,
+  commitStatementImportController as commitStatementImport,
+  getMerchantRulesController as getMerchantRules,
+  createMerchantRuleController as createMerchantRule,
+  updateMerchantRuleController as updateMerchantRule,
+  deleteMerchantRuleController as deleteMerchantRule
+} from '@/modules/second-brain/finance/controllers/statement-import.controller';
 
 // Validators
 import {
@@ -39,12 +50,34 @@ import {
   bulkDeleteTransactionsSchema,
   searchTransactionsSchema,
   financeStatsQuerySchema,
+  cashFlowForecastQuerySchema,
   categoryParamSchema,
-  accountIdSchema
+  accountIdSchema,
+  statementImportPreviewSchema,
+  commitStatementImportSchema,
+  merchantRuleIdSchema,
+  getMerchantRulesQuerySchema,
+  createMerchantRuleSchema,
+  updateMerchantRuleSchema
 } from '@/modules/second-brain/finance/validators/finance.validators';
 
 const router = Router();
 
+// Banks send statements with many MIME types, so only the extension is checked
+const statementUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 10 * 1024 * 1024 // 10MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    if (/\.(ofx|qfx|csv|txt)$/i.test(file.originalname)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only OFX, QFX and CSV statements can be imported'));
+    }
+  }
+});
+
 // All routes require authentication
 router.use(authenticateToken);
 
@@ -56,6 +89,12 @@ router.get('/transactions', validateQuery(getTransactionsQuerySchema), getTransa
 
 router.get('/transactions/stats', validateQuery(financeStatsQuerySchema), getFinanceStats);
 
+router.get(
+  '/transactions/forecast',
+  validateQuery(cashFlowForecastQuerySchema),
+  getCashFlowForecast
+);
+
 router.get(
   '/transactions/income',
   validateQuery(getTransactionsQuerySchema),
@@ -111,6 +150,8 @@ router.delete('/transactions/:id', validateParams(transactionIdSchema), deleteTr
 
 router.post('/transactions/:id/verify', validateParams(transactionIdSchema), verifyTransaction);
 
+router.post('/transactions/:id/confirm', validateParams(transactionIdSchema), confirmTransaction);
+
 router.post(
   '/transactions/:id/duplicate',
   validateParams(transactionIdSchema),
@@ -132,4 +173,30 @@ router.post(
   bulkDeleteTransactions
 );
 
+// ===== STATEMENT IMPORT =====
+
+router.post(
+  '/import/preview',
+  statementUpload.single('file'),
+  validateBody(statementImportPreviewSchema),
+  previewStatementImport
+);
+
+router.post('/import/commit', validateBody(commitStatementImportSchema), commitStatementImport);
+
+// ===== MERCHANT RULES =====
+
+router.get('/merchant-rules', validateQuery(getMerchantRulesQuerySchema), getMerchantRules);
+
+router.post('/merchant-rules', validateBody(createMerchantRuleSchema), createMerchantRule);
+
+router.put(
+  '/merchant-rules/:id',
+  validateParams(merchantRuleIdSchema),
+  validateBody(updateMerchantRuleSchema),
+  updateMerchantRule
+);
+
+router.delete('/merchant-rules/:id', validateParams(merchantRuleIdSchema), deleteMerchantRule);
+
 export default router;
@@ -16,12 +16,15 @@ import {
   IUpdateBudgetRequest,
   ICreateFinancialGoalRequest,
   IUpdateFinancialGoalRequest,
+  IBudgetCategory,
   ETransactionType,
   ETransactionCategory,
+  ETransactionRecurrence,
   EAccountType,
   EBudgetPeriod,
   EFinancialGoalType
 } from '@/modules/second-brain/finance/types/finance.types';
+import { getNextDueDate } from '@/modules/second-brain/finance/utils/finance.utils';
 import {
   createAppError,
   createNotFoundError,
@@ -29,8 +32,10 @@ import {
   createForbiddenError
 } from '@/utils/error.utils';
 import { generateId } from '@/utils/id-generator';
+import { getNumberProperty, getObjectArrayProperty } from '@/modules/core/utils/type-guards';
 import { permissionService } from '../../../permissions/services/permission.service';
 import { EShareScope, EPermissionLevel } from '@/modules/core/types/permission.types';
+import { TPropertyValue } from '@/modules/core/types/property.types';
 
 /**
  * Create a new transaction
@@ -68,6 +73,10 @@ export const createTransaction = async (
       );
     }
 
+    if (data.isRecurring && !data.recurrencePattern) {
+      throw createValidationError('Recurrence pattern is required for recurring transactions');
+    }
+
     // Create transaction record
     const transactionRecord = new RecordModel({
       _id: generateId(),
@@ -87,6 +96,13 @@ export const createTransaction = async (
         Tags: data.tags || [],
         'Is Recurring': data.isRecurring || false,
         'Recurrence Pattern': data.recurrencePattern || '',
+        'Recurrence End Date': data.recurrenceEndDate,
+        'Next Due Date': data.isRecurring
+          ? getNextDueDate(data.date, data.recurrencePattern, new Date(), data.recurrenceEndDate)
+          : null,
+        'Auto Post': data.autoPost ?? true,
+        'Is Draft': false,
+        'External ID': data.externalId,
         'Is Verified': false,
         'Receipt URL': '',
         Attachments: [],
@@ -102,23 +118,7 @@ export const createTransaction = async (
 
     const savedRecord = await transactionRecord.save();
 
-    // Update account balances if specified
-    if (data.fromAccountId || data.toAccountId) {
-      await updateAccountBalances(data, userId);
-    }
-
-    // Update budget spending if specified
-    if (data.budgetId && data.type === ETransactionType.EXPENSE) {
-      await updateBudgetSpending(data.budgetId, data.category, data.amount, userId);
-    }
-
-    // Update goal progress if specified
-    if (
-      data.goalId &&
-      (data.type === ETransactionType.INCOME || data.type === ETransactionType.INVESTMENT)
-    ) {
-      await updateGoalProgress(data.goalId, data.amount, userId);
-    }
+    await applyTransactionEffects(data, userId);
 
     // Update database record count and activity
     await DatabaseModel.findByIdAndUpdate(data.databaseId, {
@@ -291,6 +291,27 @@ export const updateTransaction = async (
     if (data.recurrencePattern !== undefined) {
       updateData['properties.Recurrence Pattern'] = data.recurrencePattern;
     }
+    if (data.recurrenceEndDate !== undefined) {
+      updateData['properties.Recurrence End Date'] = data.recurrenceEndDate;
+    }
+    if (data.autoPost !== undefined) {
+      updateData['properties.Auto Post'] = data.autoPost;
+    }
+    if (
+      data.isRecurring &&
+      !data.recurrencePattern &&
+      !transaction.properties['Recurrence Pattern']
+    ) {
+      throw createValidationError('Recurrence pattern is required for recurring transactions');
+    }
+    if (
+      data.isRecurring !== undefined ||
+      data.recurrencePattern !== undefined ||
+      data.recurrenceEndDate !== undefined ||
+      data.date !== undefined
+    ) {
+      updateData['properties.Next Due Date'] = rescheduleTransaction(transaction.properties, data);
+    }
     if (data.isVerified !== undefined) {
       updateData['properties.Is Verified'] = data.isVerified;
       if (data.isVerified) {
@@ -448,6 +469,10 @@ const buildTransactionQuery = (params: ITransactionQueryParams, userId: string):
     query['properties.Is Verified'] = params.isVerified;
   }
 
+  if (params.isDraft !== undefined) {
+    query['properties.Is Draft'] = params.isDraft ? true : { $ne: true };
+  }
+
   if (params.search) {
     query.$or = [
       { 'properties.Description': { $regex: params.search, $options: 'i' } },
@@ -476,10 +501,35 @@ const mapSortField = (sortBy: string): string => {
   return fieldMap[sortBy] || 'properties.Date';
 };
 
+/**
+ * Next due date of a recurring transaction after an update. Occurrences that are
+ * already due stay due, a new schedule starts from now.
+ */
+const rescheduleTransaction = (
+  properties: Record<string, any>,
+  data: IUpdateTransactionRequest
+): Date | null => {
+  const isRecurring = data.isRecurring ?? properties['Is Recurring'];
+  if (!isRecurring) {
+    return null;
+  }
+
+  const nextDueDate = properties['Next Due Date'];
+  const after = nextDueDate ? new Date(new Date(nextDueDate).getTime() - 1) : new Date();
+  const endDate = data.recurrenceEndDate ?? properties['Recurrence End Date'];
+
+  return getNextDueDate(
+    new Date(data.date ?? properties.Date),
+    (data.recurrencePattern ?? properties['Recurrence Pattern']) as ETransactionRecurrence,
+    after,
+    endDate ? new Date(endDate) : undefined
+  );
+};
+
 /**
  * Format transaction response from database record
  */
-const formatTransactionResponse = (record: any): ITransaction => {
+export const formatTransactionResponse = (record: any): ITransaction => {
   return {
     id: record._id.toString(),
     databaseId: record.databaseId,
@@ -497,8 +547,13 @@ const formatTransactionResponse = (record: any): ITransaction => {
     notes: record.properties.Notes,
     tags: record.properties.Tags || [],
     isRecurring: record.properties['Is Recurring'] || false,
-    recurrencePattern: record.properties['Recurrence Pattern'],
-    nextDueDate: record.properties['Next Due Date'],
+    recurrencePattern: record.properties['Recurrence Pattern'] || undefined,
+    recurrenceEndDate: record.properties['Recurrence End Date'] || undefined,
+    nextDueDate: record.properties['Next Due Date'] || undefined,
+    autoPost: record.properties['Auto Post'] ?? true,
+    recurringTransactionId: record.properties['Recurring Transaction ID'],
+    isDraft: record.properties['Is Draft'] || false,
+    externalId: record.properties['External ID'],
     isVerified: record.properties['Is Verified'] || false,
     verifiedAt: record.properties['Verified At'],
     receiptUrl: record.properties['Receipt URL'],
@@ -513,10 +568,36 @@ const formatTransactionResponse = (record: any): ITransaction => {
   };
 };
 
+/**
+ * Spending of a budget record. Only spent amounts are stored, remaining amounts and
+ * percentages are derived from them here.
+ */
+export const formatBudgetSpending = (
+  properties: Record<string, TPropertyValue>
+): Pick<IBudget, 'categories' | 'totalBudgeted' | 'totalSpent' | 'totalRemaining'> => {
+  const categories = getObjectArrayProperty(properties, 'Categories').map(item => {
+    const budgetCategory = item as unknown as IBudgetCategory;
+    const spentAmount = budgetCategory.spentAmount || 0;
+
+    return {
+      ...budgetCategory,
+      spentAmount,
+      remainingAmount: budgetCategory.budgetedAmount - spentAmount,
+      percentageUsed: budgetCategory.budgetedAmount
+        ? Math.round((spentAmount / budgetCategory.budgetedAmount) * 100)
+        : 0
+    };
+  });
+  const totalBudgeted = getNumberProperty(properties, 'Total Budgeted');
+  const totalSpent = getNumberProperty(properties, 'Total Spent');
+
+  return { categories, totalBudgeted, totalSpent, totalRemaining: totalBudgeted - totalSpent };
+};
+
 /**
  * Get next order number for database records
  */
-const getNextOrder = async (databaseId: string): Promise<number> => {
+export const getNextOrder = async (databaseId: string): Promise<number> => {
   const lastRecord = await RecordModel.findOne(
     { databaseId, isDeleted: { $ne: true } },
     { order: 1 }
@@ -527,6 +608,32 @@ const getNextOrder = async (databaseId: string): Promise<number> => {
   return (lastRecord?.order || 0) + 1;
 };
 
+/**
+ * Apply a posted transaction to its accounts, budget and goal
+ */
+export const applyTransactionEffects = async (
+  data: ICreateTransactionRequest,
+  userId: string
+): Promise<void> => {
+  // Update account balances if specified
+  if (data.fromAccountId || data.toAccountId) {
+    await updateAccountBalances(data, userId);
+  }
+
+  // Update budget spending if specified
+  if (data.budgetId && data.type === ETransactionType.EXPENSE) {
+    await updateBudgetSpending(data.budgetId, data.category, data.amount, userId);
+  }
+
+  // Update goal progress if specified
+  if (
+    data.goalId &&
+    (data.type === ETransactionType.INCOME || data.type === ETransactionType.INVESTMENT)
+  ) {
+    await updateGoalProgress(data.goalId, data.amount, userId);
+  }
+};
+
 /**
  * Update account balances after transaction creation
  */
@@ -534,9 +641,23 @@ const updateAccountBalances = async (
   data: ICreateTransactionRequest,
   userId: string
 ): Promise<void> => {
-  // Implementation for updating account balances
-  // This would involve finding the account records and updating their balances
-  // For now, this is a placeholder
+  // Money leaves the source account and arrives in the destination account
+  const changes: Array<[string | undefined, number]> = [
+    [data.fromAccountId, -data.amount],
+    [data.toAccountId, data.amount]
+  ];
+
+  for (const [accountId, change] of changes) {
+    if (!accountId) continue;
+
+    await RecordModel.updateOne(
+      { _id: accountId, isDeleted: { $ne: true } },
+      {
+        $inc: { 'properties.Balance': change },
+        $set: { updatedBy: userId, updatedAt: new Date() }
+      }
+    );
+  }
 };
 
 /**
@@ -548,9 +669,19 @@ const updateBudgetSpending = async (
   amount: number,
   userId: string
 ): Promise<void> => {
-  // Implementation for updating budget spending
-  // This would involve finding the budget record and updating the category spending
-  // For now, this is a placeholder
+  // Increments keep concurrent transactions from overwriting each other, remaining
+  // amounts and percentages are derived when the budget is read
+  await RecordModel.updateOne(
+    { _id: budgetId, isDeleted: { $ne: true } },
+    {
+      $inc: { 'properties.Total Spent': amount },
+      $set: { updatedBy: userId, updatedAt: new Date() }
+    }
+  );
+  await RecordModel.updateOne(
+    { _id: budgetId, isDeleted: { $ne: true }, 'properties.Categories.category': category },
+    { $inc: { 'properties.Categories.$.spentAmount': amount } }
+  );
 };
 
 /**
@@ -0,0 +1,191 @@
+import { isValidObjectId } from 'mongoose';
+import { DatabaseModel } from '@/modules/database/models/database.model';
+import { EDatabaseType } from '@/modules/database';
+import {
+  IMerchantRuleDocument,
+  MerchantRuleModel
+} from '@/modules/second-brain/finance/models/merchant-rule.model';
+import {
+  IMerchantRule,
+  ICreateMerchantRuleRequest,
+  IUpdateMerchantRuleRequest,
+  EMerchantRuleMatchType
+} from '@/modules/second-brain/finance/types/finance.types';
+import { normalizeMerchant } from '@/modules/second-brain/finance/utils/statement-import.utils';
+import {
+  createAppError,
+  createNotFoundError,
+  createValidationError,
+  createForbiddenError
+} from '@/utils/error.utils';
+import { permissionService } from '../../../permissions/services/permission.service';
+import { EShareScope, EPermissionLevel } from '@/modules/core/types/permission.types';
+
+/**
+ * Create a rule that categorizes transactions of a merchant
+ */
+export const createMerchantRule = async (
+  data: ICreateMerchantRuleRequest,
+  userId: string
+): Promise<IMerchantRule> => {
+  try {
+    await checkFinanceDatabase(data.databaseId, userId, EPermissionLevel.EDIT);
+
+    const rule = await MerchantRuleModel.create({
+      databaseId: data.databaseId,
+      pattern: data.pattern,
+      matchType: data.matchType || EMerchantRuleMatchType.CONTAINS,
+      category: data.category,
+      type: data.type,
+      priority: data.priority || 0,
+      createdBy: userId,
+      updatedBy: userId
+    });
+
+    return formatMerchantRuleResponse(rule);
+  } catch (error: any) {
+    if (error.statusCode) throw error;
+    throw createAppError(`Failed to create merchant rule: ${error.message}`, 500);
+  }
+};
+
+/**
+ * Get the merchant rules of a finance database in the order they are applied
+ */
+export const getMerchantRules = async (
+  databaseId: string,
+  userId: string
+): Promise<IMerchantRule[]> => {
+  try {
+    await checkFinanceDatabase(databaseId, userId, EPermissionLevel.READ);
+
+    const rules = await MerchantRuleModel.find({ databaseId }).sort({ priority: -1, createdAt: 1 });
+
+    return rules.map(formatMerchantRuleResponse);
+  } catch (error: any) {
+    if (error.statusCode) throw error;
+    throw createAppError(`Failed to get merchant rules: ${error.message}`, 500);
+  }
+};
+
+/**
+ * Update a merchant rule
+ */
+export const updateMerchantRule = async (
+  id: string,
+  data: IUpdateMerchantRuleRequest,
+  userId: string
+): Promise<IMerchantRule> => {
+  try {
+    const rule = await findMerchantRule(id, userId);
+
+    Object.assign(rule, data, { updatedBy: userId });
+    await rule.save();
+
+    return formatMerchantRuleResponse(rule);
+  } catch (error: any) {
+    if (error.statusCode) throw error;
+    throw createAppError(`Failed to update merchant rule: ${error.message}`, 500);
+  }
+};
+
+/**
+ * Delete a merchant rule
+ */
+export const deleteMerchantRule = async (id: string, userId: string): Promise<void> => {
+  try {
+    const rule = await findMerchantRule(id, userId);
+
+    await rule.deleteOne();
+  } catch (error: any) {
+    if (error.statusCode) throw error;
+    throw createAppError(`Failed to delete merchant rule: ${error.message}`, 500);
+  }
+};
+
+/**
+ * First rule matching the merchant or description of a transaction, rules are
+ * expected in the order of findActiveByDatabase
+ */
+export const matchMerchantRule = (
+  rules: IMerchantRuleDocument[],
+  merchant: string,
+  description: string
+): IMerchantRuleDocument | undefined => {
+  const values = [normalizeMerchant(merchant), normalizeMerchant(description)].filter(Boolean);
+
+  return rules.find(rule => {
+    const pattern = normalizeMerchant(rule.pattern);
+    if (!pattern) return false;
+
+    return values.some(value => {
+      switch (rule.matchType) {
+        case EMerchantRuleMatchType.EXACT:
+          return value === pattern;
+        case EMerchantRuleMatchType.STARTS_WITH:
+          return value.startsWith(pattern);
+        default:
+          return value.includes(pattern);
+      }
+    });
+  });
+};
+
+/**
+ * Verify a database is a finance database the user has access to
+ */
+export const checkFinanceDatabase = async (
+  databaseId: string,
+  userId: string,
+  level: EPermissionLevel
+): Promise<void> => {
+  const database = await DatabaseModel.findOne({
+    _id: databaseId,
+    isDeleted: { $ne: true }
+  }).exec();
+
+  if (!database) {
+    throw createNotFoundError('Database', databaseId);
+  }
+
+  if (database.type !== EDatabaseType.FINANCE) {
+    throw createValidationError('Database must be of type FINANCE');
+  }
+
+  const hasPermission = await permissionService.hasPermission(
+    EShareScope.DATABASE,
+    databaseId,
+    userId,
+    level
+  );
+
+  if (!hasPermission) {
+    throw createForbiddenError('Insufficient permissions to access this database');
+  }
+};
+
+const findMerchantRule = async (id: string, userId: string): Promise<IMerchantRuleDocument> => {
+  const rule = isValidObjectId(id) ? await MerchantRuleModel.findById(id) : null;
+  if (!rule) {
+    throw createNotFoundError('Merchant rule', id);
+  }
+
+  await checkFinanceDatabase(rule.databaseId, userId, EPermissionLevel.EDIT);
+
+  return rule;
+};
+
+const formatMerchantRuleResponse = (rule: IMerchantRuleDocument): IMerchantRule => ({
+  id: rule.id,
+  databaseId: rule.databaseId,
+  pattern: rule.pattern,
+  matchType: rule.matchType,
+  category: rule.category,
+  type: rule.type,
+  priority: rule.priority,
+  isActive: rule.isActive,
+  createdAt: rule.createdAt,
+  updatedAt: rule.updatedAt,
+  createdBy: rule.createdBy,
+  updatedBy: rule.updatedBy
+});
@@ -0,0 +1,409 @@
+import cron from 'node-cron';
+import { DatabaseModel } from '@/modules/database/models/database.model';
+import { RecordModel, TRecordDocument } from '@/modules/database/models/record.model';
+import { EDatabaseType } from '@/modules/database';
+import {
+  ITransaction,
+  ICreateTransactionRequest,
+  ICashFlowForecast,
+  ICashFlowForecastParams,
+  IScheduledTransaction
+} from '@/modules/second-brain/finance/types/finance.types';
+import {
+  applyTransactionEffects,
+  formatTransactionResponse,
+  getNextOrder
+} from '@/modules/second-brain/finance/services/finance.service';
+import {
+  getCashFlowAmount,
+  getNextDueDate
+} from '@/modules/second-brain/finance/utils/finance.utils';
+import {
+  createAppError,
+  createNotFoundError,
+  createValidationError,
+  createForbiddenError
+} from '@/utils/error.utils';
+import { generateId } from '@/utils/id-generator';
+import { getNumberProperty, getStringProperty } from '@/modules/core/utils/type-guards';
+import { permissionService } from '../../../permissions/services/permission.service';
+import { EShareScope, EPermissionLevel } from '@/modules/core/types/permission.types';
+
+// Bounds the occurrences posted per transaction and run, later runs catch up
+const MAX_POSTED_OCCURRENCES = 366;
+// Bounds the occurrences projected per transaction in a forecast
+const MAX_FORECAST_OCCURRENCES = 1000;
+
+/**
+ * Post the occurrences of recurring transactions that are due
+ */
+export const postDueRecurringTransactions = async (now: Date = new Date()): Promise<number> => {
+  // Records of other modules may use the same property names
+  const financeDatabases = await DatabaseModel.find({
+    type: EDatabaseType.FINANCE,
+    isDeleted: { $ne: true }
+  })
+    .select('_id')
+    .lean();
+
+  const recurringTransactions = await RecordModel.find({
+    databaseId: { $in: financeDatabases.map(database => String(database._id)) },
+    isDeleted: { $ne: true },
+    'properties.Is Recurring': true,
+    'properties.Next Due Date': { $lte: now }
+  }).exec();
+
+  let posted = 0;
+  for (const record of recurringTransactions) {
+    try {
+      posted += await postRecurringTransaction(record, now);
+    } catch (error) {
+      console.error(`Error posting recurring transaction ${record.id}:`, error);
+    }
+  }
+
+  return posted;
+};
+
+/**
+ * Confirm a draft posted by a recurring transaction, which applies it to its accounts
+ * and budget
+ */
+export const confirmDraftTransaction = async (
+  id: string,
+  userId: string
+): Promise<ITransaction> => {
+  try {
+    const transaction = await RecordModel.findOne({
+      _id: id,
+      isDeleted: { $ne: true }
+    }).exec();
+
+    if (!transaction) {
+      throw createNotFoundError('Transaction', id);
+    }
+
+    // Check permission to edit this transaction
+    const hasPermission = await permissionService.hasPermission(
+      EShareScope.RECORD,
+      id,
+      userId,
+      EPermissionLevel.EDIT
+    );
+
+    if (!hasPermission) {
+      throw createForbiddenError('Insufficient permissions to edit this transaction');
+    }
+
+    // Only the request that clears the draft flag applies the transaction
+    const confirmed = await RecordModel.findOneAndUpdate(
+      { _id: id, 'properties.Is Draft': true },
+      {
+        'properties.Is Draft': false,
+        updatedBy: userId,
+        updatedAt: new Date()
+      },
+      { new: true }
+    ).exec();
+
+    if (!confirmed) {
+      throw createAppError('Transaction is not a draft', 400);
+    }
+
+    const result = formatTransactionResponse(confirmed);
+    await applyTransactionEffects(toTransactionRequest(result, result.date), userId);
+
+    await DatabaseModel.findByIdAndUpdate(confirmed.databaseId, {
+      lastActivityAt: new Date()
+    });
+
+    return result;
+  } catch (error: any) {
+    if (error.statusCode) throw error;
+    throw createAppError(`Failed to confirm transaction: ${error.message}`, 500);
+  }
+};
+
+/**
+ * Project account balances and cash flow over the next months from recurring
+ * transactions and unconfirmed drafts
+ */
+export const getCashFlowForecast = async (
+  params: ICashFlowForecastParams,
+  userId: string
+): Promise<ICashFlowForecast> => {
+  try {
+    const database = await DatabaseModel.findOne({
+      _id: params.databaseId,
+      isDeleted: { $ne: true }
+    }).exec();
+
+    if (!database) {
+      throw createNotFoundError('Database', params.databaseId);
+    }
+
+    if (database.type !== EDatabaseType.FINANCE) {
+      throw createValidationError('Database must be of type FINANCE');
+    }
+
+    // Check permission to read this database
+    const hasPermission = await permissionService.hasPermission(
+      EShareScope.DATABASE,
+      params.databaseId,
+      userId,
+      EPermissionLevel.READ
+    );
+
+    if (!hasPermission) {
+      throw createForbiddenError('Insufficient permissions to view this database');
+    }
+
+    const startDate = new Date();
+    const endDate = new Date(startDate);
+    endDate.setUTCMonth(endDate.getUTCMonth() + params.months);
+
+    const [recurringTransactions, drafts] = await Promise.all([
+      RecordModel.find({
+        databaseId: params.databaseId,
+        isDeleted: { $ne: true },
+        'properties.Is Recurring': true,
+        'properties.Next Due Date': { $ne: null, $lte: endDate }
+      }).exec(),
+      RecordModel.find({
+        databaseId: params.databaseId,
+        isDeleted: { $ne: true },
+        'properties.Is Draft': true
+      }).exec()
+    ]);
+
+    // Drafts are not applied yet and count as due today when their date has passed
+    const scheduled: IScheduledTransaction[] = drafts.map(record => {
+      const transaction = formatTransactionResponse(record);
+      const date = new Date(transaction.date);
+      return toScheduledTransaction(transaction, date < startDate ? startDate : date);
+    });
+
+    for (const record of recurringTransactions) {
+      const transaction = formatTransactionResponse(record);
+      let dueDate: Date | null = transaction.nextDueDate ? new Date(transaction.nextDueDate) : null;
+
+      for (let i = 0; dueDate && dueDate <= endDate && i < MAX_FORECAST_OCCURRENCES; i++) {
+        // Overdue occurrences are posted on the next run of the scheduler
+        scheduled.push(
+          toScheduledTransaction(transaction, dueDate < startDate ? startDate : dueDate)
+        );
+        dueDate = getNextOccurrenceDate(transaction, dueDate);
+      }
+    }
+
+    const items = scheduled
+      .filter(
+        item =>
+          !params.accountId ||
+          item.fromAccountId === params.accountId ||
+          item.toAccountId === params.accountId
+      )
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+    const accountIds = params.accountId
+      ? [params.accountId]
+      : [
+          ...new Set(
+            items
+              .flatMap(item => [item.fromAccountId, item.toAccountId])
+              .filter(Boolean) as string[]
+          )
+        ];
+    const accounts = await RecordModel.find({
+      _id: { $in: accountIds },
+      isDeleted: { $ne: true }
+    }).exec();
+
+    const balances: Record<string, number> = {};
+    for (const account of accounts) {
+      balances[account.id] = getNumberProperty(account.properties, 'Balance');
+    }
+    const startingBalances = { ...balances };
+
+    const months: ICashFlowForecast['months'] = [];
+    const cursor = new Date(Date.UTC(startDate.getUTCFullYear(), startDate.getUTCMonth(), 1));
+    let index = 0;
+
+    while (cursor <= endDate) {
+      cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+      const month = { income: 0, expenses: 0 };
+
+      for (; index < items.length && items[index].date < cursor; index++) {
+        const item = items[index];
+        const cashFlow = getCashFlowAmount(item.type, item.amount);
+
+        if (cashFlow > 0) month.income += cashFlow;
+        if (cashFlow < 0) month.expenses -= cashFlow;
+
+        // Money leaves the source account and arrives in the destination account
+        if (item.fromAccountId && item.fromAccountId in balances) {
+          balances[item.fromAccountId] -= item.amount;
+        }
+        if (item.toAccountId && item.toAccountId in balances) {
+          balances[item.toAccountId] += item.amount;
+        }
+      }
+
+      const monthStart = new Date(cursor);
+      monthStart.setUTCMonth(monthStart.getUTCMonth() - 1);
+
+      months.push({
+        month: monthStart.toISOString().slice(0, 7),
+        income: roundAmount(month.income),
+        expenses: roundAmount(month.expenses),
+        netCashFlow: roundAmount(month.income - month.expenses),
+        balances: Object.fromEntries(
+          Object.entries(balances).map(([accountId, balance]) => [accountId, roundAmount(balance)])
+        )
+      });
+    }
+
+    return {
+      startDate,
+      endDate,
+      accounts: accounts.map(account => ({
+        accountId: account.id,
+        name: getStringProperty(account.properties, 'Name') || account.id,
+        startingBalance: roundAmount(startingBalances[account.id]),
+        endingBalance: roundAmount(balances[account.id])
+      })),
+      months,
+      scheduled: items
+    };
+  } catch (error: any) {
+    if (error.statusCode) throw error;
+    throw createAppError(`Failed to forecast cash flow: ${error.message}`, 500);
+  }
+};
+
+/**
+ * Post the due occurrences of one recurring transaction. Each occurrence is
+ * claimed by moving the next due date first, so concurrent runs post it once.
+ */
+const postRecurringTransaction = async (record: TRecordDocument, now: Date): Promise<number> => {
+  const transaction = formatTransactionResponse(record);
+  let dueDate = transaction.nextDueDate ? new Date(transaction.nextDueDate) : null;
+  let posted = 0;
+
+  while (dueDate && dueDate <= now && posted < MAX_POSTED_OCCURRENCES) {
+    const nextDueDate = getNextOccurrenceDate(transaction, dueDate);
+
+    const claimed = await RecordModel.updateOne(
+      { _id: record._id, 'properties.Next Due Date': dueDate },
+      { 'properties.Next Due Date': nextDueDate, updatedAt: new Date() }
+    );
+    if (claimed.modifiedCount === 0) {
+      break;
+    }
+
+    await postOccurrence(record, transaction, dueDate);
+    posted++;
+    dueDate = nextDueDate;
+  }
+
+  return posted;
+};
+
+/**
+ * Create the transaction of one occurrence, drafts wait for confirmation before they
+ * are applied
+ */
+const postOccurrence = async (
+  record: TRecordDocument,
+  transaction: ITransaction,
+  date: Date
+): Promise<void> => {
+  const isDraft = !transaction.autoPost;
+
+  const occurrence = new RecordModel({
+    _id: generateId(),
+    databaseId: record.databaseId,
+    properties: {
+      ...record.properties,
+      Date: date,
+      'Is Recurring': false,
+      'Recurrence Pattern': '',
+      'Recurrence End Date': undefined,
+      'Next Due Date': null,
+      'Recurring Transaction ID': record.id,
+      'Is Draft': isDraft,
+      'External ID': undefined,
+      'Is Verified': false,
+      'Verified At': undefined,
+      'Receipt URL': '',
+      Attachments: []
+    },
+    content: [],
+    createdBy: record.createdBy,
+    updatedBy: record.createdBy,
+    order: await getNextOrder(record.databaseId)
+  });
+  await occurrence.save();
+
+  if (!isDraft) {
+    await applyTransactionEffects(toTransactionRequest(transaction, date), record.createdBy);
+  }
+
+  await DatabaseModel.findByIdAndUpdate(record.databaseId, {
+    $inc: { recordCount: 1 },
+    lastActivityAt: new Date()
+  });
+};
+
+const getNextOccurrenceDate = (transaction: ITransaction, after: Date): Date | null =>
+  getNextDueDate(
+    new Date(transaction.date),
+    transaction.recurrencePattern,
+    after,
+    transaction.recurrenceEndDate ? new Date(transaction.recurrenceEndDate) : undefined
+  );
+
+const toTransactionRequest = (
+  transaction: ITransaction,
+  date: Date
+): ICreateTransactionRequest => ({
+  databaseId: transaction.databaseId,
+  type: transaction.type,
+  category: transaction.category,
+  amount: transaction.amount,
+  currency: transaction.currency,
+  description: transaction.description,
+  date,
+  fromAccountId: transaction.fromAccountId,
+  toAccountId: transaction.toAccountId,
+  budgetId: transaction.budgetId,
+  goalId: transaction.goalId,
+  projectId: transaction.projectId
+});
+
+const toScheduledTransaction = (transaction: ITransaction, date: Date): IScheduledTransaction => ({
+  transactionId: transaction.id,
+  date,
+  type: transaction.type,
+  category: transaction.category,
+  description: transaction.description,
+  amount: transaction.amount,
+  fromAccountId: transaction.fromAccountId,
+  toAccountId: transaction.toAccountId,
+  isDraft: transaction.isDraft
+});
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Initialize the posting of due recurring transactions
+ */
+export const initializeRecurringTransactions = (): void => {
+  cron.schedule('45 * * * *', async () => {
+    try {
+      await postDueRecurringTransactions();
+    } catch (error) {
+      console.error('Error posting recurring transactions:', error);
+    }
+  });
+};
@@ -0,0 +1,280 @@
+import { RecordModel } from '@/modules/database/models/record.model';
+import { IImportUploadFile } from '@/modules/database/types/database.types';
+import { MerchantRuleModel } from '@/modules/second-brain/finance/models/merchant-rule.model';
+import {
+  ICommitStatementImportRequest,
+  IParsedStatementTransaction,
+  IStatementImportItem,
+  IStatementImportOptions,
+  IStatementImportPreview,
+  IStatementImportResult,
+  ETransactionCategory,
+  ETransactionType
+} from '@/modules/second-brain/finance/types/finance.types';
+import { createTransaction } from '@/modules/second-brain/finance/services/finance.service';
+import {
+  checkFinanceDatabase,
+  matchMerchantRule
+} from '@/modules/second-brain/finance/services/merchant-rules.service';
+import {
+  normalizeMerchant,
+  parseStatementFile
+} from '@/modules/second-brain/finance/utils/statement-import.utils';
+import { getCashFlowAmount } from '@/modules/second-brain/finance/utils/finance.utils';
+import { createAppError, createBadRequestError } from '@/utils/error.utils';
+import { EPermissionLevel } from '@/modules/core/types/permission.types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Past transactions looked at to learn the category of a merchant
+const MAX_HISTORY_TRANSACTIONS = 5000;
+
+type TStatementEntry = Pick<
+  IParsedStatementTransaction,
+  'externalId' | 'date' | 'amount' | 'merchant' | 'description'
+>;
+
+/**
+ * Parse a statement into transactions for review. Categories are suggested from merchant
+ * rules and past categorizations, transactions already in the database are flagged.
+ */
+export const previewStatementImport = async (
+  file: IImportUploadFile,
+  options: IStatementImportOptions,
+  userId: string
+): Promise<IStatementImportPreview> => {
+  try {
+    await checkFinanceDatabase(options.databaseId, userId, EPermissionLevel.EDIT);
+
+    const parsed = parseStatementFile(file, options);
+    if (parsed.transactions.length === 0 && parsed.errors.length === 0) {
+      throw createBadRequestError('The statement contains no transactions');
+    }
+
+    const [rules, history, duplicates] = await Promise.all([
+      MerchantRuleModel.findActiveByDatabase(options.databaseId),
+      getCategoryHistory(options.databaseId),
+      findDuplicates(options.databaseId, parsed.transactions)
+    ]);
+
+    const transactions = parsed.transactions.map((transaction, index): IStatementImportItem => {
+      const rule = matchMerchantRule(rules, transaction.merchant, transaction.description);
+      const type =
+        rule?.type || (transaction.amount < 0 ? ETransactionType.EXPENSE : ETransactionType.INCOME);
+      const learned = history.get(getHistoryKey(type, transaction.merchant));
+
+      return {
+        ...transaction,
+        amount: Math.abs(transaction.amount),
+        type,
+        category:
+          rule?.category ||
+          learned ||
+          (type === ETransactionType.INCOME
+            ? ETransactionCategory.OTHER_INCOME
+            : ETransactionCategory.OTHER_EXPENSE),
+        categorySource: rule ? 'rule' : learned ? 'history' : 'default',
+        ruleId: rule?.id,
+        isDuplicate: duplicates.has(index),
+        duplicateOfId: duplicates.get(index) || undefined
+      };
+    });
+
+    return {
+      format: parsed.format,
+      databaseId: options.databaseId,
+      accountId: options.accountId,
+      currency: options.currency || parsed.currency || 'USD',
+      transactions,
+      duplicateCount: duplicates.size,
+      errors: parsed.errors
+    };
+  } catch (error: any) {
+    if (error.statusCode) throw error;
+    throw createAppError(`Failed to preview statement import: ${error.message}`, 500);
+  }
+};
+
+/**
+ * Create the reviewed transactions of a statement. Transactions that are already in the
+ * database are skipped, so committing the same statement twice imports it once.
+ */
+export const commitStatementImport = async (
+  request: ICommitStatementImportRequest,
+  userId: string
+): Promise<IStatementImportResult> => {
+  try {
+    await checkFinanceDatabase(request.databaseId, userId, EPermissionLevel.EDIT);
+
+    const entries = request.transactions.map(transaction => ({
+      ...transaction,
+      merchant: transaction.merchant || transaction.description,
+      amount: getCashFlowAmount(transaction.type, transaction.amount) || -transaction.amount
+    }));
+    const duplicates = await findDuplicates(request.databaseId, entries);
+
+    const result: IStatementImportResult = { imported: [], skippedDuplicates: 0, failed: [] };
+
+    for (const [index, transaction] of request.transactions.entries()) {
+      if (duplicates.has(index)) {
+        result.skippedDuplicates++;
+        continue;
+      }
+
+      // Money received lands in the account, anything else leaves it
+      const isInflow = entries[index].amount > 0;
+
+      try {
+        const created = await createTransaction(
+          {
+            databaseId: request.databaseId,
+            type: transaction.type,
+            category: transaction.category,
+            amount: transaction.amount,
+            currency: request.currency,
+            description: transaction.description,
+            date: transaction.date,
+            fromAccountId: isInflow ? undefined : request.accountId,
+            toAccountId: isInflow ? request.accountId : undefined,
+            merchant: transaction.merchant,
+            notes: transaction.notes,
+            tags: transaction.tags,
+            externalId: transaction.externalId
+          },
+          userId
+        );
+        result.imported.push(created);
+      } catch (error: any) {
+        result.failed.push({ index, error: error.message });
+      }
+    }
+
+    return result;
+  } catch (error: any) {
+    if (error.statusCode) throw error;
+    throw createAppError(`Failed to import statement: ${error.message}`, 500);
+  }
+};
+
+const getHistoryKey = (type: ETransactionType, merchant: string): string =>
+  `${type}:${normalizeMerchant(merchant)}`;
+
+/**
+ * Most used category per transaction type and merchant among recent transactions
+ */
+const getCategoryHistory = async (
+  databaseId: string
+): Promise<Map<string, ETransactionCategory>> => {
+  const transactions = await RecordModel.find(
+    {
+      databaseId,
+      isDeleted: { $ne: true },
+      'properties.Merchant': { $nin: ['', null] },
+      'properties.Is Draft': { $ne: true }
+    },
+    { 'properties.Merchant': 1, 'properties.Category': 1, 'properties.Type': 1 }
+  )
+    .sort({ createdAt: -1 })
+    .limit(MAX_HISTORY_TRANSACTIONS)
+    .lean()
+    .exec();
+
+  const counts = new Map<string, Map<ETransactionCategory, number>>();
+  for (const transaction of transactions) {
+    const { Merchant, Category, Type } = transaction.properties as Record<string, any>;
+    if (!Category || !Type) continue;
+
+    const key = getHistoryKey(Type, Merchant);
+    const categories = counts.get(key) || new Map<ETransactionCategory, number>();
+    categories.set(Category, (categories.get(Category) || 0) + 1);
+    counts.set(key, categories);
+  }
+
+  const history = new Map<string, ETransactionCategory>();
+  for (const [key, categories] of counts) {
+    const [category] = [...categories.entries()].reduce((best, entry) =>
+      entry[1] > best[1] ? entry : best
+    );
+    history.set(key, category);
+  }
+
+  return history;
+};
+
+/**
+ * Statement entries that are already in the database, keyed by their index. An entry
+ * matches by bank transaction ID, or by day, amount and merchant. Each existing
+ * transaction matches one entry, so repeated purchases on the same day stay apart.
+ */
+const findDuplicates = async (
+  databaseId: string,
+  entries: TStatementEntry[]
+): Promise<Map<number, string | null>> => {
+  const duplicates = new Map<number, string | null>();
+  if (entries.length === 0) return duplicates;
+
+  const times = entries.map(entry => new Date(entry.date).getTime());
+  const externalIds = entries.map(entry => entry.externalId).filter(Boolean) as string[];
+
+  const existing = await RecordModel.find(
+    {
+      databaseId,
+      isDeleted: { $ne: true },
+      $or: [
+        { 'properties.External ID': { $in: externalIds } },
+        {
+          'properties.Date': {
+            $gte: new Date(Math.min(...times) - DAY_MS),
+            $lte: new Date(Math.max(...times) + DAY_MS)
+          }
+        }
+      ]
+    },
+    {
+      'properties.Date': 1,
+      'properties.Amount': 1,
+      'properties.Merchant': 1,
+      'properties.Description': 1,
+      'properties.External ID': 1
+    }
+  )
+    .lean()
+    .exec();
+
+  const matched = new Set<string>();
+  const seenExternalIds = new Set<string>();
+
+  entries.forEach((entry, index) => {
+    // The same bank transaction listed twice in one statement
+    if (entry.externalId && seenExternalIds.has(entry.externalId)) {
+      duplicates.set(index, null);
+      return;
+    }
+    if (entry.externalId) seenExternalIds.add(entry.externalId);
+
+    const day = new Date(entry.date).toISOString().slice(0, 10);
+    const merchant = normalizeMerchant(entry.merchant || entry.description);
+
+    const match = existing.find(record => {
+      const id = String(record._id);
+      const properties = record.properties as Record<string, any>;
+      if (matched.has(id)) return false;
+      if (entry.externalId && properties['External ID']) {
+        return properties['External ID'] === entry.externalId;
+      }
+
+      return (
+        Boolean(properties.Date) &&
+        new Date(properties.Date).toISOString().slice(0, 10) === day &&
+        Math.abs(Number(properties.Amount) - Math.abs(entry.amount)) < 0.005 &&
+        normalizeMerchant(properties.Merchant || properties.Description) === merchant
+      );
+    });
+
+    if (match) {
+      matched.add(String(match._id));
+      duplicates.set(index, String(match._id));
+    }
+  });
+
+  return duplicates;
+};
@@ -35,6 +35,23 @@ export enum ETransactionCategory {
   OTHER_EXPENSE = 'other_expense'
 }
 
+// Recurring transaction schedule enum
+export enum ETransactionRecurrence {
+  DAILY = 'daily',
+  WEEKLY = 'weekly',
+  BIWEEKLY = 'biweekly',
+  MONTHLY = 'monthly',
+  QUARTERLY = 'quarterly',
+  YEARLY = 'yearly'
+}
+
+// Merchant rule match type enum
+export enum EMerchantRuleMatchType {
+  CONTAINS = 'contains',
+  EXACT = 'exact',
+  STARTS_WITH = 'starts_with'
+}
+
 // Account type enum
 export enum EAccountType {
   CHECKING = 'checking',
@@ -89,8 +106,17 @@ export interface ITransaction {
 
   // Recurring transaction
   isRecurring: boolean;
-  recurrencePattern?: string;
+  recurrencePattern?: ETransactionRecurrence;
+  recurrenceEndDate?: Date;
   nextDueDate?: Date;
+  autoPost: boolean;
+  recurringTransactionId?: string;
+
+  // Drafts are posted by a schedule and wait for confirmation
+  isDraft: boolean;
+
+  // Bank transaction ID of imported statements
+  externalId?: string;
 
   // Verification
   isVerified: boolean;
@@ -275,7 +301,10 @@ export interface ICreateTransactionRequest {
   notes?: string;
   tags?: string[];
   isRecurring?: boolean;
-  recurrencePattern?: string;
+  recurrencePattern?: ETransactionRecurrence;
+  recurrenceEndDate?: Date;
+  autoPost?: boolean;
+  externalId?: string;
   budgetId?: string;
   goalId?: string;
   projectId?: string;
@@ -295,7 +324,9 @@ export interface IUpdateTransactionRequest {
   notes?: string;
   tags?: string[];
   isRecurring?: boolean;
-  recurrencePattern?: string;
+  recurrencePattern?: ETransactionRecurrence;
+  recurrenceEndDate?: Date;
+  autoPost?: boolean;
   isVerified?: boolean;
   budgetId?: string;
   goalId?: string;
@@ -316,6 +347,7 @@ export interface ITransactionQueryParams {
   endDate?: Date;
   isRecurring?: boolean;
   isVerified?: boolean;
+  isDraft?: boolean;
   search?: string;
   tags?: string[];
   sortBy?: 'date' | 'amount' | 'description' | 'category';
@@ -400,3 +432,155 @@ export interface IUpdateFinancialGoalRequest {
   notes?: string;
   isActive?: boolean;
 }
+
+export interface ICashFlowForecastParams {
+  databaseId: string;
+  months: number;
+  accountId?: string;
+}
+
+export interface IScheduledTransaction {
+  transactionId: string;
+  date: Date;
+  type: ETransactionType;
+  category: ETransactionCategory;
+  description: string;
+  amount: number;
+  fromAccountId?: string;
+  toAccountId?: string;
+  isDraft: boolean;
+}
+
+export interface ICashFlowForecast {
+  startDate: Date;
+  endDate: Date;
+  accounts: Array<{
+    accountId: string;
+    name: string;
+    startingBalance: number;
+    endingBalance: number;
+  }>;
+  months: Array<{
+    month: string;
+    income: number;
+    expenses: number;
+    netCashFlow: number;
+    balances: Record<string, number>;
+  }>;
+  scheduled: IScheduledTransaction[];
+}
+
+// Statement import interfaces
+export type TStatementFormat = 'ofx' | 'csv';
+
+export type TCategorySource = 'rule' | 'history' | 'default';
+
+export interface IStatementColumnMapping {
+  date?: number;
+  amount?: number;
+  debit?: number;
+  credit?: number;
+  description?: number;
+  merchant?: number;
+}
+
+export interface IStatementImportOptions {
+  databaseId: string;
+  accountId?: string;
+  currency?: string;
+  delimiter?: string;
+  dayFirst?: boolean;
+  invertAmounts?: boolean;
+  columns?: IStatementColumnMapping;
+}
+
+export interface IParsedStatementTransaction {
+  rowNumber: number;
+  externalId?: string;
+  date: Date;
+  amount: number;
+  description: string;
+  merchant: string;
+}
+
+export interface IParsedStatement {
+  format: TStatementFormat;
+  currency?: string;
+  transactions: IParsedStatementTransaction[];
+  errors: Array<{ rowNumber: number; message: string }>;
+}
+
+export interface IStatementImportItem extends IParsedStatementTransaction {
+  type: ETransactionType;
+  category: ETransactionCategory;
+  categorySource: TCategorySource;
+  ruleId?: string;
+  isDuplicate: boolean;
+  duplicateOfId?: string;
+}
+
+export interface IStatementImportPreview {
+  format: TStatementFormat;
+  databaseId: string;
+  accountId?: string;
+  currency: string;
+  transactions: IStatementImportItem[];
+  duplicateCount: number;
+  errors: Array<{ rowNumber: number; message: string }>;
+}
+
+export interface ICommitStatementImportRequest {
+  databaseId: string;
+  accountId?: string;
+  currency: string;
+  transactions: Array<{
+    externalId?: string;
+    date: Date;
+    amount: number;
+    type: ETransactionType;
+    category: ETransactionCategory;
+    description: string;
+    merchant?: string;
+    notes?: string;
+    tags?: string[];
+  }>;
+}
+
+export interface IStatementImportResult {
+  imported: ITransaction[];
+  skippedDuplicates: number;
+  failed: Array<{ index: number; error: string }>;
+}
+
+export interface IMerchantRule {
+  id: string;
+  databaseId: string;
+  pattern: string;
+  matchType: EMerchantRuleMatchType;
+  category: ETransactionCategory;
+  type?: ETransactionType;
+  priority: number;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+  createdBy: string;
+  updatedBy?: string;
+}
+
+export interface ICreateMerchantRuleRequest {
+  databaseId: string;
+  pattern: string;
+  matchType?: EMerchantRuleMatchType;
+  category: ETransactionCategory;
+  type?: ETransactionType;
+  priority?: number;
+}
+
+export interface IUpdateMerchantRuleRequest {
+  pattern?: string;
+  matchType?: EMerchantRuleMatchType;
+  category?: ETransactionCategory;
+  type?: ETransactionType;
+  priority?: number;
+  isActive?: boolean;
+}
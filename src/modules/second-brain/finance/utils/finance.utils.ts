@@ -0,0 +1,90 @@
+import {
+  ETransactionRecurrence,
+  ETransactionType
+} from '@/modules/second-brain/finance/types/finance.types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Longest possible step of each pattern in days, used to jump close to a date
+const MAX_STEP_DAYS: Record<ETransactionRecurrence, number> = {
+  [ETransactionRecurrence.DAILY]: 1,
+  [ETransactionRecurrence.WEEKLY]: 7,
+  [ETransactionRecurrence.BIWEEKLY]: 14,
+  [ETransactionRecurrence.MONTHLY]: 31,
+  [ETransactionRecurrence.QUARTERLY]: 92,
+  [ETransactionRecurrence.YEARLY]: 366
+};
+
+/**
+ * Date of the index-th occurrence after the anchor date. Month based patterns keep the
+ * day of the anchor and fall back to the last day of shorter months.
+ */
+export const getRecurrenceDate = (
+  anchor: Date,
+  pattern: ETransactionRecurrence,
+  index: number
+): Date => {
+  switch (pattern) {
+    case ETransactionRecurrence.DAILY:
+      return new Date(anchor.getTime() + index * DAY_MS);
+    case ETransactionRecurrence.WEEKLY:
+      return new Date(anchor.getTime() + index * 7 * DAY_MS);
+    case ETransactionRecurrence.BIWEEKLY:
+      return new Date(anchor.getTime() + index * 14 * DAY_MS);
+    default: {
+      const months =
+        pattern === ETransactionRecurrence.YEARLY
+          ? index * 12
+          : pattern === ETransactionRecurrence.QUARTERLY
+            ? index * 3
+            : index;
+      const year = anchor.getUTCFullYear();
+      const month = anchor.getUTCMonth() + months;
+      const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+      const date = new Date(anchor);
+      date.setUTCFullYear(year, month, Math.min(anchor.getUTCDate(), daysInMonth));
+      return date;
+    }
+  }
+};
+
+/**
+ * First occurrence of a schedule after a date, null when the pattern is unknown or the
+ * occurrence falls after the end date
+ */
+export const getNextDueDate = (
+  anchor: Date,
+  pattern: ETransactionRecurrence | undefined,
+  after: Date,
+  endDate?: Date
+): Date | null => {
+  if (!pattern || !(pattern in MAX_STEP_DAYS)) {
+    return null;
+  }
+
+  const recurrence = pattern as ETransactionRecurrence;
+  const elapsedDays = (after.getTime() - anchor.getTime()) / DAY_MS;
+  let index = Math.max(1, Math.floor(elapsedDays / MAX_STEP_DAYS[recurrence]));
+  let date = getRecurrenceDate(anchor, recurrence, index);
+
+  while (date <= after) {
+    date = getRecurrenceDate(anchor, recurrence, ++index);
+  }
+
+  return endDate && date > endDate ? null : date;
+};
+
+// Signed change of a transaction to the net cash flow
+export const getCashFlowAmount = (type: ETransactionType, amount: number): number => {
+  switch (type) {
+    case ETransactionType.INCOME:
+    case ETransactionType.REFUND:
+      return amount;
+    case ETransactionType.EXPENSE:
+    case ETransactionType.INVESTMENT:
+      return -amount;
+    default:
+      return 0;
+  }
+};
@@ -0,0 +1,237 @@
+import { createBadRequestError } from '@/utils/error.utils';
+import { IImportUploadFile } from '@/modules/database/types/database.types';
+import {
+  detectDayFirst,
+  parseCsv,
+  parseDateCell,
+  parseNumberCell
+} from '@/modules/database/utils/import.utils';
+import {
+  IParsedStatement,
+  IParsedStatementTransaction,
+  IStatementColumnMapping,
+  IStatementImportOptions,
+  TStatementFormat
+} from '@/modules/second-brain/finance/types/finance.types';
+
+const OFX_TRANSACTION_PATTERN = /<STMTTRN>([\s\S]*?)(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>|$)/gi;
+const OFX_DATE_PATTERN =
+  /^(\d{4})(\d{2})(\d{2})(?:(\d{2})(\d{2})(\d{2})?)?(?:\.\d+)?(?:\[([+-]?\d+(?:\.\d+)?)(?::[^\]]*)?\])?/;
+const OFX_ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&apos;': "'",
+  '&nbsp;': ' '
+};
+
+// Checked in order, so debit and credit columns are claimed before a generic amount column
+const CSV_HEADER_PATTERNS: Array<[keyof IStatementColumnMapping, RegExp]> = [
+  ['debit', /debit|withdrawal|money out|paid out|outflow/i],
+  ['credit', /credit|deposit|money in|paid in|inflow/i],
+  ['date', /date|posted/i],
+  ['merchant', /merchant|payee|counterparty/i],
+  ['description', /description|details|memo|narrative|name|reference|transaction/i],
+  ['amount', /amount|value|sum/i]
+];
+// Banks often put account details above the header row
+const MAX_CSV_PREAMBLE_ROWS = 10;
+
+export const detectStatementFormat = (fileName: string, content: string): TStatementFormat => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'ofx' || extension === 'qfx' || /<OFX>/i.test(content.slice(0, 4096))) {
+    return 'ofx';
+  }
+  if (extension === 'csv' || extension === 'txt') return 'csv';
+  throw createBadRequestError('Only OFX, QFX and CSV statements can be imported');
+};
+
+// Lowercase merchant name without store numbers and punctuation, used to compare merchants
+export const normalizeMerchant = (value: string | undefined): string =>
+  (value || '')
+    .toLowerCase()
+    .replace(/[^\p{L}&\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const getOfxValue = (block: string, tag: string): string | undefined => {
+  const value = new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i').exec(block)?.[1].trim();
+  return value ? value.replace(/&\w+;/g, entity => OFX_ENTITIES[entity] ?? entity) : undefined;
+};
+
+export const parseOfxDate = (value: string | undefined): Date | null => {
+  const match = value ? OFX_DATE_PATTERN.exec(value) : null;
+  if (!match) return null;
+
+  const [, year, month, day, hours, minutes, seconds, offset] = match;
+  const date = new Date(
+    Date.UTC(
+      Number(year),
+      Number(month) - 1,
+      Number(day),
+      Number(hours || 0),
+      Number(minutes || 0),
+      Number(seconds || 0)
+    ) -
+      Number(offset || 0) * 60 * 60 * 1000
+  );
+
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Parse an OFX 1.x (SGML) or 2.x (XML) statement, QFX files are OFX with extra tags
+ */
+export const parseOfxStatement = (content: string): IParsedStatement => {
+  const transactions: IParsedStatementTransaction[] = [];
+  const errors: IParsedStatement['errors'] = [];
+  let rowNumber = 0;
+
+  for (const [, block] of content.matchAll(OFX_TRANSACTION_PATTERN)) {
+    rowNumber++;
+    const date = parseOfxDate(getOfxValue(block, 'DTPOSTED') || getOfxValue(block, 'DTUSER'));
+    const amount = Number((getOfxValue(block, 'TRNAMT') || '').replace(',', '.'));
+
+    if (!date) {
+      errors.push({ rowNumber, message: 'Transaction has no valid posting date' });
+      continue;
+    }
+    if (!amount) {
+      errors.push({ rowNumber, message: 'Transaction has no amount' });
+      continue;
+    }
+
+    const name = getOfxValue(block, 'NAME');
+    const memo = getOfxValue(block, 'MEMO');
+
+    transactions.push({
+      rowNumber,
+      externalId: getOfxValue(block, 'FITID'),
+      date,
+      amount,
+      description: memo || name || getOfxValue(block, 'TRNTYPE') || '',
+      merchant: name || memo || ''
+    });
+  }
+
+  return { format: 'ofx', currency: getOfxValue(content, 'CURDEF'), transactions, errors };
+};
+
+const detectCsvColumns = (header: string[]): IStatementColumnMapping => {
+  const columns: IStatementColumnMapping = {};
+  const used = new Set<number>();
+
+  for (const [key, pattern] of CSV_HEADER_PATTERNS) {
+    const index = header.findIndex((cell, i) => !used.has(i) && pattern.test(cell));
+    if (index !== -1) {
+      columns[key] = index;
+      used.add(index);
+    }
+  }
+
+  return columns;
+};
+
+const hasRequiredColumns = (columns: IStatementColumnMapping): boolean =>
+  columns.date !== undefined &&
+  (columns.amount !== undefined || columns.debit !== undefined || columns.credit !== undefined) &&
+  (columns.description !== undefined || columns.merchant !== undefined);
+
+// Accounting exports write negative amounts in parentheses
+const parseAmountCell = (value: string | undefined): number | null => {
+  const text = (value || '').trim();
+  if (!text) return null;
+  const parenthesized = /^\((.*)\)$/.exec(text);
+  return parseNumberCell(parenthesized ? `-${parenthesized[1]}` : text);
+};
+
+/**
+ * Parse a bank CSV export. Columns are found by their header unless mapped explicitly,
+ * amounts come from a signed amount column or from separate debit and credit columns.
+ */
+export const parseCsvStatement = (
+  content: string,
+  options: Pick<IStatementImportOptions, 'delimiter' | 'dayFirst' | 'columns'> = {}
+): IParsedStatement => {
+  const rows = parseCsv(content, options.delimiter);
+
+  let headerIndex = rows
+    .slice(0, MAX_CSV_PREAMBLE_ROWS)
+    .findIndex(row => hasRequiredColumns(detectCsvColumns(row)));
+  if (headerIndex === -1 && options.columns) headerIndex = 0;
+
+  const columns = {
+    ...(headerIndex === -1 ? {} : detectCsvColumns(rows[headerIndex])),
+    ...options.columns
+  };
+  if (headerIndex === -1 || !hasRequiredColumns(columns)) {
+    throw createBadRequestError(
+      'Could not find the date, amount and description columns of the statement, map them explicitly'
+    );
+  }
+
+  const dataRows = rows.slice(headerIndex + 1);
+  const cell = (row: string[], index: number | undefined) =>
+    index === undefined ? undefined : row[index]?.trim();
+  const dayFirst =
+    options.dayFirst ?? detectDayFirst(dataRows.map(row => cell(row, columns.date) || ''));
+
+  const transactions: IParsedStatementTransaction[] = [];
+  const errors: IParsedStatement['errors'] = [];
+
+  dataRows.forEach((row, i) => {
+    const rowNumber = headerIndex + i + 2;
+    const date = parseDateCell(cell(row, columns.date) || '', dayFirst);
+    const amount =
+      columns.amount !== undefined
+        ? parseAmountCell(cell(row, columns.amount))
+        : Math.abs(parseAmountCell(cell(row, columns.credit)) || 0) -
+          Math.abs(parseAmountCell(cell(row, columns.debit)) || 0);
+
+    if (!date) {
+      errors.push({ rowNumber, message: 'Row has no valid date' });
+      return;
+    }
+    if (!amount) {
+      errors.push({ rowNumber, message: 'Row has no amount' });
+      return;
+    }
+
+    const description = cell(row, columns.description) || '';
+    const merchant = cell(row, columns.merchant) || description;
+
+    transactions.push({
+      rowNumber,
+      date,
+      amount,
+      description: description || merchant,
+      merchant
+    });
+  });
+
+  return { format: 'csv', transactions, errors };
+};
+
+export const parseStatementFile = (
+  file: IImportUploadFile,
+  options: Pick<
+    IStatementImportOptions,
+    'delimiter' | 'dayFirst' | 'columns' | 'invertAmounts'
+  > = {}
+): IParsedStatement => {
+  const content = file.buffer.toString('utf8');
+  const parsed =
+    detectStatementFormat(file.originalname, content) === 'ofx'
+      ? parseOfxStatement(content)
+      : parseCsvStatement(content, options);
+
+  // Credit card statements often list charges as positive amounts
+  if (options.invertAmounts) {
+    parsed.transactions.forEach(transaction => {
+      transaction.amount = -transaction.amount;
+    });
+  }
+
+  return parsed;
+};
@@ -2,10 +2,13 @@ import { z } from 'zod';
 import {
   ETransactionType,
   ETransactionCategory,
+  ETransactionRecurrence,
+  EMerchantRuleMatchType,
   EAccountType,
   EBudgetPeriod,
   EFinancialGoalType
 } from '@/modules/second-brain/finance/types/finance.types';
+import { formBoolean, formJson } from '@/modules/database/validators/database.validators';
 
 // Base schemas
 export const transactionIdSchema = z.object({
@@ -39,7 +42,13 @@ export const createTransactionSchema = z.object({
   notes: z.string().max(1000, 'Notes too long').optional(),
   tags: z.array(z.string()).default([]),
   isRecurring: z.boolean().default(false),
-  recurrencePattern: z.string().optional(),
+  recurrencePattern: z.enum(ETransactionRecurrence).optional(),
+  recurrenceEndDate: z
+    .string()
+    .datetime()
+    .transform(val => new Date(val))
+    .optional(),
+  autoPost: z.boolean().default(true),
   budgetId: z.string().optional(),
   goalId: z.string().optional(),
   projectId: z.string().optional()
@@ -67,7 +76,13 @@ export const updateTransactionSchema = z.object({
   notes: z.string().max(1000, 'Notes too long').optional(),
   tags: z.array(z.string()).optional(),
   isRecurring: z.boolean().optional(),
-  recurrencePattern: z.string().optional(),
+  recurrencePattern: z.enum(ETransactionRecurrence).optional(),
+  recurrenceEndDate: z
+    .string()
+    .datetime()
+    .transform(val => new Date(val))
+    .optional(),
+  autoPost: z.boolean().optional(),
   isVerified: z.boolean().optional(),
   budgetId: z.string().optional(),
   goalId: z.string().optional(),
@@ -116,6 +131,10 @@ export const getTransactionsQuerySchema = z.object({
     .boolean()
     .or(z.string().transform(val => val === 'true'))
     .optional(),
+  isDraft: z
+    .boolean()
+    .or(z.string().transform(val => val === 'true'))
+    .optional(),
   search: z.string().optional(),
   tags: z
     .array(z.string())
@@ -311,6 +330,85 @@ export const financeStatsQuerySchema = z.object({
     .optional()
 });
 
+// Forecast schemas
+export const cashFlowForecastQuerySchema = z.object({
+  databaseId: z.string().min(1, 'Database ID is required'),
+  months: z.coerce.number().int().min(1).max(24).default(3),
+  accountId: z.string().optional()
+});
+
+// Statement import schemas
+export const statementImportPreviewSchema = z.object({
+  databaseId: z.string().min(1, 'Database ID is required'),
+  accountId: z.string().optional(),
+  currency: z.string().length(3, 'Currency must be 3 characters').optional(),
+  delimiter: z.enum([',', ';', '\t']).optional(),
+  dayFirst: formBoolean.optional(),
+  invertAmounts: formBoolean.default(false),
+  columns: formJson(
+    z.object({
+      date: z.number().int().min(0).optional(),
+      amount: z.number().int().min(0).optional(),
+      debit: z.number().int().min(0).optional(),
+      credit: z.number().int().min(0).optional(),
+      description: z.number().int().min(0).optional(),
+      merchant: z.number().int().min(0).optional()
+    })
+  ).optional()
+});
+
+export const commitStatementImportSchema = z.object({
+  databaseId: z.string().min(1, 'Database ID is required'),
+  accountId: z.string().optional(),
+  currency: z.string().length(3, 'Currency must be 3 characters').default('USD'),
+  transactions: z
+    .array(
+      z.object({
+        externalId: z.string().max(255).optional(),
+        date: z
+          .string()
+          .datetime()
+          .transform(val => new Date(val)),
+        amount: z.number().min(0.01, 'Amount must be greater than 0'),
+        type: z.enum(ETransactionType),
+        category: z.enum(ETransactionCategory),
+        description: z.string().min(1, 'Description is required').max(500, 'Description too long'),
+        merchant: z.string().max(200, 'Merchant name too long').optional(),
+        notes: z.string().max(1000, 'Notes too long').optional(),
+        tags: z.array(z.string()).optional()
+      })
+    )
+    .min(1, 'At least one transaction is required')
+    .max(1000, 'Cannot import more than 1000 transactions at once')
+});
+
+// Merchant rule schemas
+export const merchantRuleIdSchema = z.object({
+  id: z.string().min(1, 'Merchant rule ID is required')
+});
+
+export const getMerchantRulesQuerySchema = z.object({
+  databaseId: z.string().min(1, 'Database ID is required')
+});
+
+export const createMerchantRuleSchema = z.object({
+  databaseId: z.string().min(1, 'Database ID is required'),
+  pattern: z.string().trim().min(1, 'Pattern is required').max(200, 'Pattern too long'),
+  matchType: z.enum(EMerchantRuleMatchType).default(EMerchantRuleMatchType.CONTAINS),
+  category: z.enum(ETransactionCategory),
+  type: z.enum(ETransactionType).optional(),
+  priority: z.number().int().min(-100).max(100).default(0)
+});
+
+export const updateMerchantRuleSchema = z.object({
+  pattern: z.string().trim().min(1, 'Pattern is required').max(200, 'Pattern too long').optional(),
+  matchType: z.enum(EMerchantRuleMatchType).optional(),
+  category: z.enum(ETransactionCategory).optional(),
+  type: z.enum(ETransactionType).optional(),
+  priority: z.number().int().min(-100).max(100).optional(),
+  isActive: z.boolean().optional()
+});
+
 // Export all schemas
 export const financeValidators = {
   // Transaction CRUD
@@ -338,5 +436,14 @@ export const financeValidators = {
   // Search and analytics
   searchTransactionsSchema,
   financeStatsQuerySchema,
-  categoryParamSchema
+  cashFlowForecastQuerySchema,
+  categoryParamSchema,
+
+  // Statement import
+  statementImportPreviewSchema,
+  commitStatementImportSchema,
+  merchantRuleIdSchema,
+  getMerchantRulesQuerySchema,
+  createMerchantRuleSchema,
+  updateMerchantRuleSchema
 };
@@ -1,6 +1,8 @@
 import { DatabaseModel } from '@/modules/database/models/database.model';
 import { RecordModel } from '@/modules/database/models/record.model';
+import { searchIndexService } from '@/modules/search/services/search-index.service';
 import { EDatabaseType } from '@/modules/database';
+import { recordLinksService } from '@/modules/database/services/record-links.services';
 import { IRecordContent, IRichText } from '@/modules/core/types/record.types';
 import {
   INote,
@@ -161,7 +163,11 @@ export const getNotes = async (
       RecordModel.countDocuments(query)
     ]);
 
-    const formattedNotes = notes.map(note => formatNoteResponse(note));
+    const backlinks = await recordLinksService.getBacklinkSourceIds(
+      notes.map(note => note.id),
+      userId
+    );
+    const formattedNotes = notes.map(note => formatNoteResponse(note, backlinks.get(note.id)));
 
     const hasNext = skip + limit < total;
     const hasPrev = page > 1;
@@ -218,7 +224,8 @@ export const getNoteById = async (id: string, userId: string): Promise<INote> =>
       'properties.Last Viewed At': new Date()
     });
 
-    return formatNoteResponse(note);
+    const backlinks = await recordLinksService.getBacklinkSourceIds([note.id], userId);
+    return formatNoteResponse(note, backlinks.get(note.id));
   } catch (error: any) {
     if (error.statusCode) throw error;
     throw createAppError(`Failed to get note: ${error.message}`, 500);
@@ -419,6 +426,7 @@ export const deleteNote = async (
       $inc: { recordCount: -1 },
       lastActivityAt: new Date()
     });
+    await searchIndexService.removeRecord(id);
   } catch (error: any) {
     if (error.statusCode) throw error;
     throw createAppError(`Failed to delete note: ${error.message}`, 500);
@@ -553,9 +561,10 @@ const convertRichTextElement = (element: any): IRichText => {
 };
 
 /**
- * Format note response from database record
+ * Format note response from database record. Backlinks come from the link graph when
+ * given, otherwise from the stored property.
  */
-const formatNoteResponse = (record: any): INote => {
+export const formatNoteResponse = (record: any, backlinks?: string[]): INote => {
   // Extract custom fields (exclude predefined properties)
   const predefinedProperties = new Set([
     'Title',
@@ -600,7 +609,7 @@ const formatNoteResponse = (record: any): INote => {
     lastViewedAt: record.properties['Last Viewed At'],
     viewCount: record.properties['View Count'] || 0,
     linkedNotes: record.properties['Linked Notes'] || [],
-    backlinks: record.properties.Backlinks || [],
+    backlinks: backlinks || record.properties.Backlinks || [],
     mentions: record.properties.Mentions || [],
     isPublished: record.properties['Is Published'] || false,
     publishedAt: record.properties['Published At'],
@@ -0,0 +1,72 @@
+import { Request, Response, NextFunction } from 'express';
+import { catchAsync, sendSuccessResponse } from '@/utils';
+import { recurringTasksService } from '../services/recurring-tasks.services';
+import { ICreateRecurringTaskRequest, IRecurringTaskConfig } from '../types/tasks.types';
+import { getUserId } from '@/modules/auth';
+
+export const createRecurringTask = catchAsync(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const data: ICreateRecurringTaskRequest = req.body;
+    const userId = getUserId(req);
+
+    const task = await recurringTasksService.createRecurringTask(data, userId);
+
+    sendSuccessResponse(res, 'Recurring task created successfully', task, 201);
+  }
+);
+
+export const setTaskRecurrence = catchAsync(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { id } = req.params;
+    const config: IRecurringTaskConfig = req.body;
+    const userId = getUserId(req);
+
+    const task = await recurringTasksService.setRecurrence(id, config, userId);
+
+    sendSuccessResponse(res, 'Task recurrence updated successfully', task);
+  }
+);
+
+export const stopTaskRecurrence = catchAsync(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { id } = req.params;
+    const userId = getUserId(req);
+
+    const task = await recurringTasksService.stopRecurrence(id, userId);
+
+    sendSuccessResponse(res, 'Task recurrence stopped successfully', task);
+  }
+);
+
+export const pauseTaskRecurrence = catchAsync(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { id } = req.params;
+    const userId = getUserId(req);
+
+    const task = await recurringTasksService.setPaused(id, true, userId);
+
+    sendSuccessResponse(res, 'Task recurrence paused successfully', task);
+  }
+);
+
+export const resumeTaskRecurrence = catchAsync(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { id } = req.params;
+    const userId = getUserId(req);
+
+    const task = await recurringTasksService.setPaused(id, false, userId);
+
+    sendSuccessResponse(res, 'Task recurrence resumed successfully', task);
+  }
+);
+
+export const skipTaskOccurrence = catchAsync(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { id } = req.params;
+    const userId = getUserId(req);
+
+    const task = await recurringTasksService.skipOccurrence(id, userId);
+
+    sendSuccessResponse(res, 'Task occurrence skipped successfully', task);
+  }
+);
@@ -25,6 +25,21 @@ export {
 
 export { TimeTrackingService, timeTrackingService } from './services/time-tracking.services';
 
+export {
+  createRecurringTask,
+  setTaskRecurrence,
+  stopTaskRecurrence,
+  pauseTaskRecurrence,
+  resumeTaskRecurrence,
+  skipTaskOccurrence
+} from './controllers/recurring-tasks.controllers';
+
+export {
+  RecurringTasksService,
+  recurringTasksService,
+  initializeRecurringTasks
+} from './services/recurring-tasks.services';
+
 export type * from './types/tasks.types';
 
 export type {
@@ -44,7 +59,9 @@ export {
   getTasksQuerySchema,
   taskIdSchema,
   assignTaskSchema,
-  bulkUpdateTasksSchema
+  bulkUpdateTasksSchema,
+  createRecurringTaskSchema,
+  createRecurringTaskRequestSchema
 } from './validators/tasks.validators';
 
 export {
@@ -52,5 +69,6 @@ export {
   isTaskOverdue,
   getTaskPriorityColor,
   formatTaskDueDate,
-  generateTaskSummary
+  generateTaskSummary,
+  getNextRecurrenceDate
 } from './utils/tasks.utils';
@@ -30,6 +30,14 @@ import {
   updateTimeEntry,
   deleteTimeEntry
 } from '../controllers/time-tracking.controllers';
+import {
+  createRecurringTask,
+  setTaskRecurrence,
+  stopTaskRecurrence,
+  pauseTaskRecurrence,
+  resumeTaskRecurrence,
+  skipTaskOccurrence
+} from '../controllers/recurring-tasks.controllers';
 import {
   createTaskSchema,
   updateTaskSchema,
@@ -37,7 +45,9 @@ import {
   taskIdSchema,
   assignTaskSchema,
   bulkUpdateTasksSchema,
-  duplicateTaskSchema
+  duplicateTaskSchema,
+  createRecurringTaskSchema,
+  createRecurringTaskRequestSchema
 } from '../validators/tasks.validators';
 
 const router = Router();
@@ -50,6 +60,13 @@ router.use(ensureDefaultWorkspace);
 // Task CRUD operations
 router.post('/', validateBody(createTaskSchema), injectWorkspaceContext, createTask);
 
+router.post(
+  '/recurring',
+  validateBody(createRecurringTaskRequestSchema),
+  injectWorkspaceContext,
+  createRecurringTask
+);
+
 router.get('/', validateQuery(getTasksQuerySchema), getTasks);
 
 router.get('/:id', validateParams(taskIdSchema), getTaskById);
@@ -75,6 +92,22 @@ router.post(
   duplicateTask
 );
 
+// Recurring tasks
+router.put(
+  '/:id/recurrence',
+  validateParams(taskIdSchema),
+  validateBody(createRecurringTaskSchema),
+  setTaskRecurrence
+);
+
+router.delete('/:id/recurrence', validateParams(taskIdSchema), stopTaskRecurrence);
+
+router.post('/:id/recurrence/pause', validateParams(taskIdSchema), pauseTaskRecurrence);
+
+router.post('/:id/recurrence/resume', validateParams(taskIdSchema), resumeTaskRecurrence);
+
+router.post('/:id/recurrence/skip', validateParams(taskIdSchema), skipTaskOccurrence);
+
 // Task queries
 router.get('/project/:projectId', getTasksByProject);
 
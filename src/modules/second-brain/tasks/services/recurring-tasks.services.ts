@@ -0,0 +1,359 @@
+import cron from 'node-cron';
+import { Types } from 'mongoose';
+import { RecordModel, TRecordDocument } from '@/modules/database/models/record.model';
+import { DatabaseModel } from '@/modules/database/models/database.model';
+import { ITask, ICreateRecurringTaskRequest, IRecurringTaskConfig } from '../types/tasks.types';
+import { EStatus } from '@/modules/core/types/common.types';
+import { createAppError, createForbiddenError, createNotFoundError } from '@/utils/error.utils';
+import { getObjectArrayProperty } from '@/modules/core/utils/type-guards';
+import { generateId } from '@/utils/id-generator';
+import { permissionService } from '../../../permissions/services/permission.service';
+import { EShareScope, EPermissionLevel } from '@/modules/core/types/permission.types';
+import { getNextRecurrenceDate } from '../utils/tasks.utils';
+import { tasksService } from './tasks.services';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Bounds the occurrences looked at per series and run
+const MAX_PENDING_OCCURRENCES = 366;
+
+export class RecurringTasksService {
+  // Create a task that repeats on a schedule
+  async createRecurringTask(data: ICreateRecurringTaskRequest, userId: string): Promise<ITask> {
+    const { recurrenceConfig, ...taskData } = data;
+    const task = await tasksService.createTask(taskData, userId);
+
+    return this.setRecurrence(task.id, recurrenceConfig, userId);
+  }
+
+  // Make a task repeat, or change the schedule of the open tasks of its series
+  async setRecurrence(
+    taskId: string,
+    config: IRecurringTaskConfig,
+    userId: string
+  ): Promise<ITask> {
+    const task = await this.findTask(taskId, userId);
+    const recurrenceConfig = this.normalizeConfig(config);
+
+    if (task.properties.is_recurring && task.properties.recurrence_series_id) {
+      await this.updateOpenTasks(task, {
+        'properties.recurrence_config': recurrenceConfig,
+        'properties.recurrence_pattern': recurrenceConfig.pattern
+      });
+    } else {
+      Object.assign(task.properties, {
+        is_recurring: true,
+        recurrence_pattern: recurrenceConfig.pattern,
+        recurrence_config: recurrenceConfig,
+        recurrence_series_id: task.id,
+        recurrence_index: 1
+      });
+      task.updatedBy = userId;
+      task.markModified('properties');
+      await task.save();
+    }
+
+    return tasksService.getTaskById(taskId, userId);
+  }
+
+  // Stop a series, its open tasks are kept as regular tasks
+  async stopRecurrence(taskId: string, userId: string): Promise<ITask> {
+    const task = await this.findRecurringTask(taskId, userId);
+
+    await this.updateOpenTasks(task, { 'properties.is_recurring': false });
+
+    return tasksService.getTaskById(taskId, userId);
+  }
+
+  // Pause or resume a series, paused series create no new tasks
+  async setPaused(taskId: string, isPaused: boolean, userId: string): Promise<ITask> {
+    const task = await this.findRecurringTask(taskId, userId);
+
+    await this.updateOpenTasks(task, { 'properties.recurrence_config.isPaused': isPaused });
+
+    return tasksService.getTaskById(taskId, userId);
+  }
+
+  /**
+   * Skip an occurrence. A task whose next occurrence already exists is cancelled,
+   * otherwise it moves to the next date of the schedule. Skipping the last
+   * occurrence of a series cancels it.
+   */
+  async skipOccurrence(taskId: string, userId: string): Promise<ITask> {
+    const task = await this.findRecurringTask(taskId, userId);
+
+    if (task.properties.status === EStatus.COMPLETED) {
+      throw createAppError('Completed tasks cannot be skipped', 400);
+    }
+
+    const next = task.properties.recurrence_next_task_id
+      ? null
+      : this.getNextOccurrence(task, this.getDueDate(task) || new Date());
+
+    if (next) {
+      const shift = next.dueDate.getTime() - (this.getDueDate(task) || next.dueDate).getTime();
+      const startDate = task.properties.start_date
+        ? new Date(new Date(task.properties.start_date as string).getTime() + shift)
+        : undefined;
+
+      Object.assign(task.properties, {
+        due_date: next.dueDate,
+        start_date: startDate,
+        recurrence_index: next.index
+      });
+    } else {
+      task.properties.status = EStatus.CANCELLED;
+    }
+
+    task.updatedBy = userId;
+    task.lastEditedBy = userId;
+    task.lastEditedAt = new Date();
+    task.markModified('properties');
+    await task.save();
+
+    return tasksService.getTaskById(taskId, userId);
+  }
+
+  // Create the task following a completed one, completion schedules count from its completion
+  async createNextOccurrence(task: TRecordDocument, userId: string): Promise<ITask | null> {
+    if (task.properties.recurrence_next_task_id || this.getConfig(task)?.isPaused) {
+      return null;
+    }
+
+    const completedAt = task.properties.completed_at
+      ? new Date(task.properties.completed_at as string)
+      : new Date();
+    const from =
+      this.getConfig(task)?.scheduleFrom === 'completion_date'
+        ? completedAt
+        : this.getDueDate(task) || completedAt;
+
+    const next = this.getNextOccurrence(task, from);
+    if (!next) return null;
+
+    const created = await this.createOccurrence(task, next, userId);
+    return created ? tasksService.getTaskById(created.id, userId) : null;
+  }
+
+  // Create the next tasks of due date schedules that are due within their creation window
+  async createUpcomingOccurrences(): Promise<number> {
+    const now = Date.now();
+    const tasks = await RecordModel.find({
+      isDeleted: { $ne: true },
+      'properties.is_recurring': true,
+      'properties.recurrence_next_task_id': null,
+      'properties.status': { $ne: EStatus.CANCELLED },
+      'properties.recurrence_config.isPaused': { $ne: true },
+      'properties.recurrence_config.scheduleFrom': { $ne: 'completion_date' }
+    });
+
+    let created = 0;
+    for (const task of tasks) {
+      const createDaysAhead = this.getConfig(task)?.createDaysAhead || 0;
+      const pending: Array<{ dueDate: Date; index: number }> = [];
+
+      let next = this.getNextOccurrence(task, this.getDueDate(task) || task.createdAt);
+      while (
+        next &&
+        next.dueDate.getTime() - createDaysAhead * DAY_MS <= now &&
+        pending.length < MAX_PENDING_OCCURRENCES
+      ) {
+        pending.push(next);
+        next = this.getNextOccurrence(task, next.dueDate, next.index);
+      }
+
+      // Occurrences missed while the series was not checked are left out, except the latest
+      const upcoming = pending.filter(
+        (occurrence, i) =>
+          occurrence.dueDate.getTime() >= now ||
+          i === pending.length - 1 ||
+          pending[i + 1].dueDate.getTime() >= now
+      );
+
+      let tip: TRecordDocument | null = task;
+      for (const occurrence of upcoming) {
+        tip = await this.createOccurrence(tip, occurrence, task.createdBy);
+        if (!tip) break;
+        created++;
+      }
+    }
+
+    return created;
+  }
+
+  private async findTask(taskId: string, userId: string): Promise<TRecordDocument> {
+    const task = await RecordModel.findOne({ _id: taskId, isDeleted: { $ne: true } });
+    if (!task) {
+      throw createNotFoundError('Task', taskId);
+    }
+
+    const hasPermission = await permissionService.hasPermission(
+      EShareScope.RECORD,
+      taskId,
+      userId,
+      EPermissionLevel.EDIT
+    );
+    if (!hasPermission) {
+      throw createForbiddenError('Insufficient permissions to edit this task');
+    }
+
+    return task;
+  }
+
+  private async findRecurringTask(taskId: string, userId: string): Promise<TRecordDocument> {
+    const task = await this.findTask(taskId, userId);
+    if (!task.properties.is_recurring) {
+      throw createAppError('Task is not recurring', 400);
+    }
+
+    return task;
+  }
+
+  // Series settings are copied to each task, they change on the tasks that are still open
+  private async updateOpenTasks(task: TRecordDocument, changes: Record<string, unknown>) {
+    await RecordModel.updateMany(
+      {
+        databaseId: task.databaseId,
+        isDeleted: { $ne: true },
+        'properties.recurrence_series_id': task.properties.recurrence_series_id || task.id,
+        'properties.status': { $nin: [EStatus.COMPLETED, EStatus.CANCELLED] }
+      },
+      { $set: { ...changes, updatedAt: new Date() } }
+    );
+  }
+
+  private normalizeConfig(config: IRecurringTaskConfig): IRecurringTaskConfig {
+    return {
+      ...config,
+      interval: Math.max(1, config.interval || 1),
+      endDate: config.endDate ? new Date(config.endDate) : undefined,
+      scheduleFrom: config.scheduleFrom || 'due_date',
+      isPaused: config.isPaused || false
+    };
+  }
+
+  private getConfig(task: TRecordDocument): IRecurringTaskConfig | undefined {
+    return task.properties.recurrence_config as unknown as IRecurringTaskConfig | undefined;
+  }
+
+  private getDueDate(task: TRecordDocument): Date | undefined {
+    return task.properties.due_date ? new Date(task.properties.due_date as string) : undefined;
+  }
+
+  // Due date and number of the occurrence after a date, null when the series has ended
+  private getNextOccurrence(
+    task: TRecordDocument,
+    from: Date,
+    previousIndex: number = (task.properties.recurrence_index as number) || 1
+  ): { dueDate: Date; index: number } | null {
+    const config = this.getConfig(task);
+    if (!task.properties.is_recurring || !config) {
+      return null;
+    }
+
+    const dueDate = getNextRecurrenceDate(config, from);
+    const index = previousIndex + 1;
+
+    if (config.maxOccurrences && index > config.maxOccurrences) return null;
+    if (config.endDate && dueDate > new Date(config.endDate)) return null;
+
+    return { dueDate, index };
+  }
+
+  // Only the request that claims the next task slot of a task creates its occurrence,
+  // null when another one got there first
+  private async createOccurrence(
+    task: TRecordDocument,
+    next: { dueDate: Date; index: number },
+    userId: string
+  ): Promise<TRecordDocument | null> {
+    const occurrenceId = new Types.ObjectId();
+    const claimed = await RecordModel.findOneAndUpdate(
+      { _id: task._id, 'properties.recurrence_next_task_id': null },
+      { 'properties.recurrence_next_task_id': occurrenceId.toString(), updatedAt: new Date() },
+      { new: true }
+    ).exec();
+    if (!claimed) {
+      return null;
+    }
+
+    const dueDate = this.getDueDate(task);
+    const startDate = task.properties.start_date
+      ? new Date(task.properties.start_date as string)
+      : undefined;
+    // Start dates keep their distance to the due date
+    const nextStartDate =
+      startDate && dueDate
+        ? new Date(next.dueDate.getTime() - (dueDate.getTime() - startDate.getTime()))
+        : undefined;
+
+    const checklistItems = getObjectArrayProperty(task.properties, 'checklist_items');
+    const properties: Record<string, any> = {
+      ...task.properties,
+      status: EStatus.NOT_STARTED,
+      due_date: next.dueDate,
+      start_date: nextStartDate,
+      progress_percentage: 0,
+      completed_at: undefined,
+      completed_by: undefined,
+      checklist_items: checklistItems.map((item: any) => ({
+        ...item,
+        id: generateId(),
+        isCompleted: false,
+        completedAt: undefined,
+        completedBy: undefined
+      })),
+      time_entries: [],
+      total_time_spent: 0,
+      active_time_tracking: undefined,
+      comments: [],
+      comment_count: 0,
+      recurrence_series_id: task.properties.recurrence_series_id || task.id,
+      recurrence_index: next.index,
+      recurrence_next_task_id: undefined
+    };
+
+    const occurrence = new RecordModel({
+      _id: occurrenceId,
+      databaseId: task.databaseId,
+      properties,
+      content: task.content ? [...task.content] : [],
+      createdBy: task.createdBy,
+      updatedBy: userId,
+      lastEditedBy: userId,
+      lastEditedAt: new Date()
+    });
+
+    try {
+      await occurrence.save();
+    } catch (error) {
+      // Free the slot so the occurrence is created on a later run
+      await RecordModel.updateOne(
+        { _id: task._id, 'properties.recurrence_next_task_id': occurrenceId.toString() },
+        { 'properties.recurrence_next_task_id': null }
+      );
+      throw error;
+    }
+
+    await DatabaseModel.findByIdAndUpdate(task.databaseId, {
+      $inc: { recordCount: 1 },
+      lastActivityAt: new Date()
+    });
+
+    return occurrence;
+  }
+}
+
+export const recurringTasksService = new RecurringTasksService();
+
+/**
+ * Initialize the creation of upcoming recurring tasks
+ */
+export const initializeRecurringTasks = (): void => {
+  cron.schedule('15 * * * *', async () => {
+    try {
+      await recurringTasksService.createUpcomingOccurrences();
+    } catch (error) {
+      console.error('Error creating upcoming recurring tasks:', error);
+    }
+  });
+};
@@ -322,6 +322,15 @@ export class TasksService {
       progressPercentage: 100
     }, userId);
 
+    // Recurring tasks continue with their next occurrence
+    if (task.isRecurring) {
+      const { recurringTasksService } = await import('./recurring-tasks.services');
+      const taskRecord = await RecordModel.findById(id);
+      if (taskRecord) {
+        await recurringTasksService.createNextOccurrence(taskRecord, userId);
+      }
+    }
+
     // Send completion notification to other assignees
     try {
       const { createNotification } = await import('@/modules/system/services/notifications.service');
@@ -587,6 +596,10 @@ export class TasksService {
       completedBy: props.completed_by,
       isRecurring: props.is_recurring || false,
       recurrencePattern: props.recurrence_pattern,
+      recurrenceConfig: props.recurrence_config,
+      recurrenceSeriesId: props.recurrence_series_id,
+      recurrenceIndex: props.recurrence_index,
+      recurrenceNextTaskId: props.recurrence_next_task_id,
       progressPercentage: props.progress_percentage || 0,
       checklistItems: props.checklist_items || [],
       dependsOnTaskIds: props.depends_on_task_ids || [],
@@ -604,6 +617,7 @@ export class TasksService {
       'estimated_hours', 'actual_hours', 'project_id', 'project_name',
       'assignee_ids', 'assignee_names', 'parent_task_id', 'subtask_ids',
       'completed_at', 'completed_by', 'is_recurring', 'recurrence_pattern',
+      'recurrence_config', 'recurrence_series_id', 'recurrence_index', 'recurrence_next_task_id',
       'progress_percentage', 'checklist_items', 'depends_on_task_ids',
       'blocked_by_task_ids', 'time_entries', 'total_time_spent', 'labels'
     ]);
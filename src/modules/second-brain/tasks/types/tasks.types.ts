@@ -28,6 +28,10 @@ export interface ITask extends IRecord {
   completedBy?: string;
   isRecurring: boolean;
   recurrencePattern?: string;
+  recurrenceConfig?: IRecurringTaskConfig;
+  recurrenceSeriesId?: string; // First task of the series
+  recurrenceIndex?: number; // Occurrence number within the series, starting at 1
+  recurrenceNextTaskId?: string;
 
   // Progress tracking
   progressPercentage: number;
@@ -417,6 +421,9 @@ export interface IRecurringTaskConfig {
   dayOfMonth?: number; // for monthly pattern
   endDate?: Date;
   maxOccurrences?: number;
+  scheduleFrom?: 'due_date' | 'completion_date'; // Base of the next due date, defaults to due_date
+  createDaysAhead?: number; // Days before its due date the next task is created
+  isPaused?: boolean;
 }
 
 export interface ICreateRecurringTaskRequest extends ICreateTaskRequest {
@@ -1,4 +1,4 @@
-import { ITask, ITaskChecklistItem } from '../types/tasks.types';
+import { ITask, ITaskChecklistItem, IRecurringTaskConfig } from '../types/tasks.types';
 import { EStatus, EPriority } from '@/modules/core/types/common.types';
 
 // Calculate task progress based on checklist completion
@@ -331,3 +331,44 @@ export const getCommonTaskFilters = () => {
     notStarted: { status: EStatus.NOT_STARTED }
   };
 };
+
+// Get the due date following a date in a recurring task schedule, dates are taken in UTC
+export const getNextRecurrenceDate = (config: IRecurringTaskConfig, from: Date): Date => {
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  const interval = Math.max(1, config.interval || 1);
+
+  switch (config.pattern) {
+    case 'weekly': {
+      if (!config.daysOfWeek?.length) {
+        return new Date(from.getTime() + interval * 7 * DAY_MS);
+      }
+
+      // Weeks start on Sunday, only every interval-th week counts
+      const weekStart = from.getTime() - from.getUTCDay() * DAY_MS;
+      for (let day = 1; day <= interval * 7 + 7; day++) {
+        const date = new Date(from.getTime() + day * DAY_MS);
+        const week = Math.floor((date.getTime() - weekStart) / (7 * DAY_MS));
+        if (week % interval === 0 && config.daysOfWeek.includes(date.getUTCDay())) {
+          return date;
+        }
+      }
+      return new Date(from.getTime() + interval * 7 * DAY_MS);
+    }
+
+    case 'monthly':
+    case 'yearly': {
+      const months = config.pattern === 'monthly' ? interval : interval * 12;
+      const year = from.getUTCFullYear();
+      const month = from.getUTCMonth() + months;
+      const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+      const day = (config.pattern === 'monthly' && config.dayOfMonth) || from.getUTCDate();
+
+      const date = new Date(from);
+      date.setUTCFullYear(year, month, Math.min(day, daysInMonth));
+      return date;
+    }
+
+    default:
+      return new Date(from.getTime() + interval * DAY_MS);
+  }
+};
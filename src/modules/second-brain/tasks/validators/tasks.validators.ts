@@ -203,7 +203,9 @@ export const createRecurringTaskSchema = z
     daysOfWeek: z.array(z.number().min(0).max(6)).optional(), // 0 = Sunday
     dayOfMonth: z.number().min(1).max(31).optional(),
     endDate: z.string().datetime().optional().or(z.date().optional()),
-    maxOccurrences: z.number().min(1).optional()
+    maxOccurrences: z.number().min(1).optional(),
+    scheduleFrom: z.enum(['due_date', 'completion_date']).default('due_date'),
+    createDaysAhead: z.number().min(0).max(365).optional()
   })
   .refine(
     data => {
@@ -220,6 +222,10 @@ export const createRecurringTaskSchema = z
     }
   );
 
+export const createRecurringTaskRequestSchema = createTaskSchema.extend({
+  recurrenceConfig: createRecurringTaskSchema
+});
+
 // Task statistics query schema
 export const getTaskStatsQuerySchema = z.object({
   databaseId: z.string().optional(),
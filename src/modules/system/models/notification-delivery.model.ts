@@ -0,0 +1,117 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import {
+  INotificationDelivery,
+  ENotificationDeliveryStatus,
+  ENotificationMethod
+} from '../types/notifications.types';
+import { createBaseSchema, IBaseDocument, QueryHelpers } from '@/modules/core/models/base.model';
+
+export type TNotificationDeliveryDocument = INotificationDelivery & IBaseDocument;
+
+export type TNotificationDeliveryModel = Model<TNotificationDeliveryDocument, QueryHelpers>;
+
+// Successful deliveries are kept for a month, failures until an admin clears them
+const SENT_RETENTION_SECONDS = 30 * 24 * 60 * 60;
+
+const DeliveryAttemptSchema = new Schema(
+  {
+    attempt: {
+      type: Number,
+      required: true
+    },
+    status: {
+      type: String,
+      enum: Object.values(ENotificationDeliveryStatus),
+      required: true
+    },
+    startedAt: {
+      type: Date,
+      required: true
+    },
+    finishedAt: {
+      type: Date,
+      required: true
+    },
+    error: String,
+    errorCode: Number,
+    targets: {
+      sent: Number,
+      failed: Number,
+      pruned: Number
+    }
+  },
+  { _id: false }
+);
+
+const NotificationDeliverySchema = createBaseSchema({
+  notificationId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  userId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  workspaceId: {
+    type: String,
+    required: true
+  },
+  channel: {
+    type: String,
+    enum: [ENotificationMethod.EMAIL, ENotificationMethod.PUSH, ENotificationMethod.SMS],
+    required: true
+  },
+  status: {
+    type: String,
+    enum: Object.values(ENotificationDeliveryStatus),
+    default: ENotificationDeliveryStatus.QUEUED
+  },
+  attempts: {
+    type: [DeliveryAttemptSchema],
+    default: []
+  },
+  attemptCount: {
+    type: Number,
+    default: 0
+  },
+  maxAttempts: {
+    type: Number,
+    required: true
+  },
+  nextAttemptAt: {
+    type: Date
+  },
+  lockedUntil: {
+    type: Date
+  },
+  // Device tokens a push already reached, retries skip them
+  deliveredTargets: {
+    type: [String],
+    default: []
+  },
+  lastError: {
+    type: String
+  },
+  completedAt: {
+    type: Date
+  }
+});
+
+// Compound indexes
+NotificationDeliverySchema.index({ channel: 1, status: 1, nextAttemptAt: 1 });
+NotificationDeliverySchema.index({ status: 1, channel: 1, updatedAt: -1 });
+NotificationDeliverySchema.index({ notificationId: 1, channel: 1 }, { unique: true });
+NotificationDeliverySchema.index(
+  { completedAt: 1 },
+  {
+    expireAfterSeconds: SENT_RETENTION_SECONDS,
+    partialFilterExpression: { status: ENotificationDeliveryStatus.SENT }
+  }
+);
+
+export const NotificationDeliveryModel = mongoose.model<
+  TNotificationDeliveryDocument,
+  TNotificationDeliveryModel
+>('NotificationDelivery', NotificationDeliverySchema);
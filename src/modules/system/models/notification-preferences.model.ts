@@ -29,6 +29,7 @@ export interface INotificationPreferences {
     emailDigest: boolean;
     digestFrequency: 'daily' | 'weekly';
   };
+  lastDigestAt?: Date;
 }
 
 export type TNotificationPreferencesDocument = INotificationPreferences &
@@ -138,6 +139,9 @@ const NotificationPreferencesSchema = createBaseSchema(
         emailDigest: false,
         digestFrequency: 'daily'
       }
+    },
+    lastDigestAt: {
+      type: Date
     }
   },
   {
@@ -187,7 +191,7 @@ const NotificationPreferencesSchema = createBaseSchema(
 // Compound indexes
 NotificationPreferencesSchema.index({ userId: 1, workspaceId: 1 }, { unique: true });
 NotificationPreferencesSchema.index({ userId: 1, createdAt: -1 });
-
+NotificationPreferencesSchema.index({ 'globalSettings.emailDigest': 1, lastDigestAt: 1 });
 
 // Instance methods
 NotificationPreferencesSchema.methods.updatePreferences = function (
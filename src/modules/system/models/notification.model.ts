@@ -101,6 +101,9 @@ const NotificationSchema = createBaseSchema({
   readAt: {
     type: Date,
     index: true
+  },
+  digestedAt: {
+    type: Date
   }
 });
 
@@ -111,6 +114,7 @@ NotificationSchema.index({ userId: 1, status: 1 });
 NotificationSchema.index({ workspaceId: 1, createdAt: -1 });
 NotificationSchema.index({ userId: 1, workspaceId: 1, createdAt: -1 });
 NotificationSchema.index({ userId: 1, workspaceId: 1, readAt: 1 });
+NotificationSchema.index({ userId: 1, workspaceId: 1, readAt: 1, digestedAt: 1, createdAt: -1 });
 
 // Static methods
 NotificationSchema.statics.findByUser = function (
@@ -47,8 +47,36 @@ const VersionHistorySchema = createBaseSchema({
   }
 });
 
-// Compound indexes for efficient queries
-VersionHistorySchema.index({ entityId: 1, entityType: 1, version: 1 });
+// Compound indexes for efficient queries, a version number is taken once per entity
+VersionHistorySchema.index({ entityId: 1, entityType: 1, version: 1 }, { unique: true });
 VersionHistorySchema.index({ entityId: 1, entityType: 1, timestamp: -1 });
 
 export const VersionHistoryModel = mongoose.model('VersionHistory', VersionHistorySchema);
+
+const MAX_VERSION_ATTEMPTS = 5;
+
+/**
+ * Write the next version of an entity. The number follows the latest version and the
+ * unique index settles concurrent writers: the one losing the race retries with the
+ * following number.
+ */
+export const createNextVersion = async (
+  entityId: string,
+  entityType: string,
+  build: (version: number) => Record<string, unknown>
+): Promise<number> => {
+  for (let attempt = 1; ; attempt++) {
+    const latest = await VersionHistoryModel.findOne({ entityId, entityType })
+      .sort({ version: -1 })
+      .select('version')
+      .lean<{ version: number }>();
+    const version = (latest?.version || 0) + 1;
+
+    try {
+      await VersionHistoryModel.create({ ...build(version), entityId, entityType, version });
+      return version;
+    } catch (error: any) {
+      if (error.code !== 11000 || attempt >= MAX_VERSION_ATTEMPTS) throw error;
+    }
+  }
+};
@@ -13,7 +13,7 @@ import {
 } from '@/modules/system';
 import { createAppError } from '@/utils/error.utils';
 import { ActivityModel } from '../models/activity.model';
-import { VersionHistoryModel } from '../models/version-history.model';
+import { VersionHistoryModel, createNextVersion } from '../models/version-history.model';
 
 /**
  * Create a new activity record
@@ -300,23 +300,12 @@ const createVersionHistoryEntry = async (activity: IActivity): Promise<void> =>
     return;
   }
 
-  // Get the next version number
-  const existingCount = await VersionHistoryModel.countDocuments({
-    entityId: activity.entityId,
-    entityType: activity.entityType
-  }).exec();
-
-  const entry = {
-    entityId: activity.entityId,
-    entityType: activity.entityType,
-    version: existingCount + 1,
+  await createNextVersion(activity.entityId, activity.entityType, () => ({
     changes: activity.changes,
     userId: activity.userId,
     userName: activity.userName,
     timestamp: activity.timestamp
-  };
-
-  await VersionHistoryModel.create(entry);
+  }));
 };
 
 /**
@@ -492,7 +481,10 @@ const getActivityIcon = (type: EActivityType): string => {
     [EActivityType.VIEW_CREATED]: '👁️',
     [EActivityType.VIEW_UPDATED]: '📝',
     [EActivityType.VIEW_ACCESSED]: '👀',
-    [EActivityType.PAGE_VISITED]: '🏠'
+    [EActivityType.PAGE_VISITED]: '🏠',
+    [EActivityType.SHARE_LINK_CREATED]: '🔗',
+    [EActivityType.SHARE_LINK_ACCESSED]: '🌐',
+    [EActivityType.SHARE_LINK_REVOKED]: '⛓️'
   };
 
   return icons[type] || '📝';
@@ -1,4 +1,6 @@
 export * from './notifications.service';
+export * from './notification-digest.service';
+export * from './notification-delivery.service';
 export * from './activity.service';
 export * from './analytics.service';
 export * from './analytics-dashboard.service';
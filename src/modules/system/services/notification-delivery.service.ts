@@ -0,0 +1,704 @@
+import cron from 'node-cron';
+import { ObjectId } from 'mongodb';
+import { NotificationModel } from '../models/notification.model';
+import {
+  NotificationDeliveryModel,
+  TNotificationDeliveryDocument
+} from '../models/notification-delivery.model';
+import { DeviceTokenModel } from '../models/device-token.model';
+import {
+  ENotificationDeliveryStatus,
+  ENotificationMethod,
+  ENotificationPriority,
+  ENotificationStatus,
+  INotification,
+  INotificationDeliveryAttempt,
+  INotificationDeliveryReport,
+  INotificationDeliveryReportItem,
+  INotificationDeliveryReportQuery,
+  INotificationDeliveryStats,
+  IPushDeliveryResult,
+  TNotificationDeliveryChannel
+} from '../types/notifications.types';
+import { UserModel } from '@/modules/users/models/users.model';
+import { sendEmail } from '@/config/mailer';
+import { sendSMS } from '@/config/sms';
+import {
+  sendWebPushNotification,
+  sendFCMNotification,
+  IWebPushSubscription,
+  IPushNotificationPayload
+} from '@/config/push-notifications';
+import { compileEmailTemplate, ITemplateVariables } from '@/config/email-templates';
+import { createAppError, createBadRequestError, createNotFoundError } from '@/utils/error.utils';
+
+/**
+ * Persistent delivery queue of notifications. Every external channel of a notification
+ * gets a delivery that a worker of that channel claims, sends and retries with
+ * exponential backoff. Each attempt is recorded with the status it moved the delivery
+ * to, so failures stay visible to admins instead of being lost in the logs.
+ */
+
+export const DELIVERY_CHANNELS: TNotificationDeliveryChannel[] = [
+  ENotificationMethod.EMAIL,
+  ENotificationMethod.PUSH,
+  ENotificationMethod.SMS
+];
+
+const MAX_ATTEMPTS: Record<TNotificationDeliveryChannel, number> = {
+  [ENotificationMethod.EMAIL]: 6,
+  [ENotificationMethod.PUSH]: 5,
+  [ENotificationMethod.SMS]: 4
+};
+
+const BASE_RETRY_DELAY = 30 * 1000;
+const MAX_RETRY_DELAY = 60 * 60 * 1000;
+
+// A worker that crashed mid-send releases its delivery once the lock expires
+const LOCK_DURATION = 2 * 60 * 1000;
+const BATCH_SIZE = 50;
+
+const ACTIVE_STATUSES = [
+  ENotificationDeliveryStatus.QUEUED,
+  ENotificationDeliveryStatus.PROCESSING,
+  ENotificationDeliveryStatus.RETRYING
+];
+
+interface IChannelOutcome {
+  status: ENotificationDeliveryStatus;
+  error?: string;
+  errorCode?: number;
+  targets?: INotificationDeliveryAttempt['targets'];
+  deliveredTargets?: string[];
+}
+
+const runningWorkers = new Set<TNotificationDeliveryChannel>();
+
+export const isDeliveryChannel = (
+  method: ENotificationMethod
+): method is TNotificationDeliveryChannel =>
+  DELIVERY_CHANNELS.includes(method as TNotificationDeliveryChannel);
+
+/**
+ * Delay before the next attempt: 30s, 1m, 2m, 4m... capped at an hour, with up to 20%
+ * jitter so deliveries failing together do not retry together
+ */
+export const getRetryDelay = (attempt: number): number => {
+  const delay = Math.min(BASE_RETRY_DELAY * 2 ** Math.max(attempt - 1, 0), MAX_RETRY_DELAY);
+  return Math.round(delay * (1 + Math.random() * 0.2));
+};
+
+// Rejections of the request itself (4xx) will fail again, everything else may recover
+const isRetryableError = (error: any): boolean =>
+  !(error?.statusCode >= 400 && error?.statusCode < 500);
+
+/**
+ * Send a push payload to the active devices of a user. Devices the push service
+ * rejects are deactivated, other failures are reported so the delivery can retry.
+ */
+export const sendPushToUser = async (
+  userId: string,
+  payload: IPushNotificationPayload,
+  options: { urgent?: boolean; category?: string; excludeTokenIds?: readonly string[] } = {}
+): Promise<IPushDeliveryResult> => {
+  const userTokens = await DeviceTokenModel.findActiveByUser(userId);
+  const excluded = new Set(options.excludeTokenIds || []);
+  const result = {
+    sent: 0,
+    failed: 0,
+    pruned: 0,
+    deliveredTokenIds: [] as string[],
+    errors: [] as string[]
+  };
+
+  for (const tokenDoc of userTokens || []) {
+    if (excluded.has(tokenDoc.id)) continue;
+
+    try {
+      if (tokenDoc.type === 'fcm' && tokenDoc.token) {
+        await sendFCMNotification({
+          token: tokenDoc.token,
+          notification: {
+            title: payload.title,
+            body: payload.body,
+            imageUrl: payload.image
+          },
+          data: Object.fromEntries(
+            Object.entries(payload.data || {}).map(([k, v]) => [k, String(v)])
+          ),
+          android: {
+            priority: options.urgent ? 'high' : 'normal',
+            notification: {
+              icon: 'notification_icon',
+              color: '#667eea',
+              tag: payload.tag,
+              clickAction: payload.url
+            }
+          },
+          apns: {
+            payload: {
+              aps: {
+                alert: {
+                  title: payload.title,
+                  body: payload.body
+                },
+                badge: 1,
+                sound: 'default',
+                category: options.category
+              }
+            }
+          }
+        });
+      } else if (tokenDoc.type === 'webpush' && tokenDoc.endpoint && tokenDoc.keys) {
+        const subscription: IWebPushSubscription = {
+          endpoint: tokenDoc.endpoint,
+          keys: tokenDoc.keys
+        };
+        await sendWebPushNotification(subscription, payload);
+      } else {
+        continue;
+      }
+
+      // Mark token as used
+      await tokenDoc.markAsUsed();
+      result.sent++;
+      result.deliveredTokenIds.push(tokenDoc.id);
+    } catch (error: any) {
+      if (error?.statusCode === 410) {
+        await tokenDoc.deactivate();
+        result.pruned++;
+      } else {
+        result.failed++;
+        result.errors.push(error?.message || 'Unknown push error');
+      }
+    }
+  }
+
+  return result;
+};
+
+const sendEmailDelivery = async (notification: INotification): Promise<IChannelOutcome> => {
+  let email = notification.metadata.userEmail as string | undefined;
+  let userName = notification.metadata.userName as string | undefined;
+
+  if (!email) {
+    const user = await UserModel.findById(notification.userId)
+      .select('email firstName lastName')
+      .lean();
+    email = user?.email;
+    userName = userName || [user?.firstName, user?.lastName].filter(Boolean).join(' ');
+  }
+  if (!email) {
+    throw createAppError('User has no email address', 422);
+  }
+
+  // Prepare template variables
+  const templateVars: ITemplateVariables = {
+    userName: userName || 'User',
+    taskName: notification.metadata.taskName as string,
+    taskDueDate: notification.metadata.dueDate as string,
+    taskPriority: notification.metadata.priority as string,
+    projectName: notification.metadata.projectName as string,
+    mentionedBy: notification.metadata.mentionedBy as string,
+    entityName: (notification.metadata.entityName as string) || notification.title,
+    entityType: notification.entityType || 'item',
+    dueDate: notification.metadata.dueDate as string,
+    overdueDays: notification.metadata.overdueDays as number,
+    workspaceName: (notification.metadata.workspaceName as string) || 'Second Brain',
+    actionUrl: `${process.env.APP_URL}/notifications/${notification.id}`
+  };
+
+  const { subject, html, text } = compileEmailTemplate(notification.type, templateVars);
+
+  const sent = await sendEmail({ to: email, subject, html, text });
+  if (!sent) {
+    throw createAppError('Mail server did not accept the email', 502);
+  }
+
+  return { status: ENotificationDeliveryStatus.SENT };
+};
+
+const sendSMSDelivery = async (notification: INotification): Promise<IChannelOutcome> => {
+  const phoneNumber = notification.metadata.phoneNumber as string | undefined;
+  if (!phoneNumber) {
+    throw createAppError('User has no phone number', 422);
+  }
+
+  const sent = await sendSMS({
+    to: phoneNumber,
+    body: `${notification.title}: ${notification.message}`
+  });
+  if (!sent) {
+    throw createAppError('SMS provider did not accept the message', 502);
+  }
+
+  return { status: ENotificationDeliveryStatus.SENT };
+};
+
+const sendPushDelivery = async (
+  notification: INotification,
+  delivery: TNotificationDeliveryDocument
+): Promise<IChannelOutcome> => {
+  const payload: IPushNotificationPayload = {
+    title: notification.title,
+    body: notification.message,
+    icon: '/icons/notification-icon.png',
+    badge: '/icons/badge-icon.png',
+    data: {
+      notificationId: notification.id,
+      type: notification.type,
+      entityId: notification.entityId,
+      entityType: notification.entityType,
+      ...notification.metadata
+    },
+    actions: [
+      {
+        action: 'view',
+        title: 'View',
+        icon: '/icons/view-icon.png'
+      },
+      {
+        action: 'dismiss',
+        title: 'Dismiss',
+        icon: '/icons/dismiss-icon.png'
+      }
+    ],
+    requireInteraction: notification.priority === ENotificationPriority.URGENT,
+    tag: `${notification.type}-${notification.entityId}`,
+    url: `${process.env.APP_URL}/notifications/${notification.id}`
+  };
+
+  const result = await sendPushToUser(notification.userId, payload, {
+    urgent: notification.priority === ENotificationPriority.URGENT,
+    category: notification.type,
+    excludeTokenIds: delivery.deliveredTargets
+  });
+
+  const deliveredTargets = [...delivery.deliveredTargets, ...result.deliveredTokenIds];
+  const targets = { sent: result.sent, failed: result.failed, pruned: result.pruned };
+
+  if (result.failed > 0) {
+    return {
+      status: ENotificationDeliveryStatus.RETRYING,
+      error: result.errors[0],
+      errorCode: 502,
+      targets,
+      deliveredTargets
+    };
+  }
+
+  if (deliveredTargets.length > 0) {
+    return { status: ENotificationDeliveryStatus.SENT, targets, deliveredTargets };
+  }
+
+  // Nothing reached: the user has no device, or every device was rejected
+  return result.pruned > 0
+    ? {
+        status: ENotificationDeliveryStatus.FAILED,
+        error: 'All devices of the user were rejected by the push service',
+        errorCode: 410,
+        targets,
+        deliveredTargets
+      }
+    : {
+        status: ENotificationDeliveryStatus.CANCELLED,
+        error: 'User has no active device',
+        targets,
+        deliveredTargets
+      };
+};
+
+const sendDelivery = async (delivery: TNotificationDeliveryDocument): Promise<IChannelOutcome> => {
+  const notification = await NotificationModel.findOne({
+    _id: delivery.notificationId,
+    isDeleted: { $ne: true }
+  });
+  if (!notification) {
+    return { status: ENotificationDeliveryStatus.CANCELLED, error: 'Notification was deleted' };
+  }
+  if (notification.readAt) {
+    return {
+      status: ENotificationDeliveryStatus.CANCELLED,
+      error: 'Notification was read before it was delivered'
+    };
+  }
+
+  try {
+    switch (delivery.channel) {
+      case ENotificationMethod.EMAIL:
+        return await sendEmailDelivery(notification);
+      case ENotificationMethod.SMS:
+        return await sendSMSDelivery(notification);
+      default:
+        return await sendPushDelivery(notification, delivery);
+    }
+  } catch (error: any) {
+    return {
+      status: isRetryableError(error)
+        ? ENotificationDeliveryStatus.RETRYING
+        : ENotificationDeliveryStatus.FAILED,
+      error: error?.message || 'Unknown delivery error',
+      errorCode: error?.statusCode
+    };
+  }
+};
+
+/**
+ * Sent once any channel delivered it, failed once every channel is done and none did
+ */
+const syncNotificationStatus = async (notificationId: string): Promise<void> => {
+  const deliveries = await NotificationDeliveryModel.find({ notificationId })
+    .select('status')
+    .lean();
+  if (deliveries.some(delivery => ACTIVE_STATUSES.includes(delivery.status))) return;
+
+  const statuses = deliveries.map(delivery => delivery.status);
+  const failed =
+    statuses.includes(ENotificationDeliveryStatus.FAILED) &&
+    !statuses.includes(ENotificationDeliveryStatus.SENT);
+
+  await NotificationModel.updateOne(
+    {
+      _id: notificationId,
+      status: { $in: [ENotificationStatus.PENDING, ENotificationStatus.FAILED] }
+    },
+    {
+      $set: failed
+        ? { status: ENotificationStatus.FAILED }
+        : { status: ENotificationStatus.SENT, sentAt: new Date() }
+    }
+  );
+};
+
+const processDelivery = async (delivery: TNotificationDeliveryDocument): Promise<void> => {
+  const startedAt = new Date();
+  let outcome = await sendDelivery(delivery);
+
+  // Out of attempts, the delivery is reported as failed
+  if (
+    outcome.status === ENotificationDeliveryStatus.RETRYING &&
+    delivery.attemptCount >= delivery.maxAttempts
+  ) {
+    outcome = { ...outcome, status: ENotificationDeliveryStatus.FAILED };
+  }
+
+  const finishedAt = new Date();
+  const attempt: INotificationDeliveryAttempt = {
+    attempt: delivery.attemptCount,
+    status: outcome.status,
+    startedAt,
+    finishedAt,
+    error: outcome.error,
+    errorCode: outcome.errorCode,
+    targets: outcome.targets
+  };
+  const retrying = outcome.status === ENotificationDeliveryStatus.RETRYING;
+
+  await NotificationDeliveryModel.updateOne(
+    { _id: delivery._id },
+    {
+      $set: {
+        status: outcome.status,
+        lockedUntil: null,
+        nextAttemptAt: retrying
+          ? new Date(finishedAt.getTime() + getRetryDelay(delivery.attemptCount))
+          : null,
+        completedAt: retrying ? null : finishedAt,
+        lastError: outcome.error,
+        ...(outcome.deliveredTargets ? { deliveredTargets: outcome.deliveredTargets } : {})
+      },
+      $push: { attempts: attempt }
+    }
+  );
+
+  if (!retrying) {
+    await syncNotificationStatus(delivery.notificationId);
+  }
+};
+
+// Claims the next due delivery of a channel, or one whose worker lost its lock
+const claimNextDelivery = (channel: TNotificationDeliveryChannel, now: Date) =>
+  NotificationDeliveryModel.findOneAndUpdate(
+    {
+      channel,
+      $or: [
+        {
+          status: {
+            $in: [ENotificationDeliveryStatus.QUEUED, ENotificationDeliveryStatus.RETRYING]
+          },
+          nextAttemptAt: { $lte: now }
+        },
+        { status: ENotificationDeliveryStatus.PROCESSING, lockedUntil: { $lte: now } }
+      ]
+    },
+    {
+      $set: {
+        status: ENotificationDeliveryStatus.PROCESSING,
+        lockedUntil: new Date(now.getTime() + LOCK_DURATION)
+      },
+      $inc: { attemptCount: 1 }
+    },
+    { sort: { nextAttemptAt: 1 }, new: true }
+  );
+
+/**
+ * Worker of one channel: sends the due deliveries one at a time. Returns the number of
+ * deliveries processed; a run already going for the channel makes this a no-op.
+ */
+export const processDeliveryQueue = async (
+  channel: TNotificationDeliveryChannel
+): Promise<number> => {
+  if (runningWorkers.has(channel)) return 0;
+  runningWorkers.add(channel);
+
+  let processed = 0;
+  try {
+    while (processed < BATCH_SIZE) {
+      const delivery = await claimNextDelivery(channel, new Date());
+      if (!delivery) break;
+
+      await processDelivery(delivery);
+      processed++;
+    }
+  } catch (error) {
+    console.error(`Error in ${channel} delivery worker:`, error);
+  } finally {
+    runningWorkers.delete(channel);
+  }
+
+  return processed;
+};
+
+/**
+ * Queue the delivery of a notification over external channels. Workers are started
+ * right away so delivery is not delayed until their next scheduled run.
+ */
+export const enqueueNotificationDeliveries = async (
+  notification: INotification,
+  channels: readonly TNotificationDeliveryChannel[]
+): Promise<void> => {
+  const unique = [...new Set(channels)];
+  if (unique.length === 0) return;
+
+  const now = new Date();
+  await NotificationDeliveryModel.bulkWrite(
+    unique.map(channel => ({
+      updateOne: {
+        filter: { notificationId: notification.id, channel },
+        update: {
+          $setOnInsert: {
+            notificationId: notification.id,
+            userId: notification.userId,
+            workspaceId: notification.workspaceId,
+            channel,
+            status: ENotificationDeliveryStatus.QUEUED,
+            maxAttempts: MAX_ATTEMPTS[channel],
+            nextAttemptAt: now,
+            createdBy: notification.userId
+          }
+        },
+        upsert: true
+      }
+    }))
+  );
+
+  unique.forEach(channel => {
+    void processDeliveryQueue(channel);
+  });
+};
+
+const formatDeliveryReportItem = (
+  delivery: TNotificationDeliveryDocument,
+  notification?: Pick<INotification, 'type' | 'title'>
+): INotificationDeliveryReportItem => ({
+  id: String(delivery._id),
+  notificationId: delivery.notificationId,
+  notificationType: notification?.type,
+  notificationTitle: notification?.title,
+  userId: delivery.userId,
+  workspaceId: delivery.workspaceId,
+  channel: delivery.channel,
+  status: delivery.status,
+  attemptCount: delivery.attemptCount,
+  maxAttempts: delivery.maxAttempts,
+  lastError: delivery.lastError,
+  nextAttemptAt: delivery.nextAttemptAt,
+  completedAt: delivery.completedAt,
+  attempts: delivery.attempts,
+  createdAt: delivery.createdAt
+});
+
+/**
+ * Deliveries for the admin report, failed ones unless another status is asked for
+ */
+export const getDeliveryReport = async (
+  query: INotificationDeliveryReportQuery = {}
+): Promise<INotificationDeliveryReport> => {
+  try {
+    const filter: Record<string, unknown> = {
+      status: query.status || ENotificationDeliveryStatus.FAILED
+    };
+    if (query.channel) filter.channel = query.channel;
+    if (query.userId) filter.userId = query.userId;
+    if (query.workspaceId) filter.workspaceId = query.workspaceId;
+    if (query.since) filter.updatedAt = { $gte: query.since };
+
+    const page = Math.max(query.page || 1, 1);
+    const limit = Math.min(Math.max(query.limit || 20, 1), 100);
+
+    const [deliveries, total] = await Promise.all([
+      NotificationDeliveryModel.find(filter)
+        .sort({ updatedAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean<TNotificationDeliveryDocument[]>(),
+      NotificationDeliveryModel.countDocuments(filter)
+    ]);
+
+    const notifications = await NotificationModel.find({
+      _id: { $in: deliveries.map(delivery => delivery.notificationId) }
+    })
+      .select('type title')
+      .lean();
+    const notificationsById = new Map(
+      notifications.map(notification => [notification._id.toString(), notification])
+    );
+
+    const totalPages = Math.ceil(total / limit);
+    return {
+      deliveries: deliveries.map(delivery =>
+        formatDeliveryReportItem(delivery, notificationsById.get(delivery.notificationId))
+      ),
+      pagination: {
+        currentPage: page,
+        totalPages,
+        total,
+        hasNext: page < totalPages,
+        hasPrev: page > 1
+      }
+    };
+  } catch (error: any) {
+    if (error.statusCode) throw error;
+    throw createAppError(`Failed to get delivery report: ${error.message}`, 500);
+  }
+};
+
+/**
+ * Delivery counts per channel and status, the most common errors and the number of
+ * device tokens pruned since a date (default: the last 7 days)
+ */
+export const getDeliveryStats = async (since?: Date): Promise<INotificationDeliveryStats> => {
+  try {
+    const from = since || new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+    const match = { updatedAt: { $gte: from } };
+
+    const [counts, errors, pruned] = await Promise.all([
+      NotificationDeliveryModel.aggregate<{
+        _id: { channel: TNotificationDeliveryChannel; status: ENotificationDeliveryStatus };
+        count: number;
+      }>([
+        { $match: match },
+        { $group: { _id: { channel: '$channel', status: '$status' }, count: { $sum: 1 } } }
+      ]),
+      NotificationDeliveryModel.aggregate<{ _id: string; count: number }>([
+        { $match: { ...match, status: ENotificationDeliveryStatus.FAILED } },
+        { $group: { _id: '$lastError', count: { $sum: 1 } } },
+        { $sort: { count: -1 } },
+        { $limit: 10 }
+      ]),
+      NotificationDeliveryModel.aggregate<{ total: number }>([
+        { $match: { ...match, channel: ENotificationMethod.PUSH } },
+        { $unwind: '$attempts' },
+        { $match: { 'attempts.startedAt': { $gte: from } } },
+        { $group: { _id: null, total: { $sum: { $ifNull: ['$attempts.targets.pruned', 0] } } } }
+      ])
+    ]);
+
+    const byChannel = Object.fromEntries(
+      DELIVERY_CHANNELS.map(channel => [channel, {}])
+    ) as INotificationDeliveryStats['byChannel'];
+    counts.forEach(({ _id, count }) => {
+      byChannel[_id.channel] = { ...byChannel[_id.channel], [_id.status]: count };
+    });
+
+    return {
+      since: from,
+      byChannel,
+      topErrors: errors.map(error => ({ error: error._id || 'Unknown error', count: error.count })),
+      prunedDeviceTokens: pruned[0]?.total || 0
+    };
+  } catch (error: any) {
+    if (error.statusCode) throw error;
+    throw createAppError(`Failed to get delivery stats: ${error.message}`, 500);
+  }
+};
+
+/**
+ * Queue a failed or cancelled delivery again with a fresh set of attempts
+ */
+export const retryDelivery = async (
+  deliveryId: string
+): Promise<INotificationDeliveryReportItem> => {
+  try {
+    if (!ObjectId.isValid(deliveryId))
+      throw createNotFoundError('Notification delivery', deliveryId);
+
+    const delivery = await NotificationDeliveryModel.findById(deliveryId);
+    if (!delivery) throw createNotFoundError('Notification delivery', deliveryId);
+
+    if (
+      ![ENotificationDeliveryStatus.FAILED, ENotificationDeliveryStatus.CANCELLED].includes(
+        delivery.status
+      )
+    ) {
+      throw createBadRequestError('Only failed or cancelled deliveries can be retried');
+    }
+
+    const updated = await NotificationDeliveryModel.findOneAndUpdate(
+      { _id: delivery._id, status: delivery.status },
+      {
+        $set: {
+          status: ENotificationDeliveryStatus.QUEUED,
+          nextAttemptAt: new Date(),
+          maxAttempts: delivery.attemptCount + MAX_ATTEMPTS[delivery.channel],
+          completedAt: null
+        }
+      },
+      { new: true }
+    );
+    if (!updated) throw createNotFoundError('Notification delivery', deliveryId);
+
+    await NotificationModel.updateOne(
+      { _id: delivery.notificationId, status: ENotificationStatus.FAILED },
+      { $set: { status: ENotificationStatus.PENDING } }
+    );
+
+    void processDeliveryQueue(updated.channel);
+
+    return formatDeliveryReportItem(updated);
+  } catch (error: any) {
+    if (error.statusCode) throw error;
+    throw createAppError(`Failed to retry delivery: ${error.message}`, 500);
+  }
+};
+
+/**
+ * Initialize the delivery workers, one per channel
+ */
+export const initializeNotificationDelivery = (): void => {
+  console.log('📨 Initializing Notification Delivery Queue...');
+
+  // Deliveries are queued with the workers kicked off, this picks up retries
+  cron.schedule('*/15 * * * * *', async () => {
+    await Promise.all(DELIVERY_CHANNELS.map(channel => processDeliveryQueue(channel)));
+  });
+};
+
+export const notificationDeliveryService = {
+  enqueueNotificationDeliveries,
+  processDeliveryQueue,
+  sendPushToUser,
+  getDeliveryReport,
+  getDeliveryStats,
+  retryDelivery
+};
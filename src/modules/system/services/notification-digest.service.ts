@@ -0,0 +1,326 @@
+import cron from 'node-cron';
+import { NotificationModel } from '../models/notification.model';
+import {
+  NotificationPreferencesModel,
+  TNotificationPreferencesDocument
+} from '../models/notification-preferences.model';
+import {
+  ENotificationMethod,
+  ENotificationType,
+  INotification,
+  INotificationDigest,
+  INotificationDigestGroup,
+  INotificationDigestRunResult,
+  INotificationDigestWorkspace,
+  INotificationPreferences
+} from '../types/notifications.types';
+import { isDeferredToDigest, isInQuietHours } from './notifications.service';
+import { sendPushToUser } from './notification-delivery.service';
+import { emailService } from '@/modules/email/services/email.services';
+import { UserModel } from '@/modules/users/models/users.model';
+import { WorkspaceModel } from '@/modules/workspace/models/workspace.model';
+
+const DIGEST_PERIODS: Record<'daily' | 'weekly', number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000
+};
+
+// The job runs hourly, a digest is due slightly early rather than an hour late
+const DUE_TOLERANCE = 5 * 60 * 1000;
+
+const MAX_DIGEST_NOTIFICATIONS = 500;
+const MAX_TITLES_PER_GROUP = 5;
+
+const TYPE_LABELS: Record<ENotificationType, string> = {
+  [ENotificationType.TASK_DUE]: 'Tasks due',
+  [ENotificationType.TASK_OVERDUE]: 'Overdue tasks',
+  [ENotificationType.TASK_ASSIGNED]: 'Assigned to you',
+  [ENotificationType.TASK_COMPLETED]: 'Completed tasks',
+  [ENotificationType.MENTION]: 'Mentions',
+  [ENotificationType.COMMENT]: 'Comments',
+  [ENotificationType.GOAL_DEADLINE]: 'Goal deadlines',
+  [ENotificationType.HABIT_REMINDER]: 'Habit reminders',
+  [ENotificationType.PROJECT_UPDATE]: 'Project updates',
+  [ENotificationType.FINANCE_BUDGET]: 'Budget alerts',
+  [ENotificationType.SYSTEM_UPDATE]: 'System updates',
+  [ENotificationType.COLLABORATION]: 'Collaboration'
+};
+
+type TDigestNotification = INotification & { _id: { toString(): string } };
+
+const toPreferences = (prefs: TNotificationPreferencesDocument): INotificationPreferences =>
+  prefs.toObject({ flattenMaps: true }) as unknown as INotificationPreferences;
+
+const isDigestDue = (prefs: INotificationPreferences, now: Date): boolean => {
+  if (!prefs.lastDigestAt) return true;
+  const period = DIGEST_PERIODS[prefs.globalSettings.digestFrequency] || DIGEST_PERIODS.daily;
+  return now.getTime() - new Date(prefs.lastDigestAt).getTime() >= period - DUE_TOLERANCE;
+};
+
+const getDigestStart = (prefs: INotificationPreferences, now: Date): Date => {
+  if (prefs.lastDigestAt) return new Date(prefs.lastDigestAt);
+  const period = DIGEST_PERIODS[prefs.globalSettings.digestFrequency] || DIGEST_PERIODS.daily;
+  return new Date(now.getTime() - period);
+};
+
+const getEntityName = (notification: INotification): string | undefined =>
+  (notification.metadata?.entityName as string) ||
+  (notification.metadata?.taskName as string) ||
+  undefined;
+
+/**
+ * Group notifications by workspace, then by type and entity. Groups with the most
+ * recent activity come first.
+ */
+export const groupDigestNotifications = (
+  notifications: TDigestNotification[],
+  workspaceNames: Map<string, string>
+): INotificationDigestWorkspace[] => {
+  const workspaces = new Map<string, Map<string, TDigestNotification[]>>();
+
+  for (const notification of notifications) {
+    const groups = workspaces.get(notification.workspaceId) || new Map();
+    const key = `${notification.type}:${notification.entityType || ''}:${notification.entityId || ''}`;
+    groups.set(key, [...(groups.get(key) || []), notification]);
+    workspaces.set(notification.workspaceId, groups);
+  }
+
+  return [...workspaces.entries()].map(([workspaceId, groups]) => ({
+    workspaceId,
+    workspaceName: workspaceNames.get(workspaceId) || 'Workspace',
+    groups: [...groups.values()]
+      .map((items): INotificationDigestGroup => {
+        const sorted = [...items].sort(
+          (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+        );
+        const latest = sorted[0];
+        return {
+          type: latest.type,
+          label: TYPE_LABELS[latest.type] || latest.type,
+          entityId: latest.entityId,
+          entityType: latest.entityType,
+          entityName: sorted.map(getEntityName).find(Boolean),
+          count: sorted.length,
+          titles: sorted.slice(0, MAX_TITLES_PER_GROUP).map(item => item.title),
+          latestAt: latest.createdAt
+        };
+      })
+      .sort((a, b) => new Date(b.latestAt).getTime() - new Date(a.latestAt).getTime())
+  }));
+};
+
+/**
+ * Build the digest of a user from the unread notifications of the workspaces whose
+ * digest is due, that were not part of an earlier digest
+ */
+export const buildNotificationDigest = async (
+  userId: string,
+  preferences: INotificationPreferences[],
+  now = new Date()
+): Promise<INotificationDigest | null> => {
+  const notifications = await NotificationModel.find({
+    userId,
+    readAt: null,
+    digestedAt: null,
+    isDeleted: { $ne: true },
+    isArchived: { $ne: true },
+    $or: preferences.map(prefs => ({
+      workspaceId: prefs.workspaceId,
+      createdAt: { $gt: getDigestStart(prefs, now), $lte: now }
+    }))
+  })
+    .sort({ createdAt: -1 })
+    .limit(MAX_DIGEST_NOTIFICATIONS)
+    .lean<TDigestNotification[]>();
+
+  if (notifications.length === 0) return null;
+
+  const workspaceIds = [...new Set(notifications.map(notification => notification.workspaceId))];
+  const workspaces = await WorkspaceModel.find({ _id: { $in: workspaceIds } })
+    .select('name')
+    .lean();
+  const workspaceNames = new Map(
+    workspaces.map(workspace => [workspace._id.toString(), workspace.name])
+  );
+
+  // Weekly wins when workspaces disagree, the digest covers the longest period
+  const frequency = preferences.some(prefs => prefs.globalSettings.digestFrequency === 'weekly')
+    ? 'weekly'
+    : 'daily';
+
+  return {
+    userId,
+    frequency,
+    total: notifications.length,
+    workspaces: groupDigestNotifications(notifications, workspaceNames),
+    notificationIds: notifications.map(notification => notification._id.toString())
+  };
+};
+
+const sendDigest = async (digest: INotificationDigest, deferredPush: boolean): Promise<boolean> => {
+  const user = await UserModel.findById(digest.userId).select('firstName lastName email').lean();
+  if (!user?.email) return false;
+
+  const baseUrl = process.env.APP_URL || process.env.FRONTEND_URL || 'http://localhost:5000';
+  const sent = await emailService.sendNotificationDigestEmail({
+    email: user.email,
+    userName: [user.firstName, user.lastName].filter(Boolean).join(' ') || 'there',
+    frequency: digest.frequency,
+    total: digest.total,
+    workspaces: digest.workspaces.map(workspace => ({
+      workspaceName: workspace.workspaceName,
+      groups: workspace.groups.map(group => ({
+        label: group.label,
+        entityName: group.entityName,
+        count: group.count,
+        titles: [...group.titles],
+        actionUrl: group.entityId
+          ? `${baseUrl}/notifications?entityId=${encodeURIComponent(group.entityId)}`
+          : undefined
+      }))
+    }))
+  });
+  if (!sent) return false;
+
+  // Pushes held back for the digest are replaced by a single summary
+  if (deferredPush) {
+    try {
+      await sendPushToUser(digest.userId, {
+        title: `Your ${digest.frequency} digest`,
+        body: `You have ${digest.total} unread notification${digest.total === 1 ? '' : 's'}`,
+        icon: '/icons/notification-icon.png',
+        badge: '/icons/badge-icon.png',
+        data: { type: 'digest', total: digest.total },
+        tag: 'notification-digest',
+        url: `${baseUrl}/notifications`
+      });
+    } catch (error) {
+      console.error('Failed to send digest push notification:', error);
+    }
+  }
+
+  return true;
+};
+
+/**
+ * Send the digests that are due. Users in their quiet hours get their digest on a
+ * later run; notifications are only marked as digested once the email went out.
+ */
+export const processNotificationDigests = async (
+  now = new Date()
+): Promise<INotificationDigestRunResult> => {
+  const candidates = await NotificationPreferencesModel.find({
+    'globalSettings.emailDigest': true,
+    'globalSettings.enabled': { $ne: false },
+    isDeleted: { $ne: true },
+    isArchived: { $ne: true }
+  });
+
+  const dueByUser = new Map<string, TNotificationPreferencesDocument[]>();
+  let skippedQuietHours = 0;
+
+  for (const doc of candidates) {
+    const prefs = toPreferences(doc);
+    if (!isDigestDue(prefs, now)) continue;
+    if (isInQuietHours(prefs, now)) {
+      skippedQuietHours++;
+      continue;
+    }
+    dueByUser.set(doc.userId, [...(dueByUser.get(doc.userId) || []), doc]);
+  }
+
+  let digestsSent = 0;
+  let notificationsDigested = 0;
+  let failed = 0;
+
+  for (const [userId, due] of dueByUser) {
+    // Every instance runs this job, only the one moving lastDigestAt on sends the digest
+    const docs: TNotificationPreferencesDocument[] = [];
+    for (const doc of due) {
+      const claimed = await NotificationPreferencesModel.findOneAndUpdate(
+        { _id: doc._id, lastDigestAt: doc.lastDigestAt ?? null },
+        { $set: { lastDigestAt: now } }
+      );
+      if (claimed) docs.push(doc);
+    }
+    if (docs.length === 0) continue;
+
+    // A digest that did not go out is left due for the next run
+    const release = () =>
+      Promise.all(
+        docs.map(doc =>
+          NotificationPreferencesModel.updateOne(
+            { _id: doc._id, lastDigestAt: now },
+            { $set: { lastDigestAt: doc.lastDigestAt ?? null } }
+          )
+        )
+      );
+
+    try {
+      const preferences = docs.map(toPreferences);
+      const digest = await buildNotificationDigest(userId, preferences, now);
+
+      if (digest) {
+        const notifications = await NotificationModel.find({ _id: { $in: digest.notificationIds } })
+          .select('type priority workspaceId methods')
+          .lean<INotification[]>();
+        const prefsByWorkspace = new Map(preferences.map(prefs => [prefs.workspaceId, prefs]));
+        const deferredPush = notifications.some(notification => {
+          const prefs = prefsByWorkspace.get(notification.workspaceId);
+          const methods = prefs?.preferences?.[notification.type]?.methods || notification.methods;
+          return (
+            methods?.includes(ENotificationMethod.PUSH) &&
+            isDeferredToDigest(ENotificationMethod.PUSH, notification, prefs)
+          );
+        });
+
+        const sent = await sendDigest(digest, deferredPush);
+        if (!sent) {
+          failed++;
+          await release();
+          continue;
+        }
+
+        await NotificationModel.updateMany(
+          { _id: { $in: digest.notificationIds } },
+          { $set: { digestedAt: now } }
+        );
+        digestsSent++;
+        notificationsDigested += digest.total;
+      }
+      // Without notifications the period still counts, the next digest starts from now
+    } catch (error) {
+      failed++;
+      console.error(`Failed to send notification digest to user ${userId}:`, error);
+      await release().catch(() => undefined);
+    }
+  }
+
+  return { digestsSent, notificationsDigested, skippedQuietHours, failed };
+};
+
+/**
+ * Initialize notification digests
+ */
+export const initializeNotificationDigests = (): void => {
+  console.log('📬 Initializing Notification Digests...');
+
+  // Digests are due per user, check every hour
+  cron.schedule('0 * * * *', async () => {
+    try {
+      const result = await processNotificationDigests();
+      if (result.digestsSent > 0 || result.failed > 0) {
+        console.log(
+          `📬 Sent ${result.digestsSent} notification digests (${result.notificationsDigested} notifications, ${result.failed} failed)`
+        );
+      }
+    } catch (error) {
+      console.error('Error in notification digest job:', error);
+    }
+  });
+};
+
+export const notificationDigestService = {
+  buildNotificationDigest,
+  processNotificationDigests
+};
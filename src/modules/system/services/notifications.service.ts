@@ -18,15 +18,10 @@ import { NotificationModel, TNotificationDocument } from '../models/notification
 import { NotificationPreferencesModel } from '../models/notification-preferences.model';
 import { DeviceTokenModel, TDeviceTokenDocument } from '../models/device-token.model';
 import { createAppError } from '@/utils/error.utils';
-import { sendEmail } from '@/config/mailer';
-import {
-  sendWebPushNotification,
-  sendFCMNotification,
-  IWebPushSubscription,
-  IPushNotificationPayload
-} from '@/config/push-notifications';
-import { compileEmailTemplate, ITemplateVariables } from '@/config/email-templates';
+import { IWebPushSubscription } from '@/config/push-notifications';
+import { isWithinTimeRestrictions } from '@/modules/permissions/utils/permission-conditions.utils';
 import { sendRealtimeNotification } from './realtime-notifications.service';
+import { enqueueNotificationDeliveries, isDeliveryChannel } from './notification-delivery.service';
 
 /**
  * Create a new notification
@@ -367,28 +362,15 @@ const sendNotificationNow = async (notification: INotification): Promise<void> =
     return;
   }
 
-  // Send via enabled methods
-  const methods = typePrefs.methods || notification.methods;
-
-  for (const method of methods) {
-    try {
-      switch (method) {
-        case ENotificationMethod.EMAIL:
-          await sendEmailNotification(notification);
-          break;
-        case ENotificationMethod.SMS:
-          await sendSMSNotification(notification);
-          break;
-        case ENotificationMethod.PUSH:
-          await sendPushNotification(notification);
-          break;
-        case ENotificationMethod.IN_APP:
-          // Already stored in database
-          break;
-      }
-    } catch (error) {
-      console.error(`Failed to send ${method} notification:`, error);
-    }
+  // Queue the enabled channels, methods covered by the user's digest wait for it
+  const channels = (typePrefs.methods || notification.methods)
+    .filter(method => !isDeferredToDigest(method, notification, userPrefs))
+    .filter(isDeliveryChannel);
+
+  if (channels.length > 0) {
+    // The delivery queue marks the notification as sent once a channel delivered it
+    await enqueueNotificationDeliveries(notification, channels);
+    return;
   }
 
   // Update notification status using the document instance
@@ -398,155 +380,6 @@ const sendNotificationNow = async (notification: INotification): Promise<void> =
   }
 };
 
-/**
- * Send email notification
- */
-const sendEmailNotification = async (notification: INotification): Promise<void> => {
-  try {
-    // Prepare template variables
-    const templateVars: ITemplateVariables = {
-      userName: (notification.metadata.userName as string) || 'User',
-      taskName: notification.metadata.taskName as string,
-      taskDueDate: notification.metadata.dueDate as string,
-      taskPriority: notification.metadata.priority as string,
-      projectName: notification.metadata.projectName as string,
-      mentionedBy: notification.metadata.mentionedBy as string,
-      entityName: (notification.metadata.entityName as string) || notification.title,
-      entityType: notification.entityType || 'item',
-      dueDate: notification.metadata.dueDate as string,
-      overdueDays: notification.metadata.overdueDays as number,
-      workspaceName: (notification.metadata.workspaceName as string) || 'Second Brain',
-      actionUrl: `${process.env.APP_URL}/notifications/${notification.id}`
-    };
-
-    // Compile email template
-    const { subject, html, text } = compileEmailTemplate(notification.type, templateVars);
-
-    // Send email
-    await sendEmail({
-      to: (notification.metadata.userEmail as string) || 'user@example.com',
-      subject,
-      html,
-      text
-    });
-
-    console.log(`📧 Sent email notification: ${notification.title}`);
-  } catch (error) {
-    console.error('Error sending email notification:', error);
-    throw error;
-  }
-};
-
-/**
- * Send SMS notification
- */
-const sendSMSNotification = async (notification: INotification): Promise<void> => {
-  // Implementation would use the SMS service
-  console.log(`Sending SMS notification: ${notification.title}`);
-};
-
-/**
- * Send push notification
- */
-const sendPushNotification = async (notification: INotification): Promise<void> => {
-  try {
-    const userTokens = await DeviceTokenModel.findActiveByUser(notification.userId);
-    if (!userTokens || userTokens.length === 0) {
-      console.log(`No device tokens found for user ${notification.userId}`);
-      return;
-    }
-
-    // Prepare push notification payload
-    const payload: IPushNotificationPayload = {
-      title: notification.title,
-      body: notification.message,
-      icon: '/icons/notification-icon.png',
-      badge: '/icons/badge-icon.png',
-      data: {
-        notificationId: notification.id,
-        type: notification.type,
-        entityId: notification.entityId,
-        entityType: notification.entityType,
-        ...notification.metadata
-      },
-      actions: [
-        {
-          action: 'view',
-          title: 'View',
-          icon: '/icons/view-icon.png'
-        },
-        {
-          action: 'dismiss',
-          title: 'Dismiss',
-          icon: '/icons/dismiss-icon.png'
-        }
-      ],
-      requireInteraction: notification.priority === ENotificationPriority.URGENT,
-      tag: `${notification.type}-${notification.entityId}`,
-      url: `${process.env.APP_URL}/notifications/${notification.id}`
-    };
-
-    // Send to FCM tokens
-    const fcmTokens = userTokens.filter(token => token.type === 'fcm' && token.token);
-    for (const tokenDoc of fcmTokens) {
-      await sendFCMNotification({
-        token: tokenDoc.token!,
-        notification: {
-          title: payload.title,
-          body: payload.body,
-          imageUrl: payload.image
-        },
-        data: Object.fromEntries(
-          Object.entries(payload.data || {}).map(([k, v]) => [k, String(v)])
-        ),
-        android: {
-          priority: notification.priority === ENotificationPriority.URGENT ? 'high' : 'normal',
-          notification: {
-            icon: 'notification_icon',
-            color: '#667eea',
-            tag: payload.tag,
-            clickAction: payload.url
-          }
-        },
-        apns: {
-          payload: {
-            aps: {
-              alert: {
-                title: payload.title,
-                body: payload.body
-              },
-              badge: 1,
-              sound: 'default',
-              category: notification.type
-            }
-          }
-        }
-      });
-
-      // Mark token as used
-      await tokenDoc.markAsUsed();
-    }
-
-    // Send to Web Push subscriptions
-    const webPushTokens = userTokens.filter(token => token.type === 'webpush' && token.endpoint);
-    for (const tokenDoc of webPushTokens) {
-      const subscription: IWebPushSubscription = {
-        endpoint: tokenDoc.endpoint!,
-        keys: tokenDoc.keys!
-      };
-      await sendWebPushNotification(subscription, payload);
-
-      // Mark token as used
-      await tokenDoc.markAsUsed();
-    }
-
-    console.log(`📱 Sent push notification: ${notification.title}`);
-  } catch (error) {
-    console.error('Error sending push notification:', error);
-    throw error;
-  }
-};
-
 /**
  * Get user notification preferences
  */
@@ -556,7 +389,8 @@ const getUserNotificationPreferences = async (
 ): Promise<INotificationPreferences | undefined> => {
   try {
     const prefs = await NotificationPreferencesModel.findByUserAndWorkspace(userId, workspaceId);
-    return prefs ? prefs.toObject() : undefined;
+    // Type preferences are stored in a Map, flatten it so they can be read by type
+    return prefs ? prefs.toObject({ flattenMaps: true }) : undefined;
   } catch (error) {
     console.error('Error getting user notification preferences:', error);
     return undefined;
@@ -564,20 +398,47 @@ const getUserNotificationPreferences = async (
 };
 
 /**
- * Check if current time is in quiet hours
+ * Check if a moment falls in the user's quiet hours, in the timezone of the quiet
+ * hours. Windows past midnight (e.g. 22:00-07:00) span both days.
  */
-const isInQuietHours = (prefs?: INotificationPreferences): boolean => {
-  if (!prefs?.globalSettings.quietHours) {
+export const isInQuietHours = (prefs?: INotificationPreferences, now = new Date()): boolean => {
+  const quietHours = prefs?.globalSettings?.quietHours;
+  if (!quietHours?.start || !quietHours.end) {
     return false;
   }
 
-  const now = new Date();
-  const currentTime = `${now.getHours().toString().padStart(2, '0')}:${now.getMinutes().toString().padStart(2, '0')}`;
+  return isWithinTimeRestrictions(now, {
+    startTime: quietHours.start,
+    endTime: quietHours.end,
+    timezone: quietHours.timezone || 'UTC',
+    daysOfWeek: []
+  });
+};
 
-  const { start, end } = prefs.globalSettings.quietHours;
+/**
+ * Whether a delivery method waits for the user's digest instead of being sent right
+ * away. With the email digest on, emails are only sent in the digest and pushes of
+ * types that are not set to immediate are summarized with it. Urgent notifications are
+ * always delivered immediately.
+ */
+export const isDeferredToDigest = (
+  method: ENotificationMethod,
+  notification: INotification,
+  prefs?: INotificationPreferences
+): boolean => {
+  if (
+    !prefs?.globalSettings?.emailDigest ||
+    notification.priority === ENotificationPriority.URGENT
+  ) {
+    return false;
+  }
+
+  if (method === ENotificationMethod.EMAIL) {
+    return true;
+  }
 
-  // Simple time comparison (doesn't handle timezone properly - would need proper implementation)
-  return currentTime >= start && currentTime <= end;
+  const frequency = prefs.preferences?.[notification.type]?.frequency || 'immediate';
+  return method === ENotificationMethod.PUSH && frequency !== 'immediate';
 };
 
 /**
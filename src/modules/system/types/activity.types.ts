@@ -38,7 +38,10 @@ export enum EActivityType {
   VIEW_CREATED = 'VIEW_CREATED',
   VIEW_UPDATED = 'VIEW_UPDATED',
   VIEW_ACCESSED = 'VIEW_ACCESSED',
-  PAGE_VISITED = 'PAGE_VISITED'
+  PAGE_VISITED = 'PAGE_VISITED',
+  SHARE_LINK_CREATED = 'SHARE_LINK_CREATED',
+  SHARE_LINK_ACCESSED = 'SHARE_LINK_ACCESSED',
+  SHARE_LINK_REVOKED = 'SHARE_LINK_REVOKED'
 }
 
 export enum EActivityContext {
@@ -39,6 +39,16 @@ export enum ENotificationStatus {
   FAILED = 'failed'
 }
 
+// Status of the delivery of a notification over one channel
+export enum ENotificationDeliveryStatus {
+  QUEUED = 'queued',
+  PROCESSING = 'processing',
+  RETRYING = 'retrying',
+  SENT = 'sent',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled'
+}
+
 // Core notification interface
 export interface INotification {
   readonly id: string;
@@ -56,6 +66,8 @@ export interface INotification {
   readonly scheduledFor?: Date;
   readonly sentAt?: Date;
   readonly readAt?: Date;
+  // Set once the notification was included in an email digest
+  readonly digestedAt?: Date;
   readonly createdAt: Date;
   readonly updatedAt: Date;
   readonly createdBy: string;
@@ -89,6 +101,7 @@ export interface INotificationPreferences {
     readonly emailDigest: boolean;
     readonly digestFrequency: 'daily' | 'weekly';
   };
+  readonly lastDigestAt?: Date;
   readonly createdAt: Date;
   readonly updatedAt: Date;
 }
@@ -177,6 +190,138 @@ export interface INotificationStats {
   readonly weekCount: number;
 }
 
+// Notifications of one type about one entity in a digest
+export interface INotificationDigestGroup {
+  readonly type: ENotificationType;
+  readonly label: string;
+  readonly entityId?: string;
+  readonly entityType?: string;
+  readonly entityName?: string;
+  readonly count: number;
+  readonly titles: readonly string[];
+  readonly latestAt: Date;
+}
+
+export interface INotificationDigestWorkspace {
+  readonly workspaceId: string;
+  readonly workspaceName: string;
+  readonly groups: readonly INotificationDigestGroup[];
+}
+
+export interface INotificationDigest {
+  readonly userId: string;
+  readonly frequency: 'daily' | 'weekly';
+  readonly total: number;
+  readonly workspaces: readonly INotificationDigestWorkspace[];
+  readonly notificationIds: readonly string[];
+}
+
+export interface INotificationDigestRunResult {
+  readonly digestsSent: number;
+  readonly notificationsDigested: number;
+  readonly skippedQuietHours: number;
+  readonly failed: number;
+}
+
+// Channels delivered through the delivery queue, in-app notifications are stored only
+export type TNotificationDeliveryChannel =
+  | ENotificationMethod.EMAIL
+  | ENotificationMethod.PUSH
+  | ENotificationMethod.SMS;
+
+// Result of pushing to the devices of a user
+export interface IPushDeliveryResult {
+  readonly sent: number;
+  readonly failed: number;
+  readonly pruned: number;
+  readonly deliveredTokenIds: readonly string[];
+  readonly errors: readonly string[];
+}
+
+// One attempt to deliver a notification, with the status it moved the delivery to
+export interface INotificationDeliveryAttempt {
+  readonly attempt: number;
+  readonly status: ENotificationDeliveryStatus;
+  readonly startedAt: Date;
+  readonly finishedAt: Date;
+  readonly error?: string;
+  readonly errorCode?: number;
+  readonly targets?: {
+    readonly sent: number;
+    readonly failed: number;
+    readonly pruned: number;
+  };
+}
+
+export interface INotificationDelivery {
+  readonly id: string;
+  readonly notificationId: string;
+  readonly userId: string;
+  readonly workspaceId: string;
+  readonly channel: TNotificationDeliveryChannel;
+  readonly status: ENotificationDeliveryStatus;
+  readonly attempts: readonly INotificationDeliveryAttempt[];
+  readonly attemptCount: number;
+  readonly maxAttempts: number;
+  readonly nextAttemptAt?: Date;
+  readonly lockedUntil?: Date;
+  readonly deliveredTargets: readonly string[];
+  readonly lastError?: string;
+  readonly completedAt?: Date;
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+}
+
+// Delivery as listed in the admin failure report
+export interface INotificationDeliveryReportItem {
+  readonly id: string;
+  readonly notificationId: string;
+  readonly notificationType?: ENotificationType;
+  readonly notificationTitle?: string;
+  readonly userId: string;
+  readonly workspaceId: string;
+  readonly channel: TNotificationDeliveryChannel;
+  readonly status: ENotificationDeliveryStatus;
+  readonly attemptCount: number;
+  readonly maxAttempts: number;
+  readonly lastError?: string;
+  readonly nextAttemptAt?: Date;
+  readonly completedAt?: Date;
+  readonly attempts: readonly INotificationDeliveryAttempt[];
+  readonly createdAt: Date;
+}
+
+export interface INotificationDeliveryReportQuery {
+  readonly channel?: TNotificationDeliveryChannel;
+  readonly status?: ENotificationDeliveryStatus;
+  readonly userId?: string;
+  readonly workspaceId?: string;
+  readonly since?: Date;
+  readonly page?: number;
+  readonly limit?: number;
+}
+
+export interface INotificationDeliveryReport {
+  readonly deliveries: readonly INotificationDeliveryReportItem[];
+  readonly pagination: {
+    readonly currentPage: number;
+    readonly totalPages: number;
+    readonly total: number;
+    readonly hasNext: boolean;
+    readonly hasPrev: boolean;
+  };
+}
+
+export interface INotificationDeliveryStats {
+  readonly since: Date;
+  readonly byChannel: Record<
+    TNotificationDeliveryChannel,
+    Partial<Record<ENotificationDeliveryStatus, number>>
+  >;
+  readonly topErrors: readonly { readonly error: string; readonly count: number }[];
+  readonly prunedDeviceTokens: number;
+}
+
 // Reminder configuration
 export interface IReminderConfig {
   readonly entityId: string;
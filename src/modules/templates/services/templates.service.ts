@@ -3,6 +3,7 @@ import { TemplateModel, TTemplateDocument } from '../models/template.model';
 import { TemplateUsageModel } from '../models/template-usage.model';
 import { DatabaseModel } from '@/modules/database/models/database.model';
 import { RecordModel } from '@/modules/database/models/record.model';
+import { searchIndexService } from '@/modules/search/services/search-index.service';
 import { crossModuleRelationsService } from '@/modules/modules/services/cross-module-relations.service';
 import {
   IBaseTemplate,
@@ -99,6 +100,8 @@ const createTemplate = async (
   });
 
   await template.save();
+  await searchIndexService.indexTemplate(template.id);
+
   return formatTemplate(template);
 };
 
@@ -306,6 +309,8 @@ const applyDatabaseTemplate = async (
     }
   }
 
+  await searchIndexService.indexDatabase(database.id, true);
+
   // Track template usage
   await trackTemplateUsage(templateId, userId, workspaceId, 'manual');
 
@@ -413,6 +418,7 @@ const updateTemplate = async (
 
   Object.assign(template, updatesWithBooleans, { updatedAt: new Date() });
   await template.save();
+  await searchIndexService.indexTemplate(template.id);
 
   return formatTemplate(template);
 };
@@ -434,6 +440,7 @@ const deleteTemplate = async (templateId: string, userId: string): Promise<void>
   template.deletedAt = new Date();
   template.deletedBy = userId;
   await template.save();
+  await searchIndexService.removeTemplate(template.id);
 };
 
 // Rate template
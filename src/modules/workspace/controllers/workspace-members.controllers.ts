@@ -0,0 +1,185 @@
+import { Request, Response } from 'express';
+import { workspaceMembersService } from '../services/workspace-members.service';
+import { sendSuccessResponse } from '@/utils/response.utils';
+import { getUserId } from '@/modules/auth';
+import { catchAsync } from '@/utils';
+import { getWorkspaceId } from '../middleware/workspace.middleware';
+import { EWorkspaceMemberRole } from '../types/workspace.types';
+
+// Get workspace members
+export const getWorkspaceMembers = catchAsync(
+  async (req: Request, res: Response): Promise<void> => {
+    const workspaceId = getWorkspaceId(req);
+    const userId = getUserId(req);
+
+    if (!workspaceId) {
+      throw new Error('Workspace ID is required');
+    }
+
+    const members = await workspaceMembersService.getMembers(
+      workspaceId,
+      {
+        role: req.query.role as EWorkspaceMemberRole | undefined,
+        search: req.query.search as string | undefined
+      },
+      userId
+    );
+
+    sendSuccessResponse(res, 'Workspace members retrieved successfully', members);
+  }
+);
+
+// Update a member's role or permissions
+export const updateWorkspaceMember = catchAsync(
+  async (req: Request, res: Response): Promise<void> => {
+    const workspaceId = getWorkspaceId(req);
+    const userId = getUserId(req);
+
+    if (!workspaceId) {
+      throw new Error('Workspace ID is required');
+    }
+
+    const member = await workspaceMembersService.updateMember(
+      workspaceId,
+      req.params.userId,
+      req.body,
+      userId
+    );
+
+    sendSuccessResponse(res, 'Workspace member updated successfully', member);
+  }
+);
+
+// Remove a member, or leave the workspace when removing yourself
+export const removeWorkspaceMember = catchAsync(
+  async (req: Request, res: Response): Promise<void> => {
+    const workspaceId = getWorkspaceId(req);
+    const userId = getUserId(req);
+
+    if (!workspaceId) {
+      throw new Error('Workspace ID is required');
+    }
+
+    await workspaceMembersService.removeMember(workspaceId, req.params.userId, userId);
+
+    sendSuccessResponse(res, 'Workspace member removed successfully');
+  }
+);
+
+// Transfer workspace ownership to another member
+export const transferWorkspaceOwnership = catchAsync(
+  async (req: Request, res: Response): Promise<void> => {
+    const workspaceId = getWorkspaceId(req);
+    const userId = getUserId(req);
+
+    if (!workspaceId) {
+      throw new Error('Workspace ID is required');
+    }
+
+    const workspace = await workspaceMembersService.transferOwnership(
+      workspaceId,
+      req.body.userId,
+      userId
+    );
+
+    sendSuccessResponse(res, 'Workspace ownership transferred successfully', workspace);
+  }
+);
+
+// Get pending invitations of the workspace
+export const getWorkspaceInvitations = catchAsync(
+  async (req: Request, res: Response): Promise<void> => {
+    const workspaceId = getWorkspaceId(req);
+    const userId = getUserId(req);
+
+    if (!workspaceId) {
+      throw new Error('Workspace ID is required');
+    }
+
+    const invitations = await workspaceMembersService.getInvitations(workspaceId, userId);
+
+    sendSuccessResponse(res, 'Workspace invitations retrieved successfully', invitations);
+  }
+);
+
+// Invite a member by email
+export const inviteWorkspaceMember = catchAsync(
+  async (req: Request, res: Response): Promise<void> => {
+    const workspaceId = getWorkspaceId(req);
+    const userId = getUserId(req);
+
+    if (!workspaceId) {
+      throw new Error('Workspace ID is required');
+    }
+
+    const invitation = await workspaceMembersService.inviteMember(workspaceId, req.body, userId);
+
+    sendSuccessResponse(res, 'Invitation sent successfully', invitation, 201);
+  }
+);
+
+// Resend a pending invitation
+export const resendWorkspaceInvitation = catchAsync(
+  async (req: Request, res: Response): Promise<void> => {
+    const workspaceId = getWorkspaceId(req);
+    const userId = getUserId(req);
+
+    if (!workspaceId) {
+      throw new Error('Workspace ID is required');
+    }
+
+    const invitation = await workspaceMembersService.resendInvitation(
+      workspaceId,
+      req.params.invitationId,
+      userId
+    );
+
+    sendSuccessResponse(res, 'Invitation resent successfully', invitation);
+  }
+);
+
+// Revoke a pending invitation
+export const revokeWorkspaceInvitation = catchAsync(
+  async (req: Request, res: Response): Promise<void> => {
+    const workspaceId = getWorkspaceId(req);
+    const userId = getUserId(req);
+
+    if (!workspaceId) {
+      throw new Error('Workspace ID is required');
+    }
+
+    await workspaceMembersService.revokeInvitation(workspaceId, req.params.invitationId, userId);
+
+    sendSuccessResponse(res, 'Invitation revoked successfully');
+  }
+);
+
+// Get an invitation sent to the current user
+export const getWorkspaceInvitation = catchAsync(
+  async (req: Request, res: Response): Promise<void> => {
+    const userId = getUserId(req);
+    const invitation = await workspaceMembersService.getInvitationByToken(req.params.token, userId);
+
+    sendSuccessResponse(res, 'Invitation retrieved successfully', invitation);
+  }
+);
+
+// Accept an invitation and join the workspace
+export const acceptWorkspaceInvitation = catchAsync(
+  async (req: Request, res: Response): Promise<void> => {
+    const userId = getUserId(req);
+    const member = await workspaceMembersService.acceptInvitation(req.params.token, userId);
+
+    sendSuccessResponse(res, 'Invitation accepted successfully', member);
+  }
+);
+
+// Decline an invitation
+export const declineWorkspaceInvitation = catchAsync(
+  async (req: Request, res: Response): Promise<void> => {
+    const userId = getUserId(req);
+    await workspaceMembersService.declineInvitation(req.params.token, userId);
+
+    sendSuccessResponse(res, 'Invitation declined successfully');
+  }
+);
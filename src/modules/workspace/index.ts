@@ -1,8 +1,11 @@
 export { workspaceService } from './services/workspace.service';
+export { workspaceMembersService } from './services/workspace-members.service';
 export { WorkspaceModel, type IWorkspaceDocument } from './models/workspace.model';
 export { WorkspaceMemberModel } from './models/workspace-member.model';
+export { WorkspaceInvitationModel } from './models/workspace-invitation.model';
 export { default as workspaceRoutes } from './routes/workspace.routes';
 export * from './controllers/workspace.controllers';
+export * from './controllers/workspace-members.controllers';
 export * from './types/workspace.types';
 export * from './utils/workspace.utils';
 export * from './validators/workspace.validators';
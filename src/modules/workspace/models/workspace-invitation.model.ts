@@ -0,0 +1,138 @@
+import { randomBytes } from 'crypto';
+import mongoose, { Model } from 'mongoose';
+import { createBaseSchema, IBaseDocument } from '@/modules/core/models/base.model';
+import {
+  IWorkspaceInvitation,
+  EWorkspaceInvitationStatus,
+  EWorkspaceMemberRole
+} from '../types/workspace.types';
+
+export type TWorkspaceInvitationDocument = IWorkspaceInvitation & IBaseDocument;
+
+export type TWorkspaceInvitationModel = Model<TWorkspaceInvitationDocument> & {
+  findByToken(token: string): Promise<TWorkspaceInvitationDocument | null>;
+  findPending(workspaceId: string): Promise<TWorkspaceInvitationDocument[]>;
+  findPendingByEmail(
+    workspaceId: string,
+    email: string
+  ): Promise<TWorkspaceInvitationDocument | null>;
+  countPending(workspaceId: string): Promise<number>;
+};
+
+export const generateInvitationToken = (): string => randomBytes(32).toString('hex');
+
+const WorkspaceInvitationSchema = createBaseSchema(
+  {
+    workspaceId: {
+      type: String,
+      required: true,
+      index: true
+    },
+    email: {
+      type: String,
+      required: true,
+      trim: true,
+      lowercase: true
+    },
+    role: {
+      type: String,
+      enum: Object.values(EWorkspaceMemberRole),
+      required: true,
+      default: EWorkspaceMemberRole.VIEWER
+    },
+    invitedBy: {
+      type: String,
+      required: true
+    },
+    message: {
+      type: String,
+      maxlength: 1000
+    },
+    expiresAt: {
+      type: Date,
+      required: true
+    },
+
+    // Status
+    status: {
+      type: String,
+      enum: Object.values(EWorkspaceInvitationStatus),
+      default: EWorkspaceInvitationStatus.PENDING,
+      index: true
+    },
+    acceptedAt: {
+      type: Date
+    },
+    acceptedBy: {
+      type: String
+    },
+    declinedAt: {
+      type: Date
+    },
+    revokedAt: {
+      type: Date
+    },
+    revokedBy: {
+      type: String
+    },
+
+    // Only sent by email, never listed
+    token: {
+      type: String,
+      required: true,
+      unique: true,
+      select: false,
+      default: generateInvitationToken
+    }
+  },
+  {
+    statics: {
+      findByToken(token: string): Promise<TWorkspaceInvitationDocument | null> {
+        return this.findOne({ token }).select('+token').exec();
+      },
+
+      findPending(workspaceId: string): Promise<TWorkspaceInvitationDocument[]> {
+        return this.find({
+          workspaceId,
+          status: EWorkspaceInvitationStatus.PENDING,
+          expiresAt: { $gt: new Date() }
+        })
+          .sort({ createdAt: -1 })
+          .exec();
+      },
+
+      findPendingByEmail(
+        workspaceId: string,
+        email: string
+      ): Promise<TWorkspaceInvitationDocument | null> {
+        return this.findOne({
+          workspaceId,
+          email: email.toLowerCase(),
+          status: EWorkspaceInvitationStatus.PENDING
+        }).exec();
+      },
+
+      countPending(workspaceId: string): Promise<number> {
+        return this.countDocuments({
+          workspaceId,
+          status: EWorkspaceInvitationStatus.PENDING,
+          expiresAt: { $gt: new Date() }
+        }).exec();
+      }
+    }
+  }
+);
+
+// One pending invitation per email and workspace
+WorkspaceInvitationSchema.index(
+  { workspaceId: 1, email: 1 },
+  { unique: true, partialFilterExpression: { status: EWorkspaceInvitationStatus.PENDING } }
+);
+WorkspaceInvitationSchema.index({ email: 1, status: 1 });
+
+export const WorkspaceInvitationModel = mongoose.model<
+  TWorkspaceInvitationDocument,
+  TWorkspaceInvitationModel
+>('WorkspaceInvitation', WorkspaceInvitationSchema);
+
+export default WorkspaceInvitationModel;
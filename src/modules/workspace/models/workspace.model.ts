@@ -68,6 +68,10 @@ const WorkspaceConfigSchema = new Schema<IWorkspaceConfig>(
       min: 0,
       default: 1073741824 // 1GB
     },
+    memberStorageLimit: {
+      type: Number,
+      min: 0
+    },
     allowedIntegrations: [
       {
         type: String
@@ -1,5 +1,5 @@
 import { Router } from 'express';
-import { validateBody } from '@/middlewares/validation';
+import { validateBody, validateParams, validateQuery } from '@/middlewares/validation';
 import {
   resolveWorkspaceContext,
   requireWorkspaceManagement
@@ -15,9 +15,29 @@ import {
   getOrCreateDefaultWorkspace,
   switchCurrentWorkspace
 } from '../controllers/workspace.controllers';
+import {
+  getWorkspaceMembers,
+  updateWorkspaceMember,
+  removeWorkspaceMember,
+  transferWorkspaceOwnership,
+  getWorkspaceInvitations,
+  inviteWorkspaceMember,
+  resendWorkspaceInvitation,
+  revokeWorkspaceInvitation,
+  getWorkspaceInvitation,
+  acceptWorkspaceInvitation,
+  declineWorkspaceInvitation
+} from '../controllers/workspace-members.controllers';
 import {
   CreateWorkspaceSchema,
-  UpdateWorkspaceSchema
+  UpdateWorkspaceSchema,
+  UpdateWorkspaceMemberSchema,
+  WorkspaceInvitationSchema,
+  TransferWorkspaceOwnershipSchema,
+  memberQuerySchema,
+  workspaceMemberParamSchema,
+  invitationIdParamSchema,
+  invitationTokenParamSchema
 } from '@/modules/workspace/validators/workspace.validators';
 import { authenticateToken } from '@/middlewares/auth';
 
@@ -47,4 +67,73 @@ router.delete(
 router.get('/current/stats', resolveWorkspaceContext({ required: true }), getWorkspaceStats);
 router.get('/current/access', resolveWorkspaceContext({ required: true }), checkWorkspaceAccess);
 
+// Members
+router.get(
+  '/current/members',
+  validateQuery(memberQuerySchema),
+  resolveWorkspaceContext({ required: true }),
+  getWorkspaceMembers
+);
+router.put(
+  '/current/members/:userId',
+  validateParams(workspaceMemberParamSchema),
+  validateBody(UpdateWorkspaceMemberSchema),
+  resolveWorkspaceContext({ required: true }),
+  updateWorkspaceMember
+);
+router.delete(
+  '/current/members/:userId',
+  validateParams(workspaceMemberParamSchema),
+  resolveWorkspaceContext({ required: true }),
+  removeWorkspaceMember
+);
+router.post(
+  '/current/transfer-ownership',
+  validateBody(TransferWorkspaceOwnershipSchema),
+  resolveWorkspaceContext({ required: true }),
+  transferWorkspaceOwnership
+);
+
+// Invitations sent by the workspace
+router.get(
+  '/current/invitations',
+  resolveWorkspaceContext({ required: true }),
+  getWorkspaceInvitations
+);
+router.post(
+  '/current/invitations',
+  validateBody(WorkspaceInvitationSchema),
+  resolveWorkspaceContext({ required: true }),
+  inviteWorkspaceMember
+);
+router.post(
+  '/current/invitations/:invitationId/resend',
+  validateParams(invitationIdParamSchema),
+  resolveWorkspaceContext({ required: true }),
+  resendWorkspaceInvitation
+);
+router.delete(
+  '/current/invitations/:invitationId',
+  validateParams(invitationIdParamSchema),
+  resolveWorkspaceContext({ required: true }),
+  revokeWorkspaceInvitation
+);
+
+// Invitations received by the current user
+router.get(
+  '/invitations/:token',
+  validateParams(invitationTokenParamSchema),
+  getWorkspaceInvitation
+);
+router.post(
+  '/invitations/:token/accept',
+  validateParams(invitationTokenParamSchema),
+  acceptWorkspaceInvitation
+);
+router.post(
+  '/invitations/:token/decline',
+  validateParams(invitationTokenParamSchema),
+  declineWorkspaceInvitation
+);
+
 export default router;
@@ -0,0 +1,650 @@
+import {
+  IWorkspace,
+  IWorkspaceInvitation,
+  IWorkspaceInvitationPreview,
+  IWorkspaceInvitationRequest,
+  IWorkspaceMember,
+  IWorkspaceMemberPermissions,
+  IWorkspaceMemberQuery,
+  IWorkspaceMemberResponse,
+  IUpdateWorkspaceMemberRequest,
+  EWorkspaceInvitationStatus,
+  EWorkspaceMemberRole,
+  EWorkspaceType
+} from '@/modules/workspace/types/workspace.types';
+import { WorkspaceModel, IWorkspaceDocument } from '../models/workspace.model';
+import { WorkspaceMemberModel } from '../models/workspace-member.model';
+import {
+  WorkspaceInvitationModel,
+  TWorkspaceInvitationDocument,
+  generateInvitationToken
+} from '../models/workspace-invitation.model';
+import { emailService } from '@/modules/email/services/email.services';
+import {
+  createAppError,
+  createNotFoundError,
+  createForbiddenError,
+  createValidationError,
+  createConflictError,
+  createBadRequestError
+} from '@/utils/error.utils';
+
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const getRoleLevel = (role: EWorkspaceMemberRole): number => {
+  switch (role) {
+    case EWorkspaceMemberRole.OWNER:
+      return 5;
+    case EWorkspaceMemberRole.ADMIN:
+      return 4;
+    case EWorkspaceMemberRole.EDITOR:
+      return 3;
+    case EWorkspaceMemberRole.COMMENTER:
+      return 2;
+    case EWorkspaceMemberRole.VIEWER:
+      return 1;
+    default:
+      return 0;
+  }
+};
+
+const getActiveWorkspace = async (workspaceId: string): Promise<IWorkspaceDocument> => {
+  const workspace = await WorkspaceModel.findOne({ _id: workspaceId, isDeleted: false });
+  if (!workspace) throw createNotFoundError('Workspace', workspaceId);
+  return workspace;
+};
+
+// Role of a user in a workspace, the owner is recognized even without a member entry
+const getUserRole = async (
+  workspace: IWorkspaceDocument,
+  userId: string
+): Promise<EWorkspaceMemberRole | null> => {
+  if (workspace.ownerId === userId) return EWorkspaceMemberRole.OWNER;
+
+  const member = await WorkspaceMemberModel.findMember(workspace.id, userId);
+  return member?.role || null;
+};
+
+const checkMemberPermission = async (
+  workspace: IWorkspaceDocument,
+  userId: string,
+  permission: keyof IWorkspaceMemberPermissions,
+  message: string
+): Promise<void> => {
+  if (workspace.ownerId === userId) return;
+
+  const hasPermission = await WorkspaceMemberModel.hasPermission(workspace.id, userId, permission);
+  if (!hasPermission) throw createForbiddenError(message);
+};
+
+const countActiveMembers = (workspaceId: string): Promise<number> =>
+  WorkspaceMemberModel.countDocuments({ workspaceId, isActive: true, isDeleted: false }).exec();
+
+const getUserModel = async () => (await import('@/modules/users/models/users.model')).UserModel;
+
+const getDisplayName = (user: {
+  firstName?: string;
+  lastName?: string;
+  username?: string;
+  email: string;
+}): string => {
+  const name = [user.firstName, user.lastName].filter(Boolean).join(' ');
+  return name || user.username || user.email;
+};
+
+const isExpired = (invitation: IWorkspaceInvitation): boolean =>
+  new Date(invitation.expiresAt).getTime() <= Date.now();
+
+const sendInvitationEmail = async (
+  workspace: IWorkspaceDocument,
+  invitation: TWorkspaceInvitationDocument,
+  token: string
+): Promise<void> => {
+  const UserModel = await getUserModel();
+  const inviter = await UserModel.findById(invitation.invitedBy);
+
+  const sent = await emailService.sendWorkspaceInvitationEmail({
+    email: invitation.email,
+    token,
+    workspaceName: workspace.name,
+    inviterName: inviter ? getDisplayName(inviter) : 'A teammate',
+    role: invitation.role,
+    message: invitation.message,
+    expiresAt: invitation.expiresAt
+  });
+
+  if (!sent) {
+    console.error(`Failed to send workspace invitation ${invitation.id} to ${invitation.email}`);
+  }
+};
+
+// Pending, unexpired invitation addressed to the user
+const getInvitationForUser = async (
+  token: string,
+  userId: string
+): Promise<TWorkspaceInvitationDocument> => {
+  const invitation = await WorkspaceInvitationModel.findByToken(token);
+  if (!invitation) throw createNotFoundError('Invitation');
+
+  if (invitation.status !== EWorkspaceInvitationStatus.PENDING) {
+    throw createBadRequestError(`Invitation has already been ${invitation.status}`);
+  }
+  if (isExpired(invitation)) {
+    throw createBadRequestError('Invitation has expired');
+  }
+
+  const UserModel = await getUserModel();
+  const user = await UserModel.findById(userId);
+  if (!user || user.email !== invitation.email) {
+    throw createForbiddenError('This invitation was sent to a different email address');
+  }
+
+  return invitation;
+};
+
+// Invite a user by email, inviting the same email again renews its pending invitation
+const inviteMember = async (
+  workspaceId: string,
+  data: IWorkspaceInvitationRequest,
+  userId: string
+): Promise<IWorkspaceInvitation> => {
+  try {
+    const workspace = await getActiveWorkspace(workspaceId);
+
+    if (workspace.type === EWorkspaceType.PERSONAL) {
+      throw createBadRequestError('Members cannot be invited to a personal workspace');
+    }
+
+    await checkMemberPermission(
+      workspace,
+      userId,
+      'canInviteMembers',
+      'Insufficient permissions to invite members'
+    );
+
+    if (data.role === EWorkspaceMemberRole.OWNER) {
+      throw createValidationError('Ownership can only be transferred to an existing member');
+    }
+
+    const inviterRole = await getUserRole(workspace, userId);
+    if (!inviterRole || getRoleLevel(data.role) > getRoleLevel(inviterRole)) {
+      throw createForbiddenError('Cannot invite members with a higher role than your own');
+    }
+
+    const email = data.email.trim().toLowerCase();
+    const allowedDomains = workspace.config?.allowedEmailDomains || [];
+    const domain = email.split('@')[1];
+    if (
+      allowedDomains.length > 0 &&
+      !allowedDomains.some(allowed => allowed.toLowerCase() === domain)
+    ) {
+      throw createValidationError(`Email domain ${domain} is not allowed in this workspace`);
+    }
+
+    const UserModel = await getUserModel();
+    const invitee = await UserModel.findOne({ email });
+    if (invitee && (await WorkspaceMemberModel.findMember(workspaceId, invitee.id))) {
+      throw createConflictError('User is already a member of this workspace');
+    }
+
+    const existing = await WorkspaceInvitationModel.findPendingByEmail(workspaceId, email);
+
+    // Pending invitations hold a seat until they are accepted or expire
+    const maxMembers = workspace.config?.maxMembers;
+    if (maxMembers) {
+      const [memberCount, pendingCount] = await Promise.all([
+        countActiveMembers(workspaceId),
+        WorkspaceInvitationModel.countPending(workspaceId)
+      ]);
+      const renewsSeat = existing && !isExpired(existing) ? 1 : 0;
+
+      if (memberCount + pendingCount - renewsSeat >= maxMembers) {
+        throw createBadRequestError(`Workspace is limited to ${maxMembers} members`);
+      }
+    }
+
+    const token = generateInvitationToken();
+    const invitation =
+      existing ||
+      new WorkspaceInvitationModel({
+        workspaceId,
+        email,
+        createdBy: userId
+      });
+
+    Object.assign(invitation, {
+      role: data.role,
+      message: data.message,
+      invitedBy: userId,
+      expiresAt: new Date(Date.now() + INVITATION_TTL_MS),
+      token,
+      updatedBy: userId
+    });
+    await invitation.save();
+
+    await sendInvitationEmail(workspace, invitation, token);
+
+    return invitation.toJSON() as IWorkspaceInvitation;
+  } catch (error: any) {
+    if (error.statusCode) throw error;
+    throw createAppError(`Failed to invite member: ${error.message}`, 500);
+  }
+};
+
+const getInvitations = async (
+  workspaceId: string,
+  userId: string
+): Promise<IWorkspaceInvitation[]> => {
+  try {
+    const workspace = await getActiveWorkspace(workspaceId);
+    await checkMemberPermission(
+      workspace,
+      userId,
+      'canInviteMembers',
+      'Insufficient permissions to view invitations'
+    );
+
+    const invitations = await WorkspaceInvitationModel.findPending(workspaceId);
+    return invitations.map(invitation => invitation.toJSON() as IWorkspaceInvitation);
+  } catch (error: any) {
+    if (error.statusCode) throw error;
+    throw createAppError(`Failed to get invitations: ${error.message}`, 500);
+  }
+};
+
+// Send a pending invitation again with a new token and expiry
+const resendInvitation = async (
+  workspaceId: string,
+  invitationId: string,
+  userId: string
+): Promise<IWorkspaceInvitation> => {
+  try {
+    const workspace = await getActiveWorkspace(workspaceId);
+    await checkMemberPermission(
+      workspace,
+      userId,
+      'canInviteMembers',
+      'Insufficient permissions to resend invitations'
+    );
+
+    const invitation = await WorkspaceInvitationModel.findOne({
+      _id: invitationId,
+      workspaceId,
+      status: EWorkspaceInvitationStatus.PENDING
+    });
+    if (!invitation) throw createNotFoundError('Invitation', invitationId);
+
+    const token = generateInvitationToken();
+    invitation.token = token;
+    invitation.expiresAt = new Date(Date.now() + INVITATION_TTL_MS);
+    invitation.updatedBy = userId;
+    await invitation.save();
+
+    await sendInvitationEmail(workspace, invitation, token);
+
+    return invitation.toJSON() as IWorkspaceInvitation;
+  } catch (error: any) {
+    if (error.statusCode) throw error;
+    throw createAppError(`Failed to resend invitation: ${error.message}`, 500);
+  }
+};
+
+const revokeInvitation = async (
+  workspaceId: string,
+  invitationId: string,
+  userId: string
+): Promise<void> => {
+  try {
+    const workspace = await getActiveWorkspace(workspaceId);
+    await checkMemberPermission(
+      workspace,
+      userId,
+      'canInviteMembers',
+      'Insufficient permissions to revoke invitations'
+    );
+
+    const invitation = await WorkspaceInvitationModel.findOneAndUpdate(
+      { _id: invitationId, workspaceId, status: EWorkspaceInvitationStatus.PENDING },
+      {
+        status: EWorkspaceInvitationStatus.REVOKED,
+        revokedAt: new Date(),
+        revokedBy: userId,
+        updatedBy: userId
+      }
+    );
+    if (!invitation) throw createNotFoundError('Invitation', invitationId);
+  } catch (error: any) {
+    if (error.statusCode) throw error;
+    throw createAppError(`Failed to revoke invitation: ${error.message}`, 500);
+  }
+};
+
+// Details of an invitation for the invitee, before accepting or declining it
+const getInvitationByToken = async (
+  token: string,
+  userId: string
+): Promise<IWorkspaceInvitationPreview> => {
+  try {
+    const invitation = await getInvitationForUser(token, userId);
+    const workspace = await getActiveWorkspace(invitation.workspaceId);
+
+    const UserModel = await getUserModel();
+    const inviter = await UserModel.findById(invitation.invitedBy);
+
+    return {
+      id: invitation.id,
+      workspaceId: invitation.workspaceId,
+      workspaceName: workspace.name,
+      email: invitation.email,
+      role: invitation.role,
+      invitedBy: invitation.invitedBy,
+      inviterName: inviter ? getDisplayName(inviter) : undefined,
+      message: invitation.message,
+      expiresAt: invitation.expiresAt,
+      status: invitation.status
+    };
+  } catch (error: any) {
+    if (error.statusCode) throw error;
+    throw createAppError(`Failed to get invitation: ${error.message}`, 500);
+  }
+};
+
+// Join the workspace with the invited role, reactivating a previous membership
+const acceptInvitation = async (token: string, userId: string): Promise<IWorkspaceMember> => {
+  try {
+    const invitation = await getInvitationForUser(token, userId);
+    const workspace = await getActiveWorkspace(invitation.workspaceId);
+
+    const member = await WorkspaceMemberModel.findOne({
+      workspaceId: invitation.workspaceId,
+      userId
+    });
+    const isActiveMember = Boolean(member?.isActive && !member.isDeleted);
+
+    const maxMembers = workspace.config?.maxMembers;
+    if (
+      !isActiveMember &&
+      maxMembers &&
+      (await countActiveMembers(invitation.workspaceId)) >= maxMembers
+    ) {
+      throw createBadRequestError(`Workspace is limited to ${maxMembers} members`);
+    }
+
+    // Only the request that moves the invitation out of pending adds the member
+    const claimed = await WorkspaceInvitationModel.findOneAndUpdate(
+      { _id: invitation.id, status: EWorkspaceInvitationStatus.PENDING },
+      {
+        status: EWorkspaceInvitationStatus.ACCEPTED,
+        acceptedAt: new Date(),
+        acceptedBy: userId,
+        updatedBy: userId
+      }
+    );
+    if (!claimed) throw createBadRequestError('Invitation is no longer pending');
+
+    if (member && isActiveMember) {
+      return member.toJSON() as IWorkspaceMember;
+    }
+
+    const membership =
+      member || new WorkspaceMemberModel({ workspaceId: invitation.workspaceId, userId });
+    Object.assign(membership, {
+      role: invitation.role,
+      invitedBy: invitation.invitedBy,
+      invitedAt: invitation.updatedAt,
+      invitationAcceptedAt: new Date(),
+      joinedAt: new Date(),
+      lastActiveAt: new Date(),
+      isActive: true,
+      isDeleted: false,
+      deletedAt: undefined,
+      deletedBy: undefined,
+      customPermissions: null,
+      createdBy: membership.createdBy || userId,
+      updatedBy: userId
+    });
+    await membership.save();
+
+    await WorkspaceModel.incrementMemberCount(invitation.workspaceId);
+
+    return membership.toJSON() as IWorkspaceMember;
+  } catch (error: any) {
+    if (error.statusCode) throw error;
+    throw createAppError(`Failed to accept invitation: ${error.message}`, 500);
+  }
+};
+
+const declineInvitation = async (token: string, userId: string): Promise<void> => {
+  try {
+    const invitation = await getInvitationForUser(token, userId);
+
+    invitation.status = EWorkspaceInvitationStatus.DECLINED;
+    invitation.declinedAt = new Date();
+    invitation.updatedBy = userId;
+    await invitation.save();
+  } catch (error: any) {
+    if (error.statusCode) throw error;
+    throw createAppError(`Failed to decline invitation: ${error.message}`, 500);
+  }
+};
+
+const getMembers = async (
+  workspaceId: string,
+  query: IWorkspaceMemberQuery,
+  userId: string
+): Promise<IWorkspaceMemberResponse[]> => {
+  try {
+    const workspace = await getActiveWorkspace(workspaceId);
+    if (!(await getUserRole(workspace, userId)) && !workspace.isPublic) {
+      throw createForbiddenError('Access denied to workspace');
+    }
+
+    const members = await WorkspaceMemberModel.find({
+      workspaceId,
+      isActive: true,
+      isDeleted: false,
+      ...(query.role && { role: query.role })
+    }).sort({ joinedAt: 1 });
+
+    const UserModel = await getUserModel();
+    const users = await UserModel.find({ _id: { $in: members.map(member => member.userId) } });
+    const usersById = new Map(users.map(user => [user.id, user]));
+
+    const search = query.search?.trim().toLowerCase();
+
+    return members
+      .map(member => {
+        const user = usersById.get(member.userId);
+        return {
+          ...(member.toJSON() as IWorkspaceMember),
+          user: user && {
+            id: user.id,
+            email: user.email,
+            username: user.username,
+            firstName: user.firstName,
+            lastName: user.lastName
+          }
+        };
+      })
+      .filter(
+        member =>
+          !search ||
+          (member.user &&
+            [getDisplayName(member.user), member.user.email].some(value =>
+              value.toLowerCase().includes(search)
+            ))
+      );
+  } catch (error: any) {
+    if (error.statusCode) throw error;
+    throw createAppError(`Failed to get members: ${error.message}`, 500);
+  }
+};
+
+// Change the role or permissions of a member ranked below the acting user
+const updateMember = async (
+  workspaceId: string,
+  memberUserId: string,
+  data: IUpdateWorkspaceMemberRequest,
+  userId: string
+): Promise<IWorkspaceMember> => {
+  try {
+    const workspace = await getActiveWorkspace(workspaceId);
+    await checkMemberPermission(
+      workspace,
+      userId,
+      'canManageMembers',
+      'Insufficient permissions to manage members'
+    );
+
+    const member = await WorkspaceMemberModel.findMember(workspaceId, memberUserId);
+    if (!member) throw createNotFoundError('Workspace member', memberUserId);
+
+    if (member.role === EWorkspaceMemberRole.OWNER) {
+      throw createForbiddenError('The owner role can only change by transferring ownership');
+    }
+    if (data.role === EWorkspaceMemberRole.OWNER) {
+      throw createValidationError('Use an ownership transfer to make a member the owner');
+    }
+
+    const actorRole = await getUserRole(workspace, userId);
+    if (actorRole !== EWorkspaceMemberRole.OWNER) {
+      const actorLevel = getRoleLevel(actorRole as EWorkspaceMemberRole);
+
+      if (getRoleLevel(member.role) >= actorLevel) {
+        throw createForbiddenError('Cannot change members with the same or a higher role');
+      }
+      if (data.role && getRoleLevel(data.role) > actorLevel) {
+        throw createForbiddenError('Cannot assign a higher role than your own');
+      }
+
+      // Permissions can only be granted by members who have them
+      for (const [permission, granted] of Object.entries(data.customPermissions || {})) {
+        const canGrant = await WorkspaceMemberModel.hasPermission(
+          workspaceId,
+          userId,
+          permission as keyof IWorkspaceMemberPermissions
+        );
+        if (granted && !canGrant) {
+          throw createForbiddenError(`Cannot grant ${permission} without having it`);
+        }
+      }
+    }
+
+    if (data.role) member.role = data.role;
+    if (data.customPermissions) {
+      member.customPermissions = { ...member.customPermissions, ...data.customPermissions };
+    }
+    if (data.notes !== undefined) member.notes = data.notes;
+    member.updatedBy = userId;
+    await member.save();
+
+    return member.toJSON() as IWorkspaceMember;
+  } catch (error: any) {
+    if (error.statusCode) throw error;
+    throw createAppError(`Failed to update member: ${error.message}`, 500);
+  }
+};
+
+// Remove a member, members can always remove themselves to leave the workspace
+const removeMember = async (
+  workspaceId: string,
+  memberUserId: string,
+  userId: string
+): Promise<void> => {
+  try {
+    const workspace = await getActiveWorkspace(workspaceId);
+
+    const member = await WorkspaceMemberModel.findMember(workspaceId, memberUserId);
+    if (!member) throw createNotFoundError('Workspace member', memberUserId);
+
+    if (member.role === EWorkspaceMemberRole.OWNER || workspace.ownerId === memberUserId) {
+      throw createForbiddenError('The workspace owner cannot be removed, transfer ownership first');
+    }
+
+    if (memberUserId !== userId) {
+      await checkMemberPermission(
+        workspace,
+        userId,
+        'canRemoveMembers',
+        'Insufficient permissions to remove members'
+      );
+
+      const actorRole = await getUserRole(workspace, userId);
+      if (
+        actorRole !== EWorkspaceMemberRole.OWNER &&
+        getRoleLevel(member.role) >= getRoleLevel(actorRole as EWorkspaceMemberRole)
+      ) {
+        throw createForbiddenError('Cannot remove members with the same or a higher role');
+      }
+    }
+
+    member.isActive = false;
+    member.isDeleted = true;
+    member.deletedAt = new Date();
+    member.deletedBy = userId;
+    member.updatedBy = userId;
+    await member.save();
+
+    await WorkspaceModel.decrementMemberCount(workspaceId);
+  } catch (error: any) {
+    if (error.statusCode) throw error;
+    throw createAppError(`Failed to remove member: ${error.message}`, 500);
+  }
+};
+
+// Make another member the owner, the previous owner stays on as admin
+const transferOwnership = async (
+  workspaceId: string,
+  newOwnerId: string,
+  userId: string
+): Promise<IWorkspace> => {
+  try {
+    const workspace = await getActiveWorkspace(workspaceId);
+
+    if (workspace.ownerId !== userId) {
+      throw createForbiddenError('Only the workspace owner can transfer ownership');
+    }
+    if (newOwnerId === userId) {
+      throw createValidationError('You already own this workspace');
+    }
+
+    const newOwner = await WorkspaceMemberModel.findMember(workspaceId, newOwnerId);
+    if (!newOwner) {
+      throw createValidationError('The new owner must be a member of the workspace');
+    }
+
+    newOwner.role = EWorkspaceMemberRole.OWNER;
+    newOwner.customPermissions = undefined;
+    newOwner.updatedBy = userId;
+    await newOwner.save();
+
+    await WorkspaceMemberModel.updateOne(
+      { workspaceId, userId, isActive: true, isDeleted: false },
+      { role: EWorkspaceMemberRole.ADMIN, updatedBy: userId }
+    );
+
+    workspace.ownerId = newOwnerId;
+    workspace.updatedBy = userId;
+    workspace.lastActivityAt = new Date();
+    await workspace.save();
+
+    return workspace.toJSON() as IWorkspace;
+  } catch (error: any) {
+    if (error.statusCode) throw error;
+    throw createAppError(`Failed to transfer ownership: ${error.message}`, 500);
+  }
+};
+
+export const workspaceMembersService = {
+  inviteMember,
+  getInvitations,
+  resendInvitation,
+  revokeInvitation,
+  getInvitationByToken,
+  acceptInvitation,
+  declineInvitation,
+  getMembers,
+  updateMember,
+  removeMember,
+  transferOwnership
+};
@@ -5,6 +5,7 @@ import {
 } from '@/modules/workspace/types/workspace.types';
 import { ECalendarType } from '@/modules/calendar/types/enums.types';
 import { WorkspaceMemberModel } from '../models/workspace-member.model';
+import { workspaceMembersService } from './workspace-members.service';
 import { createAppError, createNotFoundError, createForbiddenError } from '@/utils/error.utils';
 import {WorkspaceModel} from "@/modules/workspace";
 
@@ -216,14 +217,26 @@ const updateWorkspace = async (
       throw createForbiddenError('Insufficient permissions to update workspace');
     }
 
+    // Ownership changes go through a transfer, which only the owner can make
+    const { ownerId, ...changes } = data;
+    const transfersOwnership = Boolean(ownerId) && ownerId !== workspace.ownerId;
+    if (transfersOwnership && workspace.ownerId !== userId) {
+      throw createForbiddenError('Only the workspace owner can transfer ownership');
+    }
+
     // Update workspace
     Object.assign(workspace, {
-      ...data,
+      ...changes,
       updatedBy: userId,
       lastActivityAt: new Date()
     });
 
     await workspace.save();
+
+    if (ownerId && transfersOwnership) {
+      return await workspaceMembersService.transferOwnership(workspaceId, ownerId, userId);
+    }
+
     return workspace.toJSON() as IWorkspace;
   } catch (error: any) {
     if (error.statusCode) throw error;
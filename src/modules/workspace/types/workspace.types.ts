@@ -15,6 +15,13 @@ export enum EWorkspaceMemberRole {
   VIEWER = 'viewer'
 }
 
+export enum EWorkspaceInvitationStatus {
+  PENDING = 'pending',
+  ACCEPTED = 'accepted',
+  DECLINED = 'declined',
+  REVOKED = 'revoked'
+}
+
 // Workspace configuration
 export interface IWorkspaceConfig {
   // Appearance
@@ -32,6 +39,7 @@ export interface IWorkspaceConfig {
   maxDatabases?: number;
   maxMembers?: number;
   storageLimit?: number; // in bytes
+  memberStorageLimit?: number; // in bytes, per member
 
   // Integrations
   allowedIntegrations?: string[];
@@ -124,10 +132,14 @@ export interface IWorkspaceInvitation extends IBaseEntity {
   email: string;
   role: EWorkspaceMemberRole;
   invitedBy: TUserId;
+  message?: string;
   expiresAt: Date;
-  isAccepted: boolean;
+  status: EWorkspaceInvitationStatus;
   acceptedAt?: Date;
   acceptedBy?: TUserId;
+  declinedAt?: Date;
+  revokedAt?: Date;
+  revokedBy?: TUserId;
   token: string;
 }
 
@@ -219,3 +231,37 @@ export interface IWorkspaceInvitationRequest {
   role: EWorkspaceMemberRole;
   message?: string;
 }
+
+export interface ITransferWorkspaceOwnershipRequest {
+  userId: string;
+}
+
+export interface IWorkspaceMemberQuery {
+  role?: EWorkspaceMemberRole;
+  search?: string;
+}
+
+// Member with the profile of its user, as listed to other members
+export interface IWorkspaceMemberResponse extends IWorkspaceMember {
+  user?: {
+    id: string;
+    email: string;
+    username?: string;
+    firstName?: string;
+    lastName?: string;
+  };
+}
+
+// What the invitee sees before accepting or declining
+export interface IWorkspaceInvitationPreview {
+  id: string;
+  workspaceId: TId;
+  workspaceName: string;
+  email: string;
+  role: EWorkspaceMemberRole;
+  invitedBy: TUserId;
+  inviterName?: string;
+  message?: string;
+  expiresAt: Date;
+  status: EWorkspaceInvitationStatus;
+}
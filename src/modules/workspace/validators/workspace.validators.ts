@@ -10,6 +10,18 @@ export const memberIdParamSchema = z.object({
   userId: z.string().min(1, 'User ID is required')
 });
 
+export const workspaceMemberParamSchema = z.object({
+  userId: z.string().min(1, 'User ID is required')
+});
+
+export const invitationIdParamSchema = z.object({
+  invitationId: z.string().min(1, 'Invitation ID is required')
+});
+
+export const invitationTokenParamSchema = z.object({
+  token: z.string().min(1, 'Invitation token is required')
+});
+
 export const workspaceQuerySchema = z.object({
   type: z.string().optional(),
   search: z.string().optional(),
@@ -18,7 +30,7 @@ export const workspaceQuerySchema = z.object({
 });
 
 export const memberQuerySchema = z.object({
-  role: z.string().optional(),
+  role: z.enum(['owner', 'admin', 'editor', 'commenter', 'viewer']).optional(),
   active: z.string().optional(),
   search: z.string().optional()
 });
@@ -44,6 +56,7 @@ export const WorkspaceConfigSchema = z.object({
   maxDatabases: z.number().min(1).optional(),
   maxMembers: z.number().min(1).optional(),
   storageLimit: z.number().min(0).optional(),
+  memberStorageLimit: z.number().min(0).optional(),
   allowedIntegrations: z.array(z.string()).optional(),
   requireTwoFactor: z.boolean().default(false),
   allowedEmailDomains: z.array(z.string()).optional(),
@@ -136,3 +149,7 @@ export const WorkspaceInvitationSchema = z.object({
   role: WorkspaceMemberRoleSchema,
   message: z.string().max(1000).optional()
 });
+
+export const TransferWorkspaceOwnershipSchema = z.object({
+  userId: z.string().min(1, 'User ID is required')
+});
@@ -26,6 +26,7 @@ import templateRoutes from '@/modules/templates/routes';
 import { usersRoutes } from '@/modules/users';
 import { authRoutes } from '@/modules/auth';
 import { settingsRoutes } from '@/modules/settings';
+import { filesRoutes } from '@/modules/files';
 
 const router = express.Router();
 
@@ -57,5 +58,6 @@ router.use('/content', contentRoutes);
 router.use('/calendar', calendarRoutes);
 router.use('/help', helpCenterRoutes);
 router.use('/search', searchRoutes);
+router.use('/files', filesRoutes);
 
 export default router;